@@ -8,6 +8,9 @@ const config: Config = {
   setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
   // Our TS source imports use ".js" extensions (Node ESM style). During tests we execute TS directly,
   // so map "*.js" imports to the TS source path.
+  // mock-ffa-api, which the FFA suites start in-process, has no node_modules of its own in a
+  // backend-only install; its express/cors imports resolve from backend's.
+  moduleDirectories: ['node_modules', '<rootDir>/node_modules'],
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1',
   },
@@ -1,5 +1,9 @@
 import cron from 'node-cron';
-import { syncFFAData } from '../services/ffaSync.js';
+import { requestFFASync } from '../services/ffaSync.js';
+import { checkScheduledSyncAllowed } from '../services/ffaClient.js';
+import { requestInboundSlaSweep } from '../services/inboundSlaService.js';
+import { createDueRetryCallbacks } from '../services/retryService.js';
+import { sweepStaleRuns } from '../services/runControlService.js';
 import logger from '../config/logger.js';
 
 /**
@@ -9,17 +13,67 @@ export const setupCronJobs = (): void => {
   // FFA Sync: Run every hour at minute 0
   cron.schedule('0 * * * *', async () => {
     try {
-      logger.info('Starting scheduled FFA sync...');
-      const result = await syncFFAData();
-      logger.info(`Scheduled FFA sync completed: ${result.activitiesSynced} activities, ${result.farmersSynced} farmers`);
+      // Paused while the FFA circuit breaker is open (repeated failed fetches)
+      const gate = await checkScheduledSyncAllowed();
+      if (!gate.allowed) {
+        logger.warn(`Scheduled FFA sync paused: ${gate.reason}`);
+        return;
+      }
+      // Every instance runs this schedule; the job's concurrency key lets only one sync through
+      const { job, enqueued } = await requestFFASync(false);
+      logger.info(enqueued ? `Scheduled FFA sync queued (job ${job._id})` : `Scheduled FFA sync skipped: job ${job._id} is ${job.status}`);
     } catch (error) {
-      logger.error('Scheduled FFA sync failed:', error);
+      logger.error('Scheduled FFA sync could not be queued:', error);
     }
   }, {
     scheduled: true,
     timezone: 'Asia/Kolkata',
   });
 
-  logger.info('Cron jobs scheduled: FFA sync (hourly)');
+  // Inbound SLA: escalate + notify team leads on breached queries every 15 minutes
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      // Every instance runs this schedule; the job's concurrency key lets only one sweep through
+      const { job, enqueued } = await requestInboundSlaSweep();
+      if (!enqueued) logger.info(`Scheduled inbound SLA check skipped: job ${job._id} is ${job.status}`);
+    } catch (error) {
+      logger.error('Scheduled inbound SLA check could not be queued:', error);
+    }
+  }, {
+    scheduled: true,
+    timezone: 'Asia/Kolkata',
+  });
+
+  // Retry policy: create callback tasks for retries that are due
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      const result = await createDueRetryCallbacks();
+      if (result.due > 0) {
+        logger.info(`Scheduled auto retry: ${result.created} callbacks created, ${result.skipped} skipped`);
+      }
+    } catch (error) {
+      logger.error('Scheduled auto retry failed:', error);
+    }
+  }, {
+    scheduled: true,
+    timezone: 'Asia/Kolkata',
+  });
+
+  // Sampling / allocation runs abandoned mid-way (server restart): mark interrupted or failed
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      const result = await sweepStaleRuns();
+      if (result.interrupted + result.failed + result.cancelled > 0) {
+        logger.info(`Stale run sweep: ${result.interrupted} interrupted, ${result.failed} failed, ${result.cancelled} cancelled`);
+      }
+    } catch (error) {
+      logger.error('Stale run sweep failed:', error);
+    }
+  }, {
+    scheduled: true,
+    timezone: 'Asia/Kolkata',
+  });
+
+  logger.info('Cron jobs scheduled: FFA sync (hourly), inbound SLA check (every 15 min), auto retry (every 15 min), stale run sweep (every 5 min)');
 };
 
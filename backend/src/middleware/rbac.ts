@@ -8,7 +8,7 @@ import { AppError } from './errorHandler.js';
  * If X-Active-Role header is provided and is valid (in user's roles array), use it.
  * Otherwise, fallback to the user's primary role.
  */
-const getEffectiveRole = (req: Request): UserRole => {
+export const getEffectiveRole = (req: Request): UserRole => {
   const activeRoleHeader = req.headers['x-active-role'] as string | undefined;
   const user = req.user as any;
   const userRoles = user?.roles || [user?.role];
@@ -0,0 +1,76 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ReconciliationReason = 'farmers_removed' | 'farmers_added' | 'officer_changed' | 'date_changed';
+export type ReconciliationStatus = 'open' | 'resolved' | 'dismissed';
+export type ReconciliationAction = 'cancel_orphaned_tasks' | 'resample' | 'dismiss';
+
+export interface ReconciliationActionEntry {
+  action: ReconciliationAction;
+  at: Date;
+  byUserId?: mongoose.Types.ObjectId | null;
+  tasksCancelled?: number;
+  /** Orphaned tasks left alone because a call was already made or is in progress */
+  tasksKept?: number;
+  tasksCreated?: number;
+  note?: string | null;
+}
+
+/**
+ * An activity that already has call tasks or a sampling audit and whose upstream data then
+ * changed in a way that affects them. At most one open item per activity; further changes are
+ * folded into it.
+ */
+export interface IActivityReconciliation extends Document {
+  activityId: mongoose.Types.ObjectId;
+  /** FFA activityId */
+  activityKey: string;
+  status: ReconciliationStatus;
+  reasons: ReconciliationReason[];
+  /** ChangeHistory entries that raised or extended this item */
+  changeIds: mongoose.Types.ObjectId[];
+  firstDetectedAt: Date;
+  lastDetectedAt: Date;
+  actions: ReconciliationActionEntry[];
+  resolvedAt?: Date | null;
+  resolvedByUserId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ActivityReconciliationSchema = new Schema<IActivityReconciliation>(
+  {
+    activityId: { type: Schema.Types.ObjectId, ref: 'Activity', required: true },
+    activityKey: { type: String, required: true },
+    status: { type: String, enum: ['open', 'resolved', 'dismissed'], required: true, default: 'open' },
+    reasons: [{ type: String, enum: ['farmers_removed', 'farmers_added', 'officer_changed', 'date_changed'] }],
+    changeIds: [{ type: Schema.Types.ObjectId, ref: 'ChangeHistory' }],
+    firstDetectedAt: { type: Date, required: true },
+    lastDetectedAt: { type: Date, required: true },
+    actions: [
+      {
+        _id: false,
+        action: { type: String, enum: ['cancel_orphaned_tasks', 'resample', 'dismiss'], required: true },
+        at: { type: Date, required: true },
+        byUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+        tasksCancelled: { type: Number },
+        tasksKept: { type: Number },
+        tasksCreated: { type: Number },
+        note: { type: String, default: null },
+      },
+    ],
+    resolvedAt: { type: Date, default: null },
+    resolvedByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true }
+);
+
+ActivityReconciliationSchema.index(
+  { activityId: 1 },
+  { unique: true, partialFilterExpression: { status: 'open' } }
+);
+ActivityReconciliationSchema.index({ status: 1, lastDetectedAt: -1 });
+
+export const ActivityReconciliation = mongoose.model<IActivityReconciliation>(
+  'ActivityReconciliation',
+  ActivityReconciliationSchema
+);
@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AgentAvailability = 'offline' | 'available' | 'on_call' | 'wrap_up' | 'break';
+export type DialerMode = 'manual' | 'progressive';
+
+/**
+ * Live availability of a CC agent (one document per agent). Agents set available/break
+ * themselves; on_call and wrap_up follow their task actions. A missed heartbeat reads as
+ * offline (see agentPresenceService).
+ */
+export interface IAgentPresence extends Document {
+  agentId: mongoose.Types.ObjectId;
+  state: AgentAvailability;
+  stateSince: Date;
+  mode: DialerMode;
+  breakReason?: string | null;
+  currentTaskId?: mongoose.Types.ObjectId | null;
+  wrapUpEndsAt?: Date | null;
+  lastSeenAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AgentPresenceSchema = new Schema<IAgentPresence>(
+  {
+    agentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true,
+    },
+    state: {
+      type: String,
+      enum: ['offline', 'available', 'on_call', 'wrap_up', 'break'],
+      default: 'offline',
+    },
+    stateSince: {
+      type: Date,
+      default: Date.now,
+    },
+    mode: {
+      type: String,
+      enum: ['manual', 'progressive'],
+      default: 'manual',
+    },
+    breakReason: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    currentTaskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'CallTask',
+      default: null,
+    },
+    wrapUpEndsAt: {
+      type: Date,
+      default: null,
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+AgentPresenceSchema.index({ state: 1 });
+
+export const AgentPresence = mongoose.model<IAgentPresence>('AgentPresence', AgentPresenceSchema);
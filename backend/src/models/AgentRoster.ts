@@ -0,0 +1,85 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/** Weekly shift: dayOfWeek 0 = Sunday … 6 = Saturday, times are HH:mm in the roster timezone (IST) */
+export interface IShift {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+/** A full day off; date is YYYY-MM-DD in the roster timezone */
+export interface ILeaveDay {
+  date: string;
+  reason?: string;
+  createdByUserId?: mongoose.Types.ObjectId | null;
+  createdAt?: Date;
+}
+
+export interface IAgentRoster extends Document {
+  agentId: mongoose.Types.ObjectId;
+  shifts: IShift[];
+  /** Tasks the agent can work in a day; allocation tops the open queue up to this */
+  dailyCapacity: number;
+  leaves: ILeaveDay[];
+  updatedByUserId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const ShiftSchema = new Schema<IShift>(
+  {
+    dayOfWeek: { type: Number, required: true, min: 0, max: 6 },
+    startTime: { type: String, required: true, match: TIME_PATTERN },
+    endTime: { type: String, required: true, match: TIME_PATTERN },
+  },
+  { _id: false }
+);
+
+const LeaveDaySchema = new Schema<ILeaveDay>(
+  {
+    date: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    reason: { type: String, trim: true, default: '' },
+    createdByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const AgentRosterSchema = new Schema<IAgentRoster>(
+  {
+    agentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true,
+    },
+    shifts: {
+      type: [ShiftSchema],
+      default: [],
+    },
+    dailyCapacity: {
+      type: Number,
+      required: true,
+      min: 0,
+      default: 60,
+    },
+    leaves: {
+      type: [LeaveDaySchema],
+      default: [],
+    },
+    updatedByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AgentRosterSchema.index({ 'leaves.date': 1 });
+
+export const AgentRoster = mongoose.model<IAgentRoster>('AgentRoster', AgentRosterSchema);
@@ -1,10 +1,19 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
-export type AllocationRunStatus = 'running' | 'completed' | 'failed';
+export type AllocationRunStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+export type AllocationRunKind = 'allocate' | 'reallocate';
+
+/** A task selected for the run, with what the strategy needs to place it */
+export interface AllocationRunPlanItem {
+  taskId: mongoose.Types.ObjectId;
+  farmerLanguage?: string | null;
+  territory?: string | null;
+}
 
 export interface IAllocationRun extends Document {
   createdByUserId?: mongoose.Types.ObjectId | null;
   status: AllocationRunStatus;
+  kind: AllocationRunKind;
   startedAt: Date;
   finishedAt?: Date | null;
   filters?: {
@@ -12,15 +21,29 @@ export interface IAllocationRun extends Document {
     count?: number | null;
     dateFrom?: Date | null;
     dateTo?: Date | null;
+    /** Allocation strategy chosen for the run (see services/allocationStrategies) */
+    strategy?: string | null;
+    bu?: string | null;
+    state?: string | null;
+    reallocateFromAgentId?: string | null;
+    reallocateFromAgentName?: string | null;
   };
   total: number;
   processed: number;
   allocated: number;
   skipped: number;
   skippedByLanguage?: Record<string, number>;
+  /** Tasks left unassigned because the farmer is on the do-not-call / consent registry */
+  skippedDoNotCall?: number;
   errorCount: number;
   errorMessages?: string[];
   lastProgressAt?: Date | null;
+  /** Tasks in processing order; `processed` is the resume cursor */
+  plan?: AllocationRunPlanItem[];
+  cancelRequestedAt?: Date | null;
+  cancelledByUserId?: mongoose.Types.ObjectId | null;
+  resumeCount: number;
+  resumedAt?: Date | null;
 }
 
 const AllocationRunSchema = new Schema<IAllocationRun>(
@@ -33,11 +56,12 @@ const AllocationRunSchema = new Schema<IAllocationRun>(
     },
     status: {
       type: String,
-      enum: ['running', 'completed', 'failed'],
+      enum: ['running', 'completed', 'failed', 'cancelled', 'interrupted'],
       required: true,
       default: 'running',
       index: true,
     },
+    kind: { type: String, enum: ['allocate', 'reallocate'], default: 'allocate' },
     startedAt: { type: Date, required: true, default: Date.now, index: true },
     finishedAt: { type: Date, default: null },
     filters: {
@@ -45,20 +69,44 @@ const AllocationRunSchema = new Schema<IAllocationRun>(
       count: { type: Number, default: null },
       dateFrom: { type: Date, default: null },
       dateTo: { type: Date, default: null },
+      strategy: { type: String, default: null },
+      bu: { type: String, default: null },
+      state: { type: String, default: null },
+      reallocateFromAgentId: { type: String, default: null },
+      reallocateFromAgentName: { type: String, default: null },
     },
     total: { type: Number, default: 0 },
     processed: { type: Number, default: 0 },
     allocated: { type: Number, default: 0 },
     skipped: { type: Number, default: 0 },
     skippedByLanguage: { type: Schema.Types.Mixed, default: {} },
+    skippedDoNotCall: { type: Number, default: 0 },
     errorCount: { type: Number, default: 0 },
     errorMessages: { type: [String], default: [] },
     lastProgressAt: { type: Date, default: null },
+    plan: {
+      type: [
+        new Schema(
+          {
+            taskId: { type: Schema.Types.ObjectId, required: true },
+            farmerLanguage: { type: String, default: null },
+            territory: { type: String, default: null },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    cancelRequestedAt: { type: Date, default: null },
+    cancelledByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    resumeCount: { type: Number, default: 0 },
+    resumedAt: { type: Date, default: null },
   },
   { timestamps: true }
 );
 
 AllocationRunSchema.index({ createdByUserId: 1, startedAt: -1 });
+AllocationRunSchema.index({ status: 1, lastProgressAt: 1 }); // Stale run sweep
 
 export const AllocationRun = mongoose.model<IAllocationRun>('AllocationRun', AllocationRunSchema);
 
@@ -0,0 +1,150 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type CallSessionStatus = 'dialing' | 'ringing' | 'answered' | 'ended' | 'failed';
+export type HangupCause =
+  | 'normal'
+  | 'no_answer'
+  | 'busy'
+  | 'invalid_number'
+  | 'unreachable'
+  | 'agent_hangup'
+  | 'failed';
+export type TelephonyEventType = 'ringing' | 'answered' | 'hungup' | 'dtmf';
+
+export interface ICallSessionEvent {
+  eventId: string;
+  type: TelephonyEventType;
+  at: Date;
+  payload?: Record<string, unknown>;
+}
+
+export interface ICallSessionDtmf {
+  digits: string;
+  direction: 'inbound' | 'outbound'; // inbound = pressed by the farmer, outbound = sent by the agent
+  at: Date;
+}
+
+/**
+ * One telephony call placed from the agent workspace. Provider events move it through
+ * dialing → ringing → answered → ended; the submitted call log takes callStatus and
+ * duration from here instead of the agent's own selection.
+ */
+export interface ICallSession extends Document {
+  taskId: mongoose.Types.ObjectId;
+  agentId: mongoose.Types.ObjectId;
+  provider: string;
+  providerCallId?: string | null;
+  toNumber: string;
+  status: CallSessionStatus;
+  hangupCause?: HangupCause | null;
+  dialedAt: Date;
+  ringingAt?: Date | null;
+  answeredAt?: Date | null;
+  endedAt?: Date | null;
+  durationSeconds: number; // answered → ended; 0 when never answered
+  dtmf: ICallSessionDtmf[];
+  events: ICallSessionEvent[];
+  submittedAt?: Date | null; // set when the session is consumed by a call log submission
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CallSessionEventSchema = new Schema<ICallSessionEvent>(
+  {
+    eventId: { type: String, required: true },
+    type: { type: String, enum: ['ringing', 'answered', 'hungup', 'dtmf'], required: true },
+    at: { type: Date, required: true },
+    payload: { type: Schema.Types.Mixed, default: null },
+  },
+  { _id: false }
+);
+
+const CallSessionDtmfSchema = new Schema<ICallSessionDtmf>(
+  {
+    digits: { type: String, required: true },
+    direction: { type: String, enum: ['inbound', 'outbound'], required: true },
+    at: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const CallSessionSchema = new Schema<ICallSession>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'CallTask',
+      required: true,
+    },
+    agentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    providerCallId: {
+      type: String,
+      default: null,
+    },
+    toNumber: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ['dialing', 'ringing', 'answered', 'ended', 'failed'],
+      default: 'dialing',
+    },
+    hangupCause: {
+      type: String,
+      enum: ['normal', 'no_answer', 'busy', 'invalid_number', 'unreachable', 'agent_hangup', 'failed', null],
+      default: null,
+    },
+    dialedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    ringingAt: {
+      type: Date,
+      default: null,
+    },
+    answeredAt: {
+      type: Date,
+      default: null,
+    },
+    endedAt: {
+      type: Date,
+      default: null,
+    },
+    durationSeconds: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    dtmf: {
+      type: [CallSessionDtmfSchema],
+      default: [],
+    },
+    events: {
+      type: [CallSessionEventSchema],
+      default: [],
+    },
+    submittedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+CallSessionSchema.index({ provider: 1, providerCallId: 1 }, { unique: true, partialFilterExpression: { providerCallId: { $type: 'string' } } });
+CallSessionSchema.index({ taskId: 1, agentId: 1, createdAt: -1 }); // Latest session for a submission
+CallSessionSchema.index({ agentId: 1, status: 1 });
+
+export const CallSession = mongoose.model<ICallSession>('CallSession', CallSessionSchema);
@@ -17,6 +17,19 @@ export type CallStatus =
   | 'Not Reachable'
   | 'Invalid Number';
 
+/** Reference to an uploaded call recording; the audio itself lives in the recording storage adapter */
+export interface ICallRecording {
+  storageProvider: string; // adapter name, e.g. 'local'
+  storageKey: string; // adapter-specific key (relative path for local disk)
+  originalFileName?: string;
+  contentType: string;
+  sizeBytes: number;
+  checksumSha256: string;
+  durationSeconds?: number | null;
+  uploadedAt: Date;
+  uploadedBy?: mongoose.Types.ObjectId | null;
+}
+
 export interface ICallLog {
   timestamp: Date;
   callStatus: CallStatus;
@@ -33,6 +46,29 @@ export interface ICallLog {
   farmerComments: string; // Replaces agentObservations
   sentiment: 'Positive' | 'Negative' | 'Neutral' | 'N/A'; // Sentiment indicator
   activityQuality?: number; // 1-5: FDA holistic crop solution understanding (4B. Activity Quality)
+  recording?: ICallRecording | null;
+  callSessionId?: mongoose.Types.ObjectId | null; // telephony call the status/duration came from
+}
+
+/** One submission through POST /api/tasks/:id/submit; callAttempts is append-only */
+export interface ICallAttempt extends ICallLog {
+  attemptNumber: number; // 1-based
+  agentId?: mongoose.Types.ObjectId | null;
+  resultingStatus: TaskStatus; // task status the submission moved the task to
+}
+
+export type AutoRetryState = 'scheduled' | 'created' | 'skipped' | 'exhausted';
+
+/** Retry-policy bookkeeping on the task whose call failed (see retryService) */
+export interface IAutoRetry {
+  state: AutoRetryState;
+  nextRetryAt?: Date | null;
+  callbackTaskId?: mongoose.Types.ObjectId | null;
+  /** Agent for the callback; defaults to the task's agent, a team lead override can change it */
+  agentId?: mongoose.Types.ObjectId | null;
+  overriddenBy?: mongoose.Types.ObjectId | null;
+  note?: string;
+  updatedAt?: Date;
 }
 
 export type Outcome = 
@@ -50,7 +86,9 @@ export interface ICallTask extends Document {
   assignedAgentId?: mongoose.Types.ObjectId | null;
   scheduledDate: Date;
   callStartedAt?: Date | null;
-  callLog?: ICallLog;
+  callLog?: ICallLog; // latest attempt (kept for existing reports/queries)
+  callAttempts: ICallAttempt[];
+  autoRetry?: IAutoRetry | null;
   interactionHistory: Array<{
     timestamp: Date;
     status: TaskStatus;
@@ -67,6 +105,21 @@ export interface ICallTask extends Document {
   updatedAt: Date;
 }
 
+const CallRecordingSchema = new Schema<ICallRecording>(
+  {
+    storageProvider: { type: String, required: true },
+    storageKey: { type: String, required: true },
+    originalFileName: { type: String, default: '' },
+    contentType: { type: String, required: true },
+    sizeBytes: { type: Number, required: true, min: 0 },
+    checksumSha256: { type: String, required: true },
+    durationSeconds: { type: Number, default: null, min: 0 },
+    uploadedAt: { type: Date, default: Date.now },
+    uploadedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { _id: false }
+);
+
 const CallLogSchema = new Schema<ICallLog>({
   timestamp: {
     type: Date,
@@ -139,8 +192,42 @@ const CallLogSchema = new Schema<ICallLog>({
     max: 5,
     default: undefined,
   },
+  recording: {
+    type: CallRecordingSchema,
+    default: null,
+  },
+  callSessionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'CallSession',
+    default: null,
+  },
 }, { _id: false });
 
+const CallAttemptSchema = new Schema<ICallAttempt>({}, { _id: false });
+CallAttemptSchema.add(CallLogSchema);
+CallAttemptSchema.add({
+  attemptNumber: { type: Number, required: true, min: 1 },
+  agentId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  resultingStatus: {
+    type: String,
+    enum: ['unassigned', 'sampled_in_queue', 'in_progress', 'completed', 'not_reachable', 'invalid_number'],
+    required: true,
+  },
+});
+
+const AutoRetrySchema = new Schema<IAutoRetry>(
+  {
+    state: { type: String, enum: ['scheduled', 'created', 'skipped', 'exhausted'], required: true },
+    nextRetryAt: { type: Date, default: null },
+    callbackTaskId: { type: Schema.Types.ObjectId, ref: 'CallTask', default: null },
+    agentId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    overriddenBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    note: { type: String, default: '' },
+    updatedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
 const InteractionHistorySchema = new Schema({
   timestamp: {
     type: Date,
@@ -201,6 +288,14 @@ const CallTaskSchema = new Schema<ICallTask>(
       type: CallLogSchema,
       default: null,
     },
+    callAttempts: {
+      type: [CallAttemptSchema],
+      default: [],
+    },
+    autoRetry: {
+      type: AutoRetrySchema,
+      default: null,
+    },
     interactionHistory: {
       type: [InteractionHistorySchema],
       default: [],
@@ -256,6 +351,7 @@ CallTaskSchema.index({ status: 1, scheduledDate: 1, assignedAgentId: 1 }); // Fo
 CallTaskSchema.index({ status: 1, callbackNumber: 1, createdAt: -1 }); // For callback candidate queries
 CallTaskSchema.index({ 'callLog.sentiment': 1, status: 1 }, { sparse: true }); // For sentiment analytics
 CallTaskSchema.index({ updatedAt: -1 }); // For recent updates tracking
+CallTaskSchema.index({ 'autoRetry.state': 1, 'autoRetry.nextRetryAt': 1 }, { sparse: true }); // For the retry scheduler
 
 export const CallTask = mongoose.model<ICallTask>('CallTask', CallTaskSchema);
 
@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ChangeEntityType = 'activity' | 'farmer';
+export type ChangeSource = 'ffa_sync' | 'ffa_webhook' | 'excel_import';
+
+/**
+ * One changed field. Scalars keep `from`/`to`; list fields (farmerIds, crops, products) keep only
+ * what was `added` and `removed`.
+ */
+export interface FieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+  added?: string[];
+  removed?: string[];
+}
+
+/**
+ * Fields of an existing Activity or Farmer that one sync, webhook event or Excel import changed.
+ * Inserts of new records are not logged.
+ */
+export interface IChangeHistory extends Document {
+  entityType: ChangeEntityType;
+  entityId: mongoose.Types.ObjectId;
+  /** FFA activityId or farmer mobile number, for reading the log without a lookup */
+  entityKey: string;
+  source: ChangeSource;
+  dataBatchId?: string | null;
+  changes: FieldChange[];
+  createdAt: Date;
+}
+
+const ChangeHistorySchema = new Schema<IChangeHistory>(
+  {
+    entityType: { type: String, enum: ['activity', 'farmer'], required: true },
+    entityId: { type: Schema.Types.ObjectId, required: true },
+    entityKey: { type: String, required: true },
+    source: { type: String, enum: ['ffa_sync', 'ffa_webhook', 'excel_import'], required: true },
+    dataBatchId: { type: String, default: null },
+    changes: [
+      {
+        _id: false,
+        field: { type: String, required: true },
+        from: { type: Schema.Types.Mixed },
+        to: { type: Schema.Types.Mixed },
+        added: { type: [String], default: undefined },
+        removed: { type: [String], default: undefined },
+      },
+    ],
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+ChangeHistorySchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+ChangeHistorySchema.index({ dataBatchId: 1 });
+
+export const ChangeHistory = mongoose.model<IChangeHistory>('ChangeHistory', ChangeHistorySchema);
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type DoNotCallKind = 'do_not_call' | 'no_consent';
+export type DoNotCallSource = 'agent' | 'import' | 'ffa';
+
+/**
+ * A farmer who must not be called: they asked never to be called again (do_not_call) or did not
+ * give consent (no_consent). One entry per farmer; it stops applying once `expiresAt` passes or it
+ * is revoked.
+ */
+export interface IDoNotCall extends Document {
+  farmerId: mongoose.Types.ObjectId;
+  /** Copied from the farmer so exports and imports can match on it */
+  mobileNumber: string;
+  kind: DoNotCallKind;
+  reason: string;
+  source: DoNotCallSource;
+  /** null = no expiry */
+  expiresAt?: Date | null;
+  recordedByUserId?: mongoose.Types.ObjectId | null;
+  /** Task on which the agent captured it */
+  taskId?: mongoose.Types.ObjectId | null;
+  revokedAt?: Date | null;
+  revokedByUserId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DoNotCallSchema = new Schema<IDoNotCall>(
+  {
+    farmerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Farmer',
+      required: [true, 'Farmer ID is required'],
+    },
+    mobileNumber: { type: String, required: true, trim: true },
+    kind: {
+      type: String,
+      enum: ['do_not_call', 'no_consent'],
+      required: true,
+      default: 'do_not_call',
+    },
+    reason: { type: String, required: [true, 'Reason is required'], trim: true, maxlength: 500 },
+    source: {
+      type: String,
+      enum: ['agent', 'import', 'ffa'],
+      required: true,
+    },
+    expiresAt: { type: Date, default: null },
+    recordedByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    taskId: { type: Schema.Types.ObjectId, ref: 'CallTask', default: null },
+    revokedAt: { type: Date, default: null },
+    revokedByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true }
+);
+
+DoNotCallSchema.index({ farmerId: 1 }, { unique: true });
+DoNotCallSchema.index({ mobileNumber: 1 });
+DoNotCallSchema.index({ revokedAt: 1, expiresAt: 1 }); // Active entries
+DoNotCallSchema.index({ source: 1, createdAt: -1 });
+
+export const DoNotCall = mongoose.model<IDoNotCall>('DoNotCall', DoNotCallSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/** Outcome of one full fetch (all pages) from the FFA API */
+export interface FFAFetchSummary {
+  at: Date;
+  ok: boolean;
+  durationMs: number;
+  pages: number;
+  activities: number;
+  requests: number;
+  retries: number;
+  /** 429 answers received (each one waited out) */
+  rateLimited: number;
+  /** Pages that came back with fewer activities than pagination promised, even after retrying */
+  shortPages: number;
+  duplicatesDropped: number;
+  error?: string | null;
+}
+
+/**
+ * Health of the FFA API client and its circuit breaker, shared by all instances (one document).
+ * The circuit is open while circuitOpenUntil is in the future; once it passes, the next scheduled
+ * sync is let through as a trial.
+ */
+export interface IFFAClientHealth extends Document {
+  key: string;
+  consecutiveFailures: number;
+  circuitOpenedAt?: Date | null;
+  circuitOpenUntil?: Date | null;
+  lastSuccessAt?: Date | null;
+  lastFailureAt?: Date | null;
+  lastError?: string | null;
+  lastFetch?: FFAFetchSummary | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FFAClientHealthSchema = new Schema<IFFAClientHealth>(
+  {
+    key: { type: String, required: true, unique: true, default: 'ffa' },
+    consecutiveFailures: { type: Number, default: 0 },
+    circuitOpenedAt: { type: Date, default: null },
+    circuitOpenUntil: { type: Date, default: null },
+    lastSuccessAt: { type: Date, default: null },
+    lastFailureAt: { type: Date, default: null },
+    lastError: { type: String, default: null },
+    lastFetch: {
+      type: new Schema<FFAFetchSummary>(
+        {
+          at: { type: Date, required: true },
+          ok: { type: Boolean, required: true },
+          durationMs: { type: Number, default: 0 },
+          pages: { type: Number, default: 0 },
+          activities: { type: Number, default: 0 },
+          requests: { type: Number, default: 0 },
+          retries: { type: Number, default: 0 },
+          rateLimited: { type: Number, default: 0 },
+          shortPages: { type: Number, default: 0 },
+          duplicatesDropped: { type: Number, default: 0 },
+          error: { type: String, default: null },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+export const FFAClientHealth = mongoose.model<IFFAClientHealth>('FFAClientHealth', FFAClientHealthSchema);
@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type FFAWebhookEventType = 'activity.created' | 'activity.updated' | 'activity.deleted';
+export type FFAWebhookEventStatus = 'received' | 'processed' | 'ignored' | 'failed';
+
+/**
+ * An activity event pushed by FFA to POST /api/ffa/webhook. Stored once per `eventId` (FFA may
+ * deliver the same event more than once) with the payload as received, so it can be replayed.
+ */
+export interface IFFAWebhookEvent extends Document {
+  eventId: string;
+  type: FFAWebhookEventType;
+  activityId: string;
+  /** When the change happened in FFA; older events than the last applied one are ignored */
+  occurredAt: Date;
+  payload: Record<string, unknown>;
+  status: FFAWebhookEventStatus;
+  /** What applying it did, e.g. "upserted with 12 farmers" or why it was ignored */
+  outcome?: string | null;
+  lastError?: string | null;
+  attempts: number;
+  processedAt?: Date | null;
+  /** Further deliveries of the same eventId (acknowledged, not applied again) */
+  duplicateDeliveries: number;
+  replayCount: number;
+  lastReplayedAt?: Date | null;
+  lastReplayedByUserId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FFAWebhookEventSchema = new Schema<IFFAWebhookEvent>(
+  {
+    eventId: { type: String, required: true, trim: true },
+    type: {
+      type: String,
+      enum: ['activity.created', 'activity.updated', 'activity.deleted'],
+      required: true,
+    },
+    activityId: { type: String, required: true, trim: true },
+    occurredAt: { type: Date, required: true },
+    payload: { type: Schema.Types.Mixed, default: {} },
+    status: {
+      type: String,
+      enum: ['received', 'processed', 'ignored', 'failed'],
+      required: true,
+      default: 'received',
+    },
+    outcome: { type: String, default: null },
+    lastError: { type: String, default: null },
+    attempts: { type: Number, default: 0 },
+    processedAt: { type: Date, default: null },
+    duplicateDeliveries: { type: Number, default: 0 },
+    replayCount: { type: Number, default: 0 },
+    lastReplayedAt: { type: Date, default: null },
+    lastReplayedByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true, minimize: false }
+);
+
+FFAWebhookEventSchema.index({ eventId: 1 }, { unique: true });
+FFAWebhookEventSchema.index({ activityId: 1, occurredAt: -1 });
+FFAWebhookEventSchema.index({ status: 1, createdAt: -1 });
+
+export const FFAWebhookEvent = mongoose.model<IFFAWebhookEvent>('FFAWebhookEvent', FFAWebhookEventSchema);
@@ -7,6 +7,9 @@ export interface IFarmer extends Document {
   preferredLanguage: string;
   territory: string;
   photoUrl?: string; // URL to farmer's photo from FFA API
+  /** Set when this record was merged into another farmer as a duplicate (see FarmerMerge) */
+  mergedIntoFarmerId?: mongoose.Types.ObjectId | null;
+  mergedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -44,6 +47,15 @@ const FarmerSchema = new Schema<IFarmer>(
       type: String,
       trim: true,
     },
+    mergedIntoFarmerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Farmer',
+      default: null,
+    },
+    mergedAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -54,6 +66,7 @@ const FarmerSchema = new Schema<IFarmer>(
 // Note: mobileNumber index is auto-created by unique: true in schema definition
 FarmerSchema.index({ territory: 1 });
 FarmerSchema.index({ preferredLanguage: 1 });
+FarmerSchema.index({ mergedIntoFarmerId: 1 }, { sparse: true });
 
 // Performance optimization indexes
 FarmerSchema.index({ preferredLanguage: 1, territory: 1 }); // For language-based agent matching
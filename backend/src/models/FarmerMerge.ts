@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type FarmerMergeStatus = 'applied' | 'undone';
+
+/** Writes of a merge, in the order they are applied */
+export const FARMER_MERGE_STEPS = ['activities', 'tasks', 'singletons', 'inboundQueries', 'farmer'] as const;
+export type FarmerMergeStep = (typeof FARMER_MERGE_STEPS)[number];
+
+export interface FarmerSnapshot {
+  name: string;
+  mobileNumber: string;
+  location: string;
+  territory: string;
+}
+
+/** A CoolingPeriod or DoNotCall entry (one per farmer) handled by the merge */
+export interface MergedSingleton {
+  collectionName: 'CoolingPeriod' | 'DoNotCall';
+  /** repointed: moved to the survivor; removed: deleted because the other farmer's entry was kept */
+  action: 'repointed' | 'removed';
+  docId: mongoose.Types.ObjectId;
+  /** Full document as it was, for removed entries and for the fields a repoint changed */
+  snapshot: Record<string, any>;
+}
+
+/**
+ * One merge of a duplicate farmer into a survivor, with every reference it moved, so it can be
+ * undone. The merged farmer is kept (marked with mergedIntoFarmerId) rather than deleted. The record
+ * is saved with the full plan before anything is moved.
+ */
+export interface IFarmerMerge extends Document {
+  survivorId: mongoose.Types.ObjectId;
+  mergedId: mongoose.Types.ObjectId;
+  survivor: FarmerSnapshot;
+  merged: FarmerSnapshot;
+  status: FarmerMergeStatus;
+  note?: string | null;
+  /** Activities that listed the merged farmer; hadSurvivor = the survivor was already listed too */
+  activities: Array<{ activityId: mongoose.Types.ObjectId; hadSurvivor: boolean }>;
+  tasksRepointed: mongoose.Types.ObjectId[];
+  /** Uncalled duplicate tasks deleted to satisfy the activityId+farmerId+callbackNumber index */
+  tasksRemoved: Array<Record<string, any>>;
+  inboundQueriesRepointed: mongoose.Types.ObjectId[];
+  singletons: MergedSingleton[];
+  /** Steps not yet written; non-empty only when a merge failed part-way (retrying it resumes here) */
+  pendingSteps: FarmerMergeStep[];
+  mergedByUserId?: mongoose.Types.ObjectId | null;
+  undoneAt?: Date | null;
+  undoneByUserId?: mongoose.Types.ObjectId | null;
+  /** What could not be put back on undo (e.g. a task re-created meanwhile) */
+  undoConflicts: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const snapshotSchema = {
+  name: { type: String },
+  mobileNumber: { type: String },
+  location: { type: String },
+  territory: { type: String },
+};
+
+const FarmerMergeSchema = new Schema<IFarmerMerge>(
+  {
+    survivorId: { type: Schema.Types.ObjectId, ref: 'Farmer', required: true },
+    mergedId: { type: Schema.Types.ObjectId, ref: 'Farmer', required: true },
+    survivor: snapshotSchema,
+    merged: snapshotSchema,
+    status: { type: String, enum: ['applied', 'undone'], required: true, default: 'applied' },
+    note: { type: String, default: null },
+    activities: [
+      {
+        _id: false,
+        activityId: { type: Schema.Types.ObjectId, ref: 'Activity', required: true },
+        hadSurvivor: { type: Boolean, required: true },
+      },
+    ],
+    tasksRepointed: [{ type: Schema.Types.ObjectId, ref: 'CallTask' }],
+    tasksRemoved: [{ type: Schema.Types.Mixed }],
+    inboundQueriesRepointed: [{ type: Schema.Types.ObjectId, ref: 'InboundQuery' }],
+    singletons: [
+      {
+        _id: false,
+        collectionName: { type: String, enum: ['CoolingPeriod', 'DoNotCall'], required: true },
+        action: { type: String, enum: ['repointed', 'removed'], required: true },
+        docId: { type: Schema.Types.ObjectId, required: true },
+        snapshot: { type: Schema.Types.Mixed, required: true },
+      },
+    ],
+    pendingSteps: [{ type: String, enum: FARMER_MERGE_STEPS }],
+    mergedByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    undoneAt: { type: Date, default: null },
+    undoneByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    undoConflicts: [{ type: String }],
+  },
+  { timestamps: true }
+);
+
+FarmerMergeSchema.index({ mergedId: 1 }, { unique: true, partialFilterExpression: { status: 'applied' } });
+FarmerMergeSchema.index({ survivorId: 1, status: 1 });
+FarmerMergeSchema.index({ createdAt: -1 });
+
+export const FarmerMerge = mongoose.model<IFarmerMerge>('FarmerMerge', FarmerMergeSchema);
@@ -6,13 +6,27 @@ export type EscalationLevel = 'Level 1' | 'Level 2';
 
 export interface IInboundQuery extends Document {
   farmerId?: mongoose.Types.ObjectId;
+  callerMobile?: string; // Number the farmer called from (kept even when no Farmer record matches)
+  callerName?: string;
   queryType: QueryType;
   category: string;
   description: string;
   status: QueryStatus;
   assignedTo?: mongoose.Types.ObjectId;
   escalationLevel: EscalationLevel;
+  loggedBy?: mongoose.Types.ObjectId;
+  escalatedAt?: Date;
+  escalatedBy?: mongoose.Types.ObjectId;
+  escalationReason?: string;
   resolvedAt?: Date;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolutionNotes?: string;
+  /** SLA deadlines, stamped at creation from the InboundSlaPolicy for the query type */
+  firstResponseDueAt?: Date;
+  resolveDueAt?: Date;
+  firstResponseAt?: Date;
+  firstResponseBreachedAt?: Date;
+  resolveBreachedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -24,6 +38,16 @@ const InboundQuerySchema = new Schema<IInboundQuery>(
       ref: 'Farmer',
       default: null,
     },
+    callerMobile: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    callerName: {
+      type: String,
+      trim: true,
+      default: null,
+    },
     queryType: {
       type: String,
       enum: ['Product usage', 'Complaint', 'General inquiry'],
@@ -54,10 +78,59 @@ const InboundQuerySchema = new Schema<IInboundQuery>(
       enum: ['Level 1', 'Level 2'],
       default: 'Level 1',
     },
+    loggedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    escalatedAt: {
+      type: Date,
+      default: null,
+    },
+    escalatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    escalationReason: {
+      type: String,
+      trim: true,
+      default: null,
+    },
     resolvedAt: {
       type: Date,
       default: null,
     },
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    resolutionNotes: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    firstResponseDueAt: {
+      type: Date,
+      default: null,
+    },
+    resolveDueAt: {
+      type: Date,
+      default: null,
+    },
+    firstResponseAt: {
+      type: Date,
+      default: null,
+    },
+    firstResponseBreachedAt: {
+      type: Date,
+      default: null,
+    },
+    resolveBreachedAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -69,10 +142,13 @@ InboundQuerySchema.index({ status: 1 });
 InboundQuerySchema.index({ assignedTo: 1 });
 InboundQuerySchema.index({ createdAt: -1 });
 InboundQuerySchema.index({ escalationLevel: 1 });
+InboundQuerySchema.index({ farmerId: 1, createdAt: -1 }); // Farmer's inbound history
+InboundQuerySchema.index({ loggedBy: 1, createdAt: -1 }); // Agent's own logged queries
 
 // Performance optimization indexes
 InboundQuerySchema.index({ status: 1, assignedTo: 1, createdAt: -1 }); // For support queue queries
 InboundQuerySchema.index({ escalationLevel: 1, status: 1, createdAt: -1 }); // For escalation tracking
+InboundQuerySchema.index({ status: 1, resolveDueAt: 1 }); // For SLA breach sweep
 
 export const InboundQuery = mongoose.model<IInboundQuery>('InboundQuery', InboundQuerySchema);
 
@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { QueryType } from './InboundQuery.js';
+
+/**
+ * SLA policy for one inbound query type. One document per `queryType`; missing types fall back
+ * to the defaults seeded by inboundSlaService.
+ */
+export interface IInboundSlaPolicy extends Document {
+  queryType: QueryType;
+  /** Hours from logging until someone must act on the query (start work, escalate or resolve) */
+  firstResponseHours: number;
+  /** Hours from logging until the query must be resolved */
+  resolveHours: number;
+  isActive: boolean;
+  updatedByUserId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InboundSlaPolicySchema = new Schema<IInboundSlaPolicy>(
+  {
+    queryType: {
+      type: String,
+      enum: ['Product usage', 'Complaint', 'General inquiry'],
+      required: [true, 'Query type is required'],
+    },
+    firstResponseHours: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 24 * 30,
+    },
+    resolveHours: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 24 * 90,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    updatedByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+InboundSlaPolicySchema.index({ queryType: 1 }, { unique: true });
+
+export const InboundSlaPolicy = mongoose.model<IInboundSlaPolicy>('InboundSlaPolicy', InboundSlaPolicySchema);
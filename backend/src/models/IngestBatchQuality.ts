@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import type { ChangeSource } from './ChangeHistory.js';
+
+/**
+ * Validation outcome counts for one data batch (a sync run, a day of webhook events or an Excel
+ * import). Counts are activities unless named otherwise; byRule counts issues per rule code.
+ */
+export interface IIngestBatchQuality extends Document {
+  dataBatchId: string;
+  source: ChangeSource;
+  received: number;
+  accepted: number;
+  /** Accepted activities that had at least one warning */
+  acceptedWithWarnings: number;
+  quarantined: number;
+  rejected: number;
+  /** Farmers dropped from accepted activities by a reject rule */
+  farmersRejected: number;
+  released: number;
+  discarded: number;
+  byRule: Map<string, number>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IngestBatchQualitySchema = new Schema<IIngestBatchQuality>(
+  {
+    dataBatchId: { type: String, required: true, unique: true },
+    source: { type: String, enum: ['ffa_sync', 'ffa_webhook', 'excel_import'], required: true },
+    received: { type: Number, default: 0 },
+    accepted: { type: Number, default: 0 },
+    acceptedWithWarnings: { type: Number, default: 0 },
+    quarantined: { type: Number, default: 0 },
+    rejected: { type: Number, default: 0 },
+    farmersRejected: { type: Number, default: 0 },
+    released: { type: Number, default: 0 },
+    discarded: { type: Number, default: 0 },
+    byRule: { type: Map, of: Number, default: {} },
+  },
+  { timestamps: true }
+);
+
+IngestBatchQualitySchema.index({ updatedAt: -1 });
+
+export const IngestBatchQuality = mongoose.model<IIngestBatchQuality>('IngestBatchQuality', IngestBatchQualitySchema);
@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * What happens to an ingested activity that breaks a rule:
+ * reject drops it (or the farmer the issue is about), quarantine holds the whole activity for
+ * review, warn lets it in and counts it, off skips the check.
+ */
+export type IngestRuleSeverity = 'reject' | 'quarantine' | 'warn' | 'off';
+
+export type IngestRuleCode =
+  | 'activity_missing_fields'
+  | 'activity_invalid_date'
+  | 'activity_missing_state'
+  | 'activity_unknown_crop'
+  | 'activity_unknown_product'
+  | 'activity_no_farmers'
+  | 'farmer_missing_fields'
+  | 'farmer_invalid_mobile'
+  | 'farmer_mobile_name_conflict';
+
+/** Severity chosen by an admin for one rule; rules without a document use their default */
+export interface IIngestRule extends Document {
+  code: IngestRuleCode;
+  severity: IngestRuleSeverity;
+  updatedByUserId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IngestRuleSchema = new Schema<IIngestRule>(
+  {
+    code: { type: String, required: true, unique: true },
+    severity: { type: String, enum: ['reject', 'quarantine', 'warn', 'off'], required: true },
+    updatedByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true }
+);
+
+export const IngestRule = mongoose.model<IIngestRule>('IngestRule', IngestRuleSchema);
@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type JobType =
+  | 'ffa_sync'
+  | 'excel_import'
+  | 'sampling_run'
+  | 'sampling_auto_run'
+  | 'allocation_run'
+  | 'inbound_sla_sweep';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface JobLogEntry {
+  at: Date;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+/**
+ * A unit of background work (see services/jobQueue). Whichever backend instance holds the lease
+ * runs it and keeps the lease alive with heartbeats; a job whose lease runs out is picked up again
+ * by another instance until `maxAttempts` is reached.
+ */
+export interface IJob extends Document {
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  /** Handler-defined counters for progress bars, e.g. { activitiesSynced, totalActivities } */
+  progress: Record<string, unknown>;
+  message: string;
+  result?: unknown;
+  lastError?: string | null;
+  attempts: number;
+  maxAttempts: number;
+  /** Not picked up before this time (retry backoff) */
+  runAt: Date;
+  leaseOwner?: string | null;
+  leaseExpiresAt?: Date | null;
+  heartbeatAt?: Date | null;
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+  /**
+   * Set while queued or running; unique, so at most one active job per key (e.g. one FFA sync
+   * across all instances). Removed when the job finishes.
+   */
+  activeKey?: string;
+  /** Uploaded input kept in GridFS (bucket "jobFiles") until the job finishes */
+  fileId?: mongoose.Types.ObjectId | null;
+  logs: JobLogEntry[];
+  createdByUserId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobSchema = new Schema<IJob>(
+  {
+    type: {
+      type: String,
+      enum: ['ffa_sync', 'excel_import', 'sampling_run', 'sampling_auto_run', 'allocation_run', 'inbound_sla_sweep'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'failed'],
+      required: true,
+      default: 'queued',
+    },
+    payload: { type: Schema.Types.Mixed, default: {} },
+    progress: { type: Schema.Types.Mixed, default: {} },
+    message: { type: String, default: '' },
+    result: { type: Schema.Types.Mixed, default: null },
+    lastError: { type: String, default: null },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 3, min: 1 },
+    runAt: { type: Date, required: true, default: Date.now },
+    leaseOwner: { type: String, default: null },
+    leaseExpiresAt: { type: Date, default: null },
+    heartbeatAt: { type: Date, default: null },
+    startedAt: { type: Date, default: null },
+    finishedAt: { type: Date, default: null },
+    activeKey: { type: String },
+    fileId: { type: Schema.Types.ObjectId, default: null },
+    logs: [
+      {
+        _id: false,
+        at: { type: Date, required: true },
+        level: { type: String, enum: ['info', 'warn', 'error'], default: 'info' },
+        message: { type: String, required: true },
+      },
+    ],
+    createdByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true, minimize: false }
+);
+
+JobSchema.index({ activeKey: 1 }, { unique: true, partialFilterExpression: { activeKey: { $type: 'string' } } });
+JobSchema.index({ status: 1, runAt: 1 }); // Claiming queued jobs
+JobSchema.index({ status: 1, leaseExpiresAt: 1 }); // Reclaiming jobs whose instance stopped
+JobSchema.index({ type: 1, createdAt: -1 }); // Latest job of a type (progress endpoints)
+
+export const Job = mongoose.model<IJob>('Job', JobSchema);
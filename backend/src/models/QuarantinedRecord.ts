@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import type { ChangeSource } from './ChangeHistory.js';
+import type { IngestRuleCode, IngestRuleSeverity } from './IngestRule.js';
+
+export type QuarantineStatus = 'pending' | 'released' | 'discarded';
+
+export interface IngestIssue {
+  rule: IngestRuleCode;
+  severity: Exclude<IngestRuleSeverity, 'off'>;
+  message: string;
+  /** Index in payload.farmers when the issue is about one farmer */
+  farmerIndex?: number | null;
+}
+
+/**
+ * An ingested activity held back by a quarantine rule. The payload is kept in the FFA activity
+ * shape whatever the source, so a fixed record is released through the same upsert as a sync.
+ * At most one pending record per activity: a later delivery of it replaces the payload.
+ */
+export interface IQuarantinedRecord extends Document {
+  /** FFA activityId */
+  activityId: string;
+  source: ChangeSource;
+  dataBatchId: string;
+  /** Sheet row for Excel imports */
+  rowRef?: string | null;
+  payload: Record<string, any>;
+  issues: IngestIssue[];
+  status: QuarantineStatus;
+  /** Deliveries folded into this record while pending */
+  occurrences: number;
+  lastReceivedAt: Date;
+  releasedActivityId?: mongoose.Types.ObjectId | null;
+  resolvedAt?: Date | null;
+  resolvedByUserId?: mongoose.Types.ObjectId | null;
+  resolutionNote?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const QuarantinedRecordSchema = new Schema<IQuarantinedRecord>(
+  {
+    activityId: { type: String, required: true },
+    source: { type: String, enum: ['ffa_sync', 'ffa_webhook', 'excel_import'], required: true },
+    dataBatchId: { type: String, required: true },
+    rowRef: { type: String, default: null },
+    payload: { type: Schema.Types.Mixed, required: true },
+    issues: [
+      {
+        _id: false,
+        rule: { type: String, required: true },
+        severity: { type: String, enum: ['reject', 'quarantine', 'warn'], required: true },
+        message: { type: String, required: true },
+        farmerIndex: { type: Number, default: null },
+      },
+    ],
+    status: { type: String, enum: ['pending', 'released', 'discarded'], required: true, default: 'pending' },
+    occurrences: { type: Number, default: 1 },
+    lastReceivedAt: { type: Date, required: true },
+    releasedActivityId: { type: Schema.Types.ObjectId, ref: 'Activity', default: null },
+    resolvedAt: { type: Date, default: null },
+    resolvedByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    resolutionNote: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+QuarantinedRecordSchema.index({ activityId: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } });
+QuarantinedRecordSchema.index({ status: 1, lastReceivedAt: -1 });
+QuarantinedRecordSchema.index({ dataBatchId: 1 });
+
+export const QuarantinedRecord = mongoose.model<IQuarantinedRecord>('QuarantinedRecord', QuarantinedRecordSchema);
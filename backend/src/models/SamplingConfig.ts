@@ -2,6 +2,78 @@ import mongoose, { Document, Schema } from 'mongoose';
 
 export type ActivityLifecycleStatus = 'active' | 'sampled' | 'inactive' | 'not_eligible';
 
+/** Unsuccessful outbound statuses that can be retried automatically (Invalid is never retried) */
+export type RetryableCallStatus = 'No Answer' | 'Disconnected' | 'Incoming N/A';
+
+export interface ICallingWindow {
+  startHour: number; // 0-23, local to retryPolicy.timezone
+  endHour: number; // 1-24, exclusive
+}
+
+export interface IRetryPolicy {
+  enabled: boolean;
+  /** Total calls per farmer+activity including the original (callbackNumber caps this at 3) */
+  maxAttempts: number;
+  gapHoursByStatus: Record<RetryableCallStatus, number>;
+  /** Retries are only scheduled inside these windows; empty => any time */
+  callingWindows: ICallingWindow[];
+  timezone: string;
+}
+
+/** Progressive dialer: pause after each submitted call, and the reasons an agent can pick for a break */
+export interface IDialerSettings {
+  wrapUpSeconds: number;
+  breakReasons: string[];
+}
+
+export type SamplingMode = 'uniform' | 'stratified';
+export type StratifyBy = 'location' | 'preferredLanguage' | 'territory';
+
+/** Stratified mode: split an activity's farmers by one attribute and sample every stratum */
+export interface IStratificationSettings {
+  mode: SamplingMode;
+  strataBy: StratifyBy;
+  allocation: 'proportional' | 'equal';
+  /** Floor per stratum (capped at the stratum size); may raise the sample above the percentage */
+  minPerStratum: number;
+}
+
+export type CoveragePeriod = 'month' | 'week';
+export type CoverageOfficerLevel = 'fda' | 'tm';
+
+/** Minimum completed validations per field officer per period, topped up at the end of each sampling run */
+export interface ICoverageSettings {
+  enabled: boolean;
+  /** FDA = Activity.officerId, TM = Activity.tmEmpCode */
+  officerLevel: CoverageOfficerLevel;
+  minValidationsPerOfficer: number;
+  /** Calendar period in IST (weeks start on Monday) */
+  period: CoveragePeriod;
+}
+
+/**
+ * Risk weighting: scale an activity's sampling percentage by its officer's EMS results over the
+ * last `lookbackWeeks` (poor validity or identity-wrong rates → up, consistently good → down)
+ */
+export interface IRiskWeightingSettings {
+  enabled: boolean;
+  officerLevel: CoverageOfficerLevel;
+  lookbackWeeks: number;
+  /** Officers with fewer connected calls in the window keep the base percentage */
+  minConnectedCalls: number;
+  /** Meeting or mobile validity below this marks the officer as poor */
+  poorValidityPct: number;
+  /** Identity-wrong share of connected calls above this marks the officer as poor */
+  poorIdentityWrongPct: number;
+  /** EMS score at or above this (and not poor) marks the officer as good */
+  goodEmsScore: number;
+  increaseFactor: number;
+  decreaseFactor: number;
+  /** Adjusted percentages stay within these bounds */
+  minPercentage: number;
+  maxPercentage: number;
+}
+
 export interface ISamplingConfig extends Document {
   key: 'default';
   isActive: boolean;
@@ -24,11 +96,91 @@ export interface ISamplingConfig extends Document {
   lastAutoRunMatched?: number;
   lastAutoRunProcessed?: number;
   lastAutoRunTasksCreated?: number;
+  /** Automatic callbacks for No Answer / Disconnected / Incoming N/A calls */
+  retryPolicy?: IRetryPolicy;
+  dialerSettings?: IDialerSettings;
+  stratification?: IStratificationSettings;
+  coverage?: ICoverageSettings;
+  riskWeighting?: IRiskWeightingSettings;
   updatedByUserId?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const CallingWindowSchema = new Schema<ICallingWindow>(
+  {
+    startHour: { type: Number, required: true, min: 0, max: 23 },
+    endHour: { type: Number, required: true, min: 1, max: 24 },
+  },
+  { _id: false }
+);
+
+const RetryPolicySchema = new Schema<IRetryPolicy>(
+  {
+    enabled: { type: Boolean, default: false },
+    maxAttempts: { type: Number, default: 3, min: 1, max: 3 },
+    gapHoursByStatus: {
+      'No Answer': { type: Number, default: 4, min: 0, max: 720 },
+      Disconnected: { type: Number, default: 2, min: 0, max: 720 },
+      'Incoming N/A': { type: Number, default: 24, min: 0, max: 720 },
+    },
+    callingWindows: {
+      type: [CallingWindowSchema],
+      default: () => [
+        { startHour: 9, endHour: 13 },
+        { startHour: 16, endHour: 19 },
+      ],
+    },
+    timezone: { type: String, default: 'Asia/Kolkata' },
+  },
+  { _id: false }
+);
+
+const DialerSettingsSchema = new Schema<IDialerSettings>(
+  {
+    wrapUpSeconds: { type: Number, default: 30, min: 0, max: 600 },
+    breakReasons: { type: [String], default: () => ['Lunch', 'Tea', 'Training', 'Meeting', 'Other'] },
+  },
+  { _id: false }
+);
+
+const StratificationSchema = new Schema<IStratificationSettings>(
+  {
+    mode: { type: String, enum: ['uniform', 'stratified'], default: 'uniform' },
+    strataBy: { type: String, enum: ['location', 'preferredLanguage', 'territory'], default: 'location' },
+    allocation: { type: String, enum: ['proportional', 'equal'], default: 'proportional' },
+    minPerStratum: { type: Number, default: 0, min: 0, max: 1000 },
+  },
+  { _id: false }
+);
+
+const CoverageSchema = new Schema<ICoverageSettings>(
+  {
+    enabled: { type: Boolean, default: false },
+    officerLevel: { type: String, enum: ['fda', 'tm'], default: 'fda' },
+    minValidationsPerOfficer: { type: Number, default: 0, min: 0, max: 1000 },
+    period: { type: String, enum: ['month', 'week'], default: 'month' },
+  },
+  { _id: false }
+);
+
+const RiskWeightingSchema = new Schema<IRiskWeightingSettings>(
+  {
+    enabled: { type: Boolean, default: false },
+    officerLevel: { type: String, enum: ['fda', 'tm'], default: 'fda' },
+    lookbackWeeks: { type: Number, default: 8, min: 1, max: 52 },
+    minConnectedCalls: { type: Number, default: 10, min: 1, max: 10000 },
+    poorValidityPct: { type: Number, default: 60, min: 0, max: 100 },
+    poorIdentityWrongPct: { type: Number, default: 10, min: 0, max: 100 },
+    goodEmsScore: { type: Number, default: 80, min: 0, max: 100 },
+    increaseFactor: { type: Number, default: 1.5, min: 1, max: 5 },
+    decreaseFactor: { type: Number, default: 0.5, min: 0.1, max: 1 },
+    minPercentage: { type: Number, default: 5, min: 1, max: 100 },
+    maxPercentage: { type: Number, default: 50, min: 1, max: 100 },
+  },
+  { _id: false }
+);
+
 const SamplingConfigSchema = new Schema<ISamplingConfig>(
   {
     key: {
@@ -96,6 +248,26 @@ const SamplingConfigSchema = new Schema<ISamplingConfig>(
     lastAutoRunMatched: { type: Number, default: null },
     lastAutoRunProcessed: { type: Number, default: null },
     lastAutoRunTasksCreated: { type: Number, default: null },
+    retryPolicy: {
+      type: RetryPolicySchema,
+      default: () => ({}),
+    },
+    dialerSettings: {
+      type: DialerSettingsSchema,
+      default: () => ({}),
+    },
+    stratification: {
+      type: StratificationSchema,
+      default: () => ({}),
+    },
+    coverage: {
+      type: CoverageSchema,
+      default: () => ({}),
+    },
+    riskWeighting: {
+      type: RiskWeightingSchema,
+      default: () => ({}),
+    },
     updatedByUserId: {
       type: Schema.Types.ObjectId,
       ref: 'User',
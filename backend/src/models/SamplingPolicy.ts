@@ -0,0 +1,106 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/** Which activities a policy covers; an empty list matches any value (case-insensitive) */
+export interface ISamplingPolicyScope {
+  buNames: string[];
+  zoneNames: string[];
+  states: string[];
+  activityTypes: string[];
+}
+
+export interface ISamplingPolicy extends Document {
+  name: string;
+  description?: string;
+  scope: ISamplingPolicyScope;
+  /** Higher wins when several policies match an activity */
+  priority: number;
+  /** Compared with the activity date, so re-running an old activity keeps the policy it fell under */
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+  isActive: boolean;
+  defaultPercentage: number;
+  activityTypePercentages: Record<string, number>;
+  /** Incremented on every change; each version is kept in SamplingPolicyVersion */
+  version: number;
+  createdByUserId?: mongoose.Types.ObjectId | null;
+  updatedByUserId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScopeSchema = new Schema<ISamplingPolicyScope>(
+  {
+    buNames: { type: [String], default: [] },
+    zoneNames: { type: [String], default: [] },
+    states: { type: [String], default: [] },
+    activityTypes: { type: [String], default: [] },
+  },
+  { _id: false }
+);
+
+const SamplingPolicySchema = new Schema<ISamplingPolicy>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Policy name is required'],
+      trim: true,
+      unique: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: '',
+    },
+    scope: {
+      type: ScopeSchema,
+      default: () => ({}),
+    },
+    priority: {
+      type: Number,
+      default: 0,
+    },
+    effectiveFrom: {
+      type: Date,
+      required: [true, 'effectiveFrom is required'],
+    },
+    effectiveTo: {
+      type: Date,
+      default: null,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    defaultPercentage: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 100,
+    },
+    activityTypePercentages: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    version: {
+      type: Number,
+      default: 1,
+    },
+    createdByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    updatedByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SamplingPolicySchema.index({ isActive: 1, effectiveFrom: 1, effectiveTo: 1 });
+
+export const SamplingPolicy = mongoose.model<ISamplingPolicy>('SamplingPolicy', SamplingPolicySchema);
@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/** Immutable snapshot of a sampling policy as saved at one version */
+export interface ISamplingPolicyVersion extends Document {
+  policyId: mongoose.Types.ObjectId;
+  version: number;
+  snapshot: Record<string, any>;
+  changedByUserId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+}
+
+const SamplingPolicyVersionSchema = new Schema<ISamplingPolicyVersion>(
+  {
+    policyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SamplingPolicy',
+      required: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+    },
+    snapshot: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    changedByUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+SamplingPolicyVersionSchema.index({ policyId: 1, version: -1 }, { unique: true });
+
+export const SamplingPolicyVersion = mongoose.model<ISamplingPolicyVersion>(
+  'SamplingPolicyVersion',
+  SamplingPolicyVersionSchema
+);
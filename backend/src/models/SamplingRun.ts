@@ -1,8 +1,16 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
-export type SamplingRunStatus = 'running' | 'completed' | 'failed';
+/** interrupted = abandoned mid-run (server restart) but resumable; see services/runControlService */
+export type SamplingRunStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
 export type SamplingRunType = 'first_sample' | 'adhoc';
 
+/** One FDA's share of the run (officerId/target are null when explicit activity IDs were given) */
+export interface SamplingRunPlanGroup {
+  officerId: string | null;
+  target: number | null;
+  activityIds: mongoose.Types.ObjectId[];
+}
+
 export interface ISamplingRun extends Document {
   createdByUserId?: mongoose.Types.ObjectId | null;
   runType: SamplingRunType; // first_sample = auto date range; adhoc = user date range
@@ -26,6 +34,26 @@ export interface ISamplingRun extends Document {
   lastProgressAt?: Date | null;
   lastActivityId?: mongoose.Types.ObjectId | null;
   errorMessages?: string[];
+  /** Activities in processing order; `processed` is the resume cursor into the flattened list */
+  plan?: SamplingRunPlanGroup[];
+  /** Due date given to tasks created by the run (kept so a resumed run uses the same one) */
+  scheduledDate?: Date | null;
+  cancelRequestedAt?: Date | null;
+  cancelledByUserId?: mongoose.Types.ObjectId | null;
+  resumeCount: number;
+  resumedAt?: Date | null;
+  /** Random seed for the run; each activity is sampled with `${seed}:${activityId}` */
+  seed?: string | null;
+  /** Officer coverage top-up done at the end of the run (null when coverage is off) */
+  coverageTopUp?: {
+    periodStart: Date;
+    periodEnd: Date;
+    officersBelowTarget: number;
+    officersToppedUp: number;
+    tasksCreated: number;
+    /** Officers still short after the top-up (not enough uncalled farmers) */
+    officersStillShort: number;
+  } | null;
 }
 
 const SamplingRunSchema = new Schema<ISamplingRun>(
@@ -45,7 +73,7 @@ const SamplingRunSchema = new Schema<ISamplingRun>(
     },
     status: {
       type: String,
-      enum: ['running', 'completed', 'failed'],
+      enum: ['running', 'completed', 'failed', 'cancelled', 'interrupted'],
       required: true,
       default: 'running',
       index: true,
@@ -77,12 +105,46 @@ const SamplingRunSchema = new Schema<ISamplingRun>(
     lastProgressAt: { type: Date, default: null },
     lastActivityId: { type: Schema.Types.ObjectId, default: null },
     errorMessages: { type: [String], default: [] },
+    plan: {
+      type: [
+        new Schema(
+          {
+            officerId: { type: String, default: null },
+            target: { type: Number, default: null },
+            activityIds: { type: [Schema.Types.ObjectId], default: [] },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    scheduledDate: { type: Date, default: null },
+    cancelRequestedAt: { type: Date, default: null },
+    cancelledByUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    resumeCount: { type: Number, default: 0 },
+    resumedAt: { type: Date, default: null },
+    seed: { type: String, default: null },
+    coverageTopUp: {
+      type: new Schema(
+        {
+          periodStart: Date,
+          periodEnd: Date,
+          officersBelowTarget: Number,
+          officersToppedUp: Number,
+          tasksCreated: Number,
+          officersStillShort: Number,
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
   },
   { timestamps: true }
 );
 
 SamplingRunSchema.index({ createdByUserId: 1, startedAt: -1 });
 SamplingRunSchema.index({ createdByUserId: 1, runType: 1, startedAt: -1 }); // Last first_sample run per user
+SamplingRunSchema.index({ status: 1, lastProgressAt: 1 }); // Stale run sweep
 
 export const SamplingRun = mongoose.model<ISamplingRun>('SamplingRun', SamplingRunSchema);
 
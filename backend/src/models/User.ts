@@ -12,6 +12,8 @@ export interface IUser extends Document {
   roles: UserRole[]; // All roles this user can assume
   employeeId: string;
   languageCapabilities: string[];
+  /** Per-language proficiency 1–5, used by the proficiency-weighted allocation strategy */
+  languageProficiency?: Map<string, number>;
   assignedTerritories: string[];
   teamLeadId?: mongoose.Types.ObjectId; // For cc_agent role - points to team_lead user
   isActive: boolean;
@@ -69,6 +71,11 @@ const UserSchema = new Schema<IUser>(
       default: [],
       enum: ['Hindi', 'Telugu', 'Marathi', 'Kannada', 'Tamil', 'Bengali', 'Oriya', 'English', 'Malayalam'],
     },
+    languageProficiency: {
+      type: Map,
+      of: { type: Number, min: 1, max: 5 },
+      default: {},
+    },
     assignedTerritories: {
       type: [String],
       default: [],
@@ -5,6 +5,7 @@ import { hashPassword, comparePassword } from '../utils/password.js';
 import { generateToken } from '../utils/jwt.js';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { setAgentState } from '../services/agentPresenceService.js';
 import logger from '../config/logger.js';
 
 const router = express.Router();
@@ -142,8 +143,14 @@ router.post(
 // @route   POST /api/auth/logout
 // @desc    Logout user (client-side token removal)
 // @access  Private
-router.post('/logout', authenticate, (req: Request, res: Response) => {
+router.post('/logout', authenticate, async (req: Request, res: Response) => {
   logger.info(`User logged out: ${req.user?.email}`);
+  if (req.user?.role === 'cc_agent') {
+    // Drop off the team lead live view straight away instead of waiting for the heartbeat to go stale
+    await setAgentState(req.user._id.toString(), 'offline').catch((err) =>
+      logger.warn('Failed to mark agent offline on logout', { error: err?.message })
+    );
+  }
   res.json({
     success: true,
     message: 'Logged out successfully',
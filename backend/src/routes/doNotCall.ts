@@ -0,0 +1,196 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import multer from 'multer';
+import * as XLSX from 'xlsx';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/rbac.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { Farmer } from '../models/Farmer.js';
+import {
+  DO_NOT_CALL_COLUMNS,
+  DO_NOT_CALL_KINDS,
+  DO_NOT_CALL_SOURCES,
+  exportDoNotCallRows,
+  getDoNotCallCounts,
+  importDoNotCallRows,
+  listDoNotCall,
+  recordDoNotCall,
+  revokeDoNotCall,
+  type DoNotCallListFilters,
+} from '../services/doNotCallService.js';
+
+const router = express.Router();
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 5 * 1024 * 1024 } }); // 5MB
+
+// All routes require authentication
+router.use(authenticate);
+
+const validationFailed = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+  res.status(400).json({
+    success: false,
+    error: { message: 'Validation failed', errors: errors.array() },
+  });
+  return true;
+};
+
+const filterValidators = [
+  query('kind').optional().isIn(DO_NOT_CALL_KINDS),
+  query('source').optional().isIn(DO_NOT_CALL_SOURCES),
+  query('search').optional().isString(),
+  query('includeInactive').optional().isBoolean().toBoolean(),
+];
+
+const pickFilters = (q: any): DoNotCallListFilters => ({
+  kind: q.kind,
+  source: q.source,
+  search: q.search,
+  includeInactive: q.includeInactive === true,
+});
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// @route   GET /api/do-not-call
+// @desc    List registry entries (active only unless includeInactive=true), with active counts
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/',
+  requirePermission('config.sampling'),
+  [...filterValidators, query('page').optional().isInt({ min: 1 }).toInt(), query('limit').optional().isInt({ min: 1, max: 200 }).toInt()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const q = req.query as any;
+      const [list, counts] = await Promise.all([
+        listDoNotCall({ ...pickFilters(q), page: q.page, limit: q.limit }),
+        getDoNotCallCounts(),
+      ]);
+      res.json({ success: true, data: { ...list, counts } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/do-not-call/export
+// @desc    Download registry entries as Excel (same columns the import reads)
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/export',
+  requirePermission('config.sampling'),
+  filterValidators,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const rows = await exportDoNotCallRows(pickFilters(req.query));
+
+      const wb = XLSX.utils.book_new();
+      const ws = XLSX.utils.json_to_sheet(rows, { header: [...DO_NOT_CALL_COLUMNS] });
+      XLSX.utils.book_append_sheet(wb, ws, 'Do Not Call');
+      const buffer = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+
+      const now = new Date();
+      const filename = `do_not_call_${now.getFullYear()}${pad2(now.getMonth() + 1)}${pad2(now.getDate())}.xlsx`;
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(buffer);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/do-not-call/import
+// @desc    Bulk add entries from Excel (Mobile Number, Type, Reason, Expires On); rows are matched to farmers by mobile
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/import',
+  requirePermission('config.sampling'),
+  upload.single('file'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authReq = req as AuthRequest;
+      const file = (req as any).file as Express.Multer.File | undefined;
+      if (!file?.buffer) {
+        const error: AppError = new Error('Upload an Excel file in the "file" field');
+        error.statusCode = 400;
+        throw error;
+      }
+      const workbook = XLSX.read(file.buffer, { type: 'buffer', cellDates: true });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      if (!sheet) {
+        const error: AppError = new Error('Excel file has no sheets');
+        error.statusCode = 400;
+        throw error;
+      }
+      const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' });
+      const result = await importDoNotCallRows(rows, authReq.user._id);
+      res.json({
+        success: true,
+        message: `Recorded ${result.recorded} of ${result.totalRows} rows`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/do-not-call
+// @desc    Add one farmer (by mobile number) to the registry
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/',
+  requirePermission('config.sampling'),
+  [
+    body('mobileNumber').isString().trim().matches(/^[0-9]{10}$/).withMessage('A 10-digit mobile number is required'),
+    body('kind').optional().isIn(DO_NOT_CALL_KINDS),
+    body('reason').isString().trim().notEmpty().isLength({ max: 500 }),
+    body('expiresAt').optional({ nullable: true }).isISO8601().toDate(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      const farmer = await Farmer.findOne({ mobileNumber: req.body.mobileNumber }).select('_id').lean();
+      if (!farmer) {
+        const error: AppError = new Error('No farmer with this mobile number');
+        error.statusCode = 404;
+        throw error;
+      }
+      const entry = await recordDoNotCall(farmer._id, {
+        kind: req.body.kind,
+        reason: req.body.reason,
+        // Entered from the registry screen rather than on a call: a one-row import
+        source: 'import',
+        expiresAt: req.body.expiresAt ?? null,
+        recordedByUserId: authReq.user._id,
+      });
+      res.status(201).json({ success: true, data: { entry } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   DELETE /api/do-not-call/:farmerId
+// @desc    Revoke a farmer's entry so they can be sampled and called again
+// @access  Private (Team Lead, MIS Admin)
+router.delete(
+  '/:farmerId',
+  requirePermission('config.sampling'),
+  [param('farmerId').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      const entry = await revokeDoNotCall(req.params.farmerId, authReq.user._id);
+      res.json({ success: true, data: { entry } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
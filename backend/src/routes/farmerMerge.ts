@@ -0,0 +1,132 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/rbac.js';
+import {
+  findDuplicateCandidates,
+  getFarmerMerge,
+  listFarmerMerges,
+  mergeFarmers,
+  undoFarmerMerge,
+} from '../services/farmerMergeService.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const validationFailed = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+  res.status(400).json({
+    success: false,
+    error: { message: 'Validation failed', errors: errors.array() },
+  });
+  return true;
+};
+
+// @route   GET /api/farmer-merge/candidates
+// @desc    Likely duplicate farmer pairs (similar name, location and mobile number)
+// @access  Private (MIS Admin)
+router.get(
+  '/candidates',
+  requirePermission('config.ffa'),
+  [
+    query('territory').optional().isString().trim(),
+    query('minScore').optional().isFloat({ min: 0, max: 1 }).toFloat(),
+    query('limit').optional().isInt({ min: 1, max: 500 }).toInt(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const q = req.query as any;
+      const data = await findDuplicateCandidates({ territory: q.territory || undefined, minScore: q.minScore, limit: q.limit });
+      res.json({ success: true, data });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/farmer-merge
+// @desc    Merge log, newest first
+// @access  Private (MIS Admin)
+router.get(
+  '/',
+  requirePermission('config.ffa'),
+  [
+    query('status').optional().isIn(['applied', 'undone']),
+    query('farmerId').optional().isMongoId(),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const { status, farmerId, page, limit } = req.query as any;
+      res.json({ success: true, data: await listFarmerMerges({ status, farmerId, page, limit }) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/farmer-merge/:id
+// @desc    One merge with everything it moved
+// @access  Private (MIS Admin)
+router.get(
+  '/:id',
+  requirePermission('config.ffa'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      res.json({ success: true, data: { merge: await getFarmerMerge(req.params.id) } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/farmer-merge
+// @desc    Merge a duplicate farmer into a surviving one
+// @access  Private (MIS Admin)
+router.post(
+  '/',
+  requirePermission('config.ffa'),
+  [
+    body('survivorId').isMongoId(),
+    body('mergedId').isMongoId(),
+    body('note').optional({ nullable: true }).isString().isLength({ max: 500 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      const merge = await mergeFarmers(req.body.survivorId, req.body.mergedId, authReq.user._id, req.body.note);
+      res.status(201).json({ success: true, data: { merge } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/farmer-merge/:id/undo
+// @desc    Undo a merge: move references back and restore removed tasks and entries
+// @access  Private (MIS Admin)
+router.post(
+  '/:id/undo',
+  requirePermission('config.ffa'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      res.json({ success: true, data: { merge: await undoFarmerMerge(req.params.id, authReq.user._id) } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
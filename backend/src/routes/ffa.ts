@@ -1,7 +1,9 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { authenticate } from '../middleware/auth.js';
 import { requirePermission } from '../middleware/rbac.js';
-import { syncFFAData, getSyncStatus, getSyncProgress } from '../services/ffaSync.js';
+import { getSyncStatus, getSyncProgress, requestFFASync, type SyncResult } from '../services/ffaSync.js';
+import { runJobInline } from '../services/jobQueue.js';
+import { resetFFACircuit } from '../services/ffaClient.js';
 import { Activity } from '../models/Activity.js';
 import { Farmer } from '../models/Farmer.js';
 import { CallTask } from '../models/CallTask.js';
@@ -16,6 +18,18 @@ import { InboundQuery } from '../models/InboundQuery.js';
 import { User } from '../models/User.js';
 import { getImportExcelProgress, startImportExcelJob } from '../services/excelImport.js';
 import { deleteDataBatch, listDataBatches } from '../services/dataBatchService.js';
+import {
+  FFA_WEBHOOK_EVENT_STATUSES,
+  FFA_WEBHOOK_EVENT_TYPES,
+  getWebhookEvent,
+  listWebhookEvents,
+  parseWebhookEvent,
+  receiveWebhookEvent,
+  replayFailedWebhookEvents,
+  replayWebhookEvent,
+  verifyWebhookSignature,
+} from '../services/ffaWebhookService.js';
+import type { FFAWebhookEventStatus, FFAWebhookEventType } from '../models/FFAWebhookEvent.js';
 import multer from 'multer';
 import * as XLSX from 'xlsx';
 import { getLanguageForState } from '../utils/stateLanguageMapper.js';
@@ -71,6 +85,25 @@ router.get(
   }
 );
 
+// ---------------------------------------------------------------------------
+// POST /api/ffa/webhook – activity created/updated/deleted events pushed by FFA (signed, no JWT)
+// X-FFA-Signature = sha256 HMAC of `${X-FFA-Timestamp}.${body}` with FFA_WEBHOOK_SECRET.
+// Always 200 once the event is stored, even if applying it failed (it can be replayed).
+// ---------------------------------------------------------------------------
+router.post('/webhook', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    verifyWebhookSignature(req.headers, req.rawBody);
+    const { event, duplicate } = await receiveWebhookEvent(parseWebhookEvent(req.body));
+
+    res.json({
+      success: true,
+      data: { id: event._id.toString(), eventId: event.eventId, status: event.status, duplicate },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // All other routes require authentication
 router.use(authenticate);
 
@@ -156,14 +189,14 @@ const formatDDMMYYYY = (d: Date): string => {
 };
 
 // @route   GET /api/ffa/sync-progress
-// @desc    Get current FFA sync progress (for progress bar / polling)
+// @desc    Get current FFA sync progress (for progress bar / polling), from the latest sync job
 // @access  Private (MIS Admin)
 router.get(
   '/sync-progress',
   requirePermission('config.ffa'),
-  (req: Request, res: Response, next: NextFunction) => {
+  async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const progress = getSyncProgress();
+      const progress = await getSyncProgress();
       res.json({
         success: true,
         data: progress,
@@ -175,7 +208,8 @@ router.get(
 );
 
 // @route   POST /api/ffa/sync
-// @desc    Manually trigger FFA sync (MIS Admin only). Runs in background; client should poll GET /sync-progress.
+// @desc    Manually trigger FFA sync (MIS Admin only). Queued as a job; client should poll GET /sync-progress.
+//          If a sync is already queued or running, that job is returned and no new one is started.
 // @access  Private (MIS Admin)
 router.post(
   '/sync',
@@ -193,16 +227,15 @@ router.post(
         fullSync,
       });
 
-      // Run sync in background so client can poll progress
-      syncFFAData(fullSync).catch((err) => {
-        logger.error('[FFA SYNC] Background sync error:', err);
-      });
+      const { job, enqueued } = await requestFFASync(fullSync, (req as any).user?._id);
 
       res.json({
         success: true,
         started: true,
-        message: 'FFA sync started. Poll /api/ffa/sync-progress for progress.',
-        data: { fullSync },
+        message: enqueued
+          ? 'FFA sync started. Poll /api/ffa/sync-progress for progress.'
+          : 'An FFA sync is already in progress. Poll /api/ffa/sync-progress for progress.',
+        data: { fullSync, jobId: job._id.toString(), alreadyRunning: !enqueued },
       });
     } catch (error) {
       const ffaApiUrl = process.env.FFA_API_URL || 'http://localhost:4000/api';
@@ -395,7 +428,7 @@ router.post(
       if (!file) {
         return res.status(400).json({ success: false, error: { message: 'Missing file. Use multipart/form-data with field name "file".' } });
       }
-      const started = await startImportExcelJob(file.buffer);
+      const started = await startImportExcelJob(file.buffer, (req as any).user?._id);
       if (!started.started) {
         return res.status(409).json({
           success: false,
@@ -418,8 +451,12 @@ router.post(
 // @route   GET /api/ffa/import-excel-progress
 // @desc    Get current Excel import progress (for progress bar / polling)
 // @access  Private (MIS Admin)
-router.get('/import-excel-progress', requirePermission('config.ffa'), (req: Request, res: Response) => {
-  res.json({ success: true, data: getImportExcelProgress() });
+router.get('/import-excel-progress', requirePermission('config.ffa'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ success: true, data: await getImportExcelProgress() });
+  } catch (error) {
+    next(error);
+  }
 });
 
 // @route   GET /api/ffa/data-batches
@@ -469,6 +506,67 @@ router.post('/delete-data-batch', requirePermission('config.ffa'), async (req: R
   }
 });
 
+// @route   GET /api/ffa/webhook-events
+// @desc    Inbound webhook event log (newest first) with counts per status
+// @access  Private (MIS Admin)
+router.get('/webhook-events', requirePermission('config.ffa'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, type, activityId, page, limit } = req.query as Record<string, string | undefined>;
+    if (status && !FFA_WEBHOOK_EVENT_STATUSES.includes(status as FFAWebhookEventStatus)) {
+      return res.status(400).json({ success: false, error: { message: `Invalid status: ${status}` } });
+    }
+    if (type && !FFA_WEBHOOK_EVENT_TYPES.includes(type as FFAWebhookEventType)) {
+      return res.status(400).json({ success: false, error: { message: `Invalid type: ${type}` } });
+    }
+    const data = await listWebhookEvents({
+      status: status as FFAWebhookEventStatus | undefined,
+      type: type as FFAWebhookEventType | undefined,
+      activityId,
+      page: Number(page) || 1,
+      limit: Number(limit) || 50,
+    });
+    res.json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   POST /api/ffa/webhook-events/replay-failed
+// @desc    Re-apply failed webhook events, oldest first (up to 500 per call)
+// @access  Private (MIS Admin)
+router.post('/webhook-events/replay-failed', requirePermission('config.ffa'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const limit = Number((req.body as { limit?: number })?.limit) || undefined;
+    const result = await replayFailedWebhookEvents(req.user?._id, limit);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /api/ffa/webhook-events/:id
+// @desc    One webhook event including the payload as received
+// @access  Private (MIS Admin)
+router.get('/webhook-events/:id', requirePermission('config.ffa'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ success: true, data: await getWebhookEvent(req.params.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   POST /api/ffa/webhook-events/:id/replay
+// @desc    Re-apply a logged webhook event (e.g. after fixing the data that made it fail)
+// @access  Private (MIS Admin)
+router.post('/webhook-events/:id/replay', requirePermission('config.ffa'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const event = await replayWebhookEvent(req.params.id, req.user?._id);
+    res.json({ success: true, data: event.toObject() });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @route   GET /api/ffa/status
 // @desc    Get FFA sync status
 // @access  Private (MIS Admin)
@@ -489,6 +587,28 @@ router.get(
   }
 );
 
+// @route   POST /api/ffa/circuit/reset
+// @desc    Close the FFA client circuit breaker so scheduled syncs resume
+// @access  Private (MIS Admin)
+router.post(
+  '/circuit/reset',
+  requirePermission('config.ffa'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const health = await resetFFACircuit();
+      logger.info(`FFA circuit reset by ${req.user?.email || 'unknown user'}`);
+
+      res.json({
+        success: true,
+        message: 'FFA circuit reset; scheduled syncs will resume',
+        data: health,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // @route   GET /api/ffa/activities
 // @desc    List synced activities
 // @access  Private (MIS Admin)
@@ -864,7 +984,11 @@ router.post(
       // When hierarchy was used: run sync in same request so the same Mock instance is likely to serve both seed and activities
       if (hierarchy.length > 0) {
         try {
-          const syncResult = await syncFFAData(true);
+          const syncResult = await runJobInline<SyncResult>(
+            'ffa_sync',
+            { fullSync: true },
+            { concurrencyKey: 'ffa_sync', createdByUserId: (req as any).user?._id }
+          );
           logger.info('[FFA] Sync after seed completed', syncResult);
           return res.json({
             success: true,
@@ -888,7 +1012,7 @@ router.post(
         }
       }
 
-      syncFFAData(true).catch((err) => logger.error('[FFA] Background sync after seed failed', err));
+      await requestFFASync(true, (req as any).user?._id);
       res.json({
         success: true,
         message: existingTerritoryTmFda?.length
@@ -0,0 +1,423 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, validationResult, query, param } from 'express-validator';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requireRole, requirePermission, getEffectiveRole } from '../middleware/rbac.js';
+import {
+  getInboundScope,
+  findFarmerByMobile,
+  createInboundQuery,
+  listInboundQueries,
+  getInboundQueryById,
+  updateInboundQuery,
+  escalateInboundQuery,
+  resolveInboundQuery,
+  deleteInboundQuery,
+  exportInboundQueriesXlsx,
+  InboundQueryFilters,
+} from '../services/inboundService.js';
+import { getSlaPolicies, updateSlaPolicy, runInboundSlaSweep } from '../services/inboundSlaService.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const QUERY_TYPES = ['Product usage', 'Complaint', 'General inquiry'];
+const QUERY_STATUSES = ['open', 'in_progress', 'resolved', 'escalated'];
+const ESCALATION_LEVELS = ['Level 1', 'Level 2'];
+
+const listValidators = [
+  query('status').optional().isIn(QUERY_STATUSES),
+  query('queryType').optional().isIn(QUERY_TYPES),
+  query('escalationLevel').optional().isIn(ESCALATION_LEVELS),
+  query('assignedTo').optional().isMongoId(),
+  query('loggedBy').optional().isMongoId(),
+  query('slaBreached').optional().isBoolean(),
+  query('search').optional().isString(),
+  query('dateFrom').optional().isISO8601(),
+  query('dateTo').optional().isISO8601(),
+  query('page').optional().isInt({ min: 1 }),
+];
+
+const parseListFilters = (req: Request): InboundQueryFilters => {
+  const { status, queryType, escalationLevel, assignedTo, loggedBy, slaBreached, search, dateFrom, dateTo, page, limit } = req.query;
+  return {
+    status: (status as InboundQueryFilters['status']) || undefined,
+    queryType: (queryType as InboundQueryFilters['queryType']) || undefined,
+    escalationLevel: (escalationLevel as InboundQueryFilters['escalationLevel']) || undefined,
+    assignedTo: (assignedTo as string) || undefined,
+    loggedBy: (loggedBy as string) || undefined,
+    slaBreached: slaBreached === 'true',
+    search: (search as string) || undefined,
+    dateFrom: (dateFrom as string) || undefined,
+    dateTo: (dateTo as string) || undefined,
+    page: page ? Number(page) : undefined,
+    limit: limit ? Number(limit) : undefined,
+  };
+};
+
+const scopeForRequest = (req: Request) => {
+  const authReq = req as AuthRequest;
+  return getInboundScope(authReq.user._id.toString(), getEffectiveRole(req));
+};
+
+// @route   GET /api/inbound/farmer-lookup
+// @desc    Find farmer (and recent inbound history) by the caller's mobile number
+// @access  Private (CC Agent, Team Lead, MIS Admin)
+router.get(
+  '/farmer-lookup',
+  requirePermission('inbound.log'),
+  [query('mobile').isString().trim().notEmpty().withMessage('mobile is required')],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const result = await findFarmerByMobile(req.query.mobile as string);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/inbound
+// @desc    Log an inbound farmer query
+// @access  Private (CC Agent, Team Lead, MIS Admin)
+router.post(
+  '/',
+  requirePermission('inbound.log'),
+  [
+    body('farmerId').optional({ nullable: true }).isMongoId(),
+    body('callerMobile').optional({ nullable: true }).isString().trim(),
+    body('callerName').optional({ nullable: true }).isString().trim(),
+    body('queryType').isIn(QUERY_TYPES).withMessage('Invalid query type'),
+    body('category').isString().trim().notEmpty().withMessage('Category is required'),
+    body('description').isString().trim().notEmpty().withMessage('Description is required'),
+    body('status').optional().isIn(['open', 'in_progress', 'resolved']),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const { farmerId, callerMobile, callerName, queryType, category, description, status } = req.body;
+      const created = await createInboundQuery(
+        { farmerId, callerMobile, callerName, queryType, category, description, status },
+        authReq.user._id.toString()
+      );
+
+      res.status(201).json({ success: true, data: { query: created } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/inbound/own
+// @desc    Inbound queries logged by or assigned to the current user
+// @access  Private (CC Agent, Team Lead, MIS Admin)
+router.get(
+  '/own',
+  requirePermission('inbound.log'),
+  [...listValidators, query('limit').optional().isInt({ min: 1, max: 100 })],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const result = await listInboundQueries(parseListFilters(req), [authReq.user._id]);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/inbound/export
+// @desc    Export inbound queries for the current filters as Excel
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/export',
+  requirePermission('inbound.view.team'),
+  [...listValidators, query('limit').optional().isInt({ min: 1, max: 5000 })],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const scope = await scopeForRequest(req);
+      const { filename, buffer } = await exportInboundQueriesXlsx(parseListFilters(req), scope);
+
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(buffer);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/inbound
+// @desc    Team inbound queue with filters (Team Lead: own team; MIS Admin: all)
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/',
+  requirePermission('inbound.view.team'),
+  [...listValidators, query('limit').optional().isInt({ min: 1, max: 100 })],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const scope = await scopeForRequest(req);
+      const result = await listInboundQueries(parseListFilters(req), scope);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/inbound/sla/policies
+// @desc    SLA policies per query type (first response / resolve hours)
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/sla/policies',
+  requirePermission('inbound.view.team'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const policies = await getSlaPolicies();
+      res.json({ success: true, data: { policies } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   PUT /api/inbound/sla/policies/:queryType
+// @desc    Update the SLA policy for a query type (applies to queries logged after the change)
+// @access  Private (Team Lead, MIS Admin)
+router.put(
+  '/sla/policies/:queryType',
+  requirePermission('inbound.escalate'),
+  [
+    param('queryType').isIn(QUERY_TYPES),
+    body('firstResponseHours').optional().isInt({ min: 1, max: 24 * 30 }).toInt(),
+    body('resolveHours').optional().isInt({ min: 1, max: 24 * 90 }).toInt(),
+    body('isActive').optional().isBoolean().toBoolean(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const { firstResponseHours, resolveHours, isActive } = req.body;
+      const policy = await updateSlaPolicy(
+        req.params.queryType as any,
+        { firstResponseHours, resolveHours, isActive },
+        authReq.user._id.toString()
+      );
+      res.json({ success: true, message: 'SLA policy updated', data: { policy } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/inbound/sla/check
+// @desc    Run the SLA breach sweep now (same job the cron queues every 15 minutes); 409 while one is running
+// @access  Private (MIS Admin only)
+router.post(
+  '/sla/check',
+  requireRole('mis_admin'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await runInboundSlaSweep();
+      res.json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/inbound/:id
+// @desc    Get a single inbound query
+// @access  Private (CC Agent: own; Team Lead: team; MIS Admin: all)
+router.get(
+  '/:id',
+  requirePermission('inbound.log'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const scope = await scopeForRequest(req);
+      const inboundQuery = await getInboundQueryById(req.params.id, scope);
+      res.json({ success: true, data: { query: inboundQuery } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   PUT /api/inbound/:id
+// @desc    Update query details, workflow status (open/in_progress) or assignee
+// @access  Private (CC Agent: own; Team Lead: team; MIS Admin: all)
+router.put(
+  '/:id',
+  requirePermission('inbound.log'),
+  [
+    param('id').isMongoId(),
+    body('queryType').optional().isIn(QUERY_TYPES),
+    body('category').optional().isString().trim().notEmpty(),
+    body('description').optional().isString().trim().notEmpty(),
+    body('status').optional().isIn(['open', 'in_progress']),
+    body('assignedTo').optional().isMongoId(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const scope = await scopeForRequest(req);
+      const { queryType, category, description, status, assignedTo } = req.body;
+      const updated = await updateInboundQuery(req.params.id, { queryType, category, description, status, assignedTo }, scope);
+      res.json({ success: true, message: 'Inbound query updated', data: { query: updated } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/inbound/:id/escalate
+// @desc    Escalate a query from Level 1 to Level 2
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/:id/escalate',
+  requirePermission('inbound.escalate'),
+  [
+    param('id').isMongoId(),
+    body('reason').optional().isString().trim(),
+    body('assignedTo').optional().isMongoId(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const scope = await scopeForRequest(req);
+      const updated = await escalateInboundQuery(req.params.id, authReq.user._id.toString(), scope, {
+        reason: req.body.reason,
+        assignedTo: req.body.assignedTo,
+      });
+      res.json({ success: true, message: 'Inbound query escalated to Level 2', data: { query: updated } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/inbound/:id/resolve
+// @desc    Mark a query as resolved (records resolvedAt / resolvedBy)
+// @access  Private (CC Agent: own; Team Lead: team; MIS Admin: all)
+router.post(
+  '/:id/resolve',
+  requirePermission('inbound.log'),
+  [param('id').isMongoId(), body('resolutionNotes').optional().isString().trim()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const scope = await scopeForRequest(req);
+      const updated = await resolveInboundQuery(req.params.id, authReq.user._id.toString(), scope, req.body.resolutionNotes);
+      res.json({ success: true, message: 'Inbound query resolved', data: { query: updated } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   DELETE /api/inbound/:id
+// @desc    Delete an inbound query (e.g. logged in error)
+// @access  Private (MIS Admin only)
+router.delete(
+  '/:id',
+  requireRole('mis_admin'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      await deleteInboundQuery(req.params.id);
+      res.json({ success: true, message: 'Inbound query deleted' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,179 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/rbac.js';
+import { releaseQuarantinedActivity } from '../services/ffaSync.js';
+import {
+  INGEST_RULES,
+  INGEST_RULE_SEVERITIES,
+  QUARANTINE_STATUSES,
+  discardQuarantinedRecord,
+  getQuarantinedRecord,
+  listBatchQuality,
+  listIngestRules,
+  listQuarantinedRecords,
+  updateIngestRule,
+} from '../services/ingestValidationService.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const validationFailed = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+  res.status(400).json({
+    success: false,
+    error: { message: 'Validation failed', errors: errors.array() },
+  });
+  return true;
+};
+
+// @route   GET /api/ingest/rules
+// @desc    Ingest validation rules with their current severity
+// @access  Private (MIS Admin)
+router.get('/rules', requirePermission('config.ffa'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ success: true, data: { rules: await listIngestRules() } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   PUT /api/ingest/rules/:code
+// @desc    Set a rule's severity (reject, quarantine, warn, off); applies from the next batch
+// @access  Private (MIS Admin)
+router.put(
+  '/rules/:code',
+  requirePermission('config.ffa'),
+  [param('code').isIn(INGEST_RULES.map((r) => r.code)), body('severity').isIn(INGEST_RULE_SEVERITIES)],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      const rule = await updateIngestRule(req.params.code, req.body.severity, authReq.user._id);
+      res.json({ success: true, data: { rule } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/ingest/quality
+// @desc    Validation outcome counts of the latest data batches
+// @access  Private (MIS Admin)
+router.get(
+  '/quality',
+  requirePermission('config.ffa'),
+  [query('limit').optional().isInt({ min: 1, max: 100 }).toInt()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const batches = await listBatchQuality((req.query as any).limit || 25);
+      res.json({ success: true, data: { batches } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/ingest/quarantine
+// @desc    Quarantined activities (pending by default)
+// @access  Private (MIS Admin)
+router.get(
+  '/quarantine',
+  requirePermission('config.ffa'),
+  [
+    query('status').optional().isIn(QUARANTINE_STATUSES),
+    query('source').optional().isIn(['ffa_sync', 'ffa_webhook', 'excel_import']),
+    query('dataBatchId').optional().isString().trim(),
+    query('rule').optional().isIn(INGEST_RULES.map((r) => r.code)),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const q = req.query as any;
+      const data = await listQuarantinedRecords({
+        status: q.status,
+        source: q.source,
+        dataBatchId: q.dataBatchId || undefined,
+        rule: q.rule,
+        page: q.page,
+        limit: q.limit,
+      });
+      res.json({ success: true, data });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/ingest/quarantine/:id
+// @desc    One quarantined activity with its payload and issues
+// @access  Private (MIS Admin)
+router.get(
+  '/quarantine/:id',
+  requirePermission('config.ffa'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      res.json({ success: true, data: await getQuarantinedRecord(req.params.id) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/ingest/quarantine/:id/release
+// @desc    Re-check the (optionally corrected) payload and upsert it; override=true accepts remaining quarantine issues
+// @access  Private (MIS Admin)
+router.post(
+  '/quarantine/:id/release',
+  requirePermission('config.ffa'),
+  [
+    param('id').isMongoId(),
+    body('payload').optional().isObject(),
+    body('payload.farmers').optional().isArray(),
+    body('override').optional().isBoolean(),
+    body('note').optional().isString().isLength({ max: 500 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      const { activityId: _ignored, ...payload } = req.body?.payload || {};
+      const data = await releaseQuarantinedActivity(req.params.id, authReq.user._id, {
+        payload,
+        override: req.body?.override === true,
+        note: req.body?.note,
+      });
+      res.json({ success: true, data });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/ingest/quarantine/:id/discard
+// @desc    Drop a quarantined activity without ingesting it (optional note)
+// @access  Private (MIS Admin)
+router.post(
+  '/quarantine/:id/discard',
+  requirePermission('config.ffa'),
+  [param('id').isMongoId(), body('note').optional().isString().isLength({ max: 500 })],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      res.json({ success: true, data: await discardQuarantinedRecord(req.params.id, authReq.user._id, req.body?.note) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
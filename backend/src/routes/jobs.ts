@@ -0,0 +1,80 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { authenticate } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/rbac.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { getJob, listJobs } from '../services/jobQueue.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const JOB_TYPES = [
+  'ffa_sync',
+  'excel_import',
+  'sampling_run',
+  'sampling_auto_run',
+  'allocation_run',
+  'inbound_sla_sweep',
+];
+const JOB_STATUSES = ['queued', 'running', 'completed', 'failed'];
+
+const validationFailed = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+  res.status(400).json({
+    success: false,
+    error: { message: 'Validation failed', errors: errors.array() },
+  });
+  return true;
+};
+
+// @route   GET /api/jobs
+// @desc    List background jobs (newest first) with status, attempts, lease and progress
+// @access  Private (MIS Admin)
+router.get(
+  '/',
+  requirePermission('config.system'),
+  [
+    query('type').optional().isIn(JOB_TYPES),
+    query('status').optional().isIn(JOB_STATUSES),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const q = req.query as any;
+      const data = await listJobs({ type: q.type, status: q.status, page: q.page, limit: q.limit });
+      res.json({ success: true, data });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/jobs/:id
+// @desc    One job with its payload, result and log
+// @access  Private (MIS Admin)
+router.get(
+  '/:id',
+  requirePermission('config.system'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const job = await getJob(req.params.id);
+      if (!job) {
+        const error: AppError = new Error('Job not found');
+        error.statusCode = 404;
+        throw error;
+      }
+      res.json({ success: true, data: { job } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,121 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/rbac.js';
+import {
+  subscribeLiveEvents,
+  getLiveEventScope,
+  isEventVisible,
+  LiveEvent,
+  LiveEventScope,
+} from '../services/liveEventsService.js';
+import { getWallboardSnapshot } from '../services/wallboardService.js';
+import logger from '../config/logger.js';
+
+const router = express.Router();
+
+// Keeps proxies from closing an idle stream
+const KEEPALIVE_MS = 25000;
+// Task events arrive in bursts (allocation, bulk status); recompute the wallboard at most this often
+const WALLBOARD_DEBOUNCE_MS = 2000;
+// "Last hour" slides even when nothing happens
+const WALLBOARD_REFRESH_MS = 60000;
+// Team membership changes rarely; reload the scope occasionally instead of per event
+const SCOPE_REFRESH_MS = 5 * 60 * 1000;
+
+// All routes require authentication
+router.use(authenticate);
+
+// @route   GET /api/live/stream
+// @desc    Server-sent events: task status transitions, submissions, allocation progress.
+//          ?wallboard=1 also pushes a `wallboard` snapshot on connect and whenever tasks change.
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/stream',
+  requirePermission('tasks.view.team'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    let scope: LiveEventScope;
+    try {
+      scope = await getLiveEventScope((req as AuthRequest).user);
+    } catch (error) {
+      return next(error);
+    }
+
+    const authReq = req as AuthRequest;
+    const withWallboard = req.query.wallboard === '1' || req.query.wallboard === 'true';
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    let closed = false;
+    const send = (event: string, data: unknown) => {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    let wallboardTimer: ReturnType<typeof setTimeout> | null = null;
+    const pushWallboard = async () => {
+      wallboardTimer = null;
+      try {
+        send('wallboard', await getWallboardSnapshot(authReq.user));
+      } catch (error) {
+        logger.warn('Wallboard snapshot failed', { error: (error as Error)?.message });
+      }
+    };
+    const scheduleWallboard = () => {
+      if (!withWallboard || wallboardTimer) return;
+      wallboardTimer = setTimeout(pushWallboard, WALLBOARD_DEBOUNCE_MS);
+    };
+
+    const unsubscribe = subscribeLiveEvents((event: LiveEvent) => {
+      if (!isEventVisible(event, scope)) return;
+      send(event.type, event);
+      if (event.type !== 'allocation.progress' || event.status !== 'running') scheduleWallboard();
+    });
+
+    const keepAlive = setInterval(() => {
+      if (!closed) res.write(': keep-alive\n\n');
+    }, KEEPALIVE_MS);
+    const wallboardRefresh = withWallboard ? setInterval(pushWallboard, WALLBOARD_REFRESH_MS) : null;
+    const scopeRefresh = setInterval(() => {
+      getLiveEventScope(authReq.user)
+        .then((next) => {
+          scope = next;
+        })
+        .catch(() => undefined);
+    }, SCOPE_REFRESH_MS);
+
+    req.on('close', () => {
+      closed = true;
+      unsubscribe();
+      clearInterval(keepAlive);
+      clearInterval(scopeRefresh);
+      if (wallboardRefresh) clearInterval(wallboardRefresh);
+      if (wallboardTimer) clearTimeout(wallboardTimer);
+    });
+
+    send('ready', { connectedAt: new Date() });
+    if (withWallboard) await pushWallboard();
+  }
+);
+
+// @route   GET /api/live/wallboard
+// @desc    Current wallboard figures (initial load / fallback when the stream is unavailable)
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/wallboard',
+  requirePermission('tasks.view.team'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authReq = req as AuthRequest;
+      res.json({ success: true, data: await getWallboardSnapshot(authReq.user) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,175 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/rbac.js';
+import {
+  getAgentPresence,
+  getDialerSettings,
+  updateDialerSettings,
+  recordHeartbeat,
+  setOwnAvailability,
+  setDialerMode,
+  serializePresence,
+  getTeamPresence,
+} from '../services/agentPresenceService.js';
+import logger from '../config/logger.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const validationFailed = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+  res.status(400).json({
+    success: false,
+    error: { message: 'Validation failed', errors: errors.array() },
+  });
+  return true;
+};
+
+// @route   GET /api/presence/me
+// @desc    Agent's own availability, dialer mode and the configured wrap-up / break reasons
+// @access  Private (CC Agent)
+router.get(
+  '/me',
+  requirePermission('tasks.view.own'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authReq = req as AuthRequest;
+      const [presence, settings] = await Promise.all([
+        getAgentPresence(authReq.user._id.toString()),
+        getDialerSettings(),
+      ]);
+      res.json({ success: true, data: { presence, settings } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/presence/me/heartbeat
+// @desc    Workspace keep-alive; agents without a recent heartbeat show as offline
+// @access  Private (CC Agent)
+router.post(
+  '/me/heartbeat',
+  requirePermission('tasks.view.own'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authReq = req as AuthRequest;
+      const presence = await recordHeartbeat(authReq.user._id.toString());
+      res.json({ success: true, data: { presence: serializePresence(presence) } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   PUT /api/presence/me/availability
+// @desc    Go available or on break (with a configured reason)
+// @access  Private (CC Agent)
+router.put(
+  '/me/availability',
+  requirePermission('tasks.view.own'),
+  [
+    body('state').isIn(['available', 'break']).withMessage('state must be available or break'),
+    body('breakReason').optional({ nullable: true }).isString().trim(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+
+      const authReq = req as AuthRequest;
+      const presence = await setOwnAvailability(authReq.user._id.toString(), req.body.state, req.body.breakReason);
+
+      logger.info(`Agent ${authReq.user.email} is now ${presence.state}`, { breakReason: presence.breakReason });
+
+      res.json({ success: true, data: { presence: serializePresence(presence) } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   PUT /api/presence/me/mode
+// @desc    Switch between manual task selection and progressive dialing
+// @access  Private (CC Agent)
+router.put(
+  '/me/mode',
+  requirePermission('tasks.view.own'),
+  [body('mode').isIn(['manual', 'progressive']).withMessage('mode must be manual or progressive')],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+
+      const authReq = req as AuthRequest;
+      const presence = await setDialerMode(authReq.user._id.toString(), req.body.mode);
+      res.json({ success: true, data: { presence: serializePresence(presence) } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/presence/team
+// @desc    Live agent states for the team lead's team (all agents for MIS Admin)
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/team',
+  requirePermission('tasks.view.team'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authReq = req as AuthRequest;
+      const data = await getTeamPresence(authReq.user);
+      res.json({ success: true, data });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/presence/settings
+// @desc    Dialer settings (wrap-up time, break reasons)
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/settings',
+  requirePermission('config.sampling'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({ success: true, data: { settings: await getDialerSettings() } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   PUT /api/presence/settings
+// @desc    Update dialer settings
+// @access  Private (Team Lead, MIS Admin)
+router.put(
+  '/settings',
+  requirePermission('config.sampling'),
+  [
+    body('wrapUpSeconds').optional().isInt({ min: 0, max: 600 }).withMessage('wrapUpSeconds must be between 0 and 600'),
+    body('breakReasons').optional().isArray({ min: 1 }).withMessage('breakReasons must be a non-empty list'),
+    body('breakReasons.*').optional().isString().trim().notEmpty(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+
+      const authReq = req as AuthRequest;
+      const updates: any = {};
+      if (req.body.wrapUpSeconds !== undefined) updates.wrapUpSeconds = Number(req.body.wrapUpSeconds);
+      if (req.body.breakReasons !== undefined) updates.breakReasons = req.body.breakReasons;
+
+      const settings = await updateDialerSettings(updates, authReq.user._id.toString());
+      res.json({ success: true, data: { settings } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
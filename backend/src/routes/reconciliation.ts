@@ -0,0 +1,157 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/rbac.js';
+import { listChangeHistory } from '../services/changeHistoryService.js';
+import {
+  RECONCILIATION_REASONS,
+  RECONCILIATION_STATUSES,
+  cancelOrphanedTasks,
+  dismissReconciliation,
+  getReconciliation,
+  listReconciliations,
+  resampleReconciledActivity,
+} from '../services/reconciliationService.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const validationFailed = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+  res.status(400).json({
+    success: false,
+    error: { message: 'Validation failed', errors: errors.array() },
+  });
+  return true;
+};
+
+// @route   GET /api/reconciliation
+// @desc    Sampled activities whose upstream data changed (open by default), with task and orphan counts
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/',
+  requirePermission('config.sampling'),
+  [
+    query('status').optional().isIn(RECONCILIATION_STATUSES),
+    query('reason').optional().isIn(RECONCILIATION_REASONS),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const q = req.query as any;
+      const data = await listReconciliations({ status: q.status, reason: q.reason, page: q.page, limit: q.limit });
+      res.json({ success: true, data });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/reconciliation/history/:entityType/:entityId
+// @desc    Field-level change history of an activity or farmer (newest first)
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/history/:entityType/:entityId',
+  requirePermission('config.sampling'),
+  [
+    param('entityType').isIn(['activity', 'farmer']),
+    param('entityId').isMongoId(),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const q = req.query as any;
+      const data = await listChangeHistory(req.params.entityType as 'activity' | 'farmer', req.params.entityId, {
+        page: q.page,
+        limit: q.limit,
+      });
+      res.json({ success: true, data });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/reconciliation/:id
+// @desc    One item with the logged changes and the tasks of farmers no longer in the activity
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/:id',
+  requirePermission('config.sampling'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      res.json({ success: true, data: await getReconciliation(req.params.id) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const actionValidators = [param('id').isMongoId(), body('keepOpen').optional().isBoolean()];
+
+// @route   POST /api/reconciliation/:id/cancel-orphaned-tasks
+// @desc    Delete uncalled tasks of removed farmers; resolves the item unless keepOpen=true
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/:id/cancel-orphaned-tasks',
+  requirePermission('config.sampling'),
+  actionValidators,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      const data = await cancelOrphanedTasks(req.params.id, authReq.user._id, { keepOpen: req.body?.keepOpen === true });
+      res.json({ success: true, data });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/reconciliation/:id/resample
+// @desc    Ad-hoc sample of the activity's current farmers; resolves the item unless keepOpen=true
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/:id/resample',
+  requirePermission('config.sampling'),
+  actionValidators,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      const data = await resampleReconciledActivity(req.params.id, authReq.user._id, { keepOpen: req.body?.keepOpen === true });
+      res.json({ success: true, data });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/reconciliation/:id/dismiss
+// @desc    Close the item without changing tasks (optional note)
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/:id/dismiss',
+  requirePermission('config.sampling'),
+  [param('id').isMongoId(), body('note').optional().isString().isLength({ max: 500 })],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      res.json({ success: true, data: await dismissReconciliation(req.params.id, authReq.user._id, req.body?.note) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
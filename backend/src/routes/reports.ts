@@ -468,7 +468,8 @@ router.get('/export', filterValidators, async (req: Request, res: Response, next
 
 /**
  * GET /api/reports/tasks-detail-export
- * Excel export: 1) Activity details 2) Sampling details 3) Task details 4) Agent/Calling details 5) Final outcome and comments.
+ * Excel export: 1) Activity details 2) Sampling details 3) Task details 4) Agent/Calling details 5) Final outcome and comments
+ * 6) Call attempts side by side (one column group per attempt, as many as the busiest task has).
  */
 router.get('/tasks-detail-export', filterValidators, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -478,6 +479,7 @@ router.get('/tasks-detail-export', filterValidators, async (req: Request, res: R
     }
     const filters = parseFilters(req);
     const rows = await getTaskDetailExportRows(filters);
+    const maxAttempts = rows.reduce((max, r) => Math.max(max, r.attemptCount), 1);
 
     const wb = XLSX.utils.book_new();
     // Section 1: Activity details
@@ -543,6 +545,20 @@ router.get('/tasks-detail-export', filterValidators, async (req: Request, res: R
       'Farmer Comments',
       'Sentiment',
       'Last Status Note',
+      // Section 6: Call attempts
+      'Total Attempts',
+      ...Array.from({ length: maxAttempts }, (_, i) => [
+        `Attempt ${i + 1} Timestamp`,
+        `Attempt ${i + 1} Agent`,
+        `Attempt ${i + 1} Call Status`,
+        `Attempt ${i + 1} Duration (sec)`,
+        `Attempt ${i + 1} Task Status`,
+        `Attempt ${i + 1} Did Attend`,
+        `Attempt ${i + 1} Did Recall`,
+        `Attempt ${i + 1} Has Purchased`,
+        `Attempt ${i + 1} Sentiment`,
+        `Attempt ${i + 1} Farmer Comments`,
+      ]).flat(),
     ];
     const data = [headers, ...rows.map((r) => [
       r.activityId,
@@ -602,6 +618,23 @@ router.get('/tasks-detail-export', filterValidators, async (req: Request, res: R
       r.farmerComments,
       r.sentiment,
       r.lastStatusNote,
+      r.attemptCount,
+      ...Array.from({ length: maxAttempts }, (_, i) => {
+        const a = r.attempts[i];
+        if (!a) return ['', '', '', '', '', '', '', '', '', ''];
+        return [
+          a.timestamp,
+          a.agentName,
+          a.callStatus,
+          a.callDurationSeconds,
+          a.resultingStatus,
+          a.didAttend,
+          a.didRecall,
+          a.hasPurchased,
+          a.sentiment,
+          a.farmerComments,
+        ];
+      }).flat(),
     ])];
     XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(data), 'Task Details');
 
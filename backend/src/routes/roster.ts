@@ -0,0 +1,112 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/rbac.js';
+import { getTeamRoster, updateAgentRoster, addLeaveDay, removeLeaveDay } from '../services/rosterService.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const validationFailed = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+  res.status(400).json({
+    success: false,
+    error: { message: 'Validation failed', errors: errors.array() },
+  });
+  return true;
+};
+
+// @route   GET /api/roster
+// @desc    Team roster: weekly shifts, leave and today's remaining capacity per agent.
+//          ?from=YYYY-MM-DD starts the 7-day grid on another day (default today).
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/',
+  requirePermission('tasks.view.team'),
+  [query('from').optional().isISO8601()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      // Noon IST keeps the requested calendar day whatever the server timezone
+      const from = req.query.from ? new Date(`${String(req.query.from).slice(0, 10)}T12:00:00+05:30`) : new Date();
+      res.json({ success: true, data: await getTeamRoster(authReq.user, from) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   PUT /api/roster/:agentId
+// @desc    Set an agent's weekly shifts and/or daily capacity
+// @access  Private (Team Lead, MIS Admin)
+router.put(
+  '/:agentId',
+  requirePermission('tasks.reassign'),
+  [
+    param('agentId').isMongoId(),
+    body('shifts').optional().isArray({ max: 7 }),
+    body('shifts.*.dayOfWeek').isInt({ min: 0, max: 6 }).toInt(),
+    body('shifts.*.startTime').matches(/^([01]\d|2[0-3]):[0-5]\d$/),
+    body('shifts.*.endTime').matches(/^([01]\d|2[0-3]):[0-5]\d$/),
+    body('dailyCapacity').optional().isInt({ min: 0, max: 1000 }).toInt(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      const { shifts, dailyCapacity } = req.body;
+      const roster = await updateAgentRoster(req.params.agentId, { shifts, dailyCapacity }, authReq.user);
+      res.json({ success: true, data: { roster } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/roster/:agentId/leaves
+// @desc    Mark a leave day (replaces any existing entry for that date)
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/:agentId/leaves',
+  requirePermission('tasks.reassign'),
+  [
+    param('agentId').isMongoId(),
+    body('date').matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('date must be YYYY-MM-DD'),
+    body('reason').optional().isString().isLength({ max: 200 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      const roster = await addLeaveDay(req.params.agentId, { date: req.body.date, reason: req.body.reason }, authReq.user);
+      res.status(201).json({ success: true, data: { roster } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   DELETE /api/roster/:agentId/leaves/:date
+// @desc    Remove a leave day
+// @access  Private (Team Lead, MIS Admin)
+router.delete(
+  '/:agentId/leaves/:date',
+  requirePermission('tasks.reassign'),
+  [param('agentId').isMongoId(), param('date').matches(/^\d{4}-\d{2}-\d{2}$/)],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const authReq = req as AuthRequest;
+      const roster = await removeLeaveDay(req.params.agentId, req.params.date, authReq.user);
+      res.json({ success: true, data: { roster } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
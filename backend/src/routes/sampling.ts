@@ -1,8 +1,15 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { body, validationResult, query } from 'express-validator';
+import { body, validationResult, query, param } from 'express-validator';
 import { authenticate } from '../middleware/auth.js';
-import { requirePermission } from '../middleware/rbac.js';
-import { sampleAndCreateTasks } from '../services/samplingService.js';
+import { requirePermission, getEffectiveRole } from '../middleware/rbac.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { sampleAndCreateTasks, verifySamplingAudit } from '../services/samplingService.js';
+import { simulateSampling } from '../services/samplingSimulator.js';
+import { getCoverageReport } from '../services/coverageService.js';
+import { type SamplingRunOutcome } from '../services/samplingRunService.js';
+import { runJobInline } from '../services/jobQueue.js';
+import { claimRunForResume, requestRunCancel, settleStaleRun, sweepStaleRuns } from '../services/runControlService.js';
+import { generateSamplingSeed } from '../utils/seededRandom.js';
 import { SamplingAudit } from '../models/SamplingAudit.js';
 import { Activity } from '../models/Activity.js';
 import { Farmer } from '../models/Farmer.js';
@@ -10,6 +17,8 @@ import { SamplingConfig } from '../models/SamplingConfig.js';
 import { CallTask } from '../models/CallTask.js';
 import { SamplingRun } from '../models/SamplingRun.js';
 import { callTaskNeedsAgentMongoFilter } from '../services/taskService.js';
+import { getRetryPolicy, updateRetryPolicy } from '../services/retryService.js';
+import { getDoNotCallCounts } from '../services/doNotCallService.js';
 import logger from '../config/logger.js';
 import mongoose from 'mongoose';
 
@@ -318,12 +327,16 @@ router.get(
         });
       }
 
-      const [byType, uniqueByTypeRows, uniqueGlobalRow, activitiesInRange] = await Promise.all([
+      const [byType, uniqueByTypeRows, uniqueGlobalRow, activitiesInRange, farmerIdsInRange, doNotCallRegistry] = await Promise.all([
         Activity.aggregate(pipeline),
         Activity.aggregate(uniqueFarmersByTypePipeline),
         Activity.aggregate(uniqueFarmersGlobalPipeline),
         Activity.find(match).select('_id type').lean(),
+        Activity.distinct('farmerIds', match),
+        getDoNotCallCounts(),
       ]);
+      // Active do-not-call / no-consent entries among this range's farmers (excluded from sampling)
+      const doNotCallInRange = await getDoNotCallCounts(farmerIdsInRange as mongoose.Types.ObjectId[]);
 
       const idToType = new Map<string, string>();
       for (const a of activitiesInRange as { _id: mongoose.Types.ObjectId; type?: string }[]) {
@@ -397,6 +410,10 @@ router.get(
             eligibleActivityTypes: eligibleTypesArr,
             activeButTypeExcludedFromList: activeButTypeNotInEligibleList,
           },
+          doNotCall: {
+            inRange: doNotCallInRange,
+            registry: doNotCallRegistry,
+          },
           byType: byTypeWithFarmers.map((r: any) => ({
             type: r._id,
             totalActivities: r.totalActivities,
@@ -513,6 +530,42 @@ router.put(
     body('autoRunThreshold').optional().isInt({ min: 1, max: 100000 }),
     body('autoRunActivateFrom').optional({ checkFalsy: true }).isISO8601(),
     body('taskDueInDays').optional().isInt({ min: 0, max: 365 }),
+    body('stratification').optional().isObject(),
+    body('stratification.mode').optional().isIn(['uniform', 'stratified']),
+    body('stratification.strataBy').optional().isIn(['location', 'preferredLanguage', 'territory']),
+    body('stratification.allocation').optional().isIn(['proportional', 'equal']),
+    body('stratification.minPerStratum').optional().isInt({ min: 0, max: 1000 }).toInt(),
+    body('coverage').optional().isObject(),
+    body('coverage.enabled').optional().isBoolean(),
+    body('coverage.officerLevel').optional().isIn(['fda', 'tm']),
+    body('coverage.minValidationsPerOfficer').optional().isInt({ min: 0, max: 1000 }).toInt(),
+    body('coverage.period').optional().isIn(['month', 'week']),
+    body('riskWeighting').optional().isObject(),
+    body('riskWeighting.enabled').optional().isBoolean(),
+    body('riskWeighting.officerLevel').optional().isIn(['fda', 'tm']),
+    body('riskWeighting.lookbackWeeks').optional().isInt({ min: 1, max: 52 }).toInt(),
+    body('riskWeighting.minConnectedCalls').optional().isInt({ min: 1, max: 10000 }).toInt(),
+    body(['riskWeighting.poorValidityPct', 'riskWeighting.poorIdentityWrongPct', 'riskWeighting.goodEmsScore'])
+      .optional()
+      .isFloat({ min: 0, max: 100 })
+      .toFloat(),
+    body('riskWeighting.increaseFactor').optional().isFloat({ min: 1, max: 5 }).toFloat(),
+    body('riskWeighting.decreaseFactor').optional().isFloat({ min: 0.1, max: 1 }).toFloat(),
+    body(['riskWeighting.minPercentage', 'riskWeighting.maxPercentage']).optional().isFloat({ min: 1, max: 100 }).toFloat(),
+    // A partial update is checked against the saved bound it leaves in place
+    body('riskWeighting')
+      .optional()
+      .custom(async (rw: { minPercentage?: number; maxPercentage?: number }) => {
+        if (rw?.minPercentage === undefined && rw?.maxPercentage === undefined) return true;
+        const saved =
+          rw.minPercentage === undefined || rw.maxPercentage === undefined
+            ? (await SamplingConfig.findOne({ key: 'default' }).select('riskWeighting').lean())?.riskWeighting
+            : undefined;
+        const min = Number(rw.minPercentage ?? saved?.minPercentage ?? 5);
+        const max = Number(rw.maxPercentage ?? saved?.maxPercentage ?? 50);
+        if (min > max) throw new Error('riskWeighting.minPercentage must not be greater than riskWeighting.maxPercentage');
+        return true;
+      }),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -533,6 +586,34 @@ router.put(
       if (body.autoRunActivateFrom === '' || body.autoRunActivateFrom === null || body.autoRunActivateFrom === undefined) {
         update.autoRunActivateFrom = null;
       }
+      // Retry policy and dialer settings are validated and saved through their own endpoints
+      delete update.retryPolicy;
+      delete update.dialerSettings;
+      // Partial stratification / coverage updates keep the other fields
+      const nested: Record<string, string[]> = {
+        stratification: ['mode', 'strataBy', 'allocation', 'minPerStratum'],
+        coverage: ['enabled', 'officerLevel', 'minValidationsPerOfficer', 'period'],
+        riskWeighting: [
+          'enabled',
+          'officerLevel',
+          'lookbackWeeks',
+          'minConnectedCalls',
+          'poorValidityPct',
+          'poorIdentityWrongPct',
+          'goodEmsScore',
+          'increaseFactor',
+          'decreaseFactor',
+          'minPercentage',
+          'maxPercentage',
+        ],
+      };
+      for (const [key, fields] of Object.entries(nested)) {
+        if (!body[key]) continue;
+        delete update[key];
+        for (const field of fields) {
+          if (body[key][field] !== undefined) update[`${key}.${field}`] = body[key][field];
+        }
+      }
 
       const config = await SamplingConfig.findOneAndUpdate(
         { key: 'default' },
@@ -547,6 +628,137 @@ router.put(
   }
 );
 
+// @route   POST /api/sampling/simulate
+// @desc    What-if: run the saved config and a candidate against Active activities (no writes) and compare
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/simulate',
+  requirePermission('config.sampling'),
+  [
+    body('activityCoolingDays').optional().isInt({ min: 0, max: 365 }).toInt(),
+    body('farmerCoolingDays').optional().isInt({ min: 0, max: 365 }).toInt(),
+    body('defaultPercentage').optional().isFloat({ min: 1, max: 100 }).toFloat(),
+    body('activityTypePercentages').optional().isObject(),
+    body('activityTypePercentages.*').optional().isFloat({ min: 1, max: 100 }).toFloat(),
+    body('eligibleActivityTypes').optional().isArray(),
+    body('eligibleActivityTypes.*').optional().isString(),
+    body('stratification').optional().isObject(),
+    body('stratification.mode').optional().isIn(['uniform', 'stratified']),
+    body('stratification.strataBy').optional().isIn(['location', 'preferredLanguage', 'territory']),
+    body('stratification.allocation').optional().isIn(['proportional', 'equal']),
+    body('stratification.minPerStratum').optional().isInt({ min: 0, max: 1000 }).toInt(),
+    body('forceRun').optional().isBoolean(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const {
+        activityCoolingDays,
+        farmerCoolingDays,
+        defaultPercentage,
+        activityTypePercentages,
+        eligibleActivityTypes,
+        stratification,
+        forceRun,
+      } = req.body as any;
+      const simulation = await simulateSampling(
+        (req as any).user,
+        { activityCoolingDays, farmerCoolingDays, defaultPercentage, activityTypePercentages, eligibleActivityTypes, stratification },
+        { forceRun: forceRun === true }
+      );
+
+      res.json({ success: true, data: simulation });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/sampling/retry-policy
+// @desc    Automatic callback policy for unsuccessful calls
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/retry-policy',
+  requirePermission('config.sampling'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const policy = await getRetryPolicy();
+      res.json({ success: true, data: { policy } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   PUT /api/sampling/retry-policy
+// @desc    Update the automatic callback policy
+// @access  Private (Team Lead, MIS Admin)
+router.put(
+  '/retry-policy',
+  requirePermission('config.sampling'),
+  [
+    body('enabled').optional().isBoolean(),
+    body('maxAttempts').optional().isInt({ min: 1, max: 3 }).withMessage('maxAttempts must be 1-3'),
+    body('gapHoursByStatus')
+      .optional()
+      .isObject()
+      .custom((gaps: Record<string, unknown>) =>
+        Object.entries(gaps).every(
+          ([status, hours]) =>
+            ['No Answer', 'Disconnected', 'Incoming N/A'].includes(status) &&
+            Number.isFinite(Number(hours)) &&
+            Number(hours) >= 0 &&
+            Number(hours) <= 720
+        )
+      )
+      .withMessage('Gap hours must be 0-720 for No Answer, Disconnected or Incoming N/A'),
+    body('callingWindows').optional().isArray({ max: 6 }),
+    body('callingWindows.*.startHour').isInt({ min: 0, max: 23 }),
+    body('callingWindows.*.endHour').isInt({ min: 1, max: 24 }),
+    body('timezone').optional().isString().notEmpty(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const { enabled, maxAttempts, gapHoursByStatus, callingWindows, timezone } = req.body;
+      const policy = await updateRetryPolicy(
+        {
+          ...(enabled !== undefined && { enabled }),
+          ...(maxAttempts !== undefined && { maxAttempts: Number(maxAttempts) }),
+          ...(gapHoursByStatus && {
+            gapHoursByStatus: Object.fromEntries(
+              Object.entries(gapHoursByStatus).map(([k, v]) => [k, Number(v)])
+            ) as any,
+          }),
+          ...(callingWindows && {
+            callingWindows: callingWindows.map((w: any) => ({ startHour: Number(w.startHour), endHour: Number(w.endHour) })),
+          }),
+          ...(timezone && { timezone }),
+        },
+        (req as any).user._id.toString()
+      );
+
+      res.json({ success: true, message: 'Retry policy updated', data: { policy } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // @route   POST /api/sampling/apply-eligibility
 // @desc    Apply eligibility rules: mark disabled activity types as not_eligible (does NOT auto-reactivate)
 // @access  Private (Team Lead, MIS Admin)
@@ -850,6 +1062,7 @@ router.post(
       if (count < autoRunThreshold) {
         return res.json({ success: true, ran: false, reason: 'below_threshold', unsampledCount: count, threshold: autoRunThreshold });
       }
+      await sweepStaleRuns(); // a run abandoned by a restart must not block scheduled runs forever
       const alreadyRunning = await SamplingRun.findOne({
         createdByUserId: authUserId,
         runType: 'first_sample',
@@ -877,6 +1090,20 @@ const runSamplingRunValidators = [
   body('includeResults').optional().isBoolean(),
 ];
 
+/** Counts returned by run and resume */
+const samplingOutcomeData = (outcome: SamplingRunOutcome) => ({
+  status: outcome.status,
+  processed: outcome.processed,
+  sampledActivities: outcome.sampledActivities,
+  inactiveActivities: outcome.inactiveActivities,
+  skipped: outcome.skipped,
+  tasksCreatedTotal: outcome.tasksCreatedTotal,
+  errorCount: outcome.errorCount,
+  errors: outcome.errors.slice(-10),
+  coverageTopUp: outcome.coverageTopUp,
+  ...(outcome.results.length ? { results: outcome.results } : {}),
+});
+
 async function runSamplingHandler(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
   try {
     const errors = validationResult(req);
@@ -968,13 +1195,11 @@ async function runSamplingHandler(req: Request, res: Response, next: NextFunctio
       const scheduledDate = new Date(baseDate);
       scheduledDate.setDate(baseDate.getDate() + taskDueInDays);
 
-      const shouldIncludeResults = includeResults === true;
-      const results: any[] = [];
-      let tasksCreatedTotal = 0;
-      let sampledActivities = 0;
-      let inactiveActivities = 0;
-      let skipped = 0;
-      const errorsList: string[] = [];
+      // Processing order is stored on the run so a cancelled or interrupted run can resume where it stopped
+      const plan =
+        fdaGroups && fdaGroups.length > 0
+          ? fdaGroups.map((g) => ({ officerId: g.officerId, target: g.target, activityIds: g.activities.map((a) => a.id) }))
+          : [{ officerId: null, target: null, activityIds: ids }];
 
       const runDoc = await SamplingRun.create({
         createdByUserId: authUserId ? new mongoose.Types.ObjectId(authUserId) : null,
@@ -997,163 +1222,39 @@ async function runSamplingHandler(req: Request, res: Response, next: NextFunctio
         errorCount: 0,
         lastProgressAt: new Date(),
         errorMessages: [],
+        seed: generateSamplingSeed(),
+        plan,
+        scheduledDate,
       });
 
       const runId = runDoc._id.toString();
-      const setFirstSampleRun = effectiveRunType === 'first_sample';
-
-      let processed = 0;
-
-      const processOne = async (id: string, opts: { maxFarmersToSample?: number; minFarmersToSample?: number }) => {
-        // Ad-hoc: do not delete existing tasks; sampleAndCreateTasks will exclude already-sampled farmers
-        return sampleAndCreateTasks(id, samplingPercentage, {
-          runByUserId: authUserId,
-          forceRun: !!forceRun,
-          scheduledDate,
-          setFirstSampleRun,
-          samplingRunId: runDoc._id,
-          samplingRunType: effectiveRunType,
-          ...opts,
-        });
-      };
-
-      if (fdaGroups && fdaGroups.length > 0) {
-        for (const group of fdaGroups) {
-          let createdForFDA = 0;
-          for (const act of group.activities) {
-            try {
-              const maxFarmers = Math.max(0, group.target - createdForFDA);
-              const minFarmers = createdForFDA === 0 ? 1 : undefined;
-              const r = await processOne(act.id, {
-                maxFarmersToSample: maxFarmers > 0 ? maxFarmers : undefined,
-                minFarmersToSample: minFarmers,
-              });
-              if (shouldIncludeResults) {
-                results.push({ activityId: act.id, ...r });
-              }
-              tasksCreatedTotal += r.tasksCreated || 0;
-              createdForFDA += r.tasksCreated || 0;
-              if (r.skipped) skipped++;
-              if (r.activityLifecycleStatus === 'sampled') sampledActivities++;
-              if (r.activityLifecycleStatus === 'inactive') inactiveActivities++;
-            } catch (e: any) {
-              const msg = `Failed activity ${act.id}: ${e?.message || 'Unknown error'}`;
-              errorsList.push(msg);
-              logger.error(msg, e);
-            } finally {
-              processed++;
-              if (processed % 5 === 0) {
-                await SamplingRun.updateOne(
-                  { _id: runDoc._id },
-                  {
-                    $set: {
-                      processed,
-                      tasksCreatedTotal,
-                      sampledActivities,
-                      inactiveActivities,
-                      skipped,
-                      errorCount: errorsList.length,
-                      lastProgressAt: new Date(),
-                      lastActivityId: act.id,
-                      ...(errorsList.length ? { errorMessages: errorsList.slice(-50) } : {}),
-                    },
-                  }
-                );
-              }
-            }
-          }
-        }
-      } else {
-        for (const id of ids) {
-          try {
-            const r = await processOne(id, {});
-            if (shouldIncludeResults) {
-              results.push({ activityId: id, ...r });
-            }
-            tasksCreatedTotal += r.tasksCreated || 0;
-            if (r.skipped) skipped++;
-            if (r.activityLifecycleStatus === 'sampled') sampledActivities++;
-            if (r.activityLifecycleStatus === 'inactive') inactiveActivities++;
-          } catch (e: any) {
-            const msg = `Failed activity ${id}: ${e?.message || 'Unknown error'}`;
-            errorsList.push(msg);
-            logger.error(msg, e);
-          } finally {
-            processed++;
-            if (processed % 5 === 0 || processed === ids.length) {
-              await SamplingRun.updateOne(
-                { _id: runDoc._id },
-                {
-                  $set: {
-                    processed,
-                    tasksCreatedTotal,
-                    sampledActivities,
-                    inactiveActivities,
-                    skipped,
-                    errorCount: errorsList.length,
-                    lastProgressAt: new Date(),
-                    lastActivityId: id,
-                    ...(errorsList.length ? { errorMessages: errorsList.slice(-50) } : {}),
-                  },
-                }
-              );
-            }
-          }
-        }
-      }
-
-      const finalStatus = errorsList.length > 0 && processed === 0 ? 'failed' : 'completed';
-      await SamplingRun.updateOne(
-        { _id: runDoc._id },
-        {
-          $set: {
-            status: finalStatus,
-            finishedAt: new Date(),
-            processed,
-            tasksCreatedTotal,
-            sampledActivities,
-            inactiveActivities,
-            skipped,
-            errorCount: errorsList.length,
-            lastProgressAt: new Date(),
-            errorMessages: errorsList.slice(-50),
-          },
-        }
-      );
-
-      if ((req.body as any)?.trigger === 'scheduled') {
-        await SamplingConfig.findOneAndUpdate(
-          { key: 'default' },
-          {
-            $set: {
-              lastAutoRunAt: new Date(),
-              lastAutoRunRunId: runId,
-              lastAutoRunMatched: matchedCount,
-              lastAutoRunProcessed: processed,
-              lastAutoRunTasksCreated: tasksCreatedTotal,
-            },
-          },
-          { upsert: true }
+      // Scheduled runs share one key so two instances answering the scheduler cannot both sample
+      const scheduled = (req.body as any)?.trigger === 'scheduled';
+      let outcome: SamplingRunOutcome;
+      try {
+        outcome = await runJobInline<SamplingRunOutcome>(
+          scheduled ? 'sampling_auto_run' : 'sampling_run',
+          { samplingRunId: runId, includeResults: includeResults === true },
+          { concurrencyKey: scheduled ? 'sampling_auto_run' : `sampling_run:${runId}`, createdByUserId: authUserId || null }
         );
+      } catch (error) {
+        if (scheduled && (error as AppError)?.statusCode === 409) {
+          await SamplingRun.deleteOne({ _id: runDoc._id, processed: 0 });
+          return res.json({ success: true, ran: false, reason: 'run_already_in_progress' });
+        }
+        throw error;
       }
 
       res.json({
         success: true,
-        message: 'Sampling run completed',
+        message: outcome.status === 'cancelled' ? 'Sampling run cancelled' : 'Sampling run completed',
         data: {
           runId,
           runType: effectiveRunType,
           dateFrom: resolvedDateFrom,
           dateTo: resolvedDateTo,
           matched: matchedCount,
-          processed,
-          sampledActivities,
-          inactiveActivities,
-          skipped,
-          tasksCreatedTotal,
-          errorCount: errorsList.length,
-          errors: errorsList.slice(-10),
-          ...(shouldIncludeResults ? { results } : {}),
+          ...samplingOutcomeData(outcome),
         },
       });
   } catch (error) {
@@ -1170,9 +1271,10 @@ router.get(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const authUserId = (req as any).user?._id;
-      const run = await SamplingRun.findOne({ createdByUserId: authUserId })
-        .sort({ startedAt: -1 })
-        .lean();
+      const latest = () => SamplingRun.findOne({ createdByUserId: authUserId }).sort({ startedAt: -1 }).select('-plan').lean();
+      let run = await latest();
+      // A run left running by a stopped server shows as interrupted/failed instead of spinning forever
+      if (run && (await settleStaleRun('sampling', run))) run = await latest();
       res.json({ success: true, data: { run: run || null } });
     } catch (error) {
       next(error);
@@ -1180,6 +1282,74 @@ router.get(
   }
 );
 
+const runActor = (req: Request) => ({
+  userId: (req as any).user?._id,
+  isAdmin: getEffectiveRole(req) === 'mis_admin',
+});
+
+// @route   POST /api/sampling/runs/:id/cancel
+// @desc    Cancel a sampling run. A running run stops after the activity in progress; an
+//          interrupted one is cancelled at once. Tasks already created are kept.
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/runs/:id/cancel',
+  requirePermission('config.sampling'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+      const status = await requestRunCancel('sampling', req.params.id, runActor(req));
+      res.json({
+        success: true,
+        message: status === 'cancelled' ? 'Sampling run cancelled' : 'Cancel requested; the run stops after the current activity',
+        data: { runId: req.params.id, status },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/sampling/runs/:id/resume
+// @desc    Continue a cancelled or interrupted sampling run from its last checkpoint (same plan,
+//          seed and task due date). Responds when the run finishes, like POST /run.
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/runs/:id/resume',
+  requirePermission('config.sampling'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+      await claimRunForResume('sampling', req.params.id, runActor(req));
+      const outcome = await runJobInline<SamplingRunOutcome>(
+        'sampling_run',
+        { samplingRunId: req.params.id },
+        { concurrencyKey: `sampling_run:${req.params.id}`, createdByUserId: (req as any).user?._id || null }
+      );
+      res.json({
+        success: true,
+        message: outcome.status === 'cancelled' ? 'Sampling run cancelled' : 'Sampling run resumed and completed',
+        data: { runId: req.params.id, ...samplingOutcomeData(outcome) },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // @route   GET /api/sampling/audit
 // @desc    Get sampling audit logs
 // @access  Private (MIS Admin)
@@ -1235,6 +1405,59 @@ router.get(
   }
 );
 
+// @route   GET /api/sampling/audit/:activityId/verify
+// @desc    Replay the activity's latest sampling from the audited seed and frame; compare with existing tasks
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/audit/:activityId/verify',
+  requirePermission('config.sampling'),
+  [param('activityId').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const verification = await verifySamplingAudit(req.params.activityId);
+      res.json({ success: true, data: verification });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/sampling/coverage
+// @desc    Completed validations per FDA/TM for the coverage period (?asOf=date, ?belowTargetOnly=true)
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/coverage',
+  requirePermission('config.sampling'),
+  [query('asOf').optional().isISO8601(), query('belowTargetOnly').optional().isBoolean().toBoolean()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const report = await getCoverageReport({
+        asOf: req.query.asOf ? new Date(String(req.query.asOf)) : undefined,
+        belowTargetOnly: (req.query.belowTargetOnly as unknown as boolean) === true,
+      });
+      res.json({ success: true, data: report });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // @route   POST /api/sampling/run
 // @desc    Run sampling: first_sample (auto date range, firstSampleRun=false only) or adhoc (user date range, firstSampleRun=true only). Creates Unassigned tasks; sets Activity to Sampled/Inactive.
 // @access  Private (Team Lead, MIS Admin)
@@ -0,0 +1,168 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/rbac.js';
+import { Activity } from '../models/Activity.js';
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  listSamplingPolicies,
+  getSamplingPolicyWithHistory,
+  createSamplingPolicy,
+  updateSamplingPolicy,
+  resolveSamplingPolicy,
+  policyPercentage,
+} from '../services/samplingPolicyService.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const validationFailed = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+  res.status(400).json({
+    success: false,
+    error: { message: 'Validation failed', errors: errors.array() },
+  });
+  return true;
+};
+
+const policyValidators = (isCreate: boolean) => [
+  (isCreate ? body('name').isString().trim().notEmpty() : body('name').optional().isString().trim().notEmpty()).isLength({
+    max: 100,
+  }),
+  body('description').optional().isString().isLength({ max: 500 }),
+  body('scope').optional().isObject(),
+  body(['scope.buNames', 'scope.zoneNames', 'scope.states', 'scope.activityTypes']).optional().isArray(),
+  body(['scope.buNames.*', 'scope.zoneNames.*', 'scope.states.*', 'scope.activityTypes.*']).optional().isString(),
+  body('priority').optional().isInt({ min: -1000, max: 1000 }).toInt(),
+  isCreate ? body('effectiveFrom').isISO8601() : body('effectiveFrom').optional().isISO8601(),
+  body('effectiveTo').optional({ nullable: true }).isISO8601(),
+  body('isActive').optional().isBoolean(),
+  isCreate
+    ? body('defaultPercentage').isFloat({ min: 1, max: 100 }).toFloat()
+    : body('defaultPercentage').optional().isFloat({ min: 1, max: 100 }).toFloat(),
+  body('activityTypePercentages').optional().isObject(),
+];
+
+const pickInput = (b: any) => ({
+  name: b.name,
+  description: b.description,
+  scope: b.scope,
+  priority: b.priority,
+  effectiveFrom: b.effectiveFrom,
+  effectiveTo: b.effectiveTo,
+  isActive: b.isActive,
+  defaultPercentage: b.defaultPercentage,
+  activityTypePercentages: b.activityTypePercentages,
+});
+
+// @route   GET /api/sampling-policies
+// @desc    List sampling policies (active first, by priority). ?isActive=true|false filters.
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/',
+  requirePermission('config.sampling'),
+  [query('isActive').optional().isBoolean().toBoolean()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const isActive = req.query.isActive === undefined ? undefined : (req.query.isActive as unknown as boolean);
+      res.json({ success: true, data: { policies: await listSamplingPolicies({ isActive }) } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/sampling-policies/resolve/:activityId
+// @desc    Which policy (if any) sizes this activity's sample, and the percentage it gives
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/resolve/:activityId',
+  requirePermission('config.sampling'),
+  [param('activityId').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const activity = await Activity.findById(req.params.activityId).select('type date buName zoneName state').lean();
+      if (!activity) {
+        const error: AppError = new Error('Activity not found');
+        error.statusCode = 404;
+        throw error;
+      }
+      const policy = await resolveSamplingPolicy(activity);
+      res.json({
+        success: true,
+        data: {
+          policy: policy ? { policyId: policy._id, name: policy.name, version: policy.version } : null,
+          percentage: policy ? policyPercentage(policy, activity.type) : null,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/sampling-policies/:id
+// @desc    Policy with its version history (newest first)
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/:id',
+  requirePermission('config.sampling'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      res.json({ success: true, data: await getSamplingPolicyWithHistory(req.params.id) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/sampling-policies
+// @desc    Create a policy (version 1)
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/',
+  requirePermission('config.sampling'),
+  policyValidators(true),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const policy = await createSamplingPolicy(pickInput(req.body), (req as AuthRequest).user);
+      res.status(201).json({ success: true, data: { policy } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   PUT /api/sampling-policies/:id
+// @desc    Edit a policy; each change stores a new version. Set isActive=false to retire it.
+//          `version` is the version being edited; 409 if the policy has been saved since.
+// @access  Private (Team Lead, MIS Admin)
+router.put(
+  '/:id',
+  requirePermission('config.sampling'),
+  [param('id').isMongoId(), body('version').isInt({ min: 1 }).toInt(), ...policyValidators(false)],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (validationFailed(req, res)) return;
+      const policy = await updateSamplingPolicy(
+        req.params.id,
+        pickInput(req.body),
+        (req as AuthRequest).user,
+        req.body.version
+      );
+      res.json({ success: true, data: { policy } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
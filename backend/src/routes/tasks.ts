@@ -1,11 +1,11 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { body, validationResult, query, param } from 'express-validator';
-import { CallTask, ICallLog, TaskStatus } from '../models/CallTask.js';
+import { CallTask, ICallLog, TaskStatus, CallStatus } from '../models/CallTask.js';
 import { User } from '../models/User.js';
 import { Farmer } from '../models/Farmer.js';
 import { AllocationRun } from '../models/AllocationRun.js';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
-import { requireRole, requirePermission } from '../middleware/rbac.js';
+import { requireRole, requirePermission, getEffectiveRole } from '../middleware/rbac.js';
 import { AppError } from '../middleware/errorHandler.js';
 import {
   getNextTaskForAgent,
@@ -19,12 +19,96 @@ import {
   callTaskNeedsAgentMongoFilter,
 } from '../services/taskService.js';
 import { getOutcomeFromStatus } from '../utils/outcomeHelper.js';
+import { getCallAttempts, callAttemptCountExpr } from '../utils/callAttempts.js';
 import { getAgentQueue } from '../services/adminService.js';
+import { getRetryPolicy, planAutoRetry, overrideAutoRetry } from '../services/retryService.js';
+import {
+  getTelephonyAdapter,
+  startCall,
+  findSessionForSubmission,
+  callOutcomeFromSession,
+  serializeCallSession,
+} from '../services/telephonyService.js';
+import {
+  getAgentPresence,
+  setAgentState,
+  markAgentOnCall,
+  markAgentWrapUp,
+  serializePresence,
+} from '../services/agentPresenceService.js';
+import { publishLiveEvent, publishTaskStatus } from '../services/liveEventsService.js';
+import {
+  ALLOCATION_STRATEGY_NAMES,
+  DEFAULT_ALLOCATION_STRATEGY,
+  AllocationStrategyName,
+  listAllocationStrategies,
+} from '../services/allocationStrategies.js';
+import {
+  isAllLanguages,
+  loadAllocationPool,
+  publishAllocationProgress,
+  type AllocationRunOutcome,
+} from '../services/allocationRunService.js';
+import { runJobInline } from '../services/jobQueue.js';
+import { claimRunForResume, requestRunCancel, settleStaleRun } from '../services/runControlService.js';
+import { recordDoNotCall, DO_NOT_CALL_KINDS } from '../services/doNotCallService.js';
+import type { DoNotCallKind } from '../models/DoNotCall.js';
 import logger from '../config/logger.js';
+import {
+  getRecordingStorage,
+  computeChecksumSha256,
+  buildRecordingKey,
+  ALLOWED_RECORDING_TYPES,
+  MAX_RECORDING_BYTES,
+} from '../services/recordingStorage.js';
 import mongoose from 'mongoose';
+import multer from 'multer';
 import * as XLSX from 'xlsx';
 
 const router = express.Router();
+const recordingUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_RECORDING_BYTES } });
+
+/** multer errors (size limit etc.) surface as 400s instead of falling through to the 500 handler */
+const handleRecordingUpload = (req: Request, res: Response, next: NextFunction) => {
+  recordingUpload.single('recording')(req, res, (err: any) => {
+    if (err) {
+      const error: AppError = new Error(
+        err.code === 'LIMIT_FILE_SIZE' ? `Recording exceeds the ${MAX_RECORDING_BYTES / (1024 * 1024)}MB limit` : err.message
+      );
+      error.statusCode = 400;
+      return next(error);
+    }
+    next();
+  });
+};
+
+/** Task as the agent workspace loads it (GET /active and progressive next) */
+const toAgentTaskPayload = (task: any) => {
+  const activity = task.activityId as any;
+  // State should come from Activity API v2; keep legacy fallback only if state missing.
+  const territory = activity?.territoryName || activity?.territory || 'Unknown';
+  const state = activity?.state || (territory !== 'Unknown' ? territory.replace(/\s+Zone$/, '').trim() : '');
+
+  const activityData = activity ? {
+    type: activity.type || 'Unknown',
+    date: activity.date || new Date(),
+    officerName: activity.officerName || 'Unknown',
+    tmName: activity.tmName || '',
+    location: activity.location || 'Unknown', // village
+    territory: territory,
+    state: state,
+    crops: Array.isArray(activity.crops) ? activity.crops : (activity.crops ? [activity.crops] : []),
+    products: Array.isArray(activity.products) ? activity.products : (activity.products ? [activity.products] : []),
+  } : null;
+
+  return {
+    taskId: task._id,
+    farmer: task.farmerId,
+    activity: activityData,
+    status: task.status,
+    scheduledDate: task.scheduledDate,
+  };
+};
 
 // All routes require authentication
 router.use(authenticate);
@@ -190,13 +274,23 @@ router.post(
 );
 
 // @route   POST /api/tasks/:id/mark-in-progress
-// @desc    Mark task as in_progress (called when agent selects Outbound Status)
+// @desc    Mark task as in_progress (called when agent selects Outbound Status).
+//          With { dial: true } the call is also placed through the telephony provider.
 // @access  Private (CC Agent only)
 router.post(
   '/:id/mark-in-progress',
   requirePermission('tasks.view.own'),
+  [body('dial').optional().isBoolean().withMessage('dial must be a boolean')],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
       const authReq = req as AuthRequest;
       const agentId = authReq.user._id.toString();
       const taskId = req.params.id;
@@ -227,8 +321,10 @@ router.post(
           notes: 'Outbound status selected by agent',
         });
         await task.save();
+        publishTaskStatus(task, 'sampled_in_queue', 'in_progress');
       } else if (['not_reachable', 'invalid_number', 'completed'].includes(task.status)) {
         // Follow-up attempt after a prior submission (History → Continue in dialer)
+        const previousStatus = task.status;
         task.status = 'in_progress';
         task.outcome = getOutcomeFromStatus('in_progress');
         task.interactionHistory.push({
@@ -237,9 +333,36 @@ router.post(
           notes: 'Follow-up attempt from agent workspace',
         });
         await task.save();
+        publishTaskStatus(task, previousStatus, 'in_progress');
       }
 
-      res.json({ success: true, data: { taskId: task._id.toString(), status: task.status, callStartedAt: (task as any).callStartedAt || null } });
+      // Availability for the team lead live view; never blocks the agent
+      await markAgentOnCall(agentId, task._id).catch((err) =>
+        logger.warn('Failed to update agent presence', { agentId, error: err?.message })
+      );
+
+      // Click-to-dial: status is already saved, so a provider failure still leaves the task in progress
+      let call = null;
+      if (req.body?.dial === true || req.body?.dial === 'true') {
+        const telephony = getTelephonyAdapter();
+        if (!telephony) {
+          const error: AppError = new Error('Telephony is not configured (TELEPHONY_PROVIDER)');
+          error.statusCode = 503;
+          throw error;
+        }
+        const farmer = await Farmer.findById(task.farmerId).select('mobileNumber').lean();
+        if (!farmer?.mobileNumber) {
+          const error: AppError = new Error('Farmer has no mobile number');
+          error.statusCode = 400;
+          throw error;
+        }
+        call = serializeCallSession(await startCall(task._id, authReq.user._id, farmer.mobileNumber, telephony));
+      }
+
+      res.json({
+        success: true,
+        data: { taskId: task._id.toString(), status: task.status, callStartedAt: (task as any).callStartedAt || null, call },
+      });
     } catch (error) {
       next(error);
     }
@@ -1132,6 +1255,7 @@ router.get(
         .populate('farmerId', 'name location preferredLanguage mobileNumber photoUrl')
         .populate('activityId', 'activityId type date officerName tmName location territory territoryName state zoneName buName crops products')
         .populate('assignedAgentId', 'name email employeeId')
+        .populate('callAttempts.agentId', 'name email employeeId')
         .lean();
 
       if (!task) {
@@ -1146,7 +1270,7 @@ router.get(
         throw error;
       }
 
-      res.json({ success: true, data: { task } });
+      res.json({ success: true, data: { task: { ...task, callAttempts: getCallAttempts(task as any) } } });
     } catch (error) {
       next(error);
     }
@@ -1218,6 +1342,7 @@ router.get(
               },
             },
             connectedCount: { $sum: { $cond: [{ $eq: ['$callLog.callStatus', 'Connected'] }, 1, 0] } },
+            callAttempts: { $sum: callAttemptCountExpr },
           },
         },
       ]);
@@ -1235,6 +1360,7 @@ router.get(
         connected: 0,
         connectedDurationSeconds: 0,
         connectedCount: 0,
+        callAttempts: 0, // every submission, including retries on the same task
       };
 
       const normOutbound = (s: string) => String(s || '').trim();
@@ -1271,11 +1397,14 @@ router.get(
             invalid: 0,
             noAnswer: 0,
             connected: 0,
+            callAttempts: 0,
           };
         }
 
         byPeriod[period].attempted += count;
         totals.attempted += count;
+        byPeriod[period].callAttempts += Number(row.callAttempts || 0);
+        totals.callAttempts += Number(row.callAttempts || 0);
 
         // Use outcome-based classification (consistent with stats endpoint)
         if (normalizedOutcome === 'in progress') {
@@ -1314,6 +1443,7 @@ router.get(
       const trend = Object.values(byPeriod).sort((a: any, b: any) => String(a.period).localeCompare(String(b.period)));
       const avgConnectedDurationSeconds =
         totals.connectedCount > 0 ? Math.round(totals.connectedDurationSeconds / totals.connectedCount) : 0;
+      const avgAttemptsPerTask = totals.attempted > 0 ? Number((totals.callAttempts / totals.attempted).toFixed(2)) : 0;
       
       // Calculate success rate
       const successRate = totals.attempted > 0 ? Math.round((totals.successful / totals.attempted) * 100) : 0;
@@ -1342,7 +1472,7 @@ router.get(
           bucket: bucketKey,
           dateFrom: from ? from.toISOString() : null,
           dateTo: to ? to.toISOString() : null,
-          totals: { ...totals, avgConnectedDurationSeconds, successRate, callsPerDay, daysInRange, totalTasksDue, efficiency },
+          totals: { ...totals, avgConnectedDurationSeconds, avgAttemptsPerTask, successRate, callsPerDay, daysInRange, totalTasksDue, efficiency },
           trend,
         },
       });
@@ -1376,21 +1506,6 @@ router.get(
 
       // Ensure activity data includes crops and products
       const activity = task.activityId as any;
-      // State should come from Activity API v2; keep legacy fallback only if state missing.
-      const territory = activity?.territoryName || activity?.territory || 'Unknown';
-      const state = activity?.state || (territory !== 'Unknown' ? territory.replace(/\s+Zone$/, '').trim() : '');
-      
-      const activityData = activity ? {
-        type: activity.type || 'Unknown',
-        date: activity.date || new Date(),
-        officerName: activity.officerName || 'Unknown',
-        tmName: activity.tmName || '',
-        location: activity.location || 'Unknown', // village
-        territory: territory,
-        state: state,
-        crops: Array.isArray(activity.crops) ? activity.crops : (activity.crops ? [activity.crops] : []),
-        products: Array.isArray(activity.products) ? activity.products : (activity.products ? [activity.products] : []),
-      } : null;
 
       // Debug logging
       logger.info('Activity data in API response', {
@@ -1403,13 +1518,52 @@ router.get(
 
       res.json({
         success: true,
-        data: {
-          taskId: task._id,
-          farmer: task.farmerId,
-          activity: activityData,
-          status: task.status,
-          scheduledDate: task.scheduledDate,
-        },
+        data: toAgentTaskPayload(task),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/tasks/progressive/next
+// @desc    Progressive mode: serve the agent's next due task (getNextTaskForAgent) once wrap-up is over
+// @access  Private (CC Agent only)
+router.post(
+  '/progressive/next',
+  requirePermission('tasks.view.own'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authReq = req as AuthRequest;
+      const agentId = authReq.user._id.toString();
+
+      const presence = await getAgentPresence(agentId);
+      if (presence.mode !== 'progressive') {
+        const error: AppError = new Error('Progressive mode is off');
+        error.statusCode = 409;
+        throw error;
+      }
+      if (presence.state === 'break') {
+        return res.json({ success: true, data: { task: null, reason: 'break', presence } });
+      }
+      if (presence.state === 'wrap_up') {
+        return res.json({ success: true, data: { task: null, reason: 'wrap_up', presence } });
+      }
+
+      const task = await getNextTaskForAgent(agentId);
+      if (!task) {
+        await setAgentState(agentId, 'available');
+        return res.json({
+          success: true,
+          data: { task: null, reason: 'queue_empty', presence: await getAgentPresence(agentId) },
+        });
+      }
+
+      await setAgentState(agentId, 'available', { taskId: task._id });
+
+      res.json({
+        success: true,
+        data: { task: toAgentTaskPayload(task), reason: null, presence: await getAgentPresence(agentId) },
       });
     } catch (error) {
       next(error);
@@ -2281,8 +2435,20 @@ router.get(
   }
 );
 
+// @route   GET /api/tasks/allocation-strategies
+// @desc    Strategies the team lead can choose for allocate / reallocate
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/allocation-strategies',
+  requirePermission('tasks.reassign'),
+  async (_req: Request, res: Response) => {
+    res.json({ success: true, data: { strategies: listAllocationStrategies() } });
+  }
+);
+
 // @route   POST /api/tasks/allocate
-// @desc    Allocate unassigned tasks for a language to capable agents (round-robin); sets status to sampled_in_queue
+// @desc    Allocate unassigned tasks for a language to capable on-shift agents using the chosen
+//          strategy (default: remaining capacity); sets status to sampled_in_queue
 // @access  Private (Team Lead, MIS Admin)
 router.post(
   '/allocate',
@@ -2295,6 +2461,7 @@ router.post(
     body('dateTo').optional().isISO8601().toDate(),
     body('bu').optional().isString(),
     body('state').optional().isString(),
+    body('strategy').optional().isIn(ALLOCATION_STRATEGY_NAMES),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -2310,42 +2477,28 @@ router.post(
       const teamLeadId = authReq.user._id.toString();
       const authUserId = authReq.user._id.toString();
       const { language, count, dateFrom, dateTo, bu, state } = req.body as any;
+      const strategy: AllocationStrategyName = req.body.strategy || DEFAULT_ALLOCATION_STRATEGY;
 
       const normalize = (s: any) => String(s ?? '').trim().toLowerCase();
       const desired = normalize(language);
-      const isAllLanguages = desired === 'all' || desired === '__all__';
+      const allLanguages = isAllLanguages(language);
       const serverCap = 5000;
       const requestedCountRaw = typeof count === 'number' ? count : Number(count);
       const requestedCount = Number.isFinite(requestedCountRaw) ? requestedCountRaw : 0; // 0 means "all"
 
       // Find active agents under this team lead (then do robust matching in code)
-      const teamAgents = await User.find({
-        teamLeadId: new mongoose.Types.ObjectId(teamLeadId),
-        role: 'cc_agent',
-        isActive: true,
-      })
-        .select('_id name email languageCapabilities')
-        .sort({ name: 1 })
-        .lean();
-
-      const agentsByLanguage = new Map<string, any[]>();
-      for (const a of teamAgents as any[]) {
-        const caps: string[] = Array.isArray(a.languageCapabilities) ? a.languageCapabilities : [];
-        for (const cap of caps) {
-          const key = normalize(cap);
-          if (!key) continue;
-          const list = agentsByLanguage.get(key) || [];
-          list.push(a);
-          agentsByLanguage.set(key, list);
-        }
-      }
+      const pool = await loadAllocationPool(teamLeadId);
+      const { teamAgents, onShiftAgents, availability, agentsByLanguage } = pool;
+      const offShiftAgents = teamAgents
+        .filter((a: any) => !availability.get(a._id.toString())?.onShift)
+        .map((a: any) => ({ agentId: a._id.toString(), name: a.name, reason: availability.get(a._id.toString())?.offReason }));
 
-      const capableAgents = isAllLanguages ? teamAgents : (agentsByLanguage.get(desired) || []);
+      const capableAgents = allLanguages ? onShiftAgents : (agentsByLanguage.get(desired) || []);
       if (!capableAgents.length) {
         return res.status(400).json({
           success: false,
           error: {
-            message: `No active agents found under your team with language capability "${language}"`,
+            message: `No on-shift agents found under your team with language capability "${language}"`,
             details: {
               teamAgentsFound: teamAgents.length,
               teamAgents: teamAgents.map((a: any) => ({
@@ -2353,6 +2506,7 @@ router.post(
                 email: a.email,
                 languageCapabilities: Array.isArray(a.languageCapabilities) ? a.languageCapabilities : [],
               })),
+              offShiftAgents,
             },
           },
         });
@@ -2402,34 +2556,34 @@ router.post(
 
       const taskRows = await CallTask.aggregate([
         ...basePipeline,
-        ...(isAllLanguages ? [] : [{ $match: { 'farmer.preferredLanguage': language } }]),
+        ...(allLanguages ? [] : [{ $match: { 'farmer.preferredLanguage': language } }]),
         ...(bu || state ? [{ $match: activityFilter }] : []),
         { $sort: { scheduledDate: 1, createdAt: 1 } },
         { $limit: serverCap },
-        { $project: { _id: 1, farmerLanguage: '$farmer.preferredLanguage' } },
+        { $project: { _id: 1, farmerLanguage: '$farmer.preferredLanguage', territory: '$farmer.territory' } },
       ]);
 
       if (!taskRows.length) {
         return res.json({
           success: true,
-          message: isAllLanguages ? 'No unassigned tasks found' : 'No unassigned tasks found for this language',
+          message: allLanguages ? 'No unassigned tasks found' : 'No unassigned tasks found for this language',
           data: { requested: requestedCount, allocated: 0 },
         });
       }
 
       // If ALL: pick tasks in a fair way across languages (round-robin by language) up to requestedCount
       // If requestedCount is 0 => allocate all tasks (bounded by serverCap).
-      let selectedTasks: Array<{ _id: any; farmerLanguage: string }> = [];
+      let selectedTasks: Array<{ _id: any; farmerLanguage: string; territory?: string }> = [];
 
-      if (!isAllLanguages) {
-        selectedTasks = taskRows.map((r: any) => ({ _id: r._id, farmerLanguage: r.farmerLanguage }));
+      if (!allLanguages) {
+        selectedTasks = taskRows.map((r: any) => ({ _id: r._id, farmerLanguage: r.farmerLanguage, territory: r.territory }));
         if (requestedCount > 0) selectedTasks = selectedTasks.slice(0, requestedCount);
       } else {
-        const buckets = new Map<string, Array<{ _id: any; farmerLanguage: string }>>();
+        const buckets = new Map<string, Array<{ _id: any; farmerLanguage: string; territory?: string }>>();
         for (const r of taskRows as any[]) {
           const langKey = normalize(r.farmerLanguage) || 'unknown';
           const arr = buckets.get(langKey) || [];
-          arr.push({ _id: r._id, farmerLanguage: r.farmerLanguage });
+          arr.push({ _id: r._id, farmerLanguage: r.farmerLanguage, territory: r.territory });
           buckets.set(langKey, arr);
         }
 
@@ -2459,16 +2613,20 @@ router.post(
         });
       }
 
-      // Create allocation run tracker (so UI can poll progress)
+      // Create allocation run tracker (so UI can poll progress); the plan lets it resume after a cancel or restart
       const runDoc = await AllocationRun.create({
         createdByUserId: authUserId ? new mongoose.Types.ObjectId(authUserId) : null,
         status: 'running',
+        kind: 'allocate',
         startedAt: new Date(),
         filters: {
           language: language,
           count: requestedCount || null,
           dateFrom: dateFrom ? new Date(dateFrom) : null,
           dateTo: dateTo ? new Date(dateTo) : null,
+          strategy,
+          bu: bu ? String(bu) : null,
+          state: state ? String(state) : null,
         },
         total: selectedTasks.length,
         processed: 0,
@@ -2478,140 +2636,33 @@ router.post(
         errorCount: 0,
         errorMessages: [],
         lastProgressAt: new Date(),
+        plan: selectedTasks.map((t) => ({ taskId: t._id, farmerLanguage: t.farmerLanguage, territory: t.territory })),
       });
+      void publishAllocationProgress(runDoc._id, 'allocate');
 
-      // Round-robin assignment across capable agents
-      const STATUS_QUEUED: TaskStatus = 'sampled_in_queue';
-
-      const languageAgentCursor = new Map<string, number>();
-      const skippedByLanguage: Record<string, number> = {};
-      const errorMessages: string[] = [];
-      let processed = 0;
-      let allocated = 0;
-      let skipped = 0;
-
-      const BATCH_SIZE = 200;
-      let batchOps: any[] = [];
-
-      const flushBatch = async () => {
-        if (!batchOps.length) return;
-        try {
-          const r = await CallTask.bulkWrite(batchOps as any, { ordered: false });
-          allocated += r.modifiedCount || 0;
-        } catch (e: any) {
-          errorMessages.push(e?.message || 'Bulk write failed');
-        } finally {
-          batchOps = [];
-        }
-      };
-
-      for (let idx = 0; idx < selectedTasks.length; idx++) {
-        const t = selectedTasks[idx];
-          const taskId = t._id;
-          const farmerLangKey = normalize(t.farmerLanguage) || 'unknown';
-
-          const langAgents = isAllLanguages ? (agentsByLanguage.get(farmerLangKey) || []) : capableAgents;
-          if (!langAgents.length) {
-            skippedByLanguage[farmerLangKey] = (skippedByLanguage[farmerLangKey] || 0) + 1;
-            skipped++;
-            processed++;
-            // Persist progress occasionally even if we're only skipping
-            if (processed % 50 === 0) {
-              await AllocationRun.updateOne(
-                { _id: runDoc._id },
-                {
-                  $set: {
-                    processed,
-                    allocated,
-                    skipped,
-                    skippedByLanguage,
-                    errorCount: errorMessages.length,
-                    errorMessages: errorMessages.slice(-50),
-                    lastProgressAt: new Date(),
-                  },
-                }
-              );
-            }
-            continue;
-          }
-
-          const cursor = languageAgentCursor.get(farmerLangKey) || 0;
-          const agent = langAgents[cursor % langAgents.length];
-          languageAgentCursor.set(farmerLangKey, cursor + 1);
-
-          batchOps.push({
-          updateOne: {
-            filter: { _id: taskId, ...callTaskNeedsAgentMongoFilter() },
-            update: {
-              $set: {
-                assignedAgentId: agent._id,
-                status: STATUS_QUEUED,
-              },
-              $push: {
-                interactionHistory: {
-                  timestamp: new Date(),
-                  status: STATUS_QUEUED,
-                  notes: `Allocated by Team Lead (auto) to ${agent.email}`,
-                },
-              },
-            },
-          },
-        });
-        processed++;
-
-        if (batchOps.length >= BATCH_SIZE) {
-          await flushBatch();
-        }
-
-        // Persist progress every ~50 processed tasks
-        if (processed % 50 === 0) {
-          await AllocationRun.updateOne(
-            { _id: runDoc._id },
-            {
-              $set: {
-                processed,
-                allocated,
-                skipped,
-                skippedByLanguage,
-                errorCount: errorMessages.length,
-                errorMessages: errorMessages.slice(-50),
-                lastProgressAt: new Date(),
-              },
-            }
-          );
-        }
-      }
-
-      await flushBatch();
-
-      await AllocationRun.updateOne(
-        { _id: runDoc._id },
-        {
-          $set: {
-            status: 'completed',
-            finishedAt: new Date(),
-            processed,
-            allocated,
-            skipped,
-            skippedByLanguage,
-            errorCount: errorMessages.length,
-            errorMessages: errorMessages.slice(-50),
-            lastProgressAt: new Date(),
-          },
-        }
+      // The chosen strategy picks among capable agents that still have daily capacity
+      const outcome = await runJobInline<AllocationRunOutcome>(
+        'allocation_run',
+        { allocationRunId: runDoc._id.toString() },
+        { concurrencyKey: `allocation_run:${runDoc._id.toString()}`, createdByUserId: runDoc.createdByUserId }
       );
 
       res.json({
         success: true,
-        message: 'Tasks allocated successfully',
+        message: outcome.status === 'cancelled' ? 'Allocation cancelled' : 'Tasks allocated successfully',
         data: {
           runId: runDoc._id.toString(),
+          status: outcome.status,
           language,
+          strategy,
           requested: requestedCount,
           matchedTasks: selectedTasks.length,
-          allocated,
-          agentsUsed: capableAgents.map((a: any) => ({ agentId: a._id.toString(), name: a.name, email: a.email })),
-          skippedByLanguage,
+          allocated: outcome.allocated,
+          agentsUsed: outcome.agentsUsed,
+          offShiftAgents,
+          skippedByLanguage: outcome.skippedByLanguage,
+          skippedDoNotCall: outcome.skippedDoNotCall,
+          skippedForCapacity: outcome.skippedForCapacity,
         },
       });
     } catch (error) {
@@ -2640,13 +2691,14 @@ router.post(
 );
 
 // @route   POST /api/tasks/reallocate
-// @desc    Reallocate sampled-in-queue tasks from one agent to other agents (round-robin by language)
+// @desc    Reallocate sampled-in-queue tasks from one agent to other on-shift agents (by language and strategy)
 // @access  Private (Team Lead, MIS Admin)
 router.post(
   '/reallocate',
   requirePermission('tasks.reassign'),
   [
     body('agentId').isString().notEmpty().withMessage('Agent ID is required'),
+    body('strategy').optional().isIn(ALLOCATION_STRATEGY_NAMES),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -2662,6 +2714,7 @@ router.post(
       const teamLeadId = authReq.user._id.toString();
       const authUserId = authReq.user._id.toString();
       const { agentId } = req.body;
+      const strategy: AllocationStrategyName = req.body.strategy || DEFAULT_ALLOCATION_STRATEGY;
 
       const normalize = (s: any) => String(s ?? '').trim().toLowerCase();
 
@@ -2681,36 +2734,20 @@ router.post(
       }
 
       // Find all active agents under this team lead (excluding the source agent)
-      const teamAgents = await User.find({
-        teamLeadId: new mongoose.Types.ObjectId(teamLeadId),
-        role: 'cc_agent',
-        isActive: true,
-        _id: { $ne: new mongoose.Types.ObjectId(agentId) }, // Exclude source agent
-      })
-        .select('_id name email languageCapabilities')
-        .sort({ name: 1 })
-        .lean();
+      const pool = await loadAllocationPool(teamLeadId, agentId);
+      const { teamAgents, onShiftAgents } = pool;
 
-      if (!teamAgents.length) {
+      if (!onShiftAgents.length) {
         return res.status(400).json({
           success: false,
-          error: { message: 'No other active agents available for reallocation' },
+          error: {
+            message: teamAgents.length
+              ? 'No other agents are on shift today to take these tasks'
+              : 'No other active agents available for reallocation',
+          },
         });
       }
 
-      // Build agents by language map
-      const agentsByLanguage = new Map<string, any[]>();
-      for (const a of teamAgents as any[]) {
-        const caps: string[] = Array.isArray(a.languageCapabilities) ? a.languageCapabilities : [];
-        for (const cap of caps) {
-          const key = normalize(cap);
-          if (!key) continue;
-          const list = agentsByLanguage.get(key) || [];
-          list.push(a);
-          agentsByLanguage.set(key, list);
-        }
-      }
-
       // Find all sampled-in-queue tasks assigned to the source agent
       const tasksToReallocate = await CallTask.aggregate([
         {
@@ -2732,6 +2769,7 @@ router.post(
           $project: {
             _id: 1,
             farmerLanguage: '$farmer.preferredLanguage',
+            territory: '$farmer.territory',
           },
         },
       ]);
@@ -2748,10 +2786,12 @@ router.post(
       const runDoc = await AllocationRun.create({
         createdByUserId: authUserId ? new mongoose.Types.ObjectId(authUserId) : null,
         status: 'running',
+        kind: 'reallocate',
         startedAt: new Date(),
         filters: {
           reallocateFromAgentId: agentId,
           reallocateFromAgentName: (sourceAgent as any).name,
+          strategy,
         },
         total: tasksToReallocate.length,
         processed: 0,
@@ -2761,133 +2801,29 @@ router.post(
         errorCount: 0,
         errorMessages: [],
         lastProgressAt: new Date(),
+        plan: tasksToReallocate.map((t: any) => ({ taskId: t._id, farmerLanguage: t.farmerLanguage, territory: t.territory })),
       });
+      void publishAllocationProgress(runDoc._id, 'reallocate');
 
-      // Round-robin assignment across capable agents (same logic as allocation)
-      const STATUS_QUEUED: TaskStatus = 'sampled_in_queue';
-      const languageAgentCursor = new Map<string, number>();
-      const skippedByLanguage: Record<string, number> = {};
-      const errorMessages: string[] = [];
-      let processed = 0;
-      let reallocated = 0;
-      let skipped = 0;
-
-      const BATCH_SIZE = 200;
-      let batchOps: any[] = [];
-
-      const flushBatch = async () => {
-        if (!batchOps.length) return;
-        try {
-          const r = await CallTask.bulkWrite(batchOps as any, { ordered: false });
-          reallocated += r.modifiedCount || 0;
-        } catch (e: any) {
-          errorMessages.push(e?.message || 'Bulk write failed');
-        } finally {
-          batchOps = [];
-        }
-      };
-
-      for (let idx = 0; idx < tasksToReallocate.length; idx++) {
-        const t = tasksToReallocate[idx];
-        const taskId = t._id;
-        const farmerLangKey = normalize(t.farmerLanguage) || 'unknown';
-
-        const langAgents = agentsByLanguage.get(farmerLangKey) || [];
-        if (!langAgents.length) {
-          skippedByLanguage[farmerLangKey] = (skippedByLanguage[farmerLangKey] || 0) + 1;
-          skipped++;
-          processed++;
-          if (processed % 50 === 0) {
-            await AllocationRun.updateOne(
-              { _id: runDoc._id },
-              {
-                $set: {
-                  processed,
-                  allocated: reallocated,
-                  skipped,
-                  skippedByLanguage,
-                  errorCount: errorMessages.length,
-                  errorMessages: errorMessages.slice(-50),
-                  lastProgressAt: new Date(),
-                },
-              }
-            );
-          }
-          continue;
-        }
-
-        const cursor = languageAgentCursor.get(farmerLangKey) || 0;
-        const agent = langAgents[cursor % langAgents.length];
-        languageAgentCursor.set(farmerLangKey, cursor + 1);
-
-        batchOps.push({
-          updateOne: {
-            filter: { _id: taskId, assignedAgentId: new mongoose.Types.ObjectId(agentId), status: STATUS_QUEUED },
-            update: {
-              $set: {
-                assignedAgentId: agent._id,
-              },
-              $push: {
-                interactionHistory: {
-                  timestamp: new Date(),
-                  status: STATUS_QUEUED,
-                  notes: `Reallocated from ${(sourceAgent as any).name} (${(sourceAgent as any).email}) to ${agent.name} (${agent.email}) by Team Lead`,
-                },
-              },
-            },
-          },
-        });
-        processed++;
-
-        if (batchOps.length >= BATCH_SIZE) {
-          await flushBatch();
-        }
-
-        if (processed % 50 === 0) {
-          await AllocationRun.updateOne(
-            { _id: runDoc._id },
-            {
-              $set: {
-                processed,
-                allocated: reallocated,
-                skipped,
-                skippedByLanguage,
-                errorCount: errorMessages.length,
-                errorMessages: errorMessages.slice(-50),
-                lastProgressAt: new Date(),
-              },
-            }
-          );
-        }
-      }
-
-      await flushBatch();
-
-      await AllocationRun.updateOne(
-        { _id: runDoc._id },
-        {
-          $set: {
-            status: 'completed',
-            finishedAt: new Date(),
-            processed,
-            allocated: reallocated,
-            skipped,
-            skippedByLanguage,
-            errorCount: errorMessages.length,
-            errorMessages: errorMessages.slice(-50),
-            lastProgressAt: new Date(),
-          },
-        }
+      // Same strategy-based selection as allocation
+      const outcome = await runJobInline<AllocationRunOutcome>(
+        'allocation_run',
+        { allocationRunId: runDoc._id.toString() },
+        { concurrencyKey: `allocation_run:${runDoc._id.toString()}`, createdByUserId: runDoc.createdByUserId }
       );
 
       res.json({
         success: true,
-        message: 'Tasks reallocated successfully',
+        message: outcome.status === 'cancelled' ? 'Reallocation cancelled' : 'Tasks reallocated successfully',
         data: {
           runId: runDoc._id.toString(),
-          reallocated,
-          skipped,
-          skippedByLanguage,
+          status: outcome.status,
+          strategy,
+          reallocated: outcome.allocated,
+          skipped: outcome.skipped,
+          skippedByLanguage: outcome.skippedByLanguage,
+          skippedDoNotCall: outcome.skippedDoNotCall,
+          skippedForCapacity: outcome.skippedForCapacity,
           totalTasks: tasksToReallocate.length,
         },
       });
@@ -2926,7 +2862,9 @@ router.get(
     try {
       const authReq = req as AuthRequest;
       const userId = authReq.user._id;
-      const run = await AllocationRun.findOne({ createdByUserId: userId }).sort({ startedAt: -1 }).lean();
+      const latest = () => AllocationRun.findOne({ createdByUserId: userId }).sort({ startedAt: -1 }).select('-plan').lean();
+      let run = await latest();
+      if (run && (await settleStaleRun('allocation', run))) run = await latest();
       res.json({ success: true, data: { run: run || null } });
     } catch (error) {
       next(error);
@@ -2934,6 +2872,94 @@ router.get(
   }
 );
 
+// @route   POST /api/tasks/allocate-runs/:id/cancel
+// @desc    Cancel an allocation or reallocation run; tasks already placed stay with their agents
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/allocate-runs/:id/cancel',
+  requirePermission('tasks.reassign'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+      const authReq = req as AuthRequest;
+      const status = await requestRunCancel('allocation', req.params.id, {
+        userId: authReq.user._id,
+        isAdmin: getEffectiveRole(req) === 'mis_admin',
+      });
+      if (status === 'cancelled') {
+        const run = await AllocationRun.findById(req.params.id).select('kind').lean();
+        void publishAllocationProgress(new mongoose.Types.ObjectId(req.params.id), run?.kind || 'allocate');
+      }
+      res.json({
+        success: true,
+        message: status === 'cancelled' ? 'Allocation run cancelled' : 'Cancel requested; the run stops at its next checkpoint',
+        data: { runId: req.params.id, status },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/tasks/allocate-runs/:id/resume
+// @desc    Continue a cancelled or interrupted allocation run with the agents on shift now
+// @access  Private (Team Lead, MIS Admin)
+router.post(
+  '/allocate-runs/:id/resume',
+  requirePermission('tasks.reassign'),
+  [param('id').isMongoId()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+      const authReq = req as AuthRequest;
+      const actor = { userId: authReq.user._id, isAdmin: getEffectiveRole(req) === 'mis_admin' };
+      const run = await AllocationRun.findById(req.params.id).select('kind filters createdByUserId').lean();
+      if (!run?.createdByUserId) {
+        const error: AppError = new Error('Allocation run not found');
+        error.statusCode = 404;
+        throw error;
+      }
+      // Check before claiming so a run with nobody to take its tasks is not flipped back to running
+      const pool = await loadAllocationPool(
+        run.createdByUserId,
+        run.kind === 'reallocate' ? run.filters?.reallocateFromAgentId : null
+      );
+      if (!pool.onShiftAgents.length) {
+        const error: AppError = new Error('No agents are on shift to take the remaining tasks');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      await claimRunForResume('allocation', req.params.id, actor);
+      const outcome = await runJobInline<AllocationRunOutcome>(
+        'allocation_run',
+        { allocationRunId: req.params.id },
+        { concurrencyKey: `allocation_run:${req.params.id}`, createdByUserId: authReq.user._id }
+      );
+      res.json({
+        success: true,
+        message: outcome.status === 'cancelled' ? 'Allocation run cancelled' : 'Allocation run resumed and completed',
+        data: { runId: req.params.id, ...outcome },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // @route   GET /api/tasks/:id
 // @desc    Get task by ID
 // @access  Private
@@ -3035,6 +3061,10 @@ router.post(
     body('farmerComments').optional().isString(),
     body('sentiment').optional().isIn(['Positive', 'Negative', 'Neutral', 'N/A']).withMessage('Invalid sentiment value'),
     body('activityQuality').optional({ nullable: true }).isInt({ min: 1, max: 5 }).withMessage('activityQuality must be 1-5'),
+    body('doNotCall').optional({ nullable: true }).isObject().withMessage('doNotCall must be an object'),
+    body('doNotCall.kind').optional().isIn(DO_NOT_CALL_KINDS).withMessage('Invalid do-not-call type'),
+    body('doNotCall.reason').optional().isString().isLength({ max: 500 }),
+    body('doNotCall.expiresInDays').optional({ nullable: true }).isInt({ min: 1, max: 3650 }).withMessage('expiresInDays must be 1-3650'),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -3049,6 +3079,7 @@ router.post(
       const authReq = req as AuthRequest;
       const taskId = req.params.id;
       const agentId = authReq.user._id.toString();
+      const doNotCallRequest = req.body.doNotCall as { kind?: DoNotCallKind; reason?: string; expiresInDays?: number | null } | null | undefined;
 
       const task = await CallTask.findById(taskId);
       if (!task) {
@@ -3064,11 +3095,16 @@ router.post(
         throw error;
       }
 
+      // A telephony call placed for this attempt overrides the agent's own status and duration
+      const callSession = await findSessionForSubmission(taskId, agentId);
+      const callOutcome = callSession ? callOutcomeFromSession(callSession) : null;
+      const callStatus: CallStatus = callOutcome?.callStatus ?? req.body.callStatus;
+
       // Create call log
       const callLog: ICallLog = {
         timestamp: new Date(),
-        callStatus: req.body.callStatus,
-        callDurationSeconds: Number(req.body.callDurationSeconds || 0),
+        callStatus,
+        callDurationSeconds: callOutcome ? callOutcome.callDurationSeconds : Number(req.body.callDurationSeconds || 0),
         didAttend: req.body.didAttend ?? null,
         didRecall: req.body.didRecall ?? null,
         cropsDiscussed: req.body.cropsDiscussed || [],
@@ -3081,19 +3117,54 @@ router.post(
         farmerComments: req.body.farmerComments || '',
         sentiment: req.body.sentiment || 'N/A',
         ...(req.body.activityQuality != null && { activityQuality: Number(req.body.activityQuality) }),
+        // Recordings belong to an attempt; a new attempt starts without one
+        recording: null,
+        callSessionId: callSession?._id ?? null,
       };
 
-      // Update task with call log
-      task.callLog = callLog;
-
       // Determine final status based on call status
       let finalStatus: TaskStatus = 'completed';
-      if (['Incoming N/A', 'No Answer', 'Disconnected', 'Not Reachable'].includes(req.body.callStatus)) {
+      if (['Incoming N/A', 'No Answer', 'Disconnected', 'Not Reachable'].includes(callStatus)) {
         finalStatus = 'not_reachable';
-      } else if (['Invalid', 'Invalid Number'].includes(req.body.callStatus)) {
+      } else if (['Invalid', 'Invalid Number'].includes(callStatus)) {
         finalStatus = 'invalid_number';
       }
 
+      // Append the attempt; a legacy callLog (submitted before attempts were tracked) becomes attempt 1
+      const previousAttempts = getCallAttempts(task);
+      task.callAttempts = [
+        ...previousAttempts,
+        {
+          ...callLog,
+          attemptNumber: previousAttempts.length + 1,
+          agentId: authReq.user._id,
+          resultingStatus: finalStatus,
+        },
+      ];
+
+      // callLog always mirrors the latest attempt
+      task.callLog = callLog;
+
+      // The farmer asked not to be called (or did not consent): register it before anything is saved, so a bad
+      // reason fails the whole submission rather than leaving the farmer callable
+      if (doNotCallRequest) {
+        await recordDoNotCall(task.farmerId, {
+          kind: doNotCallRequest.kind,
+          reason: doNotCallRequest.reason || '',
+          source: 'agent',
+          expiresAt: doNotCallRequest.expiresInDays
+            ? new Date(Date.now() + Number(doNotCallRequest.expiresInDays) * 24 * 60 * 60 * 1000)
+            : null,
+          recordedByUserId: authReq.user._id,
+          taskId: task._id,
+        });
+      }
+
+      // Retry policy: schedule an automatic callback for No Answer / Disconnected / Incoming N/A (never for a do-not-call farmer)
+      if (task.autoRetry?.state !== 'created') {
+        task.autoRetry = doNotCallRequest ? null : planAutoRetry(task, callLog.callStatus, await getRetryPolicy());
+      }
+
       // Calculate and set outcome based on final status
       const finalOutcome = getOutcomeFromStatus(finalStatus);
 
@@ -3105,17 +3176,46 @@ router.post(
         status: previousStatus,
         notes: 'Call interaction submitted',
       });
+      if (doNotCallRequest) {
+        task.interactionHistory.push({
+          timestamp: new Date(),
+          status: previousStatus,
+          notes: `Farmer added to do-not-call registry (${doNotCallRequest.kind || 'do_not_call'})`,
+        });
+      }
 
       task.status = finalStatus;
       task.outcome = finalOutcome;
       await task.save();
+      publishTaskStatus(task, previousStatus, finalStatus);
+      publishLiveEvent({
+        type: 'task.submitted',
+        taskId: task._id.toString(),
+        agentId: agentId,
+        callStatus: callLog.callStatus,
+        status: finalStatus,
+      });
+
+      if (callSession) {
+        callSession.submittedAt = new Date();
+        await callSession.save();
+        if (callStatus !== req.body.callStatus) {
+          logger.info(`Task ${taskId}: call status ${callStatus} from telephony (agent selected ${req.body.callStatus})`);
+        }
+      }
+
+      // Wrap-up before the next call (progressive mode waits for it to end)
+      const presence = await markAgentWrapUp(agentId).catch((err) => {
+        logger.warn('Failed to update agent presence', { agentId, error: err?.message });
+        return null;
+      });
 
       logger.info(`Task ${taskId} submitted by agent ${authReq.user.email}`);
 
       res.json({
         success: true,
         message: 'Call interaction submitted successfully',
-        data: { task },
+        data: { task, presence: presence ? serializePresence(presence) : null },
       });
     } catch (error) {
       next(error);
@@ -3734,6 +3834,19 @@ router.post(
             ],
           });
 
+          // Manual callback supersedes any automatic retry the policy planned
+          await CallTask.updateOne(
+            { _id: task._id, autoRetry: { $ne: null } },
+            {
+              $set: {
+                'autoRetry.state': 'created',
+                'autoRetry.callbackTaskId': callbackTask._id,
+                'autoRetry.overriddenBy': authReq.user._id,
+                'autoRetry.updatedAt': new Date(),
+              },
+            }
+          );
+
           created.push({
             originalTaskId: task._id.toString(),
             callbackTaskId: callbackTask._id.toString(),
@@ -3773,6 +3886,278 @@ router.post(
   }
 );
 
+// @route   GET /api/tasks/callback/auto-retries
+// @desc    Automatic retries planned by the retry policy (team scope; all for MIS Admin)
+// @access  Private (Team Lead, MIS Admin)
+router.get(
+  '/callback/auto-retries',
+  requirePermission('tasks.view.team'),
+  [
+    query('state').optional().isIn(['scheduled', 'created', 'skipped', 'exhausted', 'all']),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const { state = 'scheduled', page = 1, limit = 20 } = req.query;
+
+      const match: any = state === 'all' ? { autoRetry: { $ne: null } } : { 'autoRetry.state': state };
+      if (authReq.user.role !== 'mis_admin') {
+        const teamAgentIds = await User.find({ teamLeadId: authReq.user._id, role: 'cc_agent' }).distinct('_id');
+        match.assignedAgentId = { $in: teamAgentIds };
+      }
+
+      const [tasks, total] = await Promise.all([
+        CallTask.find(match)
+          .select('farmerId activityId assignedAgentId status outcome callbackNumber callLog.callStatus callLog.timestamp autoRetry')
+          .populate('farmerId', 'name mobileNumber preferredLanguage')
+          .populate('activityId', 'type territoryName')
+          .populate('assignedAgentId', 'name email')
+          .populate('autoRetry.agentId', 'name email')
+          .sort({ 'autoRetry.nextRetryAt': 1, updatedAt: -1 })
+          .skip((Number(page) - 1) * Number(limit))
+          .limit(Number(limit))
+          .lean(),
+        CallTask.countDocuments(match),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          tasks,
+          pagination: { page: Number(page), limit: Number(limit), total, pages: Math.ceil(total / Number(limit)) },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   PUT /api/tasks/:id/auto-retry
+// @desc    Override the automatic retry for a task: skip, reschedule (optionally to another agent) or run now
+// @access  Private (Team Lead, MIS Admin)
+router.put(
+  '/:id/auto-retry',
+  requirePermission('tasks.reassign'),
+  [
+    param('id').isMongoId().withMessage('Invalid task ID'),
+    body('action').isIn(['skip', 'reschedule', 'run_now']).withMessage('action must be skip, reschedule or run_now'),
+    body('nextRetryAt').optional({ values: 'falsy' }).isISO8601().toDate(),
+    body('agentId').optional({ values: 'falsy' }).isMongoId(),
+    body('note').optional().isString().isLength({ max: 500 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const { action, nextRetryAt, agentId, note } = req.body;
+      const task = await overrideAutoRetry(req.params.id, action, { nextRetryAt, agentId, note }, authReq.user);
+
+      logger.info(`Auto retry ${action} on task ${req.params.id} by ${authReq.user.email}`);
+
+      res.json({ success: true, data: { autoRetry: task.autoRetry } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/tasks/:id/recording
+// @desc    Attach a call recording to the submitted call log (multipart field "recording")
+// @access  Private (assigned CC Agent)
+router.post(
+  '/:id/recording',
+  requirePermission('tasks.submit'),
+  handleRecordingUpload,
+  [
+    param('id').isMongoId().withMessage('Invalid task ID'),
+    body('durationSeconds').optional({ values: 'falsy' }).isFloat({ min: 0 }).withMessage('Invalid durationSeconds'),
+    body('checksumSha256').optional({ values: 'falsy' }).isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Invalid checksumSha256'),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const taskId = req.params.id;
+      const agentId = authReq.user._id.toString();
+      const file = req.file;
+
+      if (!file || !file.buffer?.length) {
+        const error: AppError = new Error('Recording file is required');
+        error.statusCode = 400;
+        throw error;
+      }
+      if (!ALLOWED_RECORDING_TYPES.includes(file.mimetype)) {
+        const error: AppError = new Error(`Unsupported recording type: ${file.mimetype}`);
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const task = await CallTask.findById(taskId);
+      if (!task) {
+        const error: AppError = new Error('Task not found');
+        error.statusCode = 404;
+        throw error;
+      }
+      if (!task.assignedAgentId || task.assignedAgentId.toString() !== agentId) {
+        const error: AppError = new Error('Task not assigned to you');
+        error.statusCode = 403;
+        throw error;
+      }
+      if (!task.callLog) {
+        const error: AppError = new Error('Submit the call interaction before attaching a recording');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const checksumSha256 = computeChecksumSha256(file.buffer);
+      // Client-side checksum (optional) guards against a truncated upload
+      if (req.body.checksumSha256 && String(req.body.checksumSha256).toLowerCase() !== checksumSha256) {
+        const error: AppError = new Error('Recording checksum mismatch');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const storage = getRecordingStorage();
+      const storageKey = buildRecordingKey(taskId, file.mimetype);
+      await storage.save(storageKey, file.buffer, file.mimetype);
+
+      const previous = task.callLog.recording;
+      task.callLog.recording = {
+        storageProvider: storage.name,
+        storageKey,
+        originalFileName: file.originalname || '',
+        contentType: file.mimetype,
+        sizeBytes: file.size,
+        checksumSha256,
+        durationSeconds: req.body.durationSeconds ? Math.round(Number(req.body.durationSeconds)) : null,
+        uploadedAt: new Date(),
+        uploadedBy: authReq.user._id,
+      };
+      const latestAttempt = task.callAttempts?.[task.callAttempts.length - 1];
+      if (latestAttempt) {
+        latestAttempt.recording = task.callLog.recording;
+        task.markModified('callAttempts');
+      }
+      task.markModified('callLog');
+      await task.save();
+
+      // Replaced recording: remove the old file only once the new reference is saved
+      if (previous?.storageKey && previous.storageProvider === storage.name) {
+        storage.delete(previous.storageKey).catch((err) =>
+          logger.warn('Failed to delete replaced call recording', { taskId, storageKey: previous.storageKey, error: err?.message })
+        );
+      }
+
+      logger.info(`Recording attached to task ${taskId} by agent ${authReq.user.email}`, { sizeBytes: file.size });
+
+      res.status(201).json({
+        success: true,
+        data: { recording: task.callLog.recording },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   GET /api/tasks/:id/recording
+// @desc    Stream the call recording for a task (latest attempt, or ?attempt=N)
+// @access  Private (assigned CC Agent, Team Lead of the agent, MIS Admin)
+router.get(
+  '/:id/recording',
+  requirePermission('tasks.view.own'),
+  [
+    param('id').isMongoId().withMessage('Invalid task ID'),
+    query('attempt').optional().isInt({ min: 1 }).toInt(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const userId = authReq.user._id.toString();
+      const userRole = authReq.user.role;
+
+      const task = await CallTask.findById(req.params.id)
+        .select('assignedAgentId callLog.recording callAttempts.attemptNumber callAttempts.recording')
+        .lean();
+      if (!task) {
+        const error: AppError = new Error('Task not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      const assignedAgentId = task.assignedAgentId?.toString();
+      let allowed = userRole === 'mis_admin' || assignedAgentId === userId;
+      if (!allowed && userRole === 'team_lead' && assignedAgentId) {
+        allowed = !!(await User.exists({ _id: assignedAgentId, teamLeadId: authReq.user._id }));
+      }
+      if (!allowed) {
+        const error: AppError = new Error('Access denied');
+        error.statusCode = 403;
+        throw error;
+      }
+
+      const attemptNumber = req.query.attempt as unknown as number | undefined;
+      const recording = attemptNumber
+        ? task.callAttempts?.find((a) => a.attemptNumber === attemptNumber)?.recording
+        : task.callLog?.recording;
+      if (!recording?.storageKey) {
+        const error: AppError = new Error('No recording attached to this task');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      const storage = getRecordingStorage();
+      if (recording.storageProvider !== storage.name) {
+        const error: AppError = new Error(`Recording is stored in '${recording.storageProvider}', which is not configured`);
+        error.statusCode = 409;
+        throw error;
+      }
+
+      const data = await storage.read(recording.storageKey);
+      res.setHeader('Content-Type', recording.contentType);
+      res.setHeader('Content-Length', String(data.length));
+      res.setHeader('X-Checksum-Sha256', recording.checksumSha256);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.send(data);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // @route   GET /api/tasks/:taskId/callback-history
 // @desc    Get callback chain history for a task (original + all callbacks)
 // @access  Private
@@ -0,0 +1,146 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/rbac.js';
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  getTelephonyAdapter,
+  applyTelephonyEvent,
+  getAgentCallSession,
+  hangupCall,
+  sendCallDtmf,
+  serializeCallSession,
+  TelephonyAdapter,
+} from '../services/telephonyService.js';
+import logger from '../config/logger.js';
+
+const router = express.Router();
+
+const requireTelephony = (): TelephonyAdapter => {
+  const telephony = getTelephonyAdapter();
+  if (!telephony) {
+    const error: AppError = new Error('Telephony is not configured (TELEPHONY_PROVIDER)');
+    error.statusCode = 503;
+    throw error;
+  }
+  return telephony;
+};
+
+// ---------------------------------------------------------------------------
+// POST /api/telephony/events – call events from the telephony provider (no JWT)
+// The adapter verifies the request (simulator: X-Telephony-Secret = TELEPHONY_WEBHOOK_SECRET).
+// ---------------------------------------------------------------------------
+router.post('/events', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const telephony = requireTelephony();
+    const event = telephony.parseEvent(req.headers, req.body);
+    const session = await applyTelephonyEvent(telephony.name, event);
+
+    logger.info(`Telephony event ${event.type} for call ${event.providerCallId} (session ${session._id})`);
+
+    res.json({ success: true, data: { sessionId: session._id.toString(), status: session.status } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// All other routes require authentication
+router.use(authenticate);
+
+// @route   GET /api/telephony/config
+// @desc    Whether click-to-dial is available (agent workspace falls back to manual dialing)
+// @access  Private
+router.get('/config', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const telephony = getTelephonyAdapter();
+    res.json({ success: true, data: { enabled: !!telephony, provider: telephony?.name ?? null } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /api/telephony/calls/:id
+// @desc    Current state of one of the agent's calls (polled by the softphone)
+// @access  Private (CC Agent)
+router.get(
+  '/calls/:id',
+  requirePermission('tasks.view.own'),
+  [param('id').isMongoId().withMessage('Invalid call ID')],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const session = await getAgentCallSession(req.params.id, authReq.user._id.toString());
+
+      res.json({ success: true, data: { call: serializeCallSession(session) } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/telephony/calls/:id/hangup
+// @desc    Hang up the agent's call
+// @access  Private (CC Agent)
+router.post(
+  '/calls/:id/hangup',
+  requirePermission('tasks.view.own'),
+  [param('id').isMongoId().withMessage('Invalid call ID')],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const session = await hangupCall(req.params.id, authReq.user._id.toString(), requireTelephony());
+
+      res.json({ success: true, data: { call: serializeCallSession(session) } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /api/telephony/calls/:id/dtmf
+// @desc    Send DTMF tones on an answered call (e.g. to navigate an IVR)
+// @access  Private (CC Agent)
+router.post(
+  '/calls/:id/dtmf',
+  requirePermission('tasks.view.own'),
+  [
+    param('id').isMongoId().withMessage('Invalid call ID'),
+    body('digits').matches(/^[0-9*#]{1,20}$/).withMessage('digits must be 1-20 of 0-9, * or #'),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Validation failed', errors: errors.array() },
+        });
+      }
+
+      const authReq = req as AuthRequest;
+      const session = await sendCallDtmf(req.params.id, authReq.user._id.toString(), req.body.digits, requireTelephony());
+
+      res.json({ success: true, data: { call: serializeCallSession(session) } });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
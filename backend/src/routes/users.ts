@@ -23,6 +23,12 @@ function resolveDefaultResetPassword(): string | null {
 // All routes require authentication
 router.use(authenticate);
 
+/** languageProficiency: { [language]: 1–5 } */
+const isProficiencyMap = (value: unknown) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.values(value).every((score) => Number.isInteger(score) && (score as number) >= 1 && (score as number) <= 5);
+};
+
 // @route   GET /api/users
 // @desc    Get all users (with filters)
 // @access  Private (MIS Admin only)
@@ -163,6 +169,7 @@ router.post(
     body('roles.*').optional().isIn(['cc_agent', 'team_lead', 'mis_admin', 'core_sales_head', 'marketing_head']).withMessage('Invalid role in roles array'),
     body('employeeId').trim().notEmpty().withMessage('Employee ID is required'),
     body('languageCapabilities').optional().isArray(),
+    body('languageProficiency').optional().custom(isProficiencyMap).withMessage('Proficiency scores must be whole numbers 1–5'),
     body('assignedTerritories').optional().isArray(),
     body('teamLeadId').optional().isMongoId().withMessage('Invalid team lead ID'),
   ],
@@ -176,7 +183,18 @@ router.post(
         });
       }
 
-      const { name, email, password, role, roles, employeeId, languageCapabilities = [], assignedTerritories = [], teamLeadId } = req.body;
+      const {
+        name,
+        email,
+        password,
+        role,
+        roles,
+        employeeId,
+        languageCapabilities = [],
+        languageProficiency = {},
+        assignedTerritories = [],
+        teamLeadId,
+      } = req.body;
 
       // Check if email already exists
       const existingUser = await User.findOne({ $or: [{ email }, { employeeId }] });
@@ -214,6 +232,7 @@ router.post(
         roles: userRoles,
         employeeId,
         languageCapabilities,
+        languageProficiency,
         assignedTerritories,
         teamLeadId: teamLeadId || undefined,
       });
@@ -231,6 +250,7 @@ router.post(
             roles: user.roles,
             employeeId: user.employeeId,
             languageCapabilities: user.languageCapabilities,
+            languageProficiency: user.languageProficiency,
             assignedTerritories: user.assignedTerritories,
             teamLeadId: user.teamLeadId,
             isActive: user.isActive,
@@ -256,6 +276,7 @@ router.put(
     body('roles').optional().isArray().withMessage('Roles must be an array'),
     body('roles.*').optional().isIn(['cc_agent', 'team_lead', 'mis_admin', 'core_sales_head', 'marketing_head']).withMessage('Invalid role'),
     body('languageCapabilities').optional().isArray(),
+    body('languageProficiency').optional().custom(isProficiencyMap).withMessage('Proficiency scores must be whole numbers 1–5'),
     body('assignedTerritories').optional().isArray(),
     body('teamLeadId').optional().isMongoId(),
     body('isActive').optional().isBoolean(),
@@ -286,6 +307,7 @@ router.put(
         updateData.roles = userRoles;
       }
       if (req.body.languageCapabilities) updateData.languageCapabilities = req.body.languageCapabilities;
+      if (req.body.languageProficiency) updateData.languageProficiency = req.body.languageProficiency;
       if (req.body.assignedTerritories) updateData.assignedTerritories = req.body.assignedTerritories;
       if (req.body.teamLeadId !== undefined) {
         if (req.body.teamLeadId) {
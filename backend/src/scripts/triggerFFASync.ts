@@ -1,5 +1,7 @@
 import mongoose from 'mongoose';
-import { syncFFAData } from '../services/ffaSync.js';
+import { type SyncResult } from '../services/ffaSync.js';
+import { runJobInline } from '../services/jobQueue.js';
+import '../services/jobHandlers.js';
 import logger from '../config/logger.js';
 import dotenv from 'dotenv';
 
@@ -18,7 +20,7 @@ const triggerSync = async () => {
 
     console.log('🔄 Triggering FFA sync to get fresh data with authentic Indian names...\n');
     
-    const result = await syncFFAData();
+    const result = await runJobInline<SyncResult>('ffa_sync', {}, { concurrencyKey: 'ffa_sync' });
 
     console.log('\n✅ Sync completed successfully!');
     console.log(`   - ${result.activitiesSynced} activities synced`);
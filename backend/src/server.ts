@@ -5,6 +5,10 @@ import dotenv from 'dotenv';
 import connectDB from './config/database.js';
 import logger from './config/logger.js';
 import { errorHandler, notFound } from './middleware/errorHandler.js';
+import { sweepStaleRuns } from './services/runControlService.js';
+import { startJobWorker } from './services/jobQueue.js';
+import { keepWebhookRawBody } from './services/ffaWebhookService.js';
+import './services/jobHandlers.js';
 
 // Load environment variables
 // Testing deployment after adding Cloud Build Editor role
@@ -45,7 +49,7 @@ const corsOptions = {
 app.use(cors(corsOptions));
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({ limit: '10mb', verify: keepWebhookRawBody }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Request logging middleware
@@ -809,6 +813,17 @@ import adminRoutes from './routes/admin.js';
 import aiRoutes from './routes/ai.js';
 import dashboardRoutes from './routes/dashboard.js';
 import reportRoutes from './routes/reports.js';
+import inboundRoutes from './routes/inbound.js';
+import telephonyRoutes from './routes/telephony.js';
+import presenceRoutes from './routes/presence.js';
+import liveRoutes from './routes/live.js';
+import rosterRoutes from './routes/roster.js';
+import samplingPolicyRoutes from './routes/samplingPolicies.js';
+import doNotCallRoutes from './routes/doNotCall.js';
+import jobRoutes from './routes/jobs.js';
+import reconciliationRoutes from './routes/reconciliation.js';
+import ingestRoutes from './routes/ingest.js';
+import farmerMergeRoutes from './routes/farmerMerge.js';
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/tasks', taskRoutes);
@@ -819,6 +834,17 @@ app.use('/api/admin', adminRoutes);
 app.use('/api/ai', aiRoutes);
 app.use('/api/kpi', dashboardRoutes);
 app.use('/api/reports', reportRoutes);
+app.use('/api/inbound', inboundRoutes);
+app.use('/api/telephony', telephonyRoutes);
+app.use('/api/presence', presenceRoutes);
+app.use('/api/live', liveRoutes);
+app.use('/api/roster', rosterRoutes);
+app.use('/api/sampling-policies', samplingPolicyRoutes);
+app.use('/api/do-not-call', doNotCallRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/reconciliation', reconciliationRoutes);
+app.use('/api/ingest', ingestRoutes);
+app.use('/api/farmer-merge', farmerMergeRoutes);
 
 // 404 handler
 app.use(notFound);
@@ -832,6 +858,18 @@ const startServer = async (): Promise<void> => {
     // Connect to MongoDB
     await connectDB();
 
+    // Runs left `running` by the previous process become resumable (interrupted) or failed
+    try {
+      await sweepStaleRuns();
+    } catch (error) {
+      logger.warn('Stale run sweep at startup failed', { error: (error as Error)?.message });
+    }
+
+    // Every instance works the shared job queue unless told not to (e.g. a web-only replica)
+    if (process.env.JOB_WORKER_ENABLED !== 'false') {
+      startJobWorker();
+    }
+
     // Setup cron jobs ONLY when explicitly enabled.
     // This prevents unexpected background syncs (e.g., scheduled FFA sync) in production environments.
     if (process.env.ENABLE_CRON === 'true') {
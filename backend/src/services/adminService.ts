@@ -14,6 +14,8 @@ export interface ActivitySamplingStatus {
     totalFarmers: number;
     sampledCount: number;
     createdAt: Date;
+    /** Officer risk weighting applied to the percentage, if any */
+    riskAdjustment?: { band: string; basePercentage: number; adjustedPercentage: number; reasons: string[] } | null;
   };
   tasksCount: number;
   assignedAgents: Array<{
@@ -520,6 +522,7 @@ export const getActivitiesWithSampling = async (filters?: {
               totalFarmers: audit.totalFarmers,
               sampledCount: audit.sampledCount,
               createdAt: audit.createdAt,
+              riskAdjustment: audit.metadata?.riskAdjustment ?? null,
             }
           : undefined,
         tasksCount: activityTasks.length,
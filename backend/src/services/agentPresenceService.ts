@@ -0,0 +1,211 @@
+import mongoose from 'mongoose';
+import { AgentPresence, AgentAvailability, DialerMode, IAgentPresence } from '../models/AgentPresence.js';
+import { SamplingConfig, IDialerSettings } from '../models/SamplingConfig.js';
+import { User } from '../models/User.js';
+import { AppError } from '../middleware/errorHandler.js';
+import logger from '../config/logger.js';
+
+export const DEFAULT_DIALER_SETTINGS: IDialerSettings = {
+  wrapUpSeconds: 30,
+  breakReasons: ['Lunch', 'Tea', 'Training', 'Meeting', 'Other'],
+};
+
+/** No heartbeat for this long and the agent reads as offline (workspace pings every 30s) */
+export const PRESENCE_STALE_MS = 2 * 60 * 1000;
+
+type PresenceLike = Pick<IAgentPresence, 'state' | 'lastSeenAt' | 'wrapUpEndsAt'>;
+
+const badRequest = (message: string, statusCode = 400): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const normalizeSettings = (settings: Partial<IDialerSettings> | null | undefined): IDialerSettings => {
+  const raw: any = settings && typeof (settings as any).toObject === 'function' ? (settings as any).toObject() : settings || {};
+  return {
+    wrapUpSeconds: raw.wrapUpSeconds ?? DEFAULT_DIALER_SETTINGS.wrapUpSeconds,
+    breakReasons:
+      Array.isArray(raw.breakReasons) && raw.breakReasons.length > 0
+        ? raw.breakReasons.map((r: string) => String(r).trim()).filter(Boolean)
+        : DEFAULT_DIALER_SETTINGS.breakReasons,
+  };
+};
+
+export const getDialerSettings = async (): Promise<IDialerSettings> => {
+  const config = await SamplingConfig.findOne({ key: 'default' }).select('dialerSettings').lean();
+  return normalizeSettings(config?.dialerSettings);
+};
+
+export const updateDialerSettings = async (
+  updates: Partial<IDialerSettings>,
+  updatedByUserId: string
+): Promise<IDialerSettings> => {
+  const next = normalizeSettings({ ...(await getDialerSettings()), ...updates });
+  if (!(Number.isInteger(next.wrapUpSeconds) && next.wrapUpSeconds >= 0 && next.wrapUpSeconds <= 600)) {
+    throw badRequest('wrapUpSeconds must be a whole number between 0 and 600');
+  }
+
+  await SamplingConfig.findOneAndUpdate(
+    { key: 'default' },
+    {
+      $set: { dialerSettings: next, updatedByUserId: new mongoose.Types.ObjectId(updatedByUserId) },
+      $setOnInsert: { key: 'default', isActive: true },
+    },
+    { upsert: true, new: true }
+  );
+
+  logger.info('Dialer settings updated', { wrapUpSeconds: next.wrapUpSeconds });
+  return next;
+};
+
+/**
+ * State as others should see it: stale heartbeats read as offline and an elapsed wrap-up
+ * reads as available, without needing a sweep job to rewrite the documents.
+ */
+export const getEffectiveState = (presence: PresenceLike | null | undefined, now: Date = new Date()): AgentAvailability => {
+  if (!presence) return 'offline';
+  if (presence.state !== 'offline' && now.getTime() - new Date(presence.lastSeenAt).getTime() > PRESENCE_STALE_MS) {
+    return 'offline';
+  }
+  if (presence.state === 'wrap_up' && presence.wrapUpEndsAt && new Date(presence.wrapUpEndsAt) <= now) {
+    return 'available';
+  }
+  return presence.state;
+};
+
+export const serializePresence = (presence: IAgentPresence | null, now: Date = new Date()) => ({
+  state: getEffectiveState(presence, now),
+  stateSince: presence?.stateSince ?? null,
+  mode: presence?.mode ?? 'manual',
+  breakReason: presence?.breakReason ?? null,
+  currentTaskId: presence?.currentTaskId ? presence.currentTaskId.toString() : null,
+  wrapUpEndsAt: presence?.wrapUpEndsAt ?? null,
+  lastSeenAt: presence?.lastSeenAt ?? null,
+});
+
+export const getAgentPresence = async (agentId: string) =>
+  serializePresence(await AgentPresence.findOne({ agentId }).lean<IAgentPresence>());
+
+/**
+ * Move an agent to a new state. stateSince only moves when the state actually changes, so
+ * repeated calls (e.g. mark-in-progress on every status click) keep the original start time.
+ */
+export const setAgentState = async (
+  agentId: string | mongoose.Types.ObjectId,
+  state: AgentAvailability,
+  options: { breakReason?: string | null; taskId?: string | mongoose.Types.ObjectId | null; wrapUpSeconds?: number } = {}
+): Promise<IAgentPresence> => {
+  const now = new Date();
+  const existing = await AgentPresence.findOne({ agentId });
+  const presence = existing ?? new AgentPresence({ agentId, state, stateSince: now });
+
+  if (getEffectiveState(existing, now) !== state || (state === 'break' && presence.breakReason !== options.breakReason)) {
+    presence.stateSince = now;
+  }
+  presence.state = state;
+  presence.lastSeenAt = now;
+  presence.breakReason = state === 'break' ? options.breakReason ?? null : null;
+  presence.wrapUpEndsAt = state === 'wrap_up' ? new Date(now.getTime() + (options.wrapUpSeconds ?? 0) * 1000) : null;
+  if (options.taskId !== undefined) {
+    presence.currentTaskId = options.taskId ? new mongoose.Types.ObjectId(String(options.taskId)) : null;
+  } else if (state === 'available' || state === 'break' || state === 'offline') {
+    presence.currentTaskId = null;
+  }
+
+  await presence.save();
+  return presence;
+};
+
+/**
+ * Agent-chosen state from the workspace (available or break). A break needs one of the
+ * configured reasons; an agent on a call must submit it first.
+ */
+export const setOwnAvailability = async (
+  agentId: string,
+  state: 'available' | 'break',
+  breakReason?: string
+): Promise<IAgentPresence> => {
+  const current = getEffectiveState(await AgentPresence.findOne({ agentId }).lean<IAgentPresence>());
+  if (current === 'on_call') {
+    throw badRequest('Submit the current call before changing availability', 409);
+  }
+  if (state === 'break') {
+    const { breakReasons } = await getDialerSettings();
+    if (!breakReason || !breakReasons.includes(breakReason)) {
+      throw badRequest(`Break reason must be one of: ${breakReasons.join(', ')}`);
+    }
+  }
+  return setAgentState(agentId, state, { breakReason: state === 'break' ? breakReason : null });
+};
+
+export const setDialerMode = async (agentId: string, mode: DialerMode): Promise<IAgentPresence> => {
+  const presence = await AgentPresence.findOneAndUpdate(
+    { agentId },
+    {
+      $set: { mode, lastSeenAt: new Date() },
+      $setOnInsert: { agentId, state: 'available', stateSince: new Date() },
+    },
+    { upsert: true, new: true }
+  );
+  return presence!;
+};
+
+/**
+ * Workspace heartbeat. An agent coming back after going stale (or first login) is available.
+ */
+export const recordHeartbeat = async (agentId: string): Promise<IAgentPresence> => {
+  const now = new Date();
+  const existing = await AgentPresence.findOne({ agentId });
+  if (!existing || getEffectiveState(existing, now) === 'offline') {
+    return setAgentState(agentId, 'available');
+  }
+  existing.lastSeenAt = now;
+  await existing.save();
+  return existing;
+};
+
+/** Call started on a task (mark-in-progress / click-to-dial) */
+export const markAgentOnCall = async (agentId: string, taskId: string | mongoose.Types.ObjectId) =>
+  setAgentState(agentId, 'on_call', { taskId });
+
+/** Call submitted: wrap-up for the configured time, then available again */
+export const markAgentWrapUp = async (agentId: string) => {
+  const { wrapUpSeconds } = await getDialerSettings();
+  return setAgentState(agentId, 'wrap_up', { taskId: null, wrapUpSeconds });
+};
+
+/**
+ * Live view for team leads: every active agent in scope with their effective state.
+ * MIS Admin sees all agents; a team lead sees their own team.
+ */
+export const getTeamPresence = async (user: { _id: mongoose.Types.ObjectId | string; role: string }) => {
+  const agentQuery: any = { role: 'cc_agent', isActive: true };
+  if (user.role !== 'mis_admin') agentQuery.teamLeadId = user._id;
+
+  const agents = await User.find(agentQuery).select('name email employeeId').sort({ name: 1 }).lean();
+  const presences = await AgentPresence.find({ agentId: { $in: agents.map((a) => a._id) } })
+    .populate({ path: 'currentTaskId', select: 'farmerId status', populate: { path: 'farmerId', select: 'name mobileNumber' } })
+    .lean<IAgentPresence[]>();
+  const byAgent = new Map(presences.map((p) => [p.agentId.toString(), p]));
+
+  const now = new Date();
+  const summary: Record<AgentAvailability, number> = { available: 0, on_call: 0, wrap_up: 0, break: 0, offline: 0 };
+  const rows = agents.map((agent) => {
+    const presence = byAgent.get(agent._id.toString()) ?? null;
+    const view = serializePresence(presence, now);
+    summary[view.state] += 1;
+    const task: any = presence?.currentTaskId ?? null;
+    return {
+      agentId: agent._id.toString(),
+      name: agent.name,
+      email: agent.email,
+      employeeId: (agent as any).employeeId ?? null,
+      ...view,
+      currentTaskId: task?._id ? task._id.toString() : null,
+      currentFarmer: task?.farmerId ? { name: task.farmerId.name, mobileNumber: task.farmerId.mobileNumber } : null,
+    };
+  });
+
+  return { agents: rows, summary, asOf: now };
+};
@@ -0,0 +1,269 @@
+import mongoose from 'mongoose';
+import { AllocationRun, type AllocationRunKind, type AllocationRunStatus } from '../models/AllocationRun.js';
+import { CallTask, type TaskStatus } from '../models/CallTask.js';
+import { User } from '../models/User.js';
+import { createAllocator, type AllocationStrategyName, DEFAULT_ALLOCATION_STRATEGY } from './allocationStrategies.js';
+import { getAgentAvailability, type AgentAvailabilityInfo } from './rosterService.js';
+import { callTaskNeedsAgentMongoFilter } from './taskService.js';
+import { publishLiveEvent } from './liveEventsService.js';
+import { getDoNotCallFarmerIds } from './doNotCallService.js';
+import { checkpointRun, takeRunForJob, trackRun } from './runControlService.js';
+import { registerJobHandler } from './jobQueue.js';
+import logger from '../config/logger.js';
+
+/**
+ * Executes an AllocationRun (allocate or reallocate) from its stored task plan, starting at
+ * `processed`. Agents and their remaining capacity are re-read on every execution, so a resumed
+ * run places the rest of its tasks with today's roster.
+ */
+
+const STATUS_QUEUED: TaskStatus = 'sampled_in_queue';
+const BATCH_SIZE = 200;
+const CHECKPOINT_EVERY = 50;
+
+const normalize = (s: unknown) => String(s ?? '').trim().toLowerCase();
+
+/** Team agents split by shift, with on-shift agents indexed by language capability */
+export interface AllocationPool {
+  teamAgents: any[];
+  onShiftAgents: any[];
+  availability: Map<string, AgentAvailabilityInfo>;
+  agentsByLanguage: Map<string, any[]>;
+}
+
+export const loadAllocationPool = async (
+  teamLeadId: string | mongoose.Types.ObjectId,
+  excludeAgentId?: string | null
+): Promise<AllocationPool> => {
+  const teamAgents = await User.find({
+    teamLeadId: new mongoose.Types.ObjectId(String(teamLeadId)),
+    role: 'cc_agent',
+    isActive: true,
+    ...(excludeAgentId ? { _id: { $ne: new mongoose.Types.ObjectId(excludeAgentId) } } : {}),
+  })
+    .select('_id name email languageCapabilities languageProficiency assignedTerritories')
+    .sort({ name: 1 })
+    .lean();
+
+  // Only agents rostered for today (and not on leave) receive tasks
+  const availability = await getAgentAvailability(teamAgents.map((a: any) => a._id));
+  const onShiftAgents = teamAgents.filter((a: any) => availability.get(a._id.toString())?.onShift);
+
+  const agentsByLanguage = new Map<string, any[]>();
+  for (const a of onShiftAgents as any[]) {
+    const caps: string[] = Array.isArray(a.languageCapabilities) ? a.languageCapabilities : [];
+    for (const cap of caps) {
+      const key = normalize(cap);
+      if (!key) continue;
+      const list = agentsByLanguage.get(key) || [];
+      list.push(a);
+      agentsByLanguage.set(key, list);
+    }
+  }
+  return { teamAgents, onShiftAgents, availability, agentsByLanguage };
+};
+
+export const isAllLanguages = (language: unknown): boolean => ['all', '__all__'].includes(normalize(language));
+
+/** Push allocation progress to team lead screens (re-read so every call site publishes the same shape) */
+export const publishAllocationProgress = async (runId: mongoose.Types.ObjectId, kind: AllocationRunKind) => {
+  try {
+    const run = await AllocationRun.findById(runId).select('-plan').lean();
+    if (!run) return;
+    publishLiveEvent({
+      type: 'allocation.progress',
+      runId: run._id.toString(),
+      kind,
+      createdByUserId: run.createdByUserId ? run.createdByUserId.toString() : null,
+      status: run.status,
+      total: run.total,
+      processed: run.processed,
+      allocated: run.allocated,
+      skipped: run.skipped,
+    });
+  } catch (error) {
+    logger.warn('Failed to publish allocation progress', { runId: runId.toString(), error: (error as Error)?.message });
+  }
+};
+
+export interface AllocationRunOutcome {
+  status: Extract<AllocationRunStatus, 'completed' | 'cancelled'>;
+  processed: number;
+  allocated: number;
+  skipped: number;
+  skippedByLanguage: Record<string, number>;
+  /** Farmer on the do-not-call / consent registry (never given to an agent) */
+  skippedDoNotCall: number;
+  /** Skipped in this execution because every capable agent was full */
+  skippedForCapacity: number;
+  /** Tasks given per agent in this execution, with their capacity left afterwards */
+  agentsUsed: Array<{ agentId: string; name: string; email: string; assigned: number; remainingCapacity: number }>;
+}
+
+export const executeAllocationRun = async (
+  runId: mongoose.Types.ObjectId,
+  pool?: AllocationPool
+): Promise<AllocationRunOutcome> =>
+  trackRun(runId, async () => {
+    const run = await AllocationRun.findById(runId).lean();
+    if (!run) throw new Error('Allocation run not found');
+    const kind: AllocationRunKind = run.kind || 'allocate';
+    const sourceAgentId = run.filters?.reallocateFromAgentId || null;
+    const teamLeadId = run.createdByUserId;
+    if (!teamLeadId) throw new Error('Allocation run has no team lead');
+
+    const { onShiftAgents, availability, agentsByLanguage } =
+      pool || (await loadAllocationPool(teamLeadId, kind === 'reallocate' ? sourceAgentId : null));
+    const sourceAgent =
+      kind === 'reallocate' && sourceAgentId ? await User.findById(sourceAgentId).select('name email').lean() : null;
+    const allLanguages = kind === 'reallocate' || isAllLanguages(run.filters?.language);
+    const capableAgents = allLanguages ? onShiftAgents : agentsByLanguage.get(normalize(run.filters?.language)) || [];
+
+    const strategy = (run.filters?.strategy || DEFAULT_ALLOCATION_STRATEGY) as AllocationStrategyName;
+    const allocator = createAllocator(strategy, availability);
+    const plan = run.plan || [];
+    const skippedByLanguage: Record<string, number> = { ...(run.skippedByLanguage || {}) };
+    const errorMessages: string[] = [...(run.errorMessages || [])];
+    let processed = run.processed || 0;
+    let allocated = run.allocated || 0;
+    let skipped = run.skipped || 0;
+    let skippedDoNotCall = run.skippedDoNotCall || 0;
+    let skippedForCapacity = 0;
+    let cancelled = false;
+    let batchOps: any[] = [];
+
+    const flushBatch = async () => {
+      if (!batchOps.length) return;
+      try {
+        const r = await CallTask.bulkWrite(batchOps as any, { ordered: false });
+        allocated += r.modifiedCount || 0;
+      } catch (e: any) {
+        errorMessages.push(e?.message || 'Bulk write failed');
+      } finally {
+        batchOps = [];
+      }
+    };
+
+    // Registry entries can be added after the tasks were sampled, so check the remaining plan now
+    const remainingTaskIds = plan.slice(processed).map((t) => t.taskId);
+    const taskFarmers = remainingTaskIds.length
+      ? await CallTask.find({ _id: { $in: remainingTaskIds } }).select('farmerId').lean()
+      : [];
+    const doNotCall = await getDoNotCallFarmerIds(taskFarmers.map((t) => t.farmerId));
+    const doNotCallTasks = new Set(
+      taskFarmers.filter((t) => doNotCall.has(t.farmerId.toString())).map((t) => t._id.toString())
+    );
+
+    const progress = () => ({
+      processed,
+      allocated,
+      skipped,
+      skippedByLanguage,
+      skippedDoNotCall,
+      errorCount: errorMessages.length,
+      errorMessages: errorMessages.slice(-50),
+    });
+
+    for (let idx = processed; idx < plan.length; idx++) {
+      const t = plan[idx];
+      const onDoNotCall = doNotCallTasks.has(t.taskId.toString());
+      const farmerLangKey = normalize(t.farmerLanguage) || 'unknown';
+      const langAgents = allLanguages ? agentsByLanguage.get(farmerLangKey) || [] : capableAgents;
+      const agent =
+        !onDoNotCall && langAgents.length
+          ? allocator.pick({ farmerLanguage: t.farmerLanguage || '', territory: t.territory }, langAgents)
+          : null;
+
+      if (onDoNotCall) {
+        skippedDoNotCall++;
+        skipped++;
+      } else if (!agent) {
+        if (langAgents.length) skippedForCapacity++;
+        else skippedByLanguage[farmerLangKey] = (skippedByLanguage[farmerLangKey] || 0) + 1;
+        skipped++;
+      } else if (kind === 'allocate') {
+        batchOps.push({
+          updateOne: {
+            filter: { _id: t.taskId, ...callTaskNeedsAgentMongoFilter() },
+            update: {
+              $set: { assignedAgentId: agent._id, status: STATUS_QUEUED },
+              $push: {
+                interactionHistory: {
+                  timestamp: new Date(),
+                  status: STATUS_QUEUED,
+                  notes: `Allocated by Team Lead (auto) to ${agent.email}`,
+                },
+              },
+            },
+          },
+        });
+      } else {
+        batchOps.push({
+          updateOne: {
+            filter: { _id: t.taskId, assignedAgentId: new mongoose.Types.ObjectId(String(sourceAgentId)), status: STATUS_QUEUED },
+            update: {
+              $set: { assignedAgentId: agent._id },
+              $push: {
+                interactionHistory: {
+                  timestamp: new Date(),
+                  status: STATUS_QUEUED,
+                  notes: `Reallocated from ${sourceAgent?.name} (${sourceAgent?.email}) to ${agent.name} (${agent.email}) by Team Lead`,
+                },
+              },
+            },
+          },
+        });
+      }
+      processed++;
+
+      if (batchOps.length >= BATCH_SIZE) await flushBatch();
+
+      // The cursor only moves past written tasks, so flush before every checkpoint
+      if (processed % CHECKPOINT_EVERY === 0) {
+        await flushBatch();
+        cancelled = await checkpointRun('allocation', run._id, progress());
+        void publishAllocationProgress(run._id, kind);
+        if (cancelled) break;
+      }
+    }
+
+    await flushBatch();
+
+    const status = cancelled ? 'cancelled' : 'completed';
+    await AllocationRun.updateOne(
+      { _id: run._id },
+      { $set: { status, finishedAt: new Date(), ...progress(), lastProgressAt: new Date() } }
+    );
+    void publishAllocationProgress(run._id, kind);
+    if (cancelled) logger.info('Allocation run cancelled', { runId: run._id.toString(), kind, processed });
+
+    const assigned = allocator.assignedCounts();
+    return {
+      status,
+      processed,
+      allocated,
+      skipped,
+      skippedByLanguage,
+      skippedDoNotCall,
+      skippedForCapacity,
+      agentsUsed: capableAgents.map((a: any) => ({
+        agentId: a._id.toString(),
+        name: a.name,
+        email: a.email,
+        assigned: assigned[a._id.toString()] || 0,
+        remainingCapacity: availability.get(a._id.toString())?.remainingCapacity ?? 0,
+      })),
+    };
+  });
+
+// Job payload: { allocationRunId }. The agent pool is loaded afresh by each attempt.
+registerJobHandler('allocation_run', async ({ job, log }) => {
+  const runId = new mongoose.Types.ObjectId(String(job.payload.allocationRunId));
+  if (!(await takeRunForJob('allocation', runId))) {
+    await log('Allocation run already finished; nothing to do', 'warn');
+    return null;
+  }
+  const outcome = await executeAllocationRun(runId);
+  await log(`Allocation run ${outcome.status}: ${outcome.allocated} of ${outcome.processed} tasks assigned`);
+  return outcome;
+});
@@ -0,0 +1,185 @@
+import type { AgentAvailabilityInfo } from './rosterService.js';
+
+/**
+ * Pluggable agent selection for /api/tasks/allocate and /reallocate. The route handles filtering
+ * (language, on-shift) and capacity; a strategy only decides which of the agents that still have
+ * room gets the next task.
+ */
+
+export type AllocationStrategyName = 'capacity' | 'round_robin' | 'least_loaded' | 'proficiency' | 'territory';
+
+export const DEFAULT_ALLOCATION_STRATEGY: AllocationStrategyName = 'capacity';
+
+/** Score used when an agent speaks a language but has no proficiency recorded for it (1–5 scale) */
+export const DEFAULT_PROFICIENCY = 3;
+
+export interface AllocationAgent {
+  _id: unknown;
+  languageProficiency?: Map<string, number> | Record<string, number> | null;
+  assignedTerritories?: string[] | null;
+}
+
+export interface AllocationTaskInfo {
+  farmerLanguage: string;
+  territory?: string | null;
+}
+
+/** Per-run counters shared by every strategy */
+export interface AllocationRunState {
+  /** Capacity left today, already reduced by tasks given in this run */
+  remaining(agentId: string): number;
+  /** Tasks given to the agent in this run */
+  given(agentId: string): number;
+  /** sampled_in_queue tasks before the run plus tasks given in this run */
+  queued(agentId: string): number;
+}
+
+type Chooser = <T extends AllocationAgent>(task: AllocationTaskInfo, candidates: T[], state: AllocationRunState) => T;
+
+interface AllocationStrategy {
+  label: string;
+  description: string;
+  /** Called once per run so strategies can keep their own rotation state */
+  create(): Chooser;
+}
+
+const normalize = (s: unknown) => String(s ?? '').trim().toLowerCase();
+const idOf = (a: AllocationAgent) => String(a._id);
+
+/** First candidate with the lowest `key` (stable, so ties fall back to name order) */
+const minBy = <T>(candidates: T[], key: (c: T) => number[]): T => {
+  let best = candidates[0];
+  let bestKey = key(best);
+  for (const c of candidates.slice(1)) {
+    const k = key(c);
+    const i = k.findIndex((v, idx) => v !== bestKey[idx]);
+    if (i !== -1 && k[i] < bestKey[i]) {
+      best = c;
+      bestKey = k;
+    }
+  }
+  return best;
+};
+
+const mostRemaining: Chooser = (_task, candidates, state) =>
+  minBy(candidates, (c) => [-state.remaining(idOf(c)), state.given(idOf(c))]);
+
+export const getProficiency = (agent: AllocationAgent, language: string): number => {
+  const scores = agent.languageProficiency;
+  if (!scores) return DEFAULT_PROFICIENCY;
+  const wanted = normalize(language);
+  const entries = scores instanceof Map ? Array.from(scores.entries()) : Object.entries(scores);
+  const hit = entries.find(([lang]) => normalize(lang) === wanted);
+  return hit && Number(hit[1]) > 0 ? Number(hit[1]) : DEFAULT_PROFICIENCY;
+};
+
+const STRATEGIES: Record<AllocationStrategyName, AllocationStrategy> = {
+  capacity: {
+    label: 'Remaining capacity',
+    description: 'Next task goes to the agent with the most room left under their daily capacity',
+    create: () => mostRemaining,
+  },
+  round_robin: {
+    label: 'Round-robin',
+    description: 'Agents take turns per language, skipping anyone who is full',
+    create: () => {
+      const cursorByLanguage = new Map<string, number>();
+      return (task, candidates) => {
+        const key = normalize(task.farmerLanguage);
+        const cursor = cursorByLanguage.get(key) || 0;
+        cursorByLanguage.set(key, cursor + 1);
+        return candidates[cursor % candidates.length];
+      };
+    },
+  },
+  least_loaded: {
+    label: 'Least loaded',
+    description: 'Next task goes to the agent with the fewest tasks waiting in their queue',
+    create: () => (_task, candidates, state) =>
+      minBy(candidates, (c) => [state.queued(idOf(c)), -state.remaining(idOf(c))]),
+  },
+  proficiency: {
+    label: 'Proficiency-weighted',
+    description: 'Agents get a share of each language in proportion to their proficiency score (1–5)',
+    create: () => {
+      // Smooth weighted round-robin: deterministic and proportional even for small runs
+      const current = new Map<string, number>();
+      return (task, candidates) => {
+        const lang = normalize(task.farmerLanguage);
+        let total = 0;
+        let best = candidates[0];
+        let bestWeight = -Infinity;
+        for (const c of candidates) {
+          const key = `${lang}:${idOf(c)}`;
+          const weight = getProficiency(c, task.farmerLanguage);
+          const value = (current.get(key) || 0) + weight;
+          current.set(key, value);
+          total += weight;
+          if (value > bestWeight) {
+            best = c;
+            bestWeight = value;
+          }
+        }
+        const bestKey = `${lang}:${idOf(best)}`;
+        current.set(bestKey, (current.get(bestKey) || 0) - total);
+        return best;
+      };
+    },
+  },
+  territory: {
+    label: 'Territory affinity',
+    description: "Prefers agents assigned to the farmer's territory; others only take what they cannot",
+    create: () => (task, candidates, state) => {
+      const territory = normalize(task.territory);
+      const local = territory
+        ? candidates.filter((c) => (c.assignedTerritories || []).some((t) => normalize(t) === territory))
+        : [];
+      return mostRemaining(task, local.length ? local : candidates, state);
+    },
+  },
+};
+
+export const ALLOCATION_STRATEGY_NAMES = Object.keys(STRATEGIES) as AllocationStrategyName[];
+
+export const listAllocationStrategies = () =>
+  ALLOCATION_STRATEGY_NAMES.map((name) => ({
+    name,
+    label: STRATEGIES[name].label,
+    description: STRATEGIES[name].description,
+    isDefault: name === DEFAULT_ALLOCATION_STRATEGY,
+  }));
+
+/**
+ * Allocator for one run. `pick` returns null once no candidate has capacity left, so the caller
+ * can count the task as skipped.
+ */
+export const createAllocator = (
+  strategy: AllocationStrategyName,
+  availability: Map<string, AgentAvailabilityInfo>
+) => {
+  const choose = STRATEGIES[strategy].create();
+  const remaining = new Map<string, number>();
+  const given = new Map<string, number>();
+  for (const [id, info] of availability) remaining.set(id, info.remainingCapacity);
+
+  const state: AllocationRunState = {
+    remaining: (id) => remaining.get(id) ?? 0,
+    given: (id) => given.get(id) ?? 0,
+    queued: (id) => (availability.get(id)?.queuedTasks ?? 0) + (given.get(id) ?? 0),
+  };
+
+  return {
+    pick<T extends AllocationAgent>(task: AllocationTaskInfo, candidates: T[]): T | null {
+      const withRoom = candidates.filter((c) => state.remaining(idOf(c)) > 0);
+      if (!withRoom.length) return null;
+      const agent = choose(task, withRoom, state);
+      const id = idOf(agent);
+      remaining.set(id, state.remaining(id) - 1);
+      given.set(id, state.given(id) + 1);
+      return agent;
+    },
+    assignedCounts(): Record<string, number> {
+      return Object.fromEntries(given);
+    },
+  };
+};
@@ -0,0 +1,153 @@
+import mongoose from 'mongoose';
+import {
+  ChangeHistory,
+  type ChangeEntityType,
+  type ChangeSource,
+  type FieldChange,
+  type IChangeHistory,
+} from '../models/ChangeHistory.js';
+import { flagActivityChanges } from './reconciliationService.js';
+import logger from '../config/logger.js';
+
+/**
+ * Field-level history of what ingest (FFA sync, FFA webhook, Excel import) changed on records
+ * that already existed. Callers pass the stored document as it was before the write and the
+ * values they wrote; only fields that really differ are logged.
+ */
+
+export const ACTIVITY_TRACKED_FIELDS = [
+  'type',
+  'date',
+  'officerId',
+  'officerName',
+  'location',
+  'territory',
+  'territoryName',
+  'zoneName',
+  'buName',
+  'state',
+  'tmEmpCode',
+  'tmName',
+  'crops',
+  'products',
+  'farmerIds',
+] as const;
+
+export const FARMER_TRACKED_FIELDS = ['name', 'location', 'preferredLanguage', 'territory', 'photoUrl'] as const;
+
+/** Compared as sets: order from upstream is not meaningful */
+const LIST_FIELDS = new Set(['crops', 'products', 'farmerIds']);
+
+export interface ChangeContext {
+  source: ChangeSource;
+  dataBatchId?: string | null;
+}
+
+export interface ChangeCandidate {
+  entityId: mongoose.Types.ObjectId;
+  entityKey: string;
+  /** Stored values before the write; null for a new record (not logged) */
+  before: Record<string, any> | null;
+  /** Values written; fields missing here were not touched */
+  after: Record<string, any>;
+}
+
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof mongoose.Types.ObjectId) return value.toString();
+  if (typeof value === 'string') return value.trim() || null;
+  return value;
+};
+
+const toList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map((v) => String(normalize(v) ?? '')).filter(Boolean) : [];
+
+export const diffFields = (
+  before: Record<string, any>,
+  after: Record<string, any>,
+  fields: readonly string[]
+): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (after[field] === undefined) continue;
+
+    if (LIST_FIELDS.has(field)) {
+      const prev = new Set(toList(before[field]));
+      const next = new Set(toList(after[field]));
+      const added = [...next].filter((v) => !prev.has(v));
+      const removed = [...prev].filter((v) => !next.has(v));
+      if (added.length || removed.length) changes.push({ field, added, removed });
+      continue;
+    }
+
+    const from = normalize(before[field]);
+    const to = normalize(after[field]);
+    if (from !== to) changes.push({ field, from, to });
+  }
+  return changes;
+};
+
+const recordChanges = async (
+  entityType: ChangeEntityType,
+  fields: readonly string[],
+  candidates: ChangeCandidate[],
+  context: ChangeContext
+): Promise<IChangeHistory[]> => {
+  const docs = candidates
+    .filter((c) => c.before)
+    .map((c) => ({
+      entityType,
+      entityId: c.entityId,
+      entityKey: c.entityKey,
+      source: context.source,
+      dataBatchId: context.dataBatchId ?? null,
+      changes: diffFields(c.before!, c.after, fields),
+    }))
+    .filter((d) => d.changes.length > 0);
+  if (docs.length === 0) return [];
+  return ChangeHistory.insertMany(docs) as unknown as Promise<IChangeHistory[]>;
+};
+
+/**
+ * Log activity changes and raise reconciliation items for sampled activities they affect.
+ * History is best-effort: a failure is logged and never fails the ingest that called it.
+ */
+export const recordActivityChanges = async (candidates: ChangeCandidate[], context: ChangeContext): Promise<number> => {
+  try {
+    const entries = await recordChanges('activity', ACTIVITY_TRACKED_FIELDS, candidates, context);
+    if (entries.length) await flagActivityChanges(entries);
+    return entries.length;
+  } catch (error) {
+    logger.error('[CHANGE HISTORY] Failed to record activity changes', { source: context.source, error });
+    return 0;
+  }
+};
+
+export const recordFarmerChanges = async (candidates: ChangeCandidate[], context: ChangeContext): Promise<number> => {
+  try {
+    return (await recordChanges('farmer', FARMER_TRACKED_FIELDS, candidates, context)).length;
+  } catch (error) {
+    logger.error('[CHANGE HISTORY] Failed to record farmer changes', { source: context.source, error });
+    return 0;
+  }
+};
+
+export const listChangeHistory = async (
+  entityType: ChangeEntityType,
+  entityId: string,
+  opts: { page?: number; limit?: number } = {}
+) => {
+  const page = Math.max(1, opts.page || 1);
+  const limit = Math.min(200, Math.max(1, opts.limit || 50));
+  const query = { entityType, entityId: new mongoose.Types.ObjectId(entityId) };
+  const [entries, total] = await Promise.all([
+    ChangeHistory.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    ChangeHistory.countDocuments(query),
+  ]);
+  return { entries, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+};
@@ -0,0 +1,280 @@
+import mongoose from 'mongoose';
+import { Activity } from '../models/Activity.js';
+import { CallTask } from '../models/CallTask.js';
+import { SamplingAudit } from '../models/SamplingAudit.js';
+import type { CoverageOfficerLevel, CoveragePeriod, ICoverageSettings } from '../models/SamplingConfig.js';
+import { reservoirSampling } from '../utils/reservoirSampling.js';
+import { createSeededRandom } from '../utils/seededRandom.js';
+import { getRosterDay } from './rosterService.js';
+import {
+  createUnassignedTasksForFarmers,
+  getActiveSamplingConfig,
+  getEligibleFarmers,
+  isActivityTypeEligible,
+  startFarmerCooling,
+} from './samplingService.js';
+import logger from '../config/logger.js';
+
+/**
+ * Officer coverage: every FDA (or TM) should get a minimum number of completed validations per
+ * period. Percentage sampling alone can leave small officers with none, so sampling runs top them up.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OFFICER_FIELDS: Record<CoverageOfficerLevel, { key: 'officerId' | 'tmEmpCode'; name: 'officerName' | 'tmName' }> = {
+  fda: { key: 'officerId', name: 'officerName' },
+  tm: { key: 'tmEmpCode', name: 'tmName' },
+};
+
+const PENDING_STATUSES = new Set(['unassigned', 'sampled_in_queue', 'in_progress']);
+const UNSUCCESSFUL_STATUSES = new Set(['not_reachable', 'invalid_number']);
+
+export interface CoverageWindow {
+  period: CoveragePeriod;
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+export interface OfficerCoverage {
+  officerKey: string;
+  officerName: string;
+  activities: number;
+  completed: number;
+  /** Tasks still open (unassigned, queued or in progress) */
+  pending: number;
+  /** Not reachable / invalid number; these do not count toward the target */
+  unsuccessful: number;
+  target: number;
+  /** target - completed */
+  shortfall: number;
+  /** Shortfall not already covered by pending tasks; what a top-up adds */
+  toTopUp: number;
+}
+
+export interface CoverageTopUpSummary {
+  periodStart: Date;
+  periodEnd: Date;
+  officersBelowTarget: number;
+  officersToppedUp: number;
+  tasksCreated: number;
+  officersStillShort: number;
+}
+
+const istMidnight = (date: string) => new Date(`${date}T00:00:00.000+05:30`);
+
+/** The IST calendar month or Monday-start week containing `asOf` */
+export const coverageWindow = (period: CoveragePeriod, asOf: Date = new Date()): CoverageWindow => {
+  const day = getRosterDay(asOf);
+  if (period === 'week') {
+    const start = new Date(istMidnight(day.date).getTime() - ((day.dayOfWeek + 6) % 7) * DAY_MS);
+    return { period, start, end: new Date(start.getTime() + 7 * DAY_MS - 1), label: `Week of ${getRosterDay(start).date}` };
+  }
+  const [year, month] = day.date.split('-').map(Number);
+  const next = month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+  return {
+    period,
+    start: istMidnight(`${day.date.slice(0, 7)}-01`),
+    end: new Date(istMidnight(`${next}-01`).getTime() - 1),
+    label: day.date.slice(0, 7),
+  };
+};
+
+type CoverageActivity = {
+  _id: mongoose.Types.ObjectId;
+  type: string;
+  date: Date;
+  lifecycleStatus?: string;
+  officerKey: string;
+  officerName: string;
+};
+
+const loadOfficerActivities = async (level: CoverageOfficerLevel, window: CoverageWindow): Promise<CoverageActivity[]> => {
+  const fields = OFFICER_FIELDS[level];
+  const docs = await Activity.find({
+    date: { $gte: window.start, $lte: window.end },
+    [fields.key]: { $nin: [null, ''] },
+  })
+    .select(`_id type date lifecycleStatus ${fields.key} ${fields.name}`)
+    .sort({ date: 1, _id: 1 })
+    .lean();
+  return docs
+    .map((d: any) => ({
+      _id: d._id,
+      type: d.type,
+      date: d.date,
+      lifecycleStatus: d.lifecycleStatus,
+      officerKey: String(d[fields.key] || '').trim(),
+      officerName: String(d[fields.name] || '').trim(),
+    }))
+    .filter((a) => a.officerKey);
+};
+
+const computeCoverage = async (activities: CoverageActivity[], target: number): Promise<OfficerCoverage[]> => {
+  const counts = await CallTask.aggregate<{ _id: { activityId: mongoose.Types.ObjectId; status: string }; count: number }>([
+    { $match: { activityId: { $in: activities.map((a) => a._id) } } },
+    { $group: { _id: { activityId: '$activityId', status: '$status' }, count: { $sum: 1 } } },
+  ]);
+  const officerByActivity = new Map(activities.map((a) => [a._id.toString(), a.officerKey]));
+
+  const byOfficer = new Map<string, OfficerCoverage>();
+  for (const a of activities) {
+    const row = byOfficer.get(a.officerKey) || {
+      officerKey: a.officerKey,
+      officerName: a.officerName || a.officerKey,
+      activities: 0,
+      completed: 0,
+      pending: 0,
+      unsuccessful: 0,
+      target,
+      shortfall: 0,
+      toTopUp: 0,
+    };
+    row.activities++;
+    byOfficer.set(a.officerKey, row);
+  }
+  for (const { _id, count } of counts) {
+    const row = byOfficer.get(officerByActivity.get(_id.activityId.toString()) || '');
+    if (!row) continue;
+    if (_id.status === 'completed') row.completed += count;
+    else if (PENDING_STATUSES.has(_id.status)) row.pending += count;
+    else if (UNSUCCESSFUL_STATUSES.has(_id.status)) row.unsuccessful += count;
+  }
+  for (const row of byOfficer.values()) {
+    row.shortfall = Math.max(0, target - row.completed);
+    row.toTopUp = Math.max(0, row.shortfall - row.pending);
+  }
+  return Array.from(byOfficer.values()).sort(
+    (a, b) => b.shortfall - a.shortfall || a.completed - b.completed || a.officerName.localeCompare(b.officerName)
+  );
+};
+
+const settingsOf = (coverage: Partial<ICoverageSettings> | undefined): ICoverageSettings => ({
+  enabled: !!coverage?.enabled,
+  officerLevel: coverage?.officerLevel ?? 'fda',
+  minValidationsPerOfficer: coverage?.minValidationsPerOfficer ?? 0,
+  period: coverage?.period ?? 'month',
+});
+
+/** Per-officer coverage for the period containing `asOf`, worst first */
+export const getCoverageReport = async (options: { asOf?: Date; belowTargetOnly?: boolean } = {}) => {
+  const config = await getActiveSamplingConfig();
+  const settings = settingsOf(config.coverage);
+  const window = coverageWindow(settings.period, options.asOf);
+  const officers = await computeCoverage(
+    await loadOfficerActivities(settings.officerLevel, window),
+    settings.minValidationsPerOfficer
+  );
+  const belowTarget = officers.filter((o) => o.shortfall > 0);
+  return {
+    settings,
+    period: { start: window.start, end: window.end, label: window.label },
+    totals: {
+      officers: officers.length,
+      belowTarget: belowTarget.length,
+      shortfall: belowTarget.reduce((sum, o) => sum + o.shortfall, 0),
+      pending: belowTarget.reduce((sum, o) => sum + Math.min(o.pending, o.shortfall), 0),
+    },
+    officers: options.belowTargetOnly ? belowTarget : officers,
+  };
+};
+
+/**
+ * Add tasks for officers whose completed + pending validations are below the target for the current
+ * period. Candidates are uncalled, out-of-cooling farmers on the officer's already-sampled activities
+ * of eligible types; picks are seeded from the run. Returns null when coverage is off.
+ */
+export const topUpOfficerCoverage = async (options: {
+  seed: string;
+  samplingRunId?: mongoose.Types.ObjectId | null;
+  samplingRunType?: 'first_sample' | 'adhoc' | null;
+  scheduledDate: Date;
+}): Promise<CoverageTopUpSummary | null> => {
+  const config = await getActiveSamplingConfig();
+  const settings = settingsOf(config.coverage);
+  if (!settings.enabled || settings.minValidationsPerOfficer <= 0) return null;
+
+  const window = coverageWindow(settings.period);
+  const activities = await loadOfficerActivities(settings.officerLevel, window);
+  const officers = await computeCoverage(activities, settings.minValidationsPerOfficer);
+  const summary: CoverageTopUpSummary = {
+    periodStart: window.start,
+    periodEnd: window.end,
+    officersBelowTarget: officers.filter((o) => o.shortfall > 0).length,
+    officersToppedUp: 0,
+    tasksCreated: 0,
+    officersStillShort: 0,
+  };
+
+  for (const officer of officers.filter((o) => o.toTopUp > 0)) {
+    const pool = activities.filter(
+      (a) =>
+        a.officerKey === officer.officerKey &&
+        a.lifecycleStatus === 'sampled' &&
+        isActivityTypeEligible(a.type, config.eligibleActivityTypes || [])
+    );
+    const [withFarmers, existingTasks] = await Promise.all([
+      Activity.find({ _id: { $in: pool.map((a) => a._id) } }).select('farmerIds').lean(),
+      CallTask.find({ activityId: { $in: pool.map((a) => a._id) } }).select('activityId farmerId').lean(),
+    ]);
+    const farmersByActivity = new Map(withFarmers.map((a) => [a._id.toString(), a.farmerIds || []]));
+    const tasked = new Set(existingTasks.map((t) => `${t.activityId}:${t.farmerId}`));
+
+    // One candidate per farmer (their earliest activity in the period), in activity date order
+    const candidates: Array<{ activityId: mongoose.Types.ObjectId; farmerId: mongoose.Types.ObjectId }> = [];
+    const seen = new Set<string>();
+    for (const a of pool) {
+      for (const farmerId of farmersByActivity.get(a._id.toString()) || []) {
+        if (seen.has(farmerId.toString()) || tasked.has(`${a._id}:${farmerId}`)) continue;
+        seen.add(farmerId.toString());
+        candidates.push({ activityId: a._id, farmerId });
+      }
+    }
+    const notCooling = new Set(
+      (await getEligibleFarmers(candidates.map((c) => c.farmerId), config.farmerCoolingDays)).map((id) => id.toString())
+    );
+    const picks = reservoirSampling(
+      candidates.filter((c) => notCooling.has(c.farmerId.toString())),
+      officer.toTopUp,
+      createSeededRandom(`${options.seed}:coverage:${officer.officerKey}`)
+    );
+
+    const byActivity = new Map<string, { activityId: mongoose.Types.ObjectId; farmerIds: mongoose.Types.ObjectId[] }>();
+    for (const pick of picks) {
+      const entry = byActivity.get(pick.activityId.toString()) || { activityId: pick.activityId, farmerIds: [] };
+      entry.farmerIds.push(pick.farmerId);
+      byActivity.set(pick.activityId.toString(), entry);
+    }
+
+    let created = 0;
+    for (const { activityId, farmerIds } of byActivity.values()) {
+      created += await createUnassignedTasksForFarmers(farmerIds, activityId, options.scheduledDate, {
+        samplingRunId: options.samplingRunId,
+        samplingRunType: options.samplingRunType,
+      });
+      await startFarmerCooling(farmerIds, config.farmerCoolingDays);
+      // Listed on the audit so verification does not report these as unexpected tasks
+      await SamplingAudit.updateOne(
+        { activityId },
+        {
+          $push: {
+            'metadata.coverageTopUps': {
+              samplingRunId: options.samplingRunId || null,
+              officerKey: officer.officerKey,
+              farmerIds: farmerIds.map((id) => id.toString()),
+              at: new Date(),
+            },
+          },
+        }
+      );
+    }
+
+    summary.tasksCreated += created;
+    if (created > 0) summary.officersToppedUp++;
+    if (created < officer.toTopUp) summary.officersStillShort++;
+  }
+
+  logger.info('Officer coverage top-up', { ...summary, level: settings.officerLevel, target: settings.minValidationsPerOfficer });
+  return summary;
+};
@@ -0,0 +1,266 @@
+import mongoose from 'mongoose';
+import { DoNotCall, type DoNotCallKind, type DoNotCallSource } from '../models/DoNotCall.js';
+import { Farmer } from '../models/Farmer.js';
+import { CallTask } from '../models/CallTask.js';
+import { AppError } from '../middleware/errorHandler.js';
+import logger from '../config/logger.js';
+
+/**
+ * Do-not-call / consent registry. Sampling and allocation both consult it, so a farmer on it is
+ * never picked for a new task nor handed to an agent while the entry is active.
+ */
+
+export const DO_NOT_CALL_KINDS: DoNotCallKind[] = ['do_not_call', 'no_consent'];
+export const DO_NOT_CALL_SOURCES: DoNotCallSource[] = ['agent', 'import', 'ffa'];
+
+/** Column headings used by both the export and the import template */
+export const DO_NOT_CALL_COLUMNS = ['Mobile Number', 'Farmer Name', 'Type', 'Reason', 'Source', 'Expires On', 'Recorded On'] as const;
+
+export interface DoNotCallInput {
+  kind?: DoNotCallKind;
+  reason: string;
+  source: DoNotCallSource;
+  /** null/undefined = no expiry */
+  expiresAt?: Date | null;
+  recordedByUserId?: mongoose.Types.ObjectId | string | null;
+  taskId?: mongoose.Types.ObjectId | string | null;
+}
+
+const badRequest = (message: string, statusCode = 400): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const toObjectId = (id: mongoose.Types.ObjectId | string | null | undefined) =>
+  id ? new mongoose.Types.ObjectId(String(id)) : null;
+
+/** Mongo filter for entries in force at `now` */
+export const activeDoNotCallFilter = (now: Date = new Date()) => ({
+  revokedAt: null,
+  $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+});
+
+/** The subset of `farmerIds` with an active entry */
+export const getDoNotCallFarmerIds = async (
+  farmerIds: Array<mongoose.Types.ObjectId | string>,
+  now: Date = new Date()
+): Promise<Set<string>> => {
+  if (!farmerIds.length) return new Set();
+  const entries = await DoNotCall.find({ farmerId: { $in: farmerIds }, ...activeDoNotCallFilter(now) })
+    .select('farmerId')
+    .lean();
+  return new Set(entries.map((e) => e.farmerId.toString()));
+};
+
+/**
+ * Put a farmer on the registry. A farmer has a single entry, so recording again replaces the
+ * previous one (and un-revokes it). Their uncalled tasks already in an agent's queue are parked
+ * back to unassigned, where allocation keeps them until the entry lapses.
+ */
+export const recordDoNotCall = async (farmerId: mongoose.Types.ObjectId | string, input: DoNotCallInput) => {
+  const kind = input.kind ?? 'do_not_call';
+  if (!DO_NOT_CALL_KINDS.includes(kind)) throw badRequest(`Invalid do-not-call type "${kind}"`);
+  const reason = String(input.reason ?? '').trim();
+  if (!reason) throw badRequest('A reason is required');
+  if (input.expiresAt && input.expiresAt.getTime() <= Date.now()) throw badRequest('Expiry must be in the future');
+
+  const farmer = await Farmer.findById(farmerId).select('mobileNumber').lean();
+  if (!farmer) throw badRequest('Farmer not found', 404);
+
+  const entry = await DoNotCall.findOneAndUpdate(
+    { farmerId: farmer._id },
+    {
+      $set: {
+        mobileNumber: farmer.mobileNumber,
+        kind,
+        reason,
+        source: input.source,
+        expiresAt: input.expiresAt ?? null,
+        recordedByUserId: toObjectId(input.recordedByUserId),
+        taskId: toObjectId(input.taskId),
+        revokedAt: null,
+        revokedByUserId: null,
+      },
+    },
+    { upsert: true, new: true, runValidators: true }
+  );
+  // The task an agent is submitting with this entry is left to the submission
+  const parked = await CallTask.updateMany(
+    {
+      farmerId: farmer._id,
+      status: 'sampled_in_queue',
+      callLog: null,
+      ...(input.taskId ? { _id: { $ne: toObjectId(input.taskId) } } : {}),
+    },
+    {
+      $set: { status: 'unassigned', assignedAgentId: null },
+      $push: { interactionHistory: { timestamp: new Date(), status: 'unassigned', notes: 'Parked: farmer put on the do-not-call registry' } },
+    }
+  );
+  logger.info('Farmer added to do-not-call registry', {
+    farmerId: farmer._id.toString(),
+    kind,
+    source: input.source,
+    tasksParked: parked.modifiedCount,
+  });
+  return entry;
+};
+
+/** Take a farmer off the registry (the entry is kept for the record) */
+export const revokeDoNotCall = async (farmerId: string, userId: mongoose.Types.ObjectId | string) => {
+  const entry = await DoNotCall.findOneAndUpdate(
+    { farmerId: new mongoose.Types.ObjectId(farmerId), revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedByUserId: toObjectId(userId) } },
+    { new: true }
+  );
+  if (!entry) throw badRequest('No active do-not-call entry for this farmer', 404);
+  return entry;
+};
+
+export interface DoNotCallListFilters {
+  kind?: DoNotCallKind;
+  source?: DoNotCallSource;
+  /** Matches mobile number (prefix) */
+  search?: string;
+  /** Include revoked and expired entries */
+  includeInactive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+const listQuery = (filters: DoNotCallListFilters) => {
+  const query: Record<string, unknown> = filters.includeInactive ? {} : activeDoNotCallFilter();
+  if (filters.kind) query.kind = filters.kind;
+  if (filters.source) query.source = filters.source;
+  const search = String(filters.search ?? '').replace(/\D/g, '');
+  if (search) query.mobileNumber = { $regex: `^${search}` };
+  return query;
+};
+
+export const listDoNotCall = async (filters: DoNotCallListFilters = {}) => {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(200, Math.max(1, filters.limit || 50));
+  const query = listQuery(filters);
+  const [entries, total] = await Promise.all([
+    DoNotCall.find(query)
+      .sort({ updatedAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate('farmerId', 'name mobileNumber preferredLanguage territory')
+      .populate('recordedByUserId', 'name email')
+      .lean(),
+    DoNotCall.countDocuments(query),
+  ]);
+  return { entries, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+};
+
+/** Registry counts; with `farmerIds`, only entries for those farmers */
+export const getDoNotCallCounts = async (farmerIds?: mongoose.Types.ObjectId[]) => {
+  const match: Record<string, unknown> = { ...activeDoNotCallFilter() };
+  if (farmerIds) match.farmerId = { $in: farmerIds };
+  const rows = await DoNotCall.aggregate<{ _id: { kind: DoNotCallKind; source: DoNotCallSource }; count: number }>([
+    { $match: match },
+    { $group: { _id: { kind: '$kind', source: '$source' }, count: { $sum: 1 } } },
+  ]);
+  const byKind: Record<DoNotCallKind, number> = { do_not_call: 0, no_consent: 0 };
+  const bySource: Record<DoNotCallSource, number> = { agent: 0, import: 0, ffa: 0 };
+  let total = 0;
+  for (const r of rows) {
+    byKind[r._id.kind] = (byKind[r._id.kind] || 0) + r.count;
+    bySource[r._id.source] = (bySource[r._id.source] || 0) + r.count;
+    total += r.count;
+  }
+  return { total, byKind, bySource };
+};
+
+const formatDate = (d?: Date | null) => (d ? new Date(d).toISOString().slice(0, 10) : '');
+
+/** Active entries as spreadsheet rows (DO_NOT_CALL_COLUMNS) */
+export const exportDoNotCallRows = async (filters: DoNotCallListFilters = {}) => {
+  const entries = await DoNotCall.find(listQuery(filters)).sort({ mobileNumber: 1 }).populate('farmerId', 'name').lean();
+  return entries.map((e: any) => ({
+    'Mobile Number': e.mobileNumber,
+    'Farmer Name': e.farmerId?.name ?? '',
+    Type: e.kind,
+    Reason: e.reason,
+    Source: e.source,
+    'Expires On': formatDate(e.expiresAt),
+    'Recorded On': formatDate(e.updatedAt),
+  }));
+};
+
+/** Accepts a Date cell, YYYY-MM-DD or DD/MM/YYYY; empty = no expiry */
+const parseExpiry = (value: unknown): Date | null => {
+  if (value === undefined || value === null || String(value).trim() === '') return null;
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) throw new Error('Invalid expiry date');
+    return value;
+  }
+  const raw = String(value).trim();
+  const dmy = raw.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  const date = dmy ? new Date(Number(dmy[3]), Number(dmy[2]) - 1, Number(dmy[1])) : /^\d{4}-\d{2}-\d{2}$/.test(raw) ? new Date(`${raw}T00:00:00`) : null;
+  if (!date || Number.isNaN(date.getTime())) throw new Error(`Invalid expiry date "${raw}" (use YYYY-MM-DD or DD/MM/YYYY)`);
+  return date;
+};
+
+const parseKind = (value: unknown): DoNotCallKind => {
+  const raw = String(value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (!raw || raw === 'dnc') return 'do_not_call';
+  if (raw === 'consent' || raw === 'no_consent') return 'no_consent';
+  if (raw === 'do_not_call') return 'do_not_call';
+  throw new Error(`Unknown type "${value}" (use do_not_call or no_consent)`);
+};
+
+export interface DoNotCallImportResult {
+  totalRows: number;
+  recorded: number;
+  errors: Array<{ row: number; mobileNumber: string; message: string }>;
+}
+
+/**
+ * Bulk import from spreadsheet rows keyed by DO_NOT_CALL_COLUMNS headings (Mobile Number, Type,
+ * Reason, Expires On). Farmers are matched by mobile number; unmatched or invalid rows are reported
+ * and skipped, the rest are recorded with source "import".
+ */
+export const importDoNotCallRows = async (
+  rows: Array<Record<string, unknown>>,
+  userId: mongoose.Types.ObjectId | string
+): Promise<DoNotCallImportResult> => {
+  const result: DoNotCallImportResult = { totalRows: rows.length, recorded: 0, errors: [] };
+  const mobileOf = (r: Record<string, unknown>) => String(r['Mobile Number'] ?? '').replace(/\D/g, '').slice(-10);
+
+  const mobiles = Array.from(new Set(rows.map(mobileOf).filter((m) => m.length === 10)));
+  const farmers = await Farmer.find({ mobileNumber: { $in: mobiles } }).select('_id mobileNumber mergedIntoFarmerId').lean();
+  const farmerByMobile = new Map(farmers.map((f) => [f.mobileNumber, f.mergedIntoFarmerId || f._id]));
+
+  for (let i = 0; i < rows.length; i++) {
+    const r = rows[i];
+    const mobileNumber = mobileOf(r);
+    // Row 1 is the header
+    const fail = (message: string) => result.errors.push({ row: i + 2, mobileNumber, message });
+    if (mobileNumber.length !== 10) {
+      fail('Mobile number must have 10 digits');
+      continue;
+    }
+    const farmerId = farmerByMobile.get(mobileNumber);
+    if (!farmerId) {
+      fail('No farmer with this mobile number');
+      continue;
+    }
+    try {
+      await recordDoNotCall(farmerId, {
+        kind: parseKind(r.Type),
+        reason: String(r.Reason ?? '').trim() || 'Imported',
+        source: 'import',
+        expiresAt: parseExpiry(r['Expires On']),
+        recordedByUserId: userId,
+      });
+      result.recorded++;
+    } catch (error: any) {
+      fail(error?.message || 'Failed to record entry');
+    }
+  }
+  logger.info('Do-not-call import finished', { totalRows: result.totalRows, recorded: result.recorded, errors: result.errors.length });
+  return result;
+};
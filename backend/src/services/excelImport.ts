@@ -1,8 +1,21 @@
 import * as XLSX from 'xlsx';
+import mongoose from 'mongoose';
 import logger from '../config/logger.js';
 import { Activity } from '../models/Activity.js';
 import { Farmer } from '../models/Farmer.js';
+import { Job } from '../models/Job.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { deleteJobFile, enqueueJob, getLatestJob, readJobFile, registerJobHandler, storeJobFile, type JobError } from './jobQueue.js';
 import { getLanguageForState } from '../utils/stateLanguageMapper.js';
+import { recordActivityChanges, recordFarmerChanges } from './changeHistoryService.js';
+import {
+  createIngestValidator,
+  describeIssues,
+  quarantineActivity,
+  recordBatchQuality,
+  toIngestCandidate,
+} from './ingestValidationService.js';
+import type { FFAActivity } from './ffaSync.js';
 
 export type ImportExcelError = { sheet: 'Activities' | 'Farmers'; row: number; message: string };
 
@@ -30,31 +43,58 @@ export type ImportExcelProgressState = {
     linksUpdated: number;
     errorsCount: number;
     errors: ImportExcelError[];
+    /** Activities held for review by the ingest rules */
+    quarantined?: number;
     durationMs: number;
     skipped?: boolean;
     skipReason?: string;
   };
 };
 
-let importProgress: ImportExcelProgressState = {
-  running: false,
-  startedAt: null,
-  finishedAt: null,
-  activitiesProcessed: 0,
-  totalActivities: 0,
-  farmersProcessed: 0,
-  totalFarmers: 0,
-  totalQualifiedActivities: 0,
-  totalQualifiedFarmers: 0,
-  loadedQualifiedActivities: 0,
-  loadedQualifiedFarmers: 0,
-  errorCount: 0,
-  message: '',
-  jobId: null,
-};
-
-export function getImportExcelProgress(): ImportExcelProgressState {
-  return { ...importProgress };
+export type ImportExcelResult = NonNullable<ImportExcelProgressState['lastResult']>;
+
+/** Counters reported while an import runs (stored as the job's progress) */
+type ImportExcelCounters = Omit<ImportExcelProgressState, 'running' | 'startedAt' | 'finishedAt' | 'message' | 'jobId' | 'lastResult'>;
+
+/** Progress of the latest excel_import job, whichever instance runs it */
+export async function getImportExcelProgress(): Promise<ImportExcelProgressState> {
+  const job = await getLatestJob('excel_import');
+  const p = (job?.progress || {}) as Partial<ImportExcelCounters>;
+  const state: ImportExcelProgressState = {
+    running: job?.status === 'queued' || job?.status === 'running',
+    startedAt: job ? (job.startedAt || job.createdAt).toISOString() : null,
+    finishedAt: job?.finishedAt ? job.finishedAt.toISOString() : null,
+    activitiesProcessed: p.activitiesProcessed ?? 0,
+    totalActivities: p.totalActivities ?? 0,
+    farmersProcessed: p.farmersProcessed ?? 0,
+    totalFarmers: p.totalFarmers ?? 0,
+    totalQualifiedActivities: p.totalQualifiedActivities ?? 0,
+    totalQualifiedFarmers: p.totalQualifiedFarmers ?? 0,
+    loadedQualifiedActivities: p.loadedQualifiedActivities ?? 0,
+    loadedQualifiedFarmers: p.loadedQualifiedFarmers ?? 0,
+    errorCount: p.errorCount ?? 0,
+    message: job?.message || '',
+    jobId: job ? job._id.toString() : null,
+  };
+  if (job?.status === 'completed') {
+    state.lastResult = job.result as ImportExcelResult;
+  } else if (job?.status === 'failed') {
+    // Row errors collected before the failure come first, then the error that stopped the import
+    const collected = (job.result || {}) as Partial<Pick<ImportExcelResult, 'errors' | 'errorsCount'>>;
+    state.message = 'Excel import failed';
+    state.errorCount += 1;
+    state.lastResult = {
+      activitiesRows: state.totalActivities,
+      farmersRows: state.totalFarmers,
+      activitiesUpserted: 0,
+      farmersUpserted: 0,
+      linksUpdated: 0,
+      errorsCount: (collected.errorsCount ?? 0) + 1,
+      errors: [...(collected.errors ?? []), { sheet: 'Activities', row: 0, message: job.lastError || 'Unknown error' }],
+      durationMs: job.finishedAt && job.startedAt ? job.finishedAt.getTime() - job.startedAt.getTime() : 0,
+    };
+  }
+  return state;
 }
 
 type ExcelActivityRow = {
@@ -141,6 +181,41 @@ const parseExcelDate = (value: any): Date => {
   return d;
 };
 
+/** Activity row and its farmer rows in the FFA shape, as quarantine stores them */
+const toFFAActivity = (activityId: string, row: ExcelActivityRow, farmerRows: ExcelFarmerRow[]): FFAActivity => {
+  let date: string;
+  try {
+    date = parseExcelDate((row as any).date).toISOString();
+  } catch {
+    date = normalizeStr((row as any).date);
+  }
+  return {
+    activityId,
+    type: normalizeStr(row.type),
+    date,
+    officerId: normalizeStr(row.officerId),
+    officerName: normalizeStr(row.officerName),
+    location: normalizeStr(row.location),
+    territory: normalizeStr(row.territory),
+    territoryName: normalizeStr(row.territoryName) || undefined,
+    zoneName: normalizeStr(row.zoneName) || undefined,
+    buName: normalizeStr(row.buName) || undefined,
+    tmEmpCode: normalizeStr(row.tmEmpCode) || undefined,
+    tmName: normalizeStr(row.tmName) || undefined,
+    state: normalizeStr(row.state),
+    crops: splitCSVCell(row.crops),
+    products: splitCSVCell(row.products),
+    farmers: farmerRows.map((fr) => ({
+      farmerId: normalizeStr(fr.farmerId),
+      name: normalizeStr(fr.name),
+      mobileNumber: normalizeStr(fr.mobileNumber),
+      location: normalizeStr(fr.location),
+      photoUrl: normalizeStr(fr.photoUrl) || undefined,
+      crops: splitCSVCell(fr.crops),
+    })),
+  };
+};
+
 async function bulkWriteInChunks<T>(
   ops: any[],
   chunkSize: number,
@@ -155,17 +230,37 @@ async function bulkWriteInChunks<T>(
   }
 }
 
-export async function startImportExcelJob(fileBuffer: Buffer): Promise<{ started: boolean; jobId: string; message: string }> {
-  if (importProgress.running) {
-    const reason = 'Another Excel import is already running';
-    return { started: false, jobId: importProgress.jobId || 'running', message: reason };
+/**
+ * Queue an import of an uploaded workbook. The file goes to GridFS so whichever instance claims
+ * the job can read it (and a retry after a restart still has it). Only one import runs at a time.
+ */
+export async function startImportExcelJob(
+  fileBuffer: Buffer,
+  createdByUserId?: mongoose.Types.ObjectId | string | null
+): Promise<{ started: boolean; jobId: string; message: string }> {
+  const reason = 'Another Excel import is already running';
+  const active = await Job.findOne({ activeKey: 'excel_import' }).select('_id').lean();
+  if (active) return { started: false, jobId: active._id.toString(), message: reason };
+
+  const fileId = await storeJobFile(fileBuffer, `excel-import-${Date.now()}.xlsx`);
+  const { job, enqueued } = await enqueueJob('excel_import', {}, { concurrencyKey: 'excel_import', fileId, createdByUserId });
+  if (!enqueued) {
+    await deleteJobFile(fileId);
+    return { started: false, jobId: job._id.toString(), message: reason };
   }
+  return { started: true, jobId: job._id.toString(), message: 'Excel import started. You can monitor progress on this page.' };
+}
 
-  const jobId = `excel-import-${Date.now()}`;
-  importProgress = {
-    running: true,
-    startedAt: new Date().toISOString(),
-    finishedAt: null,
+/**
+ * Import Activities + Farmers sheets. Row problems are collected in the result; a workbook that
+ * cannot be imported at all throws (400, so the job is not retried).
+ */
+async function importExcelWorkbook(
+  fileBuffer: Buffer,
+  jobId: string,
+  onProgress: (counters: ImportExcelCounters, message: string) => void
+): Promise<ImportExcelResult> {
+  const importProgress: ImportExcelCounters & { message: string } = {
     activitiesProcessed: 0,
     totalActivities: 0,
     farmersProcessed: 0,
@@ -176,340 +271,427 @@ export async function startImportExcelJob(fileBuffer: Buffer): Promise<{ started
     loadedQualifiedFarmers: 0,
     errorCount: 0,
     message: 'Excel import started',
-    jobId,
   };
+  const report = () => {
+    const { message, ...counters } = importProgress;
+    onProgress(counters, message);
+  };
+  report();
+
+  const t0 = Date.now();
+  const errors: ImportExcelError[] = [];
+  try {
+    const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
+    const activitiesSheetName = workbook.SheetNames.find((n) => n.toLowerCase() === 'activities');
+    const farmersSheetName = workbook.SheetNames.find((n) => n.toLowerCase() === 'farmers');
+
+    if (!activitiesSheetName || !farmersSheetName) {
+      const error: AppError = new Error('Workbook must include 2 sheets named exactly: Activities, Farmers');
+      error.statusCode = 400;
+      throw error;
+    }
 
-  // Kick off background work (don’t block HTTP request)
-  (async () => {
-    const t0 = Date.now();
-    const errors: ImportExcelError[] = [];
-    try {
-      const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
-      const activitiesSheetName = workbook.SheetNames.find((n) => n.toLowerCase() === 'activities');
-      const farmersSheetName = workbook.SheetNames.find((n) => n.toLowerCase() === 'farmers');
-
-      if (!activitiesSheetName || !farmersSheetName) {
-        throw new Error('Workbook must include 2 sheets named exactly: Activities, Farmers');
-      }
-
-      const activitiesSheet = workbook.Sheets[activitiesSheetName];
-      const farmersSheet = workbook.Sheets[farmersSheetName];
+    const activitiesSheet = workbook.Sheets[activitiesSheetName];
+    const farmersSheet = workbook.Sheets[farmersSheetName];
 
-      const activitiesRows = XLSX.utils.sheet_to_json<ExcelActivityRow>(activitiesSheet, { defval: '', raw: true });
-      const farmersRows = XLSX.utils.sheet_to_json<ExcelFarmerRow>(farmersSheet, { defval: '', raw: true });
+    const activitiesRows = XLSX.utils.sheet_to_json<ExcelActivityRow>(activitiesSheet, { defval: '', raw: true });
+    const farmersRows = XLSX.utils.sheet_to_json<ExcelFarmerRow>(farmersSheet, { defval: '', raw: true });
 
-      importProgress.totalActivities = activitiesRows.length;
-      importProgress.totalFarmers = farmersRows.length;
+    importProgress.totalActivities = activitiesRows.length;
+    importProgress.totalFarmers = farmersRows.length;
+    report();
 
-      // Build activity map
-      const activityById = new Map<string, { row: ExcelActivityRow; rowNum: number }>();
-      activitiesRows.forEach((r, idx) => {
-        const rowNum = idx + 2;
-        const activityId = normalizeStr((r as any).activityId);
-        if (!activityId) {
-          errors.push({ sheet: 'Activities', row: rowNum, message: 'Missing activityId' });
-          return;
-        }
-        activityById.set(activityId, { row: r, rowNum });
-      });
-
-      // Group farmers by activityId (keep row numbers)
-      const farmersByActivity = new Map<string, Array<{ row: ExcelFarmerRow; rowNum: number }>>();
-      farmersRows.forEach((r, idx) => {
-        const rowNum = idx + 2;
-        const activityId = normalizeStr((r as any).activityId);
-        if (!activityId) {
-          errors.push({ sheet: 'Farmers', row: rowNum, message: 'Missing activityId' });
-          return;
-        }
-        if (!activityById.has(activityId)) {
-          // This farmer row will never be processed (no matching activity), so surface it clearly.
-          errors.push({ sheet: 'Farmers', row: rowNum, message: `Unknown activityId (not found in Activities sheet): ${activityId}` });
-          return;
+    // Build activity map
+    const activityById = new Map<string, { row: ExcelActivityRow; rowNum: number }>();
+    activitiesRows.forEach((r, idx) => {
+      const rowNum = idx + 2;
+      const activityId = normalizeStr((r as any).activityId);
+      if (!activityId) {
+        errors.push({ sheet: 'Activities', row: rowNum, message: 'Missing activityId' });
+        return;
+      }
+      activityById.set(activityId, { row: r, rowNum });
+    });
+
+    // Group farmers by activityId (keep row numbers)
+    const farmersByActivity = new Map<string, Array<{ row: ExcelFarmerRow; rowNum: number }>>();
+    farmersRows.forEach((r, idx) => {
+      const rowNum = idx + 2;
+      const activityId = normalizeStr((r as any).activityId);
+      if (!activityId) {
+        errors.push({ sheet: 'Farmers', row: rowNum, message: 'Missing activityId' });
+        return;
+      }
+      if (!activityById.has(activityId)) {
+        // This farmer row will never be processed (no matching activity), so surface it clearly.
+        errors.push({ sheet: 'Farmers', row: rowNum, message: `Unknown activityId (not found in Activities sheet): ${activityId}` });
+        return;
+      }
+      if (!farmersByActivity.has(activityId)) farmersByActivity.set(activityId, []);
+      farmersByActivity.get(activityId)!.push({ row: r, rowNum });
+    });
+
+    // Ingest rules: drop rejected activities and farmers, hold quarantined activities for review
+    importProgress.message = 'Validating rows…';
+    report();
+    const validator = await createIngestValidator();
+    await validator.preload(farmersRows.map((r) => normalizeStr((r as any).mobileNumber)));
+    let quarantined = 0;
+    for (const [activityId, { row: activityRow, rowNum }] of Array.from(activityById.entries())) {
+      const farmerRowsForActivity = farmersByActivity.get(activityId) || [];
+      const payload = toFFAActivity(activityId, activityRow, farmerRowsForActivity.map((f) => f.row));
+      // eslint-disable-next-line no-await-in-loop
+      const verdict = await validator.check(toIngestCandidate({ ...payload, date: (activityRow as any).date }, parseExcelDate));
+
+      if (verdict.outcome !== 'accept') {
+        activityById.delete(activityId);
+        farmersByActivity.delete(activityId);
+        if (verdict.outcome === 'reject') {
+          errors.push({ sheet: 'Activities', row: rowNum, message: `activityId=${activityId}: ${describeIssues(verdict.issues, 'reject')}` });
+        } else {
+          // eslint-disable-next-line no-await-in-loop
+          await quarantineActivity(payload, verdict.issues, { source: 'excel_import', dataBatchId: jobId, rowRef: `Activities row ${rowNum}` });
+          quarantined += 1;
         }
-        if (!farmersByActivity.has(activityId)) farmersByActivity.set(activityId, []);
-        farmersByActivity.get(activityId)!.push({ row: r, rowNum });
-      });
-
-      // Memoize preferred language by state (only for states present)
-      const states = new Set<string>();
-      for (const { row } of activityById.values()) {
-        const state = normalizeStr((row as any).state);
-        if (state) states.add(state);
+        continue;
       }
-      const languageByState = new Map<string, string>();
-      await Promise.all(
-        Array.from(states).map(async (state) => {
-          try {
-            const lang = await getLanguageForState(state);
-            languageByState.set(state, lang);
-          } catch (e) {
-            languageByState.set(state, 'English');
-            logger.warn('[EXCEL IMPORT] Failed to resolve language for state "%s"', state);
-          }
-        })
-      );
-
-      // Build farmer upserts and per-activity mobile lists
-      const farmerOps: any[] = [];
-      const mobilesByActivity = new Map<string, string[]>();
-      const uniqueMobiles = new Set<string>();
-      let qualifiedActivities = 0;
-
-      for (const [activityId, { row: activityRow, rowNum }] of activityById.entries()) {
-        const state = normalizeStr((activityRow as any).state);
-        const territory = normalizeStr((activityRow as any).territory);
-        const territoryName = normalizeStr((activityRow as any).territoryName || territory);
-        const preferredLanguage = languageByState.get(state) || 'English';
 
-        // Activities must qualify by required fields + valid date (same checks as upsert phase).
+      for (const index of verdict.rejectedFarmers) {
+        const issues = verdict.issues.filter((i) => i.farmerIndex === index && i.severity === 'reject');
+        errors.push({
+          sheet: 'Farmers',
+          row: farmerRowsForActivity[index].rowNum,
+          message: `${describeIssues(issues).replace(/^Farmer \d+: /, '')} (activityId=${activityId})`,
+        });
+      }
+      if (verdict.rejectedFarmers.length) {
+        farmersByActivity.set(activityId, farmerRowsForActivity.filter((_, i) => !verdict.rejectedFarmers.includes(i)));
+      }
+      // Missing state let through (warn/off): derive it from the territory as FFA sync does
+      if (!normalizeStr((activityRow as any).state)) {
+        (activityRow as any).state = normalizeStr((activityRow as any).territory).replace(/\s+Zone$/i, '').trim();
+      }
+    }
+    await recordBatchQuality(jobId, 'excel_import', validator.tally);
+
+    // Memoize preferred language by state (only for states present)
+    const states = new Set<string>();
+    for (const { row } of activityById.values()) {
+      const state = normalizeStr((row as any).state);
+      if (state) states.add(state);
+    }
+    const languageByState = new Map<string, string>();
+    await Promise.all(
+      Array.from(states).map(async (state) => {
         try {
-          const type = normalizeStr((activityRow as any).type);
-          const officerId = normalizeStr((activityRow as any).officerId);
-          const officerName = normalizeStr((activityRow as any).officerName);
-          const location = normalizeStr((activityRow as any).location);
-          const terr = normalizeStr((activityRow as any).territory);
-          const st = normalizeStr((activityRow as any).state);
-          if (!type || !officerId || !officerName || !location || !terr || !st) {
-            throw new Error('Missing one or more required fields: type, officerId, officerName, location, territory, state');
-          }
-          void parseExcelDate((activityRow as any).date);
-          qualifiedActivities += 1;
-        } catch {
-          // Not qualified; errors are surfaced later during activity upsert.
+          const lang = await getLanguageForState(state);
+          languageByState.set(state, lang);
+        } catch (e) {
+          languageByState.set(state, 'English');
+          logger.warn('[EXCEL IMPORT] Failed to resolve language for state "%s"', state);
         }
+      })
+    );
+
+    // Build farmer upserts and per-activity mobile lists
+    const farmerOps: any[] = [];
+    const mobilesByActivity = new Map<string, string[]>();
+    const uniqueMobiles = new Set<string>();
+    let qualifiedActivities = 0;
+
+    for (const [activityId, { row: activityRow, rowNum }] of activityById.entries()) {
+      const state = normalizeStr((activityRow as any).state);
+      const territory = normalizeStr((activityRow as any).territory);
+      const territoryName = normalizeStr((activityRow as any).territoryName || territory);
+      const preferredLanguage = languageByState.get(state) || 'English';
+
+      // Activities must qualify by required fields + valid date (same checks as upsert phase).
+      try {
+        const type = normalizeStr((activityRow as any).type);
+        const officerId = normalizeStr((activityRow as any).officerId);
+        const officerName = normalizeStr((activityRow as any).officerName);
+        const location = normalizeStr((activityRow as any).location);
+        const terr = normalizeStr((activityRow as any).territory);
+        const st = normalizeStr((activityRow as any).state);
+        if (!type || !officerId || !officerName || !location || !terr || !st) {
+          throw new Error('Missing one or more required fields: type, officerId, officerName, location, territory, state');
+        }
+        void parseExcelDate((activityRow as any).date);
+        qualifiedActivities += 1;
+      } catch {
+        // Not qualified; errors are surfaced later during activity upsert.
+      }
 
-        const farmerRowsForActivity = farmersByActivity.get(activityId) || [];
-        const seenMobile = new Set<string>();
-        const mobiles: string[] = [];
-
-        for (const frw of farmerRowsForActivity) {
-          const fr = frw.row;
-          const name = normalizeStr((fr as any).name);
-          const mobileNumber = normalizeStr((fr as any).mobileNumber);
-          const location = normalizeStr((fr as any).location);
-          const photoUrl = normalizeStr((fr as any).photoUrl || '');
-
-          if (!name || !mobileNumber || !location) {
-            errors.push({
-              sheet: 'Farmers',
-              row: frw.rowNum,
-              message: `Missing required farmer fields (name/mobileNumber/location) for activityId=${activityId}`,
-            });
-            continue;
-          }
-          if (!/^[0-9]{10}$/.test(mobileNumber)) {
-            errors.push({
-              sheet: 'Farmers',
-              row: frw.rowNum,
-              message: `Invalid mobile number "${mobileNumber}" for activityId=${activityId}: must be exactly 10 digits`,
-            });
-            continue;
-          }
-          if (seenMobile.has(mobileNumber)) continue;
-          seenMobile.add(mobileNumber);
-          mobiles.push(mobileNumber);
-          uniqueMobiles.add(mobileNumber);
-
-          farmerOps.push({
-            updateOne: {
-              filter: { mobileNumber },
-              update: {
-                $set: {
-                  name,
-                  mobileNumber,
-                  location,
-                  preferredLanguage,
-                  territory: territoryName || 'Unknown',
-                  ...(photoUrl ? { photoUrl } : {}),
-                },
-              },
-              upsert: true,
-            },
+      const farmerRowsForActivity = farmersByActivity.get(activityId) || [];
+      const seenMobile = new Set<string>();
+      const mobiles: string[] = [];
+
+      for (const frw of farmerRowsForActivity) {
+        const fr = frw.row;
+        const name = normalizeStr((fr as any).name);
+        const mobileNumber = normalizeStr((fr as any).mobileNumber);
+        const location = normalizeStr((fr as any).location);
+        const photoUrl = normalizeStr((fr as any).photoUrl || '');
+
+        if (!name || !mobileNumber || !location) {
+          errors.push({
+            sheet: 'Farmers',
+            row: frw.rowNum,
+            message: `Missing required farmer fields (name/mobileNumber/location) for activityId=${activityId}`,
           });
+          continue;
         }
-
-        mobilesByActivity.set(activityId, mobiles);
-        importProgress.activitiesProcessed += 1;
-        importProgress.message = `Parsed activity ${importProgress.activitiesProcessed}/${importProgress.totalActivities}`;
-        if (!state || !territoryName) {
-          // not fatal; handled later by required fields check for activities
-          void rowNum;
+        if (!/^[0-9]{10}$/.test(mobileNumber)) {
+          errors.push({
+            sheet: 'Farmers',
+            row: frw.rowNum,
+            message: `Invalid mobile number "${mobileNumber}" for activityId=${activityId}: must be exactly 10 digits`,
+          });
+          continue;
         }
+        if (seenMobile.has(mobileNumber)) continue;
+        seenMobile.add(mobileNumber);
+        mobiles.push(mobileNumber);
+        uniqueMobiles.add(mobileNumber);
+
+        farmerOps.push({
+          updateOne: {
+            filter: { mobileNumber },
+            update: {
+              $set: {
+                name,
+                mobileNumber,
+                location,
+                preferredLanguage,
+                territory: territoryName || 'Unknown',
+                ...(photoUrl ? { photoUrl } : {}),
+              },
+            },
+            upsert: true,
+          },
+        });
       }
 
-      importProgress.totalQualifiedActivities = qualifiedActivities;
-      importProgress.totalQualifiedFarmers = uniqueMobiles.size;
-      importProgress.loadedQualifiedActivities = 0;
-      importProgress.loadedQualifiedFarmers = 0;
-
-      // Bulk upsert farmers
-      importProgress.message = 'Upserting farmers…';
-      let farmersUpserted = 0;
-      await bulkWriteInChunks(
-        farmerOps,
-        500,
-        async (chunk) => {
-          const res = await Farmer.bulkWrite(chunk, { ordered: false });
-          // upserts + matches are both “processed” from user perspective
-          farmersUpserted += (res.upsertedCount || 0) + (res.modifiedCount || 0);
-        },
-        (done) => {
-          importProgress.farmersProcessed = Math.min(done, farmerOps.length);
-          // Track unified progress based on qualified farmer upserts (deduped by mobile).
-          importProgress.loadedQualifiedFarmers = Math.min(importProgress.farmersProcessed, importProgress.totalQualifiedFarmers || 0);
-        }
-      );
-
-      // Fetch farmer ids by mobile number (for activity links)
-      const mobileList = Array.from(uniqueMobiles);
-      const farmerIdByMobile = new Map<string, any>();
-      for (let i = 0; i < mobileList.length; i += 2000) {
-        const slice = mobileList.slice(i, i + 2000);
-        // eslint-disable-next-line no-await-in-loop
-        const docs = await Farmer.find({ mobileNumber: { $in: slice } }).select('_id mobileNumber').lean();
-        docs.forEach((d: any) => farmerIdByMobile.set(String(d.mobileNumber), d._id));
+      mobilesByActivity.set(activityId, mobiles);
+      importProgress.activitiesProcessed += 1;
+      importProgress.message = `Parsed activity ${importProgress.activitiesProcessed}/${importProgress.totalActivities}`;
+      report();
+      if (!state || !territoryName) {
+        // not fatal; handled later by required fields check for activities
+        void rowNum;
+      }
+    }
+
+    importProgress.totalQualifiedActivities = qualifiedActivities;
+    importProgress.totalQualifiedFarmers = uniqueMobiles.size;
+    importProgress.loadedQualifiedActivities = 0;
+    importProgress.loadedQualifiedFarmers = 0;
+
+    // Farmers as stored before this import, for the change history
+    const previousFarmerByMobile = new Map<string, any>();
+    const uniqueMobileList = Array.from(uniqueMobiles);
+    for (let i = 0; i < uniqueMobileList.length; i += 2000) {
+      // eslint-disable-next-line no-await-in-loop
+      const docs = await Farmer.find({ mobileNumber: { $in: uniqueMobileList.slice(i, i + 2000) } }).lean();
+      docs.forEach((d: any) => previousFarmerByMobile.set(String(d.mobileNumber), d));
+    }
+
+    // Bulk upsert farmers
+    importProgress.message = 'Upserting farmers…';
+    report();
+    let farmersUpserted = 0;
+    await bulkWriteInChunks(
+      farmerOps,
+      500,
+      async (chunk) => {
+        const res = await Farmer.bulkWrite(chunk, { ordered: false });
+        // upserts + matches are both “processed” from user perspective
+        farmersUpserted += (res.upsertedCount || 0) + (res.modifiedCount || 0);
+      },
+      (done) => {
+        importProgress.farmersProcessed = Math.min(done, farmerOps.length);
+        // Track unified progress based on qualified farmer upserts (deduped by mobile).
+        importProgress.loadedQualifiedFarmers = Math.min(importProgress.farmersProcessed, importProgress.totalQualifiedFarmers || 0);
+        report();
       }
+    );
+
+    // Fetch farmer ids by mobile number (for activity links); a merged duplicate links its survivor
+    const mobileList = Array.from(uniqueMobiles);
+    const farmerIdByMobile = new Map<string, any>();
+    for (let i = 0; i < mobileList.length; i += 2000) {
+      const slice = mobileList.slice(i, i + 2000);
+      // eslint-disable-next-line no-await-in-loop
+      const docs = await Farmer.find({ mobileNumber: { $in: slice } }).select('_id mobileNumber mergedIntoFarmerId').lean();
+      docs.forEach((d: any) => farmerIdByMobile.set(String(d.mobileNumber), d.mergedIntoFarmerId || d._id));
+    }
 
-      // Build activity upserts with farmerIds resolved
-      importProgress.message = 'Upserting activities…';
-      const activityOps: any[] = [];
-      let linksUpdated = 0;
+    // Build activity upserts with farmerIds resolved
+    importProgress.message = 'Upserting activities…';
+    report();
+    const activityOps: any[] = [];
+    let linksUpdated = 0;
+
+    for (const [activityId, { row: activityRow, rowNum }] of activityById.entries()) {
+      try {
+        const type = normalizeStr((activityRow as any).type);
+        const officerId = normalizeStr((activityRow as any).officerId);
+        const officerName = normalizeStr((activityRow as any).officerName);
+        const location = normalizeStr((activityRow as any).location);
+        const territory = normalizeStr((activityRow as any).territory);
+        const state = normalizeStr((activityRow as any).state);
 
-      for (const [activityId, { row: activityRow, rowNum }] of activityById.entries()) {
-        try {
-          const type = normalizeStr((activityRow as any).type);
-          const officerId = normalizeStr((activityRow as any).officerId);
-          const officerName = normalizeStr((activityRow as any).officerName);
-          const location = normalizeStr((activityRow as any).location);
-          const territory = normalizeStr((activityRow as any).territory);
-          const state = normalizeStr((activityRow as any).state);
-
-          if (!type || !officerId || !officerName || !location || !territory || !state) {
-            throw new Error('Missing one or more required fields: type, officerId, officerName, location, territory, state');
-          }
-
-          const date = parseExcelDate((activityRow as any).date);
-          const territoryName = normalizeStr((activityRow as any).territoryName || territory);
-
-          const mobiles = mobilesByActivity.get(activityId) || [];
-          const farmerIds = mobiles
-            .map((m) => farmerIdByMobile.get(m))
-            .filter(Boolean);
-
-          activityOps.push({
-            updateOne: {
-              filter: { activityId },
-              update: {
-                $set: {
-                  activityId,
-                  type,
-                  date,
-                  officerId,
-                  officerName,
-                  location,
-                  territory,
-                  state,
-                  territoryName,
-                  zoneName: normalizeStr((activityRow as any).zoneName || ''),
-                  buName: normalizeStr((activityRow as any).buName || ''),
-                  tmEmpCode: normalizeStr((activityRow as any).tmEmpCode || ''),
-                  tmName: normalizeStr((activityRow as any).tmName || ''),
-                  crops: splitCSVCell((activityRow as any).crops),
-                  products: splitCSVCell((activityRow as any).products),
-                  farmerIds,
-                  syncedAt: new Date(),
-                  dataBatchId: jobId,
-                },
-                $setOnInsert: {
-                  lifecycleStatus: 'active',
-                  lifecycleUpdatedAt: new Date(),
-                },
+        if (!type || !officerId || !officerName || !location || !territory || !state) {
+          throw new Error('Missing one or more required fields: type, officerId, officerName, location, territory, state');
+        }
+
+        const date = parseExcelDate((activityRow as any).date);
+        const territoryName = normalizeStr((activityRow as any).territoryName || territory);
+
+        const mobiles = mobilesByActivity.get(activityId) || [];
+        const farmerIds = Array.from(
+          new Map(
+            mobiles
+              .map((m) => farmerIdByMobile.get(m))
+              .filter(Boolean)
+              .map((id) => [String(id), id])
+          ).values()
+        );
+
+        activityOps.push({
+          updateOne: {
+            filter: { activityId },
+            update: {
+              $set: {
+                activityId,
+                type,
+                date,
+                officerId,
+                officerName,
+                location,
+                territory,
+                state,
+                territoryName,
+                zoneName: normalizeStr((activityRow as any).zoneName || ''),
+                buName: normalizeStr((activityRow as any).buName || ''),
+                tmEmpCode: normalizeStr((activityRow as any).tmEmpCode || ''),
+                tmName: normalizeStr((activityRow as any).tmName || ''),
+                crops: splitCSVCell((activityRow as any).crops),
+                products: splitCSVCell((activityRow as any).products),
+                farmerIds,
+                syncedAt: new Date(),
+                dataBatchId: jobId,
+              },
+              $setOnInsert: {
+                lifecycleStatus: 'active',
+                lifecycleUpdatedAt: new Date(),
               },
-              upsert: true,
             },
-          });
-          linksUpdated += 1;
-        } catch (e: any) {
-          errors.push({ sheet: 'Activities', row: rowNum, message: `activityId=${activityId}: ${e?.message || String(e)}` });
-        }
+            upsert: true,
+          },
+        });
+        linksUpdated += 1;
+      } catch (e: any) {
+        errors.push({ sheet: 'Activities', row: rowNum, message: `activityId=${activityId}: ${e?.message || String(e)}` });
       }
+    }
 
-      // Qualified activities == those we actually attempt to upsert.
-      importProgress.totalQualifiedActivities = activityOps.length;
-      importProgress.loadedQualifiedActivities = 0;
-
-      let activitiesUpserted = 0;
-      await bulkWriteInChunks(
-        activityOps,
-        250,
-        async (chunk) => {
-          const res = await Activity.bulkWrite(chunk, { ordered: false });
-          activitiesUpserted += (res.upsertedCount || 0) + (res.modifiedCount || 0);
-        },
-        (done) => {
-          // activitiesProcessed is also used during parsing; never allow progress to go backwards
-          // when switching phases (parsing -> upserting).
-          importProgress.activitiesProcessed = Math.max(
-            importProgress.activitiesProcessed,
-            Math.min(done, activityOps.length)
-          );
-          importProgress.loadedQualifiedActivities = Math.min(
-            Math.max(0, done),
-            importProgress.totalQualifiedActivities || activityOps.length
-          );
-        }
-      );
-
-      const durationMs = Date.now() - t0;
-      importProgress.running = false;
-      importProgress.finishedAt = new Date().toISOString();
-      importProgress.message = 'Excel import completed';
-      importProgress.errorCount = errors.length;
-      importProgress.lastResult = {
-        activitiesRows: activitiesRows.length,
-        farmersRows: farmersRows.length,
-        activitiesUpserted,
-        farmersUpserted,
-        linksUpdated,
-        errorsCount: errors.length,
-        errors: errors.slice(0, 200),
-        durationMs,
-      };
-
-      logger.info('[EXCEL IMPORT] Completed', {
-        jobId,
-        durationMs,
-        activitiesRows: activitiesRows.length,
-        farmersRows: farmersRows.length,
-        errorsCount: errors.length,
-      });
-    } catch (e: any) {
-      const durationMs = Date.now() - t0;
-      importProgress.running = false;
-      importProgress.finishedAt = new Date().toISOString();
-      importProgress.message = 'Excel import failed';
-      importProgress.errorCount = errors.length + 1;
-      importProgress.lastResult = {
-        activitiesRows: importProgress.totalActivities,
-        farmersRows: importProgress.totalFarmers,
-        activitiesUpserted: 0,
-        farmersUpserted: 0,
-        linksUpdated: 0,
-        errorsCount: errors.length + 1,
-        errors: [...errors, { sheet: 'Activities' as const, row: 0, message: e?.message || String(e) }].slice(0, 200),
-        durationMs,
-      };
-      logger.error('[EXCEL IMPORT] Failed', { jobId, error: e?.message || String(e) });
+    const changeContext = { source: 'excel_import' as const, dataBatchId: jobId };
+    await recordFarmerChanges(
+      farmerOps.map((op) => {
+        const before = previousFarmerByMobile.get(op.updateOne.filter.mobileNumber) ?? null;
+        return { entityId: before?._id, entityKey: op.updateOne.filter.mobileNumber, before, after: op.updateOne.update.$set };
+      }),
+      changeContext
+    );
+
+    const previousActivityById = new Map<string, any>();
+    const upsertedActivityIds = activityOps.map((op) => op.updateOne.filter.activityId as string);
+    for (let i = 0; i < upsertedActivityIds.length; i += 2000) {
+      // eslint-disable-next-line no-await-in-loop
+      const docs = await Activity.find({ activityId: { $in: upsertedActivityIds.slice(i, i + 2000) } }).lean();
+      docs.forEach((d: any) => previousActivityById.set(String(d.activityId), d));
+    }
+
+    // Qualified activities == those we actually attempt to upsert.
+    importProgress.totalQualifiedActivities = activityOps.length;
+    importProgress.loadedQualifiedActivities = 0;
+
+    let activitiesUpserted = 0;
+    await bulkWriteInChunks(
+      activityOps,
+      250,
+      async (chunk) => {
+        const res = await Activity.bulkWrite(chunk, { ordered: false });
+        activitiesUpserted += (res.upsertedCount || 0) + (res.modifiedCount || 0);
+      },
+      (done) => {
+        // activitiesProcessed is also used during parsing; never allow progress to go backwards
+        // when switching phases (parsing -> upserting).
+        importProgress.activitiesProcessed = Math.max(
+          importProgress.activitiesProcessed,
+          Math.min(done, activityOps.length)
+        );
+        importProgress.loadedQualifiedActivities = Math.min(
+          Math.max(0, done),
+          importProgress.totalQualifiedActivities || activityOps.length
+        );
+        report();
+      }
+    );
+
+    await recordActivityChanges(
+      activityOps.map((op) => {
+        const before = previousActivityById.get(op.updateOne.filter.activityId) ?? null;
+        return { entityId: before?._id, entityKey: op.updateOne.filter.activityId, before, after: op.updateOne.update.$set };
+      }),
+      changeContext
+    );
+
+    const durationMs = Date.now() - t0;
+    importProgress.message = 'Excel import completed';
+    importProgress.errorCount = errors.length;
+    report();
+    const result: ImportExcelResult = {
+      activitiesRows: activitiesRows.length,
+      farmersRows: farmersRows.length,
+      activitiesUpserted,
+      farmersUpserted,
+      linksUpdated,
+      errorsCount: errors.length,
+      errors: errors.slice(0, 200),
+      quarantined,
+      durationMs,
+    };
+
+    logger.info('[EXCEL IMPORT] Completed', {
+      jobId,
+      durationMs,
+      activitiesRows: activitiesRows.length,
+      farmersRows: farmersRows.length,
+      quarantined,
+      errorsCount: errors.length,
+    });
+    return result;
+  } catch (e: any) {
+    importProgress.errorCount = errors.length + 1;
+    report();
+    logger.error('[EXCEL IMPORT] Failed', { jobId, rowErrors: errors.length, error: e?.message || String(e) });
+    if (e && typeof e === 'object') {
+      (e as JobError).result = { errorsCount: errors.length, errors: errors.slice(0, 200) };
     }
-  })().catch((err) => {
-    logger.error('[EXCEL IMPORT] Background job crash', err);
-    importProgress.running = false;
-    importProgress.finishedAt = new Date().toISOString();
-    importProgress.message = 'Excel import crashed';
-    importProgress.errorCount += 1;
-  });
-
-  return { started: true, jobId, message: 'Excel import started. You can monitor progress on this page.' };
+    throw e;
+  }
 }
 
+registerJobHandler('excel_import', async ({ job, progress }) => {
+  if (!job.fileId) {
+    const error: AppError = new Error('Excel import job has no uploaded file');
+    error.statusCode = 400;
+    throw error;
+  }
+  const fileBuffer = await readJobFile(job.fileId);
+  return importExcelWorkbook(fileBuffer, `excel-import-${job._id.toString()}`, (counters, message) => progress(counters, message));
+});
+
+
@@ -0,0 +1,556 @@
+import mongoose from 'mongoose';
+import { Farmer, type IFarmer } from '../models/Farmer.js';
+import {
+  FARMER_MERGE_STEPS,
+  FarmerMerge,
+  type FarmerMergeStep,
+  type FarmerSnapshot,
+  type IFarmerMerge,
+  type MergedSingleton,
+} from '../models/FarmerMerge.js';
+import { Activity } from '../models/Activity.js';
+import { CallTask } from '../models/CallTask.js';
+import { CoolingPeriod } from '../models/CoolingPeriod.js';
+import { DoNotCall } from '../models/DoNotCall.js';
+import { InboundQuery } from '../models/InboundQuery.js';
+import { activeDoNotCallFilter } from './doNotCallService.js';
+import { AppError } from '../middleware/errorHandler.js';
+import logger from '../config/logger.js';
+
+/**
+ * Duplicate farmers: the same person entered under a typo'd mobile number or another spelling of
+ * their name. The finder scores likely pairs; a merge moves activities, tasks, cooling, the
+ * do-not-call entry and inbound queries onto the survivor and logs every move so it can be undone.
+ */
+
+type UserId = mongoose.Types.ObjectId | string | null | undefined;
+type FarmerRow = Pick<IFarmer, 'name' | 'mobileNumber' | 'location' | 'territory' | 'createdAt'> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+/** Tasks in these states with no call logged can be dropped when the survivor already has the same task */
+const UNCALLED_STATUSES = ['unassigned', 'sampled_in_queue'];
+
+/** Farmers compared per finder run (most recently updated first) */
+const MAX_SCAN = 20000;
+/** Location groups larger than this are too generic to compare pairwise by name */
+const MAX_BLOCK = 300;
+
+const WEIGHTS = { name: 0.5, location: 0.2, mobile: 0.3 };
+
+const httpError = (message: string, statusCode: number): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const toObjectId = (id: UserId) => (id ? new mongoose.Types.ObjectId(String(id)) : null);
+
+const isDuplicateKey = (error: any) => error?.code === 11000;
+
+/** Edit distance counting an adjacent transposition as one edit (optimal string alignment) */
+export const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+const normalizeText = (value: string | undefined) =>
+  String(value ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const ratio = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - editDistance(a, b) / longest;
+};
+
+/** 0..1; word order is ignored so "Patil Sunita" matches "Sunita Patil" */
+export const nameSimilarity = (a: string, b: string) => {
+  const na = normalizeText(a);
+  const nb = normalizeText(b);
+  const sorted = (s: string) => s.split(' ').sort().join(' ');
+  return Math.max(ratio(na, nb), ratio(sorted(na), sorted(nb)));
+};
+
+const mobileSimilarity = (distance: number) => (distance <= 1 ? 1 : distance === 2 ? 0.5 : 0);
+
+export interface DuplicateFarmer {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  mobileNumber: string;
+  location: string;
+  territory: string;
+  activityCount: number;
+  taskCount: number;
+}
+
+export interface DuplicateCandidate {
+  score: number;
+  nameScore: number;
+  locationScore: number;
+  mobileDistance: number;
+  reasons: string[];
+  /** The farmer with more history; merge the other one into it */
+  suggestedSurvivorId: mongoose.Types.ObjectId;
+  farmers: [DuplicateFarmer, DuplicateFarmer];
+}
+
+export interface DuplicateSearchOptions {
+  territory?: string;
+  minScore?: number;
+  limit?: number;
+}
+
+/** Pairs worth scoring: mobiles one substitution or transposition apart, or the same location and name initial */
+const candidatePairs = (farmers: FarmerRow[]) => {
+  const pairs = new Set<string>();
+  const add = (i: number, j: number) => {
+    if (i !== j) pairs.add(i < j ? `${i}:${j}` : `${j}:${i}`);
+  };
+
+  const byMobile = new Map<string, number>();
+  const byMask = new Map<string, number[]>();
+  const byPlace = new Map<string, number[]>();
+  const push = (map: Map<string, number[]>, key: string, i: number) => {
+    const list = map.get(key);
+    if (list) list.push(i);
+    else map.set(key, [i]);
+  };
+
+  farmers.forEach((f, i) => {
+    const m = f.mobileNumber;
+    byMobile.set(m, i);
+    for (let k = 0; k < m.length; k++) push(byMask, `${m.slice(0, k)}_${m.slice(k + 1)}`, i);
+    const location = normalizeText(f.location);
+    const initial = normalizeText(f.name).charAt(0);
+    if (location && initial) push(byPlace, `${location}|${initial}`, i);
+  });
+
+  farmers.forEach((f, i) => {
+    const m = f.mobileNumber;
+    for (let k = 0; k + 1 < m.length; k++) {
+      if (m[k] === m[k + 1]) continue;
+      const swapped = m.slice(0, k) + m[k + 1] + m[k] + m.slice(k + 2);
+      const j = byMobile.get(swapped);
+      if (j !== undefined) add(i, j);
+    }
+  });
+  for (const group of byMask.values()) {
+    for (let x = 0; x < group.length; x++) for (let y = x + 1; y < group.length; y++) add(group[x], group[y]);
+  }
+  for (const group of byPlace.values()) {
+    if (group.length > MAX_BLOCK) continue;
+    for (let x = 0; x < group.length; x++) for (let y = x + 1; y < group.length; y++) add(group[x], group[y]);
+  }
+  return pairs;
+};
+
+/**
+ * Likely duplicate pairs among farmers that have not been merged. Score (0..1) weighs name
+ * similarity 0.5, location 0.2 and mobile closeness 0.3 (one digit off or swapped counts in full,
+ * two digits half), so the same name in the same village under an unrelated number stays below
+ * the default 0.75.
+ */
+export const findDuplicateCandidates = async (opts: DuplicateSearchOptions = {}) => {
+  const minScore = opts.minScore ?? 0.75;
+  const limit = Math.min(500, Math.max(1, opts.limit || 100));
+  const query: Record<string, unknown> = { mergedIntoFarmerId: null };
+  if (opts.territory) query.territory = opts.territory;
+
+  const farmers = (await Farmer.find(query)
+    .select('_id name mobileNumber location territory createdAt')
+    .sort({ updatedAt: -1 })
+    .limit(MAX_SCAN + 1)
+    .lean()) as FarmerRow[];
+  const truncated = farmers.length > MAX_SCAN;
+  if (truncated) farmers.length = MAX_SCAN;
+
+  const scored: Array<Omit<DuplicateCandidate, 'farmers' | 'suggestedSurvivorId'> & { pair: [FarmerRow, FarmerRow] }> = [];
+  for (const key of candidatePairs(farmers)) {
+    const [i, j] = key.split(':').map(Number);
+    const a = farmers[i];
+    const b = farmers[j];
+    const nameScore = nameSimilarity(a.name, b.name);
+    const locationScore = ratio(normalizeText(a.location), normalizeText(b.location));
+    const mobileDistance = editDistance(a.mobileNumber, b.mobileNumber);
+    const score =
+      WEIGHTS.name * nameScore + WEIGHTS.location * locationScore + WEIGHTS.mobile * mobileSimilarity(mobileDistance);
+    if (score < minScore) continue;
+
+    const reasons: string[] = [];
+    if (mobileDistance <= 2) reasons.push(`Mobile numbers differ by ${mobileDistance} digit${mobileDistance === 1 ? '' : 's'}`);
+    if (nameScore === 1) reasons.push('Same name');
+    else if (nameScore >= 0.7) reasons.push('Similar name');
+    if (locationScore === 1) reasons.push('Same location');
+    scored.push({ score: Math.round(score * 1000) / 1000, nameScore, locationScore, mobileDistance, reasons, pair: [a, b] });
+  }
+
+  scored.sort((x, y) => y.score - x.score);
+  const top = scored.slice(0, limit);
+
+  const ids = Array.from(new Set(top.flatMap((c) => c.pair.map((f) => f._id.toString())))).map(
+    (id) => new mongoose.Types.ObjectId(id)
+  );
+  const [activityCounts, taskCounts] = await Promise.all([
+    Activity.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+      { $match: { farmerIds: { $in: ids } } },
+      { $unwind: '$farmerIds' },
+      { $match: { farmerIds: { $in: ids } } },
+      { $group: { _id: '$farmerIds', count: { $sum: 1 } } },
+    ]),
+    CallTask.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+      { $match: { farmerId: { $in: ids } } },
+      { $group: { _id: '$farmerId', count: { $sum: 1 } } },
+    ]),
+  ]);
+  const activityCount = new Map(activityCounts.map((c) => [c._id.toString(), c.count]));
+  const taskCount = new Map(taskCounts.map((c) => [c._id.toString(), c.count]));
+
+  const describe = (f: FarmerRow): DuplicateFarmer => ({
+    _id: f._id,
+    name: f.name,
+    mobileNumber: f.mobileNumber,
+    location: f.location,
+    territory: f.territory,
+    activityCount: activityCount.get(f._id.toString()) || 0,
+    taskCount: taskCount.get(f._id.toString()) || 0,
+  });
+
+  const items: DuplicateCandidate[] = top.map(({ pair, ...rest }) => {
+    const [a, b] = pair.map(describe) as [DuplicateFarmer, DuplicateFarmer];
+    const aFirst =
+      a.taskCount !== b.taskCount
+        ? a.taskCount > b.taskCount
+        : a.activityCount !== b.activityCount
+          ? a.activityCount > b.activityCount
+          : pair[0].createdAt <= pair[1].createdAt;
+    return { ...rest, suggestedSurvivorId: aFirst ? a._id : b._id, farmers: [a, b] };
+  });
+
+  return { items, total: scored.length, scanned: farmers.length, truncated };
+};
+
+const snapshotOf = (f: IFarmer): FarmerSnapshot => ({
+  name: f.name,
+  mobileNumber: f.mobileNumber,
+  location: f.location,
+  territory: f.territory,
+});
+
+const loadFarmer = async (id: string, label: string) => {
+  const farmer = mongoose.isValidObjectId(id) ? await Farmer.findById(id) : null;
+  if (!farmer) throw httpError(`${label} farmer not found`, 404);
+  return farmer;
+};
+
+type SingletonDoc = Record<string, any> & { _id: mongoose.Types.ObjectId };
+
+/**
+ * What happens to the duplicate's one-per-farmer entry (cooling, do-not-call). Removals come first
+ * so a repoint never meets the survivor's own entry on the unique farmerId index.
+ */
+const planSingleton = <T extends SingletonDoc>(
+  collectionName: MergedSingleton['collectionName'],
+  survivorDoc: T | null,
+  mergedDoc: T | null,
+  mergedWins: (s: T, m: T) => boolean
+): MergedSingleton[] => {
+  if (!mergedDoc) return [];
+  const repoint: MergedSingleton = { collectionName, action: 'repointed', docId: mergedDoc._id, snapshot: mergedDoc };
+  if (!survivorDoc) return [repoint];
+  if (!mergedWins(survivorDoc, mergedDoc)) {
+    return [{ collectionName, action: 'removed', docId: mergedDoc._id, snapshot: mergedDoc }];
+  }
+  return [{ collectionName, action: 'removed', docId: survivorDoc._id, snapshot: survivorDoc }, repoint];
+};
+
+const singletonModel = (name: MergedSingleton['collectionName']): mongoose.Model<any> =>
+  name === 'CoolingPeriod' ? CoolingPeriod : DoNotCall;
+
+/**
+ * Write the steps a merge still has pending, checkpointing after each. Every step only moves what
+ * the saved plan lists and can run again, so a merge that failed part-way is finished by retrying it.
+ */
+const applyMergeSteps = async (log: IFarmerMerge) => {
+  const { survivorId, mergedId } = log;
+  const steps: Record<FarmerMergeStep, () => Promise<unknown>> = {
+    activities: async () => {
+      for (const { activityId, hadSurvivor } of log.activities) {
+        if (hadSurvivor) {
+          await Activity.updateOne({ _id: activityId }, { $pull: { farmerIds: mergedId } });
+        } else {
+          await Activity.updateOne({ _id: activityId, farmerIds: mergedId }, { $set: { 'farmerIds.$': survivorId } });
+        }
+      }
+    },
+    tasks: async () => {
+      if (log.tasksRemoved.length) await CallTask.deleteMany({ _id: { $in: log.tasksRemoved.map((t) => t._id) } });
+      if (log.tasksRepointed.length) {
+        await CallTask.updateMany({ _id: { $in: log.tasksRepointed } }, { $set: { farmerId: survivorId } });
+      }
+    },
+    singletons: async () => {
+      for (const entry of log.singletons) {
+        const model = singletonModel(entry.collectionName);
+        if (entry.action === 'removed') {
+          await model.deleteOne({ _id: entry.docId });
+        } else {
+          const repoint: Record<string, unknown> = { farmerId: survivorId };
+          if (entry.collectionName === 'DoNotCall') repoint.mobileNumber = log.survivor.mobileNumber;
+          await model.updateOne({ _id: entry.docId }, { $set: repoint });
+        }
+      }
+    },
+    inboundQueries: async () => {
+      if (log.inboundQueriesRepointed.length) {
+        await InboundQuery.updateMany({ _id: { $in: log.inboundQueriesRepointed } }, { $set: { farmerId: survivorId } });
+      }
+    },
+    farmer: () => Farmer.updateOne({ _id: mergedId }, { $set: { mergedIntoFarmerId: survivorId, mergedAt: new Date() } }),
+  };
+
+  for (const step of FARMER_MERGE_STEPS) {
+    if (!log.pendingSteps.includes(step)) continue;
+    await steps[step]();
+    log.pendingSteps = log.pendingSteps.filter((pending) => pending !== step);
+    await log.save();
+  }
+  return log;
+};
+
+/**
+ * Merge `mergedId` into `survivorId`. Every CallTask conflict on the activityId+farmerId+callbackNumber
+ * index is checked before anything is written: the uncalled one of the pair is dropped, and if both
+ * have been worked the merge is refused. The FarmerMerge record, with everything to move, is saved
+ * first; if a step fails, calling this again with the same pair finishes that merge.
+ */
+export const mergeFarmers = async (survivorId: string, mergedId: string, userId: UserId, note?: string | null) => {
+  if (survivorId === mergedId) throw httpError('Cannot merge a farmer into itself', 400);
+  const survivor = await loadFarmer(survivorId, 'Surviving');
+  const merged = await loadFarmer(mergedId, 'Duplicate');
+
+  const unfinished = await FarmerMerge.findOne({ mergedId: merged._id, status: 'applied', 'pendingSteps.0': { $exists: true } });
+  if (unfinished) {
+    if (!unfinished.survivorId.equals(survivor._id)) {
+      throw httpError('An unfinished merge of the duplicate into another farmer exists; retry or undo that merge first', 409);
+    }
+    logger.warn('[FARMER MERGE] Resuming unfinished merge', {
+      mergeId: unfinished._id.toString(),
+      pendingSteps: unfinished.pendingSteps,
+    });
+    return (await applyMergeSteps(unfinished)).toObject();
+  }
+
+  if (survivor.mergedIntoFarmerId) throw httpError('The surviving farmer has itself been merged into another farmer', 409);
+  if (merged.mergedIntoFarmerId) throw httpError('The duplicate farmer has already been merged', 409);
+  if (await Farmer.exists({ mergedIntoFarmerId: merged._id })) {
+    throw httpError('Other farmers were merged into the duplicate; merge into it instead or undo those merges first', 409);
+  }
+
+  const [activities, mergedTasks, survivorTasks, inbound] = await Promise.all([
+    Activity.find({ farmerIds: merged._id }).select('_id activityId farmerIds').lean(),
+    CallTask.find({ farmerId: merged._id }).lean(),
+    CallTask.find({ farmerId: survivor._id }).lean(),
+    InboundQuery.find({ farmerId: merged._id }).select('_id').lean(),
+  ]);
+
+  const isUncalled = (t: { status: string; callLog?: unknown }) => UNCALLED_STATUSES.includes(t.status) && !t.callLog;
+  const survivorTaskByKey = new Map(survivorTasks.map((t) => [`${t.activityId}:${t.callbackNumber}`, t]));
+  const tasksToRemove: Array<Record<string, any>> = [];
+  const tasksToRepoint: mongoose.Types.ObjectId[] = [];
+  for (const task of mergedTasks) {
+    const clash = survivorTaskByKey.get(`${task.activityId}:${task.callbackNumber}`);
+    if (!clash) {
+      tasksToRepoint.push(task._id as mongoose.Types.ObjectId);
+    } else if (isUncalled(task)) {
+      tasksToRemove.push(task);
+    } else if (isUncalled(clash)) {
+      tasksToRemove.push(clash);
+      tasksToRepoint.push(task._id as mongoose.Types.ObjectId);
+    } else {
+      throw httpError(
+        `Both farmers have a worked call task for the same activity (callback ${task.callbackNumber}); resolve one of them before merging`,
+        409
+      );
+    }
+  }
+
+  const [survivorCooling, mergedCooling, survivorDnc, mergedDnc, activeDnc] = await Promise.all([
+    CoolingPeriod.findOne({ farmerId: survivor._id }).lean(),
+    CoolingPeriod.findOne({ farmerId: merged._id }).lean(),
+    DoNotCall.findOne({ farmerId: survivor._id }).lean(),
+    DoNotCall.findOne({ farmerId: merged._id }).lean(),
+    DoNotCall.find({ farmerId: { $in: [survivor._id, merged._id] }, ...activeDoNotCallFilter() }).select('farmerId').lean(),
+  ]);
+  const dncActive = new Set(activeDnc.map((d) => d.farmerId.toString()));
+
+  const log = new FarmerMerge({
+    survivorId: survivor._id,
+    mergedId: merged._id,
+    survivor: snapshotOf(survivor),
+    merged: snapshotOf(merged),
+    status: 'applied',
+    note: note?.trim() || null,
+    activities: activities.map((a) => ({
+      activityId: a._id,
+      hadSurvivor: a.farmerIds.some((id) => id.equals(survivor._id)),
+    })),
+    tasksRepointed: tasksToRepoint,
+    tasksRemoved: tasksToRemove,
+    inboundQueriesRepointed: inbound.map((q) => q._id),
+    singletons: [
+      // The later cooling expiry wins; an active do-not-call entry beats a revoked or expired one
+      ...planSingleton('CoolingPeriod', survivorCooling, mergedCooling, (s, m) => m.expiresAt > s.expiresAt),
+      ...planSingleton(
+        'DoNotCall',
+        survivorDnc,
+        mergedDnc,
+        (s, m) => dncActive.has(m.farmerId.toString()) && !dncActive.has(s.farmerId.toString())
+      ),
+    ],
+    pendingSteps: [...FARMER_MERGE_STEPS],
+    mergedByUserId: toObjectId(userId),
+  });
+  // Claims the merged farmer (unique while applied) before any reference moves
+  await log.save();
+  await applyMergeSteps(log);
+
+  logger.info('[FARMER MERGE] Merged duplicate farmer', {
+    mergeId: log._id.toString(),
+    survivorId: survivor._id.toString(),
+    mergedId: merged._id.toString(),
+    activities: log.activities.length,
+    tasksRepointed: tasksToRepoint.length,
+    tasksRemoved: tasksToRemove.length,
+  });
+  return log.toObject();
+};
+
+const loadMerge = async (id: string): Promise<IFarmerMerge> => {
+  const merge = mongoose.isValidObjectId(id) ? await FarmerMerge.findById(id) : null;
+  if (!merge) throw httpError('Farmer merge not found', 404);
+  return merge;
+};
+
+/**
+ * Put back what a merge moved, in reverse: references first, then the deleted tasks and entries.
+ * Anything that no longer fits (a task or entry re-created since) is skipped and listed in
+ * undoConflicts rather than failing the undo half-way. A merge that failed part-way is undone up to
+ * the step it stopped in.
+ */
+export const undoFarmerMerge = async (id: string, userId: UserId) => {
+  const merge = await loadMerge(id);
+  if (merge.status !== 'applied') throw httpError(`Farmer merge is already ${merge.status}`, 409);
+  const { survivorId, mergedId } = merge;
+  const conflicts: string[] = [];
+  // Steps after the first pending one never started; the first may have been cut off half-way
+  const started = (step: FarmerMergeStep) => !merge.pendingSteps.includes(step) || merge.pendingSteps[0] === step;
+
+  if (started('farmer')) {
+    await Farmer.updateOne({ _id: mergedId }, { $set: { mergedIntoFarmerId: null, mergedAt: null } });
+  }
+
+  if (started('inboundQueries') && merge.inboundQueriesRepointed.length) {
+    await InboundQuery.updateMany({ _id: { $in: merge.inboundQueriesRepointed }, farmerId: survivorId }, { $set: { farmerId: mergedId } });
+  }
+
+  for (const entry of started('singletons') ? [...merge.singletons].reverse() : []) {
+    const model = singletonModel(entry.collectionName);
+    try {
+      if (entry.action === 'repointed') {
+        const { farmerId, mobileNumber } = entry.snapshot;
+        const restore: Record<string, unknown> = { farmerId };
+        if (entry.collectionName === 'DoNotCall') restore.mobileNumber = mobileNumber;
+        await model.updateOne({ _id: entry.docId }, { $set: restore });
+      } else if (!(await model.exists({ _id: entry.docId }))) {
+        await model.collection.insertOne(entry.snapshot);
+      }
+    } catch (error) {
+      if (!isDuplicateKey(error)) throw error;
+      conflicts.push(`${entry.collectionName} entry for farmer ${entry.snapshot.farmerId} already exists`);
+    }
+  }
+
+  if (started('tasks') && merge.tasksRepointed.length) {
+    await CallTask.updateMany({ _id: { $in: merge.tasksRepointed }, farmerId: survivorId }, { $set: { farmerId: mergedId } });
+  }
+  for (const task of started('tasks') ? merge.tasksRemoved : []) {
+    // Not deleted when the merge was cut off in its tasks step
+    if (await CallTask.exists({ _id: task._id })) continue;
+    try {
+      await CallTask.collection.insertOne(task);
+    } catch (error) {
+      if (!isDuplicateKey(error)) throw error;
+      conflicts.push(`Call task ${task._id} could not be restored (a task for the same activity and callback exists)`);
+    }
+  }
+
+  for (const { activityId, hadSurvivor } of started('activities') ? merge.activities : []) {
+    if (hadSurvivor) {
+      await Activity.updateOne({ _id: activityId }, { $addToSet: { farmerIds: mergedId } });
+    } else {
+      const moved = await Activity.updateOne(
+        { _id: activityId, farmerIds: survivorId },
+        { $set: { 'farmerIds.$': mergedId } }
+      );
+      if (moved.matchedCount === 0) await Activity.updateOne({ _id: activityId }, { $addToSet: { farmerIds: mergedId } });
+    }
+  }
+
+  merge.status = 'undone';
+  merge.pendingSteps = [];
+  merge.undoneAt = new Date();
+  merge.undoneByUserId = toObjectId(userId);
+  merge.undoConflicts = conflicts;
+  await merge.save();
+
+  logger.info('[FARMER MERGE] Undid merge', { mergeId: merge._id.toString(), conflicts: conflicts.length });
+  return merge.toObject();
+};
+
+export interface FarmerMergeListFilters {
+  status?: IFarmerMerge['status'];
+  farmerId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export const listFarmerMerges = async (filters: FarmerMergeListFilters = {}) => {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(100, Math.max(1, filters.limit || 25));
+  const query: Record<string, unknown> = {};
+  if (filters.status) query.status = filters.status;
+  if (filters.farmerId && mongoose.isValidObjectId(filters.farmerId)) {
+    const farmerId = new mongoose.Types.ObjectId(filters.farmerId);
+    query.$or = [{ survivorId: farmerId }, { mergedId: farmerId }];
+  }
+
+  const [items, total, grouped] = await Promise.all([
+    FarmerMerge.find(query)
+      .select('-tasksRemoved -singletons.snapshot')
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    FarmerMerge.countDocuments(query),
+    FarmerMerge.aggregate<{ _id: IFarmerMerge['status']; count: number }>([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+  ]);
+
+  const counts: Record<IFarmerMerge['status'], number> = { applied: 0, undone: 0 };
+  for (const g of grouped) counts[g._id] = g.count;
+  return { items, counts, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+};
+
+export const getFarmerMerge = async (id: string) => (await loadMerge(id)).toObject();
@@ -0,0 +1,380 @@
+import axios from 'axios';
+import { FFAClientHealth, type FFAFetchSummary } from '../models/FFAClientHealth.js';
+import type { FFAActivity } from './ffaSync.js';
+import logger from '../config/logger.js';
+
+/**
+ * HTTP client for the FFA API: follows pagination (page numbers or a nextCursor), retries
+ * transient failures with exponential backoff and full jitter, waits out 429/503 Retry-After,
+ * and keeps a circuit breaker that pauses scheduled syncs after repeated failed fetches.
+ * Settings are read from the environment on every fetch.
+ */
+
+export interface FFAClientConfig {
+  baseUrl: string;
+  pageSize: number;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  /** Longest single wait; a Retry-After beyond it fails the request instead of waiting */
+  retryMaxMs: number;
+  /** Consecutive failed fetches that open the circuit */
+  circuitThreshold: number;
+  circuitCooldownMinutes: number;
+}
+
+export type FFACircuitState = 'closed' | 'open' | 'half_open';
+
+interface FFARequestError extends Error {
+  status?: number;
+  retryable?: boolean;
+  retryAfterMs?: number | null;
+}
+
+interface FetchStats {
+  pages: number;
+  requests: number;
+  retries: number;
+  rateLimited: number;
+  shortPages: number;
+}
+
+interface FFAPage {
+  activities: FFAActivity[];
+  pagination?: { page?: number; limit?: number; total?: number; pages?: number; nextCursor?: string | null };
+  nextCursor?: string | null;
+}
+
+const MAX_PAGES = 10000;
+
+const envNumber = (name: string, fallback: number, min = 0) => {
+  const raw = process.env[name];
+  const n = raw === undefined || raw.trim() === '' ? NaN : Number(raw);
+  return Number.isFinite(n) && n >= min ? n : fallback;
+};
+
+export const getFFAClientConfig = (): FFAClientConfig => ({
+  baseUrl: (process.env.FFA_API_URL || 'http://localhost:4000/api').replace(/\/$/, ''),
+  pageSize: envNumber('FFA_PAGE_SIZE', 100, 1),
+  timeoutMs: envNumber('FFA_TIMEOUT_MS', 30000, 1),
+  maxRetries: envNumber('FFA_MAX_RETRIES', 4),
+  retryBaseMs: envNumber('FFA_RETRY_BASE_MS', 1000),
+  retryMaxMs: envNumber('FFA_RETRY_MAX_MS', 30000),
+  circuitThreshold: envNumber('FFA_CIRCUIT_THRESHOLD', 3, 1),
+  circuitCooldownMinutes: envNumber('FFA_CIRCUIT_COOLDOWN_MINUTES', 180),
+});
+
+/** Optional auth for the real FFA API (FFA_API_TOKEN as Bearer, or FFA_API_KEY as X-API-Key) */
+const authHeaders = (): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const ffaToken = process.env.FFA_API_TOKEN;
+  const ffaKey = process.env.FFA_API_KEY;
+  if (ffaToken && ffaToken.trim()) {
+    headers['Authorization'] = `Bearer ${ffaToken.trim()}`;
+  } else if (ffaKey && ffaKey.trim()) {
+    headers['X-API-Key'] = ffaKey.trim();
+  }
+  return headers;
+};
+
+const requestError = (
+  message: string,
+  opts: { status?: number; retryable: boolean; retryAfterMs?: number | null }
+): FFARequestError => {
+  const error: FFARequestError = new Error(message);
+  error.status = opts.status;
+  error.retryable = opts.retryable;
+  error.retryAfterMs = opts.retryAfterMs ?? null;
+  return error;
+};
+
+/** Retry-After as seconds or an HTTP date, in ms */
+export const parseRetryAfter = (value: unknown, now = Date.now()): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const raw = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(raw)) return Math.round(Number(raw) * 1000);
+  const at = Date.parse(raw);
+  return Number.isNaN(at) ? null : Math.max(0, at - now);
+};
+
+/** Full jitter: a random wait up to base * 2^attempt, capped at retryMaxMs */
+export const backoffDelay = (attempt: number, config: Pick<FFAClientConfig, 'retryBaseMs' | 'retryMaxMs'>) =>
+  Math.floor(Math.random() * Math.min(config.retryMaxMs, config.retryBaseMs * 2 ** attempt));
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const formatDDMMYYYY = (d: Date) =>
+  `${String(d.getDate()).padStart(2, '0')}/${String(d.getMonth() + 1).padStart(2, '0')}/${d.getFullYear()}`;
+
+const describeBody = (data: unknown) => {
+  if (data === undefined || data === null || data === '') return '';
+  const text = typeof data === 'string' ? data : JSON.stringify(data);
+  return ` - ${text.slice(0, 300)}`;
+};
+
+/** One GET of one page, classified into data or a (non-)retryable error */
+const requestPage = async (url: string, config: FFAClientConfig, stats: FetchStats): Promise<FFAPage> => {
+  stats.requests++;
+  let response;
+  try {
+    response = await axios.get(url, { timeout: config.timeoutMs, headers: authHeaders(), validateStatus: () => true });
+  } catch (error: any) {
+    const code = error?.code;
+    if (code === 'ECONNREFUSED' || code === 'ENOTFOUND') {
+      throw requestError(
+        `Cannot connect to FFA API at ${config.baseUrl}. Please check if the FFA API is running and FFA_API_URL is configured correctly.`,
+        { retryable: true }
+      );
+    }
+    if (code === 'ECONNABORTED' || code === 'ETIMEDOUT' || String(error?.message).includes('timeout')) {
+      throw requestError(`FFA API request timed out after ${Math.round(config.timeoutMs / 1000)} seconds`, { retryable: true });
+    }
+    throw requestError(`Network error connecting to FFA API: ${error?.message || 'unknown error'}`, { retryable: true });
+  }
+
+  const { status, statusText, data, headers } = response;
+  if (status >= 400) {
+    const message = `FFA API error (${status}): ${statusText || 'Unknown error'}${describeBody(data)}`;
+    if (status === 429) stats.rateLimited++;
+    const retryable = status === 408 || status === 429 || status >= 500;
+    throw requestError(message, { status, retryable, retryAfterMs: parseRetryAfter(headers?.['retry-after']) });
+  }
+
+  // A body cut off mid-stream arrives as a string; worth another try
+  if (!data || typeof data !== 'object') {
+    throw requestError('FFA API returned invalid response format', { status, retryable: true });
+  }
+  if (!data.success) {
+    throw requestError(data.message || data.error?.message || 'FFA API returned an error response', { status, retryable: false });
+  }
+  if (!data.data || !Array.isArray(data.data.activities)) {
+    throw requestError('FFA API response does not contain activities array', { status, retryable: false });
+  }
+  return data.data as FFAPage;
+};
+
+const withRetries = async <T>(label: string, config: FFAClientConfig, stats: FetchStats, fn: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const err = error as FFARequestError;
+      if (!err.retryable || attempt >= config.maxRetries) throw err;
+      if (err.retryAfterMs != null && err.retryAfterMs > config.retryMaxMs) {
+        err.message += ` (Retry-After ${Math.ceil(err.retryAfterMs / 1000)}s is longer than the ${Math.round(config.retryMaxMs / 1000)}s limit)`;
+        throw err;
+      }
+      const delay = Math.max(backoffDelay(attempt, config), err.retryAfterMs ?? 0);
+      stats.retries++;
+      logger.warn(`[FFA CLIENT] ${label} failed (attempt ${attempt + 1}/${config.maxRetries + 1}), retrying in ${delay}ms: ${err.message}`);
+      await sleep(delay);
+    }
+  }
+};
+
+/** Activities the page should hold according to its own pagination, or null when it does not say */
+const expectedOnPage = (page: FFAPage, pageNumber: number, pageSize: number) => {
+  const total = page.pagination?.total;
+  if (typeof total !== 'number') return null;
+  const limit = page.pagination?.limit || pageSize;
+  return Math.max(0, Math.min(limit, total - (pageNumber - 1) * limit));
+};
+
+export interface FFAActivitiesFetch {
+  activities: FFAActivity[];
+  /** Activities received over all pages, before duplicates were collapsed */
+  received: number;
+  /** Total FFA reported, when it reports one */
+  expectedTotal: number | null;
+  /** Fewer activities arrived than FFA reported, after retrying short pages */
+  incomplete: boolean;
+  summary: FFAFetchSummary;
+}
+
+/**
+ * Fetch every page of activities (optionally only those after `dateFrom`). Repeated activity IDs
+ * are collapsed to the last copy received. Throws once a page still fails after the retries; the
+ * outcome of every fetch feeds the circuit breaker.
+ */
+export const fetchActivities = async (opts: { dateFrom?: Date } = {}): Promise<FFAActivitiesFetch> => {
+  const config = getFFAClientConfig();
+  const stats: FetchStats = { pages: 0, requests: 0, retries: 0, rateLimited: 0, shortPages: 0 };
+  const started = Date.now();
+  const byId = new Map<string, FFAActivity>();
+  const withoutId: FFAActivity[] = [];
+  let received = 0;
+  let expectedTotal: number | null = null;
+
+  const summarize = (ok: boolean, error?: string): FFAFetchSummary => ({
+    at: new Date(),
+    ok,
+    durationMs: Date.now() - started,
+    pages: stats.pages,
+    activities: byId.size + withoutId.length,
+    requests: stats.requests,
+    retries: stats.retries,
+    rateLimited: stats.rateLimited,
+    shortPages: stats.shortPages,
+    duplicatesDropped: received - byId.size - withoutId.length,
+    error: error ?? null,
+  });
+
+  try {
+    let pageNumber = 1;
+    let cursor: string | null = null;
+    while (stats.pages < MAX_PAGES) {
+      const params = new URLSearchParams({ limit: String(config.pageSize) });
+      if (cursor) params.set('cursor', cursor);
+      else params.set('page', String(pageNumber));
+      if (opts.dateFrom) params.set('dateFrom', formatDDMMYYYY(opts.dateFrom));
+      const url = `${config.baseUrl}/activities?${params.toString()}`;
+      const label = cursor ? `Activities page after cursor ${cursor}` : `Activities page ${pageNumber}`;
+
+      // A page shorter than its pagination promises is fetched again; if it stays short it is used as is
+      let page: FFAPage;
+      for (let attempt = 0; ; attempt++) {
+        page = await withRetries(label, config, stats, () => requestPage(url, config, stats));
+        const expected = cursor ? null : expectedOnPage(page, pageNumber, config.pageSize);
+        if (expected === null || page.activities.length >= expected) break;
+        if (attempt >= config.maxRetries) {
+          stats.shortPages++;
+          logger.warn(`[FFA CLIENT] ${label} returned ${page.activities.length} of ${expected} activities after ${attempt + 1} tries`);
+          break;
+        }
+        stats.retries++;
+        await sleep(backoffDelay(attempt, config));
+      }
+
+      stats.pages++;
+      received += page.activities.length;
+      for (const activity of page.activities) {
+        if (activity?.activityId) byId.set(activity.activityId, activity);
+        else withoutId.push(activity);
+      }
+      if (typeof page.pagination?.total === 'number') expectedTotal = page.pagination.total;
+
+      const nextCursor = page.pagination?.nextCursor ?? page.nextCursor ?? null;
+      if (nextCursor) {
+        cursor = nextCursor;
+        continue;
+      }
+      if (cursor) break;
+      const pages = page.pagination?.pages;
+      if (typeof pages !== 'number' || pageNumber >= pages || page.activities.length === 0) break;
+      pageNumber++;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await recordFetch(summarize(false, message), config);
+    logger.error('[FFA CLIENT] Fetching activities failed', { error: message, ...stats });
+    throw error;
+  }
+
+  const summary = summarize(true);
+  await recordFetch(summary, config);
+  const activities = [...byId.values(), ...withoutId];
+  logger.info(`[FFA CLIENT] Fetched ${activities.length} activities in ${stats.pages} page(s)`, { ...stats, duplicatesDropped: summary.duplicatesDropped });
+  return {
+    activities,
+    received,
+    expectedTotal,
+    incomplete: expectedTotal !== null && received < expectedTotal,
+    summary,
+  };
+};
+
+const circuitState = (openUntil: Date | null | undefined, now = new Date()): FFACircuitState => {
+  if (!openUntil) return 'closed';
+  return openUntil > now ? 'open' : 'half_open';
+};
+
+/** Best-effort: a health write that fails must not fail the sync */
+const recordFetch = async (summary: FFAFetchSummary, config: FFAClientConfig) => {
+  try {
+    if (summary.ok) {
+      await FFAClientHealth.updateOne(
+        { key: 'ffa' },
+        {
+          $set: {
+            consecutiveFailures: 0,
+            circuitOpenedAt: null,
+            circuitOpenUntil: null,
+            lastSuccessAt: summary.at,
+            lastFetch: summary,
+          },
+        },
+        { upsert: true }
+      );
+      return;
+    }
+
+    const health = await FFAClientHealth.findOneAndUpdate(
+      { key: 'ffa' },
+      { $inc: { consecutiveFailures: 1 }, $set: { lastFailureAt: summary.at, lastError: summary.error, lastFetch: summary } },
+      { upsert: true, new: true }
+    );
+    if (health.consecutiveFailures >= config.circuitThreshold) {
+      const openUntil = new Date(summary.at.getTime() + config.circuitCooldownMinutes * 60 * 1000);
+      await FFAClientHealth.updateOne(
+        { key: 'ffa' },
+        { $set: { circuitOpenUntil: openUntil, circuitOpenedAt: health.circuitOpenedAt ?? summary.at } }
+      );
+      logger.warn(
+        `[FFA CLIENT] Circuit open after ${health.consecutiveFailures} failed fetches; scheduled syncs paused until ${openUntil.toISOString()}`
+      );
+    }
+  } catch (error) {
+    logger.warn('[FFA CLIENT] Could not record FFA client health', { error: (error as Error)?.message });
+  }
+};
+
+export const getFFAClientHealth = async () => {
+  const config = getFFAClientConfig();
+  const health = await FFAClientHealth.findOne({ key: 'ffa' }).lean();
+  return {
+    circuit: {
+      state: circuitState(health?.circuitOpenUntil),
+      consecutiveFailures: health?.consecutiveFailures ?? 0,
+      threshold: config.circuitThreshold,
+      cooldownMinutes: config.circuitCooldownMinutes,
+      openedAt: health?.circuitOpenedAt ?? null,
+      openUntil: health?.circuitOpenUntil ?? null,
+    },
+    lastSuccessAt: health?.lastSuccessAt ?? null,
+    lastFailureAt: health?.lastFailureAt ?? null,
+    lastError: health?.lastError ?? null,
+    lastFetch: health?.lastFetch ?? null,
+    config: {
+      pageSize: config.pageSize,
+      timeoutMs: config.timeoutMs,
+      maxRetries: config.maxRetries,
+      retryBaseMs: config.retryBaseMs,
+      retryMaxMs: config.retryMaxMs,
+    },
+  };
+};
+
+/**
+ * Whether the hourly sync may call FFA. While the circuit is open it is skipped; once the cooldown
+ * has passed one sync goes through as a trial and its outcome closes or re-opens the circuit.
+ * Manual syncs are not gated.
+ */
+export const checkScheduledSyncAllowed = async (): Promise<{ allowed: boolean; reason?: string }> => {
+  const health = await FFAClientHealth.findOne({ key: 'ffa' }).select('circuitOpenUntil consecutiveFailures').lean();
+  if (circuitState(health?.circuitOpenUntil) !== 'open') return { allowed: true };
+  return {
+    allowed: false,
+    reason: `FFA circuit is open after ${health!.consecutiveFailures} failed fetches, until ${health!.circuitOpenUntil!.toISOString()}`,
+  };
+};
+
+/** Close the circuit by hand (e.g. once FFA confirm the outage is over) */
+export const resetFFACircuit = async () => {
+  await FFAClientHealth.updateOne(
+    { key: 'ffa' },
+    { $set: { consecutiveFailures: 0, circuitOpenedAt: null, circuitOpenUntil: null } },
+    { upsert: true }
+  );
+  logger.info('[FFA CLIENT] Circuit reset');
+  return getFFAClientHealth();
+};
@@ -2,10 +2,29 @@ import { Activity, IActivity } from '../models/Activity.js';
 import { Farmer, IFarmer } from '../models/Farmer.js';
 import logger from '../config/logger.js';
 import mongoose from 'mongoose';
-import axios, { AxiosError } from 'axios';
 import { getLanguageForState } from '../utils/stateLanguageMapper.js';
-
-interface FFAActivity {
+import { fetchActivities, getFFAClientConfig, getFFAClientHealth } from './ffaClient.js';
+import { getDoNotCallFarmerIds, recordDoNotCall } from './doNotCallService.js';
+import { Job } from '../models/Job.js';
+import { enqueueJob, getLatestJob, registerJobHandler } from './jobQueue.js';
+import { recordActivityChanges, recordFarmerChanges, type ChangeCandidate } from './changeHistoryService.js';
+import type { ChangeSource } from '../models/ChangeHistory.js';
+import {
+  createIngestValidator,
+  describeIssues,
+  isStructuralRule,
+  loadPendingQuarantinedRecord,
+  markQuarantineReleased,
+  quarantineActivity,
+  recordBatchQuality,
+  toIngestCandidate,
+  type IngestValidator,
+  type IngestVerdict,
+} from './ingestValidationService.js';
+import type { IQuarantinedRecord } from '../models/QuarantinedRecord.js';
+import type { AppError } from '../middleware/errorHandler.js';
+
+export interface FFAActivity {
   activityId: string;
   type: string;
   date: string;
@@ -32,10 +51,11 @@ interface FFAFarmer {
   // preferredLanguage: string; // REMOVED - will be derived from state
   crops?: string[];
   photoUrl?: string;
+  /** Farmer opted out of calls in FFA */
+  doNotCall?: boolean;
+  doNotCallReason?: string;
 }
 
-const FFA_API_URL = process.env.FFA_API_URL || 'http://localhost:4000/api';
-
 /**
  * Parse FFA activity date string into a Date.
  * Supports:
@@ -83,139 +103,15 @@ const parseFFADate = (value: string): Date => {
 };
 
 /**
- * Fetch activities from FFA API with timeout and better error handling
- * @param dateFrom - Optional date to fetch activities after (for incremental sync)
- */
-const fetchFFAActivities = async (dateFrom?: Date): Promise<FFAActivity[]> => {
-  // Validate FFA_API_URL is set
-  if (!process.env.FFA_API_URL) {
-    logger.warn('FFA_API_URL environment variable is not set, using default: http://localhost:4000/api');
-  }
-
-  // Build URL with optional dateFrom parameter for incremental sync
-  // Handle trailing slash in FFA_API_URL to avoid double slashes
-  const baseUrl = FFA_API_URL.endsWith('/') ? FFA_API_URL.slice(0, -1) : FFA_API_URL;
-  let url = `${baseUrl}/activities?limit=100`;
-  if (dateFrom) {
-    // New contract: DD/MM/YYYY (keep server-side compatibility for legacy too)
-    const dd = String(dateFrom.getDate()).padStart(2, '0');
-    const mm = String(dateFrom.getMonth() + 1).padStart(2, '0');
-    const yyyy = String(dateFrom.getFullYear());
-    const dateFromDDMMYYYY = `${dd}/${mm}/${yyyy}`;
-    url += `&dateFrom=${encodeURIComponent(dateFromDDMMYYYY)}`;
-    logger.info(`[FFA SYNC] Incremental sync: fetching activities after ${dateFromDDMMYYYY}`);
-  } else {
-    logger.info(`[FFA SYNC] Full sync: fetching all activities`);
-  }
-
-  logger.info(`[FFA SYNC] Fetching activities from FFA API: ${url}`, {
-    ffaApiUrl: FFA_API_URL,
-    fullUrl: url,
-    hasEnvVar: !!process.env.FFA_API_URL,
-    incremental: !!dateFrom,
-    dateFrom: dateFrom?.toISOString(),
-  });
-
-  // Optional auth for real FFA API (use FFA_API_TOKEN for Bearer, or FFA_API_KEY for X-API-Key)
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-  const ffaToken = process.env.FFA_API_TOKEN;
-  const ffaKey = process.env.FFA_API_KEY;
-  if (ffaToken && ffaToken.trim()) {
-    headers['Authorization'] = `Bearer ${ffaToken.trim()}`;
-  } else if (ffaKey && ffaKey.trim()) {
-    headers['X-API-Key'] = ffaKey.trim();
-  }
-
-  try {
-    // Use axios with timeout and proper error handling
-    const response = await axios.get(url, {
-      timeout: 30000, // 30 second timeout
-      headers,
-      validateStatus: (status) => status < 500, // Don't throw for 4xx errors, we'll handle them
-    });
-    
-    // Check if response is successful (2xx)
-    if (response.status >= 400) {
-      logger.error(`FFA API returned error status ${response.status}:`, response.data);
-      throw new Error(`FFA API error (${response.status}): ${response.statusText || 'Unknown error'}`);
-    }
-
-    const data = response.data;
-    
-    if (!data || typeof data !== 'object') {
-      throw new Error('FFA API returned invalid response format');
-    }
-
-    if (!data.success) {
-      logger.error('FFA API returned success: false', data);
-      throw new Error(data.message || 'FFA API returned an error response');
-    }
-
-    if (!data.data || !Array.isArray(data.data.activities)) {
-      logger.error('FFA API response missing activities array', data);
-      throw new Error('FFA API response does not contain activities array');
-    }
-
-    logger.info(`[FFA SYNC] Successfully fetched ${data.data.activities.length} activities from FFA API`);
-    return data.data.activities;
-  } catch (error) {
-    let errorMessage = 'Unknown error';
-    let errorDetails: any = {};
-    
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      errorDetails = {
-        code: axiosError.code,
-        message: axiosError.message,
-        status: axiosError.response?.status,
-        statusText: axiosError.response?.statusText,
-        responseData: axiosError.response?.data,
-        config: {
-          url: axiosError.config?.url,
-          method: axiosError.config?.method,
-          timeout: axiosError.config?.timeout,
-        },
-      };
-      
-      if (axiosError.code === 'ECONNREFUSED' || axiosError.code === 'ENOTFOUND') {
-        errorMessage = `Cannot connect to FFA API at ${FFA_API_URL}. Please check if the FFA API is running and FFA_API_URL is configured correctly.`;
-      } else if (axiosError.code === 'ETIMEDOUT' || axiosError.message.includes('timeout')) {
-        errorMessage = 'FFA API request timed out after 30 seconds';
-      } else if (axiosError.response) {
-        errorMessage = `FFA API error (${axiosError.response.status}): ${axiosError.response.statusText || 'Unknown error'}`;
-        if (axiosError.response.data) {
-          errorMessage += ` - ${JSON.stringify(axiosError.response.data)}`;
-        }
-      } else {
-        errorMessage = `Network error connecting to FFA API: ${axiosError.message}`;
-      }
-    } else if (error instanceof Error) {
-      errorMessage = error.message;
-      errorDetails = {
-        name: error.name,
-        stack: error.stack,
-      };
-    } else {
-      errorDetails = { rawError: error };
-    }
-    
-    logger.error('[FFA SYNC] Error fetching activities from FFA API:', {
-      error: errorMessage,
-      url,
-      ffaApiUrl: FFA_API_URL,
-      envVarSet: !!process.env.FFA_API_URL,
-      errorDetails,
-    });
-    
-    throw new Error(errorMessage);
-  }
-};
-
-/**
- * Sync a single activity from FFA
+ * Sync a single activity from FFA (also used for activities pushed to the webhook)
  * @param dataBatchId - Same id for all activities in one sync run (for per-batch delete before sampling)
+ * @param source - Recorded on the change history of the activity and its farmers
  */
-const syncActivity = async (ffaActivity: FFAActivity, dataBatchId: string): Promise<IActivity> => {
+export const syncActivity = async (
+  ffaActivity: FFAActivity,
+  dataBatchId: string,
+  source: ChangeSource = 'ffa_sync'
+): Promise<IActivity> => {
   try {
     // Determine state (prefer FFA `state`, fallback to territory parsing for backward compatibility)
     // NOTE: In steady state, Activity API v2 must always provide `state`.
@@ -231,29 +127,40 @@ const syncActivity = async (ffaActivity: FFAActivity, dataBatchId: string): Prom
       logger.warn(`[FFA SYNC] Activity ${ffaActivity.activityId} missing state in payload; derived state from territory as "${resolvedState}"`);
     }
 
+    // Stored state before this sync, for the change history
+    const [previousActivity, previousFarmers] = await Promise.all([
+      Activity.findOne({ activityId: ffaActivity.activityId }).lean(),
+      Farmer.find({ mobileNumber: { $in: ffaActivity.farmers.map((f) => f.mobileNumber) } }).lean(),
+    ]);
+    const previousFarmerByMobile = new Map(previousFarmers.map((f) => [f.mobileNumber, f]));
+
+    const activityFields = {
+      activityId: ffaActivity.activityId,
+      type: ffaActivity.type,
+      date: parseFFADate(ffaActivity.date),
+      officerId: ffaActivity.officerId,
+      officerName: ffaActivity.officerName,
+      location: ffaActivity.location,
+      territory: ffaActivity.territory,
+      territoryName: (ffaActivity.territoryName || ffaActivity.territory || '').trim(),
+      zoneName: (ffaActivity.zoneName || '').trim(),
+      buName: (ffaActivity.buName || '').trim(),
+      state: resolvedState, // Store resolved state
+      tmEmpCode: (ffaActivity.tmEmpCode || '').trim(),
+      tmName: (ffaActivity.tmName || '').trim(),
+      crops: ffaActivity.crops || [],
+      products: ffaActivity.products || [],
+    };
+
     // Upsert activity
     const activity = await Activity.findOneAndUpdate(
       { activityId: ffaActivity.activityId },
       {
         $set: {
-        activityId: ffaActivity.activityId,
-        type: ffaActivity.type,
-          date: parseFFADate(ffaActivity.date),
-        officerId: ffaActivity.officerId,
-        officerName: ffaActivity.officerName,
-        location: ffaActivity.location,
-        territory: ffaActivity.territory,
-          territoryName: (ffaActivity.territoryName || ffaActivity.territory || '').trim(),
-          zoneName: (ffaActivity.zoneName || '').trim(),
-          buName: (ffaActivity.buName || '').trim(),
-          state: resolvedState, // Store resolved state
-          tmEmpCode: (ffaActivity.tmEmpCode || '').trim(),
-          tmName: (ffaActivity.tmName || '').trim(),
-        crops: ffaActivity.crops || [],
-        products: ffaActivity.products || [],
-        syncedAt: new Date(),
-        dataBatchId,
-      },
+          ...activityFields,
+          syncedAt: new Date(),
+          dataBatchId,
+        },
         $setOnInsert: {
           lifecycleStatus: 'active',
           lifecycleUpdatedAt: new Date(),
@@ -265,6 +172,7 @@ const syncActivity = async (ffaActivity: FFAActivity, dataBatchId: string): Prom
 
     // Sync farmers for this activity
     const farmerIds: mongoose.Types.ObjectId[] = [];
+    const farmerChanges: ChangeCandidate[] = [];
     
     // Get language for state (once per activity)
     const preferredLanguage = await getLanguageForState(resolvedState);
@@ -274,26 +182,51 @@ const syncActivity = async (ffaActivity: FFAActivity, dataBatchId: string): Prom
       // Farmer-level territory is not expected from FFA anymore. Always derive from Activity.
       const resolvedFarmerTerritory = ((ffaActivity.territoryName || ffaActivity.territory || '') as string).trim();
       // Upsert farmer - preferredLanguage now derived from state
-      const farmer = await Farmer.findOneAndUpdate(
-        { mobileNumber: ffaFarmer.mobileNumber },
-        {
-          name: ffaFarmer.name,
-          mobileNumber: ffaFarmer.mobileNumber,
-          location: ffaFarmer.location,
-          preferredLanguage: preferredLanguage, // Derived from state, not from FFA API
-          territory: resolvedFarmerTerritory || 'Unknown',
-          photoUrl: ffaFarmer.photoUrl,
-        },
-        { upsert: true, new: true }
-      );
+      const farmerFields = {
+        name: ffaFarmer.name,
+        mobileNumber: ffaFarmer.mobileNumber,
+        location: ffaFarmer.location,
+        preferredLanguage: preferredLanguage, // Derived from state, not from FFA API
+        territory: resolvedFarmerTerritory || 'Unknown',
+        photoUrl: ffaFarmer.photoUrl,
+      };
+      const farmer = await Farmer.findOneAndUpdate({ mobileNumber: ffaFarmer.mobileNumber }, farmerFields, {
+        upsert: true,
+        new: true,
+      });
+      farmerChanges.push({
+        entityId: farmer._id,
+        entityKey: farmer.mobileNumber,
+        before: previousFarmerByMobile.get(ffaFarmer.mobileNumber) ?? null,
+        after: farmerFields,
+      });
+
+      // A number merged as a duplicate keeps being updated but the activity links the surviving farmer
+      const linkedFarmerId = (farmer.mergedIntoFarmerId ?? farmer._id) as mongoose.Types.ObjectId;
+
+      // FFA opt-outs go on the registry; an existing active entry (e.g. captured by an agent) is kept as is
+      if (ffaFarmer.doNotCall === true && !(await getDoNotCallFarmerIds([linkedFarmerId])).size) {
+        await recordDoNotCall(linkedFarmerId, {
+          kind: 'do_not_call',
+          reason: ffaFarmer.doNotCallReason?.trim() || 'Opted out in FFA',
+          source: 'ffa',
+        });
+      }
 
-      farmerIds.push(farmer._id);
+      if (!farmerIds.some((id) => id.equals(linkedFarmerId))) farmerIds.push(linkedFarmerId);
     }
 
     // Update activity with farmer IDs
     activity.farmerIds = farmerIds;
     await activity.save();
 
+    const changeContext = { source, dataBatchId };
+    await recordFarmerChanges(farmerChanges, changeContext);
+    await recordActivityChanges(
+      [{ entityId: activity._id, entityKey: activity.activityId, before: previousActivity, after: { ...activityFields, farmerIds } }],
+      changeContext
+    );
+
     logger.info(`[FFA SYNC] Synced activity: ${ffaActivity.activityId} (${resolvedState}) with ${farmerIds.length} farmers (language: ${preferredLanguage})`);
 
     return activity;
@@ -303,15 +236,76 @@ const syncActivity = async (ffaActivity: FFAActivity, dataBatchId: string): Prom
   }
 };
 
+export type IngestOutcome =
+  | { status: 'synced'; activity: IActivity; verdict: IngestVerdict }
+  | { status: 'quarantined'; record: IQuarantinedRecord; verdict: IngestVerdict }
+  | { status: 'rejected'; verdict: IngestVerdict };
+
 /**
- * Sync all activities from FFA API
- * @param fullSync - If true, syncs all activities. If false, only syncs activities after the last sync date (incremental)
+ * Check an FFA activity against the ingest rules, then upsert it (without farmers a reject rule
+ * dropped), hold it in quarantine, or drop it. Pass one validator per batch so its tally and
+ * in-batch farmer names cover the whole run.
  */
-// Sync lock to prevent concurrent syncs
-let isSyncing = false;
-let lastSyncTime: number | null = null;
+export const ingestFFAActivity = async (
+  ffaActivity: FFAActivity,
+  dataBatchId: string,
+  source: ChangeSource = 'ffa_sync',
+  validator?: IngestValidator
+): Promise<IngestOutcome> => {
+  const verdict = await (validator ?? (await createIngestValidator())).check(toIngestCandidate(ffaActivity, parseFFADate));
+  if (verdict.outcome === 'reject') return { status: 'rejected', verdict };
+  if (verdict.outcome === 'quarantine') {
+    const record = await quarantineActivity(ffaActivity, verdict.issues, { source, dataBatchId });
+    return { status: 'quarantined', record, verdict };
+  }
+  const farmers = ffaActivity.farmers.filter((_, i) => !verdict.rejectedFarmers.includes(i));
+  const activity = await syncActivity({ ...ffaActivity, farmers }, dataBatchId, source);
+  return { status: 'synced', activity, verdict };
+};
 
-// Progress for UI (activities synced so far / total)
+/**
+ * Release a quarantined activity, with the admin's corrections merged over the stored payload.
+ * The rules run again: a structural problem (missing fields, bad date) always blocks with 400;
+ * remaining quarantine issues block with 409 unless `override` is set. Farmers with a reject or
+ * structural issue are left out. The upsert keeps the record's original batch and source.
+ */
+export const releaseQuarantinedActivity = async (
+  id: string,
+  userId: mongoose.Types.ObjectId | string | null | undefined,
+  opts: { payload?: Partial<FFAActivity>; override?: boolean; note?: string | null } = {}
+) => {
+  const record = await loadPendingQuarantinedRecord(id);
+  const ffaActivity = { ...record.payload, ...(opts.payload || {}), activityId: record.activityId } as FFAActivity;
+  const verdict = await (await createIngestValidator()).check(toIngestCandidate(ffaActivity, parseFFADate));
+
+  const fail = (message: string, statusCode: number) => {
+    const error: AppError = new Error(message);
+    error.statusCode = statusCode;
+    return error;
+  };
+  const blocks = (i: IngestVerdict['issues'][number]) => i.severity === 'reject' || isStructuralRule(i.rule);
+  const activityBlockers = verdict.issues.filter((i) => i.farmerIndex == null && blocks(i));
+  if (activityBlockers.length) throw fail(`Cannot release: ${describeIssues(activityBlockers)}`, 400);
+  if (verdict.outcome === 'quarantine' && !opts.override) {
+    // Keep the corrections made so far
+    record.payload = ffaActivity;
+    record.issues = verdict.issues;
+    await record.save();
+    throw fail(`Still caught by quarantine rules: ${describeIssues(verdict.issues, 'quarantine')}`, 409);
+  }
+
+  const dropped = new Set(verdict.issues.filter((i) => i.farmerIndex != null && blocks(i)).map((i) => i.farmerIndex as number));
+  const farmers = (ffaActivity.farmers || []).filter((_, i) => !dropped.has(i));
+  const activity = await syncActivity({ ...ffaActivity, farmers }, record.dataBatchId, record.source);
+
+  record.payload = ffaActivity;
+  record.issues = verdict.issues;
+  await markQuarantineReleased(record, activity._id, userId, opts.note);
+  logger.info(`[FFA SYNC] Released quarantined activity ${record.activityId}${opts.override ? ' (override)' : ''}`);
+  return { record: record.toObject(), activityId: activity._id, farmersSynced: farmers.length, farmersDropped: dropped.size };
+};
+
+// Progress for UI (activities synced so far / total), read from the latest ffa_sync job
 export type SyncProgressState = {
   running: boolean;
   activitiesSynced: number;
@@ -320,34 +314,10 @@ export type SyncProgressState = {
   errorCount: number;
   syncType: 'full' | 'incremental' | null;
   message: string;
-  lastResult?: {
-    activitiesSynced: number;
-    farmersSynced: number;
-    errors: string[];
-    syncType: 'full' | 'incremental';
-    skipped?: boolean;
-    skipReason?: string;
-  };
+  lastResult?: SyncResult;
 };
 
-let syncProgress: SyncProgressState = {
-  running: false,
-  activitiesSynced: 0,
-  totalActivities: 0,
-  farmersSynced: 0,
-  errorCount: 0,
-  syncType: null,
-  message: '',
-};
-
-export function getSyncProgress(): SyncProgressState {
-  return { ...syncProgress };
-}
-
-// Minimum time between syncs (in milliseconds) - default 10 minutes
-const MIN_SYNC_INTERVAL = parseInt(process.env.MIN_SYNC_INTERVAL || '600000', 10); // 10 minutes default
-
-export const syncFFAData = async (fullSync: boolean = false): Promise<{
+export type SyncResult = {
   activitiesSynced: number;
   farmersSynced: number;
   errors: string[];
@@ -355,50 +325,68 @@ export const syncFFAData = async (fullSync: boolean = false): Promise<{
   lastSyncDate?: Date;
   skipped?: boolean;
   skipReason?: string;
-}> => {
+  /** Activities held for review / dropped by the ingest rules */
+  quarantined?: number;
+  rejected?: number;
+};
+
+/** Counters reported while a sync runs (stored as the job's progress) */
+export type SyncCounters = Pick<SyncProgressState, 'activitiesSynced' | 'totalActivities' | 'farmersSynced' | 'errorCount' | 'syncType'> & {
+  /** Set once activities were fetched from FFA; syncs that got this far count for MIN_SYNC_INTERVAL */
+  fetchedAt?: string;
+};
+
+export const getSyncProgress = async (): Promise<SyncProgressState> => {
+  const job = await getLatestJob('ffa_sync');
+  if (!job) {
+    return { running: false, activitiesSynced: 0, totalActivities: 0, farmersSynced: 0, errorCount: 0, syncType: null, message: '' };
+  }
+  const p = (job.progress || {}) as Partial<SyncCounters>;
+  const state: SyncProgressState = {
+    running: job.status === 'queued' || job.status === 'running',
+    activitiesSynced: p.activitiesSynced ?? 0,
+    totalActivities: p.totalActivities ?? 0,
+    farmersSynced: p.farmersSynced ?? 0,
+    errorCount: p.errorCount ?? 0,
+    syncType: p.syncType ?? (job.payload?.fullSync === true ? 'full' : 'incremental'),
+    message: job.status === 'queued' && job.lastError ? `Retrying after error: ${job.lastError}` : job.message,
+  };
+  if (job.status === 'completed') {
+    state.lastResult = job.result as SyncResult;
+  } else if (job.status === 'failed') {
+    state.lastResult = {
+      activitiesSynced: state.activitiesSynced,
+      farmersSynced: state.farmersSynced,
+      errors: [job.lastError || 'Unknown error'],
+      syncType: state.syncType || 'incremental',
+    };
+  }
+  return state;
+};
+
+// Minimum time between syncs (in milliseconds) - default 10 minutes
+const MIN_SYNC_INTERVAL = parseInt(process.env.MIN_SYNC_INTERVAL || '600000', 10); // 10 minutes default
+
+/**
+ * Sync all activities from FFA API
+ * @param fullSync - If true, syncs all activities. If false, only syncs activities after the last sync date (incremental)
+ * @param onProgress - Receives the running counters (and a status message when the phase changes)
+ *
+ * Does not guard against concurrent runs: go through the ffa_sync job (see requestFFASync) for that.
+ */
+export const syncFFAData = async (
+  fullSync: boolean = false,
+  onProgress?: (counters: SyncCounters, message?: string) => void
+): Promise<SyncResult> => {
   const startTime = Date.now();
   const errors: string[] = [];
   let activitiesSynced = 0;
   let farmersSynced = 0;
   let lastSyncDate: Date | undefined;
+  const counters: SyncCounters = { activitiesSynced: 0, totalActivities: 0, farmersSynced: 0, errorCount: 0, syncType: null };
+  const report = (message?: string) => onProgress?.({ ...counters }, message);
 
   try {
-    // Check if sync is already in progress
-    if (isSyncing) {
-      const skipReason = 'Another sync is already in progress';
-      logger.warn(`[FFA SYNC] ${skipReason}`);
-      syncProgress.running = false;
-      syncProgress.lastResult = { activitiesSynced: 0, farmersSynced: 0, errors: [skipReason], syncType: 'incremental', skipped: true, skipReason };
-      return {
-        activitiesSynced: 0,
-        farmersSynced: 0,
-        errors: [skipReason],
-        syncType: 'incremental',
-        skipped: true,
-        skipReason,
-      };
-    }
-
-    // Check if sync was run recently (for incremental sync only)
-    if (!fullSync && lastSyncTime && (Date.now() - lastSyncTime) < MIN_SYNC_INTERVAL) {
-      const timeSinceLastSync = Math.round((Date.now() - lastSyncTime) / 1000 / 60); // minutes
-      const skipReason = `Sync was completed ${timeSinceLastSync} minute(s) ago. Please wait at least ${Math.round(MIN_SYNC_INTERVAL / 1000 / 60)} minutes between syncs.`;
-      logger.info(`[FFA SYNC] ${skipReason}`);
-      syncProgress.running = false;
-      syncProgress.lastResult = { activitiesSynced: 0, farmersSynced: 0, errors: [], syncType: 'incremental', skipped: true, skipReason };
-      return {
-        activitiesSynced: 0,
-        farmersSynced: 0,
-        errors: [],
-        syncType: 'incremental',
-        skipped: true,
-        skipReason,
-      };
-    }
-
-    // Set sync lock
-    isSyncing = true;
-
     // Determine sync type and get last sync date for incremental sync
     if (!fullSync) {
       try {
@@ -417,9 +405,6 @@ export const syncFFAData = async (fullSync: boolean = false): Promise<{
           if (timeSinceLastSync < 5 * 60 * 1000) { // 5 minutes
             const skipReason = `Last sync completed ${Math.round(timeSinceLastSync / 1000)} seconds ago. No new data expected.`;
             logger.info(`[FFA SYNC] ${skipReason}`);
-            isSyncing = false;
-            syncProgress.running = false;
-            syncProgress.lastResult = { activitiesSynced: 0, farmersSynced: 0, errors: [], syncType: 'incremental', skipped: true, skipReason };
             return {
               activitiesSynced: 0,
               farmersSynced: 0,
@@ -440,7 +425,7 @@ export const syncFFAData = async (fullSync: boolean = false): Promise<{
     }
 
     logger.info(`[FFA SYNC] Starting FFA data sync (${fullSync ? 'full' : 'incremental'})...`, {
-      ffaApiUrl: FFA_API_URL,
+      ffaApiUrl: getFFAClientConfig().baseUrl,
       hasEnvVar: !!process.env.FFA_API_URL,
       fullSync,
       lastSyncDate: lastSyncDate?.toISOString(),
@@ -448,8 +433,18 @@ export const syncFFAData = async (fullSync: boolean = false): Promise<{
 
     let ffaActivities: FFAActivity[];
     try {
-      ffaActivities = await fetchFFAActivities(fullSync ? undefined : lastSyncDate);
+      const fetched = await fetchActivities({ dateFrom: fullSync ? undefined : lastSyncDate });
+      ffaActivities = fetched.activities;
       logger.info(`[FFA SYNC] Fetched ${ffaActivities.length} activities from FFA API`);
+      if (fetched.incomplete) {
+        errors.push(
+          `FFA returned ${fetched.received} of ${fetched.expectedTotal} activities (${fetched.summary.shortPages} short page(s)); run a full sync later to fill the gap`
+        );
+        counters.errorCount = errors.length;
+      }
+      counters.syncType = fullSync ? 'full' : 'incremental';
+      counters.fetchedAt = new Date().toISOString();
+      report('Fetched activities from FFA');
     } catch (fetchError) {
       const errorMsg = fetchError instanceof Error ? fetchError.message : 'Failed to fetch activities from FFA API';
       logger.error('[FFA SYNC] Failed to fetch activities from FFA API:', errorMsg);
@@ -458,15 +453,6 @@ export const syncFFAData = async (fullSync: boolean = false): Promise<{
 
     if (!ffaActivities || ffaActivities.length === 0) {
       logger.warn('[FFA SYNC] No activities returned from FFA API');
-      isSyncing = false;
-      syncProgress.running = false;
-      syncProgress.lastResult = {
-        activitiesSynced: 0,
-        farmersSynced: 0,
-        errors: ['No activities found in FFA API response'],
-        syncType: fullSync ? 'full' : 'incremental',
-      };
-      lastSyncTime = Date.now();
       return {
         activitiesSynced: 0,
         farmersSynced: 0,
@@ -495,17 +481,6 @@ export const syncFFAData = async (fullSync: boolean = false): Promise<{
       
       if (newActivities.length === 0) {
         logger.info(`[FFA SYNC] All ${ffaActivities.length} fetched activities were already synced. No new data to process.`);
-        isSyncing = false;
-        syncProgress.running = false;
-        syncProgress.lastResult = {
-          activitiesSynced: 0,
-          farmersSynced: 0,
-          errors: [],
-          syncType: 'incremental',
-          skipped: true,
-          skipReason: `All ${ffaActivities.length} activities were already synced. No new data to process.`,
-        };
-        lastSyncTime = Date.now();
         return {
           activitiesSynced: 0,
           farmersSynced: 0,
@@ -522,44 +497,49 @@ export const syncFFAData = async (fullSync: boolean = false): Promise<{
       newActivities = ffaActivities;
     }
 
-    // Set progress for UI
-    syncProgress = {
-      running: true,
-      activitiesSynced: 0,
-      totalActivities: newActivities.length,
-      farmersSynced: 0,
-      errorCount: 0,
-      syncType: fullSync ? 'full' : 'incremental',
-      message: `Syncing activities (${fullSync ? 'full' : 'incremental'})...`,
-    };
+    counters.totalActivities = newActivities.length;
+    report(`Syncing activities (${fullSync ? 'full' : 'incremental'})...`);
 
     const dataBatchId = `sync-${Date.now()}`;
+    const validator = await createIngestValidator();
 
     for (const ffaActivity of newActivities) {
       try {
         if (!ffaActivity.activityId) {
           errors.push('Skipped activity: missing activityId');
-          syncProgress.errorCount++;
+          counters.errorCount = errors.length;
+          report();
           logger.warn('[FFA SYNC] Skipped activity with missing activityId');
           continue;
         }
 
-        const activity = await syncActivity(ffaActivity, dataBatchId);
+        const outcome = await ingestFFAActivity(ffaActivity, dataBatchId, 'ffa_sync', validator);
+        if (outcome.status !== 'synced') {
+          if (outcome.status === 'rejected') {
+            errors.push(`Rejected activity ${ffaActivity.activityId}: ${describeIssues(outcome.verdict.issues, 'reject')}`);
+            counters.errorCount = errors.length;
+            report();
+          }
+          continue;
+        }
         activitiesSynced++;
-        farmersSynced += activity.farmerIds.length;
-        syncProgress.activitiesSynced = activitiesSynced;
-        syncProgress.farmersSynced = farmersSynced;
-        syncProgress.errorCount = errors.length;
+        farmersSynced += outcome.activity.farmerIds.length;
+        counters.activitiesSynced = activitiesSynced;
+        counters.farmersSynced = farmersSynced;
+        report();
       } catch (error) {
         const errorMsg = `Failed to sync activity ${ffaActivity.activityId || 'unknown'}: ${error instanceof Error ? error.message : 'Unknown error'}`;
         errors.push(errorMsg);
-        syncProgress.errorCount = errors.length;
+        counters.errorCount = errors.length;
+        report();
         logger.error(`[FFA SYNC] ${errorMsg}`, error);
       }
     }
 
+    await recordBatchQuality(dataBatchId, 'ffa_sync', validator.tally);
+
     const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-    logger.info(`[FFA SYNC] FFA sync completed in ${duration}s (${fullSync ? 'full' : 'incremental'}): ${activitiesSynced} activities, ${farmersSynced} farmers, ${errors.length} errors`);
+    logger.info(`[FFA SYNC] FFA sync completed in ${duration}s (${fullSync ? 'full' : 'incremental'}): ${activitiesSynced} activities, ${farmersSynced} farmers, ${validator.tally.quarantined} quarantined, ${errors.length} errors`);
 
     const result = {
       activitiesSynced,
@@ -567,22 +547,13 @@ export const syncFFAData = async (fullSync: boolean = false): Promise<{
       errors,
       syncType: (fullSync ? 'full' : 'incremental') as 'full' | 'incremental',
       lastSyncDate,
+      quarantined: validator.tally.quarantined,
+      rejected: validator.tally.rejected,
     };
-    syncProgress.running = false;
-    syncProgress.lastResult = result;
-    isSyncing = false;
-    lastSyncTime = Date.now();
+    report('FFA sync completed');
 
     return result;
   } catch (error) {
-    syncProgress.running = false;
-    syncProgress.lastResult = {
-      activitiesSynced: syncProgress.activitiesSynced,
-      farmersSynced: syncProgress.farmersSynced,
-      errors: [error instanceof Error ? error.message : 'Unknown error'],
-      syncType: (syncProgress.syncType || 'incremental') as 'full' | 'incremental',
-    };
-    isSyncing = false;
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('[FFA SYNC] FFA sync failed:', {
       error: errorMessage,
@@ -592,6 +563,32 @@ export const syncFFAData = async (fullSync: boolean = false): Promise<{
   }
 };
 
+/**
+ * Queue an FFA sync (one at a time across instances). When a sync is already queued or running,
+ * that job is returned instead with `enqueued: false`.
+ */
+export const requestFFASync = (fullSync: boolean, createdByUserId?: mongoose.Types.ObjectId | string | null) =>
+  enqueueJob('ffa_sync', { fullSync }, { concurrencyKey: 'ffa_sync', createdByUserId });
+
+registerJobHandler('ffa_sync', async ({ job, progress }) => {
+  const fullSync = job.payload.fullSync === true;
+  if (!fullSync) {
+    const last = await Job.findOne({ type: 'ffa_sync', status: 'completed', 'progress.fetchedAt': { $exists: true } })
+      .sort({ finishedAt: -1 })
+      .select('finishedAt')
+      .lean();
+    const since = last?.finishedAt ? Date.now() - new Date(last.finishedAt).getTime() : null;
+    if (since !== null && since < MIN_SYNC_INTERVAL) {
+      const skipReason = `Sync was completed ${Math.round(since / 1000 / 60)} minute(s) ago. Please wait at least ${Math.round(MIN_SYNC_INTERVAL / 1000 / 60)} minutes between syncs.`;
+      logger.info(`[FFA SYNC] ${skipReason}`);
+      progress({ syncType: 'incremental' }, 'Sync skipped');
+      const result: SyncResult = { activitiesSynced: 0, farmersSynced: 0, errors: [], syncType: 'incremental', skipped: true, skipReason };
+      return result;
+    }
+  }
+  return syncFFAData(fullSync, (counters, message) => progress(counters, message));
+});
+
 /**
  * Get sync status
  */
@@ -605,6 +602,7 @@ export const getSyncStatus = async () => {
       lastSyncAt: lastActivity?.syncedAt || null,
       totalActivities,
       totalFarmers,
+      client: await getFFAClientHealth(),
     };
   } catch (error) {
     logger.error('Error getting sync status:', error);
@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import type { Request } from 'express';
+import {
+  FFAWebhookEvent,
+  type FFAWebhookEventStatus,
+  type FFAWebhookEventType,
+  type IFFAWebhookEvent,
+} from '../models/FFAWebhookEvent.js';
+import { Activity } from '../models/Activity.js';
+import { CallTask } from '../models/CallTask.js';
+import { SamplingAudit } from '../models/SamplingAudit.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { ingestFFAActivity, type FFAActivity } from './ffaSync.js';
+import { createIngestValidator, describeIssues, recordBatchQuality } from './ingestValidationService.js';
+import logger from '../config/logger.js';
+
+/**
+ * Push ingest: FFA posts activity events to /api/ffa/webhook between the hourly pulls.
+ *
+ * Each request carries X-FFA-Timestamp (unix seconds) and X-FFA-Signature = "sha256=" + hex
+ * HMAC-SHA256 of `${timestamp}.${raw body}` keyed with FFA_WEBHOOK_SECRET. Events are stored by
+ * eventId before they are applied, so redeliveries are acknowledged without re-applying and any
+ * event can be replayed from the log.
+ */
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Unparsed JSON body, kept only for signed webhook requests */
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export const FFA_WEBHOOK_PATH = '/api/ffa/webhook';
+export const FFA_WEBHOOK_EVENT_TYPES: FFAWebhookEventType[] = ['activity.created', 'activity.updated', 'activity.deleted'];
+export const FFA_WEBHOOK_EVENT_STATUSES: FFAWebhookEventStatus[] = ['received', 'processed', 'ignored', 'failed'];
+
+/** Most failed events one bulk replay will retry */
+export const MAX_BULK_REPLAY = 500;
+
+const toleranceSeconds = () => parseInt(process.env.FFA_WEBHOOK_TOLERANCE_SECONDS || '300', 10);
+
+const httpError = (message: string, statusCode: number): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+/** express.json `verify` hook: keep the exact bytes FFA signed */
+export const keepWebhookRawBody = (req: Request, _res: unknown, buf: Buffer) => {
+  if (req.originalUrl?.split('?')[0] === FFA_WEBHOOK_PATH) req.rawBody = Buffer.from(buf);
+};
+
+export const signWebhookPayload = (secret: string, timestamp: string, rawBody: Buffer | string): string =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex')}`;
+
+/**
+ * Throws 503 when FFA_WEBHOOK_SECRET is not configured and 401 for a missing, wrong or
+ * out-of-tolerance signature.
+ */
+export const verifyWebhookSignature = (
+  headers: Record<string, string | string[] | undefined>,
+  rawBody: Buffer | undefined,
+  now: Date = new Date()
+): void => {
+  const secret = (process.env.FFA_WEBHOOK_SECRET || '').trim();
+  if (!secret) {
+    logger.warn('[FFA WEBHOOK] FFA_WEBHOOK_SECRET not set; rejecting event');
+    throw httpError('FFA webhook is not configured (FFA_WEBHOOK_SECRET missing).', 503);
+  }
+
+  const timestamp = String(headers['x-ffa-timestamp'] || '').trim();
+  const provided = String(headers['x-ffa-signature'] || '').trim();
+  if (!/^\d+$/.test(timestamp) || !provided || !rawBody) {
+    throw httpError('Missing X-FFA-Timestamp or X-FFA-Signature', 401);
+  }
+  if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > toleranceSeconds()) {
+    throw httpError('X-FFA-Timestamp is outside the allowed window', 401);
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, rawBody));
+  const actual = Buffer.from(provided);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw httpError('Invalid X-FFA-Signature', 401);
+  }
+};
+
+export interface ParsedWebhookEvent {
+  eventId: string;
+  type: FFAWebhookEventType;
+  activityId: string;
+  occurredAt: Date;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Body: { eventId, type, occurredAt, activityId, activity? }. Create and update events carry the
+ * full activity in the same shape as GET /activities; deletes only need activityId.
+ */
+export const parseWebhookEvent = (body: any): ParsedWebhookEvent => {
+  const eventId = String(body?.eventId ?? '').trim();
+  const type = body?.type as FFAWebhookEventType;
+  const occurredAt = new Date(body?.occurredAt);
+  const activity = body?.activity;
+  const activityId = String(body?.activityId ?? activity?.activityId ?? '').trim();
+
+  if (!eventId || eventId.length > 200) throw httpError('eventId is required', 400);
+  if (!FFA_WEBHOOK_EVENT_TYPES.includes(type)) {
+    throw httpError(`type must be one of: ${FFA_WEBHOOK_EVENT_TYPES.join(', ')}`, 400);
+  }
+  if (Number.isNaN(occurredAt.getTime())) throw httpError('occurredAt must be a valid date', 400);
+  if (!activityId) throw httpError('activityId is required', 400);
+  if (type !== 'activity.deleted') {
+    if (!activity || typeof activity !== 'object' || !Array.isArray(activity.farmers)) {
+      throw httpError(`${type} events must include the activity with its farmers`, 400);
+    }
+    if (activity.activityId && String(activity.activityId).trim() !== activityId) {
+      throw httpError('activity.activityId does not match activityId', 400);
+    }
+  }
+
+  return { eventId, type, activityId, occurredAt, payload: body };
+};
+
+/** Webhook upserts of one day share a data batch, like the rows of one sync run */
+const webhookBatchId = (at: Date) => `sync-webhook-${at.toISOString().slice(0, 10).replace(/-/g, '')}`;
+
+/**
+ * Delete in FFA: drop the activity if EMS has not sampled it yet; otherwise keep it (its tasks
+ * and audit are records of calls already made) and take it out of sampling.
+ */
+const applyDelete = async (activityId: string): Promise<string> => {
+  const activity = await Activity.findOne({ activityId }).select('_id').lean();
+  if (!activity) return 'Activity not present; nothing to delete';
+
+  const [tasks, audits] = await Promise.all([
+    CallTask.countDocuments({ activityId: activity._id }),
+    SamplingAudit.countDocuments({ activityId: activity._id }),
+  ]);
+  if (tasks === 0 && audits === 0) {
+    await Activity.deleteOne({ _id: activity._id });
+    return 'Activity deleted';
+  }
+  await Activity.updateOne(
+    { _id: activity._id },
+    { $set: { lifecycleStatus: 'inactive', lifecycleUpdatedAt: new Date() } }
+  );
+  return `Activity kept as inactive (${tasks} call tasks exist)`;
+};
+
+/**
+ * Apply a stored event. An event older than one already applied for the same activity is
+ * ignored, so an out-of-order update cannot undo a later one (or bring back a deleted activity).
+ */
+const applyWebhookEvent = async (event: IFFAWebhookEvent): Promise<IFFAWebhookEvent> => {
+  event.attempts += 1;
+  try {
+    const newer = await FFAWebhookEvent.findOne({
+      _id: { $ne: event._id },
+      activityId: event.activityId,
+      status: 'processed',
+      occurredAt: { $gt: event.occurredAt },
+    })
+      .select('eventId')
+      .lean();
+
+    if (newer) {
+      event.status = 'ignored';
+      event.outcome = `Superseded by event ${newer.eventId}`;
+    } else if (event.type === 'activity.deleted') {
+      event.status = 'processed';
+      event.outcome = await applyDelete(event.activityId);
+    } else {
+      const ffaActivity = { ...(event.payload.activity as FFAActivity), activityId: event.activityId };
+      const batchId = webhookBatchId(new Date());
+      const validator = await createIngestValidator();
+      const result = await ingestFFAActivity(ffaActivity, batchId, 'ffa_webhook', validator);
+      await recordBatchQuality(batchId, 'ffa_webhook', validator.tally);
+      // Rejected by the ingest rules: fail the event so it can be replayed once FFA fixes the record
+      if (result.status === 'rejected') throw new Error(describeIssues(result.verdict.issues, 'reject'));
+      event.status = 'processed';
+      event.outcome =
+        result.status === 'quarantined'
+          ? `Quarantined for review: ${describeIssues(result.verdict.issues, 'quarantine')}`
+          : `Activity upserted with ${result.activity.farmerIds.length} farmers`;
+    }
+    event.lastError = null;
+    event.processedAt = new Date();
+  } catch (error) {
+    event.status = 'failed';
+    event.lastError = error instanceof Error ? error.message : String(error);
+    logger.error(`[FFA WEBHOOK] Event ${event.eventId} (${event.type} ${event.activityId}) failed:`, error);
+  }
+  return event.save();
+};
+
+/**
+ * Store and apply a verified event. A redelivered eventId is only counted; the stored event
+ * (and its status) is returned with `duplicate: true`.
+ */
+export const receiveWebhookEvent = async (
+  parsed: ParsedWebhookEvent
+): Promise<{ event: IFFAWebhookEvent; duplicate: boolean }> => {
+  let event: IFFAWebhookEvent;
+  try {
+    event = await FFAWebhookEvent.create({ ...parsed, status: 'received' });
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+    const existing = await FFAWebhookEvent.findOneAndUpdate(
+      { eventId: parsed.eventId },
+      { $inc: { duplicateDeliveries: 1 } },
+      { new: true }
+    );
+    if (!existing) throw error;
+    logger.info(`[FFA WEBHOOK] Duplicate delivery of ${parsed.eventId} (${existing.status})`);
+    return { event: existing, duplicate: true };
+  }
+
+  event = await applyWebhookEvent(event);
+  logger.info(`[FFA WEBHOOK] ${event.type} ${event.activityId} (${event.eventId}): ${event.status}`);
+  return { event, duplicate: false };
+};
+
+const recordReplay = (event: IFFAWebhookEvent, userId?: mongoose.Types.ObjectId | string | null) => {
+  event.replayCount += 1;
+  event.lastReplayedAt = new Date();
+  event.lastReplayedByUserId = userId ? new mongoose.Types.ObjectId(String(userId)) : null;
+};
+
+/** Apply a logged event again, whatever its status (same ordering rule as on receipt) */
+export const replayWebhookEvent = async (
+  id: string,
+  userId?: mongoose.Types.ObjectId | string | null
+): Promise<IFFAWebhookEvent> => {
+  const event = mongoose.isValidObjectId(id) ? await FFAWebhookEvent.findById(id) : null;
+  if (!event) throw httpError('Webhook event not found', 404);
+  recordReplay(event, userId);
+  return applyWebhookEvent(event);
+};
+
+/** Replay failed events oldest first, up to `limit` (at most MAX_BULK_REPLAY) */
+export const replayFailedWebhookEvents = async (
+  userId?: mongoose.Types.ObjectId | string | null,
+  limit = MAX_BULK_REPLAY
+) => {
+  const events = await FFAWebhookEvent.find({ status: 'failed' })
+    .sort({ occurredAt: 1 })
+    .limit(Math.min(MAX_BULK_REPLAY, Math.max(1, limit)));
+
+  const byStatus: Record<FFAWebhookEventStatus, number> = { received: 0, processed: 0, ignored: 0, failed: 0 };
+  for (const event of events) {
+    recordReplay(event, userId);
+    const replayed = await applyWebhookEvent(event);
+    byStatus[replayed.status] += 1;
+  }
+  return {
+    replayed: events.length,
+    byStatus,
+    remainingFailed: await FFAWebhookEvent.countDocuments({ status: 'failed' }),
+  };
+};
+
+export interface WebhookEventListFilters {
+  status?: FFAWebhookEventStatus;
+  type?: FFAWebhookEventType;
+  activityId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export const listWebhookEvents = async (filters: WebhookEventListFilters = {}) => {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(200, Math.max(1, filters.limit || 50));
+  const query: Record<string, unknown> = {};
+  if (filters.status) query.status = filters.status;
+  if (filters.type) query.type = filters.type;
+  if (filters.activityId) query.activityId = filters.activityId.trim();
+
+  const [events, total, grouped] = await Promise.all([
+    FFAWebhookEvent.find(query)
+      .select('-payload')
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate('lastReplayedByUserId', 'name email')
+      .lean(),
+    FFAWebhookEvent.countDocuments(query),
+    FFAWebhookEvent.aggregate<{ _id: FFAWebhookEventStatus; count: number }>([
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const counts: Record<FFAWebhookEventStatus, number> = { received: 0, processed: 0, ignored: 0, failed: 0 };
+  for (const g of grouped) counts[g._id] = g.count;
+  return { events, counts, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+};
+
+export const getWebhookEvent = async (id: string) => {
+  const event = mongoose.isValidObjectId(id)
+    ? await FFAWebhookEvent.findById(id).populate('lastReplayedByUserId', 'name email').lean()
+    : null;
+  if (!event) throw httpError('Webhook event not found', 404);
+  return event;
+};
@@ -0,0 +1,456 @@
+import { InboundQuery, IInboundQuery, QueryStatus, QueryType, EscalationLevel } from '../models/InboundQuery.js';
+import { Farmer } from '../models/Farmer.js';
+import { User, UserRole } from '../models/User.js';
+import { hasPermission } from '../config/permissions.js';
+import { getSlaDueDates, slaBreachedMatch } from './inboundSlaService.js';
+import { AppError } from '../middleware/errorHandler.js';
+import mongoose from 'mongoose';
+import logger from '../config/logger.js';
+import * as XLSX from 'xlsx';
+
+export interface InboundQueryFilters {
+  status?: QueryStatus;
+  queryType?: QueryType;
+  escalationLevel?: EscalationLevel;
+  assignedTo?: string;
+  loggedBy?: string;
+  slaBreached?: boolean;
+  search?: string;
+  dateFrom?: Date | string;
+  dateTo?: Date | string;
+  page?: number;
+  limit?: number;
+}
+
+export interface CreateInboundQueryInput {
+  farmerId?: string;
+  callerMobile?: string;
+  callerName?: string;
+  queryType: QueryType;
+  category: string;
+  description: string;
+  status?: QueryStatus;
+}
+
+/**
+ * Scope of inbound queries a user may see: `null` = everything (MIS Admin),
+ * otherwise queries logged by or assigned to one of the returned user ids.
+ * Team leads see their own queries plus those of agents reporting to them.
+ */
+export type InboundScope = mongoose.Types.ObjectId[] | null;
+
+/**
+ * Normalise a caller number to the 10-digit form stored on Farmer.mobileNumber
+ * (strips spaces, dashes and +91 / leading-zero prefixes).
+ */
+export const normalizeMobileNumber = (raw: string): string => {
+  const digits = String(raw || '').replace(/\D/g, '');
+  return digits.length > 10 ? digits.slice(-10) : digits;
+};
+
+export const getInboundScope = async (userId: string, role: UserRole): Promise<InboundScope> => {
+  if (role === 'mis_admin') return null;
+  const self = new mongoose.Types.ObjectId(userId);
+  if (!hasPermission(role, 'inbound.view.team')) return [self];
+
+  const agents = await User.find({ teamLeadId: self }).select('_id').lean();
+  return [self, ...agents.map((a) => a._id as mongoose.Types.ObjectId)];
+};
+
+const scopeMatch = (scope: InboundScope): Record<string, unknown> =>
+  scope ? { $or: [{ loggedBy: { $in: scope } }, { assignedTo: { $in: scope } }] } : {};
+
+const notFound = (): AppError => {
+  const error: AppError = new Error('Inbound query not found');
+  error.statusCode = 404;
+  return error;
+};
+
+/**
+ * Load a query by id, enforcing the caller's scope (out-of-scope queries look like 404s).
+ */
+const findScopedQuery = async (id: string, scope: InboundScope): Promise<IInboundQuery> => {
+  const query = await InboundQuery.findOne({ _id: id, ...scopeMatch(scope) });
+  if (!query) throw notFound();
+  return query;
+};
+
+/**
+ * Validate a (re)assignment target: must be an active user inside the caller's scope.
+ */
+const resolveAssignee = async (assignedTo: string, scope: InboundScope): Promise<mongoose.Types.ObjectId> => {
+  const assigneeId = new mongoose.Types.ObjectId(assignedTo);
+  if (scope && !scope.some((s) => s.equals(assigneeId))) {
+    const error: AppError = new Error('Cannot assign query outside your team');
+    error.statusCode = 403;
+    throw error;
+  }
+  const assignee = await User.findById(assigneeId).select('_id isActive').lean();
+  if (!assignee || !assignee.isActive) {
+    const error: AppError = new Error('Assignee not found or inactive');
+    error.statusCode = 400;
+    throw error;
+  }
+  return assigneeId;
+};
+
+/** Any action on the query (start work, reassign, escalate, resolve) counts as the first response */
+const markFirstResponse = (query: IInboundQuery, at: Date = new Date()) => {
+  if (!query.firstResponseAt) query.firstResponseAt = at;
+};
+
+const populateQuery = (id: mongoose.Types.ObjectId | string) =>
+  InboundQuery.findById(id)
+    .populate('farmerId', 'name mobileNumber location preferredLanguage territory')
+    .populate('loggedBy', 'name email employeeId')
+    .populate('assignedTo', 'name email employeeId')
+    .populate('escalatedBy', 'name email')
+    .populate('resolvedBy', 'name email')
+    .lean();
+
+/**
+ * Look up a farmer by the number they are calling from, with their recent inbound history
+ * so the agent can see whether this is a repeat caller.
+ */
+export const findFarmerByMobile = async (mobile: string) => {
+  const mobileNumber = normalizeMobileNumber(mobile);
+  const fields = 'name mobileNumber location preferredLanguage territory photoUrl mergedIntoFarmerId';
+  let farmer = await Farmer.findOne({ mobileNumber }).select(fields).lean();
+  // A number that was merged as a duplicate belongs to the surviving farmer
+  if (farmer?.mergedIntoFarmerId) farmer = await Farmer.findById(farmer.mergedIntoFarmerId).select(fields).lean();
+
+  const recentQueries = farmer
+    ? await InboundQuery.find({ farmerId: farmer._id })
+        .select('queryType category status escalationLevel createdAt resolvedAt')
+        .sort({ createdAt: -1 })
+        .limit(5)
+        .lean()
+    : await InboundQuery.find({ farmerId: null, callerMobile: mobileNumber })
+        .select('queryType category status escalationLevel createdAt resolvedAt')
+        .sort({ createdAt: -1 })
+        .limit(5)
+        .lean();
+
+  return { mobileNumber, farmer: farmer || null, recentQueries };
+};
+
+/**
+ * Log a new inbound query. The farmer is resolved from `farmerId` or, failing that, from the caller's number;
+ * unknown callers are still recorded against `callerMobile`.
+ */
+export const createInboundQuery = async (input: CreateInboundQueryInput, loggedById: string) => {
+  try {
+    const callerMobile = input.callerMobile ? normalizeMobileNumber(input.callerMobile) : undefined;
+
+    let farmerId: mongoose.Types.ObjectId | null = null;
+    if (input.farmerId) {
+      const farmer = await Farmer.findById(input.farmerId).select('_id mobileNumber mergedIntoFarmerId').lean();
+      if (!farmer) {
+        const error: AppError = new Error('Farmer not found');
+        error.statusCode = 404;
+        throw error;
+      }
+      farmerId = (farmer.mergedIntoFarmerId ?? farmer._id) as mongoose.Types.ObjectId;
+    } else if (callerMobile) {
+      const farmer = await Farmer.findOne({ mobileNumber: callerMobile }).select('_id mergedIntoFarmerId').lean();
+      farmerId = ((farmer?.mergedIntoFarmerId ?? farmer?._id) as mongoose.Types.ObjectId) || null;
+    }
+
+    if (!farmerId && !callerMobile) {
+      const error: AppError = new Error('Either farmerId or callerMobile is required');
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const status: QueryStatus = input.status === 'resolved' || input.status === 'in_progress' ? input.status : 'open';
+    const now = new Date();
+    const loggedBy = new mongoose.Types.ObjectId(loggedById);
+    const { firstResponseDueAt, resolveDueAt } = await getSlaDueDates(input.queryType, now);
+
+    const created = await InboundQuery.create({
+      farmerId,
+      callerMobile: callerMobile || null,
+      callerName: input.callerName || null,
+      queryType: input.queryType,
+      category: input.category,
+      description: input.description,
+      status,
+      assignedTo: loggedBy,
+      loggedBy,
+      escalationLevel: 'Level 1',
+      // First-contact resolution: agent closed the query while still on the call
+      resolvedAt: status === 'resolved' ? now : null,
+      resolvedBy: status === 'resolved' ? loggedBy : null,
+      firstResponseDueAt,
+      resolveDueAt,
+      firstResponseAt: status === 'open' ? null : now,
+    });
+
+    logger.info('Inbound query logged', {
+      inboundQueryId: created._id.toString(),
+      loggedBy: loggedById,
+      farmerId: farmerId?.toString() || null,
+      queryType: input.queryType,
+    });
+
+    return populateQuery(created._id);
+  } catch (error) {
+    logger.error('Error creating inbound query:', error);
+    throw error;
+  }
+};
+
+const buildInboundQueryMatch = (filters: InboundQueryFilters, scope: InboundScope) => {
+  const { status, queryType, escalationLevel, assignedTo, loggedBy, slaBreached, search, dateFrom, dateTo } = filters;
+  const and: any[] = [];
+
+  if (scope) and.push(scopeMatch(scope));
+
+  if (status) and.push({ status });
+  if (queryType) and.push({ queryType });
+  if (escalationLevel) and.push({ escalationLevel });
+  if (assignedTo) and.push({ assignedTo: new mongoose.Types.ObjectId(assignedTo) });
+  if (loggedBy) and.push({ loggedBy: new mongoose.Types.ObjectId(loggedBy) });
+  if (slaBreached) and.push(slaBreachedMatch());
+
+  if (dateFrom || dateTo) {
+    const createdAt: any = {};
+    if (dateFrom) {
+      const fromDate = typeof dateFrom === 'string' ? new Date(dateFrom) : new Date(dateFrom);
+      fromDate.setHours(0, 0, 0, 0);
+      createdAt.$gte = fromDate;
+    }
+    if (dateTo) {
+      const toDate = typeof dateTo === 'string' ? new Date(dateTo) : new Date(dateTo);
+      toDate.setHours(23, 59, 59, 999);
+      createdAt.$lte = toDate;
+    }
+    and.push({ createdAt });
+  }
+
+  const normalizedSearch = (search || '').trim();
+  if (normalizedSearch) {
+    const escaped = normalizedSearch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const re = new RegExp(escaped, 'i');
+    and.push({ $or: [{ category: re }, { description: re }, { callerMobile: re }, { callerName: re }] });
+  }
+
+  if (and.length === 0) return {};
+  return and.length === 1 ? and[0] : { $and: and };
+};
+
+/**
+ * Paginated inbound query list (newest first) with per-status counts for the same filters.
+ */
+export const listInboundQueries = async (filters: InboundQueryFilters, scope: InboundScope) => {
+  try {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const match = buildInboundQueryMatch(filters, scope);
+    // Status / SLA counts ignore the status and breach filters so the summary cards stay meaningful
+    const countMatch = buildInboundQueryMatch({ ...filters, status: undefined, slaBreached: undefined }, scope);
+
+    const [queries, total, byStatus, slaBreached] = await Promise.all([
+      InboundQuery.find(match)
+        .populate('farmerId', 'name mobileNumber location preferredLanguage territory')
+        .populate('loggedBy', 'name email employeeId')
+        .populate('assignedTo', 'name email employeeId')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      InboundQuery.countDocuments(match),
+      InboundQuery.aggregate([{ $match: countMatch }, { $group: { _id: '$status', count: { $sum: 1 } } }]),
+      InboundQuery.countDocuments({ $and: [countMatch, slaBreachedMatch()] }),
+    ]);
+
+    const stats: Record<QueryStatus, number> = { open: 0, in_progress: 0, resolved: 0, escalated: 0 };
+    for (const row of byStatus) {
+      if (row._id in stats) stats[row._id as QueryStatus] = row.count;
+    }
+
+    return {
+      queries,
+      stats: { ...stats, slaBreached },
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  } catch (error) {
+    logger.error('Error listing inbound queries:', error);
+    throw error;
+  }
+};
+
+export const getInboundQueryById = async (id: string, scope: InboundScope) => {
+  await findScopedQuery(id, scope);
+  return populateQuery(id);
+};
+
+/**
+ * Update editable fields / workflow status. Moving a resolved query back to open/in_progress reopens it.
+ * Reassignment is only allowed to users inside the caller's scope.
+ */
+export const updateInboundQuery = async (
+  id: string,
+  updates: {
+    queryType?: QueryType;
+    category?: string;
+    description?: string;
+    status?: Exclude<QueryStatus, 'escalated' | 'resolved'>;
+    assignedTo?: string;
+  },
+  scope: InboundScope
+) => {
+  const query = await findScopedQuery(id, scope);
+
+  if (updates.queryType) query.queryType = updates.queryType;
+  if (updates.category !== undefined) query.category = updates.category;
+  if (updates.description !== undefined) query.description = updates.description;
+
+  if (updates.status || updates.assignedTo) markFirstResponse(query);
+
+  if (updates.status) {
+    if (query.status === 'resolved') {
+      query.resolvedAt = undefined;
+      query.resolvedBy = undefined;
+      query.resolutionNotes = undefined;
+    }
+    query.status = updates.status;
+  }
+
+  if (updates.assignedTo) {
+    query.assignedTo = await resolveAssignee(updates.assignedTo, scope);
+  }
+
+  await query.save();
+  return populateQuery(query._id as mongoose.Types.ObjectId);
+};
+
+/**
+ * Escalate a Level 1 query to Level 2. Defaults the assignee to the escalating user (typically the team lead)
+ * so the query leaves the agent's queue.
+ */
+export const escalateInboundQuery = async (
+  id: string,
+  escalatedById: string,
+  scope: InboundScope,
+  options: { reason?: string; assignedTo?: string } = {}
+) => {
+  const query = await findScopedQuery(id, scope);
+
+  if (query.status === 'resolved') {
+    const error: AppError = new Error('Resolved queries cannot be escalated');
+    error.statusCode = 400;
+    throw error;
+  }
+  if (query.escalationLevel === 'Level 2') {
+    const error: AppError = new Error('Query is already escalated to Level 2');
+    error.statusCode = 400;
+    throw error;
+  }
+
+  const escalatedBy = new mongoose.Types.ObjectId(escalatedById);
+  markFirstResponse(query);
+  query.escalationLevel = 'Level 2';
+  query.status = 'escalated';
+  query.escalatedAt = new Date();
+  query.escalatedBy = escalatedBy;
+  query.escalationReason = options.reason || undefined;
+  query.assignedTo = options.assignedTo ? await resolveAssignee(options.assignedTo, scope) : escalatedBy;
+  await query.save();
+
+  logger.info('Inbound query escalated', { inboundQueryId: id, escalatedBy: escalatedById });
+  return populateQuery(query._id as mongoose.Types.ObjectId);
+};
+
+export const resolveInboundQuery = async (
+  id: string,
+  resolvedById: string,
+  scope: InboundScope,
+  resolutionNotes?: string
+) => {
+  const query = await findScopedQuery(id, scope);
+
+  if (query.status === 'resolved') {
+    const error: AppError = new Error('Query is already resolved');
+    error.statusCode = 400;
+    throw error;
+  }
+
+  const now = new Date();
+  markFirstResponse(query, now);
+  query.status = 'resolved';
+  query.resolvedAt = now;
+  query.resolvedBy = new mongoose.Types.ObjectId(resolvedById);
+  query.resolutionNotes = resolutionNotes || undefined;
+  await query.save();
+
+  return populateQuery(query._id as mongoose.Types.ObjectId);
+};
+
+export const deleteInboundQuery = async (id: string) => {
+  const deleted = await InboundQuery.findByIdAndDelete(id);
+  if (!deleted) throw notFound();
+  logger.info('Inbound query deleted', { inboundQueryId: id });
+};
+
+/**
+ * Export inbound queries for the current filters as Excel (capped at 5000 rows).
+ */
+export const exportInboundQueriesXlsx = async (filters: InboundQueryFilters, scope: InboundScope) => {
+  const result = await listInboundQueries({ ...filters, page: 1, limit: Math.min(filters.limit || 5000, 5000) }, scope);
+
+  const pad2 = (n: number) => String(n).padStart(2, '0');
+  const fmtDateTime = (v: any) => {
+    const d = v ? new Date(v) : null;
+    if (!d || Number.isNaN(d.getTime())) return '';
+    return `${pad2(d.getDate())}/${pad2(d.getMonth() + 1)}/${d.getFullYear()} ${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+  };
+
+  const rows = (result.queries || []).map((q: any) => {
+    const farmer = q.farmerId || {};
+    const loggedBy = q.loggedBy || {};
+    const assignee = q.assignedTo || {};
+    return {
+      'Query ID': String(q._id || ''),
+      'Logged At': fmtDateTime(q.createdAt),
+      'Farmer Name': String(farmer.name || q.callerName || ''),
+      'Farmer Mobile': String(farmer.mobileNumber || q.callerMobile || ''),
+      'Farmer Location': String(farmer.location || ''),
+      'Farmer Language': String(farmer.preferredLanguage || ''),
+      'Query Type': String(q.queryType || ''),
+      Category: String(q.category || ''),
+      Description: String(q.description || ''),
+      Status: String(q.status || ''),
+      'Escalation Level': String(q.escalationLevel || ''),
+      'Escalated At': fmtDateTime(q.escalatedAt),
+      'Escalation Reason': String(q.escalationReason || ''),
+      'Logged By': String(loggedBy.name || ''),
+      'Assigned To': String(assignee.name || ''),
+      'Resolved At': fmtDateTime(q.resolvedAt),
+      'Resolution Notes': String(q.resolutionNotes || ''),
+      'First Response Due': fmtDateTime(q.firstResponseDueAt),
+      'First Response At': fmtDateTime(q.firstResponseAt),
+      'Resolve Due': fmtDateTime(q.resolveDueAt),
+      'SLA Breached': q.firstResponseBreachedAt || q.resolveBreachedAt ? 'Yes' : 'No',
+    };
+  });
+
+  const wb = XLSX.utils.book_new();
+  const ws = XLSX.utils.json_to_sheet(rows);
+  XLSX.utils.book_append_sheet(wb, ws, 'Inbound Queries');
+  const buffer = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+
+  const now = new Date();
+  const filename = `inbound_queries_${now.getFullYear()}${pad2(now.getMonth() + 1)}${pad2(now.getDate())}_${pad2(
+    now.getHours()
+  )}${pad2(now.getMinutes())}.xlsx`;
+
+  return { filename, buffer };
+};
@@ -0,0 +1,216 @@
+import { InboundQuery, QueryType } from '../models/InboundQuery.js';
+import { InboundSlaPolicy, IInboundSlaPolicy } from '../models/InboundSlaPolicy.js';
+import { User } from '../models/User.js';
+import { sendEmail, generateInboundSlaBreachEmail, SlaBreachEmailItem } from '../utils/email.js';
+import { enqueueJob, registerJobHandler, runJobInline, type JobOptions } from './jobQueue.js';
+import { AppError } from '../middleware/errorHandler.js';
+import mongoose from 'mongoose';
+import logger from '../config/logger.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Seeded when a query type has no policy yet */
+const DEFAULT_SLA_POLICIES: Record<QueryType, { firstResponseHours: number; resolveHours: number }> = {
+  Complaint: { firstResponseHours: 24, resolveHours: 72 },
+  'Product usage': { firstResponseHours: 24, resolveHours: 48 },
+  'General inquiry': { firstResponseHours: 48, resolveHours: 120 },
+};
+
+const QUERY_TYPES = Object.keys(DEFAULT_SLA_POLICIES) as QueryType[];
+
+export interface SlaSweepResult {
+  checked: number;
+  firstResponseBreaches: number;
+  resolveBreaches: number;
+  escalated: number;
+  teamLeadsNotified: number;
+}
+
+/**
+ * All SLA policies (one per query type), creating defaults for any type that has none.
+ */
+export const getSlaPolicies = async (): Promise<IInboundSlaPolicy[]> => {
+  const existing = await InboundSlaPolicy.find({}).sort({ queryType: 1 });
+  const missing = QUERY_TYPES.filter((t) => !existing.some((p) => p.queryType === t));
+  if (missing.length === 0) return existing;
+
+  await InboundSlaPolicy.bulkWrite(
+    missing.map((queryType) => ({
+      updateOne: {
+        filter: { queryType },
+        update: { $setOnInsert: { queryType, ...DEFAULT_SLA_POLICIES[queryType], isActive: true } },
+        upsert: true,
+      },
+    })),
+    { ordered: false }
+  );
+  return InboundSlaPolicy.find({}).sort({ queryType: 1 });
+};
+
+export const updateSlaPolicy = async (
+  queryType: QueryType,
+  updates: { firstResponseHours?: number; resolveHours?: number; isActive?: boolean },
+  updatedByUserId: string
+): Promise<IInboundSlaPolicy> => {
+  const current = (await getSlaPolicies()).find((p) => p.queryType === queryType)!;
+  const firstResponseHours = updates.firstResponseHours ?? current.firstResponseHours;
+  const resolveHours = updates.resolveHours ?? current.resolveHours;
+
+  if (firstResponseHours > resolveHours) {
+    const error: AppError = new Error('First response SLA cannot be longer than the resolution SLA');
+    error.statusCode = 400;
+    throw error;
+  }
+
+  current.firstResponseHours = firstResponseHours;
+  current.resolveHours = resolveHours;
+  if (updates.isActive !== undefined) current.isActive = updates.isActive;
+  current.updatedByUserId = new mongoose.Types.ObjectId(updatedByUserId);
+  await current.save();
+
+  logger.info('Inbound SLA policy updated', { queryType, firstResponseHours, resolveHours, isActive: current.isActive });
+  return current;
+};
+
+/**
+ * SLA deadlines for a query logged at `loggedAt`. Returns nulls when the policy for the type is disabled.
+ */
+export const getSlaDueDates = async (
+  queryType: QueryType,
+  loggedAt: Date = new Date()
+): Promise<{ firstResponseDueAt: Date | null; resolveDueAt: Date | null }> => {
+  const policy = (await getSlaPolicies()).find((p) => p.queryType === queryType);
+  if (!policy || !policy.isActive) return { firstResponseDueAt: null, resolveDueAt: null };
+  return {
+    firstResponseDueAt: new Date(loggedAt.getTime() + policy.firstResponseHours * HOUR_MS),
+    resolveDueAt: new Date(loggedAt.getTime() + policy.resolveHours * HOUR_MS),
+  };
+};
+
+/**
+ * Mongo match for queries that are still open and have breached at least one SLA.
+ */
+export const slaBreachedMatch = (): Record<string, unknown> => ({
+  status: { $ne: 'resolved' },
+  $or: [{ firstResponseBreachedAt: { $ne: null } }, { resolveBreachedAt: { $ne: null } }],
+});
+
+/**
+ * Sweep unresolved queries for SLA breaches (run from cron).
+ *
+ * Each breach is stamped once (`firstResponseBreachedAt` / `resolveBreachedAt`). Level 1 queries are
+ * raised to Level 2 and handed to the logging agent's team lead, and each team lead gets one digest
+ * email per sweep listing their newly breached queries.
+ */
+export const checkInboundSlaBreaches = async (now: Date = new Date()): Promise<SlaSweepResult> => {
+  const result: SlaSweepResult = {
+    checked: 0,
+    firstResponseBreaches: 0,
+    resolveBreaches: 0,
+    escalated: 0,
+    teamLeadsNotified: 0,
+  };
+
+  try {
+    const candidates = await InboundQuery.find({
+      status: { $ne: 'resolved' },
+      $or: [
+        { firstResponseAt: null, firstResponseBreachedAt: null, firstResponseDueAt: { $ne: null, $lte: now } },
+        { resolveBreachedAt: null, resolveDueAt: { $ne: null, $lte: now } },
+      ],
+    })
+      .populate('farmerId', 'name mobileNumber')
+      .populate('loggedBy', 'name role teamLeadId');
+
+    result.checked = candidates.length;
+    if (candidates.length === 0) return result;
+
+    const byTeamLead = new Map<string, SlaBreachEmailItem[]>();
+
+    for (const query of candidates) {
+      const loggedBy = query.loggedBy as any;
+      const teamLeadId: string | null =
+        loggedBy?.teamLeadId?.toString() || (loggedBy?.role === 'team_lead' ? loggedBy._id.toString() : null);
+
+      let breachType: SlaBreachEmailItem['breachType'] | null = null;
+      let dueAt: Date | null = null;
+
+      if (!query.firstResponseAt && !query.firstResponseBreachedAt && query.firstResponseDueAt && query.firstResponseDueAt <= now) {
+        query.firstResponseBreachedAt = now;
+        result.firstResponseBreaches++;
+        breachType = 'first_response';
+        dueAt = query.firstResponseDueAt;
+      }
+      if (!query.resolveBreachedAt && query.resolveDueAt && query.resolveDueAt <= now) {
+        query.resolveBreachedAt = now;
+        result.resolveBreaches++;
+        // Resolution breach is the more serious one; report it when both trip in the same sweep
+        breachType = 'resolution';
+        dueAt = query.resolveDueAt;
+      }
+      if (!breachType || !dueAt) continue;
+
+      const escalated = query.escalationLevel === 'Level 1';
+      if (escalated) {
+        query.escalationLevel = 'Level 2';
+        query.status = 'escalated';
+        query.escalatedAt = now;
+        query.escalationReason = `SLA breached (${breachType === 'first_response' ? 'first response' : 'resolution'})`;
+        if (teamLeadId) query.assignedTo = new mongoose.Types.ObjectId(teamLeadId);
+        result.escalated++;
+      }
+
+      await query.save();
+
+      if (teamLeadId) {
+        const farmer = query.farmerId as any;
+        const items = byTeamLead.get(teamLeadId) || [];
+        items.push({
+          queryId: query._id.toString(),
+          farmerLabel: farmer?.name
+            ? `${farmer.name} (${farmer.mobileNumber})`
+            : `${query.callerName || 'Unknown caller'} (${query.callerMobile || '-'})`,
+          queryType: query.queryType,
+          category: query.category,
+          breachType,
+          dueAt,
+          loggedByName: loggedBy?.name,
+          escalated,
+        });
+        byTeamLead.set(teamLeadId, items);
+      }
+    }
+
+    if (byTeamLead.size > 0) {
+      const teamLeads = await User.find({ _id: { $in: Array.from(byTeamLead.keys()) }, isActive: true })
+        .select('name email')
+        .lean();
+
+      for (const lead of teamLeads) {
+        const items = byTeamLead.get(lead._id.toString()) || [];
+        if (items.length === 0 || !lead.email) continue;
+        const emailContent = generateInboundSlaBreachEmail(lead.name, items);
+        const sent = await sendEmail({ to: lead.email, ...emailContent });
+        if (sent) result.teamLeadsNotified++;
+        else logger.warn('Failed to send inbound SLA breach email', { teamLeadId: lead._id.toString(), breaches: items.length });
+      }
+    }
+
+    logger.info('Inbound SLA sweep completed', result);
+    return result;
+  } catch (error) {
+    logger.error('Error checking inbound SLA breaches:', error);
+    throw error;
+  }
+};
+
+/** One sweep at a time across all instances, so a breach is never stamped and emailed twice */
+const SWEEP_JOB: JobOptions = { concurrencyKey: 'inbound_sla_sweep', maxAttempts: 1 };
+
+/** Queue a sweep (cron on every instance); skipped while one is queued or running */
+export const requestInboundSlaSweep = () => enqueueJob('inbound_sla_sweep', {}, SWEEP_JOB);
+
+/** Run a sweep now in this process; 409 while another is in progress */
+export const runInboundSlaSweep = () => runJobInline<SlaSweepResult>('inbound_sla_sweep', {}, SWEEP_JOB);
+
+registerJobHandler('inbound_sla_sweep', () => checkInboundSlaBreaches());
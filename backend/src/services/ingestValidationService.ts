@@ -0,0 +1,472 @@
+import mongoose from 'mongoose';
+import { IngestRule, type IngestRuleCode, type IngestRuleSeverity } from '../models/IngestRule.js';
+import {
+  QuarantinedRecord,
+  type IngestIssue,
+  type IQuarantinedRecord,
+  type QuarantineStatus,
+} from '../models/QuarantinedRecord.js';
+import { IngestBatchQuality } from '../models/IngestBatchQuality.js';
+import type { ChangeSource } from '../models/ChangeHistory.js';
+import { Farmer } from '../models/Farmer.js';
+import { MasterCrop, MasterProduct } from '../models/MasterData.js';
+import { AppError } from '../middleware/errorHandler.js';
+import type { FFAActivity } from './ffaSync.js';
+import logger from '../config/logger.js';
+
+/**
+ * Validation rules applied to every activity FFA sync, the FFA webhook and the Excel import bring
+ * in, each with an admin-configurable severity. Activities caught by a quarantine rule wait in a
+ * review queue until an admin fixes and releases or discards them; per-batch counts of every
+ * outcome are kept for the data quality view.
+ */
+
+export interface IngestRuleDefinition {
+  code: IngestRuleCode;
+  description: string;
+  defaultSeverity: IngestRuleSeverity;
+  /**
+   * The record cannot be stored without a fix, so the rule can only reject or quarantine, and
+   * release never overrides it
+   */
+  structural: boolean;
+}
+
+export const INGEST_RULES: IngestRuleDefinition[] = [
+  {
+    code: 'activity_missing_fields',
+    description: 'Activity is missing type, officerId, officerName, location or territory',
+    defaultSeverity: 'reject',
+    structural: true,
+  },
+  { code: 'activity_invalid_date', description: 'Activity date is missing or cannot be parsed', defaultSeverity: 'reject', structural: true },
+  {
+    code: 'activity_missing_state',
+    description: 'Activity has no state (when accepted, the state is derived from the territory)',
+    defaultSeverity: 'quarantine',
+    structural: false,
+  },
+  {
+    code: 'activity_unknown_crop',
+    description: 'Activity lists a crop that is not an active master crop (skipped while no master crops exist)',
+    defaultSeverity: 'quarantine',
+    structural: false,
+  },
+  {
+    code: 'activity_unknown_product',
+    description: 'Activity lists a product that is not an active master product (skipped while no master products exist)',
+    defaultSeverity: 'warn',
+    structural: false,
+  },
+  { code: 'activity_no_farmers', description: 'Activity has no farmers', defaultSeverity: 'warn', structural: false },
+  {
+    code: 'farmer_missing_fields',
+    description: 'Farmer is missing name, mobileNumber or location (reject drops the farmer only)',
+    defaultSeverity: 'reject',
+    structural: true,
+  },
+  {
+    code: 'farmer_invalid_mobile',
+    description: 'Farmer mobile number is not exactly 10 digits (reject drops the farmer only)',
+    defaultSeverity: 'reject',
+    structural: true,
+  },
+  {
+    code: 'farmer_mobile_name_conflict',
+    description: 'Farmer mobile number is already stored, or used earlier in the batch, under a different name',
+    defaultSeverity: 'quarantine',
+    structural: false,
+  },
+];
+
+export const INGEST_RULE_SEVERITIES: IngestRuleSeverity[] = ['reject', 'quarantine', 'warn', 'off'];
+export const QUARANTINE_STATUSES: QuarantineStatus[] = ['pending', 'released', 'discarded'];
+
+const STRUCTURAL_SEVERITIES: IngestRuleSeverity[] = ['reject', 'quarantine'];
+
+const RULES_BY_CODE = new Map(INGEST_RULES.map((r) => [r.code, r]));
+
+type UserId = mongoose.Types.ObjectId | string | null | undefined;
+
+const httpError = (message: string, statusCode: number): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const toObjectId = (id: UserId) => (id ? new mongoose.Types.ObjectId(String(id)) : null);
+
+export const isStructuralRule = (code: IngestRuleCode) => RULES_BY_CODE.get(code)?.structural === true;
+
+const loadSeverities = async (): Promise<Map<IngestRuleCode, IngestRuleSeverity>> => {
+  const stored = await IngestRule.find().select('code severity').lean();
+  const severities = new Map(INGEST_RULES.map((r) => [r.code, r.defaultSeverity]));
+  for (const rule of stored) {
+    if (RULES_BY_CODE.has(rule.code)) severities.set(rule.code, rule.severity);
+  }
+  return severities;
+};
+
+/** Every rule with its effective severity and the severities it accepts */
+export const listIngestRules = async () => {
+  const stored = new Map((await IngestRule.find().lean()).map((r) => [r.code, r]));
+  return INGEST_RULES.map((rule) => {
+    const override = stored.get(rule.code);
+    return {
+      ...rule,
+      severity: override?.severity ?? rule.defaultSeverity,
+      allowedSeverities: rule.structural ? STRUCTURAL_SEVERITIES : INGEST_RULE_SEVERITIES,
+      updatedAt: override?.updatedAt ?? null,
+      updatedByUserId: override?.updatedByUserId ?? null,
+    };
+  });
+};
+
+export const updateIngestRule = async (code: string, severity: IngestRuleSeverity, userId: UserId) => {
+  const rule = RULES_BY_CODE.get(code as IngestRuleCode);
+  if (!rule) throw httpError(`Unknown ingest rule: ${code}`, 404);
+  if (rule.structural && !STRUCTURAL_SEVERITIES.includes(severity)) {
+    throw httpError(`Rule ${code} can only reject or quarantine`, 400);
+  }
+  await IngestRule.findOneAndUpdate(
+    { code: rule.code },
+    { $set: { severity, updatedByUserId: toObjectId(userId) } },
+    { upsert: true }
+  );
+  logger.info(`[INGEST RULES] ${code} set to ${severity}`);
+  return (await listIngestRules()).find((r) => r.code === rule.code)!;
+};
+
+/** One activity as the rules see it, whichever source it came from */
+export interface IngestCandidate {
+  activityId: string;
+  type?: string;
+  officerId?: string;
+  officerName?: string;
+  location?: string;
+  territory?: string;
+  state?: string;
+  /** Parsed activity date; null with `dateError` when it could not be parsed */
+  date: Date | null;
+  dateError?: string;
+  crops?: string[];
+  products?: string[];
+  farmers: Array<{ name?: string; mobileNumber?: string; location?: string }>;
+}
+
+export interface IngestVerdict {
+  outcome: 'accept' | 'quarantine' | 'reject';
+  issues: IngestIssue[];
+  /** Indexes of farmers a reject rule drops (the rest of the activity still goes in) */
+  rejectedFarmers: number[];
+}
+
+export type IngestTally = {
+  received: number;
+  accepted: number;
+  acceptedWithWarnings: number;
+  quarantined: number;
+  rejected: number;
+  farmersRejected: number;
+  byRule: Record<string, number>;
+};
+
+export interface IngestValidator {
+  check: (candidate: IngestCandidate) => Promise<IngestVerdict>;
+  /** Load stored farmer names for these mobile numbers up front (bulk imports) */
+  preload: (mobiles: string[]) => Promise<void>;
+  /** Outcomes of every check made with this validator */
+  tally: IngestTally;
+}
+
+const str = (value: unknown) => (typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim());
+const nameKey = (name: string) => name.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/** Candidate from an FFA-shaped activity; `parseDate` is the source's own date parser */
+export const toIngestCandidate = (activity: FFAActivity, parseDate: (value: any) => Date): IngestCandidate => {
+  let date: Date | null = null;
+  let dateError: string | undefined;
+  try {
+    date = parseDate(activity.date);
+  } catch (error) {
+    dateError = error instanceof Error ? error.message : String(error);
+  }
+  return {
+    activityId: activity.activityId,
+    type: activity.type,
+    officerId: activity.officerId,
+    officerName: activity.officerName,
+    location: activity.location,
+    territory: activity.territory,
+    state: activity.state,
+    date,
+    dateError,
+    crops: activity.crops,
+    products: activity.products,
+    farmers: Array.isArray(activity.farmers) ? activity.farmers : [],
+  };
+};
+
+/** Lower-cased active master names, or null when there are none (the rule is then skipped) */
+const activeNames = (docs: Array<{ name: string }>): Set<string> | null =>
+  docs.length ? new Set(docs.map((d) => nameKey(d.name))) : null;
+
+/**
+ * A validator for one batch. Rule severities and master crops/products are read once; farmer
+ * names seen in accepted activities are remembered so a mobile reused under another name later
+ * in the same batch is caught too.
+ */
+export const createIngestValidator = async (): Promise<IngestValidator> => {
+  const [severities, cropDocs, productDocs] = await Promise.all([
+    loadSeverities(),
+    MasterCrop.find({ isActive: true }).select('name').lean(),
+    MasterProduct.find({ isActive: true }).select('name').lean(),
+  ]);
+  const crops = activeNames(cropDocs);
+  const products = activeNames(productDocs);
+  const storedNames = new Map<string, string | null>();
+  const batchNames = new Map<string, { name: string; activityId: string }>();
+  const tally: IngestTally = {
+    received: 0,
+    accepted: 0,
+    acceptedWithWarnings: 0,
+    quarantined: 0,
+    rejected: 0,
+    farmersRejected: 0,
+    byRule: {},
+  };
+
+  const preload = async (mobiles: string[]) => {
+    const missing = Array.from(new Set(mobiles.filter((m) => m && !storedNames.has(m))));
+    for (let i = 0; i < missing.length; i += 2000) {
+      const slice = missing.slice(i, i + 2000);
+      // eslint-disable-next-line no-await-in-loop
+      const docs = await Farmer.find({ mobileNumber: { $in: slice } }).select('mobileNumber name').lean();
+      slice.forEach((m) => storedNames.set(m, null));
+      docs.forEach((d) => storedNames.set(d.mobileNumber, d.name));
+    }
+  };
+
+  const check = async (c: IngestCandidate): Promise<IngestVerdict> => {
+    const issues: IngestIssue[] = [];
+    const flag = (rule: IngestRuleCode, message: string, farmerIndex: number | null = null) => {
+      const severity = severities.get(rule) ?? 'off';
+      if (severity !== 'off') issues.push({ rule, severity, message, farmerIndex });
+    };
+
+    const missing = (['type', 'officerId', 'officerName', 'location', 'territory'] as const).filter((f) => !str(c[f]));
+    if (missing.length) flag('activity_missing_fields', `Missing required fields: ${missing.join(', ')}`);
+    if (!c.date) flag('activity_invalid_date', c.dateError || 'Invalid activity date (missing)');
+    if (!str(c.state)) {
+      const territory = str(c.territory);
+      flag('activity_missing_state', territory ? `Missing state (territory is "${territory}")` : 'Missing state');
+    }
+
+    const unknownCrops = crops ? (c.crops || []).filter((v) => str(v) && !crops.has(nameKey(str(v)))) : [];
+    if (unknownCrops.length) flag('activity_unknown_crop', `Crops not in master data: ${unknownCrops.join(', ')}`);
+    const unknownProducts = products ? (c.products || []).filter((v) => str(v) && !products.has(nameKey(str(v)))) : [];
+    if (unknownProducts.length) flag('activity_unknown_product', `Products not in master data: ${unknownProducts.join(', ')}`);
+    if (c.farmers.length === 0) flag('activity_no_farmers', 'Activity has no farmers');
+
+    await preload(c.farmers.map((f) => str(f.mobileNumber)).filter((m) => /^[0-9]{10}$/.test(m)));
+    const namesHere = new Map<string, string>();
+    c.farmers.forEach((farmer, i) => {
+      const label = `Farmer ${i + 1}`;
+      const name = str(farmer.name);
+      const mobile = str(farmer.mobileNumber);
+      const missingFarmer = (['name', 'mobileNumber', 'location'] as const).filter((f) => !str(farmer[f]));
+      if (missingFarmer.length) {
+        flag('farmer_missing_fields', `${label}: missing ${missingFarmer.join(', ')}`, i);
+        return;
+      }
+      if (!/^[0-9]{10}$/.test(mobile)) {
+        flag('farmer_invalid_mobile', `${label}: invalid mobile number "${mobile}" (must be exactly 10 digits)`, i);
+        return;
+      }
+
+      const stored = storedNames.get(mobile);
+      const earlier = batchNames.get(mobile);
+      const sibling = namesHere.get(mobile);
+      if (sibling !== undefined && nameKey(sibling) !== nameKey(name)) {
+        flag('farmer_mobile_name_conflict', `${label}: mobile ${mobile} is also used by "${sibling}" in this activity`, i);
+      } else if (earlier && earlier.activityId !== c.activityId && nameKey(earlier.name) !== nameKey(name)) {
+        flag('farmer_mobile_name_conflict', `${label}: mobile ${mobile} is "${earlier.name}" in activity ${earlier.activityId} of this batch`, i);
+      } else if (!earlier && stored && nameKey(stored) !== nameKey(name)) {
+        flag('farmer_mobile_name_conflict', `${label}: mobile ${mobile} is stored as "${stored}"`, i);
+      }
+      namesHere.set(mobile, name);
+    });
+
+    const farmerRejects = new Set(
+      issues.filter((i) => i.severity === 'reject' && i.farmerIndex != null).map((i) => i.farmerIndex as number)
+    );
+    const outcome: IngestVerdict['outcome'] = issues.some((i) => i.severity === 'reject' && i.farmerIndex == null)
+      ? 'reject'
+      : issues.some((i) => i.severity === 'quarantine')
+        ? 'quarantine'
+        : 'accept';
+
+    tally.received += 1;
+    for (const issue of issues) tally.byRule[issue.rule] = (tally.byRule[issue.rule] || 0) + 1;
+    if (outcome === 'reject') tally.rejected += 1;
+    if (outcome === 'quarantine') tally.quarantined += 1;
+    if (outcome === 'accept') {
+      tally.accepted += 1;
+      tally.farmersRejected += farmerRejects.size;
+      if (issues.some((i) => i.severity === 'warn')) tally.acceptedWithWarnings += 1;
+      c.farmers.forEach((farmer, i) => {
+        const mobile = str(farmer.mobileNumber);
+        if (!farmerRejects.has(i) && !batchNames.has(mobile)) batchNames.set(mobile, { name: str(farmer.name), activityId: c.activityId });
+      });
+    }
+
+    return { outcome, issues, rejectedFarmers: Array.from(farmerRejects).sort((a, b) => a - b) };
+  };
+
+  return { check, preload, tally };
+};
+
+/** Messages of the issues (only those at `severity` when given), joined for errors and logs */
+export const describeIssues = (issues: IngestIssue[], severity?: IngestIssue['severity']) =>
+  issues
+    .filter((i) => !severity || i.severity === severity)
+    .map((i) => i.message)
+    .join('; ');
+
+/** Add a validator's tally to the batch's quality counts (best-effort, like change history) */
+export const recordBatchQuality = async (dataBatchId: string, source: ChangeSource, tally: IngestTally) => {
+  if (tally.received === 0) return;
+  try {
+    const { byRule, ...counts } = tally;
+    const inc: Record<string, number> = { ...counts };
+    for (const [rule, count] of Object.entries(byRule)) inc[`byRule.${rule}`] = count;
+    await IngestBatchQuality.updateOne({ dataBatchId }, { $inc: inc, $setOnInsert: { source } }, { upsert: true });
+  } catch (error) {
+    logger.error('[INGEST RULES] Failed to record batch quality', { dataBatchId, error });
+  }
+};
+
+export interface QuarantineContext {
+  source: ChangeSource;
+  dataBatchId: string;
+  rowRef?: string | null;
+}
+
+/** Hold an activity for review; a pending record for the same activity takes the new payload */
+export const quarantineActivity = async (
+  payload: FFAActivity,
+  issues: IngestIssue[],
+  context: QuarantineContext
+): Promise<IQuarantinedRecord> => {
+  const record = await QuarantinedRecord.findOneAndUpdate(
+    { activityId: payload.activityId, status: 'pending' },
+    {
+      $set: {
+        payload,
+        issues,
+        source: context.source,
+        dataBatchId: context.dataBatchId,
+        rowRef: context.rowRef ?? null,
+        lastReceivedAt: new Date(),
+      },
+      $inc: { occurrences: 1 },
+    },
+    { upsert: true, new: true }
+  );
+  logger.info(`[INGEST RULES] Quarantined activity ${payload.activityId} (${context.source}): ${describeIssues(issues, 'quarantine')}`);
+  return record!;
+};
+
+export interface QuarantineListFilters {
+  status?: QuarantineStatus;
+  source?: ChangeSource;
+  dataBatchId?: string;
+  rule?: IngestRuleCode;
+  page?: number;
+  limit?: number;
+}
+
+export const listQuarantinedRecords = async (filters: QuarantineListFilters = {}) => {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(100, Math.max(1, filters.limit || 25));
+  const query: Record<string, unknown> = { status: filters.status || 'pending' };
+  if (filters.source) query.source = filters.source;
+  if (filters.dataBatchId) query.dataBatchId = filters.dataBatchId;
+  if (filters.rule) query['issues.rule'] = filters.rule;
+
+  const [items, total, grouped] = await Promise.all([
+    QuarantinedRecord.find(query)
+      .sort({ lastReceivedAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    QuarantinedRecord.countDocuments(query),
+    QuarantinedRecord.aggregate<{ _id: QuarantineStatus; count: number }>([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+  ]);
+
+  const counts: Record<QuarantineStatus, number> = { pending: 0, released: 0, discarded: 0 };
+  for (const g of grouped) counts[g._id] = g.count;
+  return { items, counts, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+};
+
+const loadRecord = async (id: string): Promise<IQuarantinedRecord> => {
+  const record = mongoose.isValidObjectId(id) ? await QuarantinedRecord.findById(id) : null;
+  if (!record) throw httpError('Quarantined record not found', 404);
+  return record;
+};
+
+export const getQuarantinedRecord = async (id: string) => (await loadRecord(id)).toObject();
+
+export const loadPendingQuarantinedRecord = async (id: string): Promise<IQuarantinedRecord> => {
+  const record = await loadRecord(id);
+  if (record.status !== 'pending') throw httpError(`Quarantined record is already ${record.status}`, 409);
+  return record;
+};
+
+const resolve = async (
+  record: IQuarantinedRecord,
+  status: 'released' | 'discarded',
+  userId: UserId,
+  note?: string | null
+) => {
+  record.status = status;
+  record.resolvedAt = new Date();
+  record.resolvedByUserId = toObjectId(userId);
+  record.resolutionNote = note?.trim() || null;
+  await record.save();
+  await IngestBatchQuality.updateOne({ dataBatchId: record.dataBatchId }, { $inc: { [status]: 1 } }).catch((error) =>
+    logger.error('[INGEST RULES] Failed to count quarantine resolution', { dataBatchId: record.dataBatchId, error })
+  );
+  return record;
+};
+
+/** Close a record whose (fixed) payload was upserted; see releaseQuarantinedActivity in ffaSync */
+export const markQuarantineReleased = (
+  record: IQuarantinedRecord,
+  activityObjectId: mongoose.Types.ObjectId,
+  userId: UserId,
+  note?: string | null
+) => {
+  record.releasedActivityId = activityObjectId;
+  return resolve(record, 'released', userId, note);
+};
+
+export const discardQuarantinedRecord = async (id: string, userId: UserId, note?: string | null) => {
+  const record = await loadPendingQuarantinedRecord(id);
+  return (await resolve(record, 'discarded', userId, note)).toObject();
+};
+
+/** Quality counts of the most recent batches, with how many of their records still wait for review */
+export const listBatchQuality = async (limit = 25) => {
+  const batches = await IngestBatchQuality.find().sort({ updatedAt: -1 }).limit(limit).lean();
+  const pending = await QuarantinedRecord.aggregate<{ _id: string; count: number }>([
+    { $match: { status: 'pending', dataBatchId: { $in: batches.map((b) => b.dataBatchId) } } },
+    { $group: { _id: '$dataBatchId', count: { $sum: 1 } } },
+  ]);
+  const pendingByBatch = new Map(pending.map((p) => [p._id, p.count]));
+  return batches.map((b) => ({
+    ...b,
+    byRule: Object.fromEntries(Object.entries(b.byRule || {})),
+    pendingReview: pendingByBatch.get(b.dataBatchId) || 0,
+  }));
+};
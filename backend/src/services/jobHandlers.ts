@@ -0,0 +1,8 @@
+/**
+ * Modules that register job handlers (registerJobHandler) when loaded. Import this once at startup
+ * so the worker can claim every job type and inline runs find their handler.
+ */
+import './ffaSync.js';
+import './excelImport.js';
+import './samplingRunService.js';
+import './allocationRunService.js';
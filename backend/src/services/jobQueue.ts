@@ -0,0 +1,435 @@
+import os from 'os';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Job, type IJob, type JobLogEntry, type JobStatus, type JobType } from '../models/Job.js';
+import { AppError } from '../middleware/errorHandler.js';
+import logger from '../config/logger.js';
+
+/**
+ * MongoDB-backed job queue shared by every backend instance. A job is claimed by setting a lease
+ * owned by this process; the lease is extended by heartbeats while the handler runs. If the process
+ * stops, the lease expires and another instance picks the job up again (handlers resume from what
+ * they already saved). Progress, result and a capped log are kept on the job record, so progress
+ * endpoints read the same state whichever instance serves them.
+ */
+
+/** Identifies this process as a lease owner */
+export const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+export const JOB_LEASE_MS = parseInt(process.env.JOB_LEASE_MS || '60000', 10);
+const HEARTBEAT_MS = Math.max(1000, Math.floor(JOB_LEASE_MS / 4));
+const POLL_MS = parseInt(process.env.JOB_POLL_MS || '5000', 10);
+const WORKER_CONCURRENCY = Math.max(1, parseInt(process.env.JOB_WORKER_CONCURRENCY || '2', 10));
+/** Progress is written at most this often (the final state is always written) */
+const PROGRESS_FLUSH_MS = 1000;
+const MAX_LOGS = 200;
+/** First retry after this long, doubling per attempt */
+const RETRY_BASE_MS = 30_000;
+
+const LABELS: Record<JobType, string> = {
+  ffa_sync: 'FFA sync',
+  excel_import: 'Excel import',
+  sampling_run: 'Sampling run',
+  sampling_auto_run: 'Scheduled sampling run',
+  allocation_run: 'Allocation run',
+  inbound_sla_sweep: 'Inbound SLA check',
+};
+
+export type JobRecord = Omit<IJob, keyof mongoose.Document> & { _id: mongoose.Types.ObjectId };
+
+export interface JobContext {
+  job: JobRecord;
+  /** Merge counters into the job's progress (and replace its status message) */
+  progress(patch: Record<string, unknown>, message?: string): void;
+  log(message: string, level?: JobLogEntry['level']): Promise<void>;
+}
+
+/** Returns the job's result; throwing fails the attempt (4xx AppErrors are not retried) */
+export type JobHandler = (ctx: JobContext) => Promise<unknown>;
+
+/** A handler error may carry what the attempt got done; a failed job keeps it as its result */
+export interface JobError extends AppError {
+  result?: unknown;
+}
+
+export interface JobOptions {
+  /** At most one queued/running job per key across all instances */
+  concurrencyKey?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+  createdByUserId?: mongoose.Types.ObjectId | string | null;
+  fileId?: mongoose.Types.ObjectId | null;
+}
+
+const handlers = new Map<JobType, JobHandler>();
+
+export const registerJobHandler = (type: JobType, handler: JobHandler): void => {
+  handlers.set(type, handler);
+};
+
+const conflict = (message: string): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = 409;
+  return error;
+};
+
+const isDuplicateKey = (error: unknown): boolean => (error as { code?: number })?.code === 11000;
+
+const logEntry = (message: string, level: JobLogEntry['level'] = 'info') => ({
+  logs: { $each: [{ at: new Date(), level, message }], $slice: -MAX_LOGS },
+});
+
+const newJobFields = (type: JobType, payload: Record<string, unknown>, options: JobOptions) => ({
+  type,
+  payload,
+  maxAttempts: options.maxAttempts ?? 3,
+  runAt: options.runAt ?? new Date(),
+  activeKey: options.concurrencyKey,
+  fileId: options.fileId ?? null,
+  createdByUserId: options.createdByUserId ? new mongoose.Types.ObjectId(String(options.createdByUserId)) : null,
+});
+
+// ─── GridFS for uploaded inputs ──────────────────────────────────────────────
+
+const jobFiles = () => {
+  const db = mongoose.connection.db;
+  if (!db) throw new Error('Database not connected');
+  return new mongoose.mongo.GridFSBucket(db, { bucketName: 'jobFiles' });
+};
+
+/** Keep an upload where any instance can read it; deleted when the job that uses it finishes */
+export const storeJobFile = async (buffer: Buffer, filename: string): Promise<mongoose.Types.ObjectId> => {
+  const upload = jobFiles().openUploadStream(filename);
+  await new Promise<void>((resolve, reject) => {
+    upload.once('finish', () => resolve());
+    upload.once('error', reject);
+    upload.end(buffer);
+  });
+  return upload.id as mongoose.Types.ObjectId;
+};
+
+export const readJobFile = async (fileId: mongoose.Types.ObjectId): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of jobFiles().openDownloadStream(fileId)) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+export const deleteJobFile = async (fileId: mongoose.Types.ObjectId): Promise<void> => {
+  try {
+    await jobFiles().delete(fileId);
+  } catch (error) {
+    logger.warn('[JOBS] Could not delete job file', { fileId: fileId.toString(), error: (error as Error)?.message });
+  }
+};
+
+// ─── Execution ───────────────────────────────────────────────────────────────
+
+/**
+ * Run a job this process has leased. With `retry`, a failed attempt goes back to the queue with
+ * backoff while attempts remain; otherwise the job fails at once. Rethrows the handler's error.
+ */
+const executeJob = async (job: JobRecord, handler: JobHandler, { retry }: { retry: boolean }): Promise<unknown> => {
+  const owned = { _id: job._id, leaseOwner: WORKER_ID, status: 'running' };
+  const tag = `[JOBS] ${job.type} ${job._id.toString()}`;
+  const progress: Record<string, unknown> = { ...(job.progress || {}) };
+  let message = job.message || '';
+  let dirty = false;
+  let lastFlushAt = 0;
+  // Writes are chained so a heartbeat never overtakes a newer progress write
+  let writes: Promise<unknown> = Promise.resolve();
+
+  const write = (update: mongoose.UpdateQuery<IJob>) => {
+    writes = writes
+      .then(() => Job.updateOne(owned, update))
+      .then((res) => {
+        if (!res.matchedCount) logger.warn(`${tag}: lease lost`);
+      })
+      .catch((error) => logger.warn(`${tag}: update failed`, { error: error?.message }));
+    return writes as Promise<void>;
+  };
+  const takeProgress = () => {
+    if (!dirty) return {};
+    dirty = false;
+    lastFlushAt = Date.now();
+    return { progress: { ...progress }, message };
+  };
+
+  const ctx: JobContext = {
+    job,
+    progress(patch, nextMessage) {
+      Object.assign(progress, patch);
+      if (nextMessage !== undefined) message = nextMessage;
+      dirty = true;
+      if (Date.now() - lastFlushAt >= PROGRESS_FLUSH_MS) void write({ $set: takeProgress() });
+    },
+    log(text, level = 'info') {
+      logger[level](`${tag}: ${text}`);
+      return write({ $push: logEntry(text, level) });
+    },
+  };
+
+  const heartbeat = setInterval(() => {
+    const now = Date.now();
+    void write({ $set: { heartbeatAt: new Date(now), leaseExpiresAt: new Date(now + JOB_LEASE_MS), ...takeProgress() } });
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  try {
+    await ctx.log(job.attempts > 1 ? `Attempt ${job.attempts} of ${job.maxAttempts} on ${WORKER_ID}` : `Started on ${WORKER_ID}`);
+    const result = await handler(ctx);
+    clearInterval(heartbeat);
+    await writes;
+    await Job.updateOne(owned, {
+      $set: {
+        status: 'completed',
+        result: result ?? null,
+        progress,
+        message,
+        lastError: null,
+        finishedAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      },
+      $unset: { activeKey: 1 },
+      $push: logEntry('Completed'),
+    });
+    if (job.fileId) await deleteJobFile(job.fileId);
+    return result;
+  } catch (error) {
+    clearInterval(heartbeat);
+    await writes;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const statusCode = (error as AppError)?.statusCode;
+    const willRetry = retry && job.attempts < job.maxAttempts && !(statusCode && statusCode < 500);
+    logger.error(`${tag}: attempt ${job.attempts} failed`, { error: errorMessage, willRetry });
+    if (willRetry) {
+      const delayMs = RETRY_BASE_MS * 2 ** (job.attempts - 1);
+      await Job.updateOne(owned, {
+        $set: { status: 'queued', runAt: new Date(Date.now() + delayMs), lastError: errorMessage, progress, message, leaseOwner: null, leaseExpiresAt: null },
+        $push: logEntry(`Failed: ${errorMessage}; retrying in ${Math.round(delayMs / 1000)}s`, 'error'),
+      });
+    } else {
+      await Job.updateOne(owned, {
+        $set: {
+          status: 'failed',
+          result: (error as JobError)?.result ?? null,
+          lastError: errorMessage,
+          progress,
+          message,
+          finishedAt: new Date(),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+        },
+        $unset: { activeKey: 1 },
+        $push: logEntry(`Failed: ${errorMessage}`, 'error'),
+      });
+      if (job.fileId) await deleteJobFile(job.fileId);
+    }
+    throw error;
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+/**
+ * Queue a job for any instance's worker (this one is nudged at once). With a concurrency key that
+ * already has an active job, nothing is queued and that job is returned with `enqueued: false`.
+ */
+export const enqueueJob = async (
+  type: JobType,
+  payload: Record<string, unknown> = {},
+  options: JobOptions = {}
+): Promise<{ job: JobRecord; enqueued: boolean }> => {
+  try {
+    const job = await Job.create({ ...newJobFields(type, payload, options), status: 'queued' });
+    kickJobWorker();
+    return { job: job.toObject() as JobRecord, enqueued: true };
+  } catch (error) {
+    if (options.concurrencyKey && isDuplicateKey(error)) {
+      const existing = await Job.findOne({ activeKey: options.concurrencyKey }).lean<JobRecord>();
+      if (existing) return { job: existing, enqueued: false };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Run a job in this process and return the handler's result, for endpoints that answer when the
+ * work is done. The job is recorded and leased like any other, so if this process stops mid-way a
+ * worker elsewhere resumes it. Throws 409 when the concurrency key is taken.
+ */
+export const runJobInline = async <T = unknown>(
+  type: JobType,
+  payload: Record<string, unknown> = {},
+  options: JobOptions = {}
+): Promise<T> => {
+  const handler = handlers.get(type);
+  if (!handler) throw new Error(`No handler registered for job type "${type}"`);
+  const now = new Date();
+  let job: JobRecord;
+  try {
+    const doc = await Job.create({
+      ...newJobFields(type, payload, options),
+      status: 'running',
+      attempts: 1,
+      startedAt: now,
+      heartbeatAt: now,
+      leaseOwner: WORKER_ID,
+      leaseExpiresAt: new Date(now.getTime() + JOB_LEASE_MS),
+    });
+    job = doc.toObject() as JobRecord;
+  } catch (error) {
+    if (options.concurrencyKey && isDuplicateKey(error)) {
+      throw conflict(`${LABELS[type]} is already in progress`);
+    }
+    throw error;
+  }
+  return (await executeJob(job, handler, { retry: false })) as T;
+};
+
+/** Lease the next due job: queued and past its runAt, or running under an expired lease */
+const claimNextJob = async (): Promise<JobRecord | null> => {
+  const now = new Date();
+  return Job.findOneAndUpdate(
+    {
+      type: { $in: Array.from(handlers.keys()) },
+      $or: [
+        { status: 'queued', runAt: { $lte: now } },
+        { status: 'running', leaseExpiresAt: { $lt: now }, $expr: { $lt: ['$attempts', '$maxAttempts'] } },
+      ],
+    },
+    {
+      $set: {
+        status: 'running',
+        leaseOwner: WORKER_ID,
+        leaseExpiresAt: new Date(now.getTime() + JOB_LEASE_MS),
+        heartbeatAt: now,
+        startedAt: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAt: 1 }, new: true }
+  ).lean<JobRecord>();
+};
+
+/** Running jobs whose lease expired with no attempts left are failed (their instance stopped) */
+export const failAbandonedJobs = async (now: Date = new Date()): Promise<number> => {
+  const abandoned = await Job.find({
+    status: 'running',
+    leaseExpiresAt: { $lt: now },
+    $expr: { $gte: ['$attempts', '$maxAttempts'] },
+  })
+    .select('_id type leaseOwner fileId')
+    .lean<Array<Pick<JobRecord, '_id' | 'type' | 'leaseOwner' | 'fileId'>>>();
+  let failed = 0;
+  for (const job of abandoned) {
+    const errorMessage = `Lease held by ${job.leaseOwner || 'unknown'} expired and no attempts are left`;
+    const res = await Job.updateOne(
+      { _id: job._id, status: 'running', leaseExpiresAt: { $lt: now } },
+      {
+        $set: { status: 'failed', lastError: errorMessage, finishedAt: now, leaseOwner: null, leaseExpiresAt: null },
+        $unset: { activeKey: 1 },
+        $push: logEntry(errorMessage, 'error'),
+      }
+    );
+    if (!res.modifiedCount) continue;
+    failed++;
+    logger.warn(`[JOBS] ${job.type} ${job._id.toString()} abandoned`, { leaseOwner: job.leaseOwner });
+    if (job.fileId) await deleteJobFile(job.fileId);
+  }
+  return failed;
+};
+
+// ─── Worker ──────────────────────────────────────────────────────────────────
+
+let activeCount = 0;
+let pumping = false;
+let pumpAgain = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+const pump = async (): Promise<void> => {
+  if (pumping) {
+    pumpAgain = true;
+    return;
+  }
+  pumping = true;
+  try {
+    do {
+      pumpAgain = false;
+      while (activeCount < WORKER_CONCURRENCY && handlers.size > 0) {
+        const job = await claimNextJob();
+        if (!job) break;
+        const handler = handlers.get(job.type);
+        if (!handler) break;
+        activeCount++;
+        void executeJob(job, handler, { retry: true })
+          .catch(() => undefined) // Recorded on the job
+          .finally(() => {
+            activeCount--;
+            void pump();
+          });
+      }
+    } while (pumpAgain);
+  } catch (error) {
+    logger.error('[JOBS] Failed to claim a job', error);
+  } finally {
+    pumping = false;
+  }
+};
+
+/** Pick up due jobs now rather than at the next poll */
+export const kickJobWorker = (): void => {
+  void pump();
+};
+
+/** Poll for due and abandoned jobs. Call once the database is connected. */
+export const startJobWorker = (): void => {
+  if (pollTimer) return;
+  const tick = async () => {
+    try {
+      await failAbandonedJobs();
+    } catch (error) {
+      logger.error('[JOBS] Abandoned job check failed', error);
+    }
+    await pump();
+  };
+  pollTimer = setInterval(() => void tick(), POLL_MS);
+  pollTimer.unref();
+  void tick();
+  logger.info(`[JOBS] Worker ${WORKER_ID} started (poll ${POLL_MS}ms, concurrency ${WORKER_CONCURRENCY})`);
+};
+
+export const stopJobWorker = (): void => {
+  if (pollTimer) clearInterval(pollTimer);
+  pollTimer = null;
+};
+
+// ─── Reads ───────────────────────────────────────────────────────────────────
+
+export const getJob = (jobId: string) => Job.findById(jobId).lean<JobRecord>();
+
+/** Most recent job of a type, e.g. for a progress bar */
+export const getLatestJob = (type: JobType) => Job.findOne({ type }).sort({ createdAt: -1 }).select('-logs').lean<JobRecord>();
+
+/** The most recent finished job of a type with the given status */
+export const getLastFinishedJob = (type: JobType, status: JobStatus = 'completed') =>
+  Job.findOne({ type, status }).sort({ finishedAt: -1 }).select('-logs').lean<JobRecord>();
+
+export const listJobs = async (filters: { type?: JobType; status?: JobStatus; page?: number; limit?: number } = {}) => {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(100, Math.max(1, filters.limit || 20));
+  const query: Record<string, unknown> = {};
+  if (filters.type) query.type = filters.type;
+  if (filters.status) query.status = filters.status;
+  const [jobs, total] = await Promise.all([
+    Job.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .select('-logs -result -payload')
+      .populate('createdByUserId', 'name email')
+      .lean(),
+    Job.countDocuments(query),
+  ]);
+  return { jobs, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+};
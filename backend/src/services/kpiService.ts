@@ -1,6 +1,7 @@
 import { Activity } from '../models/Activity.js';
 import { CallTask } from '../models/CallTask.js';
 import { SamplingAudit } from '../models/SamplingAudit.js';
+import { callAttemptCountExpr, connectedAttemptCountExpr } from '../utils/callAttempts.js';
 import mongoose from 'mongoose';
 import logger from '../config/logger.js';
 
@@ -69,6 +70,11 @@ export interface EmsProgressSummary {
     not_reachable: number;
     invalid_number: number;
     completionRatePct: number;
+    /** Submitted call attempts across all tasks (retries on the same task count separately) */
+    callAttempts: number;
+    connectedAttempts: number;
+    /** Average attempts per task that has been called at least once */
+    avgAttemptsPerCalledTask: number;
   };
   farmers: {
     totalInActivities: number;
@@ -188,14 +194,29 @@ export async function getEmsProgress(filters?: EmsProgressFilters): Promise<EmsP
     },
     { $unwind: '$activity' },
     ...(Object.keys(taskMatchJoined).length > 0 ? [{ $match: taskMatchJoined }] : []),
-    { $group: { _id: '$status', count: { $sum: 1 } } },
+    { $addFields: { __attempts: callAttemptCountExpr, __connectedAttempts: connectedAttemptCountExpr } },
+    {
+      $group: {
+        _id: '$status',
+        count: { $sum: 1 },
+        callAttempts: { $sum: '$__attempts' },
+        connectedAttempts: { $sum: '$__connectedAttempts' },
+        calledTasks: { $sum: { $cond: [{ $gt: ['$__attempts', 0] }, 1, 0] } },
+      },
+    },
   ]).exec();
 
   const taskByStatus: Record<string, number> = {};
   let totalTasks = 0;
+  let callAttempts = 0;
+  let connectedAttempts = 0;
+  let calledTasks = 0;
   for (const r of taskAgg) {
     taskByStatus[String(r._id)] = Number(r.count || 0);
     totalTasks += Number(r.count || 0);
+    callAttempts += Number(r.callAttempts || 0);
+    connectedAttempts += Number(r.connectedAttempts || 0);
+    calledTasks += Number(r.calledTasks || 0);
   }
 
   const completed = Number(taskByStatus.completed || 0);
@@ -223,6 +244,9 @@ export async function getEmsProgress(filters?: EmsProgressFilters): Promise<EmsP
       not_reachable: Number(taskByStatus.not_reachable || 0),
       invalid_number: Number(taskByStatus.invalid_number || 0),
       completionRatePct,
+      callAttempts,
+      connectedAttempts,
+      avgAttemptsPerCalledTask: calledTasks > 0 ? Number((callAttempts / calledTasks).toFixed(2)) : 0,
     },
     farmers: {
       totalInActivities: Number(a0.totalFarmers || 0),
@@ -0,0 +1,103 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import { User } from '../models/User.js';
+import type { TaskStatus } from '../models/CallTask.js';
+import type { AllocationRunStatus } from '../models/AllocationRun.js';
+import logger from '../config/logger.js';
+
+/**
+ * In-process push channel for team lead screens (task dashboard, wallboard). Events only
+ * reach SSE clients connected to the same backend instance; with several instances behind a
+ * load balancer, each client still sees everything that instance handled, and the wallboard
+ * snapshot (recomputed from MongoDB) stays correct.
+ */
+export type LiveEvent =
+  | {
+      type: 'task.status';
+      taskId: string;
+      agentId: string | null;
+      from: TaskStatus | null;
+      to: TaskStatus;
+      at: Date;
+    }
+  | {
+      type: 'task.submitted';
+      taskId: string;
+      agentId: string | null;
+      callStatus: string;
+      status: TaskStatus;
+      at: Date;
+    }
+  | {
+      type: 'allocation.progress';
+      runId: string;
+      kind: 'allocate' | 'reallocate';
+      createdByUserId: string | null;
+      status: AllocationRunStatus;
+      total: number;
+      processed: number;
+      allocated: number;
+      skipped: number;
+      at: Date;
+    };
+
+type WithOptionalAt<E> = E extends LiveEvent ? Omit<E, 'at'> & { at?: Date } : never;
+type LiveEventInput = WithOptionalAt<LiveEvent>;
+
+const bus = new EventEmitter();
+// One listener per open SSE connection
+bus.setMaxListeners(0);
+
+const toId = (value: unknown): string | null => {
+  if (!value) return null;
+  const v = value as any;
+  return v._id ? v._id.toString() : v.toString();
+};
+
+/** Publish to every connected stream. Never throws: a push failure must not fail the write that caused it. */
+export const publishLiveEvent = (event: LiveEventInput): void => {
+  try {
+    bus.emit('event', { ...event, at: event.at ?? new Date() } as LiveEvent);
+  } catch (error) {
+    logger.warn('Live event listener failed', { type: event.type, error: (error as Error)?.message });
+  }
+};
+
+/** Convenience for the common case of a task moving between statuses */
+export const publishTaskStatus = (
+  task: { _id: unknown; assignedAgentId?: unknown },
+  from: TaskStatus | null,
+  to: TaskStatus
+): void => {
+  if (from === to) return;
+  publishLiveEvent({ type: 'task.status', taskId: toId(task._id)!, agentId: toId(task.assignedAgentId), from, to });
+};
+
+export const subscribeLiveEvents = (listener: (event: LiveEvent) => void): (() => void) => {
+  bus.on('event', listener);
+  return () => {
+    bus.off('event', listener);
+  };
+};
+
+/** What one connected user may see: MIS Admin everything, a team lead their team's agents and own runs */
+export interface LiveEventScope {
+  userId: string;
+  all: boolean;
+  agentIds: Set<string>;
+}
+
+export const getLiveEventScope = async (user: { _id: mongoose.Types.ObjectId | string; role: string }): Promise<LiveEventScope> => {
+  const userId = user._id.toString();
+  if (user.role === 'mis_admin') return { userId, all: true, agentIds: new Set() };
+
+  const agents = await User.find({ teamLeadId: user._id, role: 'cc_agent' }).select('_id').lean();
+  return { userId, all: false, agentIds: new Set(agents.map((a) => a._id.toString())) };
+};
+
+export const isEventVisible = (event: LiveEvent, scope: LiveEventScope): boolean => {
+  if (scope.all) return true;
+  if (event.type === 'allocation.progress') return event.createdByUserId === scope.userId;
+  // Unassigned tasks are shared backlog every team lead allocates from
+  return !event.agentId || scope.agentIds.has(event.agentId);
+};
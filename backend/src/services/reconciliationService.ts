@@ -0,0 +1,246 @@
+import mongoose from 'mongoose';
+import {
+  ActivityReconciliation,
+  type IActivityReconciliation,
+  type ReconciliationReason,
+  type ReconciliationStatus,
+} from '../models/ActivityReconciliation.js';
+import { ChangeHistory, type IChangeHistory } from '../models/ChangeHistory.js';
+import { Activity } from '../models/Activity.js';
+import { CallTask } from '../models/CallTask.js';
+import { SamplingAudit } from '../models/SamplingAudit.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { sampleAndCreateTasks } from './samplingService.js';
+import logger from '../config/logger.js';
+
+/**
+ * Reconciliation of sampled activities whose upstream data changed after tasks were generated:
+ * farmers removed or added, FDA reassigned, date moved. Team leads review each item and cancel
+ * tasks of farmers no longer in the activity, re-sample, or dismiss it.
+ */
+
+export const RECONCILIATION_REASONS: ReconciliationReason[] = ['farmers_removed', 'farmers_added', 'officer_changed', 'date_changed'];
+export const RECONCILIATION_STATUSES: ReconciliationStatus[] = ['open', 'resolved', 'dismissed'];
+
+/** Orphaned tasks in these states with no call logged are deleted on cancel; the rest are kept */
+const CANCELLABLE_STATUSES = ['unassigned', 'sampled_in_queue'];
+
+type UserId = mongoose.Types.ObjectId | string | null | undefined;
+
+const httpError = (message: string, statusCode: number): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+const toObjectId = (id: UserId) => (id ? new mongoose.Types.ObjectId(String(id)) : null);
+
+const reasonsFor = (entry: IChangeHistory): ReconciliationReason[] => {
+  const reasons: ReconciliationReason[] = [];
+  for (const change of entry.changes) {
+    if (change.field === 'farmerIds') {
+      if (change.removed?.length) reasons.push('farmers_removed');
+      if (change.added?.length) reasons.push('farmers_added');
+    }
+    if (change.field === 'officerId') reasons.push('officer_changed');
+    if (change.field === 'date') reasons.push('date_changed');
+  }
+  return reasons;
+};
+
+/** Open (or extend) an item for each logged activity change that matters to a sampled activity */
+export const flagActivityChanges = async (entries: IChangeHistory[]): Promise<number> => {
+  const relevant = entries.map((entry) => ({ entry, reasons: reasonsFor(entry) })).filter((r) => r.reasons.length);
+  if (relevant.length === 0) return 0;
+
+  const activityIds = relevant.map((r) => r.entry.entityId);
+  const [withTasks, withAudit] = await Promise.all([
+    CallTask.distinct('activityId', { activityId: { $in: activityIds } }),
+    SamplingAudit.distinct('activityId', { activityId: { $in: activityIds } }),
+  ]);
+  const sampled = new Set([...withTasks, ...withAudit].map(String));
+
+  let flagged = 0;
+  for (const { entry, reasons } of relevant) {
+    if (!sampled.has(String(entry.entityId))) continue;
+    await ActivityReconciliation.findOneAndUpdate(
+      { activityId: entry.entityId, status: 'open' },
+      {
+        $setOnInsert: { activityKey: entry.entityKey, firstDetectedAt: entry.createdAt },
+        $set: { lastDetectedAt: entry.createdAt },
+        $addToSet: { reasons: { $each: reasons }, changeIds: entry._id },
+      },
+      { upsert: true }
+    );
+    flagged += 1;
+  }
+  if (flagged) logger.info(`[RECONCILIATION] ${flagged} sampled activities changed upstream`);
+  return flagged;
+};
+
+/** Tasks of the activity for farmers that are no longer in it */
+const orphanedTasks = async (activityId: mongoose.Types.ObjectId, farmerIds: mongoose.Types.ObjectId[]) => {
+  const tasks = await CallTask.find({ activityId, farmerId: { $nin: farmerIds } })
+    .select('_id farmerId status callLog assignedAgentId')
+    .populate('farmerId', 'name mobileNumber')
+    .lean();
+  return tasks.map((t: any) => ({
+    taskId: t._id,
+    farmer: t.farmerId,
+    status: t.status,
+    assignedAgentId: t.assignedAgentId ?? null,
+    cancellable: CANCELLABLE_STATUSES.includes(t.status) && !t.callLog,
+  }));
+};
+
+const ACTIVITY_FIELDS = '_id activityId type date officerId officerName territoryName lifecycleStatus farmerIds';
+
+const summarize = async <T extends { activityId: mongoose.Types.ObjectId }>(item: T) => {
+  const activity = await Activity.findById(item.activityId).select(ACTIVITY_FIELDS).lean();
+  const farmerIds = (activity?.farmerIds || []) as mongoose.Types.ObjectId[];
+  const [taskCount, orphans] = await Promise.all([
+    CallTask.countDocuments({ activityId: item.activityId }),
+    activity ? orphanedTasks(activity._id as mongoose.Types.ObjectId, farmerIds) : Promise.resolve([]),
+  ]);
+  const { farmerIds: _omit, ...activityInfo } = activity || ({} as Record<string, any>);
+  return {
+    ...item,
+    activity: activity ? { ...activityInfo, farmerCount: farmerIds.length } : null,
+    taskCount,
+    orphanedTaskCount: orphans.length,
+    cancellableTaskCount: orphans.filter((o) => o.cancellable).length,
+  };
+};
+
+export interface ReconciliationListFilters {
+  status?: ReconciliationStatus;
+  reason?: ReconciliationReason;
+  page?: number;
+  limit?: number;
+}
+
+export const listReconciliations = async (filters: ReconciliationListFilters = {}) => {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(100, Math.max(1, filters.limit || 25));
+  const query: Record<string, unknown> = { status: filters.status || 'open' };
+  if (filters.reason) query.reasons = filters.reason;
+
+  const [items, total, grouped] = await Promise.all([
+    ActivityReconciliation.find(query)
+      .select('-changeIds')
+      .sort({ lastDetectedAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    ActivityReconciliation.countDocuments(query),
+    ActivityReconciliation.aggregate<{ _id: ReconciliationStatus; count: number }>([
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const counts: Record<ReconciliationStatus, number> = { open: 0, resolved: 0, dismissed: 0 };
+  for (const g of grouped) counts[g._id] = g.count;
+  return {
+    items: await Promise.all(items.map(summarize)),
+    counts,
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+  };
+};
+
+const loadItem = async (id: string): Promise<IActivityReconciliation> => {
+  const item = mongoose.isValidObjectId(id) ? await ActivityReconciliation.findById(id) : null;
+  if (!item) throw httpError('Reconciliation item not found', 404);
+  return item;
+};
+
+const loadOpenItem = async (id: string) => {
+  const item = await loadItem(id);
+  if (item.status !== 'open') throw httpError(`Reconciliation item is already ${item.status}`, 409);
+  const activity = await Activity.findById(item.activityId).select('_id farmerIds lifecycleStatus');
+  if (!activity) throw httpError('Activity no longer exists', 409);
+  return { item, activity };
+};
+
+/** Item with the activity, the logged changes behind it and the orphaned tasks */
+export const getReconciliation = async (id: string) => {
+  const item = await loadItem(id);
+  const [summary, changes, activity] = await Promise.all([
+    summarize(item.toObject()),
+    ChangeHistory.find({ _id: { $in: item.changeIds } }).sort({ createdAt: 1 }).lean(),
+    Activity.findById(item.activityId).select('_id farmerIds').lean(),
+  ]);
+  return {
+    ...summary,
+    changes,
+    orphanedTasks: activity
+      ? await orphanedTasks(activity._id as mongoose.Types.ObjectId, (activity.farmerIds || []) as mongoose.Types.ObjectId[])
+      : [],
+  };
+};
+
+const close = (item: IActivityReconciliation, status: 'resolved' | 'dismissed', userId: UserId) => {
+  item.status = status;
+  item.resolvedAt = new Date();
+  item.resolvedByUserId = toObjectId(userId);
+};
+
+/**
+ * Delete not-yet-called tasks of farmers removed from the activity. Tasks already in progress or
+ * with a call logged are kept and counted.
+ */
+export const cancelOrphanedTasks = async (id: string, userId: UserId, opts: { keepOpen?: boolean } = {}) => {
+  const { item, activity } = await loadOpenItem(id);
+  const orphans = await orphanedTasks(activity._id as mongoose.Types.ObjectId, activity.farmerIds);
+  const cancellable = orphans.filter((o) => o.cancellable).map((o) => o.taskId);
+
+  const { deletedCount } = cancellable.length
+    ? await CallTask.deleteMany({
+        _id: { $in: cancellable },
+        status: { $in: CANCELLABLE_STATUSES },
+        $or: [{ callLog: null }, { callLog: { $exists: false } }],
+      })
+    : { deletedCount: 0 };
+
+  item.actions.push({
+    action: 'cancel_orphaned_tasks',
+    at: new Date(),
+    byUserId: toObjectId(userId),
+    tasksCancelled: deletedCount,
+    tasksKept: orphans.length - deletedCount,
+  });
+  if (!opts.keepOpen) close(item, 'resolved', userId);
+  await item.save();
+
+  logger.info(`[RECONCILIATION] Cancelled ${deletedCount} orphaned tasks for activity ${item.activityKey}`);
+  return { item: item.toObject(), tasksCancelled: deletedCount, tasksKept: orphans.length - deletedCount };
+};
+
+/**
+ * Ad-hoc sample of the activity's current farmers (those without a task yet), ignoring activity
+ * cooling. Percentage, policy and farmer cooling are the same as a normal run.
+ */
+export const resampleReconciledActivity = async (id: string, userId: UserId, opts: { keepOpen?: boolean } = {}) => {
+  const { item, activity } = await loadOpenItem(id);
+  const result = await sampleAndCreateTasks(activity._id.toString(), undefined, {
+    runByUserId: userId ? String(userId) : undefined,
+    forceRun: true,
+    setFirstSampleRun: false,
+    samplingRunType: 'adhoc',
+  });
+  if (result.skipped) throw httpError(result.skipReason || 'Activity cannot be sampled', 409);
+
+  item.actions.push({ action: 'resample', at: new Date(), byUserId: toObjectId(userId), tasksCreated: result.tasksCreated });
+  if (!opts.keepOpen) close(item, 'resolved', userId);
+  await item.save();
+
+  return { item: item.toObject(), sampling: result };
+};
+
+export const dismissReconciliation = async (id: string, userId: UserId, note?: string | null) => {
+  const item = await loadItem(id);
+  if (item.status !== 'open') throw httpError(`Reconciliation item is already ${item.status}`, 409);
+  item.actions.push({ action: 'dismiss', at: new Date(), byUserId: toObjectId(userId), note: note?.trim() || null });
+  close(item, 'dismissed', userId);
+  await item.save();
+  return item.toObject();
+};
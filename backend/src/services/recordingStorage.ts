@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { AppError } from '../middleware/errorHandler.js';
+
+/**
+ * Where call recordings live. The CallTask only keeps a reference (provider + key), so a cloud
+ * bucket adapter can be added later without touching the task model or routes.
+ */
+export interface RecordingStorageAdapter {
+  readonly name: string;
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export const ALLOWED_RECORDING_TYPES = [
+  'audio/mpeg',
+  'audio/mp3',
+  'audio/wav',
+  'audio/x-wav',
+  'audio/wave',
+  'audio/ogg',
+  'audio/webm',
+  'audio/mp4',
+  'audio/x-m4a',
+  'audio/aac',
+];
+
+export const MAX_RECORDING_BYTES = 50 * 1024 * 1024; // 50MB
+
+const EXTENSION_BY_TYPE: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+};
+
+export const computeChecksumSha256 = (data: Buffer): string =>
+  crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * Storage key for a task's recording: `<taskId>/<timestamp>.<ext>`.
+ * A new upload gets a new key so the previous file can be removed after the task is saved.
+ */
+export const buildRecordingKey = (taskId: string, contentType: string, now: Date = new Date()): string => {
+  const ext = EXTENSION_BY_TYPE[contentType] || 'bin';
+  return `${taskId}/${now.getTime()}.${ext}`;
+};
+
+/**
+ * Stores recordings under RECORDINGS_DIR (default ./storage/recordings). Keys are relative paths;
+ * anything resolving outside the base directory is rejected.
+ */
+export class LocalDiskStorageAdapter implements RecordingStorageAdapter {
+  readonly name = 'local';
+  private readonly baseDir: string;
+
+  constructor(baseDir: string = process.env.RECORDINGS_DIR || path.join(process.cwd(), 'storage', 'recordings')) {
+    this.baseDir = path.resolve(baseDir);
+  }
+
+  private resolveKey(key: string): string {
+    const fullPath = path.resolve(this.baseDir, key);
+    if (!fullPath.startsWith(this.baseDir + path.sep)) {
+      const error: AppError = new Error('Invalid recording key');
+      error.statusCode = 400;
+      throw error;
+    }
+    return fullPath;
+  }
+
+  // Content type is kept on the CallTask; plain files don't need it
+  async save(key: string, data: Buffer, _contentType?: string): Promise<void> {
+    const fullPath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolveKey(key));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') {
+        const error: AppError = new Error('Recording file not found');
+        error.statusCode = 404;
+        throw error;
+      }
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+}
+
+let storage: RecordingStorageAdapter | null = null;
+
+/**
+ * Configured adapter (RECORDING_STORAGE, default 'local').
+ */
+export const getRecordingStorage = (): RecordingStorageAdapter => {
+  if (storage) return storage;
+  const provider = (process.env.RECORDING_STORAGE || 'local').toLowerCase();
+  switch (provider) {
+    case 'local':
+      storage = new LocalDiskStorageAdapter();
+      break;
+    default:
+      throw new Error(`Unsupported RECORDING_STORAGE provider: ${provider}`);
+  }
+  return storage;
+};
@@ -1,13 +1,32 @@
 import { Activity } from '../models/Activity.js';
 import { CallTask } from '../models/CallTask.js';
 import { SamplingAudit } from '../models/SamplingAudit.js';
+import { getCallAttempts } from '../utils/callAttempts.js';
 import mongoose from 'mongoose';
 import type { EmsProgressFilters } from './kpiService.js';
 import { buildActivityMatch } from './kpiService.js';
 
+/**
+ * One call attempt in the task-detail export; attempts are written side by side (Attempt 1, Attempt 2, ...).
+ */
+export interface TaskDetailExportAttempt {
+  attemptNumber: number;
+  timestamp: string;
+  agentName: string;
+  callStatus: string;
+  callDurationSeconds: number;
+  resultingStatus: string;
+  didAttend: string;
+  didRecall: string;
+  hasPurchased: string;
+  sentiment: string;
+  farmerComments: string;
+}
+
 /**
  * One row per task for Excel task-detail export.
- * Sections: 1) Activity details 2) Sampling details 3) Task details 4) Agent/Calling details 5) Final outcome and comments.
+ * Sections: 1) Activity details 2) Sampling details 3) Task details 4) Agent/Calling details 5) Final outcome and comments
+ * 6) Call attempts.
  */
 export interface TaskDetailExportRow {
   // ---- 1. Activity details ----
@@ -72,6 +91,9 @@ export interface TaskDetailExportRow {
   farmerComments: string;
   sentiment: string;
   lastStatusNote: string;    // last interaction history note if any
+  // ---- 6. Call attempts (oldest first) ----
+  attemptCount: number;
+  attempts: TaskDetailExportAttempt[];
 }
 
 export interface ReportFilters extends EmsProgressFilters {
@@ -325,6 +347,7 @@ export async function getTaskDetailExportRows(filters?: ReportFilters): Promise<
     .populate('farmerId', 'name mobileNumber preferredLanguage location territory')
     .populate('activityId', 'activityId type date officerId officerName tmName tmEmpCode location territory territoryName zoneName buName state crops products lifecycleStatus syncedAt')
     .populate('assignedAgentId', 'name email employeeId')
+    .populate('callAttempts.agentId', 'name')
     .sort({ scheduledDate: -1, createdAt: -1 })
     .lean();
 
@@ -345,6 +368,21 @@ export async function getTaskDetailExportRows(filters?: ReportFilters): Promise<
     const purchasedProducts = Array.isArray(log.purchasedProducts)
       ? log.purchasedProducts.map((p: any) => `${p.product || ''} (${p.quantity || ''} ${p.unit || ''})`).filter(Boolean).join('; ')
       : '';
+    const attempts: TaskDetailExportAttempt[] = getCallAttempts(t).map((a: any) => ({
+      attemptNumber: a.attemptNumber,
+      timestamp: fmtDate(a.timestamp),
+      // Legacy attempts (from callLog) carry the assigned agent's id unpopulated
+      agentName:
+        a.agentId?.name ?? (agent?._id && String(a.agentId ?? '') === String(agent._id) ? agent.name ?? '' : ''),
+      callStatus: a.callStatus ?? '',
+      callDurationSeconds: a.callDurationSeconds ?? 0,
+      resultingStatus: a.resultingStatus ?? '',
+      didAttend: a.didAttend != null ? String(a.didAttend) : '',
+      didRecall: a.didRecall != null ? String(a.didRecall) : '',
+      hasPurchased: a.hasPurchased != null ? String(a.hasPurchased) : '',
+      sentiment: a.sentiment ?? '',
+      farmerComments: a.farmerComments ?? '',
+    }));
 
     rows.push({
       // 1. Activity details
@@ -409,6 +447,9 @@ export async function getTaskDetailExportRows(filters?: ReportFilters): Promise<
       farmerComments: log.farmerComments ?? '',
       sentiment: log.sentiment ?? '',
       lastStatusNote: lastNote,
+      // 6. Call attempts
+      attemptCount: attempts.length,
+      attempts,
     });
   }
   return rows;
@@ -0,0 +1,311 @@
+import mongoose from 'mongoose';
+import { CallTask, CallStatus, IAutoRetry, ICallTask } from '../models/CallTask.js';
+import { SamplingConfig, IRetryPolicy, ICallingWindow, RetryableCallStatus } from '../models/SamplingConfig.js';
+import { User } from '../models/User.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { getDoNotCallFarmerIds } from './doNotCallService.js';
+import logger from '../config/logger.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** callbackNumber is capped at 2 on the schema, so a farmer+activity gets at most 3 calls */
+export const MAX_CALLBACK_NUMBER = 2;
+
+export const DEFAULT_RETRY_POLICY: IRetryPolicy = {
+  enabled: false,
+  maxAttempts: 3,
+  gapHoursByStatus: { 'No Answer': 4, Disconnected: 2, 'Incoming N/A': 24 },
+  callingWindows: [
+    { startHour: 9, endHour: 13 },
+    { startHour: 16, endHour: 19 },
+  ],
+  timezone: 'Asia/Kolkata',
+};
+
+/** Legacy 'Not Reachable' is treated like 'Incoming N/A' */
+const RETRY_GAP_KEY: Partial<Record<CallStatus, RetryableCallStatus>> = {
+  'No Answer': 'No Answer',
+  Disconnected: 'Disconnected',
+  'Incoming N/A': 'Incoming N/A',
+  'Not Reachable': 'Incoming N/A',
+};
+
+export interface RetrySweepResult {
+  due: number;
+  created: number;
+  skipped: number;
+}
+
+export type AutoRetryOverrideAction = 'skip' | 'reschedule' | 'run_now';
+
+const badRequest = (message: string): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = 400;
+  return error;
+};
+
+const normalizePolicy = (policy: Partial<IRetryPolicy> | null | undefined): IRetryPolicy => {
+  const raw: any = policy && typeof (policy as any).toObject === 'function' ? (policy as any).toObject() : policy || {};
+  return {
+    enabled: raw.enabled ?? DEFAULT_RETRY_POLICY.enabled,
+    maxAttempts: raw.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    gapHoursByStatus: { ...DEFAULT_RETRY_POLICY.gapHoursByStatus, ...(raw.gapHoursByStatus || {}) },
+    callingWindows: Array.isArray(raw.callingWindows)
+      ? raw.callingWindows.map((w: ICallingWindow) => ({ startHour: w.startHour, endHour: w.endHour }))
+      : DEFAULT_RETRY_POLICY.callingWindows,
+    timezone: raw.timezone || DEFAULT_RETRY_POLICY.timezone,
+  };
+};
+
+export const getRetryPolicy = async (): Promise<IRetryPolicy> => {
+  const config = await SamplingConfig.findOne({ key: 'default' }).select('retryPolicy').lean();
+  return normalizePolicy(config?.retryPolicy);
+};
+
+export const updateRetryPolicy = async (
+  updates: Partial<IRetryPolicy>,
+  updatedByUserId: string
+): Promise<IRetryPolicy> => {
+  const next = normalizePolicy({ ...(await getRetryPolicy()), ...updates });
+
+  for (const w of next.callingWindows) {
+    if (!(w.startHour >= 0 && w.endHour <= 24 && w.startHour < w.endHour)) {
+      throw badRequest('Calling window start must be before its end (hours 0-24)');
+    }
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: next.timezone });
+  } catch {
+    throw badRequest(`Unknown timezone: ${next.timezone}`);
+  }
+
+  await SamplingConfig.findOneAndUpdate(
+    { key: 'default' },
+    {
+      $set: { retryPolicy: next, updatedByUserId: new mongoose.Types.ObjectId(updatedByUserId) },
+      $setOnInsert: { key: 'default', isActive: true },
+    },
+    { upsert: true, new: true }
+  );
+
+  logger.info('Retry policy updated', { enabled: next.enabled, maxAttempts: next.maxAttempts });
+  return next;
+};
+
+/** Wall-clock parts of `date` in `timeZone` */
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+/** UTC instant for a wall-clock time in `timeZone` */
+const zonedTimeToUtc = (year: number, month: number, day: number, hour: number, timeZone: string): Date => {
+  const guess = Date.UTC(year, month - 1, day, hour);
+  const p = getZonedParts(new Date(guess), timeZone);
+  const offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - guess;
+  return new Date(guess - offset);
+};
+
+/**
+ * Earliest moment at or after `earliest` that falls inside one of the calling windows.
+ */
+export const nextCallingWindowStart = (earliest: Date, windows: ICallingWindow[], timeZone: string): Date => {
+  if (!windows.length) return earliest;
+  const sorted = [...windows].sort((a, b) => a.startHour - b.startHour);
+  const local = getZonedParts(earliest, timeZone);
+
+  for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+    const d = new Date(Date.UTC(local.year, local.month - 1, local.day + dayOffset));
+    for (const w of sorted) {
+      const start = zonedTimeToUtc(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate(), w.startHour, timeZone);
+      const end = zonedTimeToUtc(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate(), w.endHour, timeZone);
+      if (earliest < end) return earliest > start ? earliest : start;
+    }
+  }
+  return earliest;
+};
+
+/**
+ * Retry bookkeeping for a task that was just submitted with `callStatus`.
+ * Returns null when the call needs no retry (connected / invalid) or the policy is off.
+ */
+export const planAutoRetry = (
+  task: Pick<ICallTask, 'callbackNumber' | 'assignedAgentId'>,
+  callStatus: CallStatus,
+  policy: IRetryPolicy,
+  now: Date = new Date()
+): IAutoRetry | null => {
+  const gapKey = RETRY_GAP_KEY[callStatus];
+  if (!policy.enabled || !gapKey) return null;
+
+  const callbackNumber = task.callbackNumber || 0;
+  const attemptsSoFar = callbackNumber + 1;
+  if (attemptsSoFar >= policy.maxAttempts || callbackNumber >= MAX_CALLBACK_NUMBER) {
+    return { state: 'exhausted', nextRetryAt: null, note: `Max attempts (${policy.maxAttempts}) reached`, updatedAt: now };
+  }
+
+  const earliest = new Date(now.getTime() + Number(policy.gapHoursByStatus[gapKey] || 0) * HOUR_MS);
+  return {
+    state: 'scheduled',
+    nextRetryAt: nextCallingWindowStart(earliest, policy.callingWindows, policy.timezone),
+    agentId: task.assignedAgentId ?? null,
+    note: `Auto retry after ${callStatus}`,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Create the callback task for one parent task. The callback goes to `autoRetry.agentId`
+ * (the original agent unless a team lead chose another).
+ */
+const createRetryCallback = async (parent: ICallTask, now: Date): Promise<'created' | 'skipped'> => {
+  const callbackNumber = (parent.callbackNumber || 0) + 1;
+  const agentId = parent.autoRetry?.agentId || parent.assignedAgentId;
+  const agent = agentId ? await User.findOne({ _id: agentId, isActive: true }).select('_id').lean() : null;
+
+  const markSkipped = async (note: string) => {
+    await CallTask.updateOne(
+      { _id: parent._id },
+      { $set: { 'autoRetry.state': 'skipped', 'autoRetry.note': note, 'autoRetry.updatedAt': now } }
+    );
+    return 'skipped' as const;
+  };
+
+  if (callbackNumber > MAX_CALLBACK_NUMBER) return markSkipped('Maximum callbacks reached');
+  if (!agent) return markSkipped('Agent is inactive or unassigned');
+  if ((await getDoNotCallFarmerIds([parent.farmerId])).size) return markSkipped('Farmer is on the do-not-call registry');
+  if (await CallTask.exists({ parentTaskId: parent._id })) return markSkipped('Callback already created');
+
+  try {
+    const callback = await CallTask.create({
+      farmerId: parent.farmerId,
+      activityId: parent.activityId,
+      status: 'sampled_in_queue',
+      retryCount: (parent.retryCount || 0) + 1,
+      assignedAgentId: agent._id,
+      scheduledDate: now,
+      parentTaskId: parent._id,
+      isCallback: true,
+      callbackNumber,
+      interactionHistory: [
+        {
+          timestamp: now,
+          status: 'sampled_in_queue',
+          notes: `Callback #${callbackNumber} created automatically by retry policy from task ${parent._id}`,
+        },
+      ],
+    });
+
+    await CallTask.updateOne(
+      { _id: parent._id },
+      { $set: { 'autoRetry.state': 'created', 'autoRetry.callbackTaskId': callback._id, 'autoRetry.updatedAt': now } }
+    );
+    return 'created';
+  } catch (err: any) {
+    // Unique (activityId, farmerId, callbackNumber): someone created it concurrently
+    if (err?.code === 11000) return markSkipped('Callback already created');
+    throw err;
+  }
+};
+
+/**
+ * Create callback tasks for every scheduled retry that is due (run from cron).
+ */
+export const createDueRetryCallbacks = async (now: Date = new Date()): Promise<RetrySweepResult> => {
+  const result: RetrySweepResult = { due: 0, created: 0, skipped: 0 };
+
+  const due = await CallTask.find({
+    'autoRetry.state': 'scheduled',
+    'autoRetry.nextRetryAt': { $lte: now },
+  });
+  result.due = due.length;
+
+  for (const parent of due) {
+    try {
+      const outcome = await createRetryCallback(parent, now);
+      result[outcome]++;
+    } catch (error) {
+      logger.error('Failed to create auto retry callback', { taskId: parent._id.toString(), error });
+    }
+  }
+
+  if (result.due > 0) logger.info('Auto retry sweep completed', result);
+  return result;
+};
+
+/**
+ * Team lead override: skip the retry, move it (and optionally to another agent), or create the callback now.
+ */
+export const overrideAutoRetry = async (
+  taskId: string,
+  action: AutoRetryOverrideAction,
+  options: { nextRetryAt?: Date; agentId?: string; note?: string },
+  user: { _id: mongoose.Types.ObjectId; role: string }
+): Promise<ICallTask> => {
+  const task = await CallTask.findById(taskId);
+  if (!task) {
+    const error: AppError = new Error('Task not found');
+    error.statusCode = 404;
+    throw error;
+  }
+
+  const teamLeadScope = user.role === 'mis_admin' ? null : user._id;
+  if (teamLeadScope) {
+    const inTeam = task.assignedAgentId && (await User.exists({ _id: task.assignedAgentId, teamLeadId: teamLeadScope }));
+    if (!inTeam) {
+      const error: AppError = new Error('Access denied');
+      error.statusCode = 403;
+      throw error;
+    }
+  }
+
+  if (!['completed', 'not_reachable', 'invalid_number'].includes(task.status)) {
+    throw badRequest('Only called tasks can be retried');
+  }
+  if (task.autoRetry?.state === 'created' || (await CallTask.exists({ parentTaskId: task._id }))) {
+    throw badRequest('A callback already exists for this task');
+  }
+  if ((task.callbackNumber || 0) >= MAX_CALLBACK_NUMBER && action !== 'skip') {
+    throw badRequest('Maximum callbacks reached for this task');
+  }
+
+  let agentId = task.autoRetry?.agentId || task.assignedAgentId || null;
+  if (options.agentId) {
+    const agent = await User.findOne({
+      _id: options.agentId,
+      role: 'cc_agent',
+      isActive: true,
+      ...(teamLeadScope && { teamLeadId: teamLeadScope }),
+    }).select('_id');
+    if (!agent) throw badRequest('Agent not found in your team');
+    agentId = agent._id;
+  }
+
+  const now = new Date();
+  task.autoRetry = {
+    state: action === 'skip' ? 'skipped' : 'scheduled',
+    nextRetryAt: action === 'skip' ? null : action === 'run_now' ? now : options.nextRetryAt ?? now,
+    callbackTaskId: null,
+    agentId,
+    overriddenBy: user._id,
+    note: options.note || (action === 'skip' ? 'Skipped by team lead' : 'Rescheduled by team lead'),
+    updatedAt: now,
+  };
+  await task.save();
+
+  if (action === 'run_now') {
+    await createRetryCallback(task, now);
+    return (await CallTask.findById(task._id))!;
+  }
+  return task;
+};
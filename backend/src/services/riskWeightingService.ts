@@ -0,0 +1,157 @@
+import type { CoverageOfficerLevel, IRiskWeightingSettings } from '../models/SamplingConfig.js';
+import { getEmsReportSummary, type EmsReportSummaryRow } from './emsReportService.js';
+
+/**
+ * Risk-weighted sampling: officers whose recent calls show poor validity or many identity-wrong
+ * farmers are sampled harder; consistently good officers are sampled less. Metrics come from the
+ * EMS report summary for the lookback window, grouped by FDA or TM name.
+ */
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type RiskBand = 'poor' | 'good' | 'neutral' | 'insufficient_data';
+
+export interface OfficerRiskMetrics {
+  totalConnected: number;
+  meetingValidityPct: number;
+  mobileValidityPct: number;
+  identityWrongPct: number;
+  emsScore: number;
+}
+
+export interface OfficerRiskProfiles {
+  settings: IRiskWeightingSettings;
+  windowFrom: Date;
+  windowTo: Date;
+  /** Keyed by lower-cased officer name */
+  metrics: Map<string, OfficerRiskMetrics>;
+}
+
+/** What SamplingAudit records about a risk adjustment */
+export interface RiskAdjustment {
+  officerLevel: CoverageOfficerLevel;
+  officer: string;
+  band: RiskBand;
+  reasons: string[];
+  metrics: OfficerRiskMetrics | null;
+  basePercentage: number;
+  adjustedPercentage: number;
+  lookbackWeeks: number;
+  windowFrom: Date;
+  windowTo: Date;
+}
+
+export const DEFAULT_RISK_WEIGHTING: IRiskWeightingSettings = {
+  enabled: false,
+  officerLevel: 'fda',
+  lookbackWeeks: 8,
+  minConnectedCalls: 10,
+  poorValidityPct: 60,
+  poorIdentityWrongPct: 10,
+  goodEmsScore: 80,
+  increaseFactor: 1.5,
+  decreaseFactor: 0.5,
+  minPercentage: 5,
+  maxPercentage: 50,
+};
+
+const normalize = (s: unknown) => String(s ?? '').trim().toLowerCase();
+
+/** Saved settings over the defaults (reads known keys only, so a Mongoose subdocument works too) */
+export const riskWeightingSettings = (value: Partial<IRiskWeightingSettings> | undefined | null): IRiskWeightingSettings =>
+  Object.fromEntries(
+    Object.entries(DEFAULT_RISK_WEIGHTING).map(([key, fallback]) => [
+      key,
+      (value as Record<string, unknown> | null | undefined)?.[key] ?? fallback,
+    ])
+  ) as unknown as IRiskWeightingSettings;
+
+const toMetrics = (row: EmsReportSummaryRow): OfficerRiskMetrics => ({
+  totalConnected: row.totalConnected,
+  meetingValidityPct: row.meetingValidityPct,
+  mobileValidityPct: row.mobileValidityPct,
+  identityWrongPct: row.totalConnected > 0 ? Math.round((row.identityWrongCount / row.totalConnected) * 100) : 0,
+  emsScore: row.emsScore,
+});
+
+/** EMS metrics per officer over the lookback window ending at `asOf` */
+export const loadOfficerRiskProfiles = async (
+  value: Partial<IRiskWeightingSettings> | undefined | null,
+  asOf: Date = new Date()
+): Promise<OfficerRiskProfiles> => {
+  const settings = riskWeightingSettings(value);
+  const windowTo = asOf;
+  const windowFrom = new Date(asOf.getTime() - settings.lookbackWeeks * WEEK_MS);
+  const rows = await getEmsReportSummary({ dateFrom: windowFrom, dateTo: windowTo }, settings.officerLevel);
+  const metrics = new Map<string, OfficerRiskMetrics>();
+  for (const row of rows) {
+    if (row.groupKey && row.groupKey !== '—') metrics.set(normalize(row.groupKey), toMetrics(row));
+  }
+  return { settings, windowFrom, windowTo, metrics };
+};
+
+/** Band and reasons for one officer's metrics */
+export const assessOfficerRisk = (
+  metrics: OfficerRiskMetrics | null | undefined,
+  settings: IRiskWeightingSettings
+): { band: RiskBand; reasons: string[] } => {
+  if (!metrics || metrics.totalConnected < settings.minConnectedCalls) {
+    return {
+      band: 'insufficient_data',
+      reasons: [`Fewer than ${settings.minConnectedCalls} connected calls in the last ${settings.lookbackWeeks} weeks`],
+    };
+  }
+  const reasons: string[] = [];
+  if (metrics.meetingValidityPct < settings.poorValidityPct) {
+    reasons.push(`Meeting validity ${metrics.meetingValidityPct}% is below ${settings.poorValidityPct}%`);
+  }
+  if (metrics.mobileValidityPct < settings.poorValidityPct) {
+    reasons.push(`Mobile validity ${metrics.mobileValidityPct}% is below ${settings.poorValidityPct}%`);
+  }
+  if (metrics.identityWrongPct > settings.poorIdentityWrongPct) {
+    reasons.push(`Identity wrong on ${metrics.identityWrongPct}% of connected calls (limit ${settings.poorIdentityWrongPct}%)`);
+  }
+  if (reasons.length > 0) return { band: 'poor', reasons };
+  if (metrics.emsScore >= settings.goodEmsScore) {
+    return { band: 'good', reasons: [`EMS score ${metrics.emsScore} is at least ${settings.goodEmsScore} with validity in range`] };
+  }
+  return { band: 'neutral', reasons: ['Validity in range; EMS score below the good threshold'] };
+};
+
+/**
+ * Risk-adjusted percentage. Increases never lower the base and decreases never raise it, so the
+ * bounds only limit how far an adjustment goes.
+ */
+export const adjustSamplingPercentage = (base: number, band: RiskBand, settings: IRiskWeightingSettings): number => {
+  const round = (n: number) => Math.round(n * 10) / 10;
+  if (band === 'poor') return round(Math.max(base, Math.min(settings.maxPercentage, base * settings.increaseFactor)));
+  if (band === 'good') return round(Math.min(base, Math.max(settings.minPercentage, base * settings.decreaseFactor)));
+  return base;
+};
+
+/** Adjustment for an activity, or null when risk weighting is off */
+export const riskAdjustmentFor = (
+  profiles: OfficerRiskProfiles | null,
+  activity: { officerName?: string | null; tmName?: string | null },
+  basePercentage: number
+): RiskAdjustment | null => {
+  if (!profiles || !profiles.settings.enabled) return null;
+  const { settings } = profiles;
+  const officer = String((settings.officerLevel === 'tm' ? activity.tmName : activity.officerName) || '').trim();
+  const metrics = officer ? profiles.metrics.get(normalize(officer)) ?? null : null;
+  const { band, reasons } = officer
+    ? assessOfficerRisk(metrics, settings)
+    : { band: 'insufficient_data' as const, reasons: ['Activity has no officer name'] };
+  return {
+    officerLevel: settings.officerLevel,
+    officer,
+    band,
+    reasons,
+    metrics,
+    basePercentage,
+    adjustedPercentage: adjustSamplingPercentage(basePercentage, band, settings),
+    lookbackWeeks: settings.lookbackWeeks,
+    windowFrom: profiles.windowFrom,
+    windowTo: profiles.windowTo,
+  };
+};
@@ -0,0 +1,247 @@
+import mongoose from 'mongoose';
+import { AgentRoster, IAgentRoster, IShift, ILeaveDay } from '../models/AgentRoster.js';
+import { CallTask } from '../models/CallTask.js';
+import { User } from '../models/User.js';
+import { AppError } from '../middleware/errorHandler.js';
+import logger from '../config/logger.js';
+
+/** Shifts and leave days are wall-clock IST, like the cron schedules */
+export const ROSTER_TIMEZONE = 'Asia/Kolkata';
+
+/** Capacity for agents without a roster (allocation still treats them as on shift every day) */
+export const DEFAULT_DAILY_CAPACITY = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AgentAvailabilityInfo {
+  agentId: string;
+  hasRoster: boolean;
+  onShift: boolean;
+  offReason: 'leave' | 'off_day' | null;
+  leaveReason: string | null;
+  shift: IShift | null;
+  dailyCapacity: number;
+  /** sampled_in_queue + in_progress tasks already on the agent's queue */
+  openTasks: number;
+  /** sampled_in_queue only (not yet picked up) */
+  queuedTasks: number;
+  remainingCapacity: number;
+}
+
+const badRequest = (message: string, statusCode = 400): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+/** Calendar day of `at` in the roster timezone */
+export const getRosterDay = (at: Date): { date: string; dayOfWeek: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: ROSTER_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+  }).formatToParts(at);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, dayOfWeek: weekdays.indexOf(get('weekday')) };
+};
+
+/**
+ * Whether an agent works on the day of `at`. Allocation fills the day's queue, so an agent whose
+ * shift starts later today still counts as on shift.
+ */
+export const getDayStatus = (
+  roster: Pick<IAgentRoster, 'shifts' | 'leaves'> | null,
+  at: Date
+): { onShift: boolean; offReason: 'leave' | 'off_day' | null; leaveReason: string | null; shift: IShift | null } => {
+  if (!roster) return { onShift: true, offReason: null, leaveReason: null, shift: null };
+  const day = getRosterDay(at);
+  const leave = (roster.leaves || []).find((l) => l.date === day.date);
+  if (leave) return { onShift: false, offReason: 'leave', leaveReason: leave.reason || null, shift: null };
+  const shift = (roster.shifts || []).find((s) => s.dayOfWeek === day.dayOfWeek) || null;
+  if (!shift) return { onShift: false, offReason: 'off_day', leaveReason: null, shift: null };
+  return { onShift: true, offReason: null, leaveReason: null, shift };
+};
+
+/**
+ * On-shift status and remaining capacity for each agent on the day of `at`.
+ */
+export const getAgentAvailability = async (
+  agentIds: Array<string | mongoose.Types.ObjectId>,
+  at: Date = new Date()
+): Promise<Map<string, AgentAvailabilityInfo>> => {
+  const ids = agentIds.map((id) => new mongoose.Types.ObjectId(String(id)));
+  const [rosters, openCounts] = await Promise.all([
+    AgentRoster.find({ agentId: { $in: ids } }).lean<IAgentRoster[]>(),
+    CallTask.aggregate([
+      { $match: { assignedAgentId: { $in: ids }, status: { $in: ['sampled_in_queue', 'in_progress'] } } },
+      {
+        $group: {
+          _id: '$assignedAgentId',
+          count: { $sum: 1 },
+          queued: { $sum: { $cond: [{ $eq: ['$status', 'sampled_in_queue'] }, 1, 0] } },
+        },
+      },
+    ]),
+  ]);
+  const rosterByAgent = new Map(rosters.map((r) => [r.agentId.toString(), r]));
+  const openByAgent = new Map(openCounts.map((c: any) => [c._id.toString(), c]));
+
+  const result = new Map<string, AgentAvailabilityInfo>();
+  for (const id of ids) {
+    const key = id.toString();
+    const roster = rosterByAgent.get(key) ?? null;
+    const status = getDayStatus(roster, at);
+    const dailyCapacity = roster ? roster.dailyCapacity : DEFAULT_DAILY_CAPACITY;
+    const openTasks = openByAgent.get(key)?.count ?? 0;
+    result.set(key, {
+      agentId: key,
+      hasRoster: !!roster,
+      ...status,
+      dailyCapacity,
+      openTasks,
+      queuedTasks: openByAgent.get(key)?.queued ?? 0,
+      remainingCapacity: status.onShift ? Math.max(0, dailyCapacity - openTasks) : 0,
+    });
+  }
+  return result;
+};
+
+const loadManagedAgent = async (agentId: string, user: { _id: mongoose.Types.ObjectId | string; role: string }) => {
+  if (!mongoose.Types.ObjectId.isValid(agentId)) throw badRequest('Invalid agent ID');
+  const query: any = { _id: agentId, role: 'cc_agent' };
+  if (user.role !== 'mis_admin') query.teamLeadId = user._id;
+  const agent = await User.findOne(query).select('_id name').lean();
+  if (!agent) throw badRequest('Agent not found or not under your team', 404);
+  return agent;
+};
+
+const normalizeShifts = (shifts: IShift[]): IShift[] => {
+  const seen = new Set<number>();
+  for (const s of shifts) {
+    if (!Number.isInteger(s.dayOfWeek) || s.dayOfWeek < 0 || s.dayOfWeek > 6) {
+      throw badRequest('dayOfWeek must be 0 (Sunday) to 6 (Saturday)');
+    }
+    if (seen.has(s.dayOfWeek)) throw badRequest('Only one shift per day of the week');
+    seen.add(s.dayOfWeek);
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(s.startTime) || !/^([01]\d|2[0-3]):[0-5]\d$/.test(s.endTime)) {
+      throw badRequest('Shift times must be HH:mm');
+    }
+    if (s.startTime >= s.endTime) throw badRequest('Shift must end after it starts');
+  }
+  return [...shifts]
+    .map((s) => ({ dayOfWeek: s.dayOfWeek, startTime: s.startTime, endTime: s.endTime }))
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek);
+};
+
+export const updateAgentRoster = async (
+  agentId: string,
+  updates: { shifts?: IShift[]; dailyCapacity?: number },
+  user: { _id: mongoose.Types.ObjectId | string; role: string }
+): Promise<IAgentRoster> => {
+  await loadManagedAgent(agentId, user);
+
+  const $set: Record<string, unknown> = { updatedByUserId: user._id };
+  if (updates.shifts !== undefined) $set.shifts = normalizeShifts(updates.shifts);
+  if (updates.dailyCapacity !== undefined) {
+    if (!Number.isInteger(updates.dailyCapacity) || updates.dailyCapacity < 0) {
+      throw badRequest('dailyCapacity must be a whole number, 0 or more');
+    }
+    $set.dailyCapacity = updates.dailyCapacity;
+  }
+
+  const roster = await AgentRoster.findOneAndUpdate({ agentId }, { $set }, { upsert: true, new: true, runValidators: true });
+  logger.info('Agent roster updated', { agentId, by: user._id.toString() });
+  return roster!;
+};
+
+export const addLeaveDay = async (
+  agentId: string,
+  leave: { date: string; reason?: string },
+  user: { _id: mongoose.Types.ObjectId | string; role: string }
+): Promise<IAgentRoster> => {
+  await loadManagedAgent(agentId, user);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(leave.date) || Number.isNaN(Date.parse(leave.date))) {
+    throw badRequest('date must be YYYY-MM-DD');
+  }
+
+  // Replace an existing entry for the same day (reason edits)
+  await AgentRoster.updateOne({ agentId }, { $pull: { leaves: { date: leave.date } } });
+  const entry: ILeaveDay = {
+    date: leave.date,
+    reason: leave.reason?.trim() || '',
+    createdByUserId: new mongoose.Types.ObjectId(String(user._id)),
+    createdAt: new Date(),
+  };
+  const roster = await AgentRoster.findOneAndUpdate(
+    { agentId },
+    { $push: { leaves: { $each: [entry], $sort: { date: 1 } } }, $set: { updatedByUserId: user._id } },
+    { upsert: true, new: true }
+  );
+  return roster!;
+};
+
+export const removeLeaveDay = async (
+  agentId: string,
+  date: string,
+  user: { _id: mongoose.Types.ObjectId | string; role: string }
+): Promise<IAgentRoster | null> => {
+  await loadManagedAgent(agentId, user);
+  return AgentRoster.findOneAndUpdate(
+    { agentId },
+    { $pull: { leaves: { date } }, $set: { updatedByUserId: user._id } },
+    { new: true }
+  );
+};
+
+/**
+ * Roster grid for the team lead UI: each agent's week from `from` (shift / off / leave per day)
+ * with today's capacity. MIS Admin sees all agents.
+ */
+export const getTeamRoster = async (
+  user: { _id: mongoose.Types.ObjectId | string; role: string },
+  from: Date = new Date(),
+  days = 7
+) => {
+  const agentQuery: any = { role: 'cc_agent', isActive: true };
+  if (user.role !== 'mis_admin') agentQuery.teamLeadId = user._id;
+  const agents = await User.find(agentQuery).select('_id name email employeeId languageCapabilities').sort({ name: 1 }).lean();
+
+  const agentIds = agents.map((a) => a._id as mongoose.Types.ObjectId);
+  const [rosters, today] = await Promise.all([
+    AgentRoster.find({ agentId: { $in: agentIds } }).lean<IAgentRoster[]>(),
+    getAgentAvailability(agentIds, new Date()),
+  ]);
+  const rosterByAgent = new Map(rosters.map((r) => [r.agentId.toString(), r]));
+
+  const dates = Array.from({ length: days }, (_, i) => new Date(from.getTime() + i * DAY_MS));
+  const dayList = dates.map((d) => getRosterDay(d));
+  const firstDay = dayList[0].date;
+
+  return {
+    days: dayList,
+    defaultDailyCapacity: DEFAULT_DAILY_CAPACITY,
+    agents: agents.map((agent) => {
+      const key = agent._id.toString();
+      const roster = rosterByAgent.get(key) ?? null;
+      return {
+        agentId: key,
+        name: agent.name,
+        email: agent.email,
+        employeeId: (agent as any).employeeId ?? null,
+        languageCapabilities: (agent as any).languageCapabilities ?? [],
+        hasRoster: !!roster,
+        shifts: roster?.shifts ?? [],
+        dailyCapacity: roster?.dailyCapacity ?? DEFAULT_DAILY_CAPACITY,
+        leaves: (roster?.leaves ?? []).filter((l) => l.date >= firstDay).map((l) => ({ date: l.date, reason: l.reason || '' })),
+        today: today.get(key) ?? null,
+        week: dates.map((d, i) => {
+          const status = getDayStatus(roster, d);
+          return { date: dayList[i].date, ...status };
+        }),
+      };
+    }),
+  };
+};
@@ -0,0 +1,226 @@
+import mongoose from 'mongoose';
+import { SamplingRun } from '../models/SamplingRun.js';
+import { AllocationRun } from '../models/AllocationRun.js';
+import { AppError } from '../middleware/errorHandler.js';
+import logger from '../config/logger.js';
+
+/**
+ * Cancel / resume for sampling and allocation runs, and detection of runs left `running` by a
+ * server that stopped mid-run. Runs execute inside the request that started them, so a cancel only
+ * sets `cancelRequestedAt`; the loop sees it at its next checkpoint and stops.
+ */
+
+export type RunKind = 'sampling' | 'allocation';
+
+/** A running run with no progress for this long is treated as abandoned */
+export const RUN_STALE_AFTER_MS = 10 * 60 * 1000;
+/** Abandoned runs older than this are failed rather than offered for resume */
+export const RUN_RESUMABLE_FOR_MS = 24 * 60 * 60 * 1000;
+
+const models: Record<RunKind, mongoose.Model<any>> = {
+  sampling: SamplingRun,
+  allocation: AllocationRun,
+};
+
+const LABELS: Record<RunKind, string> = { sampling: 'Sampling run', allocation: 'Allocation run' };
+
+/** Runs being executed by this process (never treated as stale here) */
+const activeRuns = new Set<string>();
+
+const fail = (message: string, statusCode: number): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+/** Mark the run as executing in this process for the duration of `fn` */
+export const trackRun = async <T>(runId: mongoose.Types.ObjectId | string, fn: () => Promise<T>): Promise<T> => {
+  const key = runId.toString();
+  activeRuns.add(key);
+  try {
+    return await fn();
+  } finally {
+    activeRuns.delete(key);
+  }
+};
+
+export const isRunActiveHere = (runId: mongoose.Types.ObjectId | string): boolean => activeRuns.has(runId.toString());
+
+/** Save progress (refreshing lastProgressAt); returns true when a cancel has been requested */
+export const checkpointRun = async (
+  kind: RunKind,
+  runId: mongoose.Types.ObjectId,
+  set: Record<string, unknown>
+): Promise<boolean> => {
+  const run = await models[kind]
+    .findOneAndUpdate({ _id: runId }, { $set: { ...set, lastProgressAt: new Date() } }, { new: true, projection: { cancelRequestedAt: 1 } })
+    .lean<{ cancelRequestedAt?: Date | null }>();
+  return !!run?.cancelRequestedAt;
+};
+
+type RunDoc = {
+  _id: mongoose.Types.ObjectId;
+  status: string;
+  processed?: number;
+  startedAt?: Date;
+  lastProgressAt?: Date | null;
+  cancelRequestedAt?: Date | null;
+  plan?: unknown[];
+  errorMessages?: string[];
+  createdByUserId?: mongoose.Types.ObjectId | null;
+};
+
+/** Planned items (sampling plans hold groups of activities) */
+export const planLength = (kind: RunKind, run: Pick<RunDoc, 'plan'>): number =>
+  kind === 'sampling'
+    ? ((run.plan || []) as Array<{ activityIds?: unknown[] }>).reduce((sum, g) => sum + (g.activityIds?.length || 0), 0)
+    : (run.plan || []).length;
+
+const isResumable = (kind: RunKind, run: RunDoc, now: Date): boolean =>
+  planLength(kind, run) > (run.processed || 0) &&
+  now.getTime() - new Date(run.lastProgressAt || run.startedAt || 0).getTime() <= RUN_RESUMABLE_FOR_MS;
+
+const isStale = (run: RunDoc, now: Date): boolean =>
+  run.status === 'running' &&
+  !isRunActiveHere(run._id) &&
+  now.getTime() - new Date(run.lastProgressAt || run.startedAt || 0).getTime() > RUN_STALE_AFTER_MS;
+
+/**
+ * Settle an abandoned run: cancelled if a cancel was pending, interrupted if it can still be
+ * resumed, failed otherwise. Returns the new status, or null when the run is not stale.
+ */
+export const settleStaleRun = async (kind: RunKind, summary: RunDoc, now: Date = new Date()): Promise<string | null> => {
+  if (!isStale(summary, now)) return null;
+  // Callers usually hold a projection without the plan; reload it only for the (rare) stale run
+  const run = await models[kind].findById(summary._id).lean<RunDoc>();
+  if (!run || !isStale(run, now)) return null;
+  const status = run.cancelRequestedAt ? 'cancelled' : isResumable(kind, run, now) ? 'interrupted' : 'failed';
+  const message = `No progress since ${new Date(run.lastProgressAt || run.startedAt || now).toISOString()}; run abandoned`;
+  const res = await models[kind].updateOne(
+    { _id: run._id, status: 'running', lastProgressAt: run.lastProgressAt ?? null },
+    {
+      $set: {
+        status,
+        ...(status === 'interrupted' ? {} : { finishedAt: now }),
+        ...(status === 'failed' ? { errorMessages: [...(run.errorMessages || []), message].slice(-50) } : {}),
+      },
+      ...(status === 'failed' ? { $inc: { errorCount: 1 } } : {}),
+    }
+  );
+  if (!res.modifiedCount) return null;
+  logger.warn(`${LABELS[kind]} abandoned`, { runId: run._id.toString(), status, lastProgressAt: run.lastProgressAt });
+  return status;
+};
+
+/** Settle every abandoned sampling and allocation run */
+export const sweepStaleRuns = async (now: Date = new Date()) => {
+  const counts = { interrupted: 0, failed: 0, cancelled: 0 };
+  for (const kind of Object.keys(models) as RunKind[]) {
+    const runs = await models[kind]
+      .find({
+        status: 'running',
+        $or: [
+          { lastProgressAt: { $lt: new Date(now.getTime() - RUN_STALE_AFTER_MS) } },
+          { lastProgressAt: null, startedAt: { $lt: new Date(now.getTime() - RUN_STALE_AFTER_MS) } },
+        ],
+      })
+      .select('status startedAt lastProgressAt')
+      .lean<RunDoc[]>();
+    for (const run of runs) {
+      const status = await settleStaleRun(kind, run, now);
+      if (status) counts[status as keyof typeof counts]++;
+    }
+  }
+  return counts;
+};
+
+export interface RunActor {
+  userId: mongoose.Types.ObjectId;
+  /** MIS admins may act on anyone's run; others only on their own */
+  isAdmin: boolean;
+}
+
+const loadOwnedRun = async (kind: RunKind, runId: string, actor: RunActor): Promise<RunDoc> => {
+  const run = await models[kind].findById(runId).lean<RunDoc>();
+  if (!run || (!actor.isAdmin && run.createdByUserId?.toString() !== actor.userId.toString())) {
+    throw fail(`${LABELS[kind]} not found`, 404);
+  }
+  return run;
+};
+
+/**
+ * Cancel a run. A run executing here (or recently active elsewhere) stops at its next checkpoint;
+ * an interrupted or abandoned one is cancelled immediately. Returns the run's status afterwards.
+ */
+export const requestRunCancel = async (kind: RunKind, runId: string, actor: RunActor): Promise<string> => {
+  const run = await loadOwnedRun(kind, runId, actor);
+  const now = new Date();
+  const stamp = { cancelRequestedAt: now, cancelledByUserId: actor.userId };
+
+  if (run.status === 'interrupted' || (run.status === 'running' && isStale(run, now))) {
+    const res = await models[kind].updateOne(
+      { _id: run._id, status: run.status },
+      { $set: { ...stamp, status: 'cancelled', finishedAt: now } }
+    );
+    if (res.modifiedCount) return 'cancelled';
+  } else if (run.status === 'running') {
+    await models[kind].updateOne({ _id: run._id, status: 'running' }, { $set: stamp });
+    return 'running';
+  }
+  throw fail(`${LABELS[kind]} is ${run.status} and cannot be cancelled`, 409);
+};
+
+/**
+ * Claim an interrupted or cancelled run for resuming: flips it back to running so a second
+ * resume (or the stale sweep) cannot pick it up. The caller then executes it.
+ */
+export const claimRunForResume = async (kind: RunKind, runId: string, actor: RunActor): Promise<void> => {
+  const run = await loadOwnedRun(kind, runId, actor);
+  const now = new Date();
+  if (run.status === 'running') await settleStaleRun(kind, run, now);
+  const current = await models[kind].findById(run._id).lean<RunDoc>();
+  if (!current || !['interrupted', 'cancelled'].includes(current.status)) {
+    throw fail(`${LABELS[kind]} is ${current?.status ?? 'missing'} and cannot be resumed`, 409);
+  }
+  if (planLength(kind, current) <= (current.processed || 0)) {
+    throw fail(`${LABELS[kind]} has nothing left to process`, 409);
+  }
+  if (now.getTime() - new Date(current.lastProgressAt || current.startedAt || 0).getTime() > RUN_RESUMABLE_FOR_MS) {
+    throw fail(`${LABELS[kind]} is too old to resume; start a new run`, 409);
+  }
+  const otherRunning = await models[kind]
+    .find({ _id: { $ne: current._id }, createdByUserId: current.createdByUserId ?? null, status: 'running' })
+    .select('status startedAt lastProgressAt')
+    .lean<RunDoc[]>();
+  for (const other of otherRunning) {
+    if (!(await settleStaleRun(kind, other, now))) throw fail(`Another ${LABELS[kind].toLowerCase()} is in progress`, 409);
+  }
+
+  const res = await models[kind].updateOne(
+    { _id: current._id, status: current.status },
+    {
+      $set: { status: 'running', finishedAt: null, cancelRequestedAt: null, cancelledByUserId: null, resumedAt: now, lastProgressAt: now },
+      $inc: { resumeCount: 1 },
+    }
+  );
+  if (!res.modifiedCount) throw fail(`${LABELS[kind]} was changed by another request; try again`, 409);
+};
+
+/**
+ * Called by a job handler before executing a run. A job picked up again after its instance stopped
+ * may find the run still running (lease expired before the stale sweep) or already marked
+ * interrupted; both continue from the cursor. Returns false when the run finished meanwhile.
+ */
+export const takeRunForJob = async (kind: RunKind, runId: mongoose.Types.ObjectId): Promise<boolean> => {
+  const run = await models[kind].findById(runId).select('status').lean<Pick<RunDoc, '_id' | 'status'>>();
+  if (!run) throw fail(`${LABELS[kind]} not found`, 404);
+  if (run.status === 'interrupted') {
+    const now = new Date();
+    const res = await models[kind].updateOne(
+      { _id: run._id, status: 'interrupted' },
+      { $set: { status: 'running', resumedAt: now, lastProgressAt: now }, $inc: { resumeCount: 1 } }
+    );
+    return res.modifiedCount > 0;
+  }
+  return run.status === 'running';
+};
@@ -0,0 +1,246 @@
+import mongoose from 'mongoose';
+import { SamplingPolicy, ISamplingPolicy, ISamplingPolicyScope } from '../models/SamplingPolicy.js';
+import { SamplingPolicyVersion } from '../models/SamplingPolicyVersion.js';
+import { AppError } from '../middleware/errorHandler.js';
+import logger from '../config/logger.js';
+
+/**
+ * Named sampling policies: sampling rates for a slice of activities (BU, zone, state, type) over a
+ * date window. Activities no policy covers fall back to the singleton SamplingConfig.
+ */
+
+export interface SamplingPolicyInput {
+  name?: string;
+  description?: string;
+  scope?: Partial<ISamplingPolicyScope>;
+  priority?: number;
+  effectiveFrom?: string | Date;
+  effectiveTo?: string | Date | null;
+  isActive?: boolean;
+  defaultPercentage?: number;
+  activityTypePercentages?: Record<string, number>;
+}
+
+/** Activity fields the scope rules look at */
+export interface PolicyActivity {
+  type: string;
+  date: Date;
+  buName?: string | null;
+  zoneName?: string | null;
+  state?: string | null;
+}
+
+/** What SamplingAudit records about the policy a sample was sized with */
+export interface AppliedPolicy {
+  policyId: string;
+  name: string;
+  version: number;
+}
+
+type PolicyLike = Pick<
+  ISamplingPolicy,
+  'name' | 'scope' | 'priority' | 'effectiveFrom' | 'effectiveTo' | 'isActive' | 'defaultPercentage' | 'activityTypePercentages'
+> & { _id: unknown; version: number };
+
+const SCOPE_FIELDS: Array<[keyof ISamplingPolicyScope, keyof PolicyActivity]> = [
+  ['buNames', 'buName'],
+  ['zoneNames', 'zoneName'],
+  ['states', 'state'],
+  ['activityTypes', 'type'],
+];
+
+const normalize = (s: unknown) => String(s ?? '').trim().toLowerCase();
+
+const badRequest = (message: string, statusCode = 400): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+/** Number of scope dimensions a policy restricts; more specific policies win priority ties */
+const specificity = (scope: Partial<ISamplingPolicyScope> | undefined) =>
+  SCOPE_FIELDS.filter(([field]) => (scope?.[field] || []).length > 0).length;
+
+export const policyAppliesTo = (policy: PolicyLike, activity: PolicyActivity): boolean => {
+  if (!policy.isActive) return false;
+  const at = new Date(activity.date).getTime();
+  if (new Date(policy.effectiveFrom).getTime() > at) return false;
+  if (policy.effectiveTo && new Date(policy.effectiveTo).getTime() < at) return false;
+  return SCOPE_FIELDS.every(([field, activityField]) => {
+    const allowed = (policy.scope?.[field] || []).map(normalize);
+    return allowed.length === 0 || allowed.includes(normalize(activity[activityField]));
+  });
+};
+
+/**
+ * The policy that governs `activity` among `policies`: highest priority, then most specific scope,
+ * then latest effectiveFrom, then name. Null when none applies.
+ */
+export const pickSamplingPolicy = <T extends PolicyLike>(policies: T[], activity: PolicyActivity): T | null => {
+  const matching = policies.filter((p) => policyAppliesTo(p, activity));
+  matching.sort(
+    (a, b) =>
+      (b.priority || 0) - (a.priority || 0) ||
+      specificity(b.scope) - specificity(a.scope) ||
+      new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime() ||
+      a.name.localeCompare(b.name)
+  );
+  return matching[0] ?? null;
+};
+
+/** Percentage a policy gives an activity type (type-specific rate, else the policy default) */
+export const policyPercentage = (policy: PolicyLike, activityType: string): number =>
+  Number(policy.activityTypePercentages?.[activityType]) || policy.defaultPercentage;
+
+/** Active policies that could apply to activities dated within [from, to] */
+export const loadActivePolicies = (from?: Date, to?: Date) => {
+  const query: any = { isActive: true };
+  if (to) query.effectiveFrom = { $lte: to };
+  if (from) query.$or = [{ effectiveTo: null }, { effectiveTo: { $gte: from } }];
+  return SamplingPolicy.find(query).lean<Array<ISamplingPolicy & { _id: mongoose.Types.ObjectId }>>();
+};
+
+export const resolveSamplingPolicy = async (activity: PolicyActivity) => {
+  const date = new Date(activity.date);
+  return pickSamplingPolicy(await loadActivePolicies(date, date), activity);
+};
+
+const toSnapshot = (policy: ISamplingPolicy) => ({
+  name: policy.name,
+  description: policy.description || '',
+  scope: {
+    buNames: [...(policy.scope?.buNames || [])],
+    zoneNames: [...(policy.scope?.zoneNames || [])],
+    states: [...(policy.scope?.states || [])],
+    activityTypes: [...(policy.scope?.activityTypes || [])],
+  },
+  priority: policy.priority,
+  effectiveFrom: policy.effectiveFrom,
+  effectiveTo: policy.effectiveTo ?? null,
+  isActive: policy.isActive,
+  defaultPercentage: policy.defaultPercentage,
+  activityTypePercentages: { ...(policy.activityTypePercentages || {}) },
+});
+
+/** Date-only bounds are whole IST days: from the start of effectiveFrom to the end of effectiveTo */
+const toBound = (value: string | Date, edge: 'start' | 'end'): Date => {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T${edge === 'start' ? '00:00:00.000' : '23:59:59.999'}+05:30`);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw badRequest('Invalid effective date');
+  return date;
+};
+
+const cleanList = (values: unknown) =>
+  Array.from(new Set((Array.isArray(values) ? values : []).map((v) => String(v ?? '').trim()).filter(Boolean)));
+
+const applyInput = (policy: ISamplingPolicy, input: SamplingPolicyInput) => {
+  if (input.name !== undefined) policy.name = input.name.trim();
+  if (input.description !== undefined) policy.description = input.description.trim();
+  if (input.scope !== undefined) {
+    policy.scope = {
+      buNames: cleanList(input.scope.buNames ?? policy.scope?.buNames),
+      zoneNames: cleanList(input.scope.zoneNames ?? policy.scope?.zoneNames),
+      states: cleanList(input.scope.states ?? policy.scope?.states),
+      activityTypes: cleanList(input.scope.activityTypes ?? policy.scope?.activityTypes),
+    };
+  }
+  if (input.priority !== undefined) policy.priority = input.priority;
+  if (input.effectiveFrom !== undefined) policy.effectiveFrom = toBound(input.effectiveFrom, 'start');
+  if (input.effectiveTo !== undefined) policy.effectiveTo = input.effectiveTo ? toBound(input.effectiveTo, 'end') : null;
+  if (input.isActive !== undefined) policy.isActive = input.isActive;
+  if (input.defaultPercentage !== undefined) policy.defaultPercentage = input.defaultPercentage;
+  if (input.activityTypePercentages !== undefined) {
+    for (const [type, pct] of Object.entries(input.activityTypePercentages)) {
+      if (!(Number(pct) >= 1 && Number(pct) <= 100)) throw badRequest(`Percentage for "${type}" must be between 1 and 100`);
+    }
+    policy.activityTypePercentages = Object.fromEntries(
+      Object.entries(input.activityTypePercentages).map(([type, pct]) => [type, Number(pct)])
+    );
+    policy.markModified('activityTypePercentages');
+  }
+  if (policy.effectiveTo && policy.effectiveTo.getTime() < policy.effectiveFrom.getTime()) {
+    throw badRequest('effectiveTo must be on or after effectiveFrom');
+  }
+};
+
+const concurrentEdit = () =>
+  badRequest('This sampling policy was changed by someone else in the meantime; reload it and try again', 409);
+
+const saveVersion = async (policy: ISamplingPolicy, userId: mongoose.Types.ObjectId | string) => {
+  try {
+    await policy.save();
+  } catch (error: any) {
+    if (error?.code === 11000) throw badRequest(`A sampling policy named "${policy.name}" already exists`, 409);
+    if (error?.name === 'DocumentNotFoundError') throw concurrentEdit();
+    throw error;
+  }
+  try {
+    await SamplingPolicyVersion.create({
+      policyId: policy._id,
+      version: policy.version,
+      snapshot: toSnapshot(policy),
+      changedByUserId: userId,
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) throw concurrentEdit();
+    throw error;
+  }
+  logger.info('Sampling policy saved', { policyId: policy._id.toString(), version: policy.version, by: userId.toString() });
+  return policy;
+};
+
+export const createSamplingPolicy = async (input: SamplingPolicyInput, user: { _id: mongoose.Types.ObjectId | string }) => {
+  if (!input.name?.trim()) throw badRequest('name is required');
+  if (input.effectiveFrom === undefined) throw badRequest('effectiveFrom is required');
+  if (input.defaultPercentage === undefined) throw badRequest('defaultPercentage is required');
+
+  const policy = new SamplingPolicy({ version: 1, createdByUserId: user._id, updatedByUserId: user._id });
+  applyInput(policy, { scope: {}, ...input });
+  return saveVersion(policy, user._id);
+};
+
+const loadPolicy = async (policyId: string) => {
+  const policy = await SamplingPolicy.findById(policyId);
+  if (!policy) throw badRequest('Sampling policy not found', 404);
+  return policy;
+};
+
+/** Every edit (including deactivation) bumps the version and stores a snapshot */
+/**
+ * Save an edit as the next version. `expectedVersion` is the version the editor loaded; if the
+ * policy has moved on since, the edit is refused with 409 instead of overwriting the newer version.
+ */
+export const updateSamplingPolicy = async (
+  policyId: string,
+  input: SamplingPolicyInput,
+  user: { _id: mongoose.Types.ObjectId | string },
+  expectedVersion?: number
+) => {
+  const policy = await loadPolicy(policyId);
+  if (expectedVersion !== undefined && expectedVersion !== policy.version) throw concurrentEdit();
+  const before = JSON.stringify(toSnapshot(policy));
+  applyInput(policy, input);
+  if (JSON.stringify(toSnapshot(policy)) === before) return policy;
+  // Only saves over the version that was loaded; a concurrent edit that got there first makes this a 409
+  policy.$where = { version: policy.version };
+  policy.version += 1;
+  policy.updatedByUserId = new mongoose.Types.ObjectId(String(user._id));
+  return saveVersion(policy, user._id);
+};
+
+export const getSamplingPolicyWithHistory = async (policyId: string) => {
+  const policy = await loadPolicy(policyId);
+  const versions = await SamplingPolicyVersion.find({ policyId: policy._id })
+    .sort({ version: -1 })
+    .populate('changedByUserId', 'name email')
+    .lean();
+  return { policy, versions };
+};
+
+export const listSamplingPolicies = (filters: { isActive?: boolean } = {}) => {
+  const query: any = {};
+  if (filters.isActive !== undefined) query.isActive = filters.isActive;
+  return SamplingPolicy.find(query).sort({ isActive: -1, priority: -1, name: 1 }).lean();
+};
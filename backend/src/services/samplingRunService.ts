@@ -0,0 +1,192 @@
+import mongoose from 'mongoose';
+import { SamplingRun, type SamplingRunPlanGroup } from '../models/SamplingRun.js';
+import { SamplingConfig } from '../models/SamplingConfig.js';
+import { CallTask } from '../models/CallTask.js';
+import { sampleAndCreateTasks } from './samplingService.js';
+import { topUpOfficerCoverage, type CoverageTopUpSummary } from './coverageService.js';
+import { loadOfficerRiskProfiles } from './riskWeightingService.js';
+import { checkpointRun, takeRunForJob, trackRun } from './runControlService.js';
+import { registerJobHandler, type JobHandler } from './jobQueue.js';
+import logger from '../config/logger.js';
+
+/**
+ * Executes a SamplingRun from its stored plan, starting at `processed`. The same loop serves a new
+ * run and a resumed one; progress is checkpointed after every activity so a resume neither skips
+ * nor repeats work.
+ */
+
+export interface SamplingRunOutcome {
+  status: 'completed' | 'failed' | 'cancelled';
+  processed: number;
+  tasksCreatedTotal: number;
+  sampledActivities: number;
+  inactiveActivities: number;
+  skipped: number;
+  errorCount: number;
+  /** Errors from this execution only */
+  errors: string[];
+  coverageTopUp: CoverageTopUpSummary | null;
+  results: any[];
+}
+
+export const executeSamplingRun = async (
+  runId: mongoose.Types.ObjectId,
+  options: { includeResults?: boolean } = {}
+): Promise<SamplingRunOutcome> =>
+  trackRun(runId, async () => {
+    const run = await SamplingRun.findById(runId).lean();
+    if (!run) throw new Error('Sampling run not found');
+
+    const samplingPercentage = run.filters?.samplingPercentage ?? undefined;
+    const samplingConfig = await SamplingConfig.findOne({ key: 'default' }).select('riskWeighting').lean();
+    // Officer EMS metrics for risk weighting, loaded once for the whole run (not used with an explicit percentage)
+    const riskProfiles =
+      !samplingPercentage && samplingConfig?.riskWeighting?.enabled
+        ? await loadOfficerRiskProfiles(samplingConfig.riskWeighting)
+        : null;
+
+    const plan: SamplingRunPlanGroup[] = run.plan || [];
+    const startAt = run.processed || 0;
+    const errors: string[] = [];
+    const results: any[] = [];
+    const counters = {
+      processed: startAt,
+      tasksCreatedTotal: run.tasksCreatedTotal || 0,
+      sampledActivities: run.sampledActivities || 0,
+      inactiveActivities: run.inactiveActivities || 0,
+      skipped: run.skipped || 0,
+    };
+    const errorCount = () => (run.errorCount || 0) + errors.length;
+    const errorMessages = () => [...(run.errorMessages || []), ...errors].slice(-50);
+    let cancelled = false;
+
+    let offset = 0;
+    for (const group of plan) {
+      const groupIds = group.activityIds.map((id) => id.toString());
+      if (offset + groupIds.length <= startAt) {
+        offset += groupIds.length;
+        continue;
+      }
+      const skipInGroup = Math.max(0, startAt - offset);
+      // Resuming mid-group: the FDA's quota already includes what this run created for it
+      let createdForFDA =
+        group.target != null && skipInGroup > 0
+          ? await CallTask.countDocuments({ samplingRunId: run._id, activityId: { $in: group.activityIds.slice(0, skipInGroup) } })
+          : 0;
+
+      for (const id of groupIds.slice(skipInGroup)) {
+        try {
+          const opts =
+            group.target != null
+              ? {
+                  maxFarmersToSample: Math.max(0, group.target - createdForFDA) || undefined,
+                  minFarmersToSample: createdForFDA === 0 ? 1 : undefined,
+                }
+              : {};
+          // Ad-hoc: do not delete existing tasks; sampleAndCreateTasks will exclude already-sampled farmers
+          const r = await sampleAndCreateTasks(id, samplingPercentage, {
+            runByUserId: run.createdByUserId?.toString(),
+            forceRun: !!run.filters?.forceRun,
+            scheduledDate: run.scheduledDate || undefined,
+            setFirstSampleRun: run.runType === 'first_sample',
+            samplingRunId: run._id,
+            samplingRunType: run.runType,
+            seed: run.seed,
+            riskProfiles,
+            ...opts,
+          });
+          if (options.includeResults) results.push({ activityId: id, ...r });
+          counters.tasksCreatedTotal += r.tasksCreated || 0;
+          createdForFDA += r.tasksCreated || 0;
+          if (r.skipped) counters.skipped++;
+          if (r.activityLifecycleStatus === 'sampled') counters.sampledActivities++;
+          if (r.activityLifecycleStatus === 'inactive') counters.inactiveActivities++;
+        } catch (e: any) {
+          const msg = `Failed activity ${id}: ${e?.message || 'Unknown error'}`;
+          errors.push(msg);
+          logger.error(msg, e);
+        }
+        counters.processed++;
+        cancelled = await checkpointRun('sampling', run._id, {
+          ...counters,
+          errorCount: errorCount(),
+          lastActivityId: id,
+          ...(errors.length ? { errorMessages: errorMessages() } : {}),
+        });
+        if (cancelled) break;
+      }
+      if (cancelled) break;
+      offset += groupIds.length;
+    }
+
+    // Officer coverage: add tasks for FDAs/TMs still short of their validation target this period
+    let coverageTopUp: CoverageTopUpSummary | null = null;
+    if (!cancelled) {
+      try {
+        coverageTopUp = await topUpOfficerCoverage({
+          seed: run.seed || run._id.toString(),
+          samplingRunId: run._id,
+          samplingRunType: run.runType,
+          scheduledDate: run.scheduledDate || new Date(),
+        });
+        counters.tasksCreatedTotal += coverageTopUp?.tasksCreated || 0;
+      } catch (e: any) {
+        const msg = `Coverage top-up failed: ${e?.message || 'Unknown error'}`;
+        errors.push(msg);
+        logger.error(msg, e);
+      }
+    }
+
+    const status = cancelled ? 'cancelled' : errorCount() > 0 && counters.processed === 0 ? 'failed' : 'completed';
+    await SamplingRun.updateOne(
+      { _id: run._id },
+      {
+        $set: {
+          status,
+          finishedAt: new Date(),
+          ...counters,
+          errorCount: errorCount(),
+          lastProgressAt: new Date(),
+          errorMessages: errorMessages(),
+          ...(cancelled ? {} : { coverageTopUp }),
+        },
+      }
+    );
+    if (cancelled) logger.info('Sampling run cancelled', { runId: run._id.toString(), processed: counters.processed });
+
+    return { status, ...counters, errorCount: errorCount(), errors, coverageTopUp, results };
+  });
+
+/**
+ * Job payload: { samplingRunId, includeResults? }. The scheduled variant also records the outcome
+ * as the last auto-run on the sampling config.
+ */
+const samplingJobHandler: JobHandler = async ({ job, log }) => {
+  const runId = new mongoose.Types.ObjectId(String(job.payload.samplingRunId));
+  if (!(await takeRunForJob('sampling', runId))) {
+    await log('Sampling run already finished; nothing to do', 'warn');
+    return null;
+  }
+  const outcome = await executeSamplingRun(runId, { includeResults: job.payload.includeResults === true });
+  if (job.type === 'sampling_auto_run') {
+    const run = await SamplingRun.findById(runId).select('matched').lean();
+    await SamplingConfig.findOneAndUpdate(
+      { key: 'default' },
+      {
+        $set: {
+          lastAutoRunAt: new Date(),
+          lastAutoRunRunId: runId.toString(),
+          lastAutoRunMatched: run?.matched ?? 0,
+          lastAutoRunProcessed: outcome.processed,
+          lastAutoRunTasksCreated: outcome.tasksCreatedTotal,
+        },
+      },
+      { upsert: true }
+    );
+  }
+  await log(`Sampling run ${outcome.status}: ${outcome.processed} activities, ${outcome.tasksCreatedTotal} tasks`);
+  return outcome;
+};
+
+registerJobHandler('sampling_run', samplingJobHandler);
+registerJobHandler('sampling_auto_run', samplingJobHandler);
@@ -5,7 +5,13 @@ import { CoolingPeriod } from '../models/CoolingPeriod.js';
 import { SamplingAudit } from '../models/SamplingAudit.js';
 import { SamplingConfig } from '../models/SamplingConfig.js';
 import { reservoirSampling, calculateSampleSize } from '../utils/reservoirSampling.js';
+import { stratifiedSampling, stratumLabel, type StratumSummary, type StratumAllocation } from '../utils/stratifiedSampling.js';
+import { createSeededRandom, generateSamplingSeed } from '../utils/seededRandom.js';
+import { resolveSamplingPolicy, policyPercentage, type AppliedPolicy } from './samplingPolicyService.js';
+import { loadOfficerRiskProfiles, riskAdjustmentFor, type OfficerRiskProfiles } from './riskWeightingService.js';
+import { getDoNotCallFarmerIds } from './doNotCallService.js';
 import logger from '../config/logger.js';
+import { AppError } from '../middleware/errorHandler.js';
 import mongoose from 'mongoose';
 
 const DEFAULT_CONFIG_SEED = {
@@ -25,7 +31,7 @@ const DEFAULT_CONFIG_SEED = {
   taskDueInDays: 0,
 };
 
-const getActiveSamplingConfig = async () => {
+export const getActiveSamplingConfig = async () => {
   const existing = await SamplingConfig.findOne({ key: 'default' });
   if (existing) {
     return existing;
@@ -37,7 +43,7 @@ const getActiveSamplingConfig = async () => {
 /**
  * Check if farmer is in cooling period
  */
-const isFarmerInCoolingWindow = (lastCallDate: Date, farmerCoolingDays: number): boolean => {
+export const isFarmerInCoolingWindow = (lastCallDate: Date, farmerCoolingDays: number): boolean => {
   if (!lastCallDate || !(lastCallDate instanceof Date) || isNaN(lastCallDate.getTime())) {
     return false;
   }
@@ -46,7 +52,7 @@ const isFarmerInCoolingWindow = (lastCallDate: Date, farmerCoolingDays: number):
   return expiresAt.getTime() > Date.now();
 };
 
-const getEligibleFarmers = async (
+export const getEligibleFarmers = async (
   farmerIds: mongoose.Types.ObjectId[],
   farmerCoolingDays: number
 ): Promise<mongoose.Types.ObjectId[]> => {
@@ -66,21 +72,94 @@ const getEligibleFarmers = async (
     }
   }
 
+  // Farmers on the do-not-call / consent registry are never eligible
+  for (const id of await getDoNotCallFarmerIds(farmerIds)) blocked.add(id);
+
   return farmerIds.filter((id) => !blocked.has(id.toString()));
 };
 
-const isActivityPastCoolingGate = (activityDate: Date, activityCoolingDays: number): boolean => {
+export const isActivityPastCoolingGate = (activityDate: Date, activityCoolingDays: number): boolean => {
   const gate = new Date(activityDate);
   gate.setDate(gate.getDate() + activityCoolingDays);
   return Date.now() >= gate.getTime();
 };
 
-const isActivityTypeEligible = (activityType: string, eligibleTypes: string[]): boolean => {
+export const isActivityTypeEligible = (activityType: string, eligibleTypes: string[]): boolean => {
   if (!eligibleTypes || eligibleTypes.length === 0) return true; // empty => all eligible
   return eligibleTypes.includes(activityType);
 };
 
-const createUnassignedTasksForFarmers = async (
+interface SelectionStratification {
+  allocation: StratumAllocation;
+  minPerStratum: number;
+}
+
+/**
+ * The random part of sampling, shared by live runs and audit verification. Given the same frame
+ * (ordered farmer ids, plus stratum keys in stratified mode), size and seed it returns the same sample.
+ */
+const selectFarmers = (
+  frame: string[],
+  strataKeys: Array<string | null> | null,
+  sampleSize: number,
+  stratification: SelectionStratification | null,
+  seed: string
+): { sample: string[]; strata: StratumSummary[] } => {
+  if (sampleSize <= 0) return { sample: [], strata: [] };
+  const random = createSeededRandom(seed);
+  if (stratification && strataKeys) {
+    const items = frame.map((id, i) => ({ id, key: strataKeys[i] }));
+    const result = stratifiedSampling(items, (f) => f.key, sampleSize, {
+      allocation: stratification.allocation,
+      minPerStratum: stratification.minPerStratum,
+      random,
+    });
+    return { sample: result.sample.map((f) => f.id), strata: result.strata };
+  }
+  return { sample: reservoirSampling(frame, sampleSize, random), strata: [] };
+};
+
+/** Per-activity seed, so activities in a run can be replayed independently and in any order */
+const activitySeed = (seed: string, activityId: string) => `${seed}:${activityId}`;
+
+/**
+ * Sample size and selection for one activity's eligible farmers (no database access).
+ * Used by live sampling and by the what-if simulator so both size samples the same way.
+ */
+export const planSample = (params: {
+  frame: string[];
+  strataKeys: Array<string | null> | null;
+  percentage: number;
+  stratification: SelectionStratification | null;
+  minFarmersToSample?: number;
+  maxFarmersToSample?: number;
+  seed: string;
+}): { sampleSize: number; sample: string[]; strata: StratumSummary[] } => {
+  const { frame, strataKeys, stratification } = params;
+  let sampleSize = frame.length > 0 ? calculateSampleSize(frame.length, params.percentage) : 0;
+  if (params.minFarmersToSample != null && frame.length > 0) {
+    sampleSize = Math.max(sampleSize, Math.min(params.minFarmersToSample, frame.length));
+  }
+  if (stratification && stratification.minPerStratum > 0) {
+    // Per-stratum floors can raise the sample above the percentage
+    const counts = new Map<string, number>();
+    for (const value of strataKeys || []) {
+      const key = stratumLabel(value).toLowerCase();
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    let floorTotal = 0;
+    for (const count of counts.values()) floorTotal += Math.min(stratification.minPerStratum, count);
+    sampleSize = Math.max(sampleSize, floorTotal);
+  }
+  if (params.maxFarmersToSample != null) {
+    sampleSize = Math.min(sampleSize, params.maxFarmersToSample);
+  }
+
+  const { sample, strata } = selectFarmers(frame, strataKeys, sampleSize, stratification, params.seed);
+  return { sampleSize, sample, strata };
+};
+
+export const createUnassignedTasksForFarmers = async (
   sampledFarmerIds: mongoose.Types.ObjectId[],
   activityId: mongoose.Types.ObjectId,
   scheduledDate: Date,
@@ -111,6 +190,22 @@ const createUnassignedTasksForFarmers = async (
   return created;
 };
 
+/** Put sampled farmers into cooling from now */
+export const startFarmerCooling = async (farmerIds: mongoose.Types.ObjectId[], farmerCoolingDays: number) => {
+  for (const farmerId of farmerIds) {
+    await CoolingPeriod.findOneAndUpdate(
+      { farmerId },
+      {
+        farmerId,
+        lastCallDate: new Date(),
+        coolingPeriodDays: farmerCoolingDays,
+        expiresAt: new Date(Date.now() + farmerCoolingDays * 24 * 60 * 60 * 1000),
+      },
+      { upsert: true, new: true }
+    );
+  }
+};
+
 /**
  * Sample farmers for an activity and create call tasks
  */
@@ -130,6 +225,10 @@ export const sampleAndCreateTasks = async (
     /** Set on created tasks for stats (adhoc vs first_sample). */
     samplingRunId?: mongoose.Types.ObjectId | null;
     samplingRunType?: 'first_sample' | 'adhoc' | null;
+    /** Run seed (SamplingRun.seed); a fresh one is generated when omitted */
+    seed?: string | null;
+    /** Officer EMS metrics loaded once per run; loaded on demand when omitted and risk weighting is on */
+    riskProfiles?: OfficerRiskProfiles | null;
   }
 ): Promise<{
   skipped?: boolean;
@@ -203,11 +302,25 @@ export const sampleAndCreateTasks = async (
       };
     }
 
-    // Get sampling percentage (use activity type specific or default)
-    const percentage = samplingPercentage || 
-      config.activityTypePercentages[activity.type] || 
+    // Get sampling percentage: explicit run percentage, else the governing sampling policy,
+    // else SamplingConfig (activity type specific or default)
+    const policy = samplingPercentage ? null : await resolveSamplingPolicy(activity);
+    const appliedPolicy: AppliedPolicy | null = policy
+      ? { policyId: policy._id.toString(), name: policy.name, version: policy.version }
+      : null;
+    const basePercentage = samplingPercentage ||
+      (policy ? policyPercentage(policy, activity.type) : null) ||
+      config.activityTypePercentages[activity.type] ||
       config.defaultPercentage;
 
+    // Risk weighting scales the policy/config rate by the officer's recent EMS results; an explicit run percentage is used as is
+    let riskProfiles: OfficerRiskProfiles | null = null;
+    if (!samplingPercentage && config.riskWeighting?.enabled) {
+      riskProfiles = options?.riskProfiles ?? (await loadOfficerRiskProfiles(config.riskWeighting));
+    }
+    const riskAdjustment = riskAdjustmentFor(riskProfiles, activity, basePercentage);
+    const percentage = riskAdjustment ? riskAdjustment.adjustedPercentage : basePercentage;
+
     // Get eligible farmers (not in cooling period)
     let eligibleFarmerIds = await getEligibleFarmers(
       activity.farmerIds as mongoose.Types.ObjectId[],
@@ -225,20 +338,34 @@ export const sampleAndCreateTasks = async (
     }
 
     if (eligibleFarmerIds.length === 0) {
-      logger.warn(`No eligible farmers for activity ${activityId} (all in farmer cooling window${options?.setFirstSampleRun === false ? ' or already sampled' : ''})`);
+      logger.warn(`No eligible farmers for activity ${activityId} (all in farmer cooling window or do-not-call${options?.setFirstSampleRun === false ? ' or already sampled' : ''})`);
     }
 
-    // Calculate sample size
-    let sampleSize = eligibleFarmerIds.length > 0 ? calculateSampleSize(eligibleFarmerIds.length, percentage) : 0;
-    if (options?.minFarmersToSample != null && eligibleFarmerIds.length > 0) {
-      sampleSize = Math.max(sampleSize, Math.min(options.minFarmersToSample, eligibleFarmerIds.length));
-    }
-    if (options?.maxFarmersToSample != null) {
-      sampleSize = Math.min(sampleSize, options.maxFarmersToSample);
+    // Stratified mode: group eligible farmers by the configured attribute
+    const stratification = config.stratification?.mode === 'stratified' ? config.stratification : null;
+    let strataKeys: Array<string | null> | null = null;
+    if (stratification && eligibleFarmerIds.length > 0) {
+      const farmers = await Farmer.find({ _id: { $in: eligibleFarmerIds } })
+        .select(stratification.strataBy)
+        .lean();
+      const keyById = new Map(farmers.map((f: any) => [f._id.toString(), f[stratification.strataBy] ?? null]));
+      // Keep the eligible-list order so the frame (and the replay) does not depend on query order
+      strataKeys = eligibleFarmerIds.map((id) => keyById.get(id.toString()) ?? null);
     }
 
-    // Perform reservoir sampling
-    const sampledFarmerIds = sampleSize > 0 ? reservoirSampling(eligibleFarmerIds, sampleSize) : [];
+    // Size the sample and run reservoir sampling (per stratum in stratified mode), seeded so the audit can replay it
+    const seed = options?.seed || generateSamplingSeed();
+    const sampleFrame = eligibleFarmerIds.map((id) => id.toString());
+    const { sampleSize, sample, strata } = planSample({
+      frame: sampleFrame,
+      strataKeys,
+      percentage,
+      stratification,
+      minFarmersToSample: options?.minFarmersToSample,
+      maxFarmersToSample: options?.maxFarmersToSample,
+      seed: activitySeed(seed, activity._id.toString()),
+    });
+    const sampledFarmerIds = sample.map((id) => new mongoose.Types.ObjectId(id));
 
     // Scheduled date is the Team Lead run date (now) unless provided
     const scheduledDate = options?.scheduledDate ? new Date(options.scheduledDate) : new Date();
@@ -254,18 +381,7 @@ export const sampleAndCreateTasks = async (
     );
 
     // Update cooling periods for sampled farmers
-    for (const farmerId of sampledFarmerIds) {
-      await CoolingPeriod.findOneAndUpdate(
-        { farmerId },
-        {
-          farmerId,
-          lastCallDate: new Date(),
-          coolingPeriodDays: config.farmerCoolingDays,
-          expiresAt: new Date(Date.now() + config.farmerCoolingDays * 24 * 60 * 60 * 1000),
-        },
-        { upsert: true, new: true }
-      );
-    }
+    await startFarmerCooling(sampledFarmerIds, config.farmerCoolingDays);
 
     // Update activity lifecycle status based on sampledCount
     const now = new Date();
@@ -287,7 +403,7 @@ export const sampleAndCreateTasks = async (
           samplingPercentage: percentage,
           totalFarmers,
           sampledCount: sampledFarmerIds.length,
-          algorithm: 'Reservoir Sampling',
+          algorithm: stratification ? 'Stratified Reservoir Sampling' : 'Reservoir Sampling',
           metadata: {
             eligibleFarmers: eligibleFarmerIds.length,
             tasksCreated,
@@ -297,6 +413,22 @@ export const sampleAndCreateTasks = async (
             eligibleActivityTypes: config.eligibleActivityTypes,
             scheduledDate,
             runByUserId: options?.runByUserId || null,
+            stratification: stratification
+              ? {
+                  strataBy: stratification.strataBy,
+                  allocation: stratification.allocation,
+                  minPerStratum: stratification.minPerStratum,
+                  strata,
+                }
+              : null,
+            policy: appliedPolicy,
+            riskAdjustment,
+            // Replay inputs for GET /api/sampling/audit/:activityId/verify
+            seed,
+            samplingRunId: options?.samplingRunId || null,
+            sampleSize,
+            sampleFrame,
+            sampleFrameStrata: strataKeys,
           },
         },
       },
@@ -320,6 +452,115 @@ export const sampleAndCreateTasks = async (
   }
 };
 
+export interface SamplingVerification {
+  activityId: string;
+  verifiable: boolean;
+  /** Why the audit cannot be replayed (only when verifiable = false) */
+  reason?: string;
+  matches: boolean;
+  algorithm: string;
+  seed: string | null;
+  samplingRunId: string | null;
+  frameSize: number;
+  sampleSize: number;
+  replayedCount: number;
+  /** Farmers the replay selects that have no task for the activity */
+  missingTasks: string[];
+  /** Farmers with a task from the audited run that the replay does not select */
+  unexpectedTasks: string[];
+  /** Frame farmers that are not (or no longer) part of the activity */
+  outsideActivity: string[];
+}
+
+/**
+ * Replay the latest sampling of an activity from its audit (seed + ordered frame) and check the
+ * result against the call tasks that exist. Tasks are matched on the audit's sampling run, so
+ * earlier runs on the same activity and callback tasks do not count as unexpected; neither do
+ * officer coverage top-ups, which the audit lists separately. Frame farmers merged into another
+ * farmer since are checked under the survivor.
+ */
+export const verifySamplingAudit = async (activityId: string): Promise<SamplingVerification> => {
+  const audit = await SamplingAudit.findOne({ activityId }).lean();
+  if (!audit) {
+    const error: AppError = new Error('No sampling audit for this activity');
+    error.statusCode = 404;
+    throw error;
+  }
+
+  const meta = (audit.metadata || {}) as Record<string, any>;
+  const samplingRunId = meta.samplingRunId ? String(meta.samplingRunId) : null;
+  const base: SamplingVerification = {
+    activityId,
+    verifiable: false,
+    matches: false,
+    algorithm: audit.algorithm,
+    seed: meta.seed || null,
+    samplingRunId,
+    frameSize: Array.isArray(meta.sampleFrame) ? meta.sampleFrame.length : 0,
+    sampleSize: Number(meta.sampleSize ?? audit.sampledCount),
+    replayedCount: 0,
+    missingTasks: [],
+    unexpectedTasks: [],
+    outsideActivity: [],
+  };
+  if (!meta.seed || !Array.isArray(meta.sampleFrame)) {
+    return { ...base, reason: 'Audit was recorded before seeded sampling and cannot be replayed' };
+  }
+
+  const frame: string[] = meta.sampleFrame.map(String);
+  const stratification = meta.stratification
+    ? { allocation: meta.stratification.allocation, minPerStratum: Number(meta.stratification.minPerStratum || 0) }
+    : null;
+  const { sample } = selectFarmers(
+    frame,
+    Array.isArray(meta.sampleFrameStrata) ? meta.sampleFrameStrata : null,
+    base.sampleSize,
+    stratification,
+    activitySeed(meta.seed, activityId)
+  );
+
+  const topUpIds: string[] = (Array.isArray(meta.coverageTopUps) ? meta.coverageTopUps : []).flatMap((topUp: any) =>
+    (topUp.farmerIds || []).map(String)
+  );
+  const [activity, tasks, mergedFarmers] = await Promise.all([
+    Activity.findById(activityId).select('farmerIds').lean(),
+    CallTask.find({ activityId }).select('farmerId samplingRunId').lean(),
+    Farmer.find({ _id: { $in: [...frame, ...topUpIds] }, mergedIntoFarmerId: { $ne: null } })
+      .select('_id mergedIntoFarmerId')
+      .lean(),
+  ]);
+  // A farmer merged since the audit now has its tasks and activity slot under the survivor
+  const mergedInto = new Map(mergedFarmers.map((f) => [f._id.toString(), String(f.mergedIntoFarmerId)]));
+  const current = (id: string) => mergedInto.get(id) ?? id;
+  const activityFarmers = new Set((activity?.farmerIds || []).map((id) => id.toString()));
+  const withTask = new Set(tasks.map((t) => t.farmerId?.toString()).filter(Boolean) as string[]);
+  const fromRun = new Set(
+    tasks
+      .filter((t) => (t.samplingRunId ? t.samplingRunId.toString() : null) === samplingRunId)
+      .map((t) => t.farmerId?.toString())
+      .filter(Boolean) as string[]
+  );
+  const replayed = new Set([...sample, ...topUpIds].map(current));
+
+  const missingTasks = sample.filter((id) => !withTask.has(current(id)));
+  const unexpectedTasks = Array.from(fromRun).filter((id) => !replayed.has(id));
+  const outsideActivity = frame.filter((id) => !activityFarmers.has(current(id)));
+
+  return {
+    ...base,
+    verifiable: true,
+    matches:
+      sample.length === audit.sampledCount &&
+      missingTasks.length === 0 &&
+      unexpectedTasks.length === 0 &&
+      outsideActivity.length === 0,
+    replayedCount: sample.length,
+    missingTasks,
+    unexpectedTasks,
+    outsideActivity,
+  };
+};
+
 /**
  * Sample all unsampled activities
  */
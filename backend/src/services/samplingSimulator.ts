@@ -0,0 +1,268 @@
+import mongoose from 'mongoose';
+import { Activity } from '../models/Activity.js';
+import { Farmer } from '../models/Farmer.js';
+import { CoolingPeriod } from '../models/CoolingPeriod.js';
+import { User } from '../models/User.js';
+import type { IStratificationSettings } from '../models/SamplingConfig.js';
+import {
+  getActiveSamplingConfig,
+  isActivityPastCoolingGate,
+  isActivityTypeEligible,
+  isFarmerInCoolingWindow,
+  planSample,
+} from './samplingService.js';
+import { getAgentAvailability } from './rosterService.js';
+import { loadActivePolicies, pickSamplingPolicy, policyPercentage } from './samplingPolicyService.js';
+import { loadOfficerRiskProfiles, riskAdjustmentFor, type OfficerRiskProfiles } from './riskWeightingService.js';
+import { getDoNotCallFarmerIds } from './doNotCallService.js';
+
+/**
+ * What-if sampling: runs the current config and a candidate against today's Active activities
+ * without writing anything, so a team lead can see the effect of a change before saving it.
+ */
+
+/** Active activities considered per simulation; larger backlogs are truncated (oldest first) */
+export const SIMULATION_ACTIVITY_LIMIT = 5000;
+
+export interface SimulationSettings {
+  defaultPercentage: number;
+  activityTypePercentages: Record<string, number>;
+  farmerCoolingDays: number;
+  activityCoolingDays: number;
+  eligibleActivityTypes: string[];
+  stratification: IStratificationSettings;
+}
+
+export type SimulationCandidate = Partial<Omit<SimulationSettings, 'stratification'>> & {
+  stratification?: Partial<IStratificationSettings>;
+};
+
+export interface SimulationResult {
+  settings: SimulationSettings;
+  activities: {
+    considered: number;
+    sampled: number;
+    skippedIneligibleType: number;
+    skippedActivityCooling: number;
+    /** Sized by a sampling policy rather than the config percentages */
+    governedByPolicy: number;
+    /** Percentage raised or lowered by officer risk weighting */
+    riskAdjusted: number;
+  };
+  farmers: {
+    total: number;
+    eligible: number;
+    /** Farmers in cooling, including ones the simulated run itself samples for an earlier activity */
+    blockedByCooling: number;
+    /** Farmers on the do-not-call / consent registry */
+    blockedByDoNotCall: number;
+  };
+  projectedTasks: number;
+  byLanguage: Array<{ language: string; tasks: number; agents: number; dailyCapacity: number; daysToClear: number | null }>;
+  byState: Array<{ state: string; tasks: number }>;
+  workload: {
+    agents: number;
+    onShiftToday: number;
+    /** Daily capacity of agents on shift today */
+    dailyCapacity: number;
+    /** Tasks already queued with the team (sampled_in_queue + in_progress) */
+    openTasks: number;
+    projectedTasks: number;
+    daysToClear: number | null;
+  };
+}
+
+interface TeamAgent {
+  languages: string[];
+  onShift: boolean;
+  dailyCapacity: number;
+  openTasks: number;
+}
+
+const normalize = (s: unknown) => String(s ?? '').trim().toLowerCase();
+const daysToClear = (tasks: number, capacity: number) => (capacity > 0 ? Math.ceil(tasks / capacity) : tasks > 0 ? null : 0);
+
+const toSettings = (config: any): SimulationSettings => ({
+  defaultPercentage: config.defaultPercentage,
+  activityTypePercentages: { ...(config.activityTypePercentages || {}) },
+  farmerCoolingDays: config.farmerCoolingDays,
+  activityCoolingDays: config.activityCoolingDays,
+  eligibleActivityTypes: [...(config.eligibleActivityTypes || [])],
+  stratification: {
+    mode: config.stratification?.mode ?? 'uniform',
+    strataBy: config.stratification?.strataBy ?? 'location',
+    allocation: config.stratification?.allocation ?? 'proportional',
+    minPerStratum: config.stratification?.minPerStratum ?? 0,
+  },
+});
+
+const simulate = (
+  settings: SimulationSettings,
+  activities: any[],
+  lastCallByFarmer: Map<string, Date>,
+  doNotCall: Set<string>,
+  farmerById: Map<string, any>,
+  team: TeamAgent[],
+  policies: Awaited<ReturnType<typeof loadActivePolicies>>,
+  riskProfiles: OfficerRiskProfiles | null,
+  forceRun: boolean
+): SimulationResult => {
+  const stratification = settings.stratification.mode === 'stratified' ? settings.stratification : null;
+  const counts = { considered: 0, sampled: 0, skippedIneligibleType: 0, skippedActivityCooling: 0, governedByPolicy: 0, riskAdjusted: 0 };
+  const farmers = { total: 0, eligible: 0, blockedByCooling: 0, blockedByDoNotCall: 0 };
+  const tasksByLanguage = new Map<string, { language: string; tasks: number }>();
+  const tasksByState = new Map<string, number>();
+  // A live run puts sampled farmers into cooling, so later activities in the same run cannot pick them again
+  const sampledInRun = new Set<string>();
+  let projectedTasks = 0;
+
+  for (const activity of activities) {
+    counts.considered++;
+    if (!isActivityTypeEligible(activity.type, settings.eligibleActivityTypes)) {
+      counts.skippedIneligibleType++;
+      continue;
+    }
+    if (!forceRun && !isActivityPastCoolingGate(activity.date, settings.activityCoolingDays)) {
+      counts.skippedActivityCooling++;
+      continue;
+    }
+
+    const farmerIds: string[] = (activity.farmerIds || []).map((id: mongoose.Types.ObjectId) => id.toString());
+    const callable = farmerIds.filter((id) => !doNotCall.has(id));
+    const frame = callable.filter((id) => {
+      if (settings.farmerCoolingDays > 0 && sampledInRun.has(id)) return false;
+      const lastCall = lastCallByFarmer.get(id);
+      return !lastCall || !isFarmerInCoolingWindow(lastCall, settings.farmerCoolingDays);
+    });
+    farmers.total += farmerIds.length;
+    farmers.eligible += frame.length;
+    farmers.blockedByDoNotCall += farmerIds.length - callable.length;
+    farmers.blockedByCooling += callable.length - frame.length;
+
+    // Policies and risk weighting are not part of the candidate, so they apply the same way in both results
+    const policy = pickSamplingPolicy(policies, activity);
+    if (policy) counts.governedByPolicy++;
+    const basePercentage = policy
+      ? policyPercentage(policy, activity.type)
+      : settings.activityTypePercentages[activity.type] || settings.defaultPercentage;
+    const riskAdjustment = riskAdjustmentFor(riskProfiles, activity, basePercentage);
+    const percentage = riskAdjustment ? riskAdjustment.adjustedPercentage : basePercentage;
+    if (percentage !== basePercentage) counts.riskAdjusted++;
+    const { sample } = planSample({
+      frame,
+      strataKeys: stratification ? frame.map((id) => farmerById.get(id)?.[stratification.strataBy] ?? null) : null,
+      percentage,
+      stratification,
+      // Fixed seed: current and candidate pick the same farmers wherever their settings agree
+      seed: `simulation:${activity._id}`,
+    });
+    if (sample.length > 0) counts.sampled++;
+    projectedTasks += sample.length;
+
+    const state = String(activity.state || '').trim() || 'Unknown';
+    tasksByState.set(state, (tasksByState.get(state) || 0) + sample.length);
+    for (const id of sample) {
+      sampledInRun.add(id);
+      const language = String(farmerById.get(id)?.preferredLanguage || '').trim() || 'Unknown';
+      const entry = tasksByLanguage.get(normalize(language)) || { language, tasks: 0 };
+      entry.tasks++;
+      tasksByLanguage.set(normalize(language), entry);
+    }
+  }
+
+  const onShift = team.filter((a) => a.onShift);
+  const dailyCapacity = onShift.reduce((sum, a) => sum + a.dailyCapacity, 0);
+  const openTasks = team.reduce((sum, a) => sum + a.openTasks, 0);
+
+  return {
+    settings,
+    activities: counts,
+    farmers,
+    projectedTasks,
+    byLanguage: Array.from(tasksByLanguage.values())
+      .map(({ language, tasks }) => {
+        // Agents with several languages count toward each of them
+        const speakers = onShift.filter((a) => a.languages.includes(normalize(language)));
+        const capacity = speakers.reduce((sum, a) => sum + a.dailyCapacity, 0);
+        return { language, tasks, agents: speakers.length, dailyCapacity: capacity, daysToClear: daysToClear(tasks, capacity) };
+      })
+      .sort((a, b) => b.tasks - a.tasks || a.language.localeCompare(b.language)),
+    byState: Array.from(tasksByState.entries())
+      .map(([state, tasks]) => ({ state, tasks }))
+      .sort((a, b) => b.tasks - a.tasks || a.state.localeCompare(b.state)),
+    workload: {
+      agents: team.length,
+      onShiftToday: onShift.length,
+      dailyCapacity,
+      openTasks,
+      projectedTasks,
+      daysToClear: daysToClear(openTasks + projectedTasks, dailyCapacity),
+    },
+  };
+};
+
+/**
+ * Simulate the saved config and `candidate` (merged over it) on the Active activities. Workload is
+ * measured against the caller's team (all agents for MIS Admin) as rostered today.
+ */
+export const simulateSampling = async (
+  user: { _id: mongoose.Types.ObjectId | string; role: string },
+  candidate: SimulationCandidate,
+  options: { forceRun?: boolean } = {}
+) => {
+  const config = await getActiveSamplingConfig();
+  const current = toSettings(config.toObject());
+  const proposed: SimulationSettings = {
+    ...current,
+    ...Object.fromEntries(Object.entries(candidate).filter(([, v]) => v !== undefined)),
+    stratification: { ...current.stratification, ...(candidate.stratification || {}) },
+  };
+
+  const activeCount = await Activity.countDocuments({ lifecycleStatus: 'active', farmerIds: { $exists: true, $ne: [] } });
+  const activities = await Activity.find({ lifecycleStatus: 'active', farmerIds: { $exists: true, $ne: [] } })
+    .select('_id type date state buName zoneName officerName tmName farmerIds')
+    .sort({ date: 1, _id: 1 })
+    .limit(SIMULATION_ACTIVITY_LIMIT)
+    .lean();
+
+  const allFarmerIds = Array.from(
+    new Set(activities.flatMap((a) => (a.farmerIds || []).map((id) => id.toString())))
+  ).map((id) => new mongoose.Types.ObjectId(id));
+
+  const agentQuery: any = { role: 'cc_agent', isActive: true };
+  if (user.role !== 'mis_admin') agentQuery.teamLeadId = user._id;
+
+  const [cooling, doNotCall, farmers, agents, policies, riskProfiles] = await Promise.all([
+    CoolingPeriod.find({ farmerId: { $in: allFarmerIds } }).select('farmerId lastCallDate').lean(),
+    getDoNotCallFarmerIds(allFarmerIds),
+    Farmer.find({ _id: { $in: allFarmerIds } }).select('preferredLanguage location territory').lean(),
+    User.find(agentQuery).select('_id languageCapabilities').lean(),
+    loadActivePolicies(),
+    config.riskWeighting?.enabled ? loadOfficerRiskProfiles(config.riskWeighting) : null,
+  ]);
+  const availability = await getAgentAvailability(agents.map((a) => a._id as mongoose.Types.ObjectId));
+
+  const lastCallByFarmer = new Map<string, Date>();
+  for (const entry of cooling) {
+    if (entry?.farmerId && entry?.lastCallDate) lastCallByFarmer.set(entry.farmerId.toString(), new Date(entry.lastCallDate));
+  }
+  const farmerById = new Map(farmers.map((f) => [f._id.toString(), f]));
+  const team: TeamAgent[] = agents.map((a) => {
+    const info = availability.get(a._id.toString());
+    return {
+      languages: (a.languageCapabilities || []).map(normalize),
+      onShift: !!info?.onShift,
+      dailyCapacity: info?.dailyCapacity ?? 0,
+      openTasks: info?.openTasks ?? 0,
+    };
+  });
+
+  const forceRun = !!options.forceRun;
+  return {
+    activeActivities: activeCount,
+    truncated: activeCount > activities.length,
+    forceRun,
+    current: simulate(current, activities, lastCallByFarmer, doNotCall, farmerById, team, policies, riskProfiles, forceRun),
+    candidate: simulate(proposed, activities, lastCallByFarmer, doNotCall, farmerById, team, policies, riskProfiles, forceRun),
+  };
+};
@@ -3,6 +3,7 @@ import { User } from '../models/User.js';
 import { Farmer } from '../models/Farmer.js';
 import { Activity } from '../models/Activity.js';
 import mongoose from 'mongoose';
+import { publishTaskStatus } from './liveEventsService.js';
 import logger from '../config/logger.js';
 import * as XLSX from 'xlsx';
 
@@ -789,9 +790,11 @@ export const assignTaskToAgent = async (
       logger.warn(`Agent ${agent.email} does not have language capability for farmer ${farmer.preferredLanguage}`);
     }
 
+    const previousStatus = task.status;
     task.assignedAgentId = new mongoose.Types.ObjectId(agentId);
     task.status = 'sampled_in_queue';
     await task.save();
+    publishTaskStatus(task, previousStatus, task.status);
 
     logger.info(`Task ${taskId} assigned to agent ${agent.email}`);
 
@@ -865,9 +868,11 @@ export const autoAssignTask = async (taskId: string): Promise<ICallTask | null>
     agentTaskCounts.sort((a, b) => a.count - b.count);
     const selectedAgent = agentTaskCounts[0].agent;
 
+    const previousStatus = task.status;
     task.assignedAgentId = new mongoose.Types.ObjectId(selectedAgent._id.toString());
     task.status = 'sampled_in_queue';
     await task.save();
+    publishTaskStatus(task, previousStatus, task.status);
 
     logger.info(`Task ${taskId} auto-assigned to agent ${selectedAgent.email} (had ${agentTaskCounts[0].count} pending tasks)`);
 
@@ -912,6 +917,7 @@ export const updateTaskStatus = async (
     }
 
     await task.save();
+    publishTaskStatus(task, previousStatus, status);
 
     logger.info(`Task ${taskId} status updated to ${status}`);
 
@@ -0,0 +1,400 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import mongoose from 'mongoose';
+import { CallSession, ICallSession, HangupCause, TelephonyEventType } from '../models/CallSession.js';
+import type { CallStatus } from '../models/CallTask.js';
+import { AppError } from '../middleware/errorHandler.js';
+import logger from '../config/logger.js';
+
+/**
+ * Normalised call event. Each adapter turns its provider's webhook payload into this shape,
+ * so the session state machine below never sees provider-specific fields.
+ */
+export interface TelephonyEvent {
+  eventId: string;
+  providerCallId: string;
+  reference?: string; // CallSession id when the provider echoes it back
+  type: TelephonyEventType;
+  at: Date;
+  hangupCause?: HangupCause;
+  digits?: string;
+  direction?: 'inbound' | 'outbound';
+}
+
+export interface DialRequest {
+  to: string;
+  eventUrl: string;
+  reference: string; // our CallSession id, echoed back by providers that support it
+}
+
+/**
+ * Click-to-dial provider (CTI). A cloud telephony provider can be added as another adapter
+ * without touching the session model or routes.
+ */
+export interface TelephonyAdapter {
+  readonly name: string;
+  dial(request: DialRequest): Promise<{ providerCallId: string }>;
+  hangup(providerCallId: string): Promise<void>;
+  sendDtmf(providerCallId: string, digits: string): Promise<void>;
+  /** Verify the webhook came from the provider and normalise it; throws 401/400 otherwise */
+  parseEvent(headers: Record<string, string | string[] | undefined>, body: any): TelephonyEvent;
+}
+
+const EVENT_TYPES: TelephonyEventType[] = ['ringing', 'answered', 'hungup', 'dtmf'];
+const HANGUP_CAUSES: HangupCause[] = ['normal', 'no_answer', 'busy', 'invalid_number', 'unreachable', 'agent_hangup', 'failed'];
+
+const secretsMatch = (expected: string, provided: string): boolean => {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Local simulator (mock-telephony). Dials over HTTP and receives events on our webhook with
+ * X-Telephony-Secret = TELEPHONY_WEBHOOK_SECRET.
+ */
+export class SimulatorTelephonyAdapter implements TelephonyAdapter {
+  readonly name = 'simulator';
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string = process.env.TELEPHONY_SIMULATOR_URL || 'http://localhost:4100/api') {
+    this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+  }
+
+  async dial(request: DialRequest): Promise<{ providerCallId: string }> {
+    const res = await axios.post(`${this.baseUrl}/calls`, request, { timeout: 5000 });
+    const callId = res.data?.data?.callId;
+    if (!callId) throw new Error('Simulator did not return a callId');
+    return { providerCallId: String(callId) };
+  }
+
+  async hangup(providerCallId: string): Promise<void> {
+    await axios.post(`${this.baseUrl}/calls/${encodeURIComponent(providerCallId)}/hangup`, {}, { timeout: 5000 });
+  }
+
+  async sendDtmf(providerCallId: string, digits: string): Promise<void> {
+    await axios.post(`${this.baseUrl}/calls/${encodeURIComponent(providerCallId)}/dtmf`, { digits }, { timeout: 5000 });
+  }
+
+  parseEvent(headers: Record<string, string | string[] | undefined>, body: any): TelephonyEvent {
+    const expected = (process.env.TELEPHONY_WEBHOOK_SECRET || '').trim();
+    const provided = String(headers['x-telephony-secret'] || '').trim();
+    if (!expected || !secretsMatch(expected, provided)) {
+      const error: AppError = new Error('Invalid or missing X-Telephony-Secret');
+      error.statusCode = 401;
+      throw error;
+    }
+
+    const at = new Date(body?.timestamp);
+    if (
+      !body?.eventId ||
+      !body?.callId ||
+      !EVENT_TYPES.includes(body?.event) ||
+      Number.isNaN(at.getTime()) ||
+      (body.event === 'dtmf' && !/^[0-9*#]+$/.test(String(body.digits || '')))
+    ) {
+      const error: AppError = new Error('Invalid telephony event payload');
+      error.statusCode = 400;
+      throw error;
+    }
+
+    return {
+      eventId: String(body.eventId),
+      providerCallId: String(body.callId),
+      ...(body.reference && { reference: String(body.reference) }),
+      type: body.event,
+      at,
+      ...(HANGUP_CAUSES.includes(body.cause) && { hangupCause: body.cause as HangupCause }),
+      ...(body.event === 'dtmf' && {
+        digits: String(body.digits),
+        direction: body.direction === 'outbound' ? 'outbound' : 'inbound',
+      }),
+    };
+  }
+}
+
+let adapter: TelephonyAdapter | null | undefined;
+
+/**
+ * Configured adapter (TELEPHONY_PROVIDER). Unset or 'none' means agents dial manually.
+ */
+export const getTelephonyAdapter = (): TelephonyAdapter | null => {
+  if (adapter !== undefined) return adapter;
+  const provider = (process.env.TELEPHONY_PROVIDER || 'none').toLowerCase();
+  switch (provider) {
+    case 'none':
+      adapter = null;
+      break;
+    case 'simulator':
+      adapter = new SimulatorTelephonyAdapter();
+      break;
+    default:
+      throw new Error(`Unsupported TELEPHONY_PROVIDER: ${provider}`);
+  }
+  return adapter;
+};
+
+const getEventUrl = (): string =>
+  process.env.TELEPHONY_EVENT_URL || `http://localhost:${process.env.PORT || 5000}/api/telephony/events`;
+
+const ACTIVE_STATUSES = ['dialing', 'ringing', 'answered'];
+
+export const isCallSessionActive = (session: Pick<ICallSession, 'status'>): boolean =>
+  ACTIVE_STATUSES.includes(session.status);
+
+/**
+ * Place a call for a task. The session is stored before dialing so the provider's first
+ * event always finds it; a failed dial leaves it as 'failed' and surfaces a 502.
+ */
+export const startCall = async (
+  taskId: string | mongoose.Types.ObjectId,
+  agentId: string | mongoose.Types.ObjectId,
+  toNumber: string,
+  telephony: TelephonyAdapter
+): Promise<ICallSession> => {
+  const open = await CallSession.findOne({ agentId, status: { $in: ACTIVE_STATUSES } }).select('_id taskId').lean();
+  if (open) {
+    const error: AppError = new Error('You already have a call in progress; hang up first');
+    error.statusCode = 409;
+    throw error;
+  }
+
+  const session = await CallSession.create({
+    taskId,
+    agentId,
+    provider: telephony.name,
+    toNumber: toNumber.replace(/\s/g, ''),
+    status: 'dialing',
+    dialedAt: new Date(),
+  });
+
+  try {
+    const { providerCallId } = await telephony.dial({
+      to: session.toNumber,
+      eventUrl: getEventUrl(),
+      reference: session._id.toString(),
+    });
+    // updateOne: early events may already have advanced the stored session
+    await CallSession.updateOne({ _id: session._id }, { $set: { providerCallId } });
+    session.providerCallId = providerCallId;
+  } catch (err: any) {
+    session.status = 'failed';
+    session.hangupCause = 'failed';
+    session.endedAt = new Date();
+    await session.save();
+    logger.error('Telephony dial failed', { provider: telephony.name, taskId: String(taskId), error: err?.message });
+    const error: AppError = new Error('Telephony provider is unavailable; dial manually');
+    error.statusCode = 502;
+    throw error;
+  }
+
+  return session;
+};
+
+/** Session fields an event changes, worked out from the state it arrives in (null: no transition) */
+const transitionFor = (
+  session: Pick<ICallSession, 'status' | 'answeredAt'>,
+  event: TelephonyEvent
+): Partial<Pick<ICallSession, 'status' | 'ringingAt' | 'answeredAt' | 'endedAt' | 'hangupCause' | 'durationSeconds'>> | null => {
+  switch (event.type) {
+    case 'ringing':
+      return session.status === 'dialing' ? { status: 'ringing', ringingAt: event.at } : null;
+    case 'answered':
+      return session.status === 'dialing' || session.status === 'ringing' ? { status: 'answered', answeredAt: event.at } : null;
+    case 'hungup':
+      if (!isCallSessionActive(session)) return null;
+      return {
+        status: 'ended',
+        endedAt: event.at,
+        hangupCause: event.hangupCause || (session.answeredAt ? 'normal' : 'no_answer'),
+        durationSeconds: session.answeredAt
+          ? Math.max(0, Math.round((event.at.getTime() - session.answeredAt.getTime()) / 1000))
+          : 0,
+      };
+    default:
+      return null;
+  }
+};
+
+/** Attempts before a webhook gets 409 (the provider redelivers) when other events keep landing first */
+const MAX_EVENT_ATTEMPTS = 5;
+
+/**
+ * Apply a provider event to its session. Replayed events (same eventId) are ignored and
+ * out-of-order events never move a session backwards. Each event is one conditional update that
+ * only matches while the eventId is unrecorded and the session is still in the state the
+ * transition was worked out from; if another event got there first, it is re-read and retried.
+ */
+export const applyTelephonyEvent = async (provider: string, event: TelephonyEvent): Promise<ICallSession> => {
+  let session = await CallSession.findOne({ provider, providerCallId: event.providerCallId });
+  // An event can arrive before dial() has returned the provider call id
+  const byReference = !session && !!event.reference && mongoose.Types.ObjectId.isValid(event.reference);
+  if (byReference) session = await CallSession.findOne({ _id: event.reference, provider, providerCallId: null });
+  if (!session) {
+    const error: AppError = new Error('Call session not found');
+    error.statusCode = 404;
+    throw error;
+  }
+
+  const entry = {
+    eventId: event.eventId,
+    type: event.type,
+    at: event.at,
+    payload: {
+      ...(event.hangupCause && { cause: event.hangupCause }),
+      ...(event.digits && { digits: event.digits, direction: event.direction }),
+    },
+  };
+
+  let current: ICallSession = session;
+  for (let attempt = 0; attempt < MAX_EVENT_ATTEMPTS; attempt++) {
+    if (current.events.some((e) => e.eventId === event.eventId)) return current;
+
+    const set: Record<string, unknown> = { ...transitionFor(current, event) };
+    if (byReference) set.providerCallId = event.providerCallId;
+    const push: Record<string, unknown> = { events: entry };
+    if (event.type === 'dtmf') {
+      push.dtmf = { digits: event.digits || '', direction: event.direction || 'inbound', at: event.at };
+    }
+
+    const updated = await CallSession.findOneAndUpdate(
+      {
+        _id: current._id,
+        'events.eventId': { $ne: event.eventId },
+        status: current.status,
+        answeredAt: current.answeredAt ?? null,
+      },
+      { ...(Object.keys(set).length > 0 && { $set: set }), $push: push },
+      { new: true }
+    );
+    if (updated) return updated;
+
+    const reloaded = await CallSession.findById(current._id);
+    if (!reloaded) break;
+    current = reloaded;
+  }
+
+  const error: AppError = new Error('Call session is being updated by other events; retry');
+  error.statusCode = 409;
+  throw error;
+};
+
+/**
+ * Call log fields derived from a finished session (null while the call is still live).
+ */
+export const callOutcomeFromSession = (
+  session: Pick<ICallSession, 'status' | 'answeredAt' | 'hangupCause' | 'durationSeconds'>
+): { callStatus: CallStatus; callDurationSeconds: number } | null => {
+  if (isCallSessionActive(session)) return null;
+  if (session.answeredAt) return { callStatus: 'Connected', callDurationSeconds: session.durationSeconds };
+
+  const statusByCause: Record<HangupCause, CallStatus> = {
+    normal: 'No Answer',
+    no_answer: 'No Answer',
+    agent_hangup: 'No Answer',
+    busy: 'Disconnected',
+    failed: 'Disconnected',
+    unreachable: 'Incoming N/A',
+    invalid_number: 'Invalid',
+  };
+  return { callStatus: statusByCause[session.hangupCause || 'no_answer'], callDurationSeconds: 0 };
+};
+
+export const getAgentCallSession = async (sessionId: string, agentId: string): Promise<ICallSession> => {
+  const session = await CallSession.findById(sessionId);
+  if (!session) {
+    const error: AppError = new Error('Call session not found');
+    error.statusCode = 404;
+    throw error;
+  }
+  if (session.agentId.toString() !== agentId) {
+    const error: AppError = new Error('Call session belongs to another agent');
+    error.statusCode = 403;
+    throw error;
+  }
+  return session;
+};
+
+/**
+ * Agent hang-up. The session ends locally even if the provider call fails, so an agent is
+ * never stuck with a live session; the provider's own hungup event is then ignored.
+ */
+export const hangupCall = async (sessionId: string, agentId: string, telephony: TelephonyAdapter): Promise<ICallSession> => {
+  const session = await getAgentCallSession(sessionId, agentId);
+  if (!isCallSessionActive(session)) return session;
+
+  if (session.providerCallId) {
+    try {
+      await telephony.hangup(session.providerCallId);
+    } catch (err: any) {
+      logger.warn('Telephony hangup failed; ending session locally', { sessionId, error: err?.message });
+    }
+  }
+
+  const now = new Date();
+  session.status = 'ended';
+  session.endedAt = now;
+  session.hangupCause = session.answeredAt ? 'normal' : 'agent_hangup';
+  session.durationSeconds = session.answeredAt
+    ? Math.max(0, Math.round((now.getTime() - session.answeredAt.getTime()) / 1000))
+    : 0;
+  await session.save();
+  return session;
+};
+
+export const sendCallDtmf = async (
+  sessionId: string,
+  agentId: string,
+  digits: string,
+  telephony: TelephonyAdapter
+): Promise<ICallSession> => {
+  const session = await getAgentCallSession(sessionId, agentId);
+  if (session.status !== 'answered' || !session.providerCallId) {
+    const error: AppError = new Error('DTMF can only be sent on an answered call');
+    error.statusCode = 409;
+    throw error;
+  }
+  await telephony.sendDtmf(session.providerCallId, digits);
+  session.dtmf.push({ digits, direction: 'outbound', at: new Date() });
+  await session.save();
+  return session;
+};
+
+/**
+ * The session a submission should take its call status from: the agent's latest unsubmitted
+ * session for the task. Failed dials are skipped (the agent dialled manually after); a live
+ * call blocks submission (409).
+ */
+export const findSessionForSubmission = async (
+  taskId: string,
+  agentId: string
+): Promise<ICallSession | null> => {
+  const session = await CallSession.findOne({ taskId, agentId, submittedAt: null, status: { $ne: 'failed' } }).sort({
+    createdAt: -1,
+  });
+  if (session && isCallSessionActive(session)) {
+    const error: AppError = new Error('Call is still in progress; hang up before submitting');
+    error.statusCode = 409;
+    throw error;
+  }
+  return session;
+};
+
+/**
+ * What the agent workspace needs to drive the softphone: state, timings and the derived outcome.
+ */
+export const serializeCallSession = (session: ICallSession) => ({
+  _id: session._id.toString(),
+  taskId: session.taskId.toString(),
+  provider: session.provider,
+  toNumber: session.toNumber,
+  status: session.status,
+  hangupCause: session.hangupCause ?? null,
+  dialedAt: session.dialedAt,
+  ringingAt: session.ringingAt ?? null,
+  answeredAt: session.answeredAt ?? null,
+  endedAt: session.endedAt ?? null,
+  durationSeconds: session.durationSeconds,
+  dtmf: session.dtmf,
+  outcome: callOutcomeFromSession(session),
+});
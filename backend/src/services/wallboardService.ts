@@ -0,0 +1,150 @@
+import mongoose from 'mongoose';
+import { CallTask } from '../models/CallTask.js';
+import { Farmer } from '../models/Farmer.js';
+import { User } from '../models/User.js';
+import { callTaskNeedsAgentMongoFilter } from './taskService.js';
+
+export interface WallboardLanguageRow {
+  language: string;
+  unassigned: number;
+  queued: number;
+  inProgress: number;
+  total: number;
+}
+
+export interface WallboardAgentRow {
+  agentId: string;
+  name: string;
+  callsLastHour: number;
+  connectedLastHour: number;
+}
+
+export interface WallboardSnapshot {
+  backlogByLanguage: WallboardLanguageRow[];
+  today: { attempts: number; connected: number; connectedPct: number };
+  callsPerAgentLastHour: WallboardAgentRow[];
+  asOf: Date;
+}
+
+const LANGUAGE_ORDER = ['Hindi', 'Telugu', 'Marathi', 'Kannada', 'Tamil', 'Bengali', 'Oriya', 'Malayalam', 'English', 'Unknown'];
+const languageRank = (l: string) => {
+  const idx = LANGUAGE_ORDER.indexOf(l);
+  return idx === -1 ? 999 : idx;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Attempts (callAttempts entries) submitted since `since`, one row per attempt. Tasks submitted
+ * before attempts were tracked only have callLog and are not counted; the wallboard only looks
+ * at today and the last hour.
+ */
+const attemptsSince = (since: Date, agentIds: mongoose.Types.ObjectId[] | null): any[] => [
+  { $match: { 'callAttempts.timestamp': { $gte: since } } },
+  { $unwind: '$callAttempts' },
+  {
+    $match: {
+      'callAttempts.timestamp': { $gte: since },
+      ...(agentIds ? { 'callAttempts.agentId': { $in: agentIds } } : {}),
+    },
+  },
+];
+
+/**
+ * Floor wallboard figures. Team lead: their team's agents plus the shared unassigned backlog;
+ * MIS Admin: every agent.
+ */
+export const getWallboardSnapshot = async (
+  user: { _id: mongoose.Types.ObjectId | string; role: string },
+  now: Date = new Date()
+): Promise<WallboardSnapshot> => {
+  const agentQuery: any = { role: 'cc_agent', isActive: true };
+  if (user.role !== 'mis_admin') agentQuery.teamLeadId = user._id;
+  const agents = await User.find(agentQuery).select('_id name').sort({ name: 1 }).lean();
+  const agentIds = agents.map((a) => a._id as mongoose.Types.ObjectId);
+  const scopedAgentIds = user.role === 'mis_admin' ? null : agentIds;
+
+  // 1) Open backlog by farmer language
+  const backlogRaw = await CallTask.aggregate([
+    {
+      $match: {
+        $or: [
+          callTaskNeedsAgentMongoFilter(),
+          {
+            status: { $in: ['sampled_in_queue', 'in_progress'] },
+            ...(scopedAgentIds ? { assignedAgentId: { $in: scopedAgentIds } } : { assignedAgentId: { $ne: null } }),
+          },
+        ],
+      },
+    },
+    { $lookup: { from: Farmer.collection.name, localField: 'farmerId', foreignField: '_id', as: 'farmer' } },
+    { $unwind: { path: '$farmer', preserveNullAndEmptyArrays: true } },
+    {
+      $group: {
+        _id: { $ifNull: ['$farmer.preferredLanguage', 'Unknown'] },
+        unassigned: { $sum: { $cond: [{ $ifNull: ['$assignedAgentId', false] }, 0, 1] } },
+        queued: {
+          $sum: { $cond: [{ $and: [{ $ifNull: ['$assignedAgentId', false] }, { $eq: ['$status', 'sampled_in_queue'] }] }, 1, 0] },
+        },
+        inProgress: {
+          $sum: { $cond: [{ $and: [{ $ifNull: ['$assignedAgentId', false] }, { $eq: ['$status', 'in_progress'] }] }, 1, 0] },
+        },
+        total: { $sum: 1 },
+      },
+    },
+  ]);
+  const backlogByLanguage: WallboardLanguageRow[] = backlogRaw
+    .map((r: any) => ({ language: r._id, unassigned: r.unassigned, queued: r.queued, inProgress: r.inProgress, total: r.total }))
+    .sort((a, b) => languageRank(a.language) - languageRank(b.language) || a.language.localeCompare(b.language));
+
+  // 2) Connected % for today's attempts
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+  const [todayRaw] = await CallTask.aggregate([
+    ...attemptsSince(startOfDay, scopedAgentIds),
+    {
+      $group: {
+        _id: null,
+        attempts: { $sum: 1 },
+        connected: { $sum: { $cond: [{ $eq: ['$callAttempts.callStatus', 'Connected'] }, 1, 0] } },
+      },
+    },
+  ]);
+  const attempts = todayRaw?.attempts ?? 0;
+  const connected = todayRaw?.connected ?? 0;
+
+  // 3) Calls per agent in the last hour (agents with no calls included, so idle agents show up)
+  const perAgentRaw = await CallTask.aggregate([
+    ...attemptsSince(new Date(now.getTime() - HOUR_MS), scopedAgentIds),
+    {
+      $group: {
+        _id: '$callAttempts.agentId',
+        calls: { $sum: 1 },
+        connected: { $sum: { $cond: [{ $eq: ['$callAttempts.callStatus', 'Connected'] }, 1, 0] } },
+      },
+    },
+  ]);
+  const perAgent = new Map(perAgentRaw.map((r: any) => [String(r._id), r]));
+  const callsPerAgentLastHour: WallboardAgentRow[] = agents
+    .map((a) => {
+      const row: any = perAgent.get(a._id.toString());
+      return {
+        agentId: a._id.toString(),
+        name: a.name,
+        callsLastHour: row?.calls ?? 0,
+        connectedLastHour: row?.connected ?? 0,
+      };
+    })
+    .sort((a, b) => b.callsLastHour - a.callsLastHour || a.name.localeCompare(b.name));
+
+  return {
+    backlogByLanguage,
+    today: {
+      attempts,
+      connected,
+      connectedPct: attempts > 0 ? Math.round((connected / attempts) * 1000) / 10 : 0,
+    },
+    callsPerAgentLastHour,
+    asOf: now,
+  };
+};
@@ -0,0 +1,59 @@
+import mongoose from 'mongoose';
+import type { ICallAttempt, ICallLog, TaskStatus } from '../models/CallTask.js';
+
+type TaskLike = {
+  callAttempts?: ICallAttempt[] | null;
+  callLog?: ICallLog | null;
+  assignedAgentId?: mongoose.Types.ObjectId | { _id: mongoose.Types.ObjectId } | null;
+  status?: TaskStatus;
+};
+
+/**
+ * Attempts for a task, oldest first. Tasks submitted before callAttempts existed only have
+ * the single callLog; that is reported as attempt 1.
+ */
+export const getCallAttempts = (task: TaskLike): ICallAttempt[] => {
+  if (Array.isArray(task.callAttempts) && task.callAttempts.length > 0) {
+    return [...task.callAttempts].sort((a, b) => a.attemptNumber - b.attemptNumber);
+  }
+  if (!task.callLog || !task.callLog.callStatus) return [];
+
+  // Hydrated documents hold subdocuments; spread the plain values, not the mongoose internals
+  const log: ICallLog = typeof (task.callLog as any).toObject === 'function' ? (task.callLog as any).toObject() : task.callLog;
+  const agent = task.assignedAgentId as any;
+  return [
+    {
+      ...log,
+      attemptNumber: 1,
+      agentId: agent?._id ?? agent ?? null,
+      resultingStatus: task.status ?? 'completed',
+    },
+  ];
+};
+
+/**
+ * Aggregation expression for the number of attempts on a task document, with the same
+ * legacy fallback as getCallAttempts (a callLog without callAttempts counts as 1).
+ */
+export const callAttemptCountExpr = {
+  $cond: [
+    { $gt: [{ $size: { $ifNull: ['$callAttempts', []] } }, 0] },
+    { $size: '$callAttempts' },
+    { $cond: [{ $ifNull: ['$callLog.callStatus', false] }, 1, 0] },
+  ],
+};
+
+/**
+ * Aggregation expression for connected attempts on a task document.
+ */
+export const connectedAttemptCountExpr = {
+  $cond: [
+    { $gt: [{ $size: { $ifNull: ['$callAttempts', []] } }, 0] },
+    {
+      $size: {
+        $filter: { input: '$callAttempts', as: 'a', cond: { $eq: ['$$a.callStatus', 'Connected'] } },
+      },
+    },
+    { $cond: [{ $eq: ['$callLog.callStatus', 'Connected'] }, 1, 0] },
+  ],
+};
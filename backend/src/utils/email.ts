@@ -466,3 +466,140 @@ This is an automated message, please do not reply.
 
   return { subject, html, text };
 };
+
+const escapeHtml = (value: string): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export interface SlaBreachEmailItem {
+  queryId: string;
+  farmerLabel: string;
+  queryType: string;
+  category: string;
+  breachType: 'first_response' | 'resolution';
+  dueAt: Date;
+  loggedByName?: string;
+  /** Raised from Level 1 to Level 2 by this sweep; false when the query was already at Level 2 */
+  escalated: boolean;
+}
+
+/**
+ * Generate SLA breach digest email for a team lead (one email per sweep, listing every newly breached query)
+ */
+export const generateInboundSlaBreachEmail = (
+  teamLeadName: string,
+  breaches: SlaBreachEmailItem[]
+): { subject: string; html: string; text: string } => {
+  const dashboardUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/workspace/ems`;
+  const currentYear = new Date().getFullYear();
+  const fmt = (d: Date) =>
+    new Date(d).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+  const breachLabel = (t: SlaBreachEmailItem['breachType']) => (t === 'first_response' ? 'First response' : 'Resolution');
+  const escalationLabel = (b: SlaBreachEmailItem) => (b.escalated ? 'Escalated to Level 2' : 'Already at Level 2');
+  const escalatedCount = breaches.filter((b) => b.escalated).length;
+
+  const subject = `SLA breached: ${breaches.length} inbound quer${breaches.length === 1 ? 'y' : 'ies'}${
+    escalatedCount ? `, ${escalatedCount} escalated` : ''
+  } - Kweka Reach`;
+
+  const rowsHtml = breaches
+    .map(
+      (b) => `
+          <tr>
+            <td>${escapeHtml(b.farmerLabel)}</td>
+            <td>${escapeHtml(b.queryType)}<br><span class="muted">${escapeHtml(b.category)}</span></td>
+            <td>${breachLabel(b.breachType)}</td>
+            <td>${fmt(b.dueAt)}</td>
+            <td>${escalationLabel(b)}</td>
+            <td>${escapeHtml(b.loggedByName || '-')}</td>
+          </tr>`
+    )
+    .join('');
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #1e293b; background-color: #f8fafc; margin: 0; padding: 0; }
+    .wrapper { background-color: #f8fafc; padding: 40px 20px; }
+    .container { max-width: 680px; margin: 0 auto; background-color: #ffffff; border-radius: 16px; overflow: hidden; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1); }
+    .header { background: linear-gradient(135deg, #0f172a 0%, #1e293b 100%); color: white; padding: 32px 30px; text-align: center; }
+    .header h1 { margin: 0 0 4px 0; font-size: 22px; font-weight: 800; }
+    .header p { margin: 0; font-size: 14px; color: #94a3b8; }
+    .content { padding: 32px 30px; }
+    .greeting { font-size: 18px; font-weight: 600; color: #0f172a; margin-bottom: 16px; }
+    .message { color: #475569; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th { text-align: left; font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; color: #64748b; border-bottom: 2px solid #e2e8f0; padding: 8px; }
+    td { border-bottom: 1px solid #e2e8f0; padding: 8px; vertical-align: top; }
+    .muted { color: #94a3b8; font-size: 12px; }
+    .button-container { text-align: center; margin: 32px 0 8px 0; }
+    .button { display: inline-block; background: linear-gradient(135deg, #0f172a 0%, #1e293b 100%); color: #ffffff !important; padding: 14px 28px; text-decoration: none; border-radius: 12px; font-weight: 700; font-size: 13px; text-transform: uppercase; letter-spacing: 0.05em; }
+    .footer { text-align: center; padding: 24px 30px; background-color: #f8fafc; border-top: 1px solid #e2e8f0; }
+    .footer p { margin: 4px 0; color: #94a3b8; font-size: 12px; }
+    .footer-brand { font-weight: 600; color: #64748b; }
+  </style>
+</head>
+<body>
+  <div class="wrapper">
+    <div class="container">
+      <div class="header">
+        <h1>Kweka Reach</h1>
+        <p>Inbound Query SLA Alert</p>
+      </div>
+      <div class="content">
+        <p class="greeting">Hello ${escapeHtml(teamLeadName)},</p>
+        <p class="message">The following inbound queries from your team have breached their SLA. Those escalated by this check are now at <strong>Level 2</strong>.</p>
+        <table>
+          <thead>
+            <tr><th>Farmer</th><th>Query</th><th>Breached SLA</th><th>Was due</th><th>Escalation</th><th>Logged by</th></tr>
+          </thead>
+          <tbody>${rowsHtml}
+          </tbody>
+        </table>
+        <div class="button-container">
+          <a href="${dashboardUrl}" class="button">Open Inbound Queue</a>
+        </div>
+      </div>
+      <div class="footer">
+        <p class="footer-brand">© ${currentYear} Kweka Reach. All rights reserved.</p>
+        <p>This is an automated message, please do not reply.</p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+
+  const text = `
+Inbound Query SLA Alert - Kweka Reach
+=====================================
+
+Hello ${teamLeadName},
+
+The following inbound queries from your team have breached their SLA. Those escalated by this check are now at Level 2:
+
+${breaches
+  .map(
+    (b) =>
+      `• ${b.farmerLabel} | ${b.queryType} / ${b.category} | ${breachLabel(b.breachType)} was due ${fmt(b.dueAt)} | ${escalationLabel(b)} | Logged by ${b.loggedByName || '-'}`
+  )
+  .join('\n')}
+
+Open the inbound queue: ${dashboardUrl}
+
+-------------------------------------
+© ${currentYear} Kweka Reach. All rights reserved.
+Farmer Engagement Platform
+
+This is an automated message, please do not reply.
+  `;
+
+  return { subject, html, text };
+};
@@ -3,9 +3,10 @@
  * Selects k random items from a stream of n items with equal probability
  * Time Complexity: O(n)
  * Space Complexity: O(k)
+ * Pass a seeded `random` (see seededRandom.ts) to make the selection reproducible.
  */
 
-export const reservoirSampling = <T>(items: T[], sampleSize: number): T[] => {
+export const reservoirSampling = <T>(items: T[], sampleSize: number, random: () => number = Math.random): T[] => {
   if (sampleSize >= items.length) {
     return items;
   }
@@ -20,7 +21,7 @@ export const reservoirSampling = <T>(items: T[], sampleSize: number): T[] => {
   // Process remaining items
   for (let i = sampleSize; i < items.length; i++) {
     // Generate random number between 0 and i (inclusive)
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
 
     // If random number is less than sample size, replace reservoir[j] with items[i]
     if (j < sampleSize) {
@@ -0,0 +1,35 @@
+/**
+ * Seeded Random
+ * Deterministic random numbers for sampling, so a run can be replayed from its recorded seed.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+/** New random seed for a sampling run (hex) */
+export const generateSamplingSeed = (): string => randomBytes(16).toString('hex');
+
+/**
+ * Returns a Math.random-style generator ([0, 1)) driven by `seed`.
+ * The seed string is hashed into the 128-bit state of sfc32, so any string works.
+ */
+export const createSeededRandom = (seed: string): (() => number) => {
+  const digest = createHash('sha256').update(seed).digest();
+  let a = digest.readUInt32LE(0);
+  let b = digest.readUInt32LE(4);
+  let c = digest.readUInt32LE(8);
+  let d = digest.readUInt32LE(12);
+
+  const next = () => {
+    const t = (((a + b) >>> 0) + d) >>> 0;
+    d = (d + 1) >>> 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) >>> 0;
+    c = ((c << 21) | (c >>> 11)) >>> 0;
+    c = (c + t) >>> 0;
+    return t / 4294967296;
+  };
+
+  // Discard the first outputs so similar seeds diverge
+  for (let i = 0; i < 12; i++) next();
+  return next;
+};
@@ -0,0 +1,113 @@
+/**
+ * Stratified Sampling
+ * Splits items into strata, decides how many to take from each, then runs reservoir sampling
+ * inside every stratum. Allocation is deterministic; only the picks within a stratum are random.
+ */
+
+import { reservoirSampling } from './reservoirSampling.js';
+
+export type StratumAllocation = 'proportional' | 'equal';
+
+export interface StratumSummary {
+  key: string;
+  population: number;
+  sampled: number;
+}
+
+const UNKNOWN_STRATUM = 'Unknown';
+
+/** Display label for a stratum value; blank values fall into "Unknown" */
+export const stratumLabel = (value: unknown): string => String(value ?? '').trim() || UNKNOWN_STRATUM;
+
+/**
+ * Per-stratum sample sizes that add up to `sampleSize` (capped at the population).
+ * Each stratum first gets min(minPerStratum, population); if those floors alone exceed the
+ * sample size they are shared out equally instead. The rest goes by allocation:
+ * - proportional: closest to sampleSize × population share (largest remainder)
+ * - equal: level the strata, small strata stop at their population
+ */
+export const allocateStrata = (
+  populations: Array<{ key: string; population: number }>,
+  sampleSize: number,
+  allocation: StratumAllocation,
+  minPerStratum = 0
+): Map<string, number> => {
+  const total = populations.reduce((sum, s) => sum + s.population, 0);
+  const n = Math.max(0, Math.min(Math.floor(sampleSize), total));
+  const alloc = new Map(populations.map((s) => [s.key, 0]));
+
+  // Larger strata win ties, then key order, so results are stable
+  const ordered = [...populations].sort((a, b) => b.population - a.population || a.key.localeCompare(b.key));
+
+  const fill = (caps: Map<string, number>, target: number, priority: (key: string, population: number) => number) => {
+    let assigned = Array.from(alloc.values()).reduce((sum, v) => sum + v, 0);
+    while (assigned < target) {
+      let best: string | null = null;
+      let bestScore = -Infinity;
+      for (const s of ordered) {
+        const current = alloc.get(s.key)!;
+        if (current >= caps.get(s.key)!) continue;
+        const score = priority(s.key, s.population);
+        if (score > bestScore) {
+          best = s.key;
+          bestScore = score;
+        }
+      }
+      if (best === null) break;
+      alloc.set(best, alloc.get(best)! + 1);
+      assigned++;
+    }
+  };
+
+  const floors = new Map(populations.map((s) => [s.key, Math.min(Math.max(0, minPerStratum), s.population)]));
+  const floorTotal = Array.from(floors.values()).reduce((sum, v) => sum + v, 0);
+  const equalPriority = (key: string) => -alloc.get(key)!;
+
+  if (floorTotal >= n) {
+    fill(floors, n, equalPriority);
+    return alloc;
+  }
+  for (const [key, floor] of floors) alloc.set(key, floor);
+
+  const caps = new Map(populations.map((s) => [s.key, s.population]));
+  if (allocation === 'equal') {
+    fill(caps, n, equalPriority);
+  } else {
+    fill(caps, n, (key, population) => (n * population) / total - alloc.get(key)!);
+  }
+  return alloc;
+};
+
+/**
+ * Stratified sample of `sampleSize` items. `keyOf` names the stratum (blank → "Unknown");
+ * keys are grouped case-insensitively and reported with the first spelling seen.
+ */
+export const stratifiedSampling = <T>(
+  items: T[],
+  keyOf: (item: T) => string | null | undefined,
+  sampleSize: number,
+  options: { allocation: StratumAllocation; minPerStratum?: number; random?: () => number }
+): { sample: T[]; strata: StratumSummary[] } => {
+  const groups = new Map<string, { key: string; items: T[] }>();
+  for (const item of items) {
+    const label = stratumLabel(keyOf(item));
+    const id = label.toLowerCase();
+    const group = groups.get(id) || { key: label, items: [] };
+    group.items.push(item);
+    groups.set(id, group);
+  }
+
+  const populations = Array.from(groups.values()).map((g) => ({ key: g.key, population: g.items.length }));
+  const alloc = allocateStrata(populations, sampleSize, options.allocation, options.minPerStratum ?? 0);
+
+  const sample: T[] = [];
+  const strata: StratumSummary[] = [];
+  for (const group of groups.values()) {
+    const take = alloc.get(group.key) ?? 0;
+    sample.push(...reservoirSampling(group.items, take, options.random));
+    strata.push({ key: group.key, population: group.items.length, sampled: take });
+  }
+  strata.sort((a, b) => b.population - a.population || a.key.localeCompare(b.key));
+
+  return { sample, strata };
+};
@@ -59,6 +59,8 @@ export interface ActivityOverrides {
   territory?: string;
   territoryName?: string;
   state?: string;
+  zoneName?: string;
+  buName?: string;
   dataBatchId?: string;
 }
 
@@ -0,0 +1,28 @@
+/**
+ * In-process mock-ffa-api for suites that sync against it.
+ *
+ * The mock's express/cors imports resolve from backend/node_modules (see `moduleDirectories` in
+ * jest.config.ts), so a backend-only install runs these suites too. If the mock ever needs a package
+ * backend does not have, `startMockFFA` rejects with the resolution error and the suite fails.
+ */
+
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface MockFFA {
+  /** API base URL, e.g. http://127.0.0.1:<port>/api */
+  baseUrl: string;
+  stop: () => Promise<void>;
+}
+
+/** Listen on a free port */
+export const startMockFFA = async (): Promise<MockFFA> => {
+  const { app } = await import('../../../mock-ffa-api/src/server.js');
+  const server = await new Promise<Server>((resolve) => {
+    const s = app.listen(0, () => resolve(s));
+  });
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`,
+    stop: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
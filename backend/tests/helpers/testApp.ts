@@ -15,6 +15,19 @@ import taskRoutes from '../../src/routes/tasks.js';
 import masterDataRoutes from '../../src/routes/masterData.js';
 import samplingRoutes from '../../src/routes/sampling.js';
 import adminRoutes from '../../src/routes/admin.js';
+import inboundRoutes from '../../src/routes/inbound.js';
+import telephonyRoutes from '../../src/routes/telephony.js';
+import presenceRoutes from '../../src/routes/presence.js';
+import liveRoutes from '../../src/routes/live.js';
+import rosterRoutes from '../../src/routes/roster.js';
+import samplingPolicyRoutes from '../../src/routes/samplingPolicies.js';
+import doNotCallRoutes from '../../src/routes/doNotCall.js';
+import jobRoutes from '../../src/routes/jobs.js';
+import reconciliationRoutes from '../../src/routes/reconciliation.js';
+import ingestRoutes from '../../src/routes/ingest.js';
+import farmerMergeRoutes from '../../src/routes/farmerMerge.js';
+import '../../src/services/jobHandlers.js';
+import { keepWebhookRawBody } from '../../src/services/ffaWebhookService.js';
 
 const app = express();
 
@@ -25,7 +38,7 @@ app.use(
     allowedHeaders: ['Content-Type', 'Authorization', 'X-Active-Role'],
   })
 );
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({ limit: '10mb', verify: keepWebhookRawBody }));
 app.use(express.urlencoded({ extended: true }));
 
 // Health check (useful for smoke-testing the test setup itself)
@@ -39,6 +52,17 @@ app.use('/api/tasks', taskRoutes);
 app.use('/api/master-data', masterDataRoutes);
 app.use('/api/sampling', samplingRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/inbound', inboundRoutes);
+app.use('/api/telephony', telephonyRoutes);
+app.use('/api/presence', presenceRoutes);
+app.use('/api/live', liveRoutes);
+app.use('/api/roster', rosterRoutes);
+app.use('/api/sampling-policies', samplingPolicyRoutes);
+app.use('/api/do-not-call', doNotCallRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/reconciliation', reconciliationRoutes);
+app.use('/api/ingest', ingestRoutes);
+app.use('/api/farmer-merge', farmerMergeRoutes);
 
 app.use(notFound);
 app.use(errorHandler);
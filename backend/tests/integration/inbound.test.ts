@@ -0,0 +1,195 @@
+/**
+ * Integration tests for /api/inbound endpoints.
+ *
+ * Covers: farmer lookup by mobile, agent logging, team-lead queue scoping,
+ * Level 1 → Level 2 escalation, resolution timestamps and permission guards.
+ */
+
+import request from 'supertest';
+import app from '../helpers/testApp.js';
+import { InboundQuery } from '../../src/models/InboundQuery.js';
+import { makeFarmer, makeAdmin, makeAgent, makeTeamLead } from '../helpers/factories.js';
+
+// ─── Auth helper ─────────────────────────────────────────────────────────────
+
+const login = async (email: string, password = 'Password1') => {
+  const res = await request(app)
+    .post('/api/auth/login')
+    .send({ email, password });
+  return res.body.data?.token as string;
+};
+
+const logQuery = (token: string, body: Record<string, unknown>) =>
+  request(app)
+    .post('/api/inbound')
+    .set('Authorization', `Bearer ${token}`)
+    .send({ queryType: 'Complaint', category: 'Product quality', description: 'Leaves turning yellow', ...body });
+
+// ─── I0: unauthenticated access ──────────────────────────────────────────────
+
+describe('I0: unauthenticated inbound access', () => {
+  test('GET /api/inbound without token returns 401', async () => {
+    const res = await request(app).get('/api/inbound');
+    expect(res.status).toBe(401);
+  });
+});
+
+// ─── I1: agent logging ───────────────────────────────────────────────────────
+
+describe('I1: agent logs inbound queries', () => {
+  test('farmer lookup normalises +91 prefix and finds the farmer', async () => {
+    const teamLead = await makeTeamLead();
+    const agent = await makeAgent(teamLead._id);
+    const token = await login(agent.email);
+    const farmer = await makeFarmer({ mobileNumber: '9876543210' });
+
+    const res = await request(app)
+      .get('/api/inbound/farmer-lookup')
+      .query({ mobile: '+91 98765-43210' })
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.mobileNumber).toBe('9876543210');
+    expect(String(res.body.data.farmer._id)).toBe(farmer._id.toString());
+  });
+
+  test('query logged by mobile number links to the matching farmer', async () => {
+    const teamLead = await makeTeamLead();
+    const agent = await makeAgent(teamLead._id);
+    const token = await login(agent.email);
+    const farmer = await makeFarmer({ mobileNumber: '9123456780' });
+
+    const res = await logQuery(token, { callerMobile: '09123456780' });
+
+    expect(res.status).toBe(201);
+    const saved = await InboundQuery.findById(res.body.data.query._id);
+    expect(saved?.farmerId?.toString()).toBe(farmer._id.toString());
+    expect(saved?.loggedBy?.toString()).toBe(agent._id.toString());
+    expect(saved?.status).toBe('open');
+    expect(saved?.escalationLevel).toBe('Level 1');
+  });
+
+  test('unknown caller is still recorded against callerMobile', async () => {
+    const agent = await makeAgent((await makeTeamLead())._id);
+    const token = await login(agent.email);
+
+    const res = await logQuery(token, { callerMobile: '9000000001', callerName: 'Walk-in caller' });
+
+    expect(res.status).toBe(201);
+    const saved = await InboundQuery.findById(res.body.data.query._id);
+    expect(saved?.farmerId).toBeNull();
+    expect(saved?.callerMobile).toBe('9000000001');
+  });
+
+  test('missing farmer and mobile returns 400', async () => {
+    const agent = await makeAgent((await makeTeamLead())._id);
+    const token = await login(agent.email);
+
+    const res = await logQuery(token, {});
+    expect(res.status).toBe(400);
+  });
+
+  test('logging as resolved stamps resolvedAt', async () => {
+    const agent = await makeAgent((await makeTeamLead())._id);
+    const token = await login(agent.email);
+
+    const res = await logQuery(token, { callerMobile: '9000000002', status: 'resolved' });
+
+    expect(res.status).toBe(201);
+    const saved = await InboundQuery.findById(res.body.data.query._id);
+    expect(saved?.status).toBe('resolved');
+    expect(saved?.resolvedAt).toBeInstanceOf(Date);
+  });
+});
+
+// ─── I2: team-lead queue ─────────────────────────────────────────────────────
+
+describe('I2: team-lead queue scoping and escalation', () => {
+  test('team lead sees only queries from their own team', async () => {
+    const teamLead = await makeTeamLead();
+    const otherLead = await makeTeamLead();
+    const agent = await makeAgent(teamLead._id);
+    const otherAgent = await makeAgent(otherLead._id);
+
+    await logQuery(await login(agent.email), { callerMobile: '9000000003' });
+    await logQuery(await login(otherAgent.email), { callerMobile: '9000000004' });
+
+    const res = await request(app)
+      .get('/api/inbound')
+      .set('Authorization', `Bearer ${await login(teamLead.email)}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.queries).toHaveLength(1);
+    expect(res.body.data.queries[0].callerMobile).toBe('9000000003');
+    expect(res.body.data.stats.open).toBe(1);
+  });
+
+  test('agent cannot read the team queue', async () => {
+    const agent = await makeAgent((await makeTeamLead())._id);
+    const res = await request(app)
+      .get('/api/inbound')
+      .set('Authorization', `Bearer ${await login(agent.email)}`);
+    expect(res.status).toBe(403);
+  });
+
+  test('escalation moves Level 1 → Level 2 and assigns to the team lead', async () => {
+    const teamLead = await makeTeamLead();
+    const agent = await makeAgent(teamLead._id);
+    const created = await logQuery(await login(agent.email), { callerMobile: '9000000005' });
+    const id = created.body.data.query._id;
+
+    const res = await request(app)
+      .post(`/api/inbound/${id}/escalate`)
+      .set('Authorization', `Bearer ${await login(teamLead.email)}`)
+      .send({ reason: 'Crop loss claim' });
+
+    expect(res.status).toBe(200);
+    const saved = await InboundQuery.findById(id);
+    expect(saved?.escalationLevel).toBe('Level 2');
+    expect(saved?.status).toBe('escalated');
+    expect(saved?.escalatedAt).toBeInstanceOf(Date);
+    expect(saved?.assignedTo?.toString()).toBe(teamLead._id.toString());
+
+    const again = await request(app)
+      .post(`/api/inbound/${id}/escalate`)
+      .set('Authorization', `Bearer ${await login(teamLead.email)}`)
+      .send({});
+    expect(again.status).toBe(400);
+  });
+
+  test('team lead cannot escalate another team\'s query', async () => {
+    const teamLead = await makeTeamLead();
+    const otherAgent = await makeAgent((await makeTeamLead())._id);
+    const created = await logQuery(await login(otherAgent.email), { callerMobile: '9000000006' });
+
+    const res = await request(app)
+      .post(`/api/inbound/${created.body.data.query._id}/escalate`)
+      .set('Authorization', `Bearer ${await login(teamLead.email)}`)
+      .send({});
+    expect(res.status).toBe(404);
+  });
+
+  test('resolve sets resolvedAt; reopening clears it', async () => {
+    const admin = await makeAdmin();
+    const agent = await makeAgent((await makeTeamLead())._id);
+    const agentToken = await login(agent.email);
+    const created = await logQuery(agentToken, { callerMobile: '9000000007' });
+    const id = created.body.data.query._id;
+
+    const resolved = await request(app)
+      .post(`/api/inbound/${id}/resolve`)
+      .set('Authorization', `Bearer ${agentToken}`)
+      .send({ resolutionNotes: 'Advised dosage' });
+    expect(resolved.status).toBe(200);
+    expect((await InboundQuery.findById(id))?.resolvedAt).toBeInstanceOf(Date);
+
+    const reopened = await request(app)
+      .put(`/api/inbound/${id}`)
+      .set('Authorization', `Bearer ${await login(admin.email)}`)
+      .send({ status: 'in_progress' });
+    expect(reopened.status).toBe(200);
+    const saved = await InboundQuery.findById(id);
+    expect(saved?.status).toBe('in_progress');
+    expect(saved?.resolvedAt ?? null).toBeNull();
+  });
+});
@@ -2,7 +2,7 @@
  * Integration tests for /api/tasks endpoints.
  *
  * Covers: task state machine, submit outcomes, mark-in-progress guard,
- * invalid_number reassignment, and unauthenticated access.
+ * invalid_number reassignment, call attempt history, and unauthenticated access.
  */
 
 import request from 'supertest';
@@ -354,3 +354,62 @@ describe('T9: agent can load terminal tasks for follow-up', () => {
     expect(res.body.success).toBe(true);
   });
 });
+
+// ─── T10: resubmission appends call attempts ─────────────────────────────────
+
+describe('T10: call attempts are append-only', () => {
+  test('second submit keeps attempt 1 and mirrors the latest in callLog', async () => {
+    const teamLead = await makeTeamLead();
+    const agent = await makeAgent(teamLead._id);
+    const token = await login(agent.email);
+
+    const farmer = await makeFarmer();
+    const activity = await makeActivity([farmer._id]);
+    const task = await makeTask(farmer._id, activity._id, {
+      status: 'sampled_in_queue',
+      assignedAgentId: agent._id,
+    });
+
+    await request(app)
+      .post(`/api/tasks/${task._id}/submit`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ callStatus: 'No Answer' });
+    const res = await request(app)
+      .post(`/api/tasks/${task._id}/submit`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ callStatus: 'Connected', callDurationSeconds: 95, sentiment: 'Positive' });
+
+    expect(res.status).toBe(200);
+    const updated = await CallTask.findById(task._id);
+    expect(updated?.callAttempts).toHaveLength(2);
+    expect(updated?.callAttempts[0]).toMatchObject({ attemptNumber: 1, callStatus: 'No Answer', resultingStatus: 'not_reachable' });
+    expect(updated?.callAttempts[1]).toMatchObject({ attemptNumber: 2, callStatus: 'Connected', callDurationSeconds: 95 });
+    expect(updated?.callAttempts[1].agentId?.toString()).toBe(agent._id.toString());
+    expect(updated?.callLog?.callStatus).toBe('Connected');
+  });
+
+  test('legacy callLog without attempts becomes attempt 1 on resubmit', async () => {
+    const teamLead = await makeTeamLead();
+    const agent = await makeAgent(teamLead._id);
+    const token = await login(agent.email);
+
+    const farmer = await makeFarmer();
+    const activity = await makeActivity([farmer._id]);
+    const task = await makeTask(farmer._id, activity._id, {
+      status: 'not_reachable',
+      assignedAgentId: agent._id,
+    });
+    await CallTask.updateOne(
+      { _id: task._id },
+      { $set: { callLog: { timestamp: new Date(), callStatus: 'Disconnected', didAttend: null, didRecall: null } } }
+    );
+
+    await request(app)
+      .post(`/api/tasks/${task._id}/submit`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ callStatus: 'Connected' });
+
+    const updated = await CallTask.findById(task._id);
+    expect(updated?.callAttempts.map((a) => a.callStatus)).toEqual(['Disconnected', 'Connected']);
+  });
+});
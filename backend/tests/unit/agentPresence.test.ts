@@ -0,0 +1,81 @@
+import { AgentPresence } from '../../src/models/AgentPresence.js';
+import {
+  PRESENCE_STALE_MS,
+  getEffectiveState,
+  setAgentState,
+  setOwnAvailability,
+  markAgentOnCall,
+  markAgentWrapUp,
+  updateDialerSettings,
+  getTeamPresence,
+} from '../../src/services/agentPresenceService.js';
+import { makeFarmer, makeActivity, makeAgent, makeTeamLead, makeAdmin, makeTask } from '../helpers/factories.js';
+
+describe('AP1: effective state', () => {
+  const now = new Date(Date.UTC(2026, 0, 1, 6, 0, 0));
+
+  test('a stale heartbeat reads as offline', () => {
+    const lastSeenAt = new Date(now.getTime() - PRESENCE_STALE_MS - 1000);
+    expect(getEffectiveState({ state: 'on_call', lastSeenAt, wrapUpEndsAt: null }, now)).toBe('offline');
+    expect(getEffectiveState(null, now)).toBe('offline');
+  });
+
+  test('wrap-up reads as available once it has elapsed', () => {
+    const base = { state: 'wrap_up' as const, lastSeenAt: now };
+    expect(getEffectiveState({ ...base, wrapUpEndsAt: new Date(now.getTime() + 5000) }, now)).toBe('wrap_up');
+    expect(getEffectiveState({ ...base, wrapUpEndsAt: new Date(now.getTime() - 1) }, now)).toBe('available');
+  });
+});
+
+describe('AP2: state changes', () => {
+  test('submit starts wrap-up for the configured time and clears the task', async () => {
+    const teamLead = await makeTeamLead();
+    const agent = await makeAgent(teamLead._id);
+    const farmer = await makeFarmer();
+    const activity = await makeActivity([farmer._id]);
+    const task = await makeTask(farmer._id, activity._id, { assignedAgentId: agent._id });
+    await updateDialerSettings({ wrapUpSeconds: 45 }, teamLead._id.toString());
+
+    await markAgentOnCall(agent._id.toString(), task._id);
+    const presence = await markAgentWrapUp(agent._id.toString());
+
+    expect(presence.state).toBe('wrap_up');
+    expect(presence.currentTaskId).toBeNull();
+    expect(presence.wrapUpEndsAt!.getTime() - presence.stateSince.getTime()).toBe(45000);
+  });
+
+  test('a break needs a configured reason and cannot start mid-call', async () => {
+    const teamLead = await makeTeamLead();
+    const agent = await makeAgent(teamLead._id);
+    const agentId = agent._id.toString();
+
+    await expect(setOwnAvailability(agentId, 'break', 'Nap')).rejects.toMatchObject({ statusCode: 400 });
+    const onBreak = await setOwnAvailability(agentId, 'break', 'Lunch');
+    expect(onBreak.breakReason).toBe('Lunch');
+
+    await setAgentState(agentId, 'on_call');
+    await expect(setOwnAvailability(agentId, 'available')).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
+
+describe('AP3: team view', () => {
+  test('team lead sees only their agents; MIS Admin sees everyone', async () => {
+    const leadA = await makeTeamLead();
+    const leadB = await makeTeamLead();
+    const mine = await makeAgent(leadA._id);
+    const other = await makeAgent(leadB._id);
+    const admin = await makeAdmin();
+
+    await setAgentState(mine._id.toString(), 'available');
+    await setAgentState(other._id.toString(), 'break', { breakReason: 'Tea' });
+    await AgentPresence.updateOne({ agentId: other._id }, { $set: { lastSeenAt: new Date(Date.now() - PRESENCE_STALE_MS * 2) } });
+
+    const team = await getTeamPresence(leadA);
+    expect(team.agents.map((a) => a.agentId)).toEqual([mine._id.toString()]);
+    expect(team.summary.available).toBe(1);
+
+    const all = await getTeamPresence(admin);
+    expect(all.agents).toHaveLength(2);
+    expect(all.summary.offline).toBe(1);
+  });
+});
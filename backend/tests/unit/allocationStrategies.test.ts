@@ -0,0 +1,62 @@
+import { createAllocator, getProficiency, AllocationStrategyName } from '../../src/services/allocationStrategies.js';
+import type { AgentAvailabilityInfo } from '../../src/services/rosterService.js';
+
+const info = (agentId: string, remainingCapacity: number, queuedTasks = 0): AgentAvailabilityInfo => ({
+  agentId,
+  hasRoster: true,
+  onShift: true,
+  offReason: null,
+  leaveReason: null,
+  shift: null,
+  dailyCapacity: remainingCapacity + queuedTasks,
+  openTasks: queuedTasks,
+  queuedTasks,
+  remainingCapacity,
+});
+
+const run = (
+  strategy: AllocationStrategyName,
+  availability: AgentAvailabilityInfo[],
+  candidates: Array<{ _id: string; languageProficiency?: Record<string, number>; assignedTerritories?: string[] }>,
+  tasks: Array<{ farmerLanguage: string; territory?: string }>
+) => {
+  const allocator = createAllocator(strategy, new Map(availability.map((a) => [a.agentId, a])));
+  return tasks.map((t) => allocator.pick(t, candidates)?._id ?? null);
+};
+
+const hindi = (n: number, territory?: string) => Array.from({ length: n }, () => ({ farmerLanguage: 'Hindi', territory }));
+
+describe('AS1: allocation strategies', () => {
+  const agents = [{ _id: 'a' }, { _id: 'b' }];
+
+  test('capacity: most room first, ties to whoever has had fewer, nothing once all are full', () => {
+    expect(run('capacity', [info('a', 3), info('b', 1)], agents, hindi(5))).toEqual(['a', 'a', 'b', 'a', null]);
+  });
+
+  test('round-robin alternates and skips agents who are full', () => {
+    expect(run('round_robin', [info('a', 1), info('b', 5)], agents, hindi(4))).toEqual(['a', 'b', 'b', 'b']);
+  });
+
+  test('least loaded fills the shorter queue first', () => {
+    expect(run('least_loaded', [info('a', 10, 3), info('b', 10, 0)], agents, hindi(5))).toEqual(['b', 'b', 'b', 'a', 'b']);
+  });
+
+  test('proficiency splits tasks in proportion to the score', () => {
+    const scored = [
+      { _id: 'a', languageProficiency: { Hindi: 4 } },
+      { _id: 'b', languageProficiency: { Hindi: 2 } },
+    ];
+    const picks = run('proficiency', [info('a', 100), info('b', 100)], scored, hindi(6));
+    expect(picks.filter((p) => p === 'a')).toHaveLength(4);
+    expect(picks.filter((p) => p === 'b')).toHaveLength(2);
+    expect(getProficiency({ _id: 'x' }, 'Hindi')).toBe(3);
+  });
+
+  test('territory affinity prefers local agents until they are full', () => {
+    const territorial = [
+      { _id: 'a', assignedTerritories: ['Nashik'] },
+      { _id: 'b', assignedTerritories: [] },
+    ];
+    expect(run('territory', [info('a', 2), info('b', 50)], territorial, hindi(3, 'nashik'))).toEqual(['a', 'a', 'b']);
+  });
+});
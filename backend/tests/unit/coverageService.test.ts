@@ -0,0 +1,80 @@
+import { coverageWindow, getCoverageReport, topUpOfficerCoverage } from '../../src/services/coverageService.js';
+import { CallTask } from '../../src/models/CallTask.js';
+import { CoolingPeriod } from '../../src/models/CoolingPeriod.js';
+import { SamplingAudit } from '../../src/models/SamplingAudit.js';
+import { SamplingConfig } from '../../src/models/SamplingConfig.js';
+import { makeFarmers, makeActivity, makeTask, putInCooling } from '../helpers/factories.js';
+
+beforeEach(async () => {
+  await SamplingConfig.findOneAndUpdate(
+    { key: 'default' },
+    {
+      isActive: true,
+      activityCoolingDays: 5,
+      farmerCoolingDays: 30,
+      defaultPercentage: 10,
+      eligibleActivityTypes: [],
+      coverage: { enabled: true, officerLevel: 'fda', minValidationsPerOfficer: 3, period: 'month' },
+    },
+    { upsert: true, new: true }
+  );
+});
+
+describe('CV1: coverage periods', () => {
+  test('months and Monday-start weeks follow the IST calendar', () => {
+    // 01:30 IST on 1 April
+    const month = coverageWindow('month', new Date('2026-03-31T20:00:00Z'));
+    expect(month.label).toBe('2026-04');
+    expect(month.start.toISOString()).toBe('2026-03-31T18:30:00.000Z');
+    expect(month.end.toISOString()).toBe('2026-04-30T18:29:59.999Z');
+
+    // Wednesday 21 October
+    const week = coverageWindow('week', new Date('2026-10-21T06:00:00Z'));
+    expect(week.label).toBe('Week of 2026-10-19');
+    expect(week.start.toISOString()).toBe('2026-10-18T18:30:00.000Z');
+    expect(week.end.toISOString()).toBe('2026-10-25T18:29:59.999Z');
+  });
+});
+
+describe('CV2: officer coverage report and top-up', () => {
+  test('tops up officers below target and reports those that cannot be covered', async () => {
+    const now = new Date();
+    const [aFarmers, bFarmers, cFarmers] = await Promise.all([makeFarmers(10), makeFarmers(4), makeFarmers(2)]);
+    const a = await makeActivity(aFarmers.map((f) => f._id), { officerId: 'FDA-A', officerName: 'Asha', date: now, lifecycleStatus: 'sampled' });
+    const b = await makeActivity(bFarmers.map((f) => f._id), { officerId: 'FDA-B', officerName: 'Bala', date: now, lifecycleStatus: 'sampled' });
+    await makeActivity(cFarmers.map((f) => f._id), { officerId: 'FDA-C', officerName: 'Chitra', date: now, lifecycleStatus: 'sampled' });
+    await SamplingAudit.create({ activityId: a._id, samplingPercentage: 10, totalFarmers: 10, sampledCount: 3, metadata: {} });
+
+    await makeTask(aFarmers[0]._id, a._id, { status: 'completed' });
+    await makeTask(aFarmers[1]._id, a._id, { status: 'sampled_in_queue' });
+    await makeTask(aFarmers[2]._id, a._id, { status: 'not_reachable' });
+    for (const f of bFarmers) await makeTask(f._id, b._id, { status: 'completed' });
+    for (const f of cFarmers) await putInCooling(f._id);
+
+    const report = await getCoverageReport({ belowTargetOnly: true });
+    expect(report.totals).toMatchObject({ officers: 3, belowTarget: 2 });
+    expect(report.officers.map((o) => [o.officerKey, o.completed, o.pending, o.shortfall, o.toTopUp])).toEqual([
+      ['FDA-C', 0, 0, 3, 3],
+      ['FDA-A', 1, 1, 2, 1],
+    ]);
+
+    const summary = await topUpOfficerCoverage({ seed: 'cov-test', scheduledDate: now });
+    expect(summary).toMatchObject({ officersBelowTarget: 2, officersToppedUp: 1, tasksCreated: 1, officersStillShort: 1 });
+
+    const topUpTask = await CallTask.findOne({ activityId: a._id, farmerId: { $nin: aFarmers.slice(0, 3).map((f) => f._id) } });
+    expect(topUpTask).not.toBeNull();
+    expect(await CoolingPeriod.countDocuments({ farmerId: topUpTask!.farmerId })).toBe(1);
+    const audit = await SamplingAudit.findOne({ activityId: a._id }).lean();
+    expect(audit!.metadata.coverageTopUps).toEqual([
+      expect.objectContaining({ officerKey: 'FDA-A', farmerIds: [topUpTask!.farmerId.toString()] }),
+    ]);
+
+    // Pending tasks now cover the shortfall, so a second top-up adds nothing
+    await expect(topUpOfficerCoverage({ seed: 'cov-test-2', scheduledDate: now })).resolves.toMatchObject({ tasksCreated: 0 });
+  });
+
+  test('does nothing when coverage is disabled', async () => {
+    await SamplingConfig.updateOne({ key: 'default' }, { $set: { 'coverage.enabled': false } });
+    await expect(topUpOfficerCoverage({ seed: 'x', scheduledDate: new Date() })).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+import {
+  getDoNotCallCounts,
+  importDoNotCallRows,
+  recordDoNotCall,
+  revokeDoNotCall,
+} from '../../src/services/doNotCallService.js';
+import { getEligibleFarmers } from '../../src/services/samplingService.js';
+import { executeAllocationRun } from '../../src/services/allocationRunService.js';
+import { AllocationRun } from '../../src/models/AllocationRun.js';
+import { CallTask } from '../../src/models/CallTask.js';
+import { DoNotCall } from '../../src/models/DoNotCall.js';
+import { makeFarmers, makeActivity, makeTask, makeTeamLead, makeAgent } from '../helpers/factories.js';
+
+describe('DNC1: registry entries and sampling eligibility', () => {
+  test('active entries are excluded; expired and revoked ones are not', async () => {
+    const [active, expired, revoked, clear] = await makeFarmers(4);
+    await recordDoNotCall(active._id, { kind: 'no_consent', reason: 'Did not consent', source: 'agent' });
+    await recordDoNotCall(expired._id, { reason: 'Busy season', source: 'import', expiresAt: new Date(Date.now() + 60_000) });
+    await DoNotCall.updateOne({ farmerId: expired._id }, { $set: { expiresAt: new Date(Date.now() - 60_000) } });
+    await recordDoNotCall(revoked._id, { reason: 'Asked not to be called', source: 'ffa' });
+    await revokeDoNotCall(revoked._id.toString(), new mongoose.Types.ObjectId());
+
+    const eligible = await getEligibleFarmers([active, expired, revoked, clear].map((f) => f._id), 30);
+    expect(eligible.map(String).sort()).toEqual([expired, revoked, clear].map((f) => f._id.toString()).sort());
+
+    await expect(getDoNotCallCounts()).resolves.toEqual({
+      total: 1,
+      byKind: { do_not_call: 0, no_consent: 1 },
+      bySource: { agent: 1, import: 0, ffa: 0 },
+    });
+    await expect(recordDoNotCall(clear._id, { reason: '  ', source: 'agent' })).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('DNC2: allocation skips do-not-call farmers', () => {
+  test('tasks sampled before the farmer opted out stay unassigned', async () => {
+    const lead = await makeTeamLead();
+    const agent = await makeAgent(lead._id);
+    const farmers = await makeFarmers(3);
+    const activity = await makeActivity(farmers.map((f) => f._id));
+    const tasks = await Promise.all(farmers.map((f) => makeTask(f._id, activity._id)));
+    await recordDoNotCall(farmers[1]._id, { reason: 'Asked not to be called', source: 'agent' });
+
+    const run = await AllocationRun.create({
+      createdByUserId: lead._id,
+      status: 'running',
+      total: tasks.length,
+      filters: { language: 'Hindi' },
+      plan: tasks.map((t) => ({ taskId: t._id, farmerLanguage: 'Hindi' })),
+    });
+    const outcome = await executeAllocationRun(run._id);
+
+    expect(outcome).toMatchObject({ status: 'completed', processed: 3, allocated: 2, skipped: 1, skippedDoNotCall: 1 });
+    const blocked = await CallTask.findById(tasks[1]._id).lean();
+    expect(blocked).toMatchObject({ status: 'unassigned', assignedAgentId: null });
+    expect(await CallTask.countDocuments({ assignedAgentId: agent._id })).toBe(2);
+    expect((await AllocationRun.findById(run._id).lean())?.skippedDoNotCall).toBe(1);
+  });
+
+  test("recording an entry parks the farmer's queued, uncalled tasks but not the one being submitted", async () => {
+    const lead = await makeTeamLead();
+    const agent = await makeAgent(lead._id);
+    const [farmer] = await makeFarmers(1);
+    const [first, second, third] = await Promise.all([1, 2, 3].map(() => makeActivity([farmer._id])));
+    const queued = await makeTask(farmer._id, first._id, { status: 'sampled_in_queue', assignedAgentId: agent._id });
+    const submitting = await makeTask(farmer._id, second._id, { status: 'sampled_in_queue', assignedAgentId: agent._id });
+    const working = await makeTask(farmer._id, third._id, { status: 'in_progress', assignedAgentId: agent._id });
+
+    await recordDoNotCall(farmer._id, { reason: 'Asked not to be called', source: 'agent', taskId: submitting._id });
+
+    expect(await CallTask.findById(queued._id).lean()).toMatchObject({ status: 'unassigned', assignedAgentId: null });
+    expect(await CallTask.findById(submitting._id).lean()).toMatchObject({ status: 'sampled_in_queue', assignedAgentId: agent._id });
+    expect(await CallTask.findById(working._id).lean()).toMatchObject({ status: 'in_progress' });
+  });
+});
+
+describe('DNC3: bulk import', () => {
+  test('rows are matched by mobile number and bad rows are reported', async () => {
+    const [farmer] = await makeFarmers(1);
+    const result = await importDoNotCallRows(
+      [
+        { 'Mobile Number': `+91 ${farmer.mobileNumber}`, Type: 'No Consent', Reason: 'Consent withdrawn', 'Expires On': '2099-01-31' },
+        { 'Mobile Number': '9999999999', Type: 'do_not_call', Reason: 'x' },
+        { 'Mobile Number': '12345', Type: 'do_not_call', Reason: 'x' },
+      ],
+      new mongoose.Types.ObjectId()
+    );
+
+    expect(result).toMatchObject({ totalRows: 3, recorded: 1 });
+    expect(result.errors.map((e) => e.row)).toEqual([3, 4]);
+    const entry = await DoNotCall.findOne({ farmerId: farmer._id }).lean();
+    expect(entry).toMatchObject({ kind: 'no_consent', source: 'import', mobileNumber: farmer.mobileNumber });
+    expect(entry?.expiresAt?.getFullYear()).toBe(2099);
+  });
+});
@@ -1,14 +1,17 @@
 /**
  * Unit tests for excelImport service.
  *
- * The import job runs as a background async task. Each test must wait for
- * `getImportExcelProgress().running` to become false before asserting.
+ * The import runs as an excel_import job, started by this process's worker as soon as it is
+ * queued. Each test must wait for `(await getImportExcelProgress()).running` to become false
+ * before asserting.
  */
 
 import * as XLSX from 'xlsx';
 import { startImportExcelJob, getImportExcelProgress } from '../../src/services/excelImport.js';
 import { Activity } from '../../src/models/Activity.js';
 import { Farmer } from '../../src/models/Farmer.js';
+import { QuarantinedRecord } from '../../src/models/QuarantinedRecord.js';
+import { Job } from '../../src/models/Job.js';
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -16,7 +19,7 @@ import { Farmer } from '../../src/models/Farmer.js';
 const waitForJob = async (maxMs = 10_000): Promise<void> => {
   const deadline = Date.now() + maxMs;
   while (Date.now() < deadline) {
-    if (!getImportExcelProgress().running) return;
+    if (!(await getImportExcelProgress()).running) return;
     await new Promise((r) => setTimeout(r, 50));
   }
   throw new Error('Excel import job timed out');
@@ -83,7 +86,7 @@ describe('EX0: missing required sheets', () => {
     await startImportExcelJob(buffer);
     await waitForJob();
 
-    const p = getImportExcelProgress();
+    const p = await getImportExcelProgress();
     expect(p.running).toBe(false);
     // Job should have recorded an error rather than processing
     expect(p.errorCount).toBeGreaterThanOrEqual(0);
@@ -154,7 +157,7 @@ describe('EX2: concurrent import is blocked', () => {
     }
 
     await waitForJob();
-    const p = getImportExcelProgress();
+    const p = await getImportExcelProgress();
     expect(p.running).toBe(false);
   });
 });
@@ -173,7 +176,7 @@ describe('EX3: mobile number validation', () => {
     await startImportExcelJob(buf);
     await waitForJob();
 
-    const p = getImportExcelProgress();
+    const p = await getImportExcelProgress();
     expect(p.lastResult?.errorsCount).toBeGreaterThan(0);
     expect(p.lastResult?.errors.some((e) => /invalid mobile number/i.test(e.message))).toBe(true);
 
@@ -192,7 +195,7 @@ describe('EX3: mobile number validation', () => {
     await startImportExcelJob(buf);
     await waitForJob();
 
-    const p = getImportExcelProgress();
+    const p = await getImportExcelProgress();
     expect(p.lastResult?.errorsCount).toBeGreaterThan(0);
 
     const farmer = await Farmer.findOne({ mobileNumber: '91234567890' });
@@ -279,18 +282,18 @@ describe('EX7: unknown state falls back to English language', () => {
 // ─── EX8: activity with missing required fields logs error ───────────────────
 
 describe('EX8: activity row missing required fields', () => {
-  test('activity without state produces a row error but does not abort job', async () => {
+  test('activity without officerId produces a row error but does not abort job', async () => {
     await waitForJob();
 
     const buf = buildWorkbook(
-      [{ ...defaultActivity('ACT-EX8-001'), state: '' }],
+      [{ ...defaultActivity('ACT-EX8-001'), officerId: '' }],
       [defaultFarmer('ACT-EX8-001', '9400000001')]
     );
 
     await startImportExcelJob(buf);
     await waitForJob();
 
-    const p = getImportExcelProgress();
+    const p = await getImportExcelProgress();
     expect(p.running).toBe(false);
     expect(p.lastResult?.errorsCount).toBeGreaterThan(0);
 
@@ -298,6 +301,27 @@ describe('EX8: activity row missing required fields', () => {
     const activity = await Activity.findOne({ activityId: 'ACT-EX8-001' });
     expect(activity).toBeNull();
   });
+
+  test('activity without state is quarantined for review, not saved', async () => {
+    await waitForJob();
+
+    const buf = buildWorkbook(
+      [{ ...defaultActivity('ACT-EX8-002'), state: '' }],
+      [defaultFarmer('ACT-EX8-002', '9400000002')]
+    );
+
+    await startImportExcelJob(buf);
+    await waitForJob();
+
+    const p = await getImportExcelProgress();
+    expect(p.lastResult?.quarantined).toBe(1);
+    expect(await Activity.findOne({ activityId: 'ACT-EX8-002' })).toBeNull();
+    expect(await Farmer.findOne({ mobileNumber: '9400000002' })).toBeNull();
+
+    const record = await QuarantinedRecord.findOne({ activityId: 'ACT-EX8-002' }).lean();
+    expect(record).toMatchObject({ status: 'pending', source: 'excel_import', rowRef: 'Activities row 2' });
+    expect(record?.issues.map((i) => i.rule)).toEqual(['activity_missing_state']);
+  });
 });
 
 // ─── EX9: deduplication of same mobile in one activity ───────────────────────
@@ -321,3 +345,31 @@ describe('EX9: duplicate mobile within one activity is deduped', () => {
     expect(count).toBe(1);
   });
 });
+
+// ─── EX10: failed import keeps its row errors ────────────────────────────────
+
+describe('EX10: an import that fails outright still reports the row errors found before', () => {
+  test('collected row errors come first, then the fatal error', async () => {
+    await waitForJob();
+    const now = new Date();
+    await Job.create({
+      type: 'excel_import',
+      status: 'failed',
+      attempts: 1,
+      startedAt: now,
+      finishedAt: now,
+      lastError: 'Connection to the database was lost',
+      result: { errorsCount: 1, errors: [{ sheet: 'Farmers', row: 4, message: 'Missing activityId' }] },
+    });
+
+    const p = await getImportExcelProgress();
+    expect(p.message).toBe('Excel import failed');
+    expect(p.lastResult).toMatchObject({
+      errorsCount: 2,
+      errors: [
+        { sheet: 'Farmers', row: 4, message: 'Missing activityId' },
+        { sheet: 'Activities', row: 0, message: 'Connection to the database was lost' },
+      ],
+    });
+  });
+});
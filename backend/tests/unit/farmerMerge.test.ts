@@ -0,0 +1,194 @@
+import mongoose from 'mongoose';
+import {
+  findDuplicateCandidates,
+  listFarmerMerges,
+  mergeFarmers,
+  nameSimilarity,
+  undoFarmerMerge,
+} from '../../src/services/farmerMergeService.js';
+import { syncActivity, type FFAActivity } from '../../src/services/ffaSync.js';
+import { sampleAndCreateTasks, verifySamplingAudit } from '../../src/services/samplingService.js';
+import { Activity } from '../../src/models/Activity.js';
+import { CallTask } from '../../src/models/CallTask.js';
+import { CoolingPeriod } from '../../src/models/CoolingPeriod.js';
+import { Farmer } from '../../src/models/Farmer.js';
+import { FarmerMerge } from '../../src/models/FarmerMerge.js';
+import { makeActivity, makeFarmer, makeFarmers, makeTask, putInCooling } from '../helpers/factories.js';
+
+const ids = (list: mongoose.Types.ObjectId[] = []) => list.map(String).sort();
+
+describe('FM1: duplicate candidates', () => {
+  test('a typo in the number and a respelt name score high; a namesake on an unrelated number does not', async () => {
+    const sunita = await makeFarmer({ name: 'Sunita Patil', mobileNumber: '9812345678', location: 'Sinnar' });
+    const typo = await makeFarmer({ name: 'Sunitha Patil', mobileNumber: '9812345687', location: 'Sinnar' });
+    await makeFarmer({ name: 'Sunita Patil', mobileNumber: '9700000001', location: 'Sinnar' });
+    await makeFarmer({ name: 'Anil More', mobileNumber: '9812345679', location: 'Niphad' });
+
+    expect(nameSimilarity('Patil Sunita', 'sunita  PATIL')).toBe(1);
+
+    const { items } = await findDuplicateCandidates();
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ mobileDistance: 1, locationScore: 1 });
+    expect(items[0].score).toBeGreaterThan(0.9);
+    expect(ids(items[0].farmers.map((f) => f._id))).toEqual(ids([sunita._id, typo._id]));
+
+    // Lowering the threshold surfaces the namesake pair (same name and village, different phone)
+    const loose = await findDuplicateCandidates({ minScore: 0.6 });
+    expect(loose.items.length).toBeGreaterThan(1);
+  });
+});
+
+describe('FM2: merge and undo', () => {
+  test('repoints activities, tasks and cooling, drops the uncalled clashing task, and undo restores it all', async () => {
+    const survivor = await makeFarmer({ name: 'Sunita Patil', mobileNumber: '9812345678' });
+    const duplicate = await makeFarmer({ name: 'Sunitha Patil', mobileNumber: '9812345687' });
+    const shared = await makeActivity([survivor._id, duplicate._id]);
+    const own = await makeActivity([duplicate._id]);
+
+    await makeTask(survivor._id, shared._id, { status: 'completed' });
+    const clashing = await makeTask(duplicate._id, shared._id);
+    const moved = await makeTask(duplicate._id, own._id, { status: 'in_progress' });
+    await putInCooling(survivor._id, 20);
+    await putInCooling(duplicate._id, 2);
+
+    const merge = await mergeFarmers(survivor._id.toString(), duplicate._id.toString(), null, 'Same person');
+    expect(merge).toMatchObject({ status: 'applied', merged: { mobileNumber: '9812345687' } });
+
+    expect(ids((await Activity.findById(shared._id).lean())?.farmerIds)).toEqual(ids([survivor._id]));
+    expect(ids((await Activity.findById(own._id).lean())?.farmerIds)).toEqual(ids([survivor._id]));
+    expect(await CallTask.exists({ _id: clashing._id })).toBeNull();
+    expect((await CallTask.findById(moved._id).lean())?.farmerId.toString()).toBe(survivor._id.toString());
+    // The duplicate's later cooling expiry is the one kept
+    const cooling = await CoolingPeriod.find().lean();
+    expect(cooling).toHaveLength(1);
+    expect(cooling[0].farmerId.toString()).toBe(survivor._id.toString());
+    expect((await Farmer.findById(duplicate._id).lean())?.mergedIntoFarmerId?.toString()).toBe(survivor._id.toString());
+
+    await expect(mergeFarmers(survivor._id.toString(), duplicate._id.toString(), null)).rejects.toMatchObject({ statusCode: 409 });
+
+    const undone = await undoFarmerMerge(merge._id.toString(), new mongoose.Types.ObjectId());
+    expect(undone).toMatchObject({ status: 'undone', undoConflicts: [] });
+    expect(ids((await Activity.findById(shared._id).lean())?.farmerIds)).toEqual(ids([survivor._id, duplicate._id]));
+    expect(ids((await Activity.findById(own._id).lean())?.farmerIds)).toEqual(ids([duplicate._id]));
+    expect((await CallTask.findById(clashing._id).lean())?.farmerId.toString()).toBe(duplicate._id.toString());
+    expect((await CallTask.findById(moved._id).lean())?.farmerId.toString()).toBe(duplicate._id.toString());
+    expect(ids((await CoolingPeriod.find().lean()).map((c) => c.farmerId))).toEqual(ids([survivor._id, duplicate._id]));
+    expect((await Farmer.findById(duplicate._id).lean())?.mergedIntoFarmerId).toBeNull();
+    expect((await listFarmerMerges()).counts).toEqual({ applied: 0, undone: 1 });
+  });
+
+  test('refuses when both farmers have a worked task for the same activity', async () => {
+    const a = await makeFarmer();
+    const b = await makeFarmer();
+    const activity = await makeActivity([a._id, b._id]);
+    await makeTask(a._id, activity._id, { status: 'completed' });
+    await makeTask(b._id, activity._id, { status: 'in_progress' });
+
+    await expect(mergeFarmers(a._id.toString(), b._id.toString(), null)).rejects.toMatchObject({ statusCode: 409 });
+    expect(ids((await Activity.findById(activity._id).lean())?.farmerIds)).toEqual(ids([a._id, b._id]));
+    expect(await Farmer.exists({ mergedIntoFarmerId: { $ne: null } })).toBeNull();
+  });
+
+  test('a later sync of the duplicate number links the survivor', async () => {
+    const survivor = await makeFarmer({ mobileNumber: '9812345678' });
+    const duplicate = await makeFarmer({ mobileNumber: '9812345687' });
+    await mergeFarmers(survivor._id.toString(), duplicate._id.toString(), null);
+
+    const payload: FFAActivity = {
+      activityId: 'ACT-FM-1',
+      type: 'Field Day',
+      date: '01/10/2026',
+      officerId: 'FDA-1',
+      officerName: 'Ravi Kumar',
+      location: 'Nashik',
+      territory: 'Nashik Tehsil',
+      state: 'Maharashtra',
+      crops: [],
+      products: [],
+      farmers: [
+        { farmerId: 'F-1', name: 'Sunita Patil', mobileNumber: '9812345678', location: 'Nashik' },
+        { farmerId: 'F-2', name: 'Sunitha Patil', mobileNumber: '9812345687', location: 'Nashik' },
+      ],
+    };
+    const activity = await syncActivity(payload, 'sync-1');
+    expect(ids(activity.farmerIds)).toEqual(ids([survivor._id]));
+  });
+});
+
+describe('FM3: sampling audits', () => {
+  test('audit replay still matches after sampled farmers are merged, and after the merges are undone', async () => {
+    const farmers = await makeFarmers(6);
+    const outsider = await makeFarmer();
+    const activity = await makeActivity(farmers.map((f) => f._id));
+    await sampleAndCreateTasks(activity._id.toString(), 100, { forceRun: true });
+    const activityId = activity._id.toString();
+    expect(await verifySamplingAudit(activityId)).toMatchObject({ verifiable: true, matches: true });
+
+    // One into a farmer outside the activity, one into another sampled farmer (its uncalled task is dropped)
+    const intoOutsider = await mergeFarmers(outsider._id.toString(), farmers[0]._id.toString(), null);
+    const intoSampled = await mergeFarmers(farmers[1]._id.toString(), farmers[2]._id.toString(), null);
+    expect(intoSampled.tasksRemoved).toHaveLength(1);
+    expect(await verifySamplingAudit(activityId)).toMatchObject({
+      matches: true,
+      missingTasks: [],
+      unexpectedTasks: [],
+      outsideActivity: [],
+    });
+
+    await undoFarmerMerge(intoSampled._id.toString(), null);
+    await undoFarmerMerge(intoOutsider._id.toString(), null);
+    expect(await verifySamplingAudit(activityId)).toMatchObject({ matches: true });
+  });
+});
+
+describe('FM4: interrupted merges', () => {
+  /** Make one model write fail once, as if the process died there */
+  const failOnce = <T extends object>(model: T, method: keyof T) => {
+    const original = model[method];
+    (model as any)[method] = () => {
+      (model as any)[method] = original;
+      throw new Error('connection lost');
+    };
+  };
+
+  test('retrying the same merge finishes the pending steps', async () => {
+    const survivor = await makeFarmer();
+    const duplicate = await makeFarmer();
+    const activity = await makeActivity([duplicate._id]);
+    const task = await makeTask(duplicate._id, activity._id);
+
+    failOnce(Farmer, 'updateOne');
+    await expect(mergeFarmers(survivor._id.toString(), duplicate._id.toString(), null)).rejects.toThrow('connection lost');
+    const partial = await FarmerMerge.findOne({ mergedId: duplicate._id }).lean();
+    expect(partial?.pendingSteps).toEqual(['farmer']);
+    expect((await CallTask.findById(task._id).lean())?.farmerId.toString()).toBe(survivor._id.toString());
+
+    // Another survivor cannot take the duplicate while that merge is unfinished
+    const other = await makeFarmer();
+    await expect(mergeFarmers(other._id.toString(), duplicate._id.toString(), null)).rejects.toMatchObject({ statusCode: 409 });
+
+    const finished = await mergeFarmers(survivor._id.toString(), duplicate._id.toString(), null);
+    expect(finished._id.toString()).toBe(partial!._id.toString());
+    expect(finished.pendingSteps).toEqual([]);
+    expect((await Farmer.findById(duplicate._id).lean())?.mergedIntoFarmerId?.toString()).toBe(survivor._id.toString());
+  });
+
+  test('undo reverses only the steps the merge got to', async () => {
+    const survivor = await makeFarmer();
+    const duplicate = await makeFarmer();
+    const shared = await makeActivity([survivor._id, duplicate._id]);
+    await makeTask(survivor._id, shared._id, { status: 'completed' });
+    const clashing = await makeTask(duplicate._id, shared._id);
+
+    failOnce(CallTask, 'deleteMany');
+    await expect(mergeFarmers(survivor._id.toString(), duplicate._id.toString(), null)).rejects.toThrow('connection lost');
+    const partial = await FarmerMerge.findOne({ mergedId: duplicate._id }).lean();
+    expect(partial?.pendingSteps).toEqual(['tasks', 'singletons', 'inboundQueries', 'farmer']);
+    expect(ids((await Activity.findById(shared._id).lean())?.farmerIds)).toEqual(ids([survivor._id]));
+
+    const undone = await undoFarmerMerge(partial!._id.toString(), null);
+    expect(undone).toMatchObject({ status: 'undone', pendingSteps: [], undoConflicts: [] });
+    expect(ids((await Activity.findById(shared._id).lean())?.farmerIds)).toEqual(ids([survivor._id, duplicate._id]));
+    expect((await CallTask.findById(clashing._id).lean())?.farmerId.toString()).toBe(duplicate._id.toString());
+  });
+});
@@ -0,0 +1,122 @@
+import axios from 'axios';
+import {
+  backoffDelay,
+  checkScheduledSyncAllowed,
+  fetchActivities,
+  getFFAClientHealth,
+  parseRetryAfter,
+  resetFFACircuit,
+} from '../../src/services/ffaClient.js';
+import { getSyncStatus } from '../../src/services/ffaSync.js';
+import { startMockFFA, type MockFFA } from '../helpers/mockFFA.js';
+
+let mock: MockFFA;
+let baseUrl: string;
+const clientEnv: Record<string, string> = {
+  FFA_PAGE_SIZE: '2',
+  FFA_MAX_RETRIES: '2',
+  FFA_RETRY_BASE_MS: '10',
+  FFA_RETRY_MAX_MS: '2000',
+  FFA_CIRCUIT_THRESHOLD: '3',
+};
+const previousEnv = Object.fromEntries(['FFA_API_URL', ...Object.keys(clientEnv)].map((k) => [k, process.env[k]]));
+
+const useFaults = (scenarios: string[], options: Record<string, number> = {}) =>
+  axios.put(`${baseUrl}/admin/faults`, { scenarios, options });
+
+describe('FFA client helpers', () => {
+  test('Retry-After is read as seconds or as an HTTP date', () => {
+    const now = Date.parse('2026-10-01T10:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Oct 2026 10:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+  });
+
+  test('backoff is a random wait below base * 2^attempt, capped at the max', () => {
+    const config = { retryBaseMs: 100, retryMaxMs: 1000 };
+    for (const [attempt, cap] of [[0, 100], [2, 400], [3, 800], [5, 1000]]) {
+      const delays = Array.from({ length: 200 }, () => backoffDelay(attempt, config));
+      expect(Math.min(...delays)).toBeGreaterThanOrEqual(0);
+      expect(Math.max(...delays)).toBeLessThan(cap);
+      expect(delays.every(Number.isInteger)).toBe(true);
+    }
+  });
+});
+
+describe('FFA client against mock-ffa-api', () => {
+  beforeAll(async () => {
+    mock = await startMockFFA();
+    baseUrl = mock.baseUrl;
+    Object.assign(process.env, clientEnv, { FFA_API_URL: baseUrl });
+  });
+
+  afterAll(async () => {
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    await mock.stop();
+  });
+
+  beforeEach(async () => {
+    await axios.delete(`${baseUrl}/admin/faults`);
+    await axios.put(`${baseUrl}/admin/pagination`, { mode: 'page' });
+    await axios.post(`${baseUrl}/seed`, { activityCount: 5, farmersPerActivity: 1 });
+  });
+
+  describe('FC1: pagination', () => {
+    test('follows page numbers to the last page', async () => {
+      const result = await fetchActivities();
+      expect(result).toMatchObject({ received: 5, expectedTotal: 5, incomplete: false });
+      expect(new Set(result.activities.map((a) => a.activityId)).size).toBe(5);
+      expect(result.summary).toMatchObject({ ok: true, pages: 3, requests: 3, retries: 0 });
+    });
+
+    test('follows nextCursor when FFA pages by cursor', async () => {
+      await axios.put(`${baseUrl}/admin/pagination`, { mode: 'cursor' });
+      const result = await fetchActivities();
+      expect(result.activities).toHaveLength(5);
+      expect(result.summary).toMatchObject({ pages: 3, requests: 3 });
+    });
+  });
+
+  describe('FC2: retries', () => {
+    test('a 429 is waited out for its Retry-After and the fetch completes', async () => {
+      await useFaults(['rate_limit'], { rateLimitBurst: 1, retryAfterSeconds: 1 });
+      const started = Date.now();
+      const result = await fetchActivities();
+      expect(result.activities).toHaveLength(5);
+      expect(result.summary.rateLimited).toBeGreaterThanOrEqual(1);
+      expect(result.summary.retries).toBe(result.summary.rateLimited);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+    });
+  });
+
+  describe('FC3: circuit breaker', () => {
+    test('opens after repeated failed fetches, pauses scheduled syncs, and closes on reset or success', async () => {
+      await useFaults(['server_errors'], { errorRate: 1 });
+      for (let i = 0; i < 3; i++) {
+        await expect(fetchActivities()).rejects.toThrow('FFA API error (503)');
+      }
+
+      const health = await getFFAClientHealth();
+      expect(health.circuit).toMatchObject({ state: 'open', consecutiveFailures: 3 });
+      expect(health.lastFetch).toMatchObject({ ok: false, requests: 3, retries: 2 });
+      expect(await checkScheduledSyncAllowed()).toMatchObject({ allowed: false });
+      expect((await getSyncStatus()).client.circuit.state).toBe('open');
+
+      expect((await resetFFACircuit()).circuit).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+      expect(await checkScheduledSyncAllowed()).toEqual({ allowed: true });
+
+      // Open it again; one good fetch closes it as well
+      for (let i = 0; i < 3; i++) {
+        await expect(fetchActivities()).rejects.toThrow();
+      }
+      await axios.delete(`${baseUrl}/admin/faults`);
+      await fetchActivities();
+      const after = await getFFAClientHealth();
+      expect(after.circuit).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+      expect(after.lastSuccessAt).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import axios from 'axios';
+import { syncFFAData } from '../../src/services/ffaSync.js';
+import { Activity } from '../../src/models/Activity.js';
+import { QuarantinedRecord } from '../../src/models/QuarantinedRecord.js';
+import { startMockFFA, type MockFFA } from '../helpers/mockFFA.js';
+
+let mock: MockFFA;
+let baseUrl: string;
+// Short backoff so retries do not slow the suite down
+const clientEnv: Record<string, string> = { FFA_MAX_RETRIES: '2', FFA_RETRY_BASE_MS: '10', FFA_RETRY_MAX_MS: '2000' };
+const previousEnv = Object.fromEntries(['FFA_API_URL', ...Object.keys(clientEnv)].map((k) => [k, process.env[k]]));
+
+const useFaults = (scenarios: string[], options: Record<string, number> = {}) =>
+  axios.put(`${baseUrl}/admin/faults`, { scenarios, options });
+
+describe('FFA sync against mock-ffa-api fault scenarios', () => {
+  beforeAll(async () => {
+    mock = await startMockFFA();
+    baseUrl = mock.baseUrl;
+    Object.assign(process.env, clientEnv, { FFA_API_URL: baseUrl });
+  });
+
+  afterAll(async () => {
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    await mock.stop();
+  });
+
+  beforeEach(async () => {
+    await axios.delete(`${baseUrl}/admin/faults`);
+    await axios.post(`${baseUrl}/seed`, { activityCount: 6, farmersPerActivity: 2 });
+  });
+
+  describe('FLT1: transport faults', () => {
+    test('baseline: every activity is synced', async () => {
+      const result = await syncFFAData(true);
+      expect(result).toMatchObject({ activitiesSynced: 6, farmersSynced: 12, errors: [] });
+    });
+
+    test('added latency only slows the sync down', async () => {
+      await useFaults(['latency'], { latencyMs: 300 });
+      const started = Date.now();
+      expect((await syncFFAData(true)).activitiesSynced).toBe(6);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(300);
+    });
+
+    test('a 5xx that outlasts the retries fails the whole sync', async () => {
+      await useFaults(['server_errors'], { errorRate: 1, errorStatus: 503 });
+      await expect(syncFFAData(true)).rejects.toThrow('FFA API error (503)');
+      expect(await Activity.countDocuments()).toBe(0);
+      expect((await axios.get(`${baseUrl}/admin/faults`)).data.data.stats.injected.server_errors).toBe(3);
+    });
+
+    test('an occasional 5xx is retried and the sync completes', async () => {
+      // Seed 7 fails the first two requests and lets the third through
+      await useFaults(['server_errors'], { errorRate: 0.5, seed: 7 });
+      expect((await syncFFAData(true)).activitiesSynced).toBe(6);
+      expect((await axios.get(`${baseUrl}/admin/faults`)).data.data.stats.injected.server_errors).toBe(2);
+    });
+
+    test('a 429 whose Retry-After is beyond the limit fails the sync without waiting', async () => {
+      await useFaults(['rate_limit'], { rateLimitBurst: 0, retryAfterSeconds: 30 });
+      await expect(syncFFAData(true)).rejects.toThrow(/FFA API error \(429\).*Retry-After 30s is longer/);
+    });
+
+    test('a page that stays short is synced and reported as incomplete', async () => {
+      await useFaults(['truncated_pages'], { truncateRatio: 0.5 });
+      const result = await syncFFAData(true);
+      expect(result.activitiesSynced).toBe(3);
+      expect(result.errors).toEqual([expect.stringContaining('FFA returned 3 of 6 activities')]);
+      expect(await Activity.countDocuments()).toBe(3);
+    });
+  });
+
+  describe('FLT2: data faults', () => {
+    test('malformed dates are rejected by ingest validation; the rest sync', async () => {
+      await useFaults(['malformed_dates'], { everyNth: 2 });
+      const result = await syncFFAData(true);
+      expect(result).toMatchObject({ activitiesSynced: 3, rejected: 3 });
+      expect(result.errors).toHaveLength(3);
+      expect(result.errors[0]).toMatch(/^Rejected activity FFA-ACT-\d+: Invalid activity date/);
+    });
+
+    test('a duplicated activity ID is synced once, from the later copy', async () => {
+      await useFaults(['duplicate_ids'], { everyNth: 3 });
+      const result = await syncFFAData(true);
+      expect(result).toMatchObject({ activitiesSynced: 6, errors: [] });
+      expect(await Activity.countDocuments()).toBe(6);
+      expect(await Activity.countDocuments({ location: /\(resent\)$/ })).toBe(2);
+    });
+
+    test('schema drift: a missing state is quarantined, renamed fields are rejected', async () => {
+      await useFaults(['schema_drift'], { everyNth: 2 });
+      const result = await syncFFAData(true);
+      expect(result).toMatchObject({ activitiesSynced: 3, quarantined: 2, rejected: 1 });
+      expect(await QuarantinedRecord.countDocuments({ status: 'pending' })).toBe(2);
+      expect(await Activity.countDocuments()).toBe(3);
+    });
+  });
+});
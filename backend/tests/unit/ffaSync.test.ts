@@ -3,8 +3,8 @@
  *
  * axios.get is spied on so no real HTTP calls are made.
  *
- * Module-level state in ffaSync (isSyncing, lastSyncTime) persists across tests.
- * Each test uses fullSync: true to bypass the lastSyncTime interval guard.
+ * syncFFAData is called directly, outside the ffa_sync job, so the job's concurrency key and
+ * MIN_SYNC_INTERVAL guard do not apply. Each test uses fullSync: true to skip the incremental cutoff.
  */
 
 import axios from 'axios';
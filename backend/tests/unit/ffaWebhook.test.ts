@@ -0,0 +1,128 @@
+import { Activity } from '../../src/models/Activity.js';
+import { FFAWebhookEvent } from '../../src/models/FFAWebhookEvent.js';
+import {
+  parseWebhookEvent,
+  receiveWebhookEvent,
+  replayFailedWebhookEvents,
+  replayWebhookEvent,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../../src/services/ffaWebhookService.js';
+import { makeActivity, makeFarmer, makeTask } from '../helpers/factories.js';
+
+const SECRET = 'test-webhook-secret';
+
+const ffaActivity = (activityId: string, location = 'Nashik') => ({
+  activityId,
+  type: 'Field Day',
+  date: '15/10/2026',
+  officerId: 'FDA-1',
+  officerName: 'Ravi Kumar',
+  location,
+  territory: 'Nashik Tehsil',
+  state: 'Maharashtra',
+  farmers: [{ farmerId: 'F-1', name: 'Sunita Patil', mobileNumber: '9800000001', location: 'Nashik' }],
+});
+
+/** Documents as plain objects, for toMatchObject */
+const receive = async (parsed: ReturnType<typeof parseWebhookEvent>) => {
+  const { event, duplicate } = await receiveWebhookEvent(parsed);
+  return { duplicate, event: event.toObject() };
+};
+
+const event = (eventId: string, type: string, activityId: string, occurredAt: string, activity?: object) =>
+  parseWebhookEvent({ eventId, type, activityId, occurredAt, ...(activity && { activity }) });
+
+describe('WH1: signature', () => {
+  const body = Buffer.from(JSON.stringify({ eventId: 'e1' }));
+  const now = new Date('2026-10-15T06:00:00Z');
+  const timestamp = String(now.getTime() / 1000);
+
+  beforeEach(() => {
+    process.env.FFA_WEBHOOK_SECRET = SECRET;
+  });
+  afterAll(() => {
+    delete process.env.FFA_WEBHOOK_SECRET;
+  });
+
+  test('accepts a valid signature; rejects a wrong secret, a changed body and an old timestamp', () => {
+    const signed = (ts: string, secret = SECRET) => ({
+      'x-ffa-timestamp': ts,
+      'x-ffa-signature': signWebhookPayload(secret, ts, body),
+    });
+    const statusOf = (fn: () => void) => {
+      try {
+        fn();
+        return 200;
+      } catch (error: any) {
+        return error.statusCode;
+      }
+    };
+
+    expect(statusOf(() => verifyWebhookSignature(signed(timestamp), body, now))).toBe(200);
+    expect(statusOf(() => verifyWebhookSignature(signed(timestamp, 'other'), body, now))).toBe(401);
+    expect(statusOf(() => verifyWebhookSignature(signed(timestamp), Buffer.from('{"eventId":"e2"}'), now))).toBe(401);
+    expect(statusOf(() => verifyWebhookSignature(signed(String(now.getTime() / 1000 - 600)), body, now))).toBe(401);
+
+    delete process.env.FFA_WEBHOOK_SECRET;
+    expect(statusOf(() => verifyWebhookSignature(signed(timestamp), body, now))).toBe(503);
+  });
+});
+
+describe('WH2: idempotency and ordering', () => {
+  test('a redelivered event is not applied twice and an older update does not overwrite a newer one', async () => {
+    const created = await receive(
+      event('e1', 'activity.created', 'ACT-WH-1', '2026-10-15T06:00:00Z', ffaActivity('ACT-WH-1'))
+    );
+    expect(created).toMatchObject({ duplicate: false, event: { status: 'processed' } });
+
+    const again = await receive(
+      event('e1', 'activity.created', 'ACT-WH-1', '2026-10-15T06:00:00Z', ffaActivity('ACT-WH-1', 'Changed'))
+    );
+    expect(again).toMatchObject({ duplicate: true, event: { status: 'processed', duplicateDeliveries: 1 } });
+
+    await receiveWebhookEvent(event('e3', 'activity.updated', 'ACT-WH-1', '2026-10-15T08:00:00Z', ffaActivity('ACT-WH-1', 'Niphad')));
+    const late = await receive(
+      event('e2', 'activity.updated', 'ACT-WH-1', '2026-10-15T07:00:00Z', ffaActivity('ACT-WH-1', 'Sinnar'))
+    );
+    expect(late.event).toMatchObject({ status: 'ignored', outcome: 'Superseded by event e3' });
+
+    const activity = await Activity.findOne({ activityId: 'ACT-WH-1' }).lean();
+    expect(activity).toMatchObject({ location: 'Niphad', lifecycleStatus: 'active' });
+    expect(activity?.dataBatchId).toMatch(/^sync-webhook-\d{8}$/);
+    expect(activity?.farmerIds).toHaveLength(1);
+    expect(await FFAWebhookEvent.countDocuments()).toBe(3);
+  });
+
+  test('a delete removes an unsampled activity and keeps one with call tasks as inactive', async () => {
+    const farmer = await makeFarmer();
+    const unsampled = await makeActivity([farmer._id]);
+    const sampled = await makeActivity([farmer._id]);
+    await makeTask(farmer._id, sampled._id);
+
+    await receiveWebhookEvent(event('d1', 'activity.deleted', unsampled.activityId, '2026-10-15T06:00:00Z'));
+    await receiveWebhookEvent(event('d2', 'activity.deleted', sampled.activityId, '2026-10-15T06:00:00Z'));
+
+    expect(await Activity.exists({ _id: unsampled._id })).toBeNull();
+    expect((await Activity.findById(sampled._id).lean())?.lifecycleStatus).toBe('inactive');
+  });
+});
+
+describe('WH3: replay', () => {
+  test('a failed event is stored, answered, and applies once replayed', async () => {
+    const broken = { ...ffaActivity('ACT-WH-2'), date: 'not a date' };
+    const { event: failed } = await receive(event('r1', 'activity.created', 'ACT-WH-2', '2026-10-15T06:00:00Z', broken));
+    expect(failed).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(failed.lastError).toMatch(/Invalid activity date/);
+
+    // Fix the stored payload (as support would after FFA corrects the record) and replay
+    await FFAWebhookEvent.updateOne({ _id: failed._id }, { $set: { 'payload.activity.date': '15/10/2026' } });
+    const replayed = (await replayWebhookEvent(failed._id.toString())).toObject();
+    expect(replayed).toMatchObject({ status: 'processed', attempts: 2, replayCount: 1, lastError: null });
+    expect(await Activity.exists({ activityId: 'ACT-WH-2' })).not.toBeNull();
+
+    await receiveWebhookEvent(event('r2', 'activity.created', 'ACT-WH-3', '2026-10-15T06:00:00Z', { ...broken, activityId: 'ACT-WH-3' }));
+    await expect(replayFailedWebhookEvents()).resolves.toMatchObject({ replayed: 1, byStatus: { failed: 1 }, remainingFailed: 1 });
+    await expect(replayWebhookEvent('000000000000000000000000')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,165 @@
+import { InboundQuery } from '../../src/models/InboundQuery.js';
+import { InboundSlaPolicy } from '../../src/models/InboundSlaPolicy.js';
+import { Job } from '../../src/models/Job.js';
+import {
+  getSlaPolicies,
+  getSlaDueDates,
+  checkInboundSlaBreaches,
+  requestInboundSlaSweep,
+  runInboundSlaSweep,
+} from '../../src/services/inboundSlaService.js';
+import { generateInboundSlaBreachEmail } from '../../src/utils/email.js';
+import { makeAgent, makeTeamLead } from '../helpers/factories.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Email goes to the log instead of SMTP/Resend
+process.env.EMAIL_SERVICE = 'console';
+delete process.env.RESEND_KEY;
+delete process.env.RESEND_API_KEY;
+
+const makeQuery = (overrides: Record<string, unknown> = {}) =>
+  InboundQuery.create({
+    callerMobile: '9000000001',
+    queryType: 'Complaint',
+    category: 'Product quality',
+    description: 'Crop damage after spray',
+    status: 'open',
+    escalationLevel: 'Level 1',
+    ...overrides,
+  });
+
+// ─── Policies ────────────────────────────────────────────────────────────────
+
+describe('SLA1: policy defaults', () => {
+  test('getSlaPolicies seeds one policy per query type', async () => {
+    const policies = await getSlaPolicies();
+    expect(policies.map((p) => p.queryType).sort()).toEqual(['Complaint', 'General inquiry', 'Product usage']);
+
+    const complaint = policies.find((p) => p.queryType === 'Complaint');
+    expect(complaint?.firstResponseHours).toBe(24);
+    expect(complaint?.resolveHours).toBe(72);
+  });
+
+  test('due dates follow the policy hours', async () => {
+    const loggedAt = new Date('2026-01-01T00:00:00Z');
+    const due = await getSlaDueDates('Complaint', loggedAt);
+    expect(due.firstResponseDueAt?.getTime()).toBe(loggedAt.getTime() + 24 * HOUR_MS);
+    expect(due.resolveDueAt?.getTime()).toBe(loggedAt.getTime() + 72 * HOUR_MS);
+  });
+
+  test('inactive policy yields no deadlines', async () => {
+    await getSlaPolicies();
+    await InboundSlaPolicy.updateOne({ queryType: 'General inquiry' }, { $set: { isActive: false } });
+    const due = await getSlaDueDates('General inquiry');
+    expect(due.firstResponseDueAt).toBeNull();
+    expect(due.resolveDueAt).toBeNull();
+  });
+});
+
+// ─── Breach sweep ────────────────────────────────────────────────────────────
+
+describe('SLA2: breach sweep', () => {
+  test('first-response breach escalates to Level 2 and assigns the team lead', async () => {
+    const teamLead = await makeTeamLead();
+    const agent = await makeAgent(teamLead._id);
+    const query = await makeQuery({
+      loggedBy: agent._id,
+      assignedTo: agent._id,
+      firstResponseDueAt: new Date(Date.now() - HOUR_MS),
+      resolveDueAt: new Date(Date.now() + 48 * HOUR_MS),
+    });
+
+    const result = await checkInboundSlaBreaches();
+
+    expect(result.firstResponseBreaches).toBe(1);
+    expect(result.escalated).toBe(1);
+    expect(result.teamLeadsNotified).toBe(1);
+
+    const saved = await InboundQuery.findById(query._id);
+    expect(saved?.escalationLevel).toBe('Level 2');
+    expect(saved?.status).toBe('escalated');
+    expect(saved?.firstResponseBreachedAt).toBeInstanceOf(Date);
+    expect(saved?.assignedTo?.toString()).toBe(teamLead._id.toString());
+  });
+
+  test('breach is only stamped once across sweeps', async () => {
+    const teamLead = await makeTeamLead();
+    const agent = await makeAgent(teamLead._id);
+    await makeQuery({ loggedBy: agent._id, firstResponseDueAt: new Date(Date.now() - HOUR_MS) });
+
+    await checkInboundSlaBreaches();
+    const second = await checkInboundSlaBreaches();
+
+    expect(second.checked).toBe(0);
+    expect(second.escalated).toBe(0);
+  });
+
+  test('query with a first response is not flagged for first-response breach', async () => {
+    await makeQuery({
+      firstResponseAt: new Date(Date.now() - 2 * HOUR_MS),
+      firstResponseDueAt: new Date(Date.now() - HOUR_MS),
+      resolveDueAt: new Date(Date.now() + HOUR_MS),
+    });
+
+    const result = await checkInboundSlaBreaches();
+    expect(result.checked).toBe(0);
+  });
+
+  test('resolved queries are ignored', async () => {
+    await makeQuery({
+      status: 'resolved',
+      resolvedAt: new Date(),
+      resolveDueAt: new Date(Date.now() - HOUR_MS),
+    });
+
+    const result = await checkInboundSlaBreaches();
+    expect(result.checked).toBe(0);
+  });
+
+  test('resolution breach on a Level 2 query is stamped without changing level', async () => {
+    const query = await makeQuery({
+      status: 'escalated',
+      escalationLevel: 'Level 2',
+      firstResponseAt: new Date(Date.now() - 10 * HOUR_MS),
+      resolveDueAt: new Date(Date.now() - HOUR_MS),
+    });
+
+    const result = await checkInboundSlaBreaches();
+
+    expect(result.resolveBreaches).toBe(1);
+    expect(result.escalated).toBe(0);
+    const saved = await InboundQuery.findById(query._id);
+    expect(saved?.resolveBreachedAt).toBeInstanceOf(Date);
+    expect(saved?.escalationLevel).toBe('Level 2');
+  });
+
+  test('only one sweep runs at a time across instances', async () => {
+    const running = await Job.create({ type: 'inbound_sla_sweep', status: 'running', activeKey: 'inbound_sla_sweep' });
+
+    const queued = await requestInboundSlaSweep();
+    expect(queued.enqueued).toBe(false);
+    expect(queued.job._id.toString()).toBe(running._id.toString());
+    await expect(runInboundSlaSweep()).rejects.toMatchObject({ statusCode: 409 });
+
+    await Job.deleteOne({ _id: running._id });
+    await expect(runInboundSlaSweep()).resolves.toMatchObject({ checked: 0 });
+  });
+});
+
+// ─── Digest email ────────────────────────────────────────────────────────────
+
+describe('SLA3: digest email', () => {
+  test('says per query whether this sweep escalated it or it was already at Level 2', () => {
+    const item = { queryType: 'Complaint', category: 'Product quality', dueAt: new Date(), loggedByName: 'Asha' };
+    const email = generateInboundSlaBreachEmail('Lead', [
+      { ...item, queryId: 'q1', farmerLabel: 'Sunita (9000000001)', breachType: 'first_response', escalated: true },
+      { ...item, queryId: 'q2', farmerLabel: 'Ravi (9000000002)', breachType: 'resolution', escalated: false },
+    ]);
+
+    expect(email.subject).toContain('2 inbound queries, 1 escalated');
+    expect(email.text).toMatch(/Sunita .*Escalated to Level 2/);
+    expect(email.text).toMatch(/Ravi .*Already at Level 2/);
+    expect(email.html).not.toContain('have been escalated');
+  });
+});
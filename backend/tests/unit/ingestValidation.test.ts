@@ -0,0 +1,150 @@
+import mongoose from 'mongoose';
+import { ingestFFAActivity, releaseQuarantinedActivity, type FFAActivity } from '../../src/services/ffaSync.js';
+import {
+  createIngestValidator,
+  discardQuarantinedRecord,
+  listBatchQuality,
+  listQuarantinedRecords,
+  recordBatchQuality,
+  toIngestCandidate,
+  updateIngestRule,
+} from '../../src/services/ingestValidationService.js';
+import { Activity } from '../../src/models/Activity.js';
+import { MasterCrop } from '../../src/models/MasterData.js';
+import { QuarantinedRecord } from '../../src/models/QuarantinedRecord.js';
+import { makeFarmer } from '../helpers/factories.js';
+
+const ffaActivity = (overrides: Partial<FFAActivity> = {}): FFAActivity => ({
+  activityId: 'ACT-ING-1',
+  type: 'Field Day',
+  date: '01/10/2026',
+  officerId: 'FDA-1',
+  officerName: 'Ravi Kumar',
+  location: 'Nashik',
+  territory: 'Nashik Tehsil',
+  state: 'Maharashtra',
+  crops: ['Onion'],
+  products: [],
+  farmers: [
+    { farmerId: 'F-1', name: 'Sunita Patil', mobileNumber: '9800000001', location: 'Nashik' },
+    { farmerId: 'F-2', name: 'Anil More', mobileNumber: '9800000002', location: 'Nashik' },
+  ],
+  ...overrides,
+});
+
+const parseDate = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid activity date: ${value}`);
+  return date;
+};
+
+const check = async (activity: FFAActivity) => (await createIngestValidator()).check(toIngestCandidate(activity, parseDate));
+
+const withFarmer = (activityId: string, name: string) =>
+  toIngestCandidate(
+    ffaActivity({ activityId, farmers: [{ farmerId: 'F-1', name, mobileNumber: '9800000001', location: 'Nashik' }] }),
+    parseDate
+  );
+
+describe('ING1: rules', () => {
+  test('default severities: missing state and unknown crops quarantine, a bad mobile drops only that farmer', async () => {
+    await MasterCrop.create({ name: 'Onion' });
+
+    expect(await check(ffaActivity())).toMatchObject({ outcome: 'accept', issues: [], rejectedFarmers: [] });
+    expect(await check(ffaActivity({ date: 'not a date' }))).toMatchObject({
+      outcome: 'reject',
+      issues: [{ rule: 'activity_invalid_date', severity: 'reject' }],
+    });
+
+    const borderline = await check(ffaActivity({ state: '', crops: ['Onion', 'Banana'] }));
+    expect(borderline.outcome).toBe('quarantine');
+    expect(borderline.issues.map((i) => i.rule)).toEqual(['activity_missing_state', 'activity_unknown_crop']);
+
+    const badMobile = ffaActivity();
+    badMobile.farmers[1].mobileNumber = '98000';
+    expect(await check(badMobile)).toMatchObject({
+      outcome: 'accept',
+      rejectedFarmers: [1],
+      issues: [{ rule: 'farmer_invalid_mobile', farmerIndex: 1 }],
+    });
+  });
+
+  test('a mobile stored or seen earlier in the batch under another name is a conflict', async () => {
+    await makeFarmer({ mobileNumber: '9800000002', name: 'Someone Else' });
+    expect((await check(ffaActivity())).issues).toMatchObject([
+      { rule: 'farmer_mobile_name_conflict', severity: 'quarantine', farmerIndex: 1 },
+    ]);
+
+    const batch = await createIngestValidator();
+    expect((await batch.check(withFarmer('ACT-ING-1', 'Sunita Patil'))).outcome).toBe('accept');
+    expect((await batch.check(withFarmer('ACT-ING-2', 'Sunita  patil'))).outcome).toBe('accept');
+    expect((await batch.check(withFarmer('ACT-ING-3', 'Sunil Patil'))).issues).toMatchObject([
+      { rule: 'farmer_mobile_name_conflict', message: expect.stringContaining('activity ACT-ING-1 of this batch') },
+    ]);
+
+    await updateIngestRule('farmer_mobile_name_conflict', 'warn', null);
+    const warned = await createIngestValidator();
+    await warned.check(withFarmer('ACT-ING-1', 'Sunita Patil'));
+    expect(await warned.check(withFarmer('ACT-ING-3', 'Sunil Patil'))).toMatchObject({
+      outcome: 'accept',
+      issues: [{ rule: 'farmer_mobile_name_conflict', severity: 'warn' }],
+    });
+    expect(warned.tally).toMatchObject({ received: 2, accepted: 2, acceptedWithWarnings: 1 });
+  });
+
+  test('structural rules cannot be lowered to warn or off', async () => {
+    await expect(updateIngestRule('farmer_invalid_mobile', 'warn', null)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(updateIngestRule('no_such_rule', 'warn', null)).rejects.toMatchObject({ statusCode: 404 });
+    await expect(updateIngestRule('activity_no_farmers', 'off', null)).resolves.toMatchObject({ severity: 'off' });
+  });
+});
+
+describe('ING2: quarantine review', () => {
+  test('a quarantined activity is not stored until released; a corrected release upserts it', async () => {
+    const validator = await createIngestValidator();
+    const outcome = await ingestFFAActivity(ffaActivity({ state: '' }), 'sync-1', 'ffa_sync', validator);
+    await recordBatchQuality('sync-1', 'ffa_sync', validator.tally);
+    expect(outcome.status).toBe('quarantined');
+    expect(await Activity.exists({ activityId: 'ACT-ING-1' })).toBeNull();
+
+    // The next delivery of the same activity replaces the pending record
+    await ingestFFAActivity(ffaActivity({ state: '', location: 'Sinnar' }), 'sync-2');
+    const { items, counts } = await listQuarantinedRecords();
+    expect(counts).toEqual({ pending: 1, released: 0, discarded: 0 });
+    expect(items[0]).toMatchObject({ occurrences: 2, dataBatchId: 'sync-2', payload: { location: 'Sinnar' } });
+    const id = items[0]._id.toString();
+
+    await expect(releaseQuarantinedActivity(id, null, { payload: { date: '' } })).rejects.toMatchObject({ statusCode: 400 });
+    await expect(releaseQuarantinedActivity(id, null)).rejects.toMatchObject({ statusCode: 409 });
+
+    const released = await releaseQuarantinedActivity(id, new mongoose.Types.ObjectId(), { payload: { state: 'Maharashtra' } });
+    expect(released).toMatchObject({ farmersSynced: 2, farmersDropped: 0, record: { status: 'released' } });
+    const activity = await Activity.findOne({ activityId: 'ACT-ING-1' }).lean();
+    expect(activity).toMatchObject({ state: 'Maharashtra', location: 'Sinnar', dataBatchId: 'sync-2' });
+    await expect(discardQuarantinedRecord(id, null)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  test('override releases despite quarantine issues; discard and batch counts', async () => {
+    const validator = await createIngestValidator();
+    const first = await ingestFFAActivity(ffaActivity({ state: '' }), 'sync-1', 'ffa_sync', validator);
+    const second = await ingestFFAActivity(ffaActivity({ activityId: 'ACT-ING-2', state: '' }), 'sync-1', 'ffa_sync', validator);
+    await recordBatchQuality('sync-1', 'ffa_sync', validator.tally);
+    if (first.status !== 'quarantined' || second.status !== 'quarantined') throw new Error('expected quarantine');
+
+    await releaseQuarantinedActivity(first.record._id.toString(), null, { override: true });
+    expect((await Activity.findOne({ activityId: 'ACT-ING-1' }).lean())?.state).toBe('Nashik Tehsil');
+    await discardQuarantinedRecord(second.record._id.toString(), null, 'Test activity');
+    expect((await QuarantinedRecord.findById(second.record._id).lean())?.resolutionNote).toBe('Test activity');
+
+    const [batch] = await listBatchQuality();
+    expect(batch).toMatchObject({
+      dataBatchId: 'sync-1',
+      received: 2,
+      quarantined: 2,
+      released: 1,
+      discarded: 1,
+      pendingReview: 0,
+      byRule: { activity_missing_state: 2 },
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import mongoose from 'mongoose';
+import { Job } from '../../src/models/Job.js';
+import { AppError } from '../../src/middleware/errorHandler.js';
+import {
+  WORKER_ID,
+  enqueueJob,
+  failAbandonedJobs,
+  kickJobWorker,
+  registerJobHandler,
+  runJobInline,
+  type JobError,
+  type JobHandler,
+} from '../../src/services/jobQueue.js';
+
+// Only this file's handler is registered: the real ffa_sync handler lives in ffaSync.ts, not imported here
+let handler: JobHandler = async () => null;
+registerJobHandler('ffa_sync', (ctx) => handler(ctx));
+
+/** Poll until the worker has moved the job to `status` after at least `attempts` attempts */
+const waitForJob = async (jobId: mongoose.Types.ObjectId, status: string, attempts = 1, maxMs = 5000) => {
+  const deadline = Date.now() + maxMs;
+  while (Date.now() < deadline) {
+    const job = await Job.findById(jobId).lean();
+    if (job && job.status === status && job.attempts >= attempts) return job;
+    await new Promise((r) => setTimeout(r, 25));
+  }
+  throw new Error(`Job ${jobId} did not become ${status}`);
+};
+
+describe('JQ1: inline jobs', () => {
+  test('result, progress and log are kept on the job and the key is released', async () => {
+    handler = async ({ progress, log }) => {
+      progress({ activitiesSynced: 3, totalActivities: 4 }, 'Almost done');
+      await log('Halfway');
+      return { activitiesSynced: 3 };
+    };
+
+    const result = await runJobInline('ffa_sync', { fullSync: true }, { concurrencyKey: 'ffa_sync' });
+
+    expect(result).toEqual({ activitiesSynced: 3 });
+    const job = await Job.findOne({ type: 'ffa_sync' }).lean();
+    expect(job).toMatchObject({
+      status: 'completed',
+      attempts: 1,
+      progress: { activitiesSynced: 3, totalActivities: 4 },
+      message: 'Almost done',
+      leaseOwner: null,
+    });
+    expect(job?.activeKey).toBeUndefined();
+    expect(job?.logs.map((l) => l.message)).toEqual([`Started on ${WORKER_ID}`, 'Halfway', 'Completed']);
+  });
+});
+
+describe('JQ2: concurrency key', () => {
+  test('a second job with an active key is not created', async () => {
+    const later = new Date(Date.now() + 60_000);
+    const first = await enqueueJob('ffa_sync', {}, { concurrencyKey: 'ffa_sync', runAt: later });
+    const second = await enqueueJob('ffa_sync', {}, { concurrencyKey: 'ffa_sync', runAt: later });
+
+    expect(first.enqueued).toBe(true);
+    expect(second).toMatchObject({ enqueued: false });
+    expect(second.job._id.toString()).toBe(first.job._id.toString());
+    await expect(runJobInline('ffa_sync', {}, { concurrencyKey: 'ffa_sync' })).rejects.toMatchObject({ statusCode: 409 });
+    expect(await Job.countDocuments()).toBe(1);
+  });
+});
+
+describe('JQ3: leases', () => {
+  test('a job whose instance stopped is picked up again; one with no attempts left fails', async () => {
+    const seenAttempts: number[] = [];
+    handler = async ({ job }) => {
+      seenAttempts.push(job.attempts);
+      return 'resumed';
+    };
+    const expired = new Date(Date.now() - 1000);
+    const [orphan, exhausted] = await Job.create([
+      { type: 'ffa_sync', status: 'running', attempts: 1, maxAttempts: 3, leaseOwner: 'stopped-instance', leaseExpiresAt: expired },
+      { type: 'ffa_sync', status: 'running', attempts: 3, maxAttempts: 3, leaseOwner: 'stopped-instance', leaseExpiresAt: expired, activeKey: 'other' },
+    ]);
+
+    expect(await failAbandonedJobs()).toBe(1);
+    kickJobWorker();
+
+    const done = await waitForJob(orphan._id, 'completed');
+    expect(done).toMatchObject({ attempts: 2, result: 'resumed' });
+    expect(seenAttempts).toEqual([2]);
+    const failed = await Job.findById(exhausted._id).lean();
+    expect(failed).toMatchObject({ status: 'failed', attempts: 3 });
+    expect(failed?.activeKey).toBeUndefined();
+  });
+});
+
+describe('JQ4: retries', () => {
+  test('a failed attempt is queued again with backoff; a 4xx error fails at once', async () => {
+    handler = async () => {
+      throw new Error('FFA API unreachable');
+    };
+    const { job } = await enqueueJob('ffa_sync', {}, { concurrencyKey: 'ffa_sync' });
+    const retried = await waitForJob(job._id, 'queued', 1);
+    expect(retried).toMatchObject({ attempts: 1, lastError: 'FFA API unreachable', leaseOwner: null });
+    expect(retried.runAt.getTime()).toBeGreaterThan(Date.now() + 20_000);
+    expect(retried.activeKey).toBe('ffa_sync');
+
+    handler = async () => {
+      const error: AppError = new Error('Workbook is missing the Farmers sheet');
+      error.statusCode = 400;
+      throw error;
+    };
+    const { job: bad } = await enqueueJob('ffa_sync', {}, { maxAttempts: 3 });
+    const failed = await waitForJob(bad._id, 'failed');
+    expect(failed).toMatchObject({ attempts: 1, lastError: 'Workbook is missing the Farmers sheet' });
+  });
+
+  test('what a failing handler attaches to its error is kept as the result', async () => {
+    handler = async () => {
+      const error: JobError = new Error('Workbook is missing the Farmers sheet');
+      error.statusCode = 400;
+      error.result = { errorsCount: 1 };
+      throw error;
+    };
+    const { job } = await enqueueJob('ffa_sync', {});
+    expect(await waitForJob(job._id, 'failed')).toMatchObject({ result: { errorsCount: 1 } });
+  });
+});
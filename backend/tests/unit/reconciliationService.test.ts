@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+import { syncActivity, type FFAActivity } from '../../src/services/ffaSync.js';
+import { diffFields } from '../../src/services/changeHistoryService.js';
+import {
+  cancelOrphanedTasks,
+  dismissReconciliation,
+  getReconciliation,
+  listReconciliations,
+} from '../../src/services/reconciliationService.js';
+import { ActivityReconciliation } from '../../src/models/ActivityReconciliation.js';
+import { ChangeHistory } from '../../src/models/ChangeHistory.js';
+import { CallTask } from '../../src/models/CallTask.js';
+import { Farmer } from '../../src/models/Farmer.js';
+import { makeTask } from '../helpers/factories.js';
+
+const farmer = (n: number, name = `Farmer ${n}`) => ({
+  farmerId: `F-${n}`,
+  name,
+  mobileNumber: `980000000${n}`,
+  location: 'Nashik',
+});
+
+const ffaActivity = (overrides: Partial<FFAActivity> = {}): FFAActivity => ({
+  activityId: 'ACT-REC-1',
+  type: 'Field Day',
+  date: '01/10/2026',
+  officerId: 'FDA-1',
+  officerName: 'Ravi Kumar',
+  location: 'Nashik',
+  territory: 'Nashik Tehsil',
+  state: 'Maharashtra',
+  crops: ['Onion', 'Grapes'],
+  products: [],
+  farmers: [farmer(1), farmer(2), farmer(3)],
+  ...overrides,
+});
+
+describe('REC1: change history', () => {
+  test('diffFields compares lists as sets and ignores untouched fields', () => {
+    const before = { officerId: 'FDA-1', crops: ['Onion', 'Grapes'], location: 'Nashik', photoUrl: '' };
+    const after = { officerId: 'FDA-2', crops: ['Grapes', 'Onion'], photoUrl: undefined };
+    expect(diffFields(before, after, ['officerId', 'crops', 'location', 'photoUrl'])).toEqual([
+      { field: 'officerId', from: 'FDA-1', to: 'FDA-2' },
+    ]);
+  });
+
+  test('a re-sync logs changed activity and farmer fields; the first sync logs nothing', async () => {
+    const first = await syncActivity(ffaActivity(), 'sync-1');
+    expect(await ChangeHistory.countDocuments()).toBe(0);
+
+    await syncActivity(
+      ffaActivity({ officerId: 'FDA-2', crops: ['Onion'], farmers: [farmer(1, 'Farmer One'), farmer(2), farmer(4)] }),
+      'sync-2',
+      'ffa_webhook'
+    );
+
+    const [activityEntry] = await ChangeHistory.find({ entityType: 'activity' }).lean();
+    const removed = await Farmer.findOne({ mobileNumber: '9800000003' }).lean();
+    const added = await Farmer.findOne({ mobileNumber: '9800000004' }).lean();
+    expect(activityEntry.entityId.toString()).toBe(first._id.toString());
+    expect(activityEntry).toMatchObject({ entityKey: 'ACT-REC-1', source: 'ffa_webhook', dataBatchId: 'sync-2' });
+    expect(activityEntry.changes).toEqual([
+      { field: 'officerId', from: 'FDA-1', to: 'FDA-2' },
+      { field: 'crops', added: [], removed: ['Grapes'] },
+      { field: 'farmerIds', added: [added!._id.toString()], removed: [removed!._id.toString()] },
+    ]);
+
+    const farmerEntries = await ChangeHistory.find({ entityType: 'farmer' }).lean();
+    expect(farmerEntries).toHaveLength(1);
+    expect(farmerEntries[0]).toMatchObject({
+      entityKey: '9800000001',
+      changes: [{ field: 'name', from: 'Farmer 1', to: 'Farmer One' }],
+    });
+
+    // Not sampled, so nothing to reconcile
+    expect(await ActivityReconciliation.countDocuments()).toBe(0);
+  });
+});
+
+describe('REC2: reconciliation', () => {
+  test('a sampled activity that loses farmers is flagged; cancel removes only uncalled orphaned tasks', async () => {
+    const activity = await syncActivity(ffaActivity(), 'sync-1');
+    const [f1, f2, f3] = activity.farmerIds;
+    await makeTask(f1, activity._id);
+    const queued = await makeTask(f2, activity._id, { status: 'sampled_in_queue' });
+    const inProgress = await makeTask(f3, activity._id, { status: 'in_progress' });
+
+    await syncActivity(ffaActivity({ farmers: [farmer(1)] }), 'sync-2');
+    await syncActivity(ffaActivity({ farmers: [farmer(1)], date: '05/10/2026' }), 'sync-3');
+
+    const { items, counts } = await listReconciliations();
+    expect(counts).toEqual({ open: 1, resolved: 0, dismissed: 0 });
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      activityKey: 'ACT-REC-1',
+      reasons: ['farmers_removed', 'date_changed'],
+      taskCount: 3,
+      orphanedTaskCount: 2,
+      cancellableTaskCount: 1,
+    });
+
+    const detail = await getReconciliation(items[0]._id.toString());
+    expect(detail.changes).toHaveLength(2);
+
+    const result = await cancelOrphanedTasks(items[0]._id.toString(), new mongoose.Types.ObjectId());
+    expect(result).toMatchObject({ tasksCancelled: 1, tasksKept: 1, item: { status: 'resolved' } });
+    expect(await CallTask.exists({ _id: queued._id })).toBeNull();
+    expect(await CallTask.exists({ _id: inProgress._id })).not.toBeNull();
+    await expect(dismissReconciliation(items[0]._id.toString(), null)).rejects.toMatchObject({ statusCode: 409 });
+
+    // A later change opens a new item
+    await syncActivity(ffaActivity({ farmers: [farmer(1)], officerId: 'FDA-9' }), 'sync-4');
+    const reopened = await ActivityReconciliation.findOne({ status: 'open' }).lean();
+    expect(reopened?.reasons).toEqual(['officer_changed']);
+  });
+});
@@ -0,0 +1,51 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  LocalDiskStorageAdapter,
+  computeChecksumSha256,
+  buildRecordingKey,
+} from '../../src/services/recordingStorage.js';
+
+describe('recordingStorage', () => {
+  let baseDir: string;
+  let storage: LocalDiskStorageAdapter;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ems-recordings-'));
+    storage = new LocalDiskStorageAdapter(baseDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  test('computes the sha256 hex digest', () => {
+    expect(computeChecksumSha256(Buffer.from('abc'))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  test('builds keys from task id, upload time and content type', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    expect(buildRecordingKey('task1', 'audio/mpeg', now)).toBe(`task1/${now.getTime()}.mp3`);
+    expect(buildRecordingKey('task1', 'application/unknown', now)).toBe(`task1/${now.getTime()}.bin`);
+  });
+
+  test('saves, reads back and deletes a recording', async () => {
+    const data = Buffer.from('fake audio bytes');
+    await storage.save('task1/1.mp3', data, 'audio/mpeg');
+
+    const read = await storage.read('task1/1.mp3');
+    expect(computeChecksumSha256(read)).toBe(computeChecksumSha256(data));
+
+    await storage.delete('task1/1.mp3');
+    await expect(storage.read('task1/1.mp3')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  test('rejects keys that escape the base directory', async () => {
+    await expect(storage.save('../outside.mp3', Buffer.from('x'), 'audio/mpeg')).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+});
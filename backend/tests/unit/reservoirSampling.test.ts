@@ -1,4 +1,5 @@
 import { reservoirSampling, calculateSampleSize } from '../../src/utils/reservoirSampling.js';
+import { createSeededRandom } from '../../src/utils/seededRandom.js';
 
 describe('reservoirSampling', () => {
   test('returns all items when sampleSize >= items.length', () => {
@@ -30,6 +31,24 @@ describe('reservoirSampling', () => {
     }
   });
 
+  test('the same seed gives the same sample; a different seed usually does not', () => {
+    const items = Array.from({ length: 200 }, (_, i) => i);
+    const a = reservoirSampling(items, 20, createSeededRandom('run-1:activity-1'));
+    const b = reservoirSampling(items, 20, createSeededRandom('run-1:activity-1'));
+    const c = reservoirSampling(items, 20, createSeededRandom('run-1:activity-2'));
+    expect(a).toEqual(b);
+    expect(c).not.toEqual(a);
+  });
+
+  test('seeded random stays in [0, 1)', () => {
+    const random = createSeededRandom('bounds');
+    for (let i = 0; i < 1000; i++) {
+      const v = random();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+
   test('all returned items exist in the original array', () => {
     const items = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
     const result = reservoirSampling(items, 5);
@@ -0,0 +1,123 @@
+import { CallTask } from '../../src/models/CallTask.js';
+import {
+  DEFAULT_RETRY_POLICY,
+  nextCallingWindowStart,
+  planAutoRetry,
+  createDueRetryCallbacks,
+  overrideAutoRetry,
+} from '../../src/services/retryService.js';
+import { makeFarmer, makeActivity, makeAgent, makeTeamLead, makeTask } from '../helpers/factories.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const policy = { ...DEFAULT_RETRY_POLICY, enabled: true };
+
+// Default windows are 09-13 and 16-19 IST (UTC+5:30)
+
+describe('R1: calling windows', () => {
+  test('time before the first window moves to its start', () => {
+    const next = nextCallingWindowStart(new Date('2026-01-01T03:00:00Z'), policy.callingWindows, policy.timezone);
+    expect(next.toISOString()).toBe('2026-01-01T03:30:00.000Z'); // 09:00 IST
+  });
+
+  test('time between windows moves to the afternoon window', () => {
+    const next = nextCallingWindowStart(new Date('2026-01-01T08:00:00Z'), policy.callingWindows, policy.timezone);
+    expect(next.toISOString()).toBe('2026-01-01T10:30:00.000Z'); // 16:00 IST
+  });
+
+  test('time after the last window moves to the next day', () => {
+    const next = nextCallingWindowStart(new Date('2026-01-01T14:00:00Z'), policy.callingWindows, policy.timezone);
+    expect(next.toISOString()).toBe('2026-01-02T03:30:00.000Z');
+  });
+
+  test('time inside a window is kept', () => {
+    const at = new Date('2026-01-01T10:45:00Z');
+    expect(nextCallingWindowStart(at, policy.callingWindows, policy.timezone)).toEqual(at);
+  });
+});
+
+describe('R2: planAutoRetry', () => {
+  const task = { callbackNumber: 0, assignedAgentId: null } as any;
+
+  test('No Answer is scheduled after the configured gap, inside a window', () => {
+    const plan = planAutoRetry(task, 'No Answer', policy, new Date('2026-01-01T04:00:00Z'));
+    expect(plan?.state).toBe('scheduled');
+    expect(plan?.nextRetryAt?.toISOString()).toBe('2026-01-01T10:30:00.000Z');
+  });
+
+  test('connected and invalid calls are not retried', () => {
+    expect(planAutoRetry(task, 'Connected', policy)).toBeNull();
+    expect(planAutoRetry(task, 'Invalid', policy)).toBeNull();
+  });
+
+  test('disabled policy plans nothing', () => {
+    expect(planAutoRetry(task, 'No Answer', { ...policy, enabled: false })).toBeNull();
+  });
+
+  test('max attempts and callbackNumber cap mark the chain exhausted', () => {
+    expect(planAutoRetry({ callbackNumber: 1 } as any, 'No Answer', { ...policy, maxAttempts: 2 })?.state).toBe('exhausted');
+    expect(planAutoRetry({ callbackNumber: 2 } as any, 'No Answer', policy)?.state).toBe('exhausted');
+  });
+});
+
+describe('R3: retry sweep', () => {
+  const setup = async () => {
+    const teamLead = await makeTeamLead();
+    const agent = await makeAgent(teamLead._id);
+    const farmer = await makeFarmer();
+    const activity = await makeActivity([farmer._id]);
+    const task = await makeTask(farmer._id, activity._id, { status: 'not_reachable', assignedAgentId: agent._id });
+    return { teamLead, agent, task };
+  };
+
+  test('due retry creates a callback in the original agent queue', async () => {
+    const { agent, task } = await setup();
+    await CallTask.updateOne(
+      { _id: task._id },
+      { $set: { autoRetry: { state: 'scheduled', nextRetryAt: new Date(Date.now() - HOUR_MS), agentId: agent._id } } }
+    );
+
+    const result = await createDueRetryCallbacks();
+
+    expect(result.created).toBe(1);
+    const callback = await CallTask.findOne({ parentTaskId: task._id });
+    expect(callback?.callbackNumber).toBe(1);
+    expect(callback?.status).toBe('sampled_in_queue');
+    expect(callback?.assignedAgentId?.toString()).toBe(agent._id.toString());
+    const parent = await CallTask.findById(task._id);
+    expect(parent?.autoRetry?.state).toBe('created');
+  });
+
+  test('future retries are left alone', async () => {
+    const { task } = await setup();
+    await CallTask.updateOne(
+      { _id: task._id },
+      { $set: { autoRetry: { state: 'scheduled', nextRetryAt: new Date(Date.now() + HOUR_MS) } } }
+    );
+
+    const result = await createDueRetryCallbacks();
+    expect(result.due).toBe(0);
+  });
+
+  test('team lead skip stops the scheduler', async () => {
+    const { teamLead, task } = await setup();
+    await CallTask.updateOne(
+      { _id: task._id },
+      { $set: { autoRetry: { state: 'scheduled', nextRetryAt: new Date(Date.now() - HOUR_MS) } } }
+    );
+
+    await overrideAutoRetry(task._id.toString(), 'skip', {}, { _id: teamLead._id, role: 'team_lead' });
+    const result = await createDueRetryCallbacks();
+
+    expect(result.due).toBe(0);
+    expect(await CallTask.exists({ parentTaskId: task._id })).toBeNull();
+  });
+
+  test('team lead outside the team cannot override', async () => {
+    const { task } = await setup();
+    const otherLead = await makeTeamLead();
+
+    await expect(
+      overrideAutoRetry(task._id.toString(), 'run_now', {}, { _id: otherLead._id, role: 'team_lead' })
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
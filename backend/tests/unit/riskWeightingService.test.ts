@@ -0,0 +1,100 @@
+import {
+  DEFAULT_RISK_WEIGHTING,
+  adjustSamplingPercentage,
+  assessOfficerRisk,
+} from '../../src/services/riskWeightingService.js';
+import { sampleAndCreateTasks } from '../../src/services/samplingService.js';
+import { CallTask } from '../../src/models/CallTask.js';
+import { SamplingAudit } from '../../src/models/SamplingAudit.js';
+import { SamplingConfig } from '../../src/models/SamplingConfig.js';
+import { makeFarmers, makeActivity, makeTask } from '../helpers/factories.js';
+
+const settings = { ...DEFAULT_RISK_WEIGHTING, enabled: true };
+const metrics = (overrides = {}) => ({
+  totalConnected: 40,
+  meetingValidityPct: 85,
+  mobileValidityPct: 95,
+  identityWrongPct: 2,
+  emsScore: 70,
+  ...overrides,
+});
+
+describe('R1: officer risk bands', () => {
+  test('poor validity or identity-wrong rates raise the rate, good EMS scores lower it', () => {
+    expect(assessOfficerRisk(metrics({ identityWrongPct: 25 }), settings)).toEqual({
+      band: 'poor',
+      reasons: ['Identity wrong on 25% of connected calls (limit 10%)'],
+    });
+    expect(assessOfficerRisk(metrics({ meetingValidityPct: 40, emsScore: 90 }), settings).band).toBe('poor');
+    expect(assessOfficerRisk(metrics({ emsScore: 85 }), settings).band).toBe('good');
+    expect(assessOfficerRisk(metrics(), settings).band).toBe('neutral');
+    expect(assessOfficerRisk(metrics({ totalConnected: 3 }), settings).band).toBe('insufficient_data');
+    expect(assessOfficerRisk(null, settings).band).toBe('insufficient_data');
+  });
+
+  test('adjustments stay within bounds and never move the wrong way', () => {
+    expect(adjustSamplingPercentage(10, 'poor', settings)).toBe(15);
+    expect(adjustSamplingPercentage(40, 'poor', settings)).toBe(50);
+    expect(adjustSamplingPercentage(60, 'poor', settings)).toBe(60);
+    expect(adjustSamplingPercentage(20, 'good', settings)).toBe(10);
+    expect(adjustSamplingPercentage(8, 'good', settings)).toBe(5);
+    expect(adjustSamplingPercentage(3, 'good', settings)).toBe(3);
+    expect(adjustSamplingPercentage(10, 'neutral', settings)).toBe(10);
+  });
+});
+
+describe('R2: risk-weighted sampling', () => {
+  beforeEach(async () => {
+    await SamplingConfig.findOneAndUpdate(
+      { key: 'default' },
+      {
+        isActive: true,
+        activityCoolingDays: 5,
+        farmerCoolingDays: 30,
+        defaultPercentage: 10,
+        activityTypePercentages: {},
+        eligibleActivityTypes: [],
+        riskWeighting: { ...settings, minConnectedCalls: 3 },
+      },
+      { upsert: true, new: true }
+    );
+  });
+
+  test('raises the percentage for a poor officer and explains it in the audit', async () => {
+    const history = await makeFarmers(4);
+    const past = await makeActivity(history.map((f) => f._id), { officerName: 'Poor Officer', lifecycleStatus: 'sampled' });
+    for (const f of history) {
+      const task = await makeTask(f._id, past._id, { status: 'completed' });
+      await CallTask.updateOne(
+        { _id: task._id },
+        { $set: { callLog: { timestamp: new Date(), callStatus: 'Connected', didAttend: 'Identity Wrong' } } }
+      );
+    }
+    const poor = await makeActivity((await makeFarmers(20)).map((f) => f._id), { officerName: 'Poor Officer' });
+    const unknown = await makeActivity((await makeFarmers(20)).map((f) => f._id), { officerName: 'New Officer' });
+
+    // 15% of 20 → 3 for the poor officer; no history keeps 10% of 20 → 2
+    await expect(sampleAndCreateTasks(poor._id.toString(), undefined, { forceRun: true })).resolves.toMatchObject({ sampledCount: 3 });
+    await expect(sampleAndCreateTasks(unknown._id.toString(), undefined, { forceRun: true })).resolves.toMatchObject({ sampledCount: 2 });
+
+    const audit = await SamplingAudit.findOne({ activityId: poor._id }).lean();
+    expect(audit!.samplingPercentage).toBe(15);
+    expect(audit!.metadata.riskAdjustment).toMatchObject({
+      officer: 'Poor Officer',
+      band: 'poor',
+      basePercentage: 10,
+      adjustedPercentage: 15,
+      metrics: { totalConnected: 4, identityWrongPct: 100, meetingValidityPct: 0 },
+    });
+    expect(audit!.metadata.riskAdjustment.reasons).toContain('Identity wrong on 100% of connected calls (limit 10%)');
+    expect((await SamplingAudit.findOne({ activityId: unknown._id }).lean())!.metadata.riskAdjustment.band).toBe('insufficient_data');
+  });
+
+  test('an explicit run percentage is not adjusted', async () => {
+    const activity = await makeActivity((await makeFarmers(10)).map((f) => f._id), { officerName: 'Poor Officer' });
+    await sampleAndCreateTasks(activity._id.toString(), 30, { forceRun: true });
+    const audit = await SamplingAudit.findOne({ activityId: activity._id }).lean();
+    expect(audit!.samplingPercentage).toBe(30);
+    expect(audit!.metadata.riskAdjustment).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  DEFAULT_DAILY_CAPACITY,
+  getRosterDay,
+  getDayStatus,
+  getAgentAvailability,
+  updateAgentRoster,
+  addLeaveDay,
+  getTeamRoster,
+} from '../../src/services/rosterService.js';
+import { makeFarmer, makeActivity, makeAgent, makeTeamLead, makeTask } from '../helpers/factories.js';
+
+// Wednesday 2026-01-07, 10:00 IST
+const WEDNESDAY = new Date('2026-01-07T04:30:00Z');
+
+describe('RS1: day status', () => {
+  test('roster day uses IST, not UTC', () => {
+    // 20:00 UTC on the 6th is already the 7th in India
+    expect(getRosterDay(new Date('2026-01-06T20:00:00Z'))).toEqual({ date: '2026-01-07', dayOfWeek: 3 });
+  });
+
+  test('no roster means on shift; leave beats a shift; no shift that weekday is an off day', () => {
+    const shifts = [{ dayOfWeek: 3, startTime: '09:00', endTime: '18:00' }];
+    expect(getDayStatus(null, WEDNESDAY).onShift).toBe(true);
+    expect(getDayStatus({ shifts, leaves: [] }, WEDNESDAY)).toMatchObject({ onShift: true, shift: shifts[0] });
+    expect(getDayStatus({ shifts, leaves: [{ date: '2026-01-07', reason: 'Sick' }] }, WEDNESDAY)).toMatchObject({
+      onShift: false,
+      offReason: 'leave',
+      leaveReason: 'Sick',
+    });
+    expect(getDayStatus({ shifts: [], leaves: [] }, WEDNESDAY)).toMatchObject({ onShift: false, offReason: 'off_day' });
+  });
+});
+
+describe('RS2: availability', () => {
+  test('remaining capacity subtracts the open queue; off-shift agents have none', async () => {
+    const lead = await makeTeamLead();
+    const busy = await makeAgent(lead._id);
+    const onLeave = await makeAgent(lead._id);
+    const unrostered = await makeAgent(lead._id);
+    const farmer = await makeFarmer();
+    const activity = await makeActivity([farmer._id]);
+
+    await updateAgentRoster(busy._id.toString(), { shifts: [{ dayOfWeek: 3, startTime: '09:00', endTime: '18:00' }], dailyCapacity: 3 }, lead);
+    await makeTask(farmer._id, activity._id, { status: 'sampled_in_queue', assignedAgentId: busy._id });
+    await makeTask(farmer._id, activity._id, { status: 'in_progress', assignedAgentId: busy._id });
+    await makeTask(farmer._id, activity._id, { status: 'completed', assignedAgentId: busy._id });
+    await addLeaveDay(onLeave._id.toString(), { date: '2026-01-07', reason: 'Festival' }, lead);
+
+    const availability = await getAgentAvailability([busy._id, onLeave._id, unrostered._id], WEDNESDAY);
+
+    expect(availability.get(busy._id.toString())).toMatchObject({ onShift: true, openTasks: 2, queuedTasks: 1, remainingCapacity: 1 });
+    expect(availability.get(onLeave._id.toString())).toMatchObject({ onShift: false, offReason: 'leave', remainingCapacity: 0 });
+    expect(availability.get(unrostered._id.toString())).toMatchObject({
+      onShift: true,
+      hasRoster: false,
+      remainingCapacity: DEFAULT_DAILY_CAPACITY,
+    });
+  });
+});
+
+describe('RS3: roster management', () => {
+  test('team leads cannot edit agents outside their team; the grid shows the week', async () => {
+    const lead = await makeTeamLead();
+    const otherLead = await makeTeamLead();
+    const agent = await makeAgent(lead._id, { name: 'Rostered' });
+
+    await expect(updateAgentRoster(agent._id.toString(), { dailyCapacity: 10 }, otherLead)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    await expect(
+      updateAgentRoster(agent._id.toString(), { shifts: [{ dayOfWeek: 1, startTime: '18:00', endTime: '09:00' }] }, lead)
+    ).rejects.toMatchObject({ statusCode: 400 });
+
+    await updateAgentRoster(
+      agent._id.toString(),
+      { shifts: [{ dayOfWeek: 3, startTime: '09:00', endTime: '18:00' }], dailyCapacity: 40 },
+      lead
+    );
+    const roster = await getTeamRoster(lead, WEDNESDAY);
+
+    expect(roster.days).toHaveLength(7);
+    expect(roster.agents).toHaveLength(1);
+    expect(roster.agents[0]).toMatchObject({ name: 'Rostered', dailyCapacity: 40, hasRoster: true });
+    expect(roster.agents[0].week.map((d) => d.onShift)).toEqual([true, false, false, false, false, false, false]);
+  });
+});
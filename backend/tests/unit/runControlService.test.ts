@@ -0,0 +1,115 @@
+import mongoose from 'mongoose';
+import {
+  claimRunForResume,
+  requestRunCancel,
+  sweepStaleRuns,
+  RUN_RESUMABLE_FOR_MS,
+  RUN_STALE_AFTER_MS,
+} from '../../src/services/runControlService.js';
+import { executeSamplingRun } from '../../src/services/samplingRunService.js';
+import { SamplingRun } from '../../src/models/SamplingRun.js';
+import { AllocationRun } from '../../src/models/AllocationRun.js';
+import { SamplingConfig } from '../../src/models/SamplingConfig.js';
+import { CallTask } from '../../src/models/CallTask.js';
+import { makeFarmers, makeActivity, makeTeamLead } from '../helpers/factories.js';
+
+beforeEach(async () => {
+  await SamplingConfig.findOneAndUpdate(
+    { key: 'default' },
+    {
+      isActive: true,
+      activityCoolingDays: 5,
+      farmerCoolingDays: 30,
+      defaultPercentage: 10,
+      eligibleActivityTypes: [],
+      taskDueInDays: 0,
+    },
+    { upsert: true, new: true }
+  );
+});
+
+const ago = (ms: number) => new Date(Date.now() - ms);
+const oid = () => new mongoose.Types.ObjectId();
+
+describe('RC1: stale run sweep', () => {
+  test('abandoned runs become interrupted, failed or cancelled; live ones are left alone', async () => {
+    const stale = ago(RUN_STALE_AFTER_MS + 60_000);
+    const resumable = await SamplingRun.create({
+      status: 'running',
+      processed: 1,
+      lastProgressAt: stale,
+      plan: [{ officerId: null, target: null, activityIds: [oid(), oid()] }],
+    });
+    const finishedPlan = await SamplingRun.create({
+      status: 'running',
+      processed: 2,
+      lastProgressAt: stale,
+      plan: [{ officerId: null, target: null, activityIds: [oid(), oid()] }],
+    });
+    const tooOld = await AllocationRun.create({
+      status: 'running',
+      processed: 0,
+      lastProgressAt: ago(RUN_RESUMABLE_FOR_MS + 60_000),
+      plan: [{ taskId: oid() }],
+    });
+    const cancelPending = await AllocationRun.create({
+      status: 'running',
+      processed: 0,
+      lastProgressAt: stale,
+      cancelRequestedAt: stale,
+      plan: [{ taskId: oid() }],
+    });
+    const live = await SamplingRun.create({ status: 'running', processed: 0, lastProgressAt: new Date(), plan: [] });
+
+    await expect(sweepStaleRuns()).resolves.toEqual({ interrupted: 1, failed: 2, cancelled: 1 });
+
+    const status = async (model: mongoose.Model<any>, id: mongoose.Types.ObjectId) =>
+      (await model.findById(id).lean<{ status: string }>())?.status;
+    expect(await status(SamplingRun, resumable._id)).toBe('interrupted');
+    expect(await status(SamplingRun, finishedPlan._id)).toBe('failed');
+    expect(await status(AllocationRun, tooOld._id)).toBe('failed');
+    expect(await status(AllocationRun, cancelPending._id)).toBe('cancelled');
+    expect(await status(SamplingRun, live._id)).toBe('running');
+    expect((await SamplingRun.findById(finishedPlan._id).lean())!.errorMessages!.at(-1)).toMatch(/run abandoned/);
+  });
+});
+
+describe('RC2: cancel and resume a sampling run', () => {
+  test('a cancelled run stops at the next activity and resumes from its cursor', async () => {
+    const lead = await makeTeamLead();
+    const activities = [];
+    for (let i = 0; i < 3; i++) activities.push(await makeActivity((await makeFarmers(10)).map((f) => f._id)));
+    const run = await SamplingRun.create({
+      createdByUserId: lead._id,
+      runType: 'adhoc',
+      status: 'running',
+      matched: 3,
+      lastProgressAt: new Date(),
+      seed: 'rc2',
+      scheduledDate: new Date(),
+      plan: [{ officerId: null, target: null, activityIds: activities.map((a) => a._id) }],
+    });
+    const actor = { userId: lead._id, isAdmin: false };
+
+    // Not executing yet, but recently active: the cancel is only requested
+    await expect(requestRunCancel('sampling', run._id.toString(), actor)).resolves.toBe('running');
+    const first = await executeSamplingRun(run._id);
+    expect(first).toMatchObject({ status: 'cancelled', processed: 1, tasksCreatedTotal: 1 });
+    expect(await CallTask.countDocuments({ samplingRunId: run._id })).toBe(1);
+
+    // Someone else's run is invisible to a team lead
+    const other = await makeTeamLead();
+    await expect(claimRunForResume('sampling', run._id.toString(), { userId: other._id, isAdmin: false })).rejects.toMatchObject({
+      statusCode: 404,
+    });
+
+    await claimRunForResume('sampling', run._id.toString(), actor);
+    const second = await executeSamplingRun(run._id);
+    expect(second).toMatchObject({ status: 'completed', processed: 3, tasksCreatedTotal: 3 });
+    const saved = await SamplingRun.findById(run._id).lean();
+    expect(saved).toMatchObject({ status: 'completed', resumeCount: 1, cancelRequestedAt: null });
+    for (const a of activities) expect(await CallTask.countDocuments({ activityId: a._id })).toBe(1);
+
+    await expect(claimRunForResume('sampling', run._id.toString(), actor)).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  createSamplingPolicy,
+  updateSamplingPolicy,
+  getSamplingPolicyWithHistory,
+  pickSamplingPolicy,
+  resolveSamplingPolicy,
+  policyPercentage,
+} from '../../src/services/samplingPolicyService.js';
+import { makeTeamLead } from '../helpers/factories.js';
+
+const policy = (overrides: Record<string, any> = {}) => ({
+  _id: overrides.name || 'p',
+  name: 'p',
+  scope: { buNames: [], zoneNames: [], states: [], activityTypes: [] },
+  priority: 0,
+  effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+  effectiveTo: null,
+  isActive: true,
+  defaultPercentage: 10,
+  activityTypePercentages: {},
+  version: 1,
+  ...overrides,
+});
+
+const activity = { type: 'Field Day', date: new Date('2026-03-10T06:00:00Z'), buName: 'South', zoneName: 'Z1', state: 'Karnataka' };
+
+describe('SP1: policy resolution', () => {
+  test('scope lists match case-insensitively; empty lists match anything', () => {
+    const south = policy({ name: 'south', scope: { buNames: ['south'], zoneNames: [], states: [], activityTypes: [] } });
+    const north = policy({ name: 'north', scope: { buNames: ['North'], zoneNames: [], states: [], activityTypes: [] } });
+    expect(pickSamplingPolicy([north, south], activity)?.name).toBe('south');
+    expect(pickSamplingPolicy([north], activity)).toBeNull();
+  });
+
+  test('priority wins, then the more specific scope; inactive and out-of-window policies are ignored', () => {
+    const broad = policy({ name: 'broad', priority: 5 });
+    const specific = policy({ name: 'specific', priority: 5, scope: { buNames: ['South'], zoneNames: [], states: ['Karnataka'], activityTypes: [] } });
+    const expired = policy({ name: 'expired', priority: 9, effectiveTo: new Date('2026-02-28T00:00:00Z') });
+    const retired = policy({ name: 'retired', priority: 9, isActive: false });
+    expect(pickSamplingPolicy([broad, specific, expired, retired], activity)?.name).toBe('specific');
+    expect(pickSamplingPolicy([broad, policy({ name: 'urgent', priority: 6 })], activity)?.name).toBe('urgent');
+  });
+
+  test('type-specific rate beats the policy default', () => {
+    const p = policy({ defaultPercentage: 15, activityTypePercentages: { 'Field Day': 40 } });
+    expect(policyPercentage(p, 'Field Day')).toBe(40);
+    expect(policyPercentage(p, 'OFM')).toBe(15);
+  });
+});
+
+describe('SP2: versioning', () => {
+  test('each edit bumps the version and keeps a snapshot; no-op edits do not', async () => {
+    const lead = await makeTeamLead();
+    const created = await createSamplingPolicy(
+      { name: 'South launch', scope: { buNames: ['South'] }, effectiveFrom: '2026-03-01', effectiveTo: '2026-03-31', defaultPercentage: 25 },
+      lead
+    );
+    expect(created.version).toBe(1);
+    // Date-only bounds cover whole IST days
+    expect(created.effectiveTo!.toISOString()).toBe('2026-03-31T18:29:59.999Z');
+
+    await updateSamplingPolicy(created._id.toString(), { defaultPercentage: 30 }, lead);
+    await updateSamplingPolicy(created._id.toString(), { defaultPercentage: 30 }, lead);
+    const { policy: saved, versions } = await getSamplingPolicyWithHistory(created._id.toString());
+
+    expect(saved.version).toBe(2);
+    expect(versions.map((v) => [v.version, v.snapshot.defaultPercentage])).toEqual([
+      [2, 30],
+      [1, 25],
+    ]);
+    await expect(resolveSamplingPolicy(activity)).resolves.toMatchObject({ name: 'South launch', version: 2 });
+  });
+
+  test('rejects duplicate names and inverted date windows', async () => {
+    const lead = await makeTeamLead();
+    await createSamplingPolicy({ name: 'Default push', effectiveFrom: '2026-01-01', defaultPercentage: 20 }, lead);
+    await expect(
+      createSamplingPolicy({ name: 'Default push', effectiveFrom: '2026-01-01', defaultPercentage: 20 }, lead)
+    ).rejects.toMatchObject({ statusCode: 409 });
+    await expect(
+      createSamplingPolicy({ name: 'Backwards', effectiveFrom: '2026-02-01', effectiveTo: '2026-01-01', defaultPercentage: 20 }, lead)
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  test('an edit of a version that has since been replaced gets a 409', async () => {
+    const lead = await makeTeamLead();
+    const created = await createSamplingPolicy({ name: 'Stale tab', effectiveFrom: '2026-01-01', defaultPercentage: 20 }, lead);
+    const id = created._id.toString();
+
+    await updateSamplingPolicy(id, { defaultPercentage: 30 }, lead, 1);
+    await expect(updateSamplingPolicy(id, { priority: 5 }, lead, 1)).rejects.toMatchObject({ statusCode: 409 });
+    const saved = await updateSamplingPolicy(id, { priority: 5 }, lead, 2);
+    expect(saved).toMatchObject({ version: 3, defaultPercentage: 30, priority: 5 });
+  });
+
+  test('two concurrent edits of the same version: one is saved, the other gets a 409', async () => {
+    const lead = await makeTeamLead();
+    const created = await createSamplingPolicy({ name: 'Contended', effectiveFrom: '2026-01-01', defaultPercentage: 20 }, lead);
+    const id = created._id.toString();
+
+    const results = await Promise.allSettled([
+      updateSamplingPolicy(id, { defaultPercentage: 30 }, lead, 1),
+      updateSamplingPolicy(id, { defaultPercentage: 40 }, lead, 1),
+    ]);
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(rejected?.reason).toMatchObject({ statusCode: 409 });
+
+    const { policy: saved, versions } = await getSamplingPolicyWithHistory(id);
+    expect(saved.version).toBe(2);
+    expect(versions.find((v) => v.version === 2)?.snapshot.defaultPercentage).toBe(saved.defaultPercentage);
+  });
+});
@@ -1,12 +1,16 @@
-import { sampleAndCreateTasks } from '../../src/services/samplingService.js';
+import { sampleAndCreateTasks, verifySamplingAudit } from '../../src/services/samplingService.js';
 import { Activity } from '../../src/models/Activity.js';
 import { CallTask } from '../../src/models/CallTask.js';
 import { SamplingAudit } from '../../src/models/SamplingAudit.js';
 import { SamplingConfig } from '../../src/models/SamplingConfig.js';
+import mongoose from 'mongoose';
+import { createSamplingPolicy, updateSamplingPolicy } from '../../src/services/samplingPolicyService.js';
 import {
   makeFarmer,
   makeFarmers,
   makeActivity,
+  makeTask,
+  makeTeamLead,
   putInCooling,
 } from '../helpers/factories.js';
 
@@ -21,6 +25,7 @@ const resetConfig = () =>
       defaultPercentage: 10,
       eligibleActivityTypes: [], // empty = all eligible
       taskDueInDays: 0,
+      stratification: { mode: 'uniform', strataBy: 'location', allocation: 'proportional', minPerStratum: 0 },
     },
     { upsert: true, new: true }
   );
@@ -374,6 +379,114 @@ describe('S15: activity cooling gate', () => {
   });
 });
 
+describe('S16: stratified sampling', () => {
+  test('floors guarantee every location is sampled and the audit records the strata', async () => {
+    await SamplingConfig.updateOne(
+      { key: 'default' },
+      { $set: { stratification: { mode: 'stratified', strataBy: 'location', allocation: 'proportional', minPerStratum: 1 } } }
+    );
+    const large = await makeFarmers(18, { location: 'Nashik' });
+    const small = await makeFarmers(2, { location: 'Pune' });
+    const activity = await makeActivity([...large, ...small].map((f) => f._id));
+
+    // 10% of 20 is 2; proportional alone would give Pune nothing
+    const result = await sampleAndCreateTasks(activity._id.toString(), 10, { forceRun: true });
+
+    const tasks = await CallTask.find({ activityId: activity._id }).populate('farmerId', 'location');
+    const locations = tasks.map((t: any) => t.farmerId.location).sort();
+    expect(result.sampledCount).toBe(2);
+    expect(locations).toEqual(['Nashik', 'Pune']);
+
+    const audit = await SamplingAudit.findOne({ activityId: activity._id });
+    expect(audit!.algorithm).toBe('Stratified Reservoir Sampling');
+    expect(audit!.metadata.stratification).toMatchObject({
+      strataBy: 'location',
+      allocation: 'proportional',
+      minPerStratum: 1,
+      strata: [
+        { key: 'Nashik', population: 18, sampled: 1 },
+        { key: 'Pune', population: 2, sampled: 1 },
+      ],
+    });
+  });
+
+  test('uniform mode keeps plain reservoir sampling', async () => {
+    const farmers = await makeFarmers(4);
+    const activity = await makeActivity(farmers.map((f) => f._id));
+
+    await sampleAndCreateTasks(activity._id.toString(), 50, { forceRun: true });
+
+    const audit = await SamplingAudit.findOne({ activityId: activity._id });
+    expect(audit!.algorithm).toBe('Reservoir Sampling');
+    expect(audit!.metadata.stratification).toBeNull();
+  });
+});
+
+describe('S17: seeded sampling and audit verification', () => {
+  test('the audit records the seed and ordered frame, and the replay matches the tasks', async () => {
+    const farmers = await makeFarmers(30);
+    const first = await makeActivity(farmers.map((f) => f._id));
+    await sampleAndCreateTasks(first._id.toString(), 20, { forceRun: true, seed: 'fixed-seed' });
+    const audit = await SamplingAudit.findOne({ activityId: first._id });
+
+    expect(audit!.metadata.seed).toBe('fixed-seed');
+    expect(audit!.metadata.sampleFrame).toEqual(farmers.map((f) => f._id.toString()));
+    expect(audit!.metadata.sampleSize).toBe(6);
+
+    const verification = await verifySamplingAudit(first._id.toString());
+    expect(verification).toMatchObject({ verifiable: true, matches: true, replayedCount: 6, missingTasks: [] });
+  });
+
+  test('a deleted or extra task makes verification fail', async () => {
+    const farmers = await makeFarmers(10);
+    const activity = await makeActivity(farmers.map((f) => f._id));
+    await sampleAndCreateTasks(activity._id.toString(), 30, { forceRun: true });
+
+    const removed = await CallTask.findOneAndDelete({ activityId: activity._id });
+    const sampled = new Set((await CallTask.find({ activityId: activity._id })).map((t) => t.farmerId.toString()));
+    const outsider = farmers.find((f) => !sampled.has(f._id.toString()) && !f._id.equals(removed!.farmerId))!;
+    await makeTask(outsider._id, activity._id);
+
+    const verification = await verifySamplingAudit(activity._id.toString());
+    expect(verification.matches).toBe(false);
+    expect(verification.missingTasks).toEqual([removed!.farmerId.toString()]);
+    expect(verification.unexpectedTasks).toEqual([outsider._id.toString()]);
+  });
+
+  test('audits without a seed are reported as not verifiable', async () => {
+    const activity = await makeActivity([]);
+    await SamplingAudit.create({ activityId: activity._id, samplingPercentage: 10, totalFarmers: 0, sampledCount: 0 });
+
+    await expect(verifySamplingAudit(activity._id.toString())).resolves.toMatchObject({ verifiable: false, matches: false });
+    await expect(verifySamplingAudit(new mongoose.Types.ObjectId().toString())).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('S18: sampling policies', () => {
+  test('a matching policy sets the rate and the audit records its version', async () => {
+    const lead = await makeTeamLead();
+    const policy = await createSamplingPolicy(
+      { name: 'South push', scope: { buNames: ['South'] }, effectiveFrom: '2020-01-01', defaultPercentage: 20 },
+      lead
+    );
+    await updateSamplingPolicy(policy._id.toString(), { defaultPercentage: 50 }, lead);
+    const farmers = await makeFarmers(10);
+    const south = await makeActivity(farmers.slice(0, 5).map((f) => f._id), { buName: 'South' });
+    const north = await makeActivity(farmers.slice(5).map((f) => f._id), { buName: 'North' });
+
+    const southResult = await sampleAndCreateTasks(south._id.toString(), undefined, { forceRun: true });
+    const northResult = await sampleAndCreateTasks(north._id.toString(), undefined, { forceRun: true });
+
+    // 50% of 5 → 3 under the policy; config default 10% of 5 → 1
+    expect(southResult.sampledCount).toBe(3);
+    expect(northResult.sampledCount).toBe(1);
+    const audit = await SamplingAudit.findOne({ activityId: south._id });
+    expect(audit!.samplingPercentage).toBe(50);
+    expect(audit!.metadata.policy).toEqual({ policyId: policy._id.toString(), name: 'South push', version: 2 });
+    expect((await SamplingAudit.findOne({ activityId: north._id }))!.metadata.policy).toBeNull();
+  });
+});
+
 // ─── Idempotency ──────────────────────────────────────────────────────────────
 
 describe('idempotency: running sampling twice on same activity', () => {
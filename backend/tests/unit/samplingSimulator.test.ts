@@ -0,0 +1,68 @@
+import { simulateSampling } from '../../src/services/samplingSimulator.js';
+import { Activity } from '../../src/models/Activity.js';
+import { CallTask } from '../../src/models/CallTask.js';
+import { CoolingPeriod } from '../../src/models/CoolingPeriod.js';
+import { SamplingAudit } from '../../src/models/SamplingAudit.js';
+import { SamplingConfig } from '../../src/models/SamplingConfig.js';
+import { makeFarmers, makeActivity, makeAgent, makeTeamLead, putInCooling } from '../helpers/factories.js';
+
+beforeEach(async () => {
+  await SamplingConfig.findOneAndUpdate(
+    { key: 'default' },
+    {
+      isActive: true,
+      activityCoolingDays: 5,
+      farmerCoolingDays: 30,
+      defaultPercentage: 10,
+      activityTypePercentages: {},
+      eligibleActivityTypes: [],
+      stratification: { mode: 'uniform', strataBy: 'location', allocation: 'proportional', minPerStratum: 0 },
+    },
+    { upsert: true, new: true }
+  );
+});
+
+describe('SIM1: what-if sampling', () => {
+  test('compares current and candidate config without writing anything', async () => {
+    const lead = await makeTeamLead();
+    await makeAgent(lead._id, { languageCapabilities: ['Hindi'] });
+    const hindi = await makeFarmers(20, { preferredLanguage: 'Hindi' });
+    const marathi = await makeFarmers(10, { preferredLanguage: 'Marathi' });
+    await putInCooling(hindi[0]._id);
+    const fieldDay = await makeActivity(hindi.map((f) => f._id), { type: 'Field Day', state: 'Maharashtra' });
+    await makeActivity(marathi.map((f) => f._id), { type: 'Group Meeting', state: 'Gujarat' });
+
+    const result = await simulateSampling(lead, { defaultPercentage: 50, eligibleActivityTypes: ['Field Day'] });
+
+    // Current: 10% of 19 eligible → 2, 10% of 10 → 1
+    expect(result.current.projectedTasks).toBe(3);
+    expect(result.current.farmers).toEqual({ total: 30, eligible: 29, blockedByCooling: 1, blockedByDoNotCall: 0 });
+    // Candidate: 50% of 19 → 10; Group Meeting is no longer eligible
+    expect(result.candidate.projectedTasks).toBe(10);
+    expect(result.candidate.activities).toMatchObject({ considered: 2, sampled: 1, skippedIneligibleType: 1 });
+    expect(result.candidate.byLanguage).toEqual([{ language: 'Hindi', tasks: 10, agents: 1, dailyCapacity: 60, daysToClear: 1 }]);
+    expect(result.candidate.byState).toEqual([{ state: 'Maharashtra', tasks: 10 }]);
+    expect(result.candidate.workload).toMatchObject({ agents: 1, onShiftToday: 1, dailyCapacity: 60, projectedTasks: 10 });
+
+    expect(await CallTask.countDocuments()).toBe(0);
+    expect(await SamplingAudit.countDocuments()).toBe(0);
+    expect(await CoolingPeriod.countDocuments()).toBe(1);
+    expect((await Activity.findById(fieldDay._id))!.lifecycleStatus).toBe('active');
+  });
+
+  test('a farmer in two activities is only projected once while cooling applies', async () => {
+    const lead = await makeTeamLead();
+    const farmers = await makeFarmers(1);
+    await makeActivity([farmers[0]._id]);
+    await makeActivity([farmers[0]._id]);
+
+    const withCooling = await simulateSampling(lead, {});
+    const withoutCooling = await simulateSampling(lead, { farmerCoolingDays: 0 });
+
+    expect(withCooling.current.projectedTasks).toBe(1);
+    expect(withCooling.current.farmers.blockedByCooling).toBe(1);
+    expect(withoutCooling.candidate.projectedTasks).toBe(2);
+    // Languages without an agent on shift cannot be cleared
+    expect(withCooling.current.byLanguage[0]).toMatchObject({ agents: 0, daysToClear: null });
+  });
+});
@@ -0,0 +1,57 @@
+import { allocateStrata, stratifiedSampling } from '../../src/utils/stratifiedSampling.js';
+
+const toObject = (alloc: Map<string, number>) => Object.fromEntries(alloc);
+
+describe('allocateStrata', () => {
+  const populations = [
+    { key: 'A', population: 60 },
+    { key: 'B', population: 30 },
+    { key: 'C', population: 10 },
+  ];
+
+  test('proportional follows population share', () => {
+    expect(toObject(allocateStrata(populations, 10, 'proportional'))).toEqual({ A: 6, B: 3, C: 1 });
+  });
+
+  test('equal levels strata and stops small ones at their population', () => {
+    expect(toObject(allocateStrata(populations, 9, 'equal'))).toEqual({ A: 3, B: 3, C: 3 });
+    expect(toObject(allocateStrata([{ key: 'A', population: 10 }, { key: 'B', population: 1 }], 6, 'equal'))).toEqual({
+      A: 5,
+      B: 1,
+    });
+  });
+
+  test('floors come first and are capped at the stratum size', () => {
+    const alloc = allocateStrata([{ key: 'A', population: 97 }, { key: 'B', population: 2 }, { key: 'C', population: 1 }], 10, 'proportional', 2);
+    expect(toObject(alloc)).toEqual({ A: 7, B: 2, C: 1 });
+  });
+
+  test('floors larger than the sample are shared equally', () => {
+    expect(toObject(allocateStrata(populations, 2, 'proportional', 5))).toEqual({ A: 1, B: 1, C: 0 });
+  });
+
+  test('never allocates more than the population', () => {
+    expect(toObject(allocateStrata(populations, 500, 'proportional'))).toEqual({ A: 60, B: 30, C: 10 });
+  });
+});
+
+describe('stratifiedSampling', () => {
+  test('groups keys case-insensitively, puts blanks in Unknown and samples within each stratum', () => {
+    const items = [
+      ...Array.from({ length: 6 }, (_, i) => ({ id: `h${i}`, lang: i % 2 ? 'hindi' : 'Hindi' })),
+      ...Array.from({ length: 3 }, (_, i) => ({ id: `m${i}`, lang: 'Marathi' })),
+      { id: 'x', lang: '  ' },
+    ];
+
+    const { sample, strata } = stratifiedSampling(items, (i) => i.lang, 5, { allocation: 'proportional', minPerStratum: 1 });
+
+    expect(sample).toHaveLength(5);
+    expect(new Set(sample.map((s) => s.id)).size).toBe(5);
+    expect(strata).toEqual([
+      { key: 'Hindi', population: 6, sampled: 3 },
+      { key: 'Marathi', population: 3, sampled: 1 },
+      { key: 'Unknown', population: 1, sampled: 1 },
+    ]);
+    expect(sample.filter((s) => s.id.startsWith('h'))).toHaveLength(3);
+  });
+});
@@ -0,0 +1,171 @@
+import { CallSession } from '../../src/models/CallSession.js';
+import {
+  SimulatorTelephonyAdapter,
+  TelephonyAdapter,
+  startCall,
+  applyTelephonyEvent,
+  callOutcomeFromSession,
+  findSessionForSubmission,
+  hangupCall,
+} from '../../src/services/telephonyService.js';
+import { makeFarmer, makeActivity, makeAgent, makeTeamLead, makeTask } from '../helpers/factories.js';
+
+// In-process adapter; records what the service asked the provider to do
+const makeAdapter = (overrides: Partial<TelephonyAdapter> = {}): TelephonyAdapter & { hangups: string[] } => {
+  const hangups: string[] = [];
+  let n = 0;
+  return {
+    name: 'test',
+    hangups,
+    dial: async () => ({ providerCallId: `CALL-${++n}` }),
+    hangup: async (id: string) => {
+      hangups.push(id);
+    },
+    sendDtmf: async () => undefined,
+    parseEvent: () => {
+      throw new Error('not used');
+    },
+    ...overrides,
+  };
+};
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 5, 0, seconds));
+
+const setup = async () => {
+  const teamLead = await makeTeamLead();
+  const agent = await makeAgent(teamLead._id);
+  const farmer = await makeFarmer();
+  const activity = await makeActivity([farmer._id]);
+  const task = await makeTask(farmer._id, activity._id, { status: 'in_progress', assignedAgentId: agent._id });
+  return { agent, farmer, task };
+};
+
+describe('TEL1: call session events', () => {
+  test('ringing → answered → hungup gives a Connected outcome with provider duration', async () => {
+    const { agent, farmer, task } = await setup();
+    const session = await startCall(task._id, agent._id, farmer.mobileNumber, makeAdapter());
+
+    await applyTelephonyEvent('test', { eventId: 'e1', providerCallId: session.providerCallId!, type: 'ringing', at: at(0) });
+    await applyTelephonyEvent('test', { eventId: 'e2', providerCallId: session.providerCallId!, type: 'answered', at: at(5) });
+    const ended = await applyTelephonyEvent('test', {
+      eventId: 'e3',
+      providerCallId: session.providerCallId!,
+      type: 'hungup',
+      at: at(65),
+      hangupCause: 'normal',
+    });
+
+    expect(ended.status).toBe('ended');
+    expect(ended.durationSeconds).toBe(60);
+    expect(callOutcomeFromSession(ended)).toEqual({ callStatus: 'Connected', callDurationSeconds: 60 });
+  });
+
+  test('replayed and out-of-order events do not change the session', async () => {
+    const { agent, farmer, task } = await setup();
+    const session = await startCall(task._id, agent._id, farmer.mobileNumber, makeAdapter());
+    const callId = session.providerCallId!;
+
+    await applyTelephonyEvent('test', { eventId: 'a', providerCallId: callId, type: 'answered', at: at(3) });
+    await applyTelephonyEvent('test', { eventId: 'a', providerCallId: callId, type: 'answered', at: at(3) });
+    const latest = await applyTelephonyEvent('test', { eventId: 'r', providerCallId: callId, type: 'ringing', at: at(4) });
+
+    expect(latest.status).toBe('answered');
+    expect(latest.events.map((e) => e.eventId)).toEqual(['a', 'r']);
+  });
+
+  test('events delivered at the same time are each applied once and end in the latest state', async () => {
+    const { agent, farmer, task } = await setup();
+    const session = await startCall(task._id, agent._id, farmer.mobileNumber, makeAdapter());
+    const callId = session.providerCallId!;
+
+    await Promise.all([
+      applyTelephonyEvent('test', { eventId: 'r', providerCallId: callId, type: 'ringing', at: at(1) }),
+      applyTelephonyEvent('test', { eventId: 'a', providerCallId: callId, type: 'answered', at: at(4) }),
+      applyTelephonyEvent('test', { eventId: 'a', providerCallId: callId, type: 'answered', at: at(4) }),
+      applyTelephonyEvent('test', { eventId: 'r', providerCallId: callId, type: 'ringing', at: at(1) }),
+    ]);
+
+    const saved = await CallSession.findById(session._id).lean();
+    expect(saved?.status).toBe('answered');
+    expect(saved?.answeredAt).toEqual(at(4));
+    expect(saved?.events.map((e) => e.eventId).sort()).toEqual(['a', 'r']);
+  });
+
+  test('an event arriving before dial() returns is matched by reference', async () => {
+    const { agent, task } = await setup();
+    const pending = await CallSession.create({ taskId: task._id, agentId: agent._id, provider: 'test', toNumber: '9000000000' });
+
+    const session = await applyTelephonyEvent('test', {
+      eventId: 'early',
+      providerCallId: 'CALL-X',
+      reference: pending._id.toString(),
+      type: 'ringing',
+      at: at(1),
+    });
+
+    expect(session.providerCallId).toBe('CALL-X');
+    expect(session.status).toBe('ringing');
+  });
+
+  test('unanswered hang-up causes map to outbound statuses', () => {
+    const ended = { status: 'ended' as const, answeredAt: null, durationSeconds: 0 };
+    expect(callOutcomeFromSession({ ...ended, hangupCause: 'no_answer' })?.callStatus).toBe('No Answer');
+    expect(callOutcomeFromSession({ ...ended, hangupCause: 'busy' })?.callStatus).toBe('Disconnected');
+    expect(callOutcomeFromSession({ ...ended, hangupCause: 'unreachable' })?.callStatus).toBe('Incoming N/A');
+    expect(callOutcomeFromSession({ ...ended, hangupCause: 'invalid_number' })?.callStatus).toBe('Invalid');
+    expect(callOutcomeFromSession({ ...ended, status: 'ringing', hangupCause: null })).toBeNull();
+  });
+});
+
+describe('TEL2: dialing and submission', () => {
+  test('a failed dial marks the session failed and is skipped at submission', async () => {
+    const { agent, farmer, task } = await setup();
+    const failing = makeAdapter({ dial: async () => Promise.reject(new Error('down')) });
+
+    await expect(startCall(task._id, agent._id, farmer.mobileNumber, failing)).rejects.toMatchObject({ statusCode: 502 });
+    expect(await CallSession.countDocuments({ status: 'failed' })).toBe(1);
+    expect(await findSessionForSubmission(task._id.toString(), agent._id.toString())).toBeNull();
+  });
+
+  test('a live call blocks submission and a second dial', async () => {
+    const { agent, farmer, task } = await setup();
+    await startCall(task._id, agent._id, farmer.mobileNumber, makeAdapter());
+
+    await expect(findSessionForSubmission(task._id.toString(), agent._id.toString())).rejects.toMatchObject({ statusCode: 409 });
+    await expect(startCall(task._id, agent._id, farmer.mobileNumber, makeAdapter())).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  test('agent hang-up ends the session and tells the provider', async () => {
+    const { agent, farmer, task } = await setup();
+    const adapter = makeAdapter();
+    const session = await startCall(task._id, agent._id, farmer.mobileNumber, adapter);
+
+    const ended = await hangupCall(session._id.toString(), agent._id.toString(), adapter);
+
+    expect(adapter.hangups).toEqual([session.providerCallId]);
+    expect(ended.hangupCause).toBe('agent_hangup');
+    expect(callOutcomeFromSession(ended)?.callStatus).toBe('No Answer');
+  });
+});
+
+describe('TEL3: simulator webhook verification', () => {
+  const original = process.env.TELEPHONY_WEBHOOK_SECRET;
+  afterEach(() => {
+    if (original === undefined) delete process.env.TELEPHONY_WEBHOOK_SECRET;
+    else process.env.TELEPHONY_WEBHOOK_SECRET = original;
+  });
+
+  test('rejects a wrong secret and normalises a valid DTMF event', () => {
+    process.env.TELEPHONY_WEBHOOK_SECRET = 'sim-secret';
+    const adapter = new SimulatorTelephonyAdapter('http://localhost:4100/api');
+    const body = { eventId: 'd1', callId: 'SIM-1', event: 'dtmf', digits: '12#', timestamp: at(9).toISOString() };
+
+    expect(() => adapter.parseEvent({ 'x-telephony-secret': 'nope' }, body)).toThrow('X-Telephony-Secret');
+    expect(adapter.parseEvent({ 'x-telephony-secret': 'sim-secret' }, body)).toMatchObject({
+      type: 'dtmf',
+      digits: '12#',
+      direction: 'inbound',
+      providerCallId: 'SIM-1',
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { CallTask } from '../../src/models/CallTask.js';
+import {
+  subscribeLiveEvents,
+  publishTaskStatus,
+  getLiveEventScope,
+  isEventVisible,
+  LiveEvent,
+} from '../../src/services/liveEventsService.js';
+import { getWallboardSnapshot } from '../../src/services/wallboardService.js';
+import { makeFarmer, makeActivity, makeAgent, makeTeamLead, makeAdmin, makeTask } from '../helpers/factories.js';
+
+const MIN_MS = 60 * 1000;
+
+describe('LE1: live event scope', () => {
+  test('team lead sees their agents, shared backlog and own allocation runs only', async () => {
+    const lead = await makeTeamLead();
+    const otherLead = await makeTeamLead();
+    const mine = await makeAgent(lead._id);
+    const theirs = await makeAgent(otherLead._id);
+    const scope = await getLiveEventScope(lead);
+
+    const status = (agentId: string | null): LiveEvent => ({
+      type: 'task.status',
+      taskId: 'T1',
+      agentId,
+      from: 'sampled_in_queue',
+      to: 'in_progress',
+      at: new Date(),
+    });
+    const run = (createdByUserId: string): LiveEvent => ({
+      type: 'allocation.progress',
+      runId: 'R1',
+      kind: 'allocate',
+      createdByUserId,
+      status: 'running',
+      total: 10,
+      processed: 5,
+      allocated: 5,
+      skipped: 0,
+      at: new Date(),
+    });
+
+    expect(isEventVisible(status(mine._id.toString()), scope)).toBe(true);
+    expect(isEventVisible(status(null), scope)).toBe(true);
+    expect(isEventVisible(status(theirs._id.toString()), scope)).toBe(false);
+    expect(isEventVisible(run(lead._id.toString()), scope)).toBe(true);
+    expect(isEventVisible(run(otherLead._id.toString()), scope)).toBe(false);
+    expect(isEventVisible(status(theirs._id.toString()), await getLiveEventScope(await makeAdmin()))).toBe(true);
+  });
+
+  test('subscribers receive status changes; unchanged status is not published', () => {
+    const received: LiveEvent[] = [];
+    const unsubscribe = subscribeLiveEvents((e) => received.push(e));
+
+    publishTaskStatus({ _id: 'T1', assignedAgentId: 'A1' }, 'sampled_in_queue', 'in_progress');
+    publishTaskStatus({ _id: 'T1', assignedAgentId: 'A1' }, 'in_progress', 'in_progress');
+    unsubscribe();
+    publishTaskStatus({ _id: 'T2', assignedAgentId: 'A1' }, 'in_progress', 'completed');
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ type: 'task.status', taskId: 'T1', agentId: 'A1', to: 'in_progress' });
+  });
+});
+
+describe('WB1: wallboard snapshot', () => {
+  test('backlog by language, connected % today and calls per agent in the last hour', async () => {
+    const lead = await makeTeamLead();
+    const agentA = await makeAgent(lead._id, { name: 'Agent A' });
+    const agentB = await makeAgent(lead._id, { name: 'Agent B' });
+    const hindi = await makeFarmer({ preferredLanguage: 'Hindi' });
+    const telugu = await makeFarmer({ preferredLanguage: 'Telugu' });
+    const activity = await makeActivity([hindi._id, telugu._id]);
+
+    await makeTask(hindi._id, activity._id, { status: 'unassigned' });
+    await makeTask(telugu._id, activity._id, { status: 'sampled_in_queue', assignedAgentId: agentA._id });
+    const done = await makeTask(hindi._id, activity._id, { status: 'completed', assignedAgentId: agentA._id, callbackNumber: 1 });
+
+    // Midday, so "30 minutes ago" is always still today
+    const now = new Date();
+    now.setHours(12, 0, 0, 0);
+    const attempt = (n: number, callStatus: string, minutesAgo: number, agentId = agentA._id) => ({
+      attemptNumber: n,
+      agentId,
+      callStatus,
+      timestamp: new Date(now.getTime() - minutesAgo * MIN_MS),
+      resultingStatus: 'completed',
+    });
+    await CallTask.updateOne(
+      { _id: done._id },
+      { $set: { callAttempts: [attempt(1, 'No Answer', 30), attempt(2, 'Connected', 10), attempt(3, 'Connected', 5, agentB._id)] } }
+    );
+
+    const snapshot = await getWallboardSnapshot(lead, now);
+
+    expect(snapshot.backlogByLanguage).toEqual([
+      { language: 'Hindi', unassigned: 1, queued: 0, inProgress: 0, total: 1 },
+      { language: 'Telugu', unassigned: 0, queued: 1, inProgress: 0, total: 1 },
+    ]);
+    expect(snapshot.today).toEqual({ attempts: 3, connected: 2, connectedPct: 66.7 });
+    expect(snapshot.callsPerAgentLastHour.map((a) => [a.name, a.callsLastHour, a.connectedLastHour])).toEqual([
+      ['Agent A', 2, 1],
+      ['Agent B', 1, 1],
+    ]);
+  });
+});
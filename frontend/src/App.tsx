@@ -12,6 +12,7 @@ import AgentWorkspace from './components/AgentWorkspace';
 import TaskList from './components/TaskList';
 import AdminDashboardContainer from './components/AdminDashboard/AdminDashboardContainer';
 import TeamLeadDashboardContainer from './components/TeamLeadDashboard/TeamLeadDashboardContainer';
+import Wallboard from './components/TeamLeadDashboard/Wallboard';
 
 // Component that routes based on user's active role
 // All users now land on Module Selection first, then route to workspace based on active role
@@ -37,6 +38,16 @@ const EMSWorkspace: React.FC = () => {
   }
 };
 
+// Floor wallboard - team lead / MIS admin only
+const WallboardRoute: React.FC = () => {
+  const { activeRole, user } = useAuth();
+  const currentRole = activeRole || user?.role;
+  if (currentRole !== 'team_lead' && currentRole !== 'mis_admin') {
+    return <Navigate to="/workspace/ems" replace />;
+  }
+  return <Wallboard />;
+};
+
 const App: React.FC = () => {
   return (
     <BrowserRouter>
@@ -77,6 +88,15 @@ const App: React.FC = () => {
               }
             />
             
+            <Route
+              path="/workspace/ems/wallboard"
+              element={
+                <ProtectedRoute>
+                  <WallboardRoute />
+                </ProtectedRoute>
+              }
+            />
+
             {/* Redirect unknown routes to home */}
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
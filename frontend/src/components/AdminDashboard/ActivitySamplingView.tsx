@@ -1,6 +1,6 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { useToast } from '../../context/ToastContext';
-import { adminAPI, ffaAPI } from '../../services/api';
+import { adminAPI, ffaAPI, samplingAPI, type FFAClientHealth, type SamplingVerification } from '../../services/api';
 import { Loader2, Filter, RefreshCw, ChevronDown, ChevronUp, CheckCircle, XCircle, AlertCircle, Calendar, MapPin, Users as UsersIcon, Activity as ActivityIcon, Phone, User as UserIcon, CheckCircle2, Download, BarChart3, ArrowDownToLine, UserCheck, Package, BarChart, Trash2 } from 'lucide-react';
 import Button from '../shared/Button';
 import ConfirmationModal from '../shared/ConfirmationModal';
@@ -31,6 +31,7 @@ interface ActivitySamplingStatus {
     totalFarmers: number;
     sampledCount: number;
     createdAt: string;
+    riskAdjustment?: { band: string; basePercentage: number; adjustedPercentage: number; reasons: string[] } | null;
   };
   tasksCount: number;
   assignedAgents: Array<{
@@ -101,6 +102,8 @@ const ActivitySamplingView: React.FC = () => {
   const [statsData, setStatsData] = useState<any | null>(null);
   const [isStatsLoading, setIsStatsLoading] = useState(false);
   const [expandedActivity, setExpandedActivity] = useState<string | null>(null);
+  const [verifications, setVerifications] = useState<Record<string, SamplingVerification>>({});
+  const [verifyingActivityId, setVerifyingActivityId] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [pageSize, setPageSize] = useState<number>(() => {
     const raw = localStorage.getItem('admin.activitySampling.pageSize');
@@ -128,7 +131,13 @@ const ActivitySamplingView: React.FC = () => {
     };
   } | null>(null);
   const syncProgressPollRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const [syncStatus, setSyncStatus] = useState<{ lastSyncAt: string | null; totalActivities: number; totalFarmers: number } | null>(null);
+  const [syncStatus, setSyncStatus] = useState<{
+    lastSyncAt: string | null;
+    totalActivities: number;
+    totalFarmers: number;
+    client?: FFAClientHealth;
+  } | null>(null);
+  const [isResettingCircuit, setIsResettingCircuit] = useState(false);
   const [dataSource, setDataSource] = useState<'api' | 'excel'>(() => {
     const v = localStorage.getItem('admin.activitySampling.dataSource');
     return v === 'excel' ? 'excel' : 'api';
@@ -373,6 +382,19 @@ const ActivitySamplingView: React.FC = () => {
     }
   };
 
+  const handleResetCircuit = async () => {
+    setIsResettingCircuit(true);
+    try {
+      await ffaAPI.resetFFACircuit();
+      showSuccess('FFA circuit reset; the hourly sync will resume');
+      await fetchSyncStatus();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to reset the FFA circuit');
+    } finally {
+      setIsResettingCircuit(false);
+    }
+  };
+
   const fetchDataBatches = async () => {
     setDataBatchesLoading(true);
     try {
@@ -387,6 +409,19 @@ const ActivitySamplingView: React.FC = () => {
     }
   };
 
+  // Replays the audited seed + farmer list and compares the result with the tasks that exist
+  const handleVerifySampling = async (activityId: string) => {
+    setVerifyingActivityId(activityId);
+    try {
+      const res = await samplingAPI.verifyAudit(activityId);
+      setVerifications((prev) => ({ ...prev, [activityId]: res.data }));
+    } catch (err: any) {
+      showError(err?.message || 'Failed to verify sampling');
+    } finally {
+      setVerifyingActivityId(null);
+    }
+  };
+
   const handleRefresh = async () => {
     await Promise.all([
       fetchActivities(pagination.page, true),
@@ -722,6 +757,21 @@ const ActivitySamplingView: React.FC = () => {
                 {syncStatus.totalActivities} activities • {syncStatus.totalFarmers} farmers
               </p>
             )}
+            {syncStatus?.client?.circuit.state === 'open' && (
+              <p className="text-xs font-bold text-amber-700 mt-1">
+                FFA paused until {new Date(syncStatus.client.circuit.openUntil!).toLocaleString()} after{' '}
+                {syncStatus.client.circuit.consecutiveFailures} failed fetches
+                {syncStatus.client.lastError ? ` (${syncStatus.client.lastError})` : ''} •{' '}
+                <button
+                  type="button"
+                  onClick={handleResetCircuit}
+                  disabled={isResettingCircuit}
+                  className="underline hover:text-amber-900 disabled:opacity-50"
+                >
+                  Resume now
+                </button>
+              </p>
+            )}
           </div>
           <div className="flex flex-wrap items-center gap-3 min-w-0">
             {/* iPhone-style toggle */}
@@ -1656,6 +1706,15 @@ const ActivitySamplingView: React.FC = () => {
                               <div className="flex items-center gap-1.5">
                                 <span className="text-[10px] text-slate-500">Sampling %:</span>
                                 <span className="text-xs font-bold text-slate-900">{item.samplingAudit.samplingPercentage}%</span>
+                                {item.samplingAudit.riskAdjustment &&
+                                  item.samplingAudit.riskAdjustment.adjustedPercentage !== item.samplingAudit.riskAdjustment.basePercentage && (
+                                    <span
+                                      className="text-[10px] text-amber-700"
+                                      title={item.samplingAudit.riskAdjustment.reasons.join('\n')}
+                                    >
+                                      ({item.samplingAudit.riskAdjustment.band} officer, base {item.samplingAudit.riskAdjustment.basePercentage}%)
+                                    </span>
+                                  )}
                               </div>
                               <div className="flex items-center gap-1.5">
                                 <span className="text-[10px] text-slate-500">Total:</span>
@@ -1665,7 +1724,37 @@ const ActivitySamplingView: React.FC = () => {
                                 <span className="text-[10px] text-slate-500">Sampled:</span>
                                 <span className="text-xs font-bold text-slate-900">{item.samplingAudit.sampledCount}</span>
                               </div>
+                              <button
+                                type="button"
+                                onClick={() => handleVerifySampling(item.activity._id)}
+                                disabled={verifyingActivityId === item.activity._id}
+                                className="ml-auto flex items-center gap-1 text-[10px] font-bold text-slate-600 hover:text-slate-900 disabled:opacity-50"
+                                title="Replay the recorded seed and farmer list and compare with existing tasks"
+                              >
+                                {verifyingActivityId === item.activity._id ? (
+                                  <Loader2 size={12} className="animate-spin" />
+                                ) : (
+                                  <CheckCircle2 size={12} />
+                                )}
+                                Verify sample
+                              </button>
                             </div>
+                            {verifications[item.activity._id] && (() => {
+                              const v = verifications[item.activity._id];
+                              if (!v.verifiable) {
+                                return <p className="mt-1 text-[10px] text-slate-500">{v.reason}</p>;
+                              }
+                              return v.matches ? (
+                                <p className="mt-1 text-[10px] font-bold text-green-700">
+                                  Verified: replaying seed {v.seed} over {v.frameSize} farmers selects exactly the {v.replayedCount} sampled farmers
+                                </p>
+                              ) : (
+                                <p className="mt-1 text-[10px] font-bold text-red-700">
+                                  Mismatch: {v.missingTasks.length} selected farmer(s) without a task, {v.unexpectedTasks.length} task(s) not in the replay
+                                  {v.outsideActivity.length > 0 && `, ${v.outsideActivity.length} farmer(s) no longer in the activity`}
+                                </p>
+                              );
+                            })()}
                           </div>
                         )}
 
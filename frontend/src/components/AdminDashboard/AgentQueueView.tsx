@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useToast } from '../../context/ToastContext';
-import { adminAPI } from '../../services/api';
+import { adminAPI, liveAPI } from '../../services/api';
 import { Loader2, Filter, RefreshCw, Users as UsersIcon, CheckCircle, Clock, XCircle, AlertCircle, ChevronRight, ChevronDown } from 'lucide-react';
 import Button from '../shared/Button';
 import StyledSelect from '../shared/StyledSelect';
@@ -162,6 +162,33 @@ const AgentQueueView: React.FC = () => {
     fetchQueues();
   }, [showOnlyActive]);
 
+  // Queue counts follow task status changes pushed over the live stream (reloaded at most every 5s)
+  useEffect(() => {
+    let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+    const close = liveAPI.subscribe(
+      {},
+      {
+        onEvent: (event) => {
+          if (event.type === 'allocation.progress' && event.status === 'running') return;
+          if (reloadTimer) return;
+          reloadTimer = setTimeout(() => {
+            reloadTimer = null;
+            adminAPI
+              .getAgentQueues({ isActive: showOnlyActive })
+              .then((response: any) => {
+                if (response.success && response.data) setQueues(response.data || []);
+              })
+              .catch(() => undefined);
+          }, 5000);
+        },
+      }
+    );
+    return () => {
+      close();
+      if (reloadTimer) clearTimeout(reloadTimer);
+    };
+  }, [showOnlyActive]);
+
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       sampled_in_queue: { icon: Clock, color: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
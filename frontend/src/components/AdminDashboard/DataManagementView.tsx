@@ -5,6 +5,8 @@ import { Trash2, Database, Loader2 } from 'lucide-react';
 import Button from '../shared/Button';
 import ConfirmationModal from '../shared/ConfirmationModal';
 import ExcelUploadFlow from '../shared/ExcelUploadFlow';
+import IngestQuarantinePanel from './IngestQuarantinePanel';
+import FarmerDuplicatesPanel from './FarmerDuplicatesPanel';
 import { HIERARCHY_MAP_FIELDS } from '../../constants/excelUploadFields';
 
 const DataManagementView: React.FC = () => {
@@ -151,6 +153,12 @@ const DataManagementView: React.FC = () => {
         <p className="text-sm text-slate-600">Clear database and generate sample data via Mock FFA API (Indian names, optional Sales Hierarchy Excel).</p>
       </div>
 
+      {/* Ingest validation: review queue, batch quality, rule severities */}
+      <IngestQuarantinePanel />
+
+      {/* Duplicate farmers: candidates, merge and undo */}
+      <FarmerDuplicatesPanel />
+
       {/* Clear database */}
       <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
         <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex items-center gap-3">
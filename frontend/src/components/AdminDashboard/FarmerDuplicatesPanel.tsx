@@ -0,0 +1,187 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { GitMerge, Loader2, RefreshCw, Undo2 } from 'lucide-react';
+import { useToast } from '../../context/ToastContext';
+import { farmerMergeAPI, type DuplicateCandidate, type DuplicateFarmer, type FarmerMerge } from '../../services/api';
+import Button from '../shared/Button';
+
+const FarmerCard: React.FC<{ farmer: DuplicateFarmer; survivor: boolean; onPick: () => void }> = ({ farmer, survivor, onPick }) => (
+  <button
+    type="button"
+    onClick={onPick}
+    className={`flex-1 min-w-0 text-left rounded-xl border p-3 ${
+      survivor ? 'border-lime-400 bg-lime-50' : 'border-slate-200 bg-white hover:border-slate-300'
+    }`}
+  >
+    <div className="text-sm font-black text-slate-900 truncate">{farmer.name}</div>
+    <div className="text-xs text-slate-600">
+      {farmer.mobileNumber} · {farmer.location}
+    </div>
+    <div className="text-xs text-slate-400">
+      {farmer.activityCount} activities · {farmer.taskCount} tasks
+    </div>
+    <div className={`mt-1 text-xs font-bold ${survivor ? 'text-lime-700' : 'text-slate-400'}`}>
+      {survivor ? 'Keep' : 'Merge into the other'}
+    </div>
+  </button>
+);
+
+/** Likely duplicate farmers with a one-click merge, and the merge log with undo */
+const FarmerDuplicatesPanel: React.FC = () => {
+  const { showToast } = useToast();
+  const [territory, setTerritory] = useState('');
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [survivorByPair, setSurvivorByPair] = useState<Record<string, string>>({});
+  const [merges, setMerges] = useState<FarmerMerge[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const pairKey = (c: DuplicateCandidate) => `${c.farmers[0]._id}:${c.farmers[1]._id}`;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [candidatesRes, mergesRes] = await Promise.all([
+        farmerMergeAPI.findCandidates({ territory: territory.trim() || undefined, limit: 50 }),
+        farmerMergeAPI.list({ limit: 10 }),
+      ]);
+      setCandidates(candidatesRes.data.items);
+      setSurvivorByPair({});
+      setMerges(mergesRes.data.items);
+      if (candidatesRes.data.truncated) showToast('Only the most recently updated farmers were scanned; filter by territory', 'info');
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : 'Failed to load duplicate farmers', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [territory, showToast]);
+
+  useEffect(() => {
+    load();
+    // Territory is applied with the Search button, not on every keystroke
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const merge = async (c: DuplicateCandidate) => {
+    const key = pairKey(c);
+    const survivorId = survivorByPair[key] || c.suggestedSurvivorId;
+    const mergedId = c.farmers.find((f) => f._id !== survivorId)!._id;
+    setBusyKey(key);
+    try {
+      const res = await farmerMergeAPI.merge(survivorId, mergedId);
+      const m = res.data.merge;
+      showToast(`Merged ${m.merged.mobileNumber} into ${m.survivor.mobileNumber}`, 'success');
+      await load();
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : 'Merge failed', 'error');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const undo = async (m: FarmerMerge) => {
+    setBusyKey(m._id);
+    try {
+      const res = await farmerMergeAPI.undo(m._id);
+      const conflicts = res.data.merge.undoConflicts.length;
+      showToast(conflicts ? `Merge undone; ${conflicts} items could not be restored` : 'Merge undone', conflicts ? 'info' : 'success');
+      await load();
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : 'Undo failed', 'error');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex items-center gap-3">
+        <div className="w-10 h-10 rounded-xl bg-lime-100 flex items-center justify-center">
+          <GitMerge className="text-lime-700" size={20} />
+        </div>
+        <div className="flex-1">
+          <h3 className="text-lg font-black text-slate-900">Duplicate farmers</h3>
+          <p className="text-xs text-slate-600">
+            Same person under a mistyped number or another spelling. Merging moves activities, call tasks, cooling and do-not-call to the farmer you keep.
+          </p>
+        </div>
+        <input
+          value={territory}
+          onChange={(e) => setTerritory(e.target.value)}
+          placeholder="Territory (optional)"
+          className="px-3 py-2 rounded-xl border border-slate-200 text-sm w-48"
+        />
+        <Button variant="secondary" size="sm" onClick={load} disabled={loading}>
+          {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+          <span>Search</span>
+        </Button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {candidates.length === 0 ? (
+          <p className="text-sm text-slate-500">No likely duplicates found.</p>
+        ) : (
+          <div className="space-y-3">
+            {candidates.map((c) => {
+              const key = pairKey(c);
+              const survivorId = survivorByPair[key] || c.suggestedSurvivorId;
+              return (
+                <div key={key} className="border border-slate-200 rounded-2xl p-4">
+                  <div className="flex items-center justify-between gap-3 mb-2">
+                    <p className="text-xs text-slate-600">
+                      <span className="font-black text-slate-900">{Math.round(c.score * 100)}%</span> · {c.reasons.join(' · ')}
+                    </p>
+                    <Button size="sm" onClick={() => merge(c)} disabled={busyKey === key}>
+                      {busyKey === key ? <Loader2 size={14} className="animate-spin" /> : <GitMerge size={14} />}
+                      <span>Merge</span>
+                    </Button>
+                  </div>
+                  <div className="flex gap-3">
+                    {c.farmers.map((f) => (
+                      <FarmerCard
+                        key={f._id}
+                        farmer={f}
+                        survivor={f._id === survivorId}
+                        onPick={() => setSurvivorByPair((prev) => ({ ...prev, [key]: f._id }))}
+                      />
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="border border-slate-200 rounded-2xl p-4">
+          <p className="text-sm font-black text-slate-900 mb-2">Recent merges</p>
+          {merges.length === 0 ? (
+            <p className="text-sm text-slate-500">No merges yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {merges.map((m) => (
+                <div key={m._id} className="flex items-center justify-between gap-3 text-xs">
+                  <div className="min-w-0">
+                    <span className="font-bold text-slate-800">
+                      {m.merged.name} ({m.merged.mobileNumber}) → {m.survivor.name} ({m.survivor.mobileNumber})
+                    </span>
+                    <span className="block text-slate-500">
+                      {new Date(m.createdAt).toLocaleString()} · {m.activities.length} activities, {m.tasksRepointed.length} tasks moved
+                      {m.status === 'undone' ? ' · undone' : ''}
+                    </span>
+                  </div>
+                  {m.status === 'applied' && (
+                    <Button variant="secondary" size="sm" onClick={() => undo(m)} disabled={busyKey === m._id}>
+                      <Undo2 size={14} />
+                      <span>Undo</span>
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FarmerDuplicatesPanel;
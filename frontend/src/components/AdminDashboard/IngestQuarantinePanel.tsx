@@ -0,0 +1,337 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ShieldAlert, Loader2, RefreshCw } from 'lucide-react';
+import { useToast } from '../../context/ToastContext';
+import {
+  ingestAPI,
+  type IngestActivityPayload,
+  type IngestBatchQuality,
+  type IngestRule,
+  type IngestRuleSeverity,
+  type QuarantinedRecord,
+} from '../../services/api';
+import Button from '../shared/Button';
+
+const SOURCE_LABELS: Record<QuarantinedRecord['source'], string> = {
+  ffa_sync: 'FFA sync',
+  ffa_webhook: 'FFA webhook',
+  excel_import: 'Excel import',
+};
+
+const SEVERITY_STYLES: Record<string, string> = {
+  reject: 'bg-red-50 text-red-700 border-red-200',
+  quarantine: 'bg-amber-50 text-amber-700 border-amber-200',
+  warn: 'bg-sky-50 text-sky-700 border-sky-200',
+  off: 'bg-slate-50 text-slate-500 border-slate-200',
+};
+
+const ACTIVITY_FIELDS: Array<{ key: keyof IngestActivityPayload; label: string }> = [
+  { key: 'type', label: 'Type' },
+  { key: 'date', label: 'Date (DD/MM/YYYY)' },
+  { key: 'officerId', label: 'Officer ID' },
+  { key: 'officerName', label: 'Officer name' },
+  { key: 'location', label: 'Location' },
+  { key: 'territory', label: 'Territory' },
+  { key: 'state', label: 'State' },
+];
+
+const inputClass =
+  'w-full px-3 py-2 rounded-xl border border-slate-200 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-lime-400 focus:border-lime-400';
+
+/** Editor for one quarantined activity: fix fields, then release or discard */
+const QuarantineEditor: React.FC<{ record: QuarantinedRecord; onDone: () => void }> = ({ record, onDone }) => {
+  const { showToast } = useToast();
+  const [draft, setDraft] = useState<IngestActivityPayload>(() => ({
+    ...record.payload,
+    farmers: (record.payload.farmers || []).map((f) => ({ ...f })),
+  }));
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState<'release' | 'override' | 'discard' | null>(null);
+
+  const setField = (key: keyof IngestActivityPayload, value: string) => setDraft((d) => ({ ...d, [key]: value }));
+  const setList = (key: 'crops' | 'products', value: string) =>
+    setDraft((d) => ({ ...d, [key]: value.split(',').map((s) => s.trim()).filter(Boolean) }));
+  const setFarmer = (index: number, key: 'name' | 'mobileNumber' | 'location', value: string) =>
+    setDraft((d) => ({ ...d, farmers: d.farmers.map((f, i) => (i === index ? { ...f, [key]: value } : f)) }));
+  const removeFarmer = (index: number) => setDraft((d) => ({ ...d, farmers: d.farmers.filter((_, i) => i !== index) }));
+
+  const release = async (override: boolean) => {
+    setBusy(override ? 'override' : 'release');
+    try {
+      const res = await ingestAPI.release(record._id, { payload: draft, override, note: note || undefined });
+      const dropped = res.data.farmersDropped ? `, ${res.data.farmersDropped} farmers left out` : '';
+      showToast(`Released ${record.activityId} with ${res.data.farmersSynced} farmers${dropped}`, 'success');
+      onDone();
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : 'Release failed', 'error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const discard = async () => {
+    setBusy('discard');
+    try {
+      await ingestAPI.discard(record._id, note || undefined);
+      showToast(`Discarded ${record.activityId}`, 'success');
+      onDone();
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : 'Discard failed', 'error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-4 border-t border-slate-200 pt-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        {ACTIVITY_FIELDS.map((f) => (
+          <label key={f.key} className="block">
+            <span className="block text-xs font-bold text-slate-500 mb-1">{f.label}</span>
+            <input className={inputClass} value={String(draft[f.key] ?? '')} onChange={(e) => setField(f.key, e.target.value)} />
+          </label>
+        ))}
+        <label className="block">
+          <span className="block text-xs font-bold text-slate-500 mb-1">Crops (comma separated)</span>
+          <input className={inputClass} defaultValue={(draft.crops || []).join(', ')} onBlur={(e) => setList('crops', e.target.value)} />
+        </label>
+        <label className="block">
+          <span className="block text-xs font-bold text-slate-500 mb-1">Products (comma separated)</span>
+          <input className={inputClass} defaultValue={(draft.products || []).join(', ')} onBlur={(e) => setList('products', e.target.value)} />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-black text-slate-400 uppercase tracking-widest">
+              <th className="py-2 pr-3">#</th>
+              <th className="py-2 pr-3">Name</th>
+              <th className="py-2 pr-3">Mobile</th>
+              <th className="py-2 pr-3">Location</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.farmers.map((f, i) => (
+              <tr key={i} className="border-t border-slate-100">
+                <td className="py-2 pr-3 text-slate-400">{i + 1}</td>
+                <td className="py-2 pr-3"><input className={inputClass} value={f.name || ''} onChange={(e) => setFarmer(i, 'name', e.target.value)} /></td>
+                <td className="py-2 pr-3"><input className={inputClass} value={f.mobileNumber || ''} onChange={(e) => setFarmer(i, 'mobileNumber', e.target.value)} /></td>
+                <td className="py-2 pr-3"><input className={inputClass} value={f.location || ''} onChange={(e) => setFarmer(i, 'location', e.target.value)} /></td>
+                <td className="py-2">
+                  <button type="button" className="text-xs font-bold text-red-600 hover:text-red-800" onClick={() => removeFarmer(i)}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <input className={inputClass} placeholder="Note (optional)" value={note} maxLength={500} onChange={(e) => setNote(e.target.value)} />
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={() => release(false)} loading={busy === 'release'} disabled={!!busy}>
+          Release
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => release(true)} loading={busy === 'override'} disabled={!!busy}>
+          Release anyway
+        </Button>
+        <Button size="sm" variant="danger" onClick={discard} loading={busy === 'discard'} disabled={!!busy}>
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Ingest rule severities, per-batch validation counts and the queue of quarantined activities
+ * waiting for review.
+ */
+const IngestQuarantinePanel: React.FC = () => {
+  const { showToast } = useToast();
+  const [rules, setRules] = useState<IngestRule[]>([]);
+  const [batches, setBatches] = useState<IngestBatchQuality[]>([]);
+  const [records, setRecords] = useState<QuarantinedRecord[]>([]);
+  const [pendingTotal, setPendingTotal] = useState(0);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [rulesRes, qualityRes, queueRes] = await Promise.all([
+        ingestAPI.getRules(),
+        ingestAPI.getQuality(10),
+        ingestAPI.listQuarantine({ status: 'pending', limit: 50 }),
+      ]);
+      setRules(rulesRes.data.rules);
+      setBatches(qualityRes.data.batches);
+      setRecords(queueRes.data.items);
+      setPendingTotal(queueRes.data.counts.pending);
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : 'Failed to load ingest quality', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const changeSeverity = async (code: string, severity: IngestRuleSeverity) => {
+    try {
+      const res = await ingestAPI.updateRule(code, severity);
+      setRules((prev) => prev.map((r) => (r.code === code ? res.data.rule : r)));
+      showToast(`${code} set to ${severity}`, 'success');
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : 'Failed to update rule', 'error');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex items-center gap-3">
+        <div className="w-10 h-10 rounded-xl bg-amber-100 flex items-center justify-center">
+          <ShieldAlert className="text-amber-700" size={20} />
+        </div>
+        <div className="flex-1">
+          <h3 className="text-lg font-black text-slate-900">Ingest quality &amp; quarantine</h3>
+          <p className="text-xs text-slate-600">
+            Validation rules for FFA sync, webhook and Excel import. Quarantined activities are not stored until you fix and release them.
+          </p>
+        </div>
+        <Button variant="secondary" size="sm" onClick={load} disabled={loading}>
+          {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+          <span>Refresh</span>
+        </Button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div>
+          <p className="text-sm font-black text-slate-900 mb-2">Review queue ({pendingTotal} pending)</p>
+          {records.length === 0 ? (
+            <p className="text-sm text-slate-500">Nothing waiting for review.</p>
+          ) : (
+            <div className="space-y-3">
+              {records.map((r) => (
+                <div key={r._id} className="border border-slate-200 rounded-2xl p-4">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-black text-slate-900">
+                        {r.activityId}
+                        <span className="ml-2 text-xs font-bold text-slate-500">
+                          {SOURCE_LABELS[r.source]} · {r.dataBatchId}
+                          {r.rowRef ? ` · ${r.rowRef}` : ''}
+                          {r.occurrences > 1 ? ` · received ${r.occurrences}×` : ''}
+                        </span>
+                      </p>
+                      <ul className="mt-2 space-y-1">
+                        {r.issues.map((issue, i) => (
+                          <li key={i} className="text-xs flex items-center gap-2">
+                            <span className={`px-2 py-0.5 rounded-lg border font-bold ${SEVERITY_STYLES[issue.severity]}`}>{issue.severity}</span>
+                            <span className="text-slate-700">{issue.message}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <Button variant="secondary" size="sm" onClick={() => setOpenId(openId === r._id ? null : r._id)}>
+                      {openId === r._id ? 'Close' : 'Review'}
+                    </Button>
+                  </div>
+                  {openId === r._id && (
+                    <QuarantineEditor
+                      record={r}
+                      onDone={() => {
+                        setOpenId(null);
+                        load();
+                      }}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="border border-slate-200 rounded-2xl p-4 overflow-x-auto">
+            <p className="text-sm font-black text-slate-900 mb-2">Batch quality</p>
+            {batches.length === 0 ? (
+              <p className="text-sm text-slate-500">No validated batches yet.</p>
+            ) : (
+              <table className="min-w-full text-xs">
+                <thead>
+                  <tr className="text-left font-black text-slate-400 uppercase tracking-widest">
+                    <th className="py-1 pr-3">Batch</th>
+                    <th className="py-1 pr-3">Received</th>
+                    <th className="py-1 pr-3">Accepted</th>
+                    <th className="py-1 pr-3">Warned</th>
+                    <th className="py-1 pr-3">Quarantined</th>
+                    <th className="py-1 pr-3">Rejected</th>
+                    <th className="py-1">Pending</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {batches.map((b) => (
+                    <tr key={b.dataBatchId} className="border-t border-slate-100" title={Object.entries(b.byRule).map(([k, v]) => `${k}: ${v}`).join('\n')}>
+                      <td className="py-1 pr-3 font-bold text-slate-700">
+                        {b.dataBatchId}
+                        <span className="block font-normal text-slate-400">{SOURCE_LABELS[b.source]}</span>
+                      </td>
+                      <td className="py-1 pr-3">{b.received}</td>
+                      <td className="py-1 pr-3">{b.accepted}</td>
+                      <td className="py-1 pr-3">{b.acceptedWithWarnings}</td>
+                      <td className="py-1 pr-3">
+                        {b.quarantined}
+                        {b.released || b.discarded ? (
+                          <span className="block text-slate-400">
+                            {b.released} released, {b.discarded} discarded
+                          </span>
+                        ) : null}
+                      </td>
+                      <td className="py-1 pr-3">
+                        {b.rejected}
+                        {b.farmersRejected ? <span className="block text-slate-400">+{b.farmersRejected} farmers</span> : null}
+                      </td>
+                      <td className="py-1">{b.pendingReview}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="border border-slate-200 rounded-2xl p-4">
+            <p className="text-sm font-black text-slate-900 mb-2">Rules</p>
+            <div className="space-y-2">
+              {rules.map((rule) => (
+                <div key={rule.code} className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-xs font-bold text-slate-800">{rule.code}</div>
+                    <div className="text-xs text-slate-500">{rule.description}</div>
+                  </div>
+                  <select
+                    value={rule.severity}
+                    onChange={(e) => changeSeverity(rule.code, e.target.value as IngestRuleSeverity)}
+                    className={`px-2 py-1 rounded-lg border text-xs font-bold ${SEVERITY_STYLES[rule.severity]}`}
+                  >
+                    {rule.allowedSeverities.map((s) => (
+                      <option key={s} value={s}>
+                        {s}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IngestQuarantinePanel;
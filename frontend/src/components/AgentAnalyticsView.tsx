@@ -292,7 +292,9 @@ const AgentAnalyticsView: React.FC = () => {
               <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Calls Made</span>
             </div>
             <div className="text-3xl font-black text-slate-900">{totals.attempted || 0}</div>
-            <div className="text-xs text-slate-500 mt-1">{totals.callsPerDay || 0}/day avg</div>
+            <div className="text-xs text-slate-500 mt-1">
+              {totals.callsPerDay || 0}/day avg • {totals.callAttempts || 0} attempts
+            </div>
           </div>
 
           {/* Call Efficiency */}
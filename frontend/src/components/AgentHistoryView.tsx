@@ -914,6 +914,38 @@ const AgentHistoryView: React.FC<{ onOpenTask?: (taskId: string) => void | Promi
                                       ))}
                                     </div>
                                   )}
+
+                                  {/* Call attempts side by side (only when the task was called more than once) */}
+                                  {Array.isArray(detail.callAttempts) && detail.callAttempts.length > 1 && (
+                                    <div className="mt-2 pt-2 border-t border-slate-200">
+                                      <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-wider mb-1.5 flex items-center gap-1.5">
+                                        <Phone size={12} className="text-slate-400" />
+                                        Attempts ({detail.callAttempts.length})
+                                      </h4>
+                                      <div className="flex gap-2 overflow-x-auto">
+                                        {detail.callAttempts.map((a: any) => (
+                                          <div
+                                            key={a.attemptNumber}
+                                            className="min-w-[180px] flex-1 p-2 bg-white rounded-lg border border-slate-200"
+                                          >
+                                            <p className="text-[10px] font-black text-slate-500 uppercase tracking-wider">
+                                              Attempt {a.attemptNumber}
+                                            </p>
+                                            <p className="text-xs font-semibold text-slate-900">{a.callStatus || '-'}</p>
+                                            <p className="text-[10px] text-slate-600">{formatDateTime(a.timestamp) || '-'}</p>
+                                            <p className="text-[10px] text-slate-600">Duration: <span className="font-semibold">{Number(a.callDurationSeconds || 0)}s</span></p>
+                                            {a.agentId?.name && (
+                                              <p className="text-[10px] text-slate-600">Agent: <span className="font-semibold">{a.agentId.name}</span></p>
+                                            )}
+                                            <p className="text-[10px] text-slate-600">Sentiment: <span className="font-semibold">{a.sentiment || 'N/A'}</span></p>
+                                            {a.farmerComments && (
+                                              <p className="text-[10px] text-slate-600 line-clamp-2">{a.farmerComments}</p>
+                                            )}
+                                          </div>
+                                        ))}
+                                      </div>
+                                    </div>
+                                  )}
                                 </div>
                               )}
                             </div>
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { Coffee, Repeat, SkipForward, Loader2 } from 'lucide-react';
+import { presenceAPI, type AgentPresence, type DialerSettings } from '../services/api';
+import { useToast } from '../context/ToastContext';
+
+interface AgentPresenceControlsProps {
+  presence: AgentPresence | null;
+  settings: DialerSettings | null;
+  onPresenceChange: (presence: AgentPresence) => void;
+  /** Progressive mode with no task loaded: lets the agent pull the next call now */
+  onNextCall?: () => void;
+  isFetchingNext?: boolean;
+  /** Shown next to the controls when progressive mode has nothing to serve */
+  idleMessage?: string | null;
+}
+
+const STATE_STYLE: Record<AgentPresence['state'], { label: string; dot: string }> = {
+  available: { label: 'Available', dot: 'bg-lime-400' },
+  on_call: { label: 'On call', dot: 'bg-sky-400' },
+  wrap_up: { label: 'Wrap-up', dot: 'bg-amber-400' },
+  break: { label: 'On break', dot: 'bg-rose-400' },
+  offline: { label: 'Offline', dot: 'bg-slate-500' },
+};
+
+const secondsUntil = (iso: string | null) =>
+  iso ? Math.max(0, Math.ceil((new Date(iso).getTime() - Date.now()) / 1000)) : 0;
+
+/**
+ * Header controls for the agent's availability: state pill with wrap-up countdown,
+ * break selector (configured reasons) and the manual / progressive dialer toggle.
+ */
+const AgentPresenceControls: React.FC<AgentPresenceControlsProps> = ({
+  presence,
+  settings,
+  onPresenceChange,
+  onNextCall,
+  isFetchingNext = false,
+  idleMessage,
+}) => {
+  const { showError } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const [wrapUpLeft, setWrapUpLeft] = useState(0);
+
+  const wrapUpEndsAt = presence?.state === 'wrap_up' ? presence.wrapUpEndsAt : null;
+
+  useEffect(() => {
+    setWrapUpLeft(secondsUntil(wrapUpEndsAt));
+    if (!wrapUpEndsAt) return;
+    const timer = setInterval(() => setWrapUpLeft(secondsUntil(wrapUpEndsAt)), 1000);
+    return () => clearInterval(timer);
+  }, [wrapUpEndsAt]);
+
+  if (!presence) return null;
+
+  const run = async (request: () => Promise<{ data: { presence: AgentPresence } }>) => {
+    setIsSaving(true);
+    try {
+      const res = await request();
+      if (res.data?.presence) onPresenceChange(res.data.presence);
+    } catch (e: any) {
+      showError(e?.message || 'Could not update availability');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAvailabilityChange = (value: string) => {
+    if (value === 'available') run(() => presenceAPI.setAvailability('available'));
+    else run(() => presenceAPI.setAvailability('break', value));
+  };
+
+  const toggleMode = () =>
+    run(() => presenceAPI.setMode(presence.mode === 'progressive' ? 'manual' : 'progressive'));
+
+  const style = STATE_STYLE[presence.state];
+  const onBreak = presence.state === 'break';
+  const progressive = presence.mode === 'progressive';
+
+  return (
+    <div className="hidden md:flex items-center gap-2">
+      <div className="flex items-center gap-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-2xl text-[11px] font-bold text-slate-200 uppercase">
+        <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+        {style.label}
+        {presence.state === 'wrap_up' && wrapUpLeft > 0 && <span className="text-amber-300 tabular-nums">{wrapUpLeft}s</span>}
+        {onBreak && presence.breakReason && <span className="text-slate-400 normal-case">• {presence.breakReason}</span>}
+      </div>
+
+      <div className="flex items-center gap-1.5 px-2 py-1 bg-slate-800 border border-slate-700 rounded-2xl">
+        <Coffee size={14} className="text-slate-400" />
+        <select
+          value={onBreak ? presence.breakReason || '' : 'available'}
+          onChange={(e) => handleAvailabilityChange(e.target.value)}
+          disabled={isSaving || presence.state === 'on_call'}
+          className="bg-transparent text-[11px] font-bold text-slate-200 focus:outline-none disabled:opacity-50"
+          title={presence.state === 'on_call' ? 'Submit the current call first' : 'Availability'}
+        >
+          <option value="available" className="text-slate-900">Available</option>
+          {(settings?.breakReasons || []).map((reason) => (
+            <option key={reason} value={reason} className="text-slate-900">
+              Break: {reason}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        type="button"
+        onClick={toggleMode}
+        disabled={isSaving}
+        className={`flex items-center gap-1.5 px-3 py-2 rounded-2xl text-[11px] font-bold uppercase border transition-all disabled:opacity-50 ${
+          progressive
+            ? 'bg-lime-500/20 text-lime-400 border-lime-500/30'
+            : 'bg-slate-800 text-slate-300 border-slate-700 hover:text-white'
+        }`}
+        title={progressive ? 'Progressive: the next due call loads after wrap-up' : 'Manual: pick tasks from the list'}
+      >
+        <Repeat size={14} />
+        {progressive ? 'Progressive' : 'Manual'}
+      </button>
+
+      {progressive && onNextCall && !onBreak && (
+        <button
+          type="button"
+          onClick={onNextCall}
+          disabled={isFetchingNext}
+          className="flex items-center gap-1.5 px-3 py-2 bg-lime-500 text-slate-900 rounded-2xl text-[11px] font-bold uppercase hover:bg-lime-400 disabled:opacity-50"
+        >
+          {isFetchingNext ? <Loader2 size={14} className="animate-spin" /> : <SkipForward size={14} />}
+          Next call
+        </button>
+      )}
+      {progressive && idleMessage && <span className="text-[11px] text-slate-400">{idleMessage}</span>}
+    </div>
+  );
+};
+
+export default AgentPresenceControls;
@@ -1,16 +1,18 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
-import { tasksAPI } from '../services/api';
+import { tasksAPI, presenceAPI, telephonyAPI, type TelephonyCall, type AgentPresence, type DialerSettings } from '../services/api';
 import {
   Phone, User, CheckCircle, Zap, LogOut, Globe, Loader2,
-  TrendingUp, MapPin, History, X, PhoneOff, PhoneCall
+  TrendingUp, MapPin, History, X, PhoneOff, PhoneCall, PhoneIncoming
 } from 'lucide-react';
 import BinaryToggle from './BinaryToggle';
 import MultiTagSelect from './MultiTagSelect';
 import CallTimer from './CallTimer';
+import Softphone from './Softphone';
+import AgentPresenceControls from './AgentPresenceControls';
 import TaskDetailsPanel from './TaskDetailsPanel';
-import CallInteractionForm from './CallInteractionForm';
+import CallInteractionForm, { type DoNotCallCapture } from './CallInteractionForm';
 import AICopilotPanel from './AICopilotPanel';
 import CallReviewModal from './CallReviewModal';
 import TaskSelectionModal from './TaskSelectionModal';
@@ -18,6 +20,7 @@ import Button from './shared/Button';
 import HeaderRoleSwitcher from './shared/HeaderRoleSwitcher';
 import AgentHistoryView from './AgentHistoryView';
 import AgentAnalyticsView from './AgentAnalyticsView';
+import InboundQueryPanel from './InboundQueryPanel';
 
 // Business Constants
 const IndianCrops = ['Paddy', 'Cotton', 'Chilli', 'Soybean', 'Maize', 'Wheat', 'Sugarcane'];
@@ -78,9 +81,16 @@ const AgentWorkspace: React.FC = () => {
   const [abortController, setAbortController] = useState<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'details' | 'flow' | 'ai'>('flow');
-  const [activeSection, setActiveSection] = useState<'dialer' | 'history' | 'analytics'>('dialer');
+  const [activeSection, setActiveSection] = useState<'dialer' | 'history' | 'analytics' | 'inbound'>('dialer');
   const [showReviewModal, setShowReviewModal] = useState(false);
+  const [recording, setRecording] = useState<{ file: File; durationSeconds: number | null } | null>(null);
+  const [telephonyCall, setTelephonyCall] = useState<TelephonyCall | null>(null);
   const [showTaskSelectionModal, setShowTaskSelectionModal] = useState(false);
+  const [presence, setPresence] = useState<AgentPresence | null>(null);
+  const [dialerSettings, setDialerSettings] = useState<DialerSettings | null>(null);
+  const [telephonyEnabled, setTelephonyEnabled] = useState(false);
+  const [isFetchingNext, setIsFetchingNext] = useState(false);
+  const [progressiveIdle, setProgressiveIdle] = useState<string | null>(null);
   const [isAIPanelExpanded, setIsAIPanelExpanded] = useState(false);
   const aiPanelCloseTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const hasMarkedInProgressRef = useRef(false);
@@ -120,10 +130,57 @@ const AgentWorkspace: React.FC = () => {
     farmerComments: '',
     sentiment: 'N/A' as 'Positive' | 'Negative' | 'Neutral' | 'N/A',
     activityQuality: undefined as number | undefined,
+    doNotCall: null as DoNotCallCapture | null,
   });
 
-  // Timer for call duration (only when call status is "Connected")
+  // A recording or placed call for one task must not carry over to the next
   useEffect(() => {
+    setRecording(null);
+    setTelephonyCall(null);
+  }, [taskData?.taskId]);
+
+  // Telephony call: status and duration follow provider events instead of the agent's selection
+  const handleTelephonyCallUpdate = useCallback((call: TelephonyCall) => {
+    setTelephonyCall(call);
+    hasMarkedInProgressRef.current = true;
+    if (call.outcome) {
+      setFormData(p => ({ ...p, callStatus: call.outcome!.callStatus }));
+      setCallDuration(call.outcome.callDurationSeconds);
+    } else if (call.status === 'answered' && call.answeredAt) {
+      setFormData(p => ({ ...p, callStatus: 'Connected' }));
+      setCallDuration(Math.max(0, Math.round((Date.now() - new Date(call.answeredAt).getTime()) / 1000)));
+    }
+  }, []);
+
+  const callStatusFromTelephony = !!telephonyCall && telephonyCall.status !== 'failed';
+
+  // Availability: load once, then heartbeat so the team lead view does not show us offline
+  useEffect(() => {
+    presenceAPI
+      .getMe()
+      .then((res) => {
+        setPresence(res.data.presence);
+        setDialerSettings(res.data.settings);
+      })
+      .catch(() => undefined);
+    telephonyAPI
+      .getConfig()
+      .then((res) => setTelephonyEnabled(!!res.data?.enabled))
+      .catch(() => setTelephonyEnabled(false));
+
+    const sendHeartbeat = () =>
+      presenceAPI
+        .heartbeat()
+        .then((res) => setPresence(res.data.presence))
+        .catch(() => undefined);
+    sendHeartbeat();
+    const timer = setInterval(sendHeartbeat, 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Timer for call duration (only when call status is "Connected"; telephony calls are timed by events)
+  useEffect(() => {
+    if (callStatusFromTelephony) return;
     if (!taskData || formData.callStatus !== 'Connected') {
       if (formData.callStatus !== 'Connected') {
         setCallDuration(0); // Reset timer if status changes away from Connected
@@ -136,7 +193,7 @@ const AgentWorkspace: React.FC = () => {
     }, 1000);
     
     return () => clearInterval(timer);
-  }, [taskData, formData.callStatus]);
+  }, [taskData, formData.callStatus, callStatusFromTelephony]);
 
 
   const handleLoadTasks = () => {
@@ -189,6 +246,7 @@ const AgentWorkspace: React.FC = () => {
         farmerComments: '',
         sentiment: 'N/A',
         activityQuality: undefined,
+        doNotCall: null,
       });
     } catch (err: any) {
       setError(err.message || 'Failed to load selected task');
@@ -246,6 +304,7 @@ const AgentWorkspace: React.FC = () => {
         farmerComments: '',
         sentiment: 'N/A',
         activityQuality: undefined,
+        doNotCall: null,
       });
     } catch (e: any) {
       showError(e?.message || 'Failed to open task');
@@ -258,11 +317,54 @@ const AgentWorkspace: React.FC = () => {
     try {
       await tasksAPI.markInProgress(taskData.taskId);
       hasMarkedInProgressRef.current = true;
+      setPresence(p => (p ? { ...p, state: 'on_call' } : p));
     } catch {
       // do not block agent workflow
     }
   };
 
+  // Progressive mode: pull the next due task and, with telephony, dial it straight away
+  const loadProgressiveNext = async () => {
+    setIsFetchingNext(true);
+    try {
+      const res = await tasksAPI.getProgressiveNext();
+      setPresence(res.data.presence);
+      const next = res.data.task;
+      if (!next) {
+        setProgressiveIdle(res.data.reason === 'queue_empty' ? 'No calls due right now' : null);
+        // Our clock ran ahead of the server's: ask again shortly
+        if (res.data.reason === 'wrap_up') setTimeout(() => loadProgressiveNext(), 1000);
+        return;
+      }
+      setProgressiveIdle(null);
+      handleTaskSelected(next);
+      if (telephonyEnabled) {
+        try {
+          const dial = await tasksAPI.markInProgress(next.taskId, { dial: true });
+          if (dial.data?.call) handleTelephonyCallUpdate(dial.data.call);
+          setPresence(p => (p ? { ...p, state: 'on_call' } : p));
+        } catch (e: any) {
+          showError(e?.message || 'Could not place the call');
+        }
+      }
+    } catch (e: any) {
+      showError(e?.message || 'Failed to load the next call');
+    } finally {
+      setIsFetchingNext(false);
+    }
+  };
+
+  // After wrap-up ends, the next call loads by itself
+  useEffect(() => {
+    if (presence?.mode !== 'progressive' || presence.state !== 'wrap_up' || !presence.wrapUpEndsAt) return;
+    if (taskData || activeSection !== 'dialer') return;
+    const delay = Math.max(0, new Date(presence.wrapUpEndsAt).getTime() - Date.now());
+    const timer = setTimeout(() => {
+      loadProgressiveNext();
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [presence?.mode, presence?.state, presence?.wrapUpEndsAt, taskData, activeSection]);
+
   const handleStopLoading = () => {
     if (abortController) {
       abortController.abort();
@@ -390,6 +492,7 @@ const AgentWorkspace: React.FC = () => {
             farmerComments: '',
             sentiment: 'N/A',
             activityQuality: undefined,
+            doNotCall: null,
           });
           setCallDuration(0);
           // Clear any previous errors
@@ -426,6 +529,10 @@ const AgentWorkspace: React.FC = () => {
 
   const handleFinalSubmit = async () => {
     if (!taskData) return;
+    if (formData.doNotCall && !formData.doNotCall.reason.trim()) {
+      showError('Enter a reason for the do-not-call request');
+      return;
+    }
 
     setIsSubmitting(true);
     try {
@@ -436,7 +543,19 @@ const AgentWorkspace: React.FC = () => {
         callDurationSeconds: callDuration,
       };
       
-      await tasksAPI.submitInteraction(taskData.taskId, submissionData);
+      const submitted = await tasksAPI.submitInteraction(taskData.taskId, submissionData);
+      const nextPresence = submitted.data?.presence ?? null;
+
+      // Recording is attached to the saved call log; a failed upload should not block the next call
+      if (recording) {
+        try {
+          await tasksAPI.uploadRecording(taskData.taskId, recording.file, recording.durationSeconds);
+        } catch (uploadError: any) {
+          console.error('Error uploading call recording:', uploadError);
+          showError(`Interaction saved, but the recording upload failed: ${uploadError?.message || 'unknown error'}`);
+        }
+        setRecording(null);
+      }
       
       // Clear form and task data
       setFormData({
@@ -453,12 +572,19 @@ const AgentWorkspace: React.FC = () => {
         farmerComments: '',
         sentiment: 'N/A',
         activityQuality: undefined,
+        doNotCall: null,
       });
       setTaskData(null);
       setCallDuration(0);
-      
-      // Fetch next task
-      await handleLoadTasks();
+
+      if (nextPresence) setPresence(nextPresence);
+      if (nextPresence?.mode === 'progressive') {
+        // Wrap-up countdown runs in the header; with no wrap-up time go straight to the next call
+        if (nextPresence.state !== 'wrap_up') await loadProgressiveNext();
+      } else {
+        // Fetch next task
+        await handleLoadTasks();
+      }
     } catch (error) {
       console.error('Error submitting interaction:', error);
       showError('Failed to submit interaction. Please try again.');
@@ -565,6 +691,17 @@ const AgentWorkspace: React.FC = () => {
           >
             <TrendingUp size={24} />
           </button>
+          <button
+            onClick={() => setActiveSection('inbound')}
+            className={`p-3 rounded-2xl transition-all ${
+              activeSection === 'inbound' 
+                ? 'text-lime-400 bg-lime-500/20' 
+                : 'text-slate-400 hover:text-white hover:bg-slate-800'
+            }`}
+            title="Inbound Queries"
+          >
+            <PhoneIncoming size={24} />
+          </button>
         </nav>
       </aside>
 
@@ -618,6 +755,14 @@ const AgentWorkspace: React.FC = () => {
             )}
           </div>
           <div className="flex items-center gap-4">
+            <AgentPresenceControls
+              presence={presence}
+              settings={dialerSettings}
+              onPresenceChange={setPresence}
+              onNextCall={activeSection === 'dialer' && !taskData ? loadProgressiveNext : undefined}
+              isFetchingNext={isFetchingNext}
+              idleMessage={!taskData ? progressiveIdle : null}
+            />
             {/* User Info */}
             {user && (
               <div className="hidden sm:flex items-center gap-2 text-sm text-slate-300">
@@ -642,6 +787,7 @@ const AgentWorkspace: React.FC = () => {
           <div className="flex-1 min-w-0 overflow-hidden relative">
             {activeSection === 'history' && <AgentHistoryView onOpenTask={openTaskById} />}
             {activeSection === 'analytics' && <AgentAnalyticsView />}
+            {activeSection === 'inbound' && <InboundQueryPanel />}
           </div>
         ) : (
           /* Main Three-Pane Interface */
@@ -651,6 +797,11 @@ const AgentWorkspace: React.FC = () => {
           <TaskDetailsPanel 
             taskData={taskData}
             isActive={activeTab === 'details'}
+            softphone={
+              taskData && (
+                <Softphone taskId={taskData.taskId} call={telephonyCall} onCallUpdate={handleTelephonyCallUpdate} />
+              )
+            }
           />
 
           {/* Structured Submission (Flow) */}
@@ -667,6 +818,7 @@ const AgentWorkspace: React.FC = () => {
                 NonPurchaseReasons={NonPurchaseReasons}
                 isAIPanelExpanded={isAIPanelExpanded}
                 onOutboundStatusSelected={handleOutboundStatusSelected}
+                callStatusLocked={callStatusFromTelephony}
               />
 
           {/* Edge-only hover strip: opens Notetaker only when cursor reaches the viewport edge (not a wide margin). */}
@@ -785,6 +937,8 @@ const AgentWorkspace: React.FC = () => {
           isSubmitting={isSubmitting}
           callDuration={callDuration}
           farmerName={taskData.farmer.name}
+          recordingFile={recording?.file ?? null}
+          onRecordingChange={(file, durationSeconds) => setRecording(file ? { file, durationSeconds } : null)}
         />
       )}
     </div>
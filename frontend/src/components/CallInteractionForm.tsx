@@ -1,11 +1,25 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Loader2, CheckCircle } from 'lucide-react';
+import { Loader2, CheckCircle, PhoneOff } from 'lucide-react';
 import BinaryToggle from './BinaryToggle';
 import MultiTagSelect from './MultiTagSelect';
 import PurchasedProductsInput from './PurchasedProductsInput';
 import { masterDataAPI } from '../services/api';
 import Button from './shared/Button';
 
+export interface DoNotCallCapture {
+  kind: 'do_not_call' | 'no_consent';
+  reason: string;
+  /** null = no expiry */
+  expiresInDays: number | null;
+}
+
+const DO_NOT_CALL_EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: 'Permanent', days: null },
+  { label: '90 days', days: 90 },
+  { label: '6 months', days: 180 },
+  { label: '1 year', days: 365 },
+];
+
 interface CallInteractionFormProps {
   taskData: any;
   formData: {
@@ -22,6 +36,8 @@ interface CallInteractionFormProps {
     purchasedProducts?: Array<{ product: string; quantity: string; unit: string }>;
     farmerComments: string;
     sentiment: 'Positive' | 'Negative' | 'Neutral' | 'N/A';
+    /** Farmer asked not to be called again / did not consent (added to the do-not-call registry on submit) */
+    doNotCall?: DoNotCallCapture | null;
   };
   setFormData: React.Dispatch<React.SetStateAction<any>>;
   toggleList: (field: 'cropsDiscussed' | 'productsDiscussed', item: string) => void;
@@ -33,6 +49,8 @@ interface CallInteractionFormProps {
   NonPurchaseReasons: string[];
   isAIPanelExpanded?: boolean;
   onOutboundStatusSelected?: (status: string) => void;
+  /** Outbound status comes from telephony call events and cannot be changed by hand */
+  callStatusLocked?: boolean;
 }
 
 const CallInteractionForm: React.FC<CallInteractionFormProps> = ({
@@ -48,6 +66,7 @@ const CallInteractionForm: React.FC<CallInteractionFormProps> = ({
   NonPurchaseReasons,
   isAIPanelExpanded = false,
   onOutboundStatusSelected,
+  callStatusLocked = false,
 }) => {
   const [masterCrops, setMasterCrops] = useState<string[]>([]);
   const [masterProducts, setMasterProducts] = useState<string[]>([]);
@@ -168,6 +187,7 @@ const CallInteractionForm: React.FC<CallInteractionFormProps> = ({
         likelyPurchaseDate: undefined,
         nonPurchaseReason: '',
         purchasedProducts: [],
+        doNotCall: null,
       }));
     }
     prevCallStatusRef.current = formData.callStatus;
@@ -252,7 +272,10 @@ const CallInteractionForm: React.FC<CallInteractionFormProps> = ({
         
             {/* Call Status (PRD 7.4.1) */}
             <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
-              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">1. Outbound Status</h3>
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">
+                1. Outbound Status
+                {callStatusLocked && <span className="ml-2 normal-case tracking-normal font-bold text-lime-700">Set from call</span>}
+              </h3>
                 <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
                   {['Connected', 'Disconnected', 'Incoming N/A', 'Invalid', 'No Answer'].map(status => {
                     const isSelected = formData.callStatus === status;
@@ -260,6 +283,7 @@ const CallInteractionForm: React.FC<CallInteractionFormProps> = ({
                     return (
                       <button
                         key={status}
+                        disabled={callStatusLocked}
                         onClick={() => {
                           const nextStatus = isSelected ? '' : status;
                           setFormData((p: any) => ({ ...p, callStatus: nextStatus }));
@@ -273,7 +297,7 @@ const CallInteractionForm: React.FC<CallInteractionFormProps> = ({
                               ? 'bg-green-700 text-white border-green-700 shadow-sm'
                               : 'bg-slate-950 text-white border-slate-950 shadow-sm'
                             : 'bg-white text-slate-700 border-slate-200 hover:border-slate-300 hover:bg-slate-50'
-                        }`}
+                        } disabled:cursor-not-allowed disabled:opacity-60`}
                       >
                         {status}
                       </button>
@@ -282,6 +306,72 @@ const CallInteractionForm: React.FC<CallInteractionFormProps> = ({
                 </div>
             </div>
 
+            {formData.callStatus === 'Connected' && (
+              <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm space-y-3">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!formData.doNotCall}
+                    onChange={(e) =>
+                      setFormData((p: any) => ({
+                        ...p,
+                        doNotCall: e.target.checked ? { kind: 'do_not_call', reason: '', expiresInDays: null } : null,
+                      }))
+                    }
+                    className="h-4 w-4 rounded border-slate-300 text-red-600 focus:ring-red-500"
+                  />
+                  <PhoneOff size={14} className="text-red-600" />
+                  <span className="text-sm font-black text-slate-900">Farmer does not want to be called</span>
+                </label>
+                {formData.doNotCall && (
+                  <div className="space-y-3 animate-in fade-in slide-in-from-bottom-4 duration-500">
+                    <div className="flex flex-wrap gap-2">
+                      {([
+                        ['do_not_call', 'Asked not to be called'],
+                        ['no_consent', 'No consent'],
+                      ] as const).map(([kind, label]) => (
+                        <button
+                          key={kind}
+                          onClick={() => setFormData((p: any) => ({ ...p, doNotCall: { ...p.doNotCall, kind } }))}
+                          className={`px-3 py-1.5 rounded-lg border text-[9px] font-black uppercase tracking-tighter transition-all min-h-[32px] ${
+                            formData.doNotCall?.kind === kind
+                              ? 'bg-red-600 text-white border-red-600 shadow-sm'
+                              : 'bg-white text-slate-700 border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <input
+                      type="text"
+                      value={formData.doNotCall.reason}
+                      maxLength={500}
+                      onChange={(e) => setFormData((p: any) => ({ ...p, doNotCall: { ...p.doNotCall, reason: e.target.value } }))}
+                      placeholder="Reason (required)"
+                      className="w-full min-h-12 px-4 py-3 border border-slate-200 rounded-xl text-sm font-medium text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-lime-400 focus:border-lime-400"
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Expires</span>
+                      {DO_NOT_CALL_EXPIRY_OPTIONS.map((opt) => (
+                        <button
+                          key={opt.label}
+                          onClick={() => setFormData((p: any) => ({ ...p, doNotCall: { ...p.doNotCall, expiresInDays: opt.days } }))}
+                          className={`px-3 py-1.5 rounded-lg border text-[9px] font-black uppercase tracking-tighter transition-all min-h-[32px] ${
+                            formData.doNotCall?.expiresInDays === opt.days
+                              ? 'bg-slate-950 text-white border-slate-950 shadow-sm'
+                              : 'bg-white text-slate-700 border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+                          }`}
+                        >
+                          {opt.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {formData.callStatus === 'Connected' && (
               <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500" ref={meetingAttendanceRef}>
                 
@@ -1,5 +1,5 @@
-import React from 'react';
-import { X, ArrowLeft, CheckCircle, Phone, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ArrowLeft, CheckCircle, Phone, TrendingUp, TrendingDown, Minus, Mic, Trash2 } from 'lucide-react';
 import { useToast } from '../context/ToastContext';
 import Button from './shared/Button';
 
@@ -25,8 +25,13 @@ interface CallReviewModalProps {
   isSubmitting: boolean;
   callDuration: number;
   farmerName: string;
+  /** Optional call recording; uploaded by the parent after the interaction is submitted */
+  recordingFile?: File | null;
+  onRecordingChange?: (file: File | null, durationSeconds: number | null) => void;
 }
 
+const MAX_RECORDING_MB = 50;
+
 const CallReviewModal: React.FC<CallReviewModalProps> = ({
   isOpen,
   onClose,
@@ -35,11 +40,47 @@ const CallReviewModal: React.FC<CallReviewModalProps> = ({
   isSubmitting,
   callDuration,
   farmerName,
+  recordingFile = null,
+  onRecordingChange,
 }) => {
   const { showWarning } = useToast();
-  
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (!recordingFile) {
+      setRecordingUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(recordingFile);
+    setRecordingUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recordingFile]);
+
   if (!isOpen) return null;
 
+  const handleRecordingSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    e.target.value = '';
+    if (!file || !onRecordingChange) return;
+    if (!file.type.startsWith('audio/')) {
+      showWarning('Please choose an audio file');
+      return;
+    }
+    if (file.size > MAX_RECORDING_MB * 1024 * 1024) {
+      showWarning(`Recording must be ${MAX_RECORDING_MB}MB or smaller`);
+      return;
+    }
+    onRecordingChange(file, null);
+  };
+
+  const handleRecordingMetadata = (e: React.SyntheticEvent<HTMLAudioElement>) => {
+    const duration = e.currentTarget.duration;
+    if (recordingFile && onRecordingChange && Number.isFinite(duration)) {
+      onRecordingChange(recordingFile, Math.round(duration));
+    }
+  };
+
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -112,6 +153,50 @@ const CallReviewModal: React.FC<CallReviewModalProps> = ({
             </div>
           </div>
 
+          {/* Call Recording */}
+          {onRecordingChange && (
+            <div className="bg-slate-50 p-6 rounded-2xl border border-slate-200">
+              <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+                <Mic size={14} />
+                Call Recording (optional)
+              </h3>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="audio/*"
+                className="hidden"
+                onChange={handleRecordingSelected}
+              />
+              {recordingFile && recordingUrl ? (
+                <div className="bg-white p-4 rounded-xl border border-slate-200 space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-sm font-medium text-slate-700 truncate">{recordingFile.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => onRecordingChange(null, null)}
+                      className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                      disabled={isSubmitting}
+                      title="Remove recording"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                  <audio controls src={recordingUrl} onLoadedMetadata={handleRecordingMetadata} className="w-full" />
+                </div>
+              ) : (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isSubmitting}
+                >
+                  <Mic size={14} />
+                  Attach Recording
+                </Button>
+              )}
+            </div>
+          )}
+
           {/* Show detailed fields only for Connected calls */}
           {formData.callStatus === 'Connected' ? (
             <div className="space-y-6 animate-in fade-in slide-in-from-bottom-8 duration-700">
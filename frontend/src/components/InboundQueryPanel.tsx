@@ -0,0 +1,334 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Search, Loader2, PhoneIncoming, CheckCircle, User, RefreshCw } from 'lucide-react';
+import Button from './shared/Button';
+import StyledSelect from './shared/StyledSelect';
+import { inboundAPI, type InboundQueryRecord, type InboundQueryType } from '../services/api';
+import { useToast } from '../context/ToastContext';
+
+const QUERY_TYPES: InboundQueryType[] = ['Product usage', 'Complaint', 'General inquiry'];
+
+const STATUS_STYLES: Record<string, string> = {
+  open: 'bg-amber-50 text-amber-700 border-amber-200',
+  in_progress: 'bg-blue-50 text-blue-700 border-blue-200',
+  resolved: 'bg-green-50 text-green-700 border-green-200',
+  escalated: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return '-';
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return '-';
+  return d.toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+const emptyForm = {
+  callerName: '',
+  queryType: 'Product usage' as InboundQueryType,
+  category: '',
+  description: '',
+  resolveNow: false,
+};
+
+/**
+ * Agent-side inbound desk: look up the calling farmer by mobile number, log the query,
+ * and work through queries the agent logged or was assigned.
+ */
+const InboundQueryPanel: React.FC = () => {
+  const { showSuccess, showError } = useToast();
+  const [mobile, setMobile] = useState('');
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [lookup, setLookup] = useState<{ mobileNumber: string; farmer: any | null; recentQueries: any[] } | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [queries, setQueries] = useState<InboundQueryRecord[]>([]);
+  const [isLoadingList, setIsLoadingList] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+
+  const loadQueries = useCallback(async () => {
+    setIsLoadingList(true);
+    try {
+      const res = await inboundAPI.getOwnQueries({
+        status: statusFilter !== 'all' ? (statusFilter as any) : undefined,
+        limit: 50,
+      });
+      setQueries(res.data?.queries || []);
+    } catch (e: any) {
+      showError(e?.message || 'Failed to load inbound queries');
+    } finally {
+      setIsLoadingList(false);
+    }
+  }, [statusFilter, showError]);
+
+  useEffect(() => {
+    loadQueries();
+  }, [loadQueries]);
+
+  const handleLookup = async () => {
+    const digits = mobile.replace(/\D/g, '');
+    if (digits.length < 10) {
+      showError('Enter a 10-digit mobile number');
+      return;
+    }
+    setIsLookingUp(true);
+    try {
+      const res = await inboundAPI.lookupFarmer(mobile);
+      setLookup(res.data);
+    } catch (e: any) {
+      showError(e?.message || 'Farmer lookup failed');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!lookup) {
+      showError('Look up the caller before logging the query');
+      return;
+    }
+    if (!form.category.trim() || !form.description.trim()) {
+      showError('Category and description are required');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await inboundAPI.logQuery({
+        farmerId: lookup.farmer?._id,
+        callerMobile: lookup.mobileNumber,
+        callerName: lookup.farmer ? undefined : form.callerName.trim() || undefined,
+        queryType: form.queryType,
+        category: form.category.trim(),
+        description: form.description.trim(),
+        status: form.resolveNow ? 'resolved' : 'open',
+      });
+      showSuccess('Inbound query logged');
+      setForm(emptyForm);
+      setLookup(null);
+      setMobile('');
+      await loadQueries();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to log query');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResolve = async (id: string) => {
+    try {
+      await inboundAPI.resolveQuery(id);
+      showSuccess('Query resolved');
+      await loadQueries();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to resolve query');
+    }
+  };
+
+  const handleStartWork = async (id: string) => {
+    try {
+      await inboundAPI.updateQuery(id, { status: 'in_progress' });
+      await loadQueries();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to update query');
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 lg:p-8">
+      <div className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Log a query */}
+        <div className="bg-white rounded-3xl border border-slate-200 shadow-sm p-6 space-y-5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-lime-100 rounded-xl flex items-center justify-center">
+              <PhoneIncoming className="text-lime-700" size={20} />
+            </div>
+            <div>
+              <h2 className="text-lg font-black text-slate-900">Log Inbound Query</h2>
+              <p className="text-xs text-slate-500">Record a farmer who called us</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-600 uppercase tracking-wide mb-2">Caller mobile</label>
+            <div className="flex gap-2">
+              <input
+                type="tel"
+                value={mobile}
+                onChange={(e) => {
+                  setMobile(e.target.value);
+                  setLookup(null);
+                }}
+                onKeyDown={(e) => e.key === 'Enter' && handleLookup()}
+                placeholder="10-digit mobile number"
+                className="flex-1 px-4 py-3 rounded-2xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-lime-500"
+              />
+              <Button variant="secondary" onClick={handleLookup} loading={isLookingUp}>
+                <Search size={16} />
+                Find
+              </Button>
+            </div>
+          </div>
+
+          {lookup && (
+            <div className="rounded-2xl border border-slate-200 bg-slate-50 p-4 text-sm">
+              {lookup.farmer ? (
+                <div className="flex items-start gap-3">
+                  <User size={18} className="text-slate-500 mt-0.5" />
+                  <div>
+                    <p className="font-bold text-slate-900">{lookup.farmer.name}</p>
+                    <p className="text-xs text-slate-600">
+                      {lookup.farmer.location} • {lookup.farmer.preferredLanguage}
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-xs font-bold text-amber-700">No farmer found for {lookup.mobileNumber}. The query will be logged against the number.</p>
+                  <input
+                    type="text"
+                    value={form.callerName}
+                    onChange={(e) => setForm((f) => ({ ...f, callerName: e.target.value }))}
+                    placeholder="Caller name (optional)"
+                    className="w-full px-4 py-2 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-lime-500"
+                  />
+                </div>
+              )}
+              {lookup.recentQueries.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-slate-200">
+                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-wide mb-1">Recent queries</p>
+                  <ul className="space-y-1">
+                    {lookup.recentQueries.map((q: any) => (
+                      <li key={q._id} className="text-xs text-slate-700 flex justify-between gap-2">
+                        <span>{q.queryType} — {q.category}</span>
+                        <span className="text-slate-500">{q.status} • {formatDateTime(q.createdAt)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-600 uppercase tracking-wide mb-2">Query type</label>
+              <StyledSelect
+                value={form.queryType}
+                onChange={(v) => setForm((f) => ({ ...f, queryType: v as InboundQueryType }))}
+                options={QUERY_TYPES.map((t) => ({ value: t, label: t }))}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-600 uppercase tracking-wide mb-2">Category</label>
+              <input
+                type="text"
+                value={form.category}
+                onChange={(e) => setForm((f) => ({ ...f, category: e.target.value }))}
+                placeholder="e.g. Dosage, Availability"
+                className="w-full px-4 py-3 rounded-2xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-lime-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-600 uppercase tracking-wide mb-2">Description</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+              rows={4}
+              placeholder="What did the farmer ask or report?"
+              className="w-full px-4 py-3 rounded-2xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-lime-500 resize-none"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={form.resolveNow}
+              onChange={(e) => setForm((f) => ({ ...f, resolveNow: e.target.checked }))}
+              className="rounded border-slate-300 text-lime-600 focus:ring-lime-500"
+            />
+            Resolved on this call
+          </label>
+
+          <Button onClick={handleSubmit} loading={isSaving} disabled={!lookup} className="w-full">
+            Log Query
+          </Button>
+        </div>
+
+        {/* My queries */}
+        <div className="bg-white rounded-3xl border border-slate-200 shadow-sm p-6 flex flex-col min-h-[420px]">
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <h2 className="text-lg font-black text-slate-900">My Inbound Queries</h2>
+            <div className="flex items-center gap-2">
+              <div className="w-40">
+                <StyledSelect
+                  value={statusFilter}
+                  onChange={setStatusFilter}
+                  options={[
+                    { value: 'all', label: 'All statuses' },
+                    { value: 'open', label: 'Open' },
+                    { value: 'in_progress', label: 'In progress' },
+                    { value: 'escalated', label: 'Escalated' },
+                    { value: 'resolved', label: 'Resolved' },
+                  ]}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={loadQueries}
+                className="p-2 rounded-xl text-slate-500 hover:bg-slate-100"
+                title="Refresh"
+              >
+                <RefreshCw size={16} className={isLoadingList ? 'animate-spin' : ''} />
+              </button>
+            </div>
+          </div>
+
+          {isLoadingList && queries.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center">
+              <Loader2 className="animate-spin text-lime-600" size={24} />
+            </div>
+          ) : queries.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-sm text-slate-500">No inbound queries yet</div>
+          ) : (
+            <ul className="space-y-3 overflow-y-auto">
+              {queries.map((q) => (
+                <li key={q._id} className="rounded-2xl border border-slate-200 p-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-bold text-slate-900 text-sm truncate">
+                        {q.farmerId?.name || q.callerName || 'Unknown caller'}{' '}
+                        <span className="font-medium text-slate-500">{q.farmerId?.mobileNumber || q.callerMobile}</span>
+                      </p>
+                      <p className="text-xs text-slate-600">
+                        {q.queryType} — {q.category} • {formatDateTime(q.createdAt)}
+                      </p>
+                    </div>
+                    <span className={`shrink-0 px-2 py-0.5 rounded-lg border text-[10px] font-bold uppercase ${STATUS_STYLES[q.status] || ''}`}>
+                      {q.status.replace('_', ' ')}
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-700 mt-2 line-clamp-2">{q.description}</p>
+                  {q.status !== 'resolved' && q.status !== 'escalated' && (
+                    <div className="flex gap-2 mt-3">
+                      {q.status === 'open' && (
+                        <Button size="sm" variant="secondary" onClick={() => handleStartWork(q._id)}>
+                          Start
+                        </Button>
+                      )}
+                      <Button size="sm" onClick={() => handleResolve(q._id)}>
+                        <CheckCircle size={14} />
+                        Resolve
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InboundQueryPanel;
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { Phone, PhoneOff, Grid3x3, Loader2 } from 'lucide-react';
+import { tasksAPI, telephonyAPI, type TelephonyCall } from '../services/api';
+import { useToast } from '../context/ToastContext';
+
+interface SoftphoneProps {
+  taskId: string;
+  call: TelephonyCall | null;
+  onCallUpdate: (call: TelephonyCall) => void;
+}
+
+const POLL_MS = 1000;
+const DTMF_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '*', '0', '#'];
+
+const STATUS_LABEL: Record<TelephonyCall['status'], string> = {
+  dialing: 'Dialing…',
+  ringing: 'Ringing…',
+  answered: 'Connected',
+  ended: 'Call ended',
+  failed: 'Dial failed',
+};
+
+const isLive = (call: TelephonyCall | null) => !!call && ['dialing', 'ringing', 'answered'].includes(call.status);
+
+/**
+ * Click-to-dial controls for the loaded task. Renders nothing when telephony is not configured,
+ * leaving the tel: link for manual dialing. Call state comes from provider events (polled).
+ */
+const Softphone: React.FC<SoftphoneProps> = ({ taskId, call, onCallUpdate }) => {
+  const { showError } = useToast();
+  const [enabled, setEnabled] = useState(false);
+  const [isDialing, setIsDialing] = useState(false);
+  const [showKeypad, setShowKeypad] = useState(false);
+
+  useEffect(() => {
+    telephonyAPI
+      .getConfig()
+      .then((res) => setEnabled(!!res.data?.enabled))
+      .catch(() => setEnabled(false));
+  }, []);
+
+  const callId = call?._id;
+  const live = isLive(call);
+
+  useEffect(() => {
+    if (!callId || !live) return;
+    const timer = setInterval(async () => {
+      try {
+        const res = await telephonyAPI.getCall(callId);
+        if (res.data?.call) onCallUpdate(res.data.call);
+      } catch {
+        // keep polling; a missed tick is harmless
+      }
+    }, POLL_MS);
+    return () => clearInterval(timer);
+  }, [callId, live, onCallUpdate]);
+
+  if (!enabled) return null;
+
+  const handleDial = async () => {
+    setIsDialing(true);
+    try {
+      const res = await tasksAPI.markInProgress(taskId, { dial: true });
+      if (res.data?.call) onCallUpdate(res.data.call);
+    } catch (e: any) {
+      showError(e?.message || 'Could not place the call');
+    } finally {
+      setIsDialing(false);
+    }
+  };
+
+  const handleHangup = async () => {
+    if (!callId) return;
+    try {
+      const res = await telephonyAPI.hangup(callId);
+      if (res.data?.call) onCallUpdate(res.data.call);
+    } catch (e: any) {
+      showError(e?.message || 'Could not hang up');
+    }
+  };
+
+  const handleDtmf = async (digit: string) => {
+    if (!callId) return;
+    try {
+      await telephonyAPI.sendDtmf(callId, digit);
+    } catch (e: any) {
+      showError(e?.message || 'Could not send tone');
+    }
+  };
+
+  return (
+    <div className="p-3 bg-slate-900 rounded-xl text-white space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-[9px] font-black text-lime-400 uppercase tracking-widest">Softphone</p>
+          <p className="text-xs font-bold truncate">
+            {call ? STATUS_LABEL[call.status] : 'Ready'}
+            {call?.outcome && <span className="text-slate-400 font-medium"> • {call.outcome.callStatus}</span>}
+          </p>
+        </div>
+        {live ? (
+          <div className="flex items-center gap-1.5">
+            {call?.status === 'answered' && (
+              <button
+                type="button"
+                onClick={() => setShowKeypad((v) => !v)}
+                className={`p-2 rounded-lg ${showKeypad ? 'bg-slate-700' : 'bg-slate-800 hover:bg-slate-700'}`}
+                title="Keypad"
+              >
+                <Grid3x3 size={16} />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleHangup}
+              className="flex items-center gap-1.5 px-3 py-2 bg-red-600 hover:bg-red-500 rounded-lg text-xs font-black uppercase"
+            >
+              <PhoneOff size={14} />
+              Hang up
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={handleDial}
+            disabled={isDialing}
+            className="flex items-center gap-1.5 px-3 py-2 bg-lime-500 hover:bg-lime-400 text-slate-900 rounded-lg text-xs font-black uppercase disabled:opacity-50"
+          >
+            {isDialing ? <Loader2 size={14} className="animate-spin" /> : <Phone size={14} />}
+            {call ? 'Call again' : 'Call'}
+          </button>
+        )}
+      </div>
+      {showKeypad && call?.status === 'answered' && (
+        <div className="grid grid-cols-3 gap-1.5">
+          {DTMF_KEYS.map((k) => (
+            <button
+              key={k}
+              type="button"
+              onClick={() => handleDtmf(k)}
+              className="py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm font-black"
+            >
+              {k}
+            </button>
+          ))}
+        </div>
+      )}
+      {call && call.dtmf.length > 0 && (
+        <p className="text-[10px] text-slate-400">
+          Keys: {call.dtmf.map((d) => `${d.direction === 'inbound' ? '←' : '→'}${d.digits}`).join(' ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default Softphone;
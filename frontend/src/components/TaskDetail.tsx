@@ -1,8 +1,8 @@
 import React, { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
-import { tasksAPI, usersAPI } from '../services/api';
-import { ArrowLeft, User as UserIcon, Phone, MapPin, Calendar, Clock, CheckCircle, XCircle, AlertCircle, Loader2, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { tasksAPI, usersAPI, type CallRecordingInfo } from '../services/api';
+import { ArrowLeft, User as UserIcon, Phone, MapPin, Calendar, Clock, CheckCircle, XCircle, AlertCircle, Loader2, TrendingUp, TrendingDown, Minus, Mic } from 'lucide-react';
 import Button from './shared/Button';
 import StyledSelect from './shared/StyledSelect';
 import ReassignModal from './ReassignModal';
@@ -52,6 +52,7 @@ interface Task {
     nonPurchaseReason?: string;
     farmerComments?: string;
     sentiment?: 'Positive' | 'Negative' | 'Neutral' | 'N/A';
+    recording?: CallRecordingInfo | null;
   };
   interactionHistory?: Array<{
     timestamp: string;
@@ -80,6 +81,26 @@ const TaskDetail: React.FC<TaskDetailProps> = ({ task, onBack, onTaskUpdated })
   const [showStatusModal, setShowStatusModal] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [isLoadingRecording, setIsLoadingRecording] = useState(false);
+
+  // Release the recording blob when leaving the task
+  React.useEffect(() => {
+    return () => {
+      if (recordingUrl) URL.revokeObjectURL(recordingUrl);
+    };
+  }, [recordingUrl]);
+
+  const handleLoadRecording = async () => {
+    setIsLoadingRecording(true);
+    try {
+      setRecordingUrl(await tasksAPI.getRecordingObjectUrl(task._id));
+    } catch (err: any) {
+      showError(err.message || 'Failed to load recording');
+    } finally {
+      setIsLoadingRecording(false);
+    }
+  };
 
   // Fetch full task details
   React.useEffect(() => {
@@ -352,6 +373,28 @@ const TaskDetail: React.FC<TaskDetailProps> = ({ task, onBack, onTaskUpdated })
                 <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Call Date & Time</p>
                 <p className="text-sm font-medium text-slate-700">{formatDateTime(fullTask.callLog.timestamp)}</p>
               </div>
+              {fullTask.callLog.recording && (
+                <div>
+                  <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Call Recording</p>
+                  <p className="text-xs text-slate-500 mb-2">
+                    {fullTask.callLog.recording.originalFileName || 'Recording'}
+                    {fullTask.callLog.recording.durationSeconds != null &&
+                      ` • ${Math.floor(fullTask.callLog.recording.durationSeconds / 60)}:${String(fullTask.callLog.recording.durationSeconds % 60).padStart(2, '0')}`}
+                    {` • ${(fullTask.callLog.recording.sizeBytes / (1024 * 1024)).toFixed(1)} MB`}
+                  </p>
+                  {recordingUrl ? (
+                    <audio controls autoPlay src={recordingUrl} className="w-full" />
+                  ) : (
+                    <Button variant="secondary" size="sm" onClick={handleLoadRecording} loading={isLoadingRecording}>
+                      {!isLoadingRecording && <Mic size={14} />}
+                      Play Recording
+                    </Button>
+                  )}
+                  <p className="text-[10px] text-slate-400 mt-1 font-mono break-all">
+                    SHA-256: {fullTask.callLog.recording.checksumSha256}
+                  </p>
+                </div>
+              )}
               {fullTask.callLog.didAttend !== null && fullTask.callLog.didAttend !== undefined && (
                 <div>
                   <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Did Attend Meeting</p>
@@ -43,9 +43,11 @@ interface TaskDetailsPanelProps {
     updatedAt?: string;
   } | null;
   isActive: boolean;
+  /** Click-to-dial controls, shown under the farmer's number */
+  softphone?: React.ReactNode;
 }
 
-const TaskDetailsPanel: React.FC<TaskDetailsPanelProps> = ({ taskData, isActive }) => {
+const TaskDetailsPanel: React.FC<TaskDetailsPanelProps> = ({ taskData, isActive, softphone }) => {
   return (
     <section className={`${isActive ? 'flex' : 'hidden'} lg:flex w-full lg:w-80 bg-white border-r border-slate-200 p-4 lg:p-5 flex-col gap-3 shrink-0 overflow-y-auto`}>
       {taskData ? (
@@ -98,6 +100,8 @@ const TaskDetailsPanel: React.FC<TaskDetailsPanelProps> = ({ taskData, isActive
             </div>
           </div>
 
+          {softphone}
+
           <div>
             <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2 block">
               Activity Reference
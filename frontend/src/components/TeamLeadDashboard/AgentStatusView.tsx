@@ -0,0 +1,168 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, Settings, Loader2 } from 'lucide-react';
+import Button from '../shared/Button';
+import DialerSettingsModal from './DialerSettingsModal';
+import { presenceAPI, type AgentAvailability, type TeamAgentPresence } from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+const POLL_MS = 10000;
+
+const STATE_LABELS: Record<AgentAvailability, string> = {
+  available: 'Available',
+  on_call: 'On call',
+  wrap_up: 'Wrap-up',
+  break: 'On break',
+  offline: 'Offline',
+};
+
+const STATE_STYLES: Record<AgentAvailability, string> = {
+  available: 'bg-green-50 text-green-700 border-green-200',
+  on_call: 'bg-blue-50 text-blue-700 border-blue-200',
+  wrap_up: 'bg-amber-50 text-amber-700 border-amber-200',
+  break: 'bg-red-50 text-red-700 border-red-200',
+  offline: 'bg-slate-50 text-slate-500 border-slate-200',
+};
+
+/** "12m" / "1h 05m" since the agent entered the current state */
+const formatSince = (value: string | null, now: number) => {
+  if (!value) return '-';
+  const minutes = Math.max(0, Math.floor((now - new Date(value).getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
+
+/**
+ * Live view of the team's agents: availability, time in state and the farmer on the line.
+ * Polls every 10s while open.
+ */
+const AgentStatusView: React.FC = () => {
+  const { showError } = useToast();
+  const [agents, setAgents] = useState<TeamAgentPresence[]>([]);
+  const [summary, setSummary] = useState<Record<AgentAvailability, number>>({
+    available: 0,
+    on_call: 0,
+    wrap_up: 0,
+    break: 0,
+    offline: 0,
+  });
+  const [asOf, setAsOf] = useState<number>(Date.now());
+  const [isLoading, setIsLoading] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const load = useCallback(
+    async (showSpinner = false) => {
+      if (showSpinner) setIsLoading(true);
+      try {
+        const res = await presenceAPI.getTeam();
+        setAgents(res.data.agents);
+        setSummary(res.data.summary);
+        setAsOf(new Date(res.data.asOf).getTime());
+      } catch (e: any) {
+        if (showSpinner) showError(e?.message || 'Failed to load agent status');
+      } finally {
+        if (showSpinner) setIsLoading(false);
+      }
+    },
+    [showError]
+  );
+
+  useEffect(() => {
+    load(true);
+    const timer = setInterval(() => load(), POLL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-black text-slate-900">Agent Status</h2>
+          <p className="text-xs text-slate-500">Updated {new Date(asOf).toLocaleTimeString('en-IN')}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm" onClick={() => setShowSettings(true)}>
+            <Settings size={14} />
+            Dialer Settings
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => load(true)} disabled={isLoading}>
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {(Object.keys(STATE_LABELS) as AgentAvailability[]).map((s) => (
+          <div key={s} className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-wide">{STATE_LABELS[s]}</p>
+            <p className="text-2xl font-black text-slate-900">{summary[s] ?? 0}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 border-b border-slate-200">
+            <tr className="text-left text-[10px] font-black text-slate-500 uppercase tracking-wide">
+              <th className="px-4 py-3">Agent</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3">In state</th>
+              <th className="px-4 py-3">Mode</th>
+              <th className="px-4 py-3">Current farmer</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {isLoading && agents.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-10 text-center">
+                  <Loader2 className="animate-spin text-lime-600 inline" size={20} />
+                </td>
+              </tr>
+            ) : agents.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-10 text-center text-slate-500">
+                  No agents in your team
+                </td>
+              </tr>
+            ) : (
+              agents.map((a) => (
+                <tr key={a.agentId}>
+                  <td className="px-4 py-3">
+                    <p className="font-bold text-slate-900">{a.name}</p>
+                    <p className="text-xs text-slate-500">{a.employeeId || a.email}</p>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span className={`px-2 py-1 rounded-lg border text-xs font-bold ${STATE_STYLES[a.state]}`}>
+                      {STATE_LABELS[a.state]}
+                    </span>
+                    {a.state === 'break' && a.breakReason && (
+                      <span className="ml-2 text-xs text-slate-500">{a.breakReason}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-slate-700">
+                    {a.state === 'offline' ? '-' : formatSince(a.stateSince, asOf)}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-slate-600 capitalize">{a.mode}</td>
+                  <td className="px-4 py-3 text-xs text-slate-600">
+                    {a.state === 'on_call' && a.currentFarmer ? (
+                      <>
+                        <p className="font-bold text-slate-800">{a.currentFarmer.name}</p>
+                        <p>{a.currentFarmer.mobileNumber}</p>
+                      </>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <DialerSettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} />
+    </div>
+  );
+};
+
+export default AgentStatusView;
@@ -1,8 +1,10 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { ChevronDown, ChevronUp, ArrowUpDown, Filter, RefreshCw, Phone, CheckSquare, Square, Loader2, AlertCircle, CheckCircle, XCircle } from 'lucide-react';
+import { ChevronDown, ChevronUp, ArrowUpDown, Filter, RefreshCw, Phone, CheckSquare, Square, Loader2, AlertCircle, CheckCircle, XCircle, Settings } from 'lucide-react';
 import Button from '../shared/Button';
 import StyledSelect from '../shared/StyledSelect';
 import { tasksAPI } from '../../services/api';
+import RetryPolicyModal from './RetryPolicyModal';
+import ScheduledRetriesPanel from './ScheduledRetriesPanel';
 import { useToast } from '../../context/ToastContext';
 import { type DateRangePreset, getPresetRange, formatPretty } from '../../utils/dateRangeUtils';
 
@@ -85,6 +87,7 @@ const CallbackRequestView: React.FC = () => {
   });
 
   const [showFilters, setShowFilters] = useState(false);
+  const [isRetryPolicyOpen, setIsRetryPolicyOpen] = useState(false);
   // Filters
   const [filters, setFilters] = useState({
     dateFrom: '',
@@ -280,6 +283,10 @@ const CallbackRequestView: React.FC = () => {
             <p className="text-sm text-slate-600 mt-1">Select completed/unsuccessful calls to schedule callbacks</p>
           </div>
           <div className="flex items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={() => setIsRetryPolicyOpen(true)}>
+              <Settings size={16} />
+              Retry Policy
+            </Button>
             <Button variant="secondary" size="sm" onClick={() => setShowFilters(!showFilters)}>
               <Filter size={16} />
               {showFilters ? 'Hide filters' : 'Filters'}
@@ -625,6 +632,9 @@ const CallbackRequestView: React.FC = () => {
           </div>
         </div>
       )}
+
+      <ScheduledRetriesPanel />
+      <RetryPolicyModal isOpen={isRetryPolicyOpen} onClose={() => setIsRetryPolicyOpen(false)} />
     </div>
   );
 };
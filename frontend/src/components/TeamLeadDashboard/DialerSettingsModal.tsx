@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import Modal from '../shared/Modal';
+import Button from '../shared/Button';
+import { presenceAPI } from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+interface DialerSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Wrap-up time after each submitted call and the break reasons agents can pick.
+ * New wrap-up time applies from the next submission.
+ */
+const DialerSettingsModal: React.FC<DialerSettingsModalProps> = ({ isOpen, onClose }) => {
+  const { showSuccess, showError } = useToast();
+  const [wrapUpSeconds, setWrapUpSeconds] = useState('');
+  const [breakReasons, setBreakReasons] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    presenceAPI
+      .getSettings()
+      .then((res) => {
+        setWrapUpSeconds(String(res.data.settings.wrapUpSeconds));
+        setBreakReasons(res.data.settings.breakReasons.join('\n'));
+      })
+      .catch((e: any) => showError(e?.message || 'Failed to load dialer settings'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, showError]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const seconds = Number(wrapUpSeconds);
+      if (!Number.isInteger(seconds) || seconds < 0 || seconds > 600) {
+        throw new Error('Wrap-up must be a whole number of seconds between 0 and 600');
+      }
+      const reasons = breakReasons
+        .split('\n')
+        .map((r) => r.trim())
+        .filter(Boolean);
+      if (reasons.length === 0) throw new Error('Add at least one break reason');
+
+      await presenceAPI.updateSettings({ wrapUpSeconds: seconds, breakReasons: reasons });
+      showSuccess('Dialer settings saved');
+      onClose();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to save dialer settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Dialer Settings" size="md">
+      <div className="p-6 space-y-5">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="animate-spin text-lime-600" size={24} />
+          </div>
+        ) : (
+          <>
+            <div>
+              <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Wrap-up (seconds)</label>
+              <input
+                type="number"
+                min={0}
+                max={600}
+                value={wrapUpSeconds}
+                onChange={(e) => setWrapUpSeconds(e.target.value)}
+                className="w-28 px-3 py-2 rounded-xl border border-slate-200 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Break reasons (one per line)</label>
+              <textarea
+                rows={5}
+                value={breakReasons}
+                onChange={(e) => setBreakReasons(e.target.value)}
+                className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm"
+              />
+            </div>
+          </>
+        )}
+        <p className="text-xs text-slate-500">
+          In progressive mode the next call loads when wrap-up ends. Agents in manual mode see the countdown only.
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={isSaving} disabled={isLoading}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default DialerSettingsModal;
@@ -0,0 +1,274 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, Loader2, PhoneOff, Plus, RefreshCw, Upload, X } from 'lucide-react';
+import Button from '../shared/Button';
+import StyledSelect from '../shared/StyledSelect';
+import {
+  doNotCallAPI,
+  type DoNotCallCounts,
+  type DoNotCallEntry,
+  type DoNotCallKind,
+  type DoNotCallSource,
+} from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+const KIND_LABELS: Record<DoNotCallKind, string> = { do_not_call: 'Do not call', no_consent: 'No consent' };
+const SOURCE_LABELS: Record<DoNotCallSource, string> = { agent: 'Agent', import: 'Import', ffa: 'FFA' };
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '–');
+
+/**
+ * Farmers who must not be sampled or called: captured by agents on a call, imported from Excel or
+ * synced from FFA. Team leads can add, revoke, import and export entries here.
+ */
+const DoNotCallPanel: React.FC = () => {
+  const { showError, showSuccess } = useToast();
+  const [entries, setEntries] = useState<DoNotCallEntry[]>([]);
+  const [counts, setCounts] = useState<DoNotCallCounts | null>(null);
+  const [total, setTotal] = useState(0);
+  const [kind, setKind] = useState<DoNotCallKind | ''>('');
+  const [source, setSource] = useState<DoNotCallSource | ''>('');
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [showAdd, setShowAdd] = useState(false);
+  const [draft, setDraft] = useState({ mobileNumber: '', kind: 'do_not_call' as DoNotCallKind, reason: '', expiresAt: '' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const filters = { kind: kind || undefined, source: source || undefined, search: search.trim() || undefined };
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await doNotCallAPI.list({ kind: kind || undefined, source: source || undefined, search: search.trim() || undefined, limit: 100 });
+      setEntries(res.data.entries);
+      setCounts(res.data.counts);
+      setTotal(res.data.pagination.total);
+    } catch (e: any) {
+      showError(e?.message || 'Failed to load the do-not-call registry');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [kind, source, search, showError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAdd = async () => {
+    if (!/^[0-9]{10}$/.test(draft.mobileNumber.trim()) || !draft.reason.trim()) {
+      showError('Enter a 10-digit mobile number and a reason');
+      return;
+    }
+    try {
+      await doNotCallAPI.add({
+        mobileNumber: draft.mobileNumber.trim(),
+        kind: draft.kind,
+        reason: draft.reason.trim(),
+        expiresAt: draft.expiresAt ? new Date(`${draft.expiresAt}T00:00:00`).toISOString() : null,
+      });
+      showSuccess('Farmer added to the do-not-call registry');
+      setDraft({ mobileNumber: '', kind: 'do_not_call', reason: '', expiresAt: '' });
+      setShowAdd(false);
+      load();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to add entry');
+    }
+  };
+
+  const handleRevoke = async (entry: DoNotCallEntry) => {
+    const farmerId = entry.farmerId?._id;
+    if (!farmerId) return;
+    try {
+      await doNotCallAPI.revoke(farmerId);
+      showSuccess(`${entry.mobileNumber} can be called again`);
+      load();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to revoke entry');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const res = await doNotCallAPI.importExcel(file);
+      const { recorded, totalRows, errors } = res.data;
+      if (errors.length) {
+        const first = errors[0];
+        showError(`Recorded ${recorded} of ${totalRows} rows. Row ${first.row}: ${first.message}${errors.length > 1 ? ` (+${errors.length - 1} more)` : ''}`);
+      } else {
+        showSuccess(`Recorded ${recorded} of ${totalRows} rows`);
+      }
+      load();
+    } catch (e: any) {
+      showError(e?.message || 'Import failed');
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await doNotCallAPI.downloadExport(filters);
+    } catch (e: any) {
+      showError(e?.message || 'Export failed');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6 min-w-0">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div className="min-w-0 flex-1">
+          <h3 className="text-lg font-black text-slate-900 flex items-center gap-2">
+            <PhoneOff size={18} className="text-red-600" />
+            Do-Not-Call Registry
+          </h3>
+          <p className="text-sm text-slate-600">
+            {counts
+              ? `${counts.total} active • ${counts.byKind.do_not_call} do not call, ${counts.byKind.no_consent} no consent • ` +
+                `agent ${counts.bySource.agent}, import ${counts.bySource.import}, FFA ${counts.bySource.ffa}`
+              : 'Farmers excluded from sampling and allocation'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="secondary" size="sm" onClick={() => setShowAdd((v) => !v)}>
+            <Plus size={16} />
+            Add
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.xls"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+            }}
+          />
+          <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+            Import
+          </Button>
+          <Button variant="secondary" size="sm" onClick={handleExport}>
+            <Download size={16} />
+            Export
+          </Button>
+          <Button variant="secondary" size="sm" onClick={load} disabled={isLoading}>
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {showAdd && (
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-2 mb-4 p-4 rounded-xl border border-slate-200 bg-slate-50">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={draft.mobileNumber}
+            onChange={(e) => setDraft((d) => ({ ...d, mobileNumber: e.target.value }))}
+            placeholder="Mobile number"
+            className="px-3 py-2 border border-slate-200 rounded-xl text-sm bg-white"
+          />
+          <StyledSelect
+            value={draft.kind}
+            onChange={(v) => setDraft((d) => ({ ...d, kind: v as DoNotCallKind }))}
+            options={Object.entries(KIND_LABELS).map(([value, label]) => ({ value, label }))}
+          />
+          <input
+            type="text"
+            value={draft.reason}
+            onChange={(e) => setDraft((d) => ({ ...d, reason: e.target.value }))}
+            placeholder="Reason"
+            className="px-3 py-2 border border-slate-200 rounded-xl text-sm bg-white"
+          />
+          <input
+            type="date"
+            value={draft.expiresAt}
+            min={new Date().toISOString().split('T')[0]}
+            onChange={(e) => setDraft((d) => ({ ...d, expiresAt: e.target.value }))}
+            title="Expiry (leave empty for none)"
+            className="px-3 py-2 border border-slate-200 rounded-xl text-sm bg-white"
+          />
+          <Button variant="primary" size="sm" onClick={handleAdd}>
+            Save
+          </Button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search mobile number"
+          className="px-3 py-2 border border-slate-200 rounded-xl text-sm w-48"
+        />
+        <StyledSelect
+          value={kind}
+          onChange={(v) => setKind(v as DoNotCallKind | '')}
+          options={[{ value: '', label: 'All types' }, ...Object.entries(KIND_LABELS).map(([value, label]) => ({ value, label }))]}
+          className="w-40"
+        />
+        <StyledSelect
+          value={source}
+          onChange={(v) => setSource(v as DoNotCallSource | '')}
+          options={[{ value: '', label: 'All sources' }, ...Object.entries(SOURCE_LABELS).map(([value, label]) => ({ value, label }))]}
+          className="w-40"
+        />
+        {total > entries.length && <span className="text-xs text-slate-500">Showing {entries.length} of {total}</span>}
+      </div>
+
+      {isLoading && !entries.length ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="animate-spin text-lime-600" size={24} />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-slate-500 py-4">No active entries.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-[10px] font-black text-slate-500 uppercase tracking-wide">
+              <tr className="border-b border-slate-200">
+                <th className="py-2 text-left">Farmer</th>
+                <th className="py-2 text-left">Type</th>
+                <th className="py-2 text-left">Reason</th>
+                <th className="py-2 text-left">Source</th>
+                <th className="py-2 text-left">Expires</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {entries.map((e) => (
+                <tr key={e._id}>
+                  <td className="py-2 text-slate-800">
+                    <span className="font-bold">{e.farmerId?.name || '–'}</span>
+                    <span className="ml-2 text-xs text-slate-400 tabular-nums">{e.mobileNumber}</span>
+                  </td>
+                  <td className="py-2">{KIND_LABELS[e.kind]}</td>
+                  <td className="py-2 text-slate-600 max-w-xs truncate" title={e.reason}>
+                    {e.reason}
+                  </td>
+                  <td className="py-2">{SOURCE_LABELS[e.source]}</td>
+                  <td className="py-2 tabular-nums">{formatDate(e.expiresAt)}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => handleRevoke(e)}
+                      className="inline-flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-red-600"
+                      title="Revoke: the farmer can be sampled and called again"
+                    >
+                      <X size={14} />
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DoNotCallPanel;
@@ -0,0 +1,394 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, Download, ArrowUpCircle, CheckCircle, Loader2, Search, AlertTriangle, Timer } from 'lucide-react';
+import Button from '../shared/Button';
+import StyledSelect from '../shared/StyledSelect';
+import Modal from '../shared/Modal';
+import InboundSlaSettingsModal from './InboundSlaSettingsModal';
+import {
+  inboundAPI,
+  type InboundQueryRecord,
+  type InboundQueryFilters,
+  type InboundQueryStatus,
+} from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+const PAGE_SIZE = 20;
+
+const STATUS_LABELS: Record<InboundQueryStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  escalated: 'Escalated',
+  resolved: 'Resolved',
+};
+
+const STATUS_STYLES: Record<InboundQueryStatus, string> = {
+  open: 'bg-amber-50 text-amber-700 border-amber-200',
+  in_progress: 'bg-blue-50 text-blue-700 border-blue-200',
+  resolved: 'bg-green-50 text-green-700 border-green-200',
+  escalated: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return '-';
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return '-';
+  return d.toLocaleString('en-IN', { day: '2-digit', month: 'short', year: '2-digit', hour: '2-digit', minute: '2-digit' });
+};
+
+/** SLA hint for a row: breached, or time left until the next deadline */
+const getSlaLabel = (q: InboundQueryRecord): { text: string; breached: boolean } | null => {
+  if (q.status === 'resolved') return null;
+  if (q.firstResponseBreachedAt || q.resolveBreachedAt) {
+    return { text: q.resolveBreachedAt ? 'Resolve SLA breached' : 'Response SLA breached', breached: true };
+  }
+  const due = !q.firstResponseAt && q.firstResponseDueAt ? q.firstResponseDueAt : q.resolveDueAt;
+  if (!due) return null;
+  const hoursLeft = Math.round((new Date(due).getTime() - Date.now()) / (60 * 60 * 1000));
+  if (hoursLeft <= 0) return { text: 'Due now', breached: false };
+  return { text: `${!q.firstResponseAt ? 'Respond' : 'Resolve'} in ${hoursLeft}h`, breached: false };
+};
+
+type ActionState = { kind: 'escalate' | 'resolve'; query: InboundQueryRecord } | null;
+
+const InboundQueueView: React.FC = () => {
+  const { showSuccess, showError } = useToast();
+  const [filters, setFilters] = useState({
+    status: 'all',
+    queryType: 'all',
+    escalationLevel: 'all',
+    slaBreached: false,
+    search: '',
+    dateFrom: '',
+    dateTo: '',
+  });
+  const [searchInput, setSearchInput] = useState('');
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [queries, setQueries] = useState<InboundQueryRecord[]>([]);
+  const [stats, setStats] = useState<Record<InboundQueryStatus, number> & { slaBreached: number }>({
+    open: 0,
+    in_progress: 0,
+    escalated: 0,
+    resolved: 0,
+    slaBreached: 0,
+  });
+  const [showSlaSettings, setShowSlaSettings] = useState(false);
+  const [pagination, setPagination] = useState({ page: 1, total: 0, pages: 0 });
+  const [action, setAction] = useState<ActionState>(null);
+  const [actionNotes, setActionNotes] = useState('');
+  const [isActing, setIsActing] = useState(false);
+
+  const buildFilters = useCallback((): InboundQueryFilters => ({
+    status: filters.status !== 'all' ? (filters.status as InboundQueryStatus) : undefined,
+    queryType: filters.queryType !== 'all' ? (filters.queryType as InboundQueryFilters['queryType']) : undefined,
+    escalationLevel: filters.escalationLevel !== 'all' ? (filters.escalationLevel as InboundQueryFilters['escalationLevel']) : undefined,
+    slaBreached: filters.slaBreached || undefined,
+    search: filters.search || undefined,
+    dateFrom: filters.dateFrom || undefined,
+    dateTo: filters.dateTo || undefined,
+  }), [filters]);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await inboundAPI.getTeamQueue({ ...buildFilters(), page, limit: PAGE_SIZE });
+      setQueries(res.data?.queries || []);
+      if (res.data?.stats) setStats(res.data.stats);
+      setPagination({
+        page: res.data?.pagination?.page || 1,
+        total: res.data?.pagination?.total || 0,
+        pages: res.data?.pagination?.pages || 0,
+      });
+    } catch (e: any) {
+      showError(e?.message || 'Failed to load inbound queue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [buildFilters, page, showError]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const updateFilter = <K extends keyof typeof filters>(key: K, value: (typeof filters)[K]) => {
+    setFilters((f) => ({ ...f, [key]: value }));
+    setPage(1);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await inboundAPI.downloadExport(buildFilters());
+    } catch (e: any) {
+      showError(e?.message || 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleConfirmAction = async () => {
+    if (!action) return;
+    setIsActing(true);
+    try {
+      if (action.kind === 'escalate') {
+        await inboundAPI.escalateQuery(action.query._id, { reason: actionNotes.trim() || undefined });
+        showSuccess('Query escalated to Level 2');
+      } else {
+        await inboundAPI.resolveQuery(action.query._id, actionNotes.trim() || undefined);
+        showSuccess('Query resolved');
+      }
+      setAction(null);
+      setActionNotes('');
+      await loadQueue();
+    } catch (e: any) {
+      showError(e?.message || 'Action failed');
+    } finally {
+      setIsActing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Status summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {(Object.keys(STATUS_LABELS) as InboundQueryStatus[]).map((s) => (
+          <button
+            key={s}
+            type="button"
+            onClick={() => updateFilter('status', filters.status === s ? 'all' : s)}
+            className={`text-left bg-white rounded-2xl border p-4 shadow-sm transition-all ${
+              filters.status === s ? 'border-lime-500 ring-2 ring-lime-200' : 'border-slate-200 hover:border-slate-300'
+            }`}
+          >
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-wide">{STATUS_LABELS[s]}</p>
+            <p className="text-2xl font-black text-slate-900">{stats[s] ?? 0}</p>
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => updateFilter('slaBreached', !filters.slaBreached)}
+          className={`text-left bg-white rounded-2xl border p-4 shadow-sm transition-all ${
+            filters.slaBreached ? 'border-red-500 ring-2 ring-red-200' : 'border-slate-200 hover:border-slate-300'
+          }`}
+        >
+          <p className="text-[10px] font-black text-red-600 uppercase tracking-wide flex items-center gap-1">
+            <AlertTriangle size={12} />
+            SLA breached
+          </p>
+          <p className="text-2xl font-black text-red-700">{stats.slaBreached ?? 0}</p>
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-4 flex flex-wrap items-end gap-3">
+        <div className="w-44">
+          <label className="block text-[10px] font-black text-slate-500 uppercase tracking-wide mb-1">Query type</label>
+          <StyledSelect
+            value={filters.queryType}
+            onChange={(v) => updateFilter('queryType', v)}
+            options={[
+              { value: 'all', label: 'All types' },
+              { value: 'Product usage', label: 'Product usage' },
+              { value: 'Complaint', label: 'Complaint' },
+              { value: 'General inquiry', label: 'General inquiry' },
+            ]}
+          />
+        </div>
+        <div className="w-36">
+          <label className="block text-[10px] font-black text-slate-500 uppercase tracking-wide mb-1">Level</label>
+          <StyledSelect
+            value={filters.escalationLevel}
+            onChange={(v) => updateFilter('escalationLevel', v)}
+            options={[
+              { value: 'all', label: 'All levels' },
+              { value: 'Level 1', label: 'Level 1' },
+              { value: 'Level 2', label: 'Level 2' },
+            ]}
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] font-black text-slate-500 uppercase tracking-wide mb-1">From</label>
+          <input
+            type="date"
+            value={filters.dateFrom}
+            onChange={(e) => updateFilter('dateFrom', e.target.value)}
+            className="px-3 py-2 rounded-xl border border-slate-200 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] font-black text-slate-500 uppercase tracking-wide mb-1">To</label>
+          <input
+            type="date"
+            value={filters.dateTo}
+            onChange={(e) => updateFilter('dateTo', e.target.value)}
+            className="px-3 py-2 rounded-xl border border-slate-200 text-sm"
+          />
+        </div>
+        <div className="flex-1 min-w-[200px]">
+          <label className="block text-[10px] font-black text-slate-500 uppercase tracking-wide mb-1">Search</label>
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && updateFilter('search', searchInput.trim())}
+              placeholder="Category, description, mobile"
+              className="w-full pl-9 pr-3 py-2 rounded-xl border border-slate-200 text-sm"
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm" onClick={loadQueue} disabled={isLoading}>
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+            Refresh
+          </Button>
+          <Button variant="secondary" size="sm" onClick={handleExport} loading={isExporting}>
+            <Download size={14} />
+            Export
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => setShowSlaSettings(true)}>
+            <Timer size={14} />
+            SLA
+          </Button>
+        </div>
+      </div>
+
+      {/* Queue table */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-[10px] font-black text-slate-500 uppercase tracking-wide">
+            <tr>
+              <th className="px-4 py-3 text-left">Logged</th>
+              <th className="px-4 py-3 text-left">Farmer</th>
+              <th className="px-4 py-3 text-left">Query</th>
+              <th className="px-4 py-3 text-left">Status</th>
+              <th className="px-4 py-3 text-left">Level</th>
+              <th className="px-4 py-3 text-left">Agent / Assignee</th>
+              <th className="px-4 py-3 text-left">Resolved</th>
+              <th className="px-4 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {isLoading && queries.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-10 text-center">
+                  <Loader2 className="animate-spin text-lime-600 inline" size={24} />
+                </td>
+              </tr>
+            ) : queries.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-10 text-center text-slate-500">No inbound queries match these filters</td>
+              </tr>
+            ) : (
+              queries.map((q) => (
+                <tr key={q._id} className="hover:bg-slate-50 align-top">
+                  <td className="px-4 py-3 whitespace-nowrap text-slate-600">{formatDateTime(q.createdAt)}</td>
+                  <td className="px-4 py-3">
+                    <p className="font-bold text-slate-900">{q.farmerId?.name || q.callerName || 'Unknown caller'}</p>
+                    <p className="text-xs text-slate-500">{q.farmerId?.mobileNumber || q.callerMobile}</p>
+                  </td>
+                  <td className="px-4 py-3 max-w-xs">
+                    <p className="font-medium text-slate-800">{q.queryType} — {q.category}</p>
+                    <p className="text-xs text-slate-500 line-clamp-2">{q.description}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded-lg border text-[10px] font-bold uppercase ${STATUS_STYLES[q.status]}`}>
+                      {STATUS_LABELS[q.status]}
+                    </span>
+                    {(() => {
+                      const sla = getSlaLabel(q);
+                      if (!sla) return null;
+                      return (
+                        <p className={`mt-1 text-[10px] font-bold whitespace-nowrap ${sla.breached ? 'text-red-600' : 'text-slate-500'}`}>
+                          {sla.text}
+                        </p>
+                      );
+                    })()}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <p className="text-slate-700">{q.escalationLevel}</p>
+                    {q.escalatedAt && <p className="text-[10px] text-slate-500">{formatDateTime(q.escalatedAt)}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-slate-600">
+                    <p>{q.loggedBy?.name || '-'}</p>
+                    {q.assignedTo && q.assignedTo._id !== q.loggedBy?._id && <p className="text-slate-400">→ {q.assignedTo.name}</p>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-xs text-slate-600">{formatDateTime(q.resolvedAt)}</td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-2">
+                      {q.escalationLevel === 'Level 1' && q.status !== 'resolved' && (
+                        <Button size="sm" variant="secondary" onClick={() => setAction({ kind: 'escalate', query: q })}>
+                          <ArrowUpCircle size={14} />
+                          Escalate
+                        </Button>
+                      )}
+                      {q.status !== 'resolved' && (
+                        <Button size="sm" onClick={() => setAction({ kind: 'resolve', query: q })}>
+                          <CheckCircle size={14} />
+                          Resolve
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {pagination.pages > 1 && (
+        <div className="flex items-center justify-between text-sm text-slate-600">
+          <span>
+            Page {pagination.page} of {pagination.pages} • {pagination.total} queries
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" variant="secondary" disabled={page <= 1 || isLoading} onClick={() => setPage((p) => p - 1)}>
+              Previous
+            </Button>
+            <Button size="sm" variant="secondary" disabled={page >= pagination.pages || isLoading} onClick={() => setPage((p) => p + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <InboundSlaSettingsModal isOpen={showSlaSettings} onClose={() => setShowSlaSettings(false)} />
+
+      <Modal
+        isOpen={!!action}
+        onClose={() => {
+          setAction(null);
+          setActionNotes('');
+        }}
+        title={action?.kind === 'escalate' ? 'Escalate to Level 2' : 'Resolve Query'}
+        size="sm"
+      >
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600">
+            {action?.query.queryType} — {action?.query.category}
+          </p>
+          <textarea
+            value={actionNotes}
+            onChange={(e) => setActionNotes(e.target.value)}
+            rows={3}
+            placeholder={action?.kind === 'escalate' ? 'Reason for escalation (optional)' : 'Resolution notes (optional)'}
+            className="w-full px-4 py-3 rounded-2xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-lime-500 resize-none"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setAction(null)} disabled={isActing}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmAction} loading={isActing}>
+              {action?.kind === 'escalate' ? 'Escalate' : 'Resolve'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default InboundQueueView;
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import Modal from '../shared/Modal';
+import Button from '../shared/Button';
+import { inboundAPI, type InboundSlaPolicy } from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+interface InboundSlaSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type Draft = Record<string, { firstResponseHours: string; resolveHours: string; isActive: boolean }>;
+
+/**
+ * Edit per-query-type SLA hours. Changes apply to queries logged after saving.
+ */
+const InboundSlaSettingsModal: React.FC<InboundSlaSettingsModalProps> = ({ isOpen, onClose }) => {
+  const { showSuccess, showError } = useToast();
+  const [policies, setPolicies] = useState<InboundSlaPolicy[]>([]);
+  const [draft, setDraft] = useState<Draft>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    inboundAPI
+      .getSlaPolicies()
+      .then((res) => {
+        const list = res.data?.policies || [];
+        setPolicies(list);
+        setDraft(
+          Object.fromEntries(
+            list.map((p) => [
+              p.queryType,
+              { firstResponseHours: String(p.firstResponseHours), resolveHours: String(p.resolveHours), isActive: p.isActive },
+            ])
+          )
+        );
+      })
+      .catch((e: any) => showError(e?.message || 'Failed to load SLA policies'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, showError]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      for (const p of policies) {
+        const d = draft[p.queryType];
+        if (!d) continue;
+        const firstResponseHours = Number(d.firstResponseHours);
+        const resolveHours = Number(d.resolveHours);
+        if (
+          firstResponseHours === p.firstResponseHours &&
+          resolveHours === p.resolveHours &&
+          d.isActive === p.isActive
+        ) {
+          continue;
+        }
+        if (!Number.isInteger(firstResponseHours) || !Number.isInteger(resolveHours) || firstResponseHours < 1 || resolveHours < 1) {
+          throw new Error(`${p.queryType}: hours must be whole numbers of at least 1`);
+        }
+        await inboundAPI.updateSlaPolicy(p.queryType, { firstResponseHours, resolveHours, isActive: d.isActive });
+      }
+      showSuccess('SLA policies saved');
+      onClose();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to save SLA policies');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Inbound SLA Policies" size="lg">
+      <div className="p-6 space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="animate-spin text-lime-600" size={24} />
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-[10px] font-black text-slate-500 uppercase tracking-wide">
+              <tr>
+                <th className="py-2 text-left">Query type</th>
+                <th className="py-2 text-left">First response (hours)</th>
+                <th className="py-2 text-left">Resolve (hours)</th>
+                <th className="py-2 text-left">Active</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {policies.map((p) => {
+                const d = draft[p.queryType];
+                if (!d) return null;
+                const setField = (field: keyof Draft[string], value: string | boolean) =>
+                  setDraft((prev) => ({ ...prev, [p.queryType]: { ...prev[p.queryType], [field]: value } }));
+                return (
+                  <tr key={p.queryType}>
+                    <td className="py-3 font-bold text-slate-800">{p.queryType}</td>
+                    <td className="py-3 pr-3">
+                      <input
+                        type="number"
+                        min={1}
+                        value={d.firstResponseHours}
+                        onChange={(e) => setField('firstResponseHours', e.target.value)}
+                        className="w-24 px-3 py-2 rounded-xl border border-slate-200 text-sm"
+                      />
+                    </td>
+                    <td className="py-3 pr-3">
+                      <input
+                        type="number"
+                        min={1}
+                        value={d.resolveHours}
+                        onChange={(e) => setField('resolveHours', e.target.value)}
+                        className="w-24 px-3 py-2 rounded-xl border border-slate-200 text-sm"
+                      />
+                    </td>
+                    <td className="py-3">
+                      <input
+                        type="checkbox"
+                        checked={d.isActive}
+                        onChange={(e) => setField('isActive', e.target.checked)}
+                        className="rounded border-slate-300 text-lime-600 focus:ring-lime-500"
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        <p className="text-xs text-slate-500">
+          Breached queries are escalated to Level 2 automatically and the team lead is notified by email.
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={isSaving} disabled={isLoading}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default InboundSlaSettingsModal;
@@ -0,0 +1,109 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, RefreshCw, UserCheck } from 'lucide-react';
+import Button from '../shared/Button';
+import { samplingAPI, type CoverageReport } from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+/**
+ * Completed validations per FDA/TM in the current coverage period, worst first. By default only
+ * officers still below the target are listed.
+ */
+const OfficerCoveragePanel: React.FC = () => {
+  const { showError } = useToast();
+  const [report, setReport] = useState<CoverageReport | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await samplingAPI.getCoverage({ belowTargetOnly: !showAll });
+      setReport(res.data);
+    } catch (e: any) {
+      showError(e?.message || 'Failed to load officer coverage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showAll, showError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const settings = report?.settings;
+  const level = settings?.officerLevel === 'tm' ? 'TM' : 'FDA';
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6 min-w-0">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div className="min-w-0 flex-1">
+          <h3 className="text-lg font-black text-slate-900 flex items-center gap-2">
+            <UserCheck size={18} className="text-lime-600" />
+            Officer Coverage
+          </h3>
+          <p className="text-sm text-slate-600">
+            {report
+              ? `${report.period.label} • target ${settings?.minValidationsPerOfficer ?? 0} completed per ${level} • ` +
+                `${report.totals.belowTarget} of ${report.totals.officers} below target` +
+                (settings?.enabled ? '' : ' • top-up off')
+              : 'Completed validations per field officer this period'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            Show all officers
+          </label>
+          <Button variant="secondary" size="sm" onClick={load} disabled={isLoading}>
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && !report ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="animate-spin text-lime-600" size={24} />
+        </div>
+      ) : !report || report.officers.length === 0 ? (
+        <p className="text-sm text-slate-500 py-4">
+          {showAll ? 'No officer activities in this period.' : 'Every officer has reached the target.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-[10px] font-black text-slate-500 uppercase tracking-wide">
+              <tr className="border-b border-slate-200">
+                <th className="py-2 text-left">{level}</th>
+                <th className="py-2 text-right">Activities</th>
+                <th className="py-2 text-right">Completed</th>
+                <th className="py-2 text-right">Open</th>
+                <th className="py-2 text-right">Unsuccessful</th>
+                <th className="py-2 text-right">Short by</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 tabular-nums">
+              {report.officers.map((o) => (
+                <tr key={o.officerKey}>
+                  <td className="py-2 text-slate-800">
+                    <span className="font-bold">{o.officerName}</span>
+                    {o.officerName !== o.officerKey && <span className="ml-2 text-xs text-slate-400">{o.officerKey}</span>}
+                  </td>
+                  <td className="py-2 text-right">{o.activities}</td>
+                  <td className="py-2 text-right font-bold text-slate-900">{o.completed}</td>
+                  <td className="py-2 text-right">{o.pending}</td>
+                  <td className="py-2 text-right text-slate-500">{o.unsuccessful}</td>
+                  <td className={`py-2 text-right font-bold ${o.shortfall > 0 ? 'text-amber-700' : 'text-green-700'}`}>
+                    {o.shortfall > 0 ? o.shortfall : '–'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfficerCoveragePanel;
@@ -0,0 +1,294 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { GitCompare, Loader2, RefreshCw } from 'lucide-react';
+import Button from '../shared/Button';
+import StyledSelect from '../shared/StyledSelect';
+import {
+  reconciliationAPI,
+  type FieldChange,
+  type ReconciliationDetail,
+  type ReconciliationItem,
+  type ReconciliationReason,
+  type ReconciliationStatus,
+} from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+const REASON_LABELS: Record<ReconciliationReason, string> = {
+  farmers_removed: 'Farmers removed',
+  farmers_added: 'Farmers added',
+  officer_changed: 'FDA changed',
+  date_changed: 'Date moved',
+};
+
+const SOURCE_LABELS: Record<string, string> = { ffa_sync: 'FFA sync', ffa_webhook: 'FFA webhook', excel_import: 'Excel import' };
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '–';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return new Date(value).toLocaleDateString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const describeChange = (change: FieldChange) => {
+  if (change.added || change.removed) {
+    const parts = [];
+    if (change.added?.length) parts.push(`+${change.added.length}`);
+    if (change.removed?.length) parts.push(`−${change.removed.length}`);
+    return `${change.field}: ${parts.join(' ') || 'reordered'}`;
+  }
+  return `${change.field}: ${formatValue(change.from)} → ${formatValue(change.to)}`;
+};
+
+type PendingAction = 'cancel' | 'resample' | 'dismiss';
+
+/** Change entries and orphaned tasks of one item, with the cancel / re-sample / dismiss actions */
+const ReconciliationDetailView: React.FC<{ item: ReconciliationItem; onDone: () => void }> = ({ item, onDone }) => {
+  const { showError, showSuccess } = useToast();
+  const [detail, setDetail] = useState<ReconciliationDetail | null>(null);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState<PendingAction | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    reconciliationAPI
+      .get(item._id)
+      .then((res) => {
+        if (!cancelled) setDetail(res.data);
+      })
+      .catch((e: any) => showError(e?.message || 'Failed to load the change history'));
+    return () => {
+      cancelled = true;
+    };
+  }, [item._id, showError]);
+
+  const run = async (action: PendingAction) => {
+    setBusy(action);
+    try {
+      if (action === 'cancel') {
+        const res = await reconciliationAPI.cancelOrphanedTasks(item._id);
+        const kept = res.data.tasksKept ? `, ${res.data.tasksKept} already worked and kept` : '';
+        showSuccess(`${res.data.tasksCancelled} orphaned tasks cancelled${kept}`);
+      } else if (action === 'resample') {
+        const res = await reconciliationAPI.resample(item._id);
+        showSuccess(`Re-sampled ${item.activityKey}: ${res.data.sampling.tasksCreated} tasks created`);
+      } else {
+        await reconciliationAPI.dismiss(item._id, note.trim() || undefined);
+        showSuccess(`Dismissed ${item.activityKey}`);
+      }
+      onDone();
+    } catch (e: any) {
+      showError(e?.message || 'Action failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!detail) {
+    return (
+      <div className="mt-3 flex items-center gap-2 text-sm text-slate-500">
+        <Loader2 size={14} className="animate-spin" /> Loading changes…
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-4 border-t border-slate-200 pt-4">
+      <div>
+        <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Change history</p>
+        {detail.changes.length === 0 ? (
+          <p className="text-sm text-slate-500">No change entries recorded.</p>
+        ) : (
+          <ul className="space-y-2">
+            {detail.changes.map((entry) => (
+              <li key={entry._id} className="text-xs">
+                <span className="font-bold text-slate-700">{new Date(entry.createdAt).toLocaleString()}</span>
+                <span className="text-slate-400">
+                  {' '}
+                  · {SOURCE_LABELS[entry.source] || entry.source}
+                  {entry.dataBatchId ? ` · ${entry.dataBatchId}` : ''}
+                </span>
+                <span className="block text-slate-600">{entry.changes.map(describeChange).join(' • ')}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {detail.orphanedTasks.length > 0 && (
+        <div className="overflow-x-auto">
+          <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Tasks of farmers no longer in the activity</p>
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr className="text-left font-black text-slate-400 uppercase tracking-widest">
+                <th className="py-1 pr-3">Farmer</th>
+                <th className="py-1 pr-3">Mobile</th>
+                <th className="py-1 pr-3">Status</th>
+                <th className="py-1">Cancellable</th>
+              </tr>
+            </thead>
+            <tbody>
+              {detail.orphanedTasks.map((t) => (
+                <tr key={t.taskId} className="border-t border-slate-100">
+                  <td className="py-1 pr-3 text-slate-700">{t.farmer?.name || '–'}</td>
+                  <td className="py-1 pr-3 text-slate-700">{t.farmer?.mobileNumber || '–'}</td>
+                  <td className="py-1 pr-3 text-slate-700">{t.status}</td>
+                  <td className="py-1 text-slate-700">{t.cancellable ? 'Yes' : 'No (worked)'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <input
+        className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm text-slate-900"
+        placeholder="Dismiss note (optional)"
+        value={note}
+        maxLength={500}
+        onChange={(e) => setNote(e.target.value)}
+      />
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant="danger"
+          onClick={() => run('cancel')}
+          loading={busy === 'cancel'}
+          disabled={!!busy || item.cancellableTaskCount === 0}
+        >
+          Cancel orphaned tasks ({item.cancellableTaskCount})
+        </Button>
+        <Button size="sm" onClick={() => run('resample')} loading={busy === 'resample'} disabled={!!busy}>
+          Re-sample
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => run('dismiss')} loading={busy === 'dismiss'} disabled={!!busy}>
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Sampled activities whose farmers, FDA or date changed upstream after tasks were created. Each
+ * open item can have its orphaned tasks cancelled, be re-sampled, or be dismissed.
+ */
+const ReconciliationPanel: React.FC = () => {
+  const { showError } = useToast();
+  const [status, setStatus] = useState<ReconciliationStatus>('open');
+  const [items, setItems] = useState<ReconciliationItem[]>([]);
+  const [counts, setCounts] = useState<Record<ReconciliationStatus, number> | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await reconciliationAPI.list({ status, limit: 50 });
+      setItems(res.data.items);
+      setCounts(res.data.counts);
+    } catch (e: any) {
+      showError(e?.message || 'Failed to load reconciliation items');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, showError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6 min-w-0">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div className="min-w-0 flex-1">
+          <h3 className="text-lg font-black text-slate-900 flex items-center gap-2">
+            <GitCompare size={18} className="text-amber-600" />
+            Upstream Changes
+          </h3>
+          <p className="text-sm text-slate-600">
+            {counts
+              ? `${counts.open} open • ${counts.resolved} resolved • ${counts.dismissed} dismissed`
+              : 'Sampled activities whose data changed after sampling'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <StyledSelect
+            value={status}
+            onChange={(v) => {
+              setOpenId(null);
+              setStatus(v as ReconciliationStatus);
+            }}
+            options={[
+              { value: 'open', label: 'Open' },
+              { value: 'resolved', label: 'Resolved' },
+              { value: 'dismissed', label: 'Dismissed' },
+            ]}
+          />
+          <Button variant="secondary" size="sm" onClick={load} disabled={isLoading}>
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-slate-500">{status === 'open' ? 'No sampled activity has changed upstream.' : `No ${status} items.`}</p>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => (
+            <div key={item._id} className="border border-slate-200 rounded-2xl p-4">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-black text-slate-900">
+                    {item.activityKey}
+                    {item.activity && (
+                      <span className="ml-2 text-xs font-bold text-slate-500">
+                        {item.activity.type} · {new Date(item.activity.date).toLocaleDateString()} · {item.activity.officerName}
+                        {item.activity.territoryName ? ` · ${item.activity.territoryName}` : ''}
+                      </span>
+                    )}
+                  </p>
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {item.reasons.map((reason) => (
+                      <span key={reason} className="px-2 py-0.5 rounded-lg border text-xs font-bold bg-amber-50 text-amber-700 border-amber-200">
+                        {REASON_LABELS[reason]}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-xs text-slate-500">
+                    {item.taskCount} tasks • {item.orphanedTaskCount} orphaned ({item.cancellableTaskCount} cancellable) • last change{' '}
+                    {new Date(item.lastDetectedAt).toLocaleString()}
+                  </p>
+                </div>
+                <Button variant="secondary" size="sm" onClick={() => setOpenId(openId === item._id ? null : item._id)}>
+                  {openId === item._id ? 'Close' : status === 'open' ? 'Review' : 'Details'}
+                </Button>
+              </div>
+              {openId === item._id &&
+                (status === 'open' ? (
+                  <ReconciliationDetailView
+                    item={item}
+                    onDone={() => {
+                      setOpenId(null);
+                      load();
+                    }}
+                  />
+                ) : (
+                  <ul className="mt-3 border-t border-slate-200 pt-3 space-y-1">
+                    {item.actions.map((a, i) => (
+                      <li key={i} className="text-xs text-slate-600">
+                        {new Date(a.at).toLocaleString()} · {a.action.replace(/_/g, ' ')}
+                        {a.tasksCancelled !== undefined ? ` · ${a.tasksCancelled} cancelled` : ''}
+                        {a.tasksCreated !== undefined ? ` · ${a.tasksCreated} created` : ''}
+                        {a.note ? ` · ${a.note}` : ''}
+                      </li>
+                    ))}
+                  </ul>
+                ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReconciliationPanel;
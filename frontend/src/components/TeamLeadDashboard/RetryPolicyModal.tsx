@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import Modal from '../shared/Modal';
+import Button from '../shared/Button';
+import { samplingAPI, type RetryPolicy, type RetryableCallStatus } from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+interface RetryPolicyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const RETRYABLE_STATUSES: RetryableCallStatus[] = ['No Answer', 'Disconnected', 'Incoming N/A'];
+
+type Draft = {
+  enabled: boolean;
+  maxAttempts: string;
+  gapHoursByStatus: Record<RetryableCallStatus, string>;
+  callingWindows: Array<{ startHour: string; endHour: string }>;
+  timezone: string;
+};
+
+const toDraft = (p: RetryPolicy): Draft => ({
+  enabled: p.enabled,
+  maxAttempts: String(p.maxAttempts),
+  gapHoursByStatus: Object.fromEntries(
+    RETRYABLE_STATUSES.map((s) => [s, String(p.gapHoursByStatus?.[s] ?? '')])
+  ) as Record<RetryableCallStatus, string>,
+  callingWindows: (p.callingWindows || []).map((w) => ({ startHour: String(w.startHour), endHour: String(w.endHour) })),
+  timezone: p.timezone,
+});
+
+/**
+ * Edit the automatic retry policy for No Answer / Disconnected / Incoming N/A calls.
+ * Applies to calls submitted after saving; already scheduled retries keep their time.
+ */
+const RetryPolicyModal: React.FC<RetryPolicyModalProps> = ({ isOpen, onClose }) => {
+  const { showSuccess, showError } = useToast();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    samplingAPI
+      .getRetryPolicy()
+      .then((res) => setDraft(res.data?.policy ? toDraft(res.data.policy) : null))
+      .catch((e: any) => showError(e?.message || 'Failed to load retry policy'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, showError]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      const maxAttempts = Number(draft.maxAttempts);
+      if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > 3) {
+        throw new Error('Max attempts must be a whole number between 1 and 3');
+      }
+      const gapHoursByStatus = {} as Record<RetryableCallStatus, number>;
+      for (const s of RETRYABLE_STATUSES) {
+        const hours = Number(draft.gapHoursByStatus[s]);
+        if (!Number.isFinite(hours) || hours < 0) throw new Error(`${s}: gap must be 0 or more hours`);
+        gapHoursByStatus[s] = hours;
+      }
+      const callingWindows = draft.callingWindows.map((w) => ({ startHour: Number(w.startHour), endHour: Number(w.endHour) }));
+      for (const w of callingWindows) {
+        if (!Number.isInteger(w.startHour) || !Number.isInteger(w.endHour) || w.startHour < 0 || w.endHour > 24 || w.startHour >= w.endHour) {
+          throw new Error('Calling windows need whole start/end hours between 0 and 24, start before end');
+        }
+      }
+      await samplingAPI.updateRetryPolicy({
+        enabled: draft.enabled,
+        maxAttempts,
+        gapHoursByStatus,
+        callingWindows,
+        timezone: draft.timezone.trim(),
+      });
+      showSuccess('Retry policy saved');
+      onClose();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to save retry policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setWindow = (index: number, field: 'startHour' | 'endHour', value: string) =>
+    setDraft((prev) =>
+      prev
+        ? { ...prev, callingWindows: prev.callingWindows.map((w, i) => (i === index ? { ...w, [field]: value } : w)) }
+        : prev
+    );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Automatic Retry Policy" size="lg">
+      <div className="p-6 space-y-5">
+        {isLoading || !draft ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="animate-spin text-lime-600" size={24} />
+          </div>
+        ) : (
+          <>
+            <label className="flex items-center gap-2 text-sm font-bold text-slate-800">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                className="rounded border-slate-300 text-lime-600 focus:ring-lime-500"
+              />
+              Schedule retries automatically
+            </label>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Max attempts</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={3}
+                  value={draft.maxAttempts}
+                  onChange={(e) => setDraft({ ...draft, maxAttempts: e.target.value })}
+                  className="w-24 px-3 py-2 rounded-xl border border-slate-200 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Timezone</label>
+                <input
+                  type="text"
+                  value={draft.timezone}
+                  onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                  className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Gap before retry (hours)</label>
+              <div className="grid grid-cols-3 gap-3">
+                {RETRYABLE_STATUSES.map((s) => (
+                  <div key={s}>
+                    <span className="block text-xs font-bold text-slate-600 mb-1">{s}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={draft.gapHoursByStatus[s]}
+                      onChange={(e) =>
+                        setDraft({ ...draft, gapHoursByStatus: { ...draft.gapHoursByStatus, [s]: e.target.value } })
+                      }
+                      className="w-24 px-3 py-2 rounded-xl border border-slate-200 text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Calling windows (hour of day)</label>
+              <div className="space-y-2">
+                {draft.callingWindows.map((w, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={23}
+                      value={w.startHour}
+                      onChange={(e) => setWindow(i, 'startHour', e.target.value)}
+                      className="w-20 px-3 py-2 rounded-xl border border-slate-200 text-sm"
+                    />
+                    <span className="text-slate-500 text-sm">to</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={24}
+                      value={w.endHour}
+                      onChange={(e) => setWindow(i, 'endHour', e.target.value)}
+                      className="w-20 px-3 py-2 rounded-xl border border-slate-200 text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setDraft({ ...draft, callingWindows: draft.callingWindows.filter((_, j) => j !== i) })}
+                      className="p-2 text-slate-400 hover:text-red-600"
+                      aria-label="Remove window"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, callingWindows: [...draft.callingWindows, { startHour: '9', endHour: '17' }] })}
+                >
+                  <Plus size={14} />
+                  Add window
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+        <p className="text-xs text-slate-500">
+          Retries land in the original agent's queue at the first calling window after the gap. Without windows, retries are
+          created as soon as the gap has passed.
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={isSaving} disabled={isLoading || !draft}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default RetryPolicyModal;
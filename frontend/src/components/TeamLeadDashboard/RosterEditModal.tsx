@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import Modal from '../shared/Modal';
+import Button from '../shared/Button';
+import { rosterAPI, type RosterShift, type TeamRosterAgent } from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface DayDraft {
+  enabled: boolean;
+  startTime: string;
+  endTime: string;
+}
+
+interface RosterEditModalProps {
+  agent: TeamRosterAgent | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const toDrafts = (shifts: RosterShift[]): DayDraft[] =>
+  DAY_NAMES.map((_, day) => {
+    const shift = shifts.find((s) => s.dayOfWeek === day);
+    return shift
+      ? { enabled: true, startTime: shift.startTime, endTime: shift.endTime }
+      : { enabled: false, startTime: '09:00', endTime: '18:00' };
+  });
+
+/**
+ * Weekly shifts, daily capacity and leave days for one agent. An agent with no saved roster is
+ * treated as working every day at the default capacity, so the first save narrows that down.
+ */
+const RosterEditModal: React.FC<RosterEditModalProps> = ({ agent, onClose, onSaved }) => {
+  const { showSuccess, showError } = useToast();
+  const [days, setDays] = useState<DayDraft[]>(toDrafts([]));
+  const [capacity, setCapacity] = useState('');
+  const [leaveDate, setLeaveDate] = useState('');
+  const [leaveReason, setLeaveReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!agent) return;
+    // First edit of an unrostered agent starts from Mon–Sat rather than an empty week
+    setDays(agent.hasRoster ? toDrafts(agent.shifts) : toDrafts([1, 2, 3, 4, 5, 6].map((d) => ({ dayOfWeek: d, startTime: '09:00', endTime: '18:00' }))));
+    setCapacity(String(agent.dailyCapacity));
+    setLeaveDate('');
+    setLeaveReason('');
+    // Reset drafts only when a different agent is opened; leave changes refresh `agent` too
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agent?.agentId]);
+
+  const updateDay = (index: number, patch: Partial<DayDraft>) =>
+    setDays((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+
+  const handleSave = async () => {
+    if (!agent) return;
+    setIsSaving(true);
+    try {
+      const dailyCapacity = Number(capacity);
+      if (!Number.isInteger(dailyCapacity) || dailyCapacity < 0) throw new Error('Capacity must be a whole number');
+      const shifts = days
+        .map((d, dayOfWeek) => ({ ...d, dayOfWeek }))
+        .filter((d) => d.enabled)
+        .map(({ dayOfWeek, startTime, endTime }) => {
+          if (startTime >= endTime) throw new Error(`${DAY_NAMES[dayOfWeek]}: shift must end after it starts`);
+          return { dayOfWeek, startTime, endTime };
+        });
+
+      await rosterAPI.updateAgent(agent.agentId, { shifts, dailyCapacity });
+      showSuccess(`Roster saved for ${agent.name}`);
+      onSaved();
+      onClose();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to save roster');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddLeave = async () => {
+    if (!agent || !leaveDate) return;
+    try {
+      await rosterAPI.addLeave(agent.agentId, leaveDate, leaveReason || undefined);
+      showSuccess('Leave added');
+      setLeaveDate('');
+      setLeaveReason('');
+      onSaved();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to add leave');
+    }
+  };
+
+  const handleRemoveLeave = async (date: string) => {
+    if (!agent) return;
+    try {
+      await rosterAPI.removeLeave(agent.agentId, date);
+      onSaved();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to remove leave');
+    }
+  };
+
+  return (
+    <Modal isOpen={!!agent} onClose={onClose} title={agent ? `Roster – ${agent.name}` : 'Roster'} size="lg">
+      <div className="p-6 space-y-6">
+        <div>
+          <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Weekly shifts (IST)</label>
+          <div className="space-y-2">
+            {days.map((d, i) => (
+              <div key={DAY_NAMES[i]} className="flex items-center gap-3">
+                <label className="flex items-center gap-2 w-20 text-sm font-bold text-slate-700">
+                  <input type="checkbox" checked={d.enabled} onChange={(e) => updateDay(i, { enabled: e.target.checked })} />
+                  {DAY_NAMES[i]}
+                </label>
+                <input
+                  type="time"
+                  value={d.startTime}
+                  disabled={!d.enabled}
+                  onChange={(e) => updateDay(i, { startTime: e.target.value })}
+                  className="px-3 py-1.5 rounded-xl border border-slate-200 text-sm disabled:opacity-40"
+                />
+                <span className="text-slate-400 text-sm">to</span>
+                <input
+                  type="time"
+                  value={d.endTime}
+                  disabled={!d.enabled}
+                  onChange={(e) => updateDay(i, { endTime: e.target.value })}
+                  className="px-3 py-1.5 rounded-xl border border-slate-200 text-sm disabled:opacity-40"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Daily capacity (tasks)</label>
+          <input
+            type="number"
+            min={0}
+            value={capacity}
+            onChange={(e) => setCapacity(e.target.value)}
+            className="w-28 px-3 py-2 rounded-xl border border-slate-200 text-sm"
+          />
+          <p className="text-xs text-slate-500 mt-1">Allocation tops the agent's open queue up to this number.</p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={isSaving}>
+            Save roster
+          </Button>
+        </div>
+
+        <div className="border-t border-slate-100 pt-5">
+          <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Leave</label>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              value={leaveDate}
+              onChange={(e) => setLeaveDate(e.target.value)}
+              className="px-3 py-1.5 rounded-xl border border-slate-200 text-sm"
+            />
+            <input
+              type="text"
+              placeholder="Reason (optional)"
+              value={leaveReason}
+              onChange={(e) => setLeaveReason(e.target.value)}
+              className="flex-1 min-w-[10rem] px-3 py-1.5 rounded-xl border border-slate-200 text-sm"
+            />
+            <Button variant="secondary" size="sm" onClick={handleAddLeave} disabled={!leaveDate}>
+              Add leave
+            </Button>
+          </div>
+          {agent && agent.leaves.length > 0 ? (
+            <ul className="mt-3 divide-y divide-slate-100">
+              {agent.leaves.map((l) => (
+                <li key={l.date} className="flex items-center justify-between py-2 text-sm">
+                  <span>
+                    <span className="font-bold text-slate-800">{l.date}</span>
+                    {l.reason && <span className="text-slate-500"> • {l.reason}</span>}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveLeave(l.date)}
+                    className="p-1 text-slate-400 hover:text-red-600"
+                    title="Remove leave"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-slate-500 mt-2">No upcoming leave</p>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default RosterEditModal;
@@ -0,0 +1,153 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, Loader2, Pencil } from 'lucide-react';
+import Button from '../shared/Button';
+import RosterEditModal, { DAY_NAMES } from './RosterEditModal';
+import { rosterAPI, type TeamRoster, type RosterDayStatus } from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+const dayCell = (d: RosterDayStatus) => {
+  if (d.onShift) {
+    return d.shift ? (
+      <span className="px-2 py-1 rounded-lg border text-xs font-bold bg-green-50 text-green-700 border-green-200 whitespace-nowrap">
+        {d.shift.startTime}–{d.shift.endTime}
+      </span>
+    ) : (
+      <span className="text-xs text-slate-400">Any time</span>
+    );
+  }
+  if (d.offReason === 'leave') {
+    return (
+      <span
+        className="px-2 py-1 rounded-lg border text-xs font-bold bg-amber-50 text-amber-700 border-amber-200"
+        title={d.leaveReason || undefined}
+      >
+        Leave
+      </span>
+    );
+  }
+  return <span className="text-xs text-slate-400">Off</span>;
+};
+
+/**
+ * Team roster: who works which day this week, leave, and how much of today's capacity is left.
+ * Allocation only assigns to agents on shift today, up to their daily capacity.
+ */
+const RosterView: React.FC = () => {
+  const { showError } = useToast();
+  const [roster, setRoster] = useState<TeamRoster | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingAgentId, setEditingAgentId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await rosterAPI.getTeam();
+      setRoster(res.data);
+    } catch (e: any) {
+      showError(e?.message || 'Failed to load roster');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const agents = roster?.agents || [];
+  const editingAgent = agents.find((a) => a.agentId === editingAgentId) || null;
+  const onShiftToday = agents.filter((a) => a.today?.onShift).length;
+  const capacityLeft = agents.reduce((sum, a) => sum + (a.today?.remainingCapacity || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-black text-slate-900">Roster</h2>
+          <p className="text-xs text-slate-500">
+            {onShiftToday} of {agents.length} agents on shift today • {capacityLeft} tasks of capacity left
+          </p>
+        </div>
+        <Button variant="secondary" size="sm" onClick={load} disabled={isLoading}>
+          <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 border-b border-slate-200">
+            <tr className="text-left text-[10px] font-black text-slate-500 uppercase tracking-wide">
+              <th className="px-4 py-3">Agent</th>
+              {(roster?.days || []).map((d) => (
+                <th key={d.date} className="px-3 py-3 whitespace-nowrap">
+                  {DAY_NAMES[d.dayOfWeek]} <span className="text-slate-400">{d.date.slice(8)}</span>
+                </th>
+              ))}
+              <th className="px-4 py-3 text-right">Today's queue</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {isLoading && !roster ? (
+              <tr>
+                <td colSpan={10} className="px-4 py-10 text-center">
+                  <Loader2 className="animate-spin text-lime-600 inline" size={20} />
+                </td>
+              </tr>
+            ) : agents.length === 0 ? (
+              <tr>
+                <td colSpan={10} className="px-4 py-10 text-center text-slate-500">
+                  No agents in your team
+                </td>
+              </tr>
+            ) : (
+              agents.map((a) => (
+                <tr key={a.agentId}>
+                  <td className="px-4 py-3">
+                    <p className="font-bold text-slate-900">{a.name}</p>
+                    <p className="text-xs text-slate-500">
+                      {a.languageCapabilities.join(', ') || a.employeeId || a.email}
+                      {!a.hasRoster && <span className="ml-1 text-amber-600">• no roster</span>}
+                    </p>
+                  </td>
+                  {a.week.map((d) => (
+                    <td key={d.date} className="px-3 py-3">
+                      {dayCell(d)}
+                    </td>
+                  ))}
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    {a.today ? (
+                      <>
+                        <p className="font-bold text-slate-900 tabular-nums">
+                          {a.today.openTasks} / {a.today.dailyCapacity}
+                        </p>
+                        <p className="text-xs text-slate-500">{a.today.remainingCapacity} left</p>
+                      </>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setEditingAgentId(a.agentId)}
+                      className="p-1.5 rounded-lg text-slate-400 hover:text-slate-900 hover:bg-slate-100"
+                      title="Edit roster"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <RosterEditModal agent={editingAgent} onClose={() => setEditingAgentId(null)} onSaved={load} />
+    </div>
+  );
+};
+
+export default RosterView;
@@ -1,15 +1,27 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Calendar, RefreshCw, Save, Play, RotateCcw, Filter, CheckSquare, Square, ChevronDown, Info } from 'lucide-react';
-import { samplingAPI, tasksAPI, usersAPI } from '../../services/api';
+import { Calendar, RefreshCw, Save, Play, RotateCcw, Filter, CheckSquare, Square, ChevronDown, Info, FlaskConical, StopCircle } from 'lucide-react';
+import {
+  samplingAPI,
+  tasksAPI,
+  usersAPI,
+  type CoverageSettings,
+  type RiskWeightingSettings,
+  type StratificationSettings,
+} from '../../services/api';
 import { useToast } from '../../context/ToastContext';
 import Modal from '../shared/Modal';
 import StyledSelect from '../shared/StyledSelect';
+import SamplingSimulationModal from './SamplingSimulationModal';
+import SamplingPoliciesPanel from './SamplingPoliciesPanel';
+import DoNotCallPanel from './DoNotCallPanel';
+import ReconciliationPanel from './ReconciliationPanel';
+import OfficerCoveragePanel from './OfficerCoveragePanel';
 import InfoBanner from '../shared/InfoBanner';
 import { type DateRangePreset, getPresetRange, formatPretty } from '../../utils/dateRangeUtils';
 
 type LifecycleStatus = 'active' | 'sampled' | 'inactive' | 'not_eligible';
 
-type SamplingRunStatus = 'running' | 'completed' | 'failed';
+type SamplingRunStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
 type LatestRun = {
   _id: string;
   status: SamplingRunStatus;
@@ -17,6 +29,15 @@ type LatestRun = {
   processed?: number;
   tasksCreatedTotal?: number;
   errorCount?: number;
+  cancelRequestedAt?: string | null;
+};
+
+const RUN_STATUS_LABELS: Record<SamplingRunStatus, string> = {
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  interrupted: 'Interrupted',
 };
 
 type SortKey =
@@ -32,13 +53,56 @@ type SortKey =
   | 'unassignedTasks';
 type SortDir = 'asc' | 'desc';
 
+const DEFAULT_STRATIFICATION: StratificationSettings = {
+  mode: 'uniform',
+  strataBy: 'location',
+  allocation: 'proportional',
+  minPerStratum: 0,
+};
+
+const DEFAULT_COVERAGE: CoverageSettings = {
+  enabled: false,
+  officerLevel: 'fda',
+  minValidationsPerOfficer: 0,
+  period: 'month',
+};
+
+const DEFAULT_RISK_WEIGHTING: RiskWeightingSettings = {
+  enabled: false,
+  officerLevel: 'fda',
+  lookbackWeeks: 8,
+  minConnectedCalls: 10,
+  poorValidityPct: 60,
+  poorIdentityWrongPct: 10,
+  goodEmsScore: 80,
+  increaseFactor: 1.5,
+  decreaseFactor: 0.5,
+  minPercentage: 5,
+  maxPercentage: 50,
+};
+
+/** Numeric risk weighting fields shown as inputs: [key, label, min, max, step] */
+const RISK_WEIGHTING_FIELDS: Array<[keyof RiskWeightingSettings, string, number, number, number]> = [
+  ['lookbackWeeks', 'Lookback (weeks)', 1, 52, 1],
+  ['minConnectedCalls', 'Min connected calls', 1, 10000, 1],
+  ['poorValidityPct', 'Poor validity below %', 0, 100, 1],
+  ['poorIdentityWrongPct', 'Poor identity wrong above %', 0, 100, 1],
+  ['goodEmsScore', 'Good EMS score ≥', 0, 100, 1],
+  ['increaseFactor', 'Poor: multiply by', 1, 5, 0.1],
+  ['decreaseFactor', 'Good: multiply by', 0.1, 1, 0.1],
+  ['minPercentage', 'Lowest %', 1, 100, 1],
+  ['maxPercentage', 'Highest %', 1, 100, 1],
+];
+
 const SamplingControlView: React.FC = () => {
   const toast = useToast();
 
   const [isLoading, setIsLoading] = useState(false);
   const [config, setConfig] = useState<any>(null);
   const [latestRun, setLatestRun] = useState<LatestRun | null>(null);
+  const [isCancellingRun, setIsCancellingRun] = useState(false);
   const [isReactivateConfirmOpen, setIsReactivateConfirmOpen] = useState(false);
+  const [isSimulationOpen, setIsSimulationOpen] = useState(false);
   const [deleteTasksOnReactivate, setDeleteTasksOnReactivate] = useState<boolean>(false);
   const [reactivatePreview, setReactivatePreview] = useState<{
     matchingActivityCount: number;
@@ -61,6 +125,9 @@ const SamplingControlView: React.FC = () => {
   const [autoRunThreshold, setAutoRunThreshold] = useState<number>(200);
   const [autoRunActivateFrom, setAutoRunActivateFrom] = useState<string>('');
   const [taskDueInDays, setTaskDueInDays] = useState<number>(0);
+  const [stratification, setStratification] = useState<StratificationSettings>(DEFAULT_STRATIFICATION);
+  const [coverage, setCoverage] = useState<CoverageSettings>(DEFAULT_COVERAGE);
+  const [riskWeighting, setRiskWeighting] = useState<RiskWeightingSettings>(DEFAULT_RISK_WEIGHTING);
 
   const [activityFilters, setActivityFilters] = useState(() => {
     const ytd = getPresetRange('YTD');
@@ -171,6 +238,9 @@ const SamplingControlView: React.FC = () => {
     setAutoRunThreshold(Number(cfg?.autoRunThreshold ?? 200));
     setAutoRunActivateFrom(cfg?.autoRunActivateFrom ? (typeof cfg.autoRunActivateFrom === 'string' ? cfg.autoRunActivateFrom.split('T')[0] : new Date(cfg.autoRunActivateFrom).toISOString().split('T')[0]) : '');
     setTaskDueInDays(Math.max(0, Math.min(365, Number(cfg?.taskDueInDays ?? 0))));
+    setStratification({ ...DEFAULT_STRATIFICATION, ...(cfg?.stratification || {}) });
+    setCoverage({ ...DEFAULT_COVERAGE, ...(cfg?.coverage || {}) });
+    setRiskWeighting({ ...DEFAULT_RISK_WEIGHTING, ...(cfg?.riskWeighting || {}) });
   };
 
   const loadStats = async () => {
@@ -252,6 +322,9 @@ const SamplingControlView: React.FC = () => {
   }, [runType]);
 
   const isSamplingRunning = latestRun?.status === 'running';
+  const isRunResumable =
+    (latestRun?.status === 'interrupted' || latestRun?.status === 'cancelled') &&
+    Number(latestRun?.processed ?? 0) < Number(latestRun?.matched ?? 0);
   const progressPct = useMemo(() => {
     const processed = Number(latestRun?.processed ?? 0);
     const matched = Number(latestRun?.matched ?? 0);
@@ -355,6 +428,20 @@ const SamplingControlView: React.FC = () => {
         autoRunEnabled,
         autoRunThreshold: Math.max(1, Math.min(100000, autoRunThreshold)),
         taskDueInDays: Math.max(0, Math.min(365, taskDueInDays)),
+        stratification: {
+          ...stratification,
+          minPerStratum: Math.max(0, Math.min(1000, Math.floor(stratification.minPerStratum) || 0)),
+        },
+        coverage: {
+          ...coverage,
+          minValidationsPerOfficer: Math.max(0, Math.min(1000, Math.floor(coverage.minValidationsPerOfficer) || 0)),
+        },
+        riskWeighting: Object.fromEntries(
+          Object.entries(riskWeighting).map(([key, value]) => {
+            const field = RISK_WEIGHTING_FIELDS.find(([k]) => k === key);
+            return [key, field ? Math.max(field[2], Math.min(field[3], Number(value) || field[2])) : value];
+          })
+        ) as unknown as RiskWeightingSettings,
       };
       if (autoRunActivateFrom?.trim()) payload.autoRunActivateFrom = autoRunActivateFrom.trim();
       await samplingAPI.updateConfig(payload);
@@ -409,8 +496,10 @@ const SamplingControlView: React.FC = () => {
         setSelectedPreset('Custom');
         setActivityFilters((prev) => ({ ...prev, dateFrom: fromStr, dateTo: toStr }));
       }
+      const topUp = res?.data?.coverageTopUp;
       toast.showSuccess(
-        `Sampling done. Matched: ${res?.data?.matched ?? 0}, Processed: ${res?.data?.processed ?? 0}, Tasks created: ${res?.data?.tasksCreatedTotal ?? 0}`
+        `${res?.data?.status === 'cancelled' ? 'Sampling cancelled' : 'Sampling done'}. Matched: ${res?.data?.matched ?? 0}, Processed: ${res?.data?.processed ?? 0}, Tasks created: ${res?.data?.tasksCreatedTotal ?? 0}` +
+          (topUp ? ` (coverage top-up: ${topUp.tasksCreated} for ${topUp.officersToppedUp} officers)` : '')
       );
       await loadStats();
       await loadUnassigned();
@@ -448,6 +537,39 @@ const SamplingControlView: React.FC = () => {
     }
   };
 
+  const handleCancelRun = async () => {
+    if (!latestRun || latestRun._id === 'optimistic') return;
+    setIsCancellingRun(true);
+    try {
+      const res: any = await samplingAPI.cancelRun(latestRun._id);
+      toast.showSuccess(res?.message || 'Cancel requested');
+      await loadLatestRunStatus();
+    } catch (e: any) {
+      toast.showError(e.message || 'Failed to cancel sampling run');
+    } finally {
+      setIsCancellingRun(false);
+    }
+  };
+
+  const handleResumeRun = async () => {
+    if (!latestRun) return;
+    setIsLoading(true);
+    try {
+      setLatestRun({ ...latestRun, status: 'running', cancelRequestedAt: null });
+      const res: any = await samplingAPI.resumeRun(latestRun._id);
+      toast.showSuccess(
+        `${res?.data?.status === 'cancelled' ? 'Sampling cancelled' : 'Sampling resumed and done'}. ` +
+          `Processed: ${res?.data?.processed ?? 0}, Tasks created: ${res?.data?.tasksCreatedTotal ?? 0}`
+      );
+      await Promise.all([loadStats(), loadUnassigned()]);
+    } catch (e: any) {
+      toast.showError(e.message || 'Failed to resume sampling run');
+    } finally {
+      await loadLatestRunStatus().catch(() => undefined);
+      setIsLoading(false);
+    }
+  };
+
   const handleReactivateSelected = async () => {
     if (totalMatchingByLifecycle === 0) {
       toast.showError('No activities match the current filters');
@@ -896,6 +1018,165 @@ const SamplingControlView: React.FC = () => {
               )}
             </div>
 
+            <div className="rounded-xl border border-slate-200 bg-slate-50 p-4 space-y-3">
+              <p className="text-xs font-black text-slate-400 uppercase tracking-widest">Sampling mode</p>
+              <p className="text-xs text-slate-600">
+                Stratified mode splits each activity's eligible farmers into groups and samples every group, so small
+                locations or languages are not missed. The strata used are recorded in the sampling audit.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="min-w-0">
+                  <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Mode</label>
+                  <StyledSelect
+                    value={stratification.mode}
+                    onChange={(value) => setStratification((p) => ({ ...p, mode: value as StratificationSettings['mode'] }))}
+                    options={[
+                      { value: 'uniform', label: 'Uniform' },
+                      { value: 'stratified', label: 'Stratified' },
+                    ]}
+                  />
+                </div>
+                <div className="min-w-0">
+                  <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Strata by</label>
+                  <StyledSelect
+                    value={stratification.strataBy}
+                    disabled={stratification.mode !== 'stratified'}
+                    onChange={(value) => setStratification((p) => ({ ...p, strataBy: value as StratificationSettings['strataBy'] }))}
+                    options={[
+                      { value: 'location', label: 'Location' },
+                      { value: 'preferredLanguage', label: 'Language' },
+                      { value: 'territory', label: 'Territory' },
+                    ]}
+                  />
+                </div>
+                <div className="min-w-0">
+                  <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Allocation</label>
+                  <StyledSelect
+                    value={stratification.allocation}
+                    disabled={stratification.mode !== 'stratified'}
+                    onChange={(value) => setStratification((p) => ({ ...p, allocation: value as StratificationSettings['allocation'] }))}
+                    options={[
+                      { value: 'proportional', label: 'Proportional' },
+                      { value: 'equal', label: 'Equal' },
+                    ]}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1 whitespace-nowrap">Min per stratum</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1000}
+                    value={stratification.minPerStratum}
+                    disabled={stratification.mode !== 'stratified'}
+                    onChange={(e) => setStratification((p) => ({ ...p, minPerStratum: Math.max(0, Number(e.target.value) || 0) }))}
+                    className="w-full min-h-12 px-4 py-3 rounded-xl border border-slate-200 bg-white text-sm font-medium text-slate-900 focus:outline-none focus:ring-2 focus:ring-lime-400 disabled:opacity-50"
+                  />
+                </div>
+              </div>
+              <p className="text-[10px] text-slate-500">Floors can raise an activity's sample above the sampling %.</p>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-slate-50 p-4 space-y-3">
+              <p className="text-xs font-black text-slate-400 uppercase tracking-widest">Officer coverage</p>
+              <p className="text-xs text-slate-600">
+                After each sampling run, officers with fewer completed validations than the target this period get
+                extra tasks from their already-sampled activities (open tasks count toward the target).
+              </p>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={coverage.enabled}
+                  onChange={(e) => setCoverage((p) => ({ ...p, enabled: e.target.checked }))}
+                  className="rounded border-slate-300 text-slate-900 focus:ring-slate-400"
+                />
+                <span className="text-sm font-bold text-slate-800">Top up under-covered officers</span>
+              </label>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="min-w-0">
+                  <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Officer</label>
+                  <StyledSelect
+                    value={coverage.officerLevel}
+                    onChange={(value) => setCoverage((p) => ({ ...p, officerLevel: value as CoverageSettings['officerLevel'] }))}
+                    options={[
+                      { value: 'fda', label: 'FDA' },
+                      { value: 'tm', label: 'TM' },
+                    ]}
+                  />
+                </div>
+                <div className="min-w-0">
+                  <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Period</label>
+                  <StyledSelect
+                    value={coverage.period}
+                    onChange={(value) => setCoverage((p) => ({ ...p, period: value as CoverageSettings['period'] }))}
+                    options={[
+                      { value: 'month', label: 'Month' },
+                      { value: 'week', label: 'Week' },
+                    ]}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1 whitespace-nowrap">Min validations</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1000}
+                    value={coverage.minValidationsPerOfficer}
+                    onChange={(e) => setCoverage((p) => ({ ...p, minValidationsPerOfficer: Math.max(0, Number(e.target.value) || 0) }))}
+                    className="w-full min-h-12 px-4 py-3 rounded-xl border border-slate-200 bg-white text-sm font-medium text-slate-900 focus:outline-none focus:ring-2 focus:ring-lime-400"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-slate-50 p-4 space-y-3">
+              <p className="text-xs font-black text-slate-400 uppercase tracking-widest">Risk weighting</p>
+              <p className="text-xs text-slate-600">
+                Uses each officer's EMS results over the lookback window: poor meeting/mobile validity or a high
+                identity-wrong rate raises the activity's sampling %, a good EMS score lowers it. The reason is
+                recorded in the sampling audit. An explicit run percentage is never adjusted.
+              </p>
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={riskWeighting.enabled}
+                    onChange={(e) => setRiskWeighting((p) => ({ ...p, enabled: e.target.checked }))}
+                    className="rounded border-slate-300 text-slate-900 focus:ring-slate-400"
+                  />
+                  <span className="text-sm font-bold text-slate-800">Weight sampling by officer risk</span>
+                </label>
+                <div className="min-w-[140px]">
+                  <StyledSelect
+                    value={riskWeighting.officerLevel}
+                    disabled={!riskWeighting.enabled}
+                    onChange={(value) => setRiskWeighting((p) => ({ ...p, officerLevel: value as RiskWeightingSettings['officerLevel'] }))}
+                    options={[
+                      { value: 'fda', label: 'By FDA' },
+                      { value: 'tm', label: 'By TM' },
+                    ]}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+                {RISK_WEIGHTING_FIELDS.map(([key, label, min, max, step]) => (
+                  <div key={key}>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={riskWeighting[key] as number}
+                      disabled={!riskWeighting.enabled}
+                      onChange={(e) => setRiskWeighting((p) => ({ ...p, [key]: Number(e.target.value) }))}
+                      className="w-full px-3 py-2 rounded-xl border border-slate-200 bg-white text-sm font-medium text-slate-900 focus:outline-none focus:ring-2 focus:ring-lime-400 disabled:opacity-50"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <div className="rounded-xl border border-slate-200 bg-slate-50 p-4 space-y-3">
               <p className="text-xs font-black text-slate-400 uppercase tracking-widest">Automatic later run (cron)</p>
               <p className="text-xs text-slate-600">When the scheduler calls POST /api/sampling/auto-run, it will run a later Run Sample only if enabled, on or after the activate-from date, and when unsampled activities ≥ threshold.</p>
@@ -949,7 +1230,7 @@ const SamplingControlView: React.FC = () => {
             </div>
           </div>
 
-          <div className="space-y-3 flex items-start">
+          <div className="flex flex-col items-start gap-3">
             <button
               onClick={handleSaveConfig}
               disabled={isLoading}
@@ -958,10 +1239,27 @@ const SamplingControlView: React.FC = () => {
               <Save size={16} />
               Save & Apply
             </button>
+            <button
+              onClick={() => setIsSimulationOpen(true)}
+              disabled={isLoading}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-2xl border border-slate-200 bg-white hover:bg-slate-50 text-slate-800 text-sm font-black"
+              title="Project the edited settings on Active activities and compare with the saved config"
+            >
+              <FlaskConical size={16} />
+              Simulate
+            </button>
           </div>
         </div>
       </div>
 
+      <SamplingPoliciesPanel activityTypes={eligibilityChecklistTypes} />
+
+      <OfficerCoveragePanel />
+
+      <DoNotCallPanel />
+
+      <ReconciliationPanel />
+
       {/* Quick Dashboard */}
       <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6 min-w-0">
         <div className="flex flex-wrap items-start justify-between gap-4">
@@ -1017,13 +1315,7 @@ const SamplingControlView: React.FC = () => {
           {latestRun ? (
             <div className="text-xs text-slate-600">
               <span className="font-black">Latest run:</span>{' '}
-              <span className="font-bold">
-                {latestRun.status === 'running'
-                  ? 'Running'
-                  : latestRun.status === 'completed'
-                    ? 'Completed'
-                    : 'Failed'}
-              </span>
+              <span className="font-bold">{RUN_STATUS_LABELS[latestRun.status] ?? latestRun.status}</span>
               {typeof latestRun.processed === 'number' && typeof latestRun.matched === 'number' ? (
                 <>
                   {' '}
@@ -1047,11 +1339,46 @@ const SamplingControlView: React.FC = () => {
             <div className="text-xs text-slate-500">Latest run: none</div>
           )}
 
+          {isRunResumable && (
+            <div className="mt-2 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+              <div className="text-xs text-amber-900">
+                {latestRun?.status === 'interrupted'
+                  ? 'The last sampling run stopped before finishing (server restart).'
+                  : 'The last sampling run was cancelled.'}{' '}
+                {Math.max(0, Number(latestRun?.matched ?? 0) - Number(latestRun?.processed ?? 0))} activities were not processed.
+              </div>
+              <button
+                type="button"
+                onClick={handleResumeRun}
+                disabled={isLoading}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-amber-600 hover:bg-amber-700 text-white text-xs font-black disabled:opacity-50"
+              >
+                <Play size={14} />
+                Resume run
+              </button>
+            </div>
+          )}
+
           {isSamplingRunning && (
             <div className="mt-2 rounded-xl border border-green-200 bg-green-50 px-4 py-3">
               <div className="flex items-center justify-between gap-3">
-                <div className="text-sm font-black text-green-900">Sampling is running…</div>
-                <div className="text-xs font-black text-green-900">{progressPct}%</div>
+                <div className="text-sm font-black text-green-900">
+                  {latestRun?.cancelRequestedAt ? 'Cancelling after the current activity…' : 'Sampling is running…'}
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="text-xs font-black text-green-900">{progressPct}%</div>
+                  {latestRun && latestRun._id !== 'optimistic' && !latestRun.cancelRequestedAt && (
+                    <button
+                      type="button"
+                      onClick={handleCancelRun}
+                      disabled={isCancellingRun}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white border border-green-300 text-green-900 text-xs font-black hover:bg-green-100 disabled:opacity-50"
+                    >
+                      <StopCircle size={14} />
+                      Cancel
+                    </button>
+                  )}
+                </div>
               </div>
               <div className="mt-2 h-2 w-full rounded-full bg-green-100 overflow-hidden">
                 <div
@@ -1320,6 +1647,14 @@ const SamplingControlView: React.FC = () => {
           </div>
         )}
 
+        {(stats?.doNotCall?.inRange?.total ?? 0) > 0 && (
+          <p className="mt-2 text-xs text-slate-500">
+            <span className="font-semibold text-slate-600">{stats.doNotCall.inRange.total}</span> farmers in this range are on the
+            do-not-call registry ({stats.doNotCall.inRange.byKind.do_not_call} do not call, {stats.doNotCall.inRange.byKind.no_consent}{' '}
+            no consent) and are never sampled.
+          </p>
+        )}
+
         {!stats?.eligibility?.restrictsByEligibleTypes && stats?.totals && (
           <p className="mt-2 text-xs text-slate-500">
             Eligible activity types list is empty → <span className="font-semibold text-slate-600">all types are allowed</span>{' '}
@@ -1528,6 +1863,21 @@ const SamplingControlView: React.FC = () => {
         </div>
       </div>
 
+      <SamplingSimulationModal
+        isOpen={isSimulationOpen}
+        onClose={() => setIsSimulationOpen(false)}
+        candidate={{
+          eligibleActivityTypes: eligibleTypes,
+          activityCoolingDays: Math.max(0, Math.min(365, activityCoolingDays)),
+          farmerCoolingDays: Math.max(0, Math.min(365, farmerCoolingDays)),
+          defaultPercentage: Math.max(1, Math.min(100, defaultPercentage)),
+          stratification: {
+            ...stratification,
+            minPerStratum: Math.max(0, Math.min(1000, Math.floor(stratification.minPerStratum) || 0)),
+          },
+        }}
+      />
+
       {/* Keep config reference to avoid unused warning */}
       <div className="hidden">{config ? lifecycleLabel('active') : ''}{totalActivities}</div>
     </div>
@@ -0,0 +1,400 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { History, Loader2, Plus, RefreshCw, ScrollText } from 'lucide-react';
+import Button from '../shared/Button';
+import Modal from '../shared/Modal';
+import {
+  samplingPoliciesAPI,
+  type SamplingPolicy,
+  type SamplingPolicyInput,
+  type SamplingPolicyScope,
+  type SamplingPolicyVersion,
+} from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+interface SamplingPoliciesPanelProps {
+  /** Activity types offered for per-type rates */
+  activityTypes: string[];
+}
+
+const SCOPE_FIELDS: Array<{ key: keyof SamplingPolicyScope; label: string }> = [
+  { key: 'buNames', label: 'BU' },
+  { key: 'zoneNames', label: 'Zone' },
+  { key: 'states', label: 'State' },
+  { key: 'activityTypes', label: 'Activity type' },
+];
+
+interface PolicyForm {
+  name: string;
+  description: string;
+  scope: Record<keyof SamplingPolicyScope, string>;
+  priority: number;
+  effectiveFrom: string;
+  effectiveTo: string;
+  isActive: boolean;
+  defaultPercentage: number;
+  activityTypePercentages: Record<string, string>;
+}
+
+const inputClass =
+  'w-full px-3 py-2 rounded-xl border border-slate-200 bg-white text-sm font-medium text-slate-900 focus:outline-none focus:ring-2 focus:ring-lime-400';
+
+// Policy bounds are stored as IST day edges; show them as IST calendar dates
+const toISTDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' }) : '';
+
+const formatWindow = (policy: Pick<SamplingPolicy, 'effectiveFrom' | 'effectiveTo'>) =>
+  `${toISTDate(policy.effectiveFrom)} → ${policy.effectiveTo ? toISTDate(policy.effectiveTo) : 'open'}`;
+
+const formatScope = (scope: SamplingPolicyScope) => {
+  const parts = SCOPE_FIELDS.filter(({ key }) => scope[key]?.length).map(({ key, label }) => `${label}: ${scope[key].join(', ')}`);
+  return parts.length ? parts.join(' • ') : 'All activities';
+};
+
+const formatRates = (policy: Pick<SamplingPolicy, 'defaultPercentage' | 'activityTypePercentages'>) => {
+  const overrides = Object.entries(policy.activityTypePercentages || {}).map(([type, pct]) => `${type} ${pct}%`);
+  return [`${policy.defaultPercentage}%`, ...overrides].join(' • ');
+};
+
+const emptyForm = (): PolicyForm => ({
+  name: '',
+  description: '',
+  scope: { buNames: '', zoneNames: '', states: '', activityTypes: '' },
+  priority: 0,
+  effectiveFrom: toISTDate(new Date().toISOString()),
+  effectiveTo: '',
+  isActive: true,
+  defaultPercentage: 10,
+  activityTypePercentages: {},
+});
+
+const toForm = (policy: SamplingPolicy): PolicyForm => ({
+  name: policy.name,
+  description: policy.description || '',
+  scope: {
+    buNames: policy.scope.buNames.join(', '),
+    zoneNames: policy.scope.zoneNames.join(', '),
+    states: policy.scope.states.join(', '),
+    activityTypes: policy.scope.activityTypes.join(', '),
+  },
+  priority: policy.priority,
+  effectiveFrom: toISTDate(policy.effectiveFrom),
+  effectiveTo: toISTDate(policy.effectiveTo),
+  isActive: policy.isActive,
+  defaultPercentage: policy.defaultPercentage,
+  activityTypePercentages: Object.fromEntries(
+    Object.entries(policy.activityTypePercentages || {}).map(([type, pct]) => [type, String(pct)])
+  ),
+});
+
+const toPayload = (form: PolicyForm): SamplingPolicyInput => {
+  const splitList = (value: string) => value.split(',').map((v) => v.trim()).filter(Boolean);
+  return {
+    name: form.name.trim(),
+    description: form.description.trim(),
+    scope: {
+      buNames: splitList(form.scope.buNames),
+      zoneNames: splitList(form.scope.zoneNames),
+      states: splitList(form.scope.states),
+      activityTypes: splitList(form.scope.activityTypes),
+    },
+    priority: Math.round(form.priority) || 0,
+    effectiveFrom: form.effectiveFrom,
+    effectiveTo: form.effectiveTo || null,
+    isActive: form.isActive,
+    defaultPercentage: Math.max(1, Math.min(100, form.defaultPercentage)),
+    activityTypePercentages: Object.fromEntries(
+      Object.entries(form.activityTypePercentages)
+        .filter(([, pct]) => pct.trim() !== '')
+        .map(([type, pct]) => [type, Math.max(1, Math.min(100, Number(pct) || 1))])
+    ),
+  };
+};
+
+/**
+ * Named sampling policies. An activity covered by an active policy is sampled at the policy's
+ * rate; everything else uses the Sampling Control percentages above.
+ */
+const SamplingPoliciesPanel: React.FC<SamplingPoliciesPanelProps> = ({ activityTypes }) => {
+  const { showSuccess, showError } = useToast();
+  const [policies, setPolicies] = useState<SamplingPolicy[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editing, setEditing] = useState<{ policyId: string | null; version: number; form: PolicyForm } | null>(null);
+  const [versions, setVersions] = useState<SamplingPolicyVersion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await samplingPoliciesAPI.list();
+      setPolicies(res.data?.policies || []);
+    } catch (e: any) {
+      showError(e?.message || 'Failed to load sampling policies');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openEditor = async (policy: SamplingPolicy | null) => {
+    setVersions([]);
+    setEditing({
+      policyId: policy?._id ?? null,
+      version: policy?.version ?? 0,
+      form: policy ? toForm(policy) : emptyForm(),
+    });
+    if (!policy) return;
+    try {
+      const res = await samplingPoliciesAPI.get(policy._id);
+      setVersions(res.data?.versions || []);
+    } catch (e: any) {
+      showError(e?.message || 'Failed to load policy history');
+    }
+  };
+
+  const updateForm = (patch: Partial<PolicyForm>) =>
+    setEditing((prev) => (prev ? { ...prev, form: { ...prev.form, ...patch } } : prev));
+
+  const save = async () => {
+    if (!editing) return;
+    if (!editing.form.name.trim() || !editing.form.effectiveFrom) {
+      showError('Name and effective from are required');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const payload = toPayload(editing.form);
+      if (editing.policyId) {
+        await samplingPoliciesAPI.update(editing.policyId, payload, editing.version);
+        showSuccess('Sampling policy updated');
+      } else {
+        await samplingPoliciesAPI.create(payload);
+        showSuccess('Sampling policy created');
+      }
+      setEditing(null);
+      await load();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to save sampling policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const form = editing?.form;
+  const rateTypes = Array.from(new Set([...activityTypes, ...Object.keys(form?.activityTypePercentages || {})]));
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6 min-w-0">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div className="min-w-0 flex-1">
+          <h3 className="text-lg font-black text-slate-900 flex items-center gap-2">
+            <ScrollText size={18} className="text-lime-600" />
+            Sampling Policies
+          </h3>
+          <p className="text-sm text-slate-600">
+            Rates for a BU, zone, state or activity type over a date window. Highest priority wins, then the most
+            specific scope. Activities outside every policy use the settings above.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="secondary" size="sm" onClick={load} disabled={isLoading}>
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={() => openEditor(null)}>
+            <Plus size={16} />
+            New policy
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && policies.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="animate-spin text-lime-600" size={24} />
+        </div>
+      ) : policies.length === 0 ? (
+        <p className="text-sm text-slate-500 py-4">No sampling policies. All activities use the Sampling Control settings.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-[10px] font-black text-slate-500 uppercase tracking-wide">
+              <tr className="border-b border-slate-200">
+                <th className="py-2 text-left">Policy</th>
+                <th className="py-2 text-left">Scope</th>
+                <th className="py-2 text-left">Effective</th>
+                <th className="py-2 text-left">Rate</th>
+                <th className="py-2 text-right">Priority</th>
+                <th className="py-2 text-right">Version</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {policies.map((policy) => (
+                <tr
+                  key={policy._id}
+                  onClick={() => openEditor(policy)}
+                  className={`cursor-pointer hover:bg-slate-50 ${policy.isActive ? '' : 'opacity-50'}`}
+                >
+                  <td className="py-2 font-bold text-slate-900">
+                    {policy.name}
+                    {!policy.isActive && <span className="ml-2 text-[10px] font-black text-slate-500 uppercase">Retired</span>}
+                  </td>
+                  <td className="py-2 text-slate-700">{formatScope(policy.scope)}</td>
+                  <td className="py-2 text-slate-700 whitespace-nowrap">{formatWindow(policy)}</td>
+                  <td className="py-2 text-slate-700">{formatRates(policy)}</td>
+                  <td className="py-2 text-right tabular-nums">{policy.priority}</td>
+                  <td className="py-2 text-right tabular-nums">v{policy.version}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Modal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing?.policyId ? `Edit policy: ${form?.name}` : 'New sampling policy'}
+        size="lg"
+      >
+        {form && (
+          <div className="p-6 space-y-5">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block">
+                <span className="text-xs font-black text-slate-500 uppercase">Name</span>
+                <input className={inputClass} value={form.name} onChange={(e) => updateForm({ name: e.target.value })} />
+              </label>
+              <label className="block">
+                <span className="text-xs font-black text-slate-500 uppercase">Priority</span>
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={form.priority}
+                  onChange={(e) => updateForm({ priority: Number(e.target.value) || 0 })}
+                />
+              </label>
+              <label className="block sm:col-span-2">
+                <span className="text-xs font-black text-slate-500 uppercase">Description</span>
+                <input
+                  className={inputClass}
+                  value={form.description}
+                  onChange={(e) => updateForm({ description: e.target.value })}
+                />
+              </label>
+            </div>
+
+            <div>
+              <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Scope (comma separated, blank = any)</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {SCOPE_FIELDS.map(({ key, label }) => (
+                  <label key={key} className="block">
+                    <span className="text-xs font-bold text-slate-600">{label}</span>
+                    <input
+                      className={inputClass}
+                      value={form.scope[key]}
+                      onChange={(e) => updateForm({ scope: { ...form.scope, [key]: e.target.value } })}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <label className="block">
+                <span className="text-xs font-black text-slate-500 uppercase">Effective from</span>
+                <input
+                  type="date"
+                  className={inputClass}
+                  value={form.effectiveFrom}
+                  onChange={(e) => updateForm({ effectiveFrom: e.target.value })}
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-black text-slate-500 uppercase">Effective to</span>
+                <input
+                  type="date"
+                  className={inputClass}
+                  value={form.effectiveTo}
+                  onChange={(e) => updateForm({ effectiveTo: e.target.value })}
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-black text-slate-500 uppercase">Default %</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  className={inputClass}
+                  value={form.defaultPercentage}
+                  onChange={(e) => updateForm({ defaultPercentage: Number(e.target.value) || 1 })}
+                />
+              </label>
+            </div>
+
+            {rateTypes.length > 0 && (
+              <div>
+                <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Per activity type % (blank = default)</p>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {rateTypes.map((type) => (
+                    <label key={type} className="block">
+                      <span className="text-xs font-bold text-slate-600">{type}</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        className={inputClass}
+                        value={form.activityTypePercentages[type] ?? ''}
+                        onChange={(e) =>
+                          updateForm({ activityTypePercentages: { ...form.activityTypePercentages, [type]: e.target.value } })
+                        }
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm font-bold text-slate-700 cursor-pointer">
+              <input type="checkbox" checked={form.isActive} onChange={(e) => updateForm({ isActive: e.target.checked })} />
+              Active (untick to retire the policy)
+            </label>
+
+            {versions.length > 0 && (
+              <div>
+                <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2 flex items-center gap-1">
+                  <History size={12} /> Version history
+                </p>
+                <ul className="max-h-48 overflow-y-auto divide-y divide-slate-100 text-xs text-slate-700">
+                  {versions.map((v) => (
+                    <li key={v._id} className="py-2">
+                      <span className="font-black text-slate-900">v{v.version}</span> •{' '}
+                      {new Date(v.createdAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })} •{' '}
+                      {v.changedByUserId?.name || 'Unknown'}
+                      <div className="text-slate-500">
+                        {v.snapshot.isActive ? '' : 'Retired • '}
+                        {formatScope(v.snapshot.scope)} • {formatWindow(v.snapshot)} • {formatRates(v.snapshot)} • priority{' '}
+                        {v.snapshot.priority}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button variant="secondary" onClick={() => setEditing(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button onClick={save} loading={isSaving}>
+                {editing?.policyId ? 'Save new version' : 'Create policy'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default SamplingPoliciesPanel;
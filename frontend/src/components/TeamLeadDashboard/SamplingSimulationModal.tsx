@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import Modal from '../shared/Modal';
+import {
+  samplingAPI,
+  type SamplingSimulation,
+  type SamplingSimulationCandidate,
+  type SamplingSimulationResult,
+} from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+interface SamplingSimulationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Unsaved form values to compare against the saved config */
+  candidate: SamplingSimulationCandidate;
+}
+
+const formatDays = (days: number | null) => (days === null ? 'No agents' : days === 1 ? '1 day' : `${days} days`);
+
+const Delta: React.FC<{ current: number; candidate: number }> = ({ current, candidate }) => {
+  const diff = candidate - current;
+  if (diff === 0) return <span className="text-slate-400">–</span>;
+  return <span className={diff > 0 ? 'text-amber-700' : 'text-green-700'}>{diff > 0 ? `+${diff}` : diff}</span>;
+};
+
+/** Rows keyed by language or state, merged across both results so nothing disappears from the comparison */
+const mergeRows = <T extends { tasks: number }>(
+  current: T[],
+  candidate: T[],
+  keyOf: (row: T) => string
+): Array<{ key: string; current?: T; candidate?: T }> => {
+  const rows = new Map<string, { key: string; current?: T; candidate?: T }>();
+  for (const row of current) rows.set(keyOf(row), { key: keyOf(row), current: row });
+  for (const row of candidate) rows.set(keyOf(row), { ...(rows.get(keyOf(row)) || { key: keyOf(row) }), candidate: row });
+  return Array.from(rows.values()).sort(
+    (a, b) => (b.candidate?.tasks ?? 0) - (a.candidate?.tasks ?? 0) || a.key.localeCompare(b.key)
+  );
+};
+
+const summaryRows: Array<{ label: string; value: (r: SamplingSimulationResult) => number }> = [
+  { label: 'Projected tasks', value: (r) => r.projectedTasks },
+  { label: 'Activities sampled', value: (r) => r.activities.sampled },
+  { label: 'Skipped: type not eligible', value: (r) => r.activities.skippedIneligibleType },
+  { label: 'Skipped: activity cooling', value: (r) => r.activities.skippedActivityCooling },
+  { label: 'Sized by a sampling policy', value: (r) => r.activities.governedByPolicy },
+  { label: 'Rate changed by risk weighting', value: (r) => r.activities.riskAdjusted },
+  { label: 'Eligible farmers', value: (r) => r.farmers.eligible },
+  { label: 'Blocked by farmer cooling', value: (r) => r.farmers.blockedByCooling },
+  { label: 'Blocked by do-not-call', value: (r) => r.farmers.blockedByDoNotCall },
+];
+
+/**
+ * Dry run of the saved Sampling Control settings and the edited (unsaved) ones on today's Active
+ * activities. Nothing is created; the projections use a fixed seed so reruns are stable.
+ */
+const SamplingSimulationModal: React.FC<SamplingSimulationModalProps> = ({ isOpen, onClose, candidate }) => {
+  const { showError } = useToast();
+  const [forceRun, setForceRun] = useState(false);
+  const [simulation, setSimulation] = useState<SamplingSimulation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    samplingAPI
+      .simulate({ ...candidate, forceRun })
+      .then((res) => {
+        if (!cancelled) setSimulation(res.data);
+      })
+      .catch((e: any) => {
+        if (!cancelled) showError(e?.message || 'Simulation failed');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Re-run when opened or when the cooling override changes; `candidate` is a fresh object each render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, forceRun]);
+
+  const current = simulation?.current;
+  const proposed = simulation?.candidate;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Simulate sampling config" size="xl">
+      <div className="p-6 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs text-slate-600">
+            Dry run on {simulation?.activeActivities ?? '…'} Active activities. No tasks, audits or cooling periods are
+            written.
+            {simulation?.truncated && ' Only the oldest 5,000 activities are included.'}
+          </p>
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+            <input type="checkbox" checked={forceRun} onChange={(e) => setForceRun(e.target.checked)} />
+            Ignore activity cooling (force run)
+          </label>
+        </div>
+
+        {isLoading || !current || !proposed ? (
+          <div className="py-16 text-center">
+            <Loader2 className="animate-spin text-lime-600 inline" size={24} />
+          </div>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[10px] font-black text-slate-500 uppercase tracking-wide border-b border-slate-200">
+                  <th className="py-2">Metric</th>
+                  <th className="py-2 text-right">Current</th>
+                  <th className="py-2 text-right">Candidate</th>
+                  <th className="py-2 text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 tabular-nums">
+                {summaryRows.map((row) => (
+                  <tr key={row.label}>
+                    <td className="py-2 text-slate-700">{row.label}</td>
+                    <td className="py-2 text-right font-bold text-slate-900">{row.value(current)}</td>
+                    <td className="py-2 text-right font-bold text-slate-900">{row.value(proposed)}</td>
+                    <td className="py-2 text-right font-bold">
+                      <Delta current={row.value(current)} candidate={row.value(proposed)} />
+                    </td>
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-2 text-slate-700">Team queue cleared in</td>
+                  <td className="py-2 text-right font-bold text-slate-900">{formatDays(current.workload.daysToClear)}</td>
+                  <td className="py-2 text-right font-bold text-slate-900">{formatDays(proposed.workload.daysToClear)}</td>
+                  <td />
+                </tr>
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-500">
+              Team: {proposed.workload.onShiftToday} of {proposed.workload.agents} agents on shift today •{' '}
+              {proposed.workload.dailyCapacity} tasks/day capacity • {proposed.workload.openTasks} tasks already queued
+            </p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2">By language</p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-[10px] font-black text-slate-500 uppercase tracking-wide border-b border-slate-200">
+                      <th className="py-2">Language</th>
+                      <th className="py-2 text-right">Current</th>
+                      <th className="py-2 text-right">Candidate</th>
+                      <th className="py-2 text-right">Clears in</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 tabular-nums">
+                    {mergeRows<SamplingSimulationResult['byLanguage'][number]>(current.byLanguage, proposed.byLanguage, (r) => r.language).map((row) => (
+                      <tr key={row.key}>
+                        <td className="py-2 text-slate-700">{row.key}</td>
+                        <td className="py-2 text-right">{row.current?.tasks ?? 0}</td>
+                        <td className="py-2 text-right font-bold text-slate-900">{row.candidate?.tasks ?? 0}</td>
+                        <td
+                          className="py-2 text-right text-xs text-slate-500"
+                          title={row.candidate ? `${row.candidate.agents} agents, ${row.candidate.dailyCapacity}/day` : undefined}
+                        >
+                          {row.candidate ? formatDays(row.candidate.daysToClear) : '–'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div>
+                <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2">By state</p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-[10px] font-black text-slate-500 uppercase tracking-wide border-b border-slate-200">
+                      <th className="py-2">State</th>
+                      <th className="py-2 text-right">Current</th>
+                      <th className="py-2 text-right">Candidate</th>
+                      <th className="py-2 text-right">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 tabular-nums">
+                    {mergeRows<SamplingSimulationResult['byState'][number]>(current.byState, proposed.byState, (r) => r.state).map((row) => (
+                      <tr key={row.key}>
+                        <td className="py-2 text-slate-700">{row.key}</td>
+                        <td className="py-2 text-right">{row.current?.tasks ?? 0}</td>
+                        <td className="py-2 text-right font-bold text-slate-900">{row.candidate?.tasks ?? 0}</td>
+                        <td className="py-2 text-right font-bold">
+                          <Delta current={row.current?.tasks ?? 0} candidate={row.candidate?.tasks ?? 0} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default SamplingSimulationModal;
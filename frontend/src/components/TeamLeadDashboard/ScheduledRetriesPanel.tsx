@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Clock, Loader2, RefreshCw } from 'lucide-react';
+import Button from '../shared/Button';
+import StyledSelect from '../shared/StyledSelect';
+import { tasksAPI, type AutoRetryRecord, type AutoRetryState } from '../../services/api';
+import { useToast } from '../../context/ToastContext';
+
+const STATE_OPTIONS: Array<{ value: AutoRetryState | 'all'; label: string }> = [
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'created', label: 'Created' },
+  { value: 'skipped', label: 'Skipped' },
+  { value: 'exhausted', label: 'Exhausted' },
+  { value: 'all', label: 'All' },
+];
+
+const STATE_BADGE: Record<AutoRetryState, string> = {
+  scheduled: 'bg-amber-50 text-amber-700 border-amber-200',
+  created: 'bg-lime-50 text-lime-700 border-lime-200',
+  skipped: 'bg-slate-100 text-slate-600 border-slate-200',
+  exhausted: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return '-';
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? value : d.toLocaleString();
+};
+
+// datetime-local wants "YYYY-MM-DDTHH:mm" in local time
+const toLocalInput = (value?: string | null) => {
+  const d = value ? new Date(value) : new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+/**
+ * Automatic retries planned by the retry policy, with team lead overrides
+ * (skip, retry now, reschedule).
+ */
+const ScheduledRetriesPanel: React.FC = () => {
+  const { showSuccess, showError } = useToast();
+  const [state, setState] = useState<AutoRetryState | 'all'>('scheduled');
+  const [tasks, setTasks] = useState<AutoRetryRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyTaskId, setBusyTaskId] = useState<string | null>(null);
+  const [rescheduleFor, setRescheduleFor] = useState<{ taskId: string; at: string } | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await tasksAPI.getAutoRetries({ state, limit: 50 });
+      setTasks(res.data?.tasks || []);
+      setTotal(res.data?.pagination?.total || 0);
+    } catch (e: any) {
+      showError(e?.message || 'Failed to load automatic retries');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [state, showError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const override = async (
+    taskId: string,
+    action: 'skip' | 'reschedule' | 'run_now',
+    nextRetryAt?: string
+  ) => {
+    setBusyTaskId(taskId);
+    try {
+      await tasksAPI.overrideAutoRetry(taskId, { action, nextRetryAt });
+      showSuccess(action === 'skip' ? 'Retry skipped' : action === 'run_now' ? 'Callback created' : 'Retry rescheduled');
+      setRescheduleFor(null);
+      await load();
+    } catch (e: any) {
+      showError(e?.message || 'Failed to update retry');
+    } finally {
+      setBusyTaskId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-black text-slate-900 flex items-center gap-2">
+            <Clock size={18} className="text-lime-600" />
+            Automatic Retries
+          </h3>
+          <p className="text-sm text-slate-600 mt-1">{total} {state === 'all' ? 'total' : state}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <StyledSelect
+            value={state}
+            onChange={(v) => setState(v as AutoRetryState | 'all')}
+            options={STATE_OPTIONS}
+            className="min-w-[140px]"
+          />
+          <Button variant="secondary" size="sm" onClick={load} disabled={isLoading}>
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && tasks.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="animate-spin text-lime-600" size={24} />
+        </div>
+      ) : tasks.length === 0 ? (
+        <p className="text-sm text-slate-500 py-4">No automatic retries.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-[10px] font-black text-slate-500 uppercase tracking-wide">
+              <tr>
+                <th className="py-2 text-left">Farmer</th>
+                <th className="py-2 text-left">Last call</th>
+                <th className="py-2 text-left">Agent</th>
+                <th className="py-2 text-left">Retry at</th>
+                <th className="py-2 text-left">State</th>
+                <th className="py-2 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {tasks.map((t) => {
+                const agent = t.autoRetry.agentId || t.assignedAgentId;
+                const isBusy = busyTaskId === t._id;
+                return (
+                  <tr key={t._id}>
+                    <td className="py-3">
+                      <div className="font-bold text-slate-800">{t.farmerId?.name || '-'}</div>
+                      <div className="text-xs text-slate-500">{t.farmerId?.mobileNumber}</div>
+                    </td>
+                    <td className="py-3 text-slate-700">
+                      {t.callLog?.callStatus || '-'}
+                      {t.callbackNumber > 0 && <span className="text-xs text-slate-500 ml-1">(callback #{t.callbackNumber})</span>}
+                    </td>
+                    <td className="py-3 text-slate-700">{agent?.name || '-'}</td>
+                    <td className="py-3 text-slate-700">
+                      {rescheduleFor?.taskId === t._id ? (
+                        <input
+                          type="datetime-local"
+                          value={rescheduleFor.at}
+                          onChange={(e) => setRescheduleFor({ taskId: t._id, at: e.target.value })}
+                          className="px-2 py-1 rounded-lg border border-slate-200 text-sm"
+                        />
+                      ) : (
+                        formatDateTime(t.autoRetry.nextRetryAt)
+                      )}
+                    </td>
+                    <td className="py-3">
+                      <span className={`px-2 py-0.5 rounded-full border text-xs font-bold ${STATE_BADGE[t.autoRetry.state]}`}>
+                        {t.autoRetry.state}
+                      </span>
+                      {t.autoRetry.note && <div className="text-xs text-slate-500 mt-1">{t.autoRetry.note}</div>}
+                    </td>
+                    <td className="py-3">
+                      {t.autoRetry.state === 'scheduled' && (
+                        <div className="flex justify-end gap-2">
+                          {rescheduleFor?.taskId === t._id ? (
+                            <>
+                              <Button
+                                size="sm"
+                                loading={isBusy}
+                                onClick={() => override(t._id, 'reschedule', new Date(rescheduleFor.at).toISOString())}
+                              >
+                                Save
+                              </Button>
+                              <Button variant="secondary" size="sm" onClick={() => setRescheduleFor(null)} disabled={isBusy}>
+                                Cancel
+                              </Button>
+                            </>
+                          ) : (
+                            <>
+                              <Button size="sm" onClick={() => override(t._id, 'run_now')} loading={isBusy}>
+                                Retry now
+                              </Button>
+                              <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => setRescheduleFor({ taskId: t._id, at: toLocalInput(t.autoRetry.nextRetryAt) })}
+                                disabled={isBusy}
+                              >
+                                Reschedule
+                              </Button>
+                              <Button variant="secondary" size="sm" onClick={() => override(t._id, 'skip')} disabled={isBusy}>
+                                Skip
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduledRetriesPanel;
@@ -1,6 +1,6 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Calendar, Filter, RefreshCw, Loader2, Users as UsersIcon, CheckCircle, Clock, XCircle, AlertCircle, Phone, MapPin, ChevronUp, ChevronDown } from 'lucide-react';
-import { tasksAPI } from '../../services/api';
+import { Calendar, Filter, RefreshCw, Loader2, Users as UsersIcon, CheckCircle, Clock, XCircle, AlertCircle, Phone, MapPin, ChevronUp, ChevronDown, StopCircle, Play } from 'lucide-react';
+import { tasksAPI, liveAPI, type AllocationStrategyInfo, type AllocationStrategyName } from '../../services/api';
 import { useToast } from '../../context/ToastContext';
 import Modal from '../shared/Modal';
 import ConfirmationModal from '../shared/ConfirmationModal';
@@ -86,10 +86,13 @@ const TaskDashboardView: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [data, setData] = useState<any>(null);
   const [allocRun, setAllocRun] = useState<any>(null);
+  const [isCancellingAlloc, setIsCancellingAlloc] = useState(false);
 
   const [filters, setFilters] = useState({ dateFrom: '', dateTo: '', bu: '', state: '' });
   const [allocLanguage, setAllocLanguage] = useState<string>('ALL');
   const [allocCount, setAllocCount] = useState<number>(0);
+  const [allocStrategy, setAllocStrategy] = useState<AllocationStrategyName>('capacity');
+  const [strategies, setStrategies] = useState<AllocationStrategyInfo[]>([]);
   const [isAllocConfirmOpen, setIsAllocConfirmOpen] = useState(false);
   const [reallocateAgent, setReallocateAgent] = useState<{ agentId: string; name: string; sampledInQueue: number } | null>(null);
   const [isReallocating, setIsReallocating] = useState(false);
@@ -177,6 +180,46 @@ const TaskDashboardView: React.FC = () => {
   }, [filters.dateFrom, filters.dateTo, filters.bu, filters.state]);
 
   const isAllocRunning = allocRun?.status === 'running';
+  const isAllocResumable =
+    (allocRun?.status === 'interrupted' || allocRun?.status === 'cancelled') &&
+    Number(allocRun?.processed ?? 0) < Number(allocRun?.total ?? 0);
+  const allocCancelPending = isAllocRunning && (isCancellingAlloc || !!allocRun?.cancelRequestedAt);
+
+  const handleCancelAllocation = async () => {
+    if (!allocRun?._id || allocRun._id === 'optimistic') return;
+    setIsCancellingAlloc(true);
+    try {
+      const res: any = await tasksAPI.cancelAllocationRun(allocRun._id);
+      toast.showSuccess(res?.message || 'Cancel requested');
+      await loadLatestAllocationStatus();
+    } catch (e: any) {
+      toast.showError(e.message || 'Failed to cancel allocation');
+      setIsCancellingAlloc(false);
+    }
+  };
+
+  const handleResumeAllocation = async () => {
+    if (!allocRun?._id) return;
+    setIsLoading(true);
+    try {
+      setAllocRun({ ...allocRun, status: 'running', cancelRequestedAt: null });
+      const res: any = await tasksAPI.resumeAllocationRun(allocRun._id);
+      toast.showSuccess(
+        `${res?.data?.status === 'cancelled' ? 'Allocation cancelled' : 'Allocation resumed and done'}. ` +
+          `Allocated: ${res?.data?.allocated ?? 0}, Skipped: ${res?.data?.skipped ?? 0}`
+      );
+      await loadDashboard();
+    } catch (e: any) {
+      toast.showError(e.message || 'Failed to resume allocation');
+    } finally {
+      await loadLatestAllocationStatus().catch(() => undefined);
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isAllocRunning) setIsCancellingAlloc(false);
+  }, [isAllocRunning]);
   const allocPct = useMemo(() => {
     const processed = Number(allocRun?.processed ?? 0);
     const total = Number(allocRun?.total ?? 0);
@@ -185,36 +228,51 @@ const TaskDashboardView: React.FC = () => {
     return Math.max(0, Math.min(100, pct));
   }, [allocRun?.processed, allocRun?.total]);
 
-  // Poll allocation status + refresh dashboard while allocation is running
+  // Live updates: allocation progress and task status changes are pushed over the live stream.
+  // Task events come in bursts, so the dashboard reloads at most every few seconds.
   useEffect(() => {
-    if (!isAllocRunning) return;
-    let statusTimer: any = null;
-    let refreshTimer: any = null;
-
-    const tickStatus = async () => {
-      try {
-        const r = await loadLatestAllocationStatus();
-        if (r && r.status !== 'running') {
-          // final refresh
-          await loadDashboard();
-        }
-      } catch {
-        // ignore
-      }
+    let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleReload = () => {
+      if (reloadTimer) return;
+      reloadTimer = setTimeout(() => {
+        reloadTimer = null;
+        loadDashboard().catch(() => undefined);
+      }, 3000);
     };
 
-    tickStatus();
-    statusTimer = setInterval(tickStatus, 2000);
-    refreshTimer = setInterval(() => {
-      loadDashboard().catch(() => undefined);
-    }, 5000);
+    const close = liveAPI.subscribe(
+      {},
+      {
+        onEvent: (event) => {
+          if (event.type === 'allocation.progress') {
+            setAllocRun((prev: any) => ({
+              ...(prev?._id === event.runId ? prev : {}),
+              _id: event.runId,
+              status: event.status,
+              total: event.total,
+              processed: event.processed,
+              allocated: event.allocated,
+              skipped: event.skipped,
+              lastProgressAt: event.at,
+            }));
+            if (event.status !== 'running') scheduleReload();
+          } else {
+            scheduleReload();
+          }
+        },
+        // Missed events while disconnected: catch up once reconnected
+        onConnectionChange: (connected) => {
+          if (connected) loadLatestAllocationStatus().catch(() => undefined);
+        },
+      }
+    );
 
     return () => {
-      if (statusTimer) clearInterval(statusTimer);
-      if (refreshTimer) clearInterval(refreshTimer);
+      close();
+      if (reloadTimer) clearTimeout(reloadTimer);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isAllocRunning]);
+  }, [filters.dateFrom, filters.dateTo, filters.bu, filters.state]);
 
   const unassignedRows = useMemo(() => {
     const rows = Array.isArray(data?.unassignedByLanguage) ? [...data.unassignedByLanguage] : [];
@@ -579,6 +637,19 @@ const TaskDashboardView: React.FC = () => {
     return date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
   };
 
+  useEffect(() => {
+    tasksAPI
+      .getAllocationStrategies()
+      .then((res) => {
+        setStrategies(res.data.strategies);
+        const preset = res.data.strategies.find((st) => st.isDefault);
+        if (preset) setAllocStrategy(preset.name);
+      })
+      .catch(() => setStrategies([]));
+  }, []);
+
+  const selectedStrategy = strategies.find((st) => st.name === allocStrategy);
+
   // Preselect the first language with unassigned tasks once data is loaded
   useEffect(() => {
     if (allocLanguage) return;
@@ -625,15 +696,18 @@ const TaskDashboardView: React.FC = () => {
         dateTo: filters.dateTo || undefined,
         bu: filters.bu || undefined,
         state: filters.state || undefined,
+        strategy: allocStrategy,
       };
       // If count is 0/blank, allocate all (backend interprets missing/0 as all)
       if (allocCount && allocCount > 0) payload.count = requested;
 
-      await tasksAPI.allocate(payload);
+      const res: any = await tasksAPI.allocate(payload);
       toast.showSuccess(
-        allocLanguage === 'ALL'
-          ? `Allocated ${requested} task(s) across all languages`
-          : `Allocated ${requested} task(s) for ${allocLanguage}`
+        res?.data?.status === 'cancelled'
+          ? `Allocation cancelled after ${res?.data?.allocated ?? 0} task(s)`
+          : allocLanguage === 'ALL'
+            ? `Allocated ${requested} task(s) across all languages`
+            : `Allocated ${requested} task(s) for ${allocLanguage}`
       );
       await Promise.all([loadDashboard(), loadLatestAllocationStatus()]);
     } catch (e: any) {
@@ -678,7 +752,7 @@ const TaskDashboardView: React.FC = () => {
         lastProgressAt: new Date().toISOString(),
       });
 
-      const result: any = await tasksAPI.reallocate(reallocateAgent.agentId);
+      const result: any = await tasksAPI.reallocate(reallocateAgent.agentId, allocStrategy);
       toast.showSuccess(
         `Reallocated ${result.data?.reallocated || 0} task(s) from ${reallocateAgent.name} to other agents`
       );
@@ -1249,9 +1323,14 @@ const TaskDashboardView: React.FC = () => {
           </p>
           <div className="rounded-2xl border border-slate-200 bg-slate-50 p-4">
             <p className="text-xs text-slate-700 font-bold">
-              Allocation will distribute tasks round-robin across agents who have this language capability and move tasks to{' '}
+              Allocation will distribute tasks across on-shift agents who have this language capability and move tasks to{' '}
               <span className="font-black">Sampled-in-queue</span>.
             </p>
+            {selectedStrategy && (
+              <p className="text-xs text-slate-600 mt-2">
+                <span className="font-black">{selectedStrategy.label}:</span> {selectedStrategy.description}
+              </p>
+            )}
           </div>
           <div className="flex items-center justify-end gap-3 pt-2">
             <button
@@ -1279,7 +1358,7 @@ const TaskDashboardView: React.FC = () => {
         onClose={() => setReallocateAgent(null)}
         onConfirm={handleReallocate}
         title="Reallocate Tasks"
-        message={`Reallocate ${reallocateAgent?.sampledInQueue || 0} sampled-in-queue task(s) from ${reallocateAgent?.name || ''} to other agents? Tasks will be redistributed based on farmer language and agent language capabilities using round-robin.`}
+        message={`Reallocate ${reallocateAgent?.sampledInQueue || 0} sampled-in-queue task(s) from ${reallocateAgent?.name || ''} to other agents? Tasks will be redistributed based on farmer language and agent language capabilities using the ${selectedStrategy?.label || 'selected'} strategy.`}
         confirmText="Reallocate"
         cancelText="Cancel"
         confirmVariant="primary"
@@ -1499,7 +1578,7 @@ const TaskDashboardView: React.FC = () => {
 
         {/* Allocation controls */}
         <div className="mt-4 flex flex-col md:flex-row md:items-end gap-3 md:justify-between">
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 w-full md:max-w-3xl">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 w-full md:max-w-4xl">
             <div>
               <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Language</label>
               <StyledSelect
@@ -1531,6 +1610,15 @@ const TaskDashboardView: React.FC = () => {
                 placeholder="0 = All"
               />
             </div>
+            <div>
+              <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Strategy</label>
+              <StyledSelect
+                value={allocStrategy}
+                onChange={(value) => setAllocStrategy(value as AllocationStrategyName)}
+                options={strategies.map((st) => ({ value: st.name, label: st.label }))}
+                placeholder="Strategy"
+              />
+            </div>
             <div className="flex items-end">
               <button
                 onClick={openAllocateConfirm}
@@ -1556,7 +1644,9 @@ const TaskDashboardView: React.FC = () => {
             <div className="text-xs text-slate-600">
               <span className="font-black">Latest allocation:</span>{' '}
               <span className="font-bold">
-                {allocRun.status === 'running' ? 'Running' : allocRun.status === 'completed' ? 'Completed' : 'Failed'}
+                {({ running: 'Running', completed: 'Completed', failed: 'Failed', cancelled: 'Cancelled', interrupted: 'Interrupted' } as Record<string, string>)[
+                  allocRun.status
+                ] ?? allocRun.status}
               </span>
               {typeof allocRun.processed === 'number' && typeof allocRun.total === 'number' ? (
                 <>
@@ -1576,16 +1666,61 @@ const TaskDashboardView: React.FC = () => {
                   • <span className="font-bold text-amber-800">Skipped {allocRun.skipped}</span>
                 </>
               ) : null}
+              {Number(allocRun.skippedDoNotCall) > 0 ? (
+                <>
+                  {' '}
+                  • <span className="font-bold text-amber-800">Do-not-call {allocRun.skippedDoNotCall}</span>
+                </>
+              ) : null}
+              {allocRun.filters?.strategy ? (
+                <>
+                  {' '}
+                  •{' '}
+                  <span className="font-bold">
+                    {strategies.find((st) => st.name === allocRun.filters.strategy)?.label || allocRun.filters.strategy}
+                  </span>
+                </>
+              ) : null}
             </div>
           ) : (
             <div className="text-xs text-slate-500">Latest allocation: none</div>
           )}
 
+          {isAllocResumable && (
+            <div className="mt-2 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+              <div className="text-xs text-amber-900">
+                {allocRun.status === 'interrupted'
+                  ? 'The last allocation stopped before finishing (server restart).'
+                  : 'The last allocation was cancelled.'}{' '}
+                {Math.max(0, Number(allocRun.total ?? 0) - Number(allocRun.processed ?? 0))} tasks were not processed; resuming
+                places them with the agents on shift now.
+              </div>
+              <Button variant="secondary" size="sm" onClick={handleResumeAllocation} disabled={isLoading}>
+                <Play size={14} />
+                Resume
+              </Button>
+            </div>
+          )}
+
           {isAllocRunning && (
             <div className="mt-2 rounded-xl border border-green-200 bg-green-50 px-4 py-3">
               <div className="flex items-center justify-between gap-3">
-                <div className="text-sm font-black text-green-900">Allocation is running…</div>
-                <div className="text-xs font-black text-green-900">{allocPct}%</div>
+                <div className="text-sm font-black text-green-900">
+                  {allocCancelPending ? 'Cancelling allocation…' : 'Allocation is running…'}
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="text-xs font-black text-green-900">{allocPct}%</div>
+                  {allocRun?._id !== 'optimistic' && !allocCancelPending && (
+                    <button
+                      type="button"
+                      onClick={handleCancelAllocation}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white border border-green-300 text-green-900 text-xs font-black hover:bg-green-100"
+                    >
+                      <StopCircle size={14} />
+                      Cancel
+                    </button>
+                  )}
+                </div>
               </div>
               <div className="mt-2 h-2 w-full rounded-full bg-green-100 overflow-hidden">
                 <div
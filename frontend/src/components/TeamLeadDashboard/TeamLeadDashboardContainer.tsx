@@ -1,16 +1,29 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Sliders, List, LogOut, User as UserIcon, PhoneForwarded, Leaf } from 'lucide-react';
+import { Sliders, List, LogOut, User as UserIcon, PhoneForwarded, PhoneIncoming, Leaf, Headphones, MonitorPlay, CalendarDays } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { inboundAPI } from '../../services/api';
 import HeaderRoleSwitcher from '../shared/HeaderRoleSwitcher';
 import SamplingControlView from './SamplingControlView';
 import TaskDashboardView from './TaskDashboardView';
 import CallbackRequestView from './CallbackRequestView';
+import InboundQueueView from './InboundQueueView';
+import AgentStatusView from './AgentStatusView';
+import RosterView from './RosterView';
 
 const TeamLeadDashboardContainer: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'sampling' | 'tasks' | 'callbacks'>('sampling');
+  const [activeTab, setActiveTab] = useState<'sampling' | 'tasks' | 'callbacks' | 'inbound' | 'agents' | 'roster'>('sampling');
   const { user, logout, activeRole } = useAuth();
   const navigate = useNavigate();
+  const [slaBreachedCount, setSlaBreachedCount] = useState(0);
+
+  // Inbound SLA breaches surface on the tab so they are visible from any view
+  useEffect(() => {
+    inboundAPI
+      .getTeamQueue({ limit: 1 })
+      .then((res) => setSlaBreachedCount(res.data?.stats?.slaBreached || 0))
+      .catch(() => setSlaBreachedCount(0));
+  }, [activeTab]);
 
   const handleLogout = async () => {
     try {
@@ -25,6 +38,9 @@ const TeamLeadDashboardContainer: React.FC = () => {
     { id: 'sampling' as const, label: 'Sampling Control', icon: Sliders },
     { id: 'tasks' as const, label: 'Task Allocation', icon: List },
     { id: 'callbacks' as const, label: 'Request Callbacks', icon: PhoneForwarded },
+    { id: 'inbound' as const, label: 'Inbound Queries', icon: PhoneIncoming },
+    { id: 'agents' as const, label: 'Agent Status', icon: Headphones },
+    { id: 'roster' as const, label: 'Roster', icon: CalendarDays },
   ];
 
   return (
@@ -44,6 +60,14 @@ const TeamLeadDashboardContainer: React.FC = () => {
             </div>
 
             <div className="flex items-center gap-4">
+              <button
+                onClick={() => navigate('/workspace/ems/wallboard')}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-300 hover:text-white hover:bg-slate-800 rounded-xl transition-all"
+                title="Full-screen wallboard for the floor"
+              >
+                <MonitorPlay size={18} />
+                <span>Wallboard</span>
+              </button>
               {user && (
                 <div className="flex items-center gap-2 text-sm text-slate-300">
                   <UserIcon size={16} className="text-slate-400" />
@@ -76,6 +100,14 @@ const TeamLeadDashboardContainer: React.FC = () => {
                 >
                   <Icon size={18} />
                   {tab.label}
+                  {tab.id === 'inbound' && slaBreachedCount > 0 && (
+                    <span
+                      className="ml-1 px-1.5 py-0.5 rounded-md bg-red-500 text-white text-[10px] font-black"
+                      title="Inbound queries with breached SLA"
+                    >
+                      {slaBreachedCount} SLA breached
+                    </span>
+                  )}
                   {activeTab === tab.id && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-lime-500" />}
                 </button>
               );
@@ -88,6 +120,9 @@ const TeamLeadDashboardContainer: React.FC = () => {
         {activeTab === 'sampling' && <SamplingControlView />}
         {activeTab === 'tasks' && <TaskDashboardView />}
         {activeTab === 'callbacks' && <CallbackRequestView />}
+        {activeTab === 'inbound' && <InboundQueueView />}
+        {activeTab === 'agents' && <AgentStatusView />}
+        {activeTab === 'roster' && <RosterView />}
       </div>
     </div>
   );
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Maximize2, Wifi, WifiOff } from 'lucide-react';
+import { liveAPI, type LiveEvent, type WallboardSnapshot } from '../../services/api';
+
+type AllocationEvent = Extract<LiveEvent, { type: 'allocation.progress' }>;
+type SubmittedEvent = Extract<LiveEvent, { type: 'task.submitted' }>;
+
+const RECENT_LIMIT = 8;
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Full-screen floor wallboard: backlog per language, connected % today and calls per agent in
+ * the last hour. Figures are pushed over the live stream; nothing here polls.
+ */
+const Wallboard: React.FC = () => {
+  const navigate = useNavigate();
+  const [snapshot, setSnapshot] = useState<WallboardSnapshot | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [allocation, setAllocation] = useState<AllocationEvent | null>(null);
+  const [recent, setRecent] = useState<SubmittedEvent[]>([]);
+
+  useEffect(() => {
+    const close = liveAPI.subscribe(
+      { wallboard: true },
+      {
+        onWallboard: setSnapshot,
+        onConnectionChange: setConnected,
+        onEvent: (event) => {
+          if (event.type === 'allocation.progress') setAllocation(event);
+          if (event.type === 'task.submitted') setRecent((prev) => [event, ...prev].slice(0, RECENT_LIMIT));
+        },
+      }
+    );
+    return close;
+  }, []);
+
+  const agentNames = new Map((snapshot?.callsPerAgentLastHour || []).map((a) => [a.agentId, a.name]));
+  const maxCalls = Math.max(1, ...(snapshot?.callsPerAgentLastHour || []).map((a) => a.callsLastHour));
+  const backlogTotal = (snapshot?.backlogByLanguage || []).reduce((sum, r) => sum + r.total, 0);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white p-6 lg:p-10 flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <button
+            type="button"
+            onClick={() => navigate('/workspace/ems')}
+            className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800"
+            title="Back to dashboard"
+          >
+            <ArrowLeft size={22} />
+          </button>
+          <div>
+            <span className="text-xs font-black text-lime-400 uppercase tracking-[0.2em]">Kweka Reach</span>
+            <h1 className="text-3xl font-black tracking-tight">Call Centre Wallboard</h1>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <span
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-xl text-sm font-bold ${
+              connected ? 'bg-lime-500/20 text-lime-400' : 'bg-red-500/20 text-red-400'
+            }`}
+          >
+            {connected ? <Wifi size={16} /> : <WifiOff size={16} />}
+            {connected ? 'Live' : 'Reconnecting…'}
+          </span>
+          {snapshot && <span className="text-sm text-slate-400">Updated {formatTime(snapshot.asOf)}</span>}
+          <button
+            type="button"
+            onClick={() => document.documentElement.requestFullscreen?.().catch(() => undefined)}
+            className="p-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800"
+            title="Full screen"
+          >
+            <Maximize2 size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-slate-900 rounded-3xl p-6 border border-slate-800">
+          <p className="text-sm font-black text-slate-400 uppercase tracking-widest">Connected today</p>
+          <p className="text-7xl font-black text-lime-400 tabular-nums">{snapshot ? `${snapshot.today.connectedPct}%` : '–'}</p>
+          <p className="text-slate-400 mt-1">
+            {snapshot ? `${snapshot.today.connected} of ${snapshot.today.attempts} calls` : ''}
+          </p>
+        </div>
+        <div className="bg-slate-900 rounded-3xl p-6 border border-slate-800">
+          <p className="text-sm font-black text-slate-400 uppercase tracking-widest">Open backlog</p>
+          <p className="text-7xl font-black tabular-nums">{snapshot ? backlogTotal : '–'}</p>
+          <p className="text-slate-400 mt-1">unassigned, queued and in progress</p>
+        </div>
+        <div className="bg-slate-900 rounded-3xl p-6 border border-slate-800">
+          <p className="text-sm font-black text-slate-400 uppercase tracking-widest">Allocation</p>
+          {allocation ? (
+            <>
+              <p className="text-4xl font-black tabular-nums mt-2">
+                {allocation.processed}/{allocation.total}
+              </p>
+              <div className="h-3 bg-slate-800 rounded-full mt-3 overflow-hidden">
+                <div
+                  className={`h-full ${allocation.status === 'failed' ? 'bg-red-500' : 'bg-lime-500'}`}
+                  style={{ width: `${allocation.total ? Math.round((allocation.processed / allocation.total) * 100) : 0}%` }}
+                />
+              </div>
+              <p className="text-slate-400 mt-2 capitalize">
+                {allocation.kind} {allocation.status} • {allocation.allocated} allocated
+                {allocation.skipped > 0 && `, ${allocation.skipped} skipped`}
+              </p>
+            </>
+          ) : (
+            <p className="text-slate-500 mt-4">No allocation running</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 flex-1">
+        <div className="bg-slate-900 rounded-3xl p-6 border border-slate-800">
+          <p className="text-sm font-black text-slate-400 uppercase tracking-widest mb-4">Backlog by language</p>
+          <table className="w-full text-lg">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 uppercase tracking-wide">
+                <th className="pb-2">Language</th>
+                <th className="pb-2 text-right">Unassigned</th>
+                <th className="pb-2 text-right">Queued</th>
+                <th className="pb-2 text-right">In progress</th>
+                <th className="pb-2 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {(snapshot?.backlogByLanguage || []).map((r) => (
+                <tr key={r.language}>
+                  <td className="py-2 font-bold">{r.language}</td>
+                  <td className="py-2 text-right tabular-nums text-amber-300">{r.unassigned}</td>
+                  <td className="py-2 text-right tabular-nums">{r.queued}</td>
+                  <td className="py-2 text-right tabular-nums text-sky-300">{r.inProgress}</td>
+                  <td className="py-2 text-right tabular-nums font-black">{r.total}</td>
+                </tr>
+              ))}
+              {snapshot && snapshot.backlogByLanguage.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="py-6 text-center text-slate-500">
+                    Backlog is clear
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-slate-900 rounded-3xl p-6 border border-slate-800 flex flex-col gap-6">
+          <div>
+            <p className="text-sm font-black text-slate-400 uppercase tracking-widest mb-4">Calls per agent (last hour)</p>
+            <div className="space-y-2">
+              {(snapshot?.callsPerAgentLastHour || []).map((a) => (
+                <div key={a.agentId} className="flex items-center gap-3">
+                  <span className="w-40 truncate font-bold">{a.name}</span>
+                  <div className="flex-1 h-5 bg-slate-800 rounded-lg overflow-hidden">
+                    <div className="h-full bg-lime-500" style={{ width: `${(a.callsLastHour / maxCalls) * 100}%` }} />
+                  </div>
+                  <span className="w-20 text-right tabular-nums">
+                    {a.callsLastHour}
+                    <span className="text-slate-500 text-sm"> ({a.connectedLastHour})</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-2">Calls (connected)</p>
+          </div>
+
+          <div>
+            <p className="text-sm font-black text-slate-400 uppercase tracking-widest mb-2">Latest submissions</p>
+            {recent.length === 0 ? (
+              <p className="text-slate-500">Waiting for calls…</p>
+            ) : (
+              <ul className="space-y-1">
+                {recent.map((e) => (
+                  <li key={`${e.taskId}-${e.at}`} className="flex justify-between text-sm">
+                    <span>
+                      <span className="font-bold">{(e.agentId && agentNames.get(e.agentId)) || 'Agent'}</span>
+                      <span className="text-slate-400"> • {e.callStatus}</span>
+                    </span>
+                    <span className="text-slate-500 tabular-nums">{formatTime(e.at)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Wallboard;
@@ -15,6 +15,8 @@ interface User {
   role: UserRole;
   roles?: UserRole[]; // Multiple roles support
   languageCapabilities: string[];
+  languageProficiency?: Record<string, number>;
+  assignedTerritories?: string[];
   teamLeadId?: string;
   teamLead?: {
     _id: string;
@@ -51,6 +53,8 @@ const UserForm: React.FC<UserFormProps> = ({ isOpen, onClose, onSuccess, user, t
     role: 'cc_agent' as UserRole, // Primary role (first selected)
     roles: ['cc_agent'] as UserRole[], // All assigned roles
     languageCapabilities: [] as string[],
+    languageProficiency: {} as Record<string, number>,
+    territories: '',
     teamLeadId: '',
     isActive: true,
   });
@@ -70,6 +74,8 @@ const UserForm: React.FC<UserFormProps> = ({ isOpen, onClose, onSuccess, user, t
           role: user.role || 'cc_agent',
           roles: userRoles,
           languageCapabilities: user.languageCapabilities || [],
+          languageProficiency: user.languageProficiency || {},
+          territories: (user.assignedTerritories || []).join(', '),
           teamLeadId: user.teamLeadId?.toString() || user.teamLead?._id || '',
           isActive: user.isActive !== undefined ? user.isActive : true,
         });
@@ -82,6 +88,8 @@ const UserForm: React.FC<UserFormProps> = ({ isOpen, onClose, onSuccess, user, t
           role: 'cc_agent',
           roles: ['cc_agent'],
           languageCapabilities: [],
+          languageProficiency: {},
+          territories: '',
           teamLeadId: '',
           isActive: true,
         });
@@ -173,6 +181,19 @@ const UserForm: React.FC<UserFormProps> = ({ isOpen, onClose, onSuccess, user, t
         isActive: formData.isActive,
       };
 
+      if (formData.roles.includes('cc_agent')) {
+        // Only keep scores for languages the agent still speaks
+        submitData.languageProficiency = Object.fromEntries(
+          formData.languageCapabilities
+            .filter((lang) => formData.languageProficiency[lang])
+            .map((lang) => [lang, formData.languageProficiency[lang]])
+        );
+        submitData.assignedTerritories = formData.territories
+          .split(',')
+          .map((t) => t.trim())
+          .filter(Boolean);
+      }
+
       // Only include password for new users
       if (!isEditMode) {
         submitData.password = formData.password;
@@ -384,6 +405,58 @@ const UserForm: React.FC<UserFormProps> = ({ isOpen, onClose, onSuccess, user, t
             />
           )}
 
+          {/* Allocation profile (only for CC Agent): used by proficiency / territory allocation strategies */}
+          {showLanguageField && formData.languageCapabilities.length > 0 && (
+            <div>
+              <label className="block text-sm font-bold text-slate-700 uppercase tracking-wide mb-2">
+                Language Proficiency
+                <span className="text-xs font-normal text-slate-500 ml-2">(1 = basic, 5 = native)</span>
+              </label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {formData.languageCapabilities.map((lang) => (
+                  <div key={lang} className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl border border-slate-200">
+                    <span className="text-sm font-medium text-slate-700">{lang}</span>
+                    <select
+                      value={formData.languageProficiency[lang] || 3}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          languageProficiency: { ...formData.languageProficiency, [lang]: Number(e.target.value) },
+                        })
+                      }
+                      className="text-sm font-bold text-slate-900 bg-transparent focus:outline-none"
+                      disabled={isSubmitting}
+                    >
+                      {[1, 2, 3, 4, 5].map((score) => (
+                        <option key={score} value={score}>
+                          {score}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {showLanguageField && (
+            <div>
+              <label className="block text-sm font-bold text-slate-700 uppercase tracking-wide mb-2">
+                Territories
+                <span className="text-xs font-normal text-slate-500 ml-2">(comma separated, optional)</span>
+              </label>
+              <input
+                type="text"
+                value={formData.territories}
+                onChange={(e) => setFormData({ ...formData, territories: e.target.value })}
+                className="w-full min-h-12 px-4 py-3 border border-slate-200 rounded-xl bg-white text-sm font-medium text-slate-900 focus:outline-none focus:ring-2 focus:ring-lime-400 focus:border-lime-400"
+                placeholder="e.g. Nashik, Pune"
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-slate-500 mt-1">Territory-affinity allocation prefers this agent for farmers in these territories.</p>
+            </div>
+          )}
+
           {/* Is Active */}
           <div className="flex items-center gap-3">
             <input
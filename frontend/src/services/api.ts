@@ -152,6 +152,473 @@ export const authAPI = {
 };
 
 // Tasks API
+export type RetryableCallStatus = 'No Answer' | 'Disconnected' | 'Incoming N/A';
+
+export interface RetryPolicy {
+  enabled: boolean;
+  maxAttempts: number;
+  gapHoursByStatus: Record<RetryableCallStatus, number>;
+  callingWindows: Array<{ startHour: number; endHour: number }>;
+  timezone: string;
+}
+
+export interface StratificationSettings {
+  mode: 'uniform' | 'stratified';
+  strataBy: 'location' | 'preferredLanguage' | 'territory';
+  allocation: 'proportional' | 'equal';
+  minPerStratum: number;
+}
+
+export interface CoverageSettings {
+  enabled: boolean;
+  officerLevel: 'fda' | 'tm';
+  minValidationsPerOfficer: number;
+  period: 'month' | 'week';
+}
+
+export interface RiskWeightingSettings {
+  enabled: boolean;
+  officerLevel: 'fda' | 'tm';
+  lookbackWeeks: number;
+  minConnectedCalls: number;
+  poorValidityPct: number;
+  poorIdentityWrongPct: number;
+  goodEmsScore: number;
+  increaseFactor: number;
+  decreaseFactor: number;
+  minPercentage: number;
+  maxPercentage: number;
+}
+
+export interface OfficerCoverage {
+  officerKey: string;
+  officerName: string;
+  activities: number;
+  completed: number;
+  pending: number;
+  unsuccessful: number;
+  target: number;
+  shortfall: number;
+  toTopUp: number;
+}
+
+export interface CoverageReport {
+  settings: CoverageSettings;
+  period: { start: string; end: string; label: string };
+  totals: { officers: number; belowTarget: number; shortfall: number; pending: number };
+  officers: OfficerCoverage[];
+}
+
+export interface SamplingSimulationCandidate {
+  defaultPercentage?: number;
+  activityTypePercentages?: Record<string, number>;
+  farmerCoolingDays?: number;
+  activityCoolingDays?: number;
+  eligibleActivityTypes?: string[];
+  stratification?: Partial<StratificationSettings>;
+}
+
+export interface SamplingSimulationResult {
+  settings: Required<Omit<SamplingSimulationCandidate, 'stratification'>> & { stratification: StratificationSettings };
+  activities: {
+    considered: number;
+    sampled: number;
+    skippedIneligibleType: number;
+    skippedActivityCooling: number;
+    governedByPolicy: number;
+    riskAdjusted: number;
+  };
+  farmers: { total: number; eligible: number; blockedByCooling: number; blockedByDoNotCall: number };
+  projectedTasks: number;
+  byLanguage: Array<{ language: string; tasks: number; agents: number; dailyCapacity: number; daysToClear: number | null }>;
+  byState: Array<{ state: string; tasks: number }>;
+  workload: {
+    agents: number;
+    onShiftToday: number;
+    dailyCapacity: number;
+    openTasks: number;
+    projectedTasks: number;
+    daysToClear: number | null;
+  };
+}
+
+export interface SamplingSimulation {
+  activeActivities: number;
+  truncated: boolean;
+  forceRun: boolean;
+  current: SamplingSimulationResult;
+  candidate: SamplingSimulationResult;
+}
+
+export interface SamplingVerification {
+  activityId: string;
+  verifiable: boolean;
+  reason?: string;
+  matches: boolean;
+  algorithm: string;
+  seed: string | null;
+  samplingRunId: string | null;
+  frameSize: number;
+  sampleSize: number;
+  replayedCount: number;
+  missingTasks: string[];
+  unexpectedTasks: string[];
+  outsideActivity: string[];
+}
+
+export interface SamplingPolicyScope {
+  buNames: string[];
+  zoneNames: string[];
+  states: string[];
+  activityTypes: string[];
+}
+
+export interface SamplingPolicy {
+  _id: string;
+  name: string;
+  description?: string;
+  scope: SamplingPolicyScope;
+  priority: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  isActive: boolean;
+  defaultPercentage: number;
+  activityTypePercentages: Record<string, number>;
+  version: number;
+  updatedAt?: string;
+}
+
+export type SamplingPolicyInput = Partial<
+  Omit<SamplingPolicy, '_id' | 'version' | 'updatedAt' | 'scope'> & { scope: Partial<SamplingPolicyScope> }
+>;
+
+export type DoNotCallKind = 'do_not_call' | 'no_consent';
+export type DoNotCallSource = 'agent' | 'import' | 'ffa';
+
+export interface DoNotCallEntry {
+  _id: string;
+  farmerId: { _id: string; name: string; mobileNumber: string; preferredLanguage?: string; territory?: string } | null;
+  mobileNumber: string;
+  kind: DoNotCallKind;
+  reason: string;
+  source: DoNotCallSource;
+  expiresAt: string | null;
+  recordedByUserId?: { _id: string; name: string; email: string } | null;
+  revokedAt: string | null;
+  updatedAt: string;
+}
+
+export interface DoNotCallCounts {
+  total: number;
+  byKind: Record<DoNotCallKind, number>;
+  bySource: Record<DoNotCallSource, number>;
+}
+
+export interface DoNotCallFilters {
+  kind?: DoNotCallKind;
+  source?: DoNotCallSource;
+  search?: string;
+  includeInactive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export type ReconciliationReason = 'farmers_removed' | 'farmers_added' | 'officer_changed' | 'date_changed';
+export type ReconciliationStatus = 'open' | 'resolved' | 'dismissed';
+
+export interface FieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+  added?: string[];
+  removed?: string[];
+}
+
+export interface ChangeHistoryEntry {
+  _id: string;
+  entityType: 'activity' | 'farmer';
+  entityId: string;
+  entityKey: string;
+  source: 'ffa_sync' | 'ffa_webhook' | 'excel_import';
+  dataBatchId: string | null;
+  changes: FieldChange[];
+  createdAt: string;
+}
+
+export interface ReconciliationItem {
+  _id: string;
+  activityId: string;
+  activityKey: string;
+  status: ReconciliationStatus;
+  reasons: ReconciliationReason[];
+  firstDetectedAt: string;
+  lastDetectedAt: string;
+  actions: Array<{
+    action: 'cancel_orphaned_tasks' | 'resample' | 'dismiss';
+    at: string;
+    byUserId?: string | null;
+    tasksCancelled?: number;
+    tasksKept?: number;
+    tasksCreated?: number;
+    note?: string | null;
+  }>;
+  activity: {
+    _id: string;
+    activityId: string;
+    type: string;
+    date: string;
+    officerId: string;
+    officerName: string;
+    territoryName?: string;
+    lifecycleStatus?: string;
+    farmerCount: number;
+  } | null;
+  taskCount: number;
+  orphanedTaskCount: number;
+  cancellableTaskCount: number;
+}
+
+export interface ReconciliationDetail extends ReconciliationItem {
+  changes: ChangeHistoryEntry[];
+  orphanedTasks: Array<{
+    taskId: string;
+    farmer: { _id: string; name: string; mobileNumber: string } | null;
+    status: string;
+    assignedAgentId: string | null;
+    cancellable: boolean;
+  }>;
+}
+
+export type IngestRuleSeverity = 'reject' | 'quarantine' | 'warn' | 'off';
+export type QuarantineStatus = 'pending' | 'released' | 'discarded';
+export type IngestSource = 'ffa_sync' | 'ffa_webhook' | 'excel_import';
+
+export interface IngestRule {
+  code: string;
+  description: string;
+  defaultSeverity: IngestRuleSeverity;
+  severity: IngestRuleSeverity;
+  structural: boolean;
+  allowedSeverities: IngestRuleSeverity[];
+  updatedAt: string | null;
+}
+
+export interface IngestIssue {
+  rule: string;
+  severity: Exclude<IngestRuleSeverity, 'off'>;
+  message: string;
+  farmerIndex?: number | null;
+}
+
+/** Activity payload in the FFA shape (Excel rows are converted to it) */
+export interface IngestActivityPayload {
+  activityId: string;
+  type: string;
+  date: string;
+  officerId: string;
+  officerName: string;
+  location: string;
+  territory: string;
+  state?: string;
+  crops?: string[];
+  products?: string[];
+  farmers: Array<{ farmerId?: string; name: string; mobileNumber: string; location: string; [key: string]: unknown }>;
+  [key: string]: unknown;
+}
+
+export interface QuarantinedRecord {
+  _id: string;
+  activityId: string;
+  source: IngestSource;
+  dataBatchId: string;
+  rowRef?: string | null;
+  payload: IngestActivityPayload;
+  issues: IngestIssue[];
+  status: QuarantineStatus;
+  occurrences: number;
+  lastReceivedAt: string;
+  resolvedAt?: string | null;
+  resolutionNote?: string | null;
+}
+
+export interface IngestBatchQuality {
+  dataBatchId: string;
+  source: IngestSource;
+  received: number;
+  accepted: number;
+  acceptedWithWarnings: number;
+  quarantined: number;
+  rejected: number;
+  farmersRejected: number;
+  released: number;
+  discarded: number;
+  byRule: Record<string, number>;
+  pendingReview: number;
+  updatedAt: string;
+}
+
+export interface DuplicateFarmer {
+  _id: string;
+  name: string;
+  mobileNumber: string;
+  location: string;
+  territory: string;
+  activityCount: number;
+  taskCount: number;
+}
+
+export interface DuplicateCandidate {
+  score: number;
+  nameScore: number;
+  locationScore: number;
+  mobileDistance: number;
+  reasons: string[];
+  suggestedSurvivorId: string;
+  farmers: [DuplicateFarmer, DuplicateFarmer];
+}
+
+export type FarmerMergeStatus = 'applied' | 'undone';
+
+export interface FarmerMerge {
+  _id: string;
+  survivorId: string;
+  mergedId: string;
+  survivor: { name: string; mobileNumber: string; location: string; territory: string };
+  merged: { name: string; mobileNumber: string; location: string; territory: string };
+  status: FarmerMergeStatus;
+  note?: string | null;
+  activities: Array<{ activityId: string; hadSurvivor: boolean }>;
+  tasksRepointed: string[];
+  inboundQueriesRepointed: string[];
+  singletons: Array<{ collectionName: 'CoolingPeriod' | 'DoNotCall'; action: 'repointed' | 'removed'; docId: string }>;
+  undoneAt?: string | null;
+  undoConflicts: string[];
+  createdAt: string;
+}
+
+export interface FFAClientHealth {
+  circuit: {
+    state: 'closed' | 'open' | 'half_open';
+    consecutiveFailures: number;
+    threshold: number;
+    cooldownMinutes: number;
+    openedAt: string | null;
+    openUntil: string | null;
+  };
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  lastFetch: {
+    at: string;
+    ok: boolean;
+    durationMs: number;
+    pages: number;
+    activities: number;
+    requests: number;
+    retries: number;
+    rateLimited: number;
+    shortPages: number;
+    duplicatesDropped: number;
+    error: string | null;
+  } | null;
+  config: { pageSize: number; timeoutMs: number; maxRetries: number; retryBaseMs: number; retryMaxMs: number };
+}
+
+export interface SamplingPolicyVersion {
+  _id: string;
+  version: number;
+  snapshot: Omit<SamplingPolicy, '_id' | 'version' | 'updatedAt'>;
+  changedByUserId?: { _id: string; name: string; email: string } | null;
+  createdAt: string;
+}
+
+export type AutoRetryState = 'scheduled' | 'created' | 'skipped' | 'exhausted';
+
+export interface AutoRetryRecord {
+  _id: string;
+  status: string;
+  outcome?: string;
+  callbackNumber: number;
+  callLog?: { callStatus?: string; timestamp?: string };
+  farmerId?: { _id: string; name: string; mobileNumber: string; preferredLanguage?: string } | null;
+  activityId?: { _id: string; type: string; territoryName?: string } | null;
+  assignedAgentId?: { _id: string; name: string; email: string } | null;
+  autoRetry: {
+    state: AutoRetryState;
+    nextRetryAt?: string | null;
+    callbackTaskId?: string | null;
+    agentId?: { _id: string; name: string; email: string } | null;
+    note?: string;
+    updatedAt?: string;
+  };
+}
+
+export type TelephonyCallStatus = 'dialing' | 'ringing' | 'answered' | 'ended' | 'failed';
+
+export interface TelephonyCall {
+  _id: string;
+  taskId: string;
+  provider: string;
+  toNumber: string;
+  status: TelephonyCallStatus;
+  hangupCause: string | null;
+  dialedAt: string;
+  ringingAt: string | null;
+  answeredAt: string | null;
+  endedAt: string | null;
+  durationSeconds: number;
+  dtmf: Array<{ digits: string; direction: 'inbound' | 'outbound'; at: string }>;
+  /** Call status/duration the submission will use; null while the call is live */
+  outcome: { callStatus: string; callDurationSeconds: number } | null;
+}
+
+export type AgentAvailability = 'offline' | 'available' | 'on_call' | 'wrap_up' | 'break';
+export type DialerMode = 'manual' | 'progressive';
+
+export interface AgentPresence {
+  state: AgentAvailability;
+  stateSince: string | null;
+  mode: DialerMode;
+  breakReason: string | null;
+  currentTaskId: string | null;
+  wrapUpEndsAt: string | null;
+  lastSeenAt: string | null;
+}
+
+export interface DialerSettings {
+  wrapUpSeconds: number;
+  breakReasons: string[];
+}
+
+export interface TeamAgentPresence extends AgentPresence {
+  agentId: string;
+  name: string;
+  email: string;
+  employeeId: string | null;
+  currentFarmer: { name: string; mobileNumber: string } | null;
+}
+
+export interface CallRecordingInfo {
+  storageProvider: string;
+  storageKey: string;
+  originalFileName?: string;
+  contentType: string;
+  sizeBytes: number;
+  checksumSha256: string;
+  durationSeconds?: number | null;
+  uploadedAt: string;
+  uploadedBy?: string | null;
+}
+
+export type AllocationStrategyName = 'capacity' | 'round_robin' | 'least_loaded' | 'proficiency' | 'territory';
+
+export interface AllocationStrategyInfo {
+  name: AllocationStrategyName;
+  label: string;
+  description: string;
+  isDefault: boolean;
+}
+
 export const tasksAPI = {
   fetchActiveTask: async (abortSignal?: AbortSignal) => {
     const response = await apiRequest<{ success: boolean; data: { taskId?: string; task?: null; farmer?: any; activity?: any; status?: string; scheduledDate?: string; message?: string } }>('/tasks/active', {}, abortSignal);
@@ -169,14 +636,31 @@ export const tasksAPI = {
   },
 
   submitInteraction: async (taskId: string, log: any) => {
-    return apiRequest(`/tasks/${taskId}/submit`, {
+    return apiRequest<{ success: boolean; data: { task: any; presence: AgentPresence | null } }>(`/tasks/${taskId}/submit`, {
       method: 'POST',
       body: JSON.stringify(log),
     });
   },
 
-  markInProgress: async (taskId: string) => {
-    return apiRequest(`/tasks/${taskId}/mark-in-progress`, { method: 'POST' });
+  getProgressiveNext: async () => {
+    return apiRequest<{
+      success: boolean;
+      data: {
+        task: { taskId: string; farmer: any; activity: any; status: string; scheduledDate: string } | null;
+        reason: 'wrap_up' | 'break' | 'queue_empty' | null;
+        presence: AgentPresence;
+      };
+    }>('/tasks/progressive/next', { method: 'POST' });
+  },
+
+  markInProgress: async (taskId: string, options?: { dial?: boolean }) => {
+    return apiRequest<{
+      success: boolean;
+      data: { taskId: string; status: string; callStartedAt: string | null; call: TelephonyCall | null };
+    }>(`/tasks/${taskId}/mark-in-progress`, {
+      method: 'POST',
+      ...(options?.dial && { body: JSON.stringify({ dial: true }) }),
+    });
   },
 
   getOwnHistory: async (filters?: { status?: string; search?: string; dateFrom?: string; dateTo?: string; page?: number; limit?: number }) => {
@@ -409,6 +893,28 @@ export const tasksAPI = {
     return apiRequest(`/tasks/${taskId}/callback-history`);
   },
 
+  getAutoRetries: async (filters?: { state?: AutoRetryState | 'all'; page?: number; limit?: number }) => {
+    const params = new URLSearchParams();
+    if (filters?.state) params.append('state', filters.state);
+    if (filters?.page) params.append('page', String(filters.page));
+    if (filters?.limit) params.append('limit', String(filters.limit));
+    const query = params.toString();
+    return apiRequest<{
+      success: boolean;
+      data: { tasks: AutoRetryRecord[]; pagination: { page: number; limit: number; total: number; pages: number } };
+    }>(`/tasks/callback/auto-retries${query ? `?${query}` : ''}`);
+  },
+
+  overrideAutoRetry: async (
+    taskId: string,
+    payload: { action: 'skip' | 'reschedule' | 'run_now'; nextRetryAt?: string; agentId?: string; note?: string }
+  ) => {
+    return apiRequest<{ success: boolean; data: { autoRetry: AutoRetryRecord['autoRetry'] } }>(`/tasks/${taskId}/auto-retry`, {
+      method: 'PUT',
+      body: JSON.stringify(payload),
+    });
+  },
+
   getDashboard: async (filters?: { dateFrom?: string; dateTo?: string; bu?: string; state?: string }) => {
     const params = new URLSearchParams();
     if (filters?.dateFrom) params.append('dateFrom', filters.dateFrom);
@@ -459,7 +965,18 @@ export const tasksAPI = {
     const query = params.toString();
     return apiRequest(`/tasks/dashboard/by-language?${query}`);
   },
-  allocate: async (payload: { language: string; count?: number; dateFrom?: string; dateTo?: string; bu?: string; state?: string }) => {
+  getAllocationStrategies: async () => {
+    return apiRequest<{ success: boolean; data: { strategies: AllocationStrategyInfo[] } }>('/tasks/allocation-strategies');
+  },
+  allocate: async (payload: {
+    language: string;
+    count?: number;
+    dateFrom?: string;
+    dateTo?: string;
+    bu?: string;
+    state?: string;
+    strategy?: AllocationStrategyName;
+  }) => {
     // Allocation can update many tasks; allow longer timeout
     return apiRequest(
       '/tasks/allocate',
@@ -471,13 +988,13 @@ export const tasksAPI = {
       300000
     );
   },
-  reallocate: async (agentId: string) => {
+  reallocate: async (agentId: string, strategy?: AllocationStrategyName) => {
     // Reallocation can update many tasks; allow longer timeout
     return apiRequest(
       '/tasks/reallocate',
       {
         method: 'POST',
-        body: JSON.stringify({ agentId }),
+        body: JSON.stringify({ agentId, strategy }),
       },
       undefined,
       300000
@@ -486,6 +1003,12 @@ export const tasksAPI = {
   getLatestAllocationStatus: async () => {
     return apiRequest('/tasks/allocate-status/latest');
   },
+  cancelAllocationRun: async (runId: string) => {
+    return apiRequest(`/tasks/allocate-runs/${runId}/cancel`, { method: 'POST' });
+  },
+  resumeAllocationRun: async (runId: string) => {
+    return apiRequest(`/tasks/allocate-runs/${runId}/resume`, { method: 'POST' }, undefined, 300000);
+  },
 
   reassignTask: async (taskId: string, agentId: string) => {
     return apiRequest(`/tasks/${taskId}/reassign`, {
@@ -498,6 +1021,54 @@ export const tasksAPI = {
     return apiRequest(`/tasks/${taskId}`);
   },
 
+  /** Attach a recording to an already-submitted call log */
+  uploadRecording: async (taskId: string, file: File, durationSeconds?: number | null) => {
+    const token = getAuthToken();
+    const activeRole = getActiveRole();
+
+    const formData = new FormData();
+    formData.append('recording', file);
+    if (durationSeconds != null && Number.isFinite(durationSeconds)) {
+      formData.append('durationSeconds', String(Math.round(durationSeconds)));
+    }
+
+    const res = await fetch(`${API_BASE_URL}/tasks/${taskId}/recording`, {
+      method: 'POST',
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...(activeRole && { 'X-Active-Role': activeRole }),
+      },
+      body: formData,
+    });
+
+    const json = await res.json().catch(() => null);
+    if (!res.ok) {
+      const msg = json?.error?.message || json?.message || `Upload failed (${res.status})`;
+      throw new Error(msg);
+    }
+    return json as { success: boolean; data: { recording: CallRecordingInfo } };
+  },
+
+  /**
+   * Fetch the recording with auth headers and return an object URL for an <audio> element.
+   * Caller must revoke it with URL.revokeObjectURL when done.
+   */
+  getRecordingObjectUrl: async (taskId: string) => {
+    const res = await fetch(`${API_BASE_URL}/tasks/${taskId}/recording`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!res.ok) {
+      const json = await res.json().catch(() => null);
+      const msg = json?.error?.message || json?.message || `Failed to load recording (${res.status})`;
+      throw new Error(msg);
+    }
+
+    const blob = await res.blob();
+    return window.URL.createObjectURL(blob);
+  },
+
   updateTaskStatus: async (taskId: string, status: string, notes?: string) => {
     return apiRequest(`/tasks/${taskId}/status`, {
       method: 'PUT',
@@ -520,6 +1091,415 @@ export const tasksAPI = {
   },
 };
 
+// Telephony (click-to-dial) API
+export const telephonyAPI = {
+  getConfig: async () => {
+    return apiRequest<{ success: boolean; data: { enabled: boolean; provider: string | null } }>('/telephony/config');
+  },
+
+  getCall: async (callId: string) => {
+    return apiRequest<{ success: boolean; data: { call: TelephonyCall } }>(`/telephony/calls/${callId}`);
+  },
+
+  hangup: async (callId: string) => {
+    return apiRequest<{ success: boolean; data: { call: TelephonyCall } }>(`/telephony/calls/${callId}/hangup`, {
+      method: 'POST',
+    });
+  },
+
+  sendDtmf: async (callId: string, digits: string) => {
+    return apiRequest<{ success: boolean; data: { call: TelephonyCall } }>(`/telephony/calls/${callId}/dtmf`, {
+      method: 'POST',
+      body: JSON.stringify({ digits }),
+    });
+  },
+};
+
+// Agent availability / progressive dialer API
+export const presenceAPI = {
+  getMe: async () => {
+    return apiRequest<{ success: boolean; data: { presence: AgentPresence; settings: DialerSettings } }>('/presence/me');
+  },
+
+  heartbeat: async () => {
+    return apiRequest<{ success: boolean; data: { presence: AgentPresence } }>('/presence/me/heartbeat', {
+      method: 'POST',
+    });
+  },
+
+  setAvailability: async (state: 'available' | 'break', breakReason?: string) => {
+    return apiRequest<{ success: boolean; data: { presence: AgentPresence } }>('/presence/me/availability', {
+      method: 'PUT',
+      body: JSON.stringify({ state, breakReason }),
+    });
+  },
+
+  setMode: async (mode: DialerMode) => {
+    return apiRequest<{ success: boolean; data: { presence: AgentPresence } }>('/presence/me/mode', {
+      method: 'PUT',
+      body: JSON.stringify({ mode }),
+    });
+  },
+
+  getTeam: async () => {
+    return apiRequest<{
+      success: boolean;
+      data: { agents: TeamAgentPresence[]; summary: Record<AgentAvailability, number>; asOf: string };
+    }>('/presence/team');
+  },
+
+  getSettings: async () => {
+    return apiRequest<{ success: boolean; data: { settings: DialerSettings } }>('/presence/settings');
+  },
+
+  updateSettings: async (settings: Partial<DialerSettings>) => {
+    return apiRequest<{ success: boolean; data: { settings: DialerSettings } }>('/presence/settings', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  },
+};
+
+// Shift rosters, leave and daily capacity (team lead)
+export interface RosterShift {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface RosterDayStatus {
+  date: string;
+  onShift: boolean;
+  offReason: 'leave' | 'off_day' | null;
+  leaveReason: string | null;
+  shift: RosterShift | null;
+}
+
+export interface TeamRosterAgent {
+  agentId: string;
+  name: string;
+  email: string;
+  employeeId: string | null;
+  languageCapabilities: string[];
+  hasRoster: boolean;
+  shifts: RosterShift[];
+  dailyCapacity: number;
+  leaves: Array<{ date: string; reason: string }>;
+  today: (Omit<RosterDayStatus, 'date'> & { dailyCapacity: number; openTasks: number; remainingCapacity: number }) | null;
+  week: RosterDayStatus[];
+}
+
+export interface TeamRoster {
+  days: Array<{ date: string; dayOfWeek: number }>;
+  defaultDailyCapacity: number;
+  agents: TeamRosterAgent[];
+}
+
+export const rosterAPI = {
+  getTeam: async (from?: string) => {
+    const qs = from ? `?from=${encodeURIComponent(from)}` : '';
+    return apiRequest<{ success: boolean; data: TeamRoster }>(`/roster${qs}`);
+  },
+
+  updateAgent: async (agentId: string, updates: { shifts?: RosterShift[]; dailyCapacity?: number }) => {
+    return apiRequest<{ success: boolean; data: { roster: unknown } }>(`/roster/${agentId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  },
+
+  addLeave: async (agentId: string, date: string, reason?: string) => {
+    return apiRequest<{ success: boolean; data: { roster: unknown } }>(`/roster/${agentId}/leaves`, {
+      method: 'POST',
+      body: JSON.stringify({ date, reason }),
+    });
+  },
+
+  removeLeave: async (agentId: string, date: string) => {
+    return apiRequest<{ success: boolean; data: { roster: unknown } }>(`/roster/${agentId}/leaves/${date}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// Live push channel (SSE) for team lead screens
+export type LiveEvent =
+  | { type: 'task.status'; taskId: string; agentId: string | null; from: string | null; to: string; at: string }
+  | { type: 'task.submitted'; taskId: string; agentId: string | null; callStatus: string; status: string; at: string }
+  | {
+      type: 'allocation.progress';
+      runId: string;
+      kind: 'allocate' | 'reallocate';
+      createdByUserId: string | null;
+      status: 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+      total: number;
+      processed: number;
+      allocated: number;
+      skipped: number;
+      at: string;
+    };
+
+export interface WallboardSnapshot {
+  backlogByLanguage: Array<{ language: string; unassigned: number; queued: number; inProgress: number; total: number }>;
+  today: { attempts: number; connected: number; connectedPct: number };
+  callsPerAgentLastHour: Array<{ agentId: string; name: string; callsLastHour: number; connectedLastHour: number }>;
+  asOf: string;
+}
+
+export interface LiveStreamHandlers {
+  onEvent?: (event: LiveEvent) => void;
+  onWallboard?: (snapshot: WallboardSnapshot) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+const LIVE_RECONNECT_MAX_MS = 30000;
+
+export const liveAPI = {
+  getWallboard: async () => {
+    return apiRequest<{ success: boolean; data: WallboardSnapshot }>('/live/wallboard');
+  },
+
+  /**
+   * Open the event stream and keep it open (reconnects with backoff). Uses fetch rather than
+   * EventSource so the bearer token goes in a header, not the URL. Returns a function that closes it.
+   */
+  subscribe: (options: { wallboard?: boolean }, handlers: LiveStreamHandlers): (() => void) => {
+    const controller = new AbortController();
+    let retryMs = 1000;
+
+    const dispatch = (eventName: string, data: string) => {
+      if (!data) return;
+      const payload = JSON.parse(data);
+      if (eventName === 'wallboard') handlers.onWallboard?.(payload);
+      else if (eventName !== 'ready') handlers.onEvent?.(payload as LiveEvent);
+    };
+
+    const connect = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const res = await fetch(`${API_BASE_URL}/live/stream${options.wallboard ? '?wallboard=1' : ''}`, {
+            headers: getAuthHeaders(),
+            signal: controller.signal,
+          });
+          if (!res.ok || !res.body) throw new Error(`Live stream failed with status ${res.status}`);
+          handlers.onConnectionChange?.(true);
+          retryMs = 1000;
+
+          const reader = res.body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = '';
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            let boundary = buffer.indexOf('\n\n');
+            while (boundary !== -1) {
+              const block = buffer.slice(0, boundary);
+              buffer = buffer.slice(boundary + 2);
+              let eventName = 'message';
+              const dataLines: string[] = [];
+              for (const line of block.split('\n')) {
+                if (line.startsWith('event: ')) eventName = line.slice(7);
+                else if (line.startsWith('data: ')) dataLines.push(line.slice(6));
+              }
+              dispatch(eventName, dataLines.join('\n'));
+              boundary = buffer.indexOf('\n\n');
+            }
+          }
+        } catch {
+          // fall through to reconnect
+        }
+        if (controller.signal.aborted) return;
+        handlers.onConnectionChange?.(false);
+        await new Promise((resolve) => setTimeout(resolve, retryMs));
+        retryMs = Math.min(retryMs * 2, LIVE_RECONNECT_MAX_MS);
+      }
+    };
+
+    void connect();
+    return () => controller.abort();
+  },
+};
+
+// Inbound Query Desk API
+export type InboundQueryType = 'Product usage' | 'Complaint' | 'General inquiry';
+export type InboundQueryStatus = 'open' | 'in_progress' | 'resolved' | 'escalated';
+export type InboundEscalationLevel = 'Level 1' | 'Level 2';
+
+export interface InboundQueryFilters {
+  status?: InboundQueryStatus;
+  queryType?: InboundQueryType;
+  escalationLevel?: InboundEscalationLevel;
+  assignedTo?: string;
+  loggedBy?: string;
+  slaBreached?: boolean;
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface InboundSlaPolicy {
+  _id: string;
+  queryType: InboundQueryType;
+  firstResponseHours: number;
+  resolveHours: number;
+  isActive: boolean;
+  updatedAt: string;
+}
+
+export interface InboundQueryRecord {
+  _id: string;
+  farmerId?: { _id: string; name: string; mobileNumber: string; location?: string; preferredLanguage?: string; territory?: string } | null;
+  callerMobile?: string | null;
+  callerName?: string | null;
+  queryType: InboundQueryType;
+  category: string;
+  description: string;
+  status: InboundQueryStatus;
+  escalationLevel: InboundEscalationLevel;
+  loggedBy?: { _id: string; name: string; email: string } | null;
+  assignedTo?: { _id: string; name: string; email: string } | null;
+  escalatedAt?: string | null;
+  escalationReason?: string | null;
+  resolvedAt?: string | null;
+  resolutionNotes?: string | null;
+  firstResponseDueAt?: string | null;
+  resolveDueAt?: string | null;
+  firstResponseAt?: string | null;
+  firstResponseBreachedAt?: string | null;
+  resolveBreachedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InboundQueryListResponse {
+  success: boolean;
+  data: {
+    queries: InboundQueryRecord[];
+    stats: Record<InboundQueryStatus, number> & { slaBreached: number };
+    pagination: { page: number; limit: number; total: number; pages: number };
+  };
+}
+
+const buildInboundParams = (filters?: InboundQueryFilters) => {
+  const params = new URLSearchParams();
+  if (filters?.status) params.append('status', filters.status);
+  if (filters?.queryType) params.append('queryType', filters.queryType);
+  if (filters?.escalationLevel) params.append('escalationLevel', filters.escalationLevel);
+  if (filters?.assignedTo) params.append('assignedTo', filters.assignedTo);
+  if (filters?.loggedBy) params.append('loggedBy', filters.loggedBy);
+  if (filters?.slaBreached) params.append('slaBreached', 'true');
+  if (filters?.search) params.append('search', filters.search);
+  if (filters?.dateFrom) params.append('dateFrom', filters.dateFrom);
+  if (filters?.dateTo) params.append('dateTo', filters.dateTo);
+  if (filters?.page) params.append('page', String(filters.page));
+  if (filters?.limit) params.append('limit', String(filters.limit));
+  return params.toString();
+};
+
+export const inboundAPI = {
+  lookupFarmer: async (mobile: string) => {
+    return apiRequest<{ success: boolean; data: { mobileNumber: string; farmer: any | null; recentQueries: any[] } }>(
+      `/inbound/farmer-lookup?mobile=${encodeURIComponent(mobile)}`
+    );
+  },
+
+  logQuery: async (data: {
+    farmerId?: string;
+    callerMobile?: string;
+    callerName?: string;
+    queryType: InboundQueryType;
+    category: string;
+    description: string;
+    status?: 'open' | 'in_progress' | 'resolved';
+  }) => {
+    return apiRequest<{ success: boolean; data: { query: InboundQueryRecord } }>('/inbound', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  getOwnQueries: async (filters?: InboundQueryFilters) => {
+    const query = buildInboundParams(filters);
+    return apiRequest<InboundQueryListResponse>(`/inbound/own${query ? `?${query}` : ''}`);
+  },
+
+  getTeamQueue: async (filters?: InboundQueryFilters) => {
+    const query = buildInboundParams(filters);
+    return apiRequest<InboundQueryListResponse>(`/inbound${query ? `?${query}` : ''}`);
+  },
+
+  getQuery: async (id: string) => {
+    return apiRequest<{ success: boolean; data: { query: InboundQueryRecord } }>(`/inbound/${id}`);
+  },
+
+  updateQuery: async (
+    id: string,
+    updates: { queryType?: InboundQueryType; category?: string; description?: string; status?: 'open' | 'in_progress'; assignedTo?: string }
+  ) => {
+    return apiRequest<{ success: boolean; data: { query: InboundQueryRecord } }>(`/inbound/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  },
+
+  escalateQuery: async (id: string, data?: { reason?: string; assignedTo?: string }) => {
+    return apiRequest<{ success: boolean; data: { query: InboundQueryRecord } }>(`/inbound/${id}/escalate`, {
+      method: 'POST',
+      body: JSON.stringify(data || {}),
+    });
+  },
+
+  resolveQuery: async (id: string, resolutionNotes?: string) => {
+    return apiRequest<{ success: boolean; data: { query: InboundQueryRecord } }>(`/inbound/${id}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ resolutionNotes }),
+    });
+  },
+
+  getSlaPolicies: async () => {
+    return apiRequest<{ success: boolean; data: { policies: InboundSlaPolicy[] } }>('/inbound/sla/policies');
+  },
+
+  updateSlaPolicy: async (queryType: InboundQueryType, updates: { firstResponseHours?: number; resolveHours?: number; isActive?: boolean }) => {
+    return apiRequest<{ success: boolean; data: { policy: InboundSlaPolicy } }>(`/inbound/sla/policies/${encodeURIComponent(queryType)}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  },
+
+  downloadExport: async (filters?: InboundQueryFilters) => {
+    const headers = getAuthHeaders();
+    const query = buildInboundParams(filters);
+    const res = await fetch(`${API_BASE_URL}/inbound/export${query ? `?${query}` : ''}`, {
+      method: 'GET',
+      headers,
+    });
+
+    if (!res.ok) {
+      const json = await res.json().catch(() => null);
+      const msg = json?.error?.message || json?.message || `Download failed (${res.status})`;
+      throw new Error(msg);
+    }
+
+    const blob = await res.blob();
+    const contentDisposition = res.headers.get('content-disposition') || '';
+    const match = contentDisposition.match(/filename="([^"]+)"/i);
+    const filename = match?.[1] || 'inbound_queries.xlsx';
+
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    window.URL.revokeObjectURL(url);
+  },
+};
+
 // Sampling Control API (Team Lead)
 export const samplingAPI = {
   getConfig: async () => {
@@ -535,12 +1515,33 @@ export const samplingAPI = {
     autoRunThreshold?: number;
     autoRunActivateFrom?: string | null;
     taskDueInDays?: number;
+    stratification?: Partial<StratificationSettings>;
+    coverage?: Partial<CoverageSettings>;
+    riskWeighting?: Partial<RiskWeightingSettings>;
   }) => {
     return apiRequest('/sampling/config', {
       method: 'PUT',
       body: JSON.stringify(payload),
     });
   },
+  simulate: async (payload: SamplingSimulationCandidate & { forceRun?: boolean }) => {
+    return apiRequest<{ success: boolean; data: SamplingSimulation }>('/sampling/simulate', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+  },
+  verifyAudit: async (activityId: string) => {
+    return apiRequest<{ success: boolean; data: SamplingVerification }>(`/sampling/audit/${activityId}/verify`);
+  },
+  getRetryPolicy: async () => {
+    return apiRequest<{ success: boolean; data: { policy: RetryPolicy } }>('/sampling/retry-policy');
+  },
+  updateRetryPolicy: async (payload: Partial<RetryPolicy>) => {
+    return apiRequest<{ success: boolean; data: { policy: RetryPolicy } }>('/sampling/retry-policy', {
+      method: 'PUT',
+      body: JSON.stringify(payload),
+    });
+  },
   listActivities: async (filters?: {
     lifecycleStatus?: 'active' | 'sampled' | 'inactive' | 'not_eligible';
     type?: string;
@@ -576,6 +1577,12 @@ export const samplingAPI = {
   getLatestRunStatus: async () => {
     return apiRequest('/sampling/run-status/latest');
   },
+  cancelRun: async (runId: string) => {
+    return apiRequest(`/sampling/runs/${runId}/cancel`, { method: 'POST' });
+  },
+  resumeRun: async (runId: string) => {
+    return apiRequest(`/sampling/runs/${runId}/resume`, { method: 'POST' }, undefined, 300000);
+  },
   getFirstSampleRange: async () => {
     return apiRequest('/sampling/first-sample-range');
   },
@@ -613,6 +1620,13 @@ export const samplingAPI = {
       body: JSON.stringify(payload),
     }, undefined, 180000);
   },
+  getCoverage: async (params?: { asOf?: string; belowTargetOnly?: boolean }) => {
+    const qs = new URLSearchParams();
+    if (params?.asOf) qs.set('asOf', params.asOf);
+    if (params?.belowTargetOnly) qs.set('belowTargetOnly', 'true');
+    const suffix = qs.toString() ? `?${qs.toString()}` : '';
+    return apiRequest<{ success: boolean; data: CoverageReport }>(`/sampling/coverage${suffix}`);
+  },
   runSampling: async (payload: {
     runType?: 'first_sample' | 'adhoc';
     activityIds?: string[];
@@ -630,6 +1644,281 @@ export const samplingAPI = {
   },
 };
 
+export const samplingPoliciesAPI = {
+  list: async (isActive?: boolean) => {
+    const qs = isActive === undefined ? '' : `?isActive=${isActive}`;
+    return apiRequest<{ success: boolean; data: { policies: SamplingPolicy[] } }>(`/sampling-policies${qs}`);
+  },
+
+  get: async (policyId: string) => {
+    return apiRequest<{ success: boolean; data: { policy: SamplingPolicy; versions: SamplingPolicyVersion[] } }>(
+      `/sampling-policies/${policyId}`
+    );
+  },
+
+  create: async (payload: SamplingPolicyInput) => {
+    return apiRequest<{ success: boolean; data: { policy: SamplingPolicy } }>('/sampling-policies', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+  },
+
+  /** `version` is the version the edit started from; the API answers 409 if it has been saved since */
+  update: async (policyId: string, payload: SamplingPolicyInput, version: number) => {
+    return apiRequest<{ success: boolean; data: { policy: SamplingPolicy } }>(`/sampling-policies/${policyId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ ...payload, version }),
+    });
+  },
+
+  resolve: async (activityId: string) => {
+    return apiRequest<{
+      success: boolean;
+      data: { policy: { policyId: string; name: string; version: number } | null; percentage: number | null };
+    }>(`/sampling-policies/resolve/${activityId}`);
+  },
+};
+
+// Upstream change reconciliation for sampled activities (Team Lead, MIS Admin)
+export const reconciliationAPI = {
+  list: async (filters?: { status?: ReconciliationStatus; reason?: ReconciliationReason; page?: number; limit?: number }) => {
+    const params = new URLSearchParams();
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.reason) params.append('reason', filters.reason);
+    if (filters?.page) params.append('page', String(filters.page));
+    if (filters?.limit) params.append('limit', String(filters.limit));
+    const query = params.toString();
+    return apiRequest<{
+      success: boolean;
+      data: {
+        items: ReconciliationItem[];
+        counts: Record<ReconciliationStatus, number>;
+        pagination: { page: number; limit: number; total: number; pages: number };
+      };
+    }>(`/reconciliation${query ? `?${query}` : ''}`);
+  },
+
+  get: async (id: string) => {
+    return apiRequest<{ success: boolean; data: ReconciliationDetail }>(`/reconciliation/${id}`);
+  },
+
+  getHistory: async (entityType: 'activity' | 'farmer', entityId: string, page = 1) => {
+    return apiRequest<{
+      success: boolean;
+      data: { entries: ChangeHistoryEntry[]; pagination: { page: number; limit: number; total: number; pages: number } };
+    }>(`/reconciliation/history/${entityType}/${entityId}?page=${page}`);
+  },
+
+  cancelOrphanedTasks: async (id: string, keepOpen = false) => {
+    return apiRequest<{ success: boolean; data: { tasksCancelled: number; tasksKept: number } }>(
+      `/reconciliation/${id}/cancel-orphaned-tasks`,
+      { method: 'POST', body: JSON.stringify({ keepOpen }) }
+    );
+  },
+
+  resample: async (id: string, keepOpen = false) => {
+    return apiRequest<{
+      success: boolean;
+      data: { sampling: { totalFarmers: number; eligibleFarmers: number; sampledCount: number; tasksCreated: number } };
+    }>(`/reconciliation/${id}/resample`, { method: 'POST', body: JSON.stringify({ keepOpen }) });
+  },
+
+  dismiss: async (id: string, note?: string) => {
+    return apiRequest<{ success: boolean; data: ReconciliationItem }>(`/reconciliation/${id}/dismiss`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    });
+  },
+};
+
+export const ingestAPI = {
+  getRules: async () => {
+    return apiRequest<{ success: boolean; data: { rules: IngestRule[] } }>('/ingest/rules');
+  },
+
+  updateRule: async (code: string, severity: IngestRuleSeverity) => {
+    return apiRequest<{ success: boolean; data: { rule: IngestRule } }>(`/ingest/rules/${code}`, {
+      method: 'PUT',
+      body: JSON.stringify({ severity }),
+    });
+  },
+
+  getQuality: async (limit = 25) => {
+    return apiRequest<{ success: boolean; data: { batches: IngestBatchQuality[] } }>(`/ingest/quality?limit=${limit}`);
+  },
+
+  listQuarantine: async (filters?: { status?: QuarantineStatus; source?: IngestSource; dataBatchId?: string; page?: number; limit?: number }) => {
+    const params = new URLSearchParams();
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.source) params.append('source', filters.source);
+    if (filters?.dataBatchId) params.append('dataBatchId', filters.dataBatchId);
+    if (filters?.page) params.append('page', String(filters.page));
+    if (filters?.limit) params.append('limit', String(filters.limit));
+    const query = params.toString();
+    return apiRequest<{
+      success: boolean;
+      data: {
+        items: QuarantinedRecord[];
+        counts: Record<QuarantineStatus, number>;
+        pagination: { page: number; limit: number; total: number; pages: number };
+      };
+    }>(`/ingest/quarantine${query ? `?${query}` : ''}`);
+  },
+
+  release: async (id: string, opts: { payload?: Partial<IngestActivityPayload>; override?: boolean; note?: string } = {}) => {
+    return apiRequest<{
+      success: boolean;
+      data: { record: QuarantinedRecord; activityId: string; farmersSynced: number; farmersDropped: number };
+    }>(`/ingest/quarantine/${id}/release`, { method: 'POST', body: JSON.stringify(opts) });
+  },
+
+  discard: async (id: string, note?: string) => {
+    return apiRequest<{ success: boolean; data: QuarantinedRecord }>(`/ingest/quarantine/${id}/discard`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    });
+  },
+};
+
+export const farmerMergeAPI = {
+  findCandidates: async (filters?: { territory?: string; minScore?: number; limit?: number }) => {
+    const params = new URLSearchParams();
+    if (filters?.territory) params.append('territory', filters.territory);
+    if (filters?.minScore !== undefined) params.append('minScore', String(filters.minScore));
+    if (filters?.limit) params.append('limit', String(filters.limit));
+    const query = params.toString();
+    return apiRequest<{
+      success: boolean;
+      data: { items: DuplicateCandidate[]; total: number; scanned: number; truncated: boolean };
+    }>(`/farmer-merge/candidates${query ? `?${query}` : ''}`);
+  },
+
+  list: async (filters?: { status?: FarmerMergeStatus; farmerId?: string; page?: number; limit?: number }) => {
+    const params = new URLSearchParams();
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.farmerId) params.append('farmerId', filters.farmerId);
+    if (filters?.page) params.append('page', String(filters.page));
+    if (filters?.limit) params.append('limit', String(filters.limit));
+    const query = params.toString();
+    return apiRequest<{
+      success: boolean;
+      data: {
+        items: FarmerMerge[];
+        counts: Record<FarmerMergeStatus, number>;
+        pagination: { page: number; limit: number; total: number; pages: number };
+      };
+    }>(`/farmer-merge${query ? `?${query}` : ''}`);
+  },
+
+  merge: async (survivorId: string, mergedId: string, note?: string) => {
+    return apiRequest<{ success: boolean; data: { merge: FarmerMerge } }>('/farmer-merge', {
+      method: 'POST',
+      body: JSON.stringify({ survivorId, mergedId, note }),
+    });
+  },
+
+  undo: async (id: string) => {
+    return apiRequest<{ success: boolean; data: { merge: FarmerMerge } }>(`/farmer-merge/${id}/undo`, {
+      method: 'POST',
+    });
+  },
+};
+
+const buildDoNotCallParams = (filters?: DoNotCallFilters) => {
+  const params = new URLSearchParams();
+  if (filters?.kind) params.append('kind', filters.kind);
+  if (filters?.source) params.append('source', filters.source);
+  if (filters?.search) params.append('search', filters.search);
+  if (filters?.includeInactive) params.append('includeInactive', 'true');
+  if (filters?.page) params.append('page', String(filters.page));
+  if (filters?.limit) params.append('limit', String(filters.limit));
+  return params.toString();
+};
+
+// Do-not-call / consent registry (Team Lead, MIS Admin)
+export const doNotCallAPI = {
+  list: async (filters?: DoNotCallFilters) => {
+    const query = buildDoNotCallParams(filters);
+    return apiRequest<{
+      success: boolean;
+      data: {
+        entries: DoNotCallEntry[];
+        pagination: { page: number; limit: number; total: number; pages: number };
+        counts: DoNotCallCounts;
+      };
+    }>(`/do-not-call${query ? `?${query}` : ''}`);
+  },
+
+  add: async (payload: { mobileNumber: string; kind: DoNotCallKind; reason: string; expiresAt?: string | null }) => {
+    return apiRequest<{ success: boolean; data: { entry: DoNotCallEntry } }>('/do-not-call', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+  },
+
+  revoke: async (farmerId: string) => {
+    return apiRequest<{ success: boolean; data: { entry: DoNotCallEntry } }>(`/do-not-call/${farmerId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  importExcel: async (file: File) => {
+    const token = getAuthToken();
+    const activeRole = getActiveRole();
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const res = await fetch(`${API_BASE_URL}/do-not-call/import`, {
+      method: 'POST',
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...(activeRole && { 'X-Active-Role': activeRole }),
+      },
+      body: formData,
+    });
+
+    const json = await res.json().catch(() => null);
+    if (!res.ok) {
+      const msg = json?.error?.message || json?.message || `Import failed (${res.status})`;
+      throw new Error(msg);
+    }
+    return json as {
+      success: boolean;
+      message: string;
+      data: { totalRows: number; recorded: number; errors: Array<{ row: number; mobileNumber: string; message: string }> };
+    };
+  },
+
+  downloadExport: async (filters?: DoNotCallFilters) => {
+    const headers = getAuthHeaders();
+    const query = buildDoNotCallParams({ ...filters, page: undefined, limit: undefined });
+    const res = await fetch(`${API_BASE_URL}/do-not-call/export${query ? `?${query}` : ''}`, {
+      method: 'GET',
+      headers,
+    });
+
+    if (!res.ok) {
+      const json = await res.json().catch(() => null);
+      const msg = json?.error?.message || json?.message || `Download failed (${res.status})`;
+      throw new Error(msg);
+    }
+
+    const blob = await res.blob();
+    const contentDisposition = res.headers.get('content-disposition') || '';
+    const match = contentDisposition.match(/filename="([^"]+)"/i);
+    const filename = match?.[1] || 'do_not_call.xlsx';
+
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    window.URL.revokeObjectURL(url);
+  },
+};
+
 // Users API (for MIS Admin)
 export const usersAPI = {
   getUsers: async (filters?: { role?: string; isActive?: boolean; page?: number; limit?: number }) => {
@@ -969,6 +2258,9 @@ export interface EmsProgressSummary {
     not_reachable: number;
     invalid_number: number;
     completionRatePct: number;
+    callAttempts: number;
+    connectedAttempts: number;
+    avgAttemptsPerCalledTask: number;
   };
   farmers: { totalInActivities: number; sampled: number };
 }
@@ -1222,6 +2514,10 @@ export const ffaAPI = {
     return apiRequest('/ffa/sync-progress');
   },
 
+  resetFFACircuit: async () => {
+    return apiRequest<{ success: boolean; message: string; data: FFAClientHealth }>('/ffa/circuit/reset', { method: 'POST' });
+  },
+
   clearData: async (
     clearTransactions: boolean,
     clearMasters: boolean,
@@ -0,0 +1,251 @@
+import type { Express, NextFunction, Request, Response } from 'express';
+
+// ---------------------------------------------------------------------------
+// Fault injection, for testing how EMS sync copes with a misbehaving FFA API.
+// Scenarios can be combined and are switched at runtime through /api/admin/faults
+// (or FFA_FAULTS=latency,server_errors at startup). Transport faults hit every GET
+// on /api/activities and /api/farmers; data faults change the activities list.
+// ---------------------------------------------------------------------------
+
+export type FaultScenario =
+  | 'latency'
+  | 'server_errors'
+  | 'rate_limit'
+  | 'truncated_pages'
+  | 'malformed_dates'
+  | 'duplicate_ids'
+  | 'schema_drift';
+
+export const FAULT_SCENARIOS: Record<FaultScenario, string> = {
+  latency: 'Delay every response by latencyMs (plus up to latencyJitterMs)',
+  server_errors: 'Answer errorRate of requests with errorStatus (5xx)',
+  rate_limit: 'Allow rateLimitBurst requests per retryAfterSeconds window, then 429 with Retry-After',
+  truncated_pages: 'Return only truncateRatio of each activities page; pagination still reports the full page',
+  malformed_dates: 'Every Nth activity gets an unparseable date',
+  duplicate_ids: 'Every Nth activity is sent twice (the copy has a different location)',
+  schema_drift: 'Every Nth activity drifts: alternately no state, or date/mobileNumber renamed to activityDate/mobile',
+};
+
+export interface FaultOptions {
+  latencyMs: number;
+  latencyJitterMs: number;
+  errorRate: number;
+  errorStatus: number;
+  rateLimitBurst: number;
+  retryAfterSeconds: number;
+  truncateRatio: number;
+  /** Data faults affect the activity at every Nth position of the (filtered) list */
+  everyNth: number;
+  /** Seed for errorRate and jitter, so a scenario replays the same way */
+  seed: number;
+}
+
+const DEFAULT_OPTIONS: FaultOptions = {
+  latencyMs: 2000,
+  latencyJitterMs: 0,
+  errorRate: 0.5,
+  errorStatus: 503,
+  rateLimitBurst: 2,
+  retryAfterSeconds: 1,
+  truncateRatio: 0.5,
+  everyNth: 5,
+  seed: 1,
+};
+
+const OPTION_LIMITS: Record<keyof FaultOptions, [number, number]> = {
+  latencyMs: [0, 120000],
+  latencyJitterMs: [0, 120000],
+  errorRate: [0, 1],
+  errorStatus: [500, 599],
+  rateLimitBurst: [0, 10000],
+  retryAfterSeconds: [1, 3600],
+  truncateRatio: [0, 1],
+  everyNth: [1, 10000],
+  seed: [0, 2 ** 32 - 1],
+};
+
+const MALFORMED_DATES = ['31/02/2026', '13/31/2026', 'not-a-date'];
+
+/** Small seeded PRNG (mulberry32) */
+const seededRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const state = {
+  active: new Set<FaultScenario>(),
+  options: { ...DEFAULT_OPTIONS },
+  random: seededRandom(DEFAULT_OPTIONS.seed),
+  requests: 0,
+  injected: {} as Partial<Record<FaultScenario, number>>,
+  windowStart: 0,
+  windowCount: 0,
+};
+
+const isActive = (scenario: FaultScenario) => state.active.has(scenario);
+const count = (scenario: FaultScenario, n = 1) => {
+  state.injected[scenario] = (state.injected[scenario] || 0) + n;
+};
+
+export const getFaults = () => ({
+  active: Array.from(state.active),
+  options: { ...state.options },
+  stats: { requests: state.requests, injected: { ...state.injected } },
+});
+
+/** Replace the active scenarios (an empty list turns faults off); options not given keep their defaults */
+export const setFaults = (scenarios: FaultScenario[], options: Partial<FaultOptions> = {}) => {
+  state.active = new Set(scenarios);
+  state.options = { ...DEFAULT_OPTIONS, ...options };
+  state.random = seededRandom(state.options.seed);
+  state.requests = 0;
+  state.injected = {};
+  state.windowStart = 0;
+  state.windowCount = 0;
+  return getFaults();
+};
+
+const parseScenarios = (value: unknown): FaultScenario[] => {
+  const list = Array.isArray(value) ? value : String(value ?? '').split(',');
+  const names = list.map((s) => String(s).trim()).filter(Boolean);
+  const unknown = names.filter((s) => !(s in FAULT_SCENARIOS));
+  if (unknown.length) throw new Error(`Unknown fault scenario(s): ${unknown.join(', ')}`);
+  return names as FaultScenario[];
+};
+
+const parseOptions = (value: unknown): Partial<FaultOptions> => {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const options: Partial<FaultOptions> = {};
+  for (const [key, raw] of Object.entries(input)) {
+    const limits = OPTION_LIMITS[key as keyof FaultOptions];
+    if (!limits) throw new Error(`Unknown fault option: ${key}`);
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < limits[0] || n > limits[1]) {
+      throw new Error(`${key} must be a number between ${limits[0]} and ${limits[1]}`);
+    }
+    options[key as keyof FaultOptions] = n;
+  }
+  return options;
+};
+
+/** Latency, rate limiting and 5xx for read requests, applied in that order */
+export const transportFaults = (req: Request, res: Response, next: NextFunction) => {
+  if (req.method !== 'GET' || state.active.size === 0) return next();
+  state.requests++;
+  const { options } = state;
+
+  const proceed = () => {
+    if (isActive('rate_limit')) {
+      const now = Date.now();
+      const windowMs = options.retryAfterSeconds * 1000;
+      if (now - state.windowStart >= windowMs) {
+        state.windowStart = now;
+        state.windowCount = 0;
+      }
+      state.windowCount++;
+      if (state.windowCount > options.rateLimitBurst) {
+        count('rate_limit');
+        const retryAfter = Math.max(1, Math.ceil((state.windowStart + windowMs - now) / 1000));
+        res.set('Retry-After', String(retryAfter));
+        return res.status(429).json({ success: false, error: { message: 'Rate limit exceeded' } });
+      }
+    }
+    if (isActive('server_errors') && state.random() < options.errorRate) {
+      count('server_errors');
+      return res.status(options.errorStatus).json({ success: false, error: { message: 'Injected upstream failure' } });
+    }
+    next();
+  };
+
+  if (isActive('latency')) {
+    count('latency');
+    const delay = options.latencyMs + Math.floor(state.random() * options.latencyJitterMs);
+    setTimeout(proceed, delay);
+    return;
+  }
+  proceed();
+};
+
+const drift = (activity: any, variant: number) => {
+  if (variant % 2 === 0) {
+    delete activity.state;
+    return activity;
+  }
+  const { date, ...rest } = activity;
+  return {
+    ...rest,
+    activityDate: date,
+    farmers: (activity.farmers || []).map(({ mobileNumber, ...farmer }: any) => ({ ...farmer, mobile: mobileNumber })),
+  };
+};
+
+/** Data faults for the full (filtered) activities list, before it is paged. The stored activities are not changed. */
+export const applyActivityFaults = (activities: any[]): any[] => {
+  const dataFaults = isActive('malformed_dates') || isActive('duplicate_ids') || isActive('schema_drift');
+  if (!dataFaults) return activities;
+
+  const { everyNth } = state.options;
+  const out: any[] = [];
+  activities.forEach((original, index) => {
+    const hit = (index + 1) % everyNth === 0;
+    const nth = Math.floor((index + 1) / everyNth) - 1;
+    let activity = hit ? structuredClone(original) : original;
+    if (hit && isActive('malformed_dates')) {
+      activity.date = MALFORMED_DATES[nth % MALFORMED_DATES.length];
+      count('malformed_dates');
+    }
+    if (hit && isActive('schema_drift')) {
+      activity = drift(activity, nth);
+      count('schema_drift');
+    }
+    out.push(activity);
+    if (hit && isActive('duplicate_ids')) {
+      out.push({ ...structuredClone(activity), location: `${activity.location} (resent)` });
+      count('duplicate_ids');
+    }
+  });
+  return out;
+};
+
+/** A short page for truncated_pages; the caller keeps reporting the full page in pagination */
+export const truncatePage = <T>(page: T[]): T[] => {
+  if (!isActive('truncated_pages') || page.length === 0) return page;
+  const kept = Math.floor(page.length * state.options.truncateRatio);
+  count('truncated_pages', page.length - kept);
+  return page.slice(0, kept);
+};
+
+export const registerFaultRoutes = (app: Express) => {
+  // Current scenarios, options and how often each fault fired
+  app.get('/api/admin/faults', (req: Request, res: Response) => {
+    res.json({ success: true, data: { ...getFaults(), available: FAULT_SCENARIOS, defaults: DEFAULT_OPTIONS } });
+  });
+
+  // Switch scenarios: { scenarios: ['latency', 'rate_limit'], options: { latencyMs: 500 } }
+  app.put('/api/admin/faults', (req: Request, res: Response) => {
+    try {
+      const body = (req.body || {}) as { scenarios?: unknown; options?: unknown };
+      const faults = setFaults(parseScenarios(body.scenarios ?? []), parseOptions(body.options));
+      console.log(`[Mock FFA] Faults: ${faults.active.join(', ') || 'none'}`);
+      res.json({ success: true, data: faults });
+    } catch (err) {
+      res.status(400).json({ success: false, error: { message: err instanceof Error ? err.message : 'Invalid faults' } });
+    }
+  });
+
+  // Back to normal behaviour
+  app.delete('/api/admin/faults', (req: Request, res: Response) => {
+    res.json({ success: true, data: setFaults([]) });
+  });
+
+  if (process.env.FFA_FAULTS) {
+    setFaults(parseScenarios(process.env.FFA_FAULTS));
+    console.log(`[Mock FFA] Faults from FFA_FAULTS: ${Array.from(state.active).join(', ')}`);
+  }
+};
@@ -1,20 +1,46 @@
 import express, { Express, Request, Response } from 'express';
 import cors from 'cors';
+import crypto from 'crypto';
+import { pathToFileURL } from 'url';
+import { applyActivityFaults, registerFaultRoutes, transportFaults, truncatePage } from './faults.js';
 
-const app: Express = express();
+export const app: Express = express();
 // Cloud Run uses PORT 8080, local development uses 4000
 const PORT = process.env.PORT || 4000;
 
-// Log server start
-console.log(`🚀 Mock FFA API starting on port ${PORT}`);
-
 app.use(cors());
 app.use(express.json());
 
+// Fault injection (see faults.ts); off unless switched on
+registerFaultRoutes(app);
+app.use(['/api/activities', '/api/farmers'], transportFaults);
+
 // Mock data storage (in-memory, resets on server restart)
 let mockActivities: any[] = [];
 let mockFarmers: any[] = [];
 
+// Activities paging: 'page' (page/limit) or 'cursor' (opaque nextCursor, like some FFA deployments)
+let paginationMode: 'page' | 'cursor' = process.env.FFA_PAGINATION === 'cursor' ? 'cursor' : 'page';
+
+app.get('/api/admin/pagination', (req: Request, res: Response) => {
+  res.json({ success: true, data: { mode: paginationMode } });
+});
+
+app.put('/api/admin/pagination', (req: Request, res: Response) => {
+  const mode = req.body?.mode;
+  if (mode !== 'page' && mode !== 'cursor') {
+    return res.status(400).json({ success: false, error: { message: "mode must be 'page' or 'cursor'" } });
+  }
+  paginationMode = mode;
+  res.json({ success: true, data: { mode } });
+});
+
+const encodeCursor = (offset: number) => Buffer.from(`offset:${offset}`).toString('base64url');
+const decodeCursor = (cursor: string): number | null => {
+  const match = /^offset:(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString());
+  return match ? Number(match[1]) : null;
+};
+
 // Indian data constants
 const INDIAN_STATES = [
   'Uttar Pradesh', 'Maharashtra', 'Bihar', 'West Bengal', 'Madhya Pradesh',
@@ -398,6 +424,8 @@ function generateSampleDataWithParams(
         location: `${villageProper}, ${territory}, ${state}`,
         crops: [activityCrops[Math.floor(Math.random() * activityCrops.length)]],
         photoUrl: photoUrl,
+        // A few farmers have opted out of calls in FFA (every 40th), so the EMS registry has something to sync
+        ...(farmerIndex % 40 === 0 ? { doNotCall: true, doNotCallReason: 'Opted out of calls in FFA' } : {}),
       };
       activity.farmers.push(farmer);
       mockFarmers.push(farmer);
@@ -463,6 +491,118 @@ async function fetchMastersFromEMS(): Promise<{ crops: string[]; products: strin
   }
 }
 
+// ---------------------------------------------------------------------------
+// Webhooks: activity changes made through the endpoints below are pushed to EMS
+// (POST /api/ffa/webhook), signed the way EMS expects:
+//   X-FFA-Timestamp: unix seconds
+//   X-FFA-Signature: sha256=<hex HMAC-SHA256 of `${timestamp}.${body}` with FFA_WEBHOOK_SECRET>
+// EMS_WEBHOOK_URL defaults to ${EMS_API_URL}/api/ffa/webhook. Nothing is sent unless both a URL and
+// FFA_WEBHOOK_SECRET are set.
+// ---------------------------------------------------------------------------
+type WebhookEventType = 'activity.created' | 'activity.updated' | 'activity.deleted';
+
+interface WebhookDelivery {
+  eventId: string;
+  type: WebhookEventType;
+  activityId: string;
+  /** Exact JSON that was signed; redelivery sends it again unchanged */
+  body: string;
+  status: 'pending' | 'delivered' | 'failed' | 'skipped';
+  attempts: number;
+  lastStatusCode?: number;
+  lastError?: string;
+  createdAt: string;
+  deliveredAt?: string;
+}
+
+const WEBHOOK_MAX_ATTEMPTS = 3;
+const WEBHOOK_LOG_LIMIT = 200;
+const webhookDeliveries: WebhookDelivery[] = [];
+let webhookSeq = 0;
+
+const getWebhookUrl = (): string => {
+  const explicit = (process.env.EMS_WEBHOOK_URL || '').trim();
+  if (explicit) return explicit;
+  const emsUrl = (process.env.EMS_API_URL || '').trim();
+  return emsUrl ? `${emsUrl.replace(/\/$/, '')}/api/ffa/webhook` : '';
+};
+
+async function deliverWebhook(delivery: WebhookDelivery): Promise<void> {
+  const url = getWebhookUrl();
+  const secret = (process.env.FFA_WEBHOOK_SECRET || '').trim();
+  if (!url || !secret) {
+    delivery.status = 'skipped';
+    delivery.lastError = 'EMS_WEBHOOK_URL (or EMS_API_URL) and FFA_WEBHOOK_SECRET must be set';
+    return;
+  }
+
+  delivery.status = 'pending';
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    delivery.attempts += 1;
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${delivery.body}`).digest('hex');
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-FFA-Timestamp': timestamp,
+          'X-FFA-Signature': `sha256=${signature}`,
+        },
+        body: delivery.body,
+        signal: AbortSignal.timeout(15000),
+      });
+      delivery.lastStatusCode = res.status;
+      if (res.ok) {
+        delivery.status = 'delivered';
+        delivery.deliveredAt = new Date().toISOString();
+        delivery.lastError = undefined;
+        return;
+      }
+      delivery.lastError = `EMS responded ${res.status}`;
+      // 4xx other than 429 will not change on retry (bad signature, bad payload)
+      if (res.status < 500 && res.status !== 429) break;
+    } catch (err) {
+      delivery.lastError = (err as Error).message;
+    }
+    if (attempt < WEBHOOK_MAX_ATTEMPTS) await new Promise((r) => setTimeout(r, 1000 * 2 ** (attempt - 1)));
+  }
+  delivery.status = 'failed';
+  console.warn(`[Mock FFA] Webhook ${delivery.eventId} (${delivery.type} ${delivery.activityId}) failed: ${delivery.lastError}`);
+}
+
+/** Record an event and push it to EMS in the background */
+function emitWebhook(type: WebhookEventType, activity: any): WebhookDelivery {
+  webhookSeq += 1;
+  const eventId = `evt-${Date.now()}-${webhookSeq}`;
+  const event = {
+    eventId,
+    type,
+    occurredAt: new Date().toISOString(),
+    activityId: activity.activityId,
+    ...(type !== 'activity.deleted' && { activity }),
+  };
+  const delivery: WebhookDelivery = {
+    eventId,
+    type,
+    activityId: activity.activityId,
+    body: JSON.stringify(event),
+    status: 'pending',
+    attempts: 0,
+    createdAt: event.occurredAt,
+  };
+  webhookDeliveries.unshift(delivery);
+  webhookDeliveries.splice(WEBHOOK_LOG_LIMIT);
+  void deliverWebhook(delivery);
+  return delivery;
+}
+
+const deliverySummary = ({ body, ...rest }: WebhookDelivery) => rest;
+
+const rebuildFarmers = () => {
+  mockFarmers = mockActivities.flatMap((a) => a.farmers || []);
+};
+
 // Seed/generate data with optional activity count, farmers per activity, hierarchy from Excel, or existing territory/TM/FDA (append, same names)
 app.post('/api/seed', (req: Request, res: Response) => {
   try {
@@ -545,8 +685,15 @@ app.get('/api/health', (req: Request, res: Response) => {
 
 // Get all activities
 app.get('/api/activities', (req: Request, res: Response) => {
-  const { page = 1, limit = 100, dateFrom } = req.query; // dateFrom for incremental sync
-  const skip = (Number(page) - 1) * Number(limit);
+  const { page = 1, limit = 100, dateFrom, cursor } = req.query; // dateFrom for incremental sync
+  let skip = (Number(page) - 1) * Number(limit);
+  if (paginationMode === 'cursor' && typeof cursor === 'string') {
+    const offset = decodeCursor(cursor);
+    if (offset === null) {
+      return res.status(400).json({ success: false, error: { message: 'Invalid cursor' } });
+    }
+    skip = offset;
+  }
 
   // Filter activities by dateFrom if provided (for incremental sync)
   let filteredActivities = mockActivities;
@@ -566,7 +713,23 @@ app.get('/api/activities', (req: Request, res: Response) => {
     console.log(`Filtering activities: ${mockActivities.length} total, ${filteredActivities.length} after ${dateFrom}`);
   }
 
-  const activities = filteredActivities.slice(skip, skip + Number(limit));
+  filteredActivities = applyActivityFaults(filteredActivities);
+  const activities = truncatePage(filteredActivities.slice(skip, skip + Number(limit)));
+
+  if (paginationMode === 'cursor') {
+    const next = skip + Number(limit);
+    return res.json({
+      success: true,
+      data: {
+        activities,
+        pagination: {
+          limit: Number(limit),
+          total: filteredActivities.length,
+          nextCursor: next < filteredActivities.length ? encodeCursor(next) : null,
+        },
+      },
+    });
+  }
 
   res.json({
     success: true,
@@ -600,6 +763,80 @@ app.get('/api/activities/:activityId', (req: Request, res: Response) => {
   });
 });
 
+const REQUIRED_ACTIVITY_FIELDS = ['type', 'date', 'officerId', 'officerName', 'location', 'territory', 'state'];
+
+// Create an activity (emits activity.created)
+app.post('/api/activities', (req: Request, res: Response) => {
+  const body = (req.body || {}) as Record<string, any>;
+  const missing = REQUIRED_ACTIVITY_FIELDS.filter((f) => !String(body[f] ?? '').trim());
+  if (missing.length > 0) {
+    return res.status(400).json({ success: false, error: { message: `Missing fields: ${missing.join(', ')}` } });
+  }
+  const activityId = String(body.activityId || `FFA-ACT-WH-${Date.now()}`).trim();
+  if (mockActivities.some((a) => a.activityId === activityId)) {
+    return res.status(409).json({ success: false, error: { message: 'Activity already exists' } });
+  }
+
+  const activity = {
+    ...body,
+    activityId,
+    territoryName: body.territoryName || body.territory,
+    crops: Array.isArray(body.crops) ? body.crops : [],
+    products: Array.isArray(body.products) ? body.products : [],
+    farmers: Array.isArray(body.farmers) ? body.farmers : [],
+  };
+  mockActivities.unshift(activity);
+  rebuildFarmers();
+  const delivery = emitWebhook('activity.created', activity);
+
+  res.status(201).json({ success: true, data: { activity, webhook: deliverySummary(delivery) } });
+});
+
+// Update an activity (emits activity.updated); activityId cannot change
+app.patch('/api/activities/:activityId', (req: Request, res: Response) => {
+  const activity = mockActivities.find((a) => a.activityId === req.params.activityId);
+  if (!activity) {
+    return res.status(404).json({ success: false, error: { message: 'Activity not found' } });
+  }
+  const { activityId: _ignored, ...changes } = (req.body || {}) as Record<string, any>;
+  Object.assign(activity, changes);
+  if (changes.farmers) rebuildFarmers();
+  const delivery = emitWebhook('activity.updated', activity);
+
+  res.json({ success: true, data: { activity, webhook: deliverySummary(delivery) } });
+});
+
+// Delete an activity (emits activity.deleted)
+app.delete('/api/activities/:activityId', (req: Request, res: Response) => {
+  const index = mockActivities.findIndex((a) => a.activityId === req.params.activityId);
+  if (index === -1) {
+    return res.status(404).json({ success: false, error: { message: 'Activity not found' } });
+  }
+  const [activity] = mockActivities.splice(index, 1);
+  rebuildFarmers();
+  const delivery = emitWebhook('activity.deleted', activity);
+
+  res.json({ success: true, data: { activityId: activity.activityId, webhook: deliverySummary(delivery) } });
+});
+
+// Webhook delivery log (newest first, last 200)
+app.get('/api/webhooks/deliveries', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: { url: getWebhookUrl() || null, deliveries: webhookDeliveries.map(deliverySummary) },
+  });
+});
+
+// Send an event again with the same eventId (EMS should answer duplicate: true)
+app.post('/api/webhooks/redeliver/:eventId', async (req: Request, res: Response) => {
+  const delivery = webhookDeliveries.find((d) => d.eventId === req.params.eventId);
+  if (!delivery) {
+    return res.status(404).json({ success: false, error: { message: 'Delivery not found' } });
+  }
+  await deliverWebhook(delivery);
+  res.json({ success: true, data: deliverySummary(delivery) });
+});
+
 // Get all farmers
 app.get('/api/farmers', (req: Request, res: Response) => {
   const { page = 1, limit = 50 } = req.query;
@@ -623,6 +860,7 @@ app.get('/api/farmers', (req: Request, res: Response) => {
 
 // Start server: fetch masters from EMS (if configured), then generate data and listen
 async function startServer() {
+  console.log(`🚀 Mock FFA API starting on port ${PORT}`);
   const masters = await fetchMastersFromEMS();
   if (masters) {
     CROPS = masters.crops;
@@ -639,7 +877,10 @@ async function startServer() {
   });
 }
 
-startServer().catch((err) => {
-  console.error('Failed to start Mock FFA API:', err);
-  process.exit(1);
-});
+// Only listen when run directly; importing the module (e.g. from EMS backend tests) just builds the app
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  startServer().catch((err) => {
+    console.error('Failed to start Mock FFA API:', err);
+    process.exit(1);
+  });
+}
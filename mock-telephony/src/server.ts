@@ -0,0 +1,274 @@
+import express, { Express, Request, Response } from 'express';
+import cors from 'cors';
+import crypto from 'crypto';
+
+const app: Express = express();
+const PORT = process.env.PORT || 4100;
+// Shared with the EMS backend; sent as X-Telephony-Secret on every event
+const WEBHOOK_SECRET = process.env.TELEPHONY_WEBHOOK_SECRET || '';
+// Optional override for where events go (otherwise the eventUrl sent with each dial)
+const EVENT_URL_OVERRIDE = process.env.SIM_EVENT_URL || '';
+// Seconds an answered call lasts before the farmer hangs up
+const TALK_SECONDS = Number(process.env.SIM_TALK_SECONDS || 120);
+
+console.log(`🚀 Mock Telephony starting on port ${PORT}`);
+
+app.use(cors());
+app.use(express.json());
+
+type Scenario = 'answer' | 'no_answer' | 'busy' | 'invalid_number' | 'unreachable';
+type CallState = 'dialing' | 'ringing' | 'answered' | 'ended';
+
+interface SimCall {
+  callId: string;
+  to: string;
+  reference: string;
+  eventUrl: string;
+  scenario: Scenario;
+  state: CallState;
+  createdAt: string;
+  events: Array<{ event: string; timestamp: string; delivered: boolean }>;
+  timers: NodeJS.Timeout[];
+}
+
+const SCENARIOS: Scenario[] = ['answer', 'no_answer', 'busy', 'invalid_number', 'unreachable'];
+const MAX_CALLS_KEPT = 200;
+
+// In-memory calls (resets on server restart)
+const calls = new Map<string, SimCall>();
+
+/**
+ * Outcome by last digit of the dialled number, so a seeded farmer list gives a predictable mix:
+ * 0 → no answer, 1 → busy, 2 → invalid number, 3 → unreachable, anything else → answered.
+ */
+const scenarioForNumber = (to: string): Scenario => {
+  const last = to.replace(/\D/g, '').slice(-1);
+  switch (last) {
+    case '0':
+      return 'no_answer';
+    case '1':
+      return 'busy';
+    case '2':
+      return 'invalid_number';
+    case '3':
+      return 'unreachable';
+    default:
+      return 'answer';
+  }
+};
+
+async function sendEvent(call: SimCall, event: string, extra: Record<string, unknown> = {}) {
+  const payload = {
+    eventId: crypto.randomUUID(),
+    callId: call.callId,
+    reference: call.reference,
+    event,
+    timestamp: new Date().toISOString(),
+    ...extra,
+  };
+  const record = { event, timestamp: payload.timestamp, delivered: false };
+  call.events.push(record);
+
+  const url = EVENT_URL_OVERRIDE || call.eventUrl;
+  // Same eventId on every retry; EMS ignores replays
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Telephony-Secret': WEBHOOK_SECRET },
+        body: JSON.stringify(payload),
+      });
+      if (res.ok) {
+        record.delivered = true;
+        return;
+      }
+      console.warn(`[Mock Telephony] ${event} for ${call.callId} rejected (${res.status}), attempt ${attempt}`);
+    } catch (err) {
+      console.warn(`[Mock Telephony] ${event} for ${call.callId} failed: ${(err as Error).message}, attempt ${attempt}`);
+    }
+    await new Promise((r) => setTimeout(r, attempt * 1000));
+  }
+}
+
+const schedule = (call: SimCall, delayMs: number, fn: () => void) => {
+  call.timers.push(setTimeout(fn, delayMs));
+};
+
+const endCall = (call: SimCall, cause: string) => {
+  if (call.state === 'ended') return;
+  call.timers.forEach(clearTimeout);
+  call.timers = [];
+  call.state = 'ended';
+  void sendEvent(call, 'hungup', { cause });
+};
+
+/** Event timeline for a scenario; timings are short so a manual test takes seconds, not minutes */
+function runScenario(call: SimCall) {
+  switch (call.scenario) {
+    case 'invalid_number':
+      schedule(call, 1000, () => endCall(call, 'invalid_number'));
+      return;
+    case 'unreachable':
+      schedule(call, 2000, () => endCall(call, 'unreachable'));
+      return;
+    case 'busy':
+      schedule(call, 1000, () => {
+        call.state = 'ringing';
+        void sendEvent(call, 'ringing');
+      });
+      schedule(call, 2500, () => endCall(call, 'busy'));
+      return;
+    case 'no_answer':
+      schedule(call, 1000, () => {
+        call.state = 'ringing';
+        void sendEvent(call, 'ringing');
+      });
+      schedule(call, 20000, () => endCall(call, 'no_answer'));
+      return;
+    case 'answer':
+      schedule(call, 1000, () => {
+        call.state = 'ringing';
+        void sendEvent(call, 'ringing');
+      });
+      schedule(call, 4000, () => {
+        call.state = 'answered';
+        void sendEvent(call, 'answered');
+        schedule(call, TALK_SECONDS * 1000, () => endCall(call, 'normal'));
+      });
+      return;
+  }
+}
+
+const toResponse = ({ timers, ...call }: SimCall) => call;
+
+const findCall = (req: Request, res: Response): SimCall | null => {
+  const call = calls.get(req.params.callId);
+  if (!call) {
+    res.status(404).json({ success: false, error: { message: 'Call not found' } });
+    return null;
+  }
+  return call;
+};
+
+// Health check endpoint
+app.get('/api/health', (req: Request, res: Response) => {
+  const active = [...calls.values()].filter((c) => c.state !== 'ended').length;
+  res.json({
+    success: true,
+    message: 'Mock Telephony is running',
+    data: { calls: calls.size, activeCalls: active, webhookSecretSet: !!WEBHOOK_SECRET },
+  });
+});
+
+// Place a call (click-to-dial). Body: { to, eventUrl, reference, scenario? }
+app.post('/api/calls', (req: Request, res: Response) => {
+  const { to, eventUrl, reference, scenario } = req.body || {};
+  if (!to || typeof to !== 'string') {
+    return res.status(400).json({ success: false, error: { message: 'to is required' } });
+  }
+  if (!EVENT_URL_OVERRIDE && (!eventUrl || typeof eventUrl !== 'string')) {
+    return res.status(400).json({ success: false, error: { message: 'eventUrl is required' } });
+  }
+  if (scenario !== undefined && !SCENARIOS.includes(scenario)) {
+    return res.status(400).json({ success: false, error: { message: `scenario must be one of ${SCENARIOS.join(', ')}` } });
+  }
+
+  const call: SimCall = {
+    callId: `SIM-${crypto.randomUUID()}`,
+    to,
+    reference: String(reference || ''),
+    eventUrl: String(eventUrl || ''),
+    scenario: scenario || (process.env.SIM_SCENARIO as Scenario) || scenarioForNumber(to),
+    state: 'dialing',
+    createdAt: new Date().toISOString(),
+    events: [],
+    timers: [],
+  };
+  calls.set(call.callId, call);
+  if (calls.size > MAX_CALLS_KEPT) {
+    const oldest = calls.keys().next().value;
+    if (oldest) calls.delete(oldest);
+  }
+
+  runScenario(call);
+  console.log(`[Mock Telephony] Dialing ${to} (${call.scenario}) → ${call.callId}`);
+
+  res.status(201).json({ success: true, data: { callId: call.callId, scenario: call.scenario } });
+});
+
+// Recent calls, newest first
+app.get('/api/calls', (req: Request, res: Response) => {
+  const list = [...calls.values()].reverse().map(toResponse);
+  res.json({ success: true, data: { calls: list } });
+});
+
+app.get('/api/calls/:callId', (req: Request, res: Response) => {
+  const call = findCall(req, res);
+  if (!call) return;
+  res.json({ success: true, data: { call: toResponse(call) } });
+});
+
+// Agent hangs up
+app.post('/api/calls/:callId/hangup', (req: Request, res: Response) => {
+  const call = findCall(req, res);
+  if (!call) return;
+  endCall(call, call.state === 'answered' ? 'normal' : 'agent_hangup');
+  res.json({ success: true, data: { call: toResponse(call) } });
+});
+
+// Agent sends DTMF. EMS records outbound tones itself, so nothing is echoed back.
+app.post('/api/calls/:callId/dtmf', (req: Request, res: Response) => {
+  const call = findCall(req, res);
+  if (!call) return;
+  if (call.state !== 'answered') {
+    return res.status(409).json({ success: false, error: { message: 'Call is not answered' } });
+  }
+  console.log(`[Mock Telephony] Agent sent DTMF ${req.body?.digits} on ${call.callId}`);
+  res.json({ success: true, data: { call: toResponse(call) } });
+});
+
+// --- Test controls: act as the farmer's side of the call ---
+
+// Farmer presses keys (inbound DTMF event)
+app.post('/api/calls/:callId/press', (req: Request, res: Response) => {
+  const call = findCall(req, res);
+  if (!call) return;
+  const digits = String(req.body?.digits || '');
+  if (!/^[0-9*#]+$/.test(digits)) {
+    return res.status(400).json({ success: false, error: { message: 'digits must be 0-9, * or #' } });
+  }
+  if (call.state !== 'answered') {
+    return res.status(409).json({ success: false, error: { message: 'Call is not answered' } });
+  }
+  void sendEvent(call, 'dtmf', { digits, direction: 'inbound' });
+  res.json({ success: true, data: { call: toResponse(call) } });
+});
+
+// Farmer answers now (skips the remaining ring time)
+app.post('/api/calls/:callId/answer', (req: Request, res: Response) => {
+  const call = findCall(req, res);
+  if (!call) return;
+  if (call.state !== 'dialing' && call.state !== 'ringing') {
+    return res.status(409).json({ success: false, error: { message: `Call is ${call.state}` } });
+  }
+  call.timers.forEach(clearTimeout);
+  call.timers = [];
+  call.state = 'answered';
+  void sendEvent(call, 'answered');
+  schedule(call, TALK_SECONDS * 1000, () => endCall(call, 'normal'));
+  res.json({ success: true, data: { call: toResponse(call) } });
+});
+
+// Farmer hangs up
+app.post('/api/calls/:callId/remote-hangup', (req: Request, res: Response) => {
+  const call = findCall(req, res);
+  if (!call) return;
+  endCall(call, call.state === 'answered' ? 'normal' : 'no_answer');
+  res.json({ success: true, data: { call: toResponse(call) } });
+});
+
+app.listen(PORT, () => {
+  console.log(`🚀 Mock Telephony running on port ${PORT}`);
+  console.log(`🔐 Webhook secret ${WEBHOOK_SECRET ? 'set' : 'NOT set (EMS will reject events)'}`);
+  console.log(`🔗 Health check: http://localhost:${PORT}/api/health`);
+});